@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX IF EXISTS "payments_order_id_key";
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "payments_order_id_status_idx" ON "payments"("order_id", "status");
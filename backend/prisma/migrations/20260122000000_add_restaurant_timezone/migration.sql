@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "timezone" TEXT NOT NULL DEFAULT 'Asia/Ho_Chi_Minh';
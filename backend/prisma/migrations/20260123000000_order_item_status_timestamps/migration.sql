@@ -0,0 +1,5 @@
+-- AlterTable
+-- Existing rows stay NULL: updated_at is not a reliable source for these
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "started_at" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "ready_at" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "served_at" TIMESTAMP(3);
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "kitchen_stations" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kitchen_stations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "kitchen_stations_restaurant_id_name_key" ON "kitchen_stations"("restaurant_id", "name");
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "station_id" INTEGER;
+ALTER TABLE "menu_items" ADD COLUMN IF NOT EXISTS "station_id" INTEGER;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "station_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "order_items_station_id_status_idx" ON "order_items"("station_id", "status");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "kitchen_stations" ADD CONSTRAINT "kitchen_stations_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "categories" ADD CONSTRAINT "categories_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "kitchen_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "menu_items" ADD CONSTRAINT "menu_items_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "kitchen_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "order_items" ADD CONSTRAINT "order_items_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "kitchen_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "restaurant_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "users_restaurant_id_idx" ON "users"("restaurant_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "users" ADD CONSTRAINT "users_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
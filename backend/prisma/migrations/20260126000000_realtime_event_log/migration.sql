@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "event_sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "realtime_events" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "event" TEXT NOT NULL,
+    "rooms" TEXT[],
+    "payload" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtime_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "realtime_events_restaurant_id_sequence_key" ON "realtime_events"("restaurant_id", "sequence");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "realtime_events_created_at_idx" ON "realtime_events"("created_at");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "realtime_events" ADD CONSTRAINT "realtime_events_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,43 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "ReservationStatus" AS ENUM ('BOOKED', 'SEATED', 'CANCELLED', 'NO_SHOW');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "reservations" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "table_id" INTEGER,
+    "party_size" INTEGER NOT NULL,
+    "reserved_at" TIMESTAMP(3) NOT NULL,
+    "duration_minutes" INTEGER NOT NULL DEFAULT 90,
+    "contact_name" TEXT NOT NULL,
+    "contact_phone" TEXT NOT NULL,
+    "contact_email" TEXT,
+    "note" TEXT,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'BOOKED',
+    "seated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "reservations_restaurant_id_reserved_at_idx" ON "reservations"("restaurant_id", "reserved_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "reservations_table_id_idx" ON "reservations"("table_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "reservations" ADD CONSTRAINT "reservations_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "reservations" ADD CONSTRAINT "reservations_table_id_fkey" FOREIGN KEY ("table_id") REFERENCES "tables"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
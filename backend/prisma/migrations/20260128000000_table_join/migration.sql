@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "tables" ADD COLUMN IF NOT EXISTS "joined_to_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tables_joined_to_id_idx" ON "tables"("joined_to_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "tables" ADD CONSTRAINT "tables_joined_to_id_fkey" FOREIGN KEY ("joined_to_id") REFERENCES "tables"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
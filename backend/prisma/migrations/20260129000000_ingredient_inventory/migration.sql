@@ -0,0 +1,108 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "StockMovementType" AS ENUM ('PURCHASE', 'CONSUMPTION', 'WASTE', 'ADJUSTMENT');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ingredients" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "stock_quantity" DECIMAL(12,3) NOT NULL DEFAULT 0,
+    "low_stock_threshold" DECIMAL(12,3) NOT NULL DEFAULT 0,
+    "cost_per_unit" DECIMAL(10,4) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ingredients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "recipe_ingredients" (
+    "menu_item_id" INTEGER NOT NULL,
+    "ingredient_id" INTEGER NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("menu_item_id","ingredient_id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "modifier_option_ingredients" (
+    "modifier_option_id" INTEGER NOT NULL,
+    "ingredient_id" INTEGER NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+
+    CONSTRAINT "modifier_option_ingredients_pkey" PRIMARY KEY ("modifier_option_id","ingredient_id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "stock_movements" (
+    "id" SERIAL NOT NULL,
+    "ingredient_id" INTEGER NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+    "order_id" INTEGER,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ingredients_restaurant_id_name_key" ON "ingredients"("restaurant_id", "name");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "recipe_ingredients_ingredient_id_idx" ON "recipe_ingredients"("ingredient_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "modifier_option_ingredients_ingredient_id_idx" ON "modifier_option_ingredients"("ingredient_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "stock_movements_ingredient_id_created_at_idx" ON "stock_movements"("ingredient_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "stock_movements_order_id_idx" ON "stock_movements"("order_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "ingredients" ADD CONSTRAINT "ingredients_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_menu_item_id_fkey" FOREIGN KEY ("menu_item_id") REFERENCES "menu_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_ingredient_id_fkey" FOREIGN KEY ("ingredient_id") REFERENCES "ingredients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "modifier_option_ingredients" ADD CONSTRAINT "modifier_option_ingredients_modifier_option_id_fkey" FOREIGN KEY ("modifier_option_id") REFERENCES "modifier_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "modifier_option_ingredients" ADD CONSTRAINT "modifier_option_ingredients_ingredient_id_fkey" FOREIGN KEY ("ingredient_id") REFERENCES "ingredients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_ingredient_id_fkey" FOREIGN KEY ("ingredient_id") REFERENCES "ingredients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
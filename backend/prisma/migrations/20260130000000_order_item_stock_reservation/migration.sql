@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE IF NOT EXISTS 'RELEASE';
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "stock_reserved" BOOLEAN NOT NULL DEFAULT false;
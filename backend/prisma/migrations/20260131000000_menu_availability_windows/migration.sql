@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "availability_windows" (
+    "id" SERIAL NOT NULL,
+    "menu_item_id" INTEGER,
+    "category_id" INTEGER,
+    "days_of_week" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "start_date" DATE,
+    "end_date" DATE,
+
+    CONSTRAINT "availability_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "availability_windows_menu_item_id_idx" ON "availability_windows"("menu_item_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "availability_windows_category_id_idx" ON "availability_windows"("category_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "availability_windows" ADD CONSTRAINT "availability_windows_menu_item_id_fkey" FOREIGN KEY ("menu_item_id") REFERENCES "menu_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "availability_windows" ADD CONSTRAINT "availability_windows_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
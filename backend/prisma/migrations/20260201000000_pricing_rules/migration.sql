@@ -0,0 +1,65 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "pricing_rules" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "discount_type" "DiscountType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "menu_item_id" INTEGER,
+    "category_id" INTEGER,
+    "modifier_option_id" INTEGER,
+    "days_of_week" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "start_date" DATE,
+    "end_date" DATE,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "list_price" DECIMAL(10,2);
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "pricing_rule_id" INTEGER;
+ALTER TABLE "order_items" ADD COLUMN IF NOT EXISTS "pricing_rule_name" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "pricing_rules_restaurant_id_is_active_idx" ON "pricing_rules"("restaurant_id", "is_active");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_menu_item_id_fkey" FOREIGN KEY ("menu_item_id") REFERENCES "menu_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_modifier_option_id_fkey" FOREIGN KEY ("modifier_option_id") REFERENCES "modifier_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "order_items" ADD CONSTRAINT "order_items_pricing_rule_id_fkey" FOREIGN KEY ("pricing_rule_id") REFERENCES "pricing_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "promo_codes" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discount_type" "DiscountType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "max_discount" DECIMAL(10,2),
+    "min_spend" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "usage_limit" INTEGER,
+    "per_user_limit" INTEGER,
+    "used_count" INTEGER NOT NULL DEFAULT 0,
+    "starts_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "promo_code_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "promo_codes_restaurant_id_code_key" ON "promo_codes"("restaurant_id", "code");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "orders_promo_code_id_idx" ON "orders"("promo_code_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "orders" ADD CONSTRAINT "orders_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
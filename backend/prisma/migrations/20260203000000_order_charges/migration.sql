@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "tax_rate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE "restaurants" ADD COLUMN IF NOT EXISTS "service_charge_rate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "subtotal" DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "service_charge_rate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "service_charge" DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tax_rate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tax_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tip_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Backfill: existing orders had no charges, so the subtotal is the total before the promo discount
+UPDATE "orders" SET "subtotal" = "total_amount" + "discount_amount" WHERE "subtotal" = 0;
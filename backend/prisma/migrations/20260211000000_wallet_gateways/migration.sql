@@ -0,0 +1,12 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "PaymentProvider" AS ENUM ('STRIPE', 'MOMO', 'VNPAY', 'ZALOPAY');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "provider" "PaymentProvider";
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "gateway_reference" TEXT;
+
+-- Every non-cash payment so far went through Stripe
+UPDATE "payments" SET "provider" = 'STRIPE' WHERE "method" <> 'CASH' AND "provider" IS NULL;
@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE IF NOT EXISTS 'EXPIRED';
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "PaymentDiscrepancyType" AS ENUM ('GATEWAY_AMOUNT', 'ORDER_TOTAL', 'MISSED_CALLBACK');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "payment_discrepancies" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "payment_id" INTEGER,
+    "type" "PaymentDiscrepancyType" NOT NULL,
+    "expected_amount" DECIMAL(10,2) NOT NULL,
+    "actual_amount" DECIMAL(10,2) NOT NULL,
+    "note" TEXT,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "payment_discrepancies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "payment_discrepancies_restaurant_id_detected_at_idx" ON "payment_discrepancies"("restaurant_id", "detected_at");
+CREATE INDEX IF NOT EXISTS "payment_discrepancies_order_id_idx" ON "payment_discrepancies"("order_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "payment_discrepancies" ADD CONSTRAINT "payment_discrepancies_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "payment_discrepancies" ADD CONSTRAINT "payment_discrepancies_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "payment_discrepancies" ADD CONSTRAINT "payment_discrepancies_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,56 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "CashShiftStatus" AS ENUM ('OPEN', 'CLOSED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "cash_shifts" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "cashier_id" INTEGER NOT NULL,
+    "status" "CashShiftStatus" NOT NULL DEFAULT 'OPEN',
+    "opening_float" DECIMAL(10,2) NOT NULL,
+    "expected_cash" DECIMAL(10,2),
+    "counted_cash" DECIMAL(10,2),
+    "over_short" DECIMAL(10,2),
+    "note" TEXT,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+
+    CONSTRAINT "cash_shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "shift_id" INTEGER;
+ALTER TABLE "refunds" ADD COLUMN IF NOT EXISTS "shift_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "cash_shifts_restaurant_id_opened_at_idx" ON "cash_shifts"("restaurant_id", "opened_at");
+CREATE INDEX IF NOT EXISTS "cash_shifts_cashier_id_status_idx" ON "cash_shifts"("cashier_id", "status");
+CREATE INDEX IF NOT EXISTS "payments_shift_id_idx" ON "payments"("shift_id");
+CREATE INDEX IF NOT EXISTS "refunds_shift_id_idx" ON "refunds"("shift_id");
+
+-- One open drawer per cashier
+CREATE UNIQUE INDEX IF NOT EXISTS "cash_shifts_cashier_id_open_key" ON "cash_shifts"("cashier_id") WHERE "status" = 'OPEN';
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_cashier_id_fkey" FOREIGN KEY ("cashier_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "payments" ADD CONSTRAINT "payments_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "refunds" ADD CONSTRAINT "refunds_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
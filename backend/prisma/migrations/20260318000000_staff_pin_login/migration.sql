@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "pin_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "staff_devices" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staff_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "staff_devices_token_hash_key" ON "staff_devices"("token_hash");
+CREATE INDEX IF NOT EXISTS "staff_devices_restaurant_id_idx" ON "staff_devices"("restaurant_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "staff_devices" ADD CONSTRAINT "staff_devices_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "staff_roles" (
+    "id" SERIAL NOT NULL,
+    "restaurant_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "staff_role_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "staff_roles_restaurant_id_name_key" ON "staff_roles"("restaurant_id", "name");
+CREATE INDEX IF NOT EXISTS "users_staff_role_id_idx" ON "users"("staff_role_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "staff_roles" ADD CONSTRAINT "staff_roles_restaurant_id_fkey" FOREIGN KEY ("restaurant_id") REFERENCES "restaurants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "users" ADD CONSTRAINT "users_staff_role_id_fkey" FOREIGN KEY ("staff_role_id") REFERENCES "staff_roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
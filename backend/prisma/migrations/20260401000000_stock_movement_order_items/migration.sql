@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN IF NOT EXISTS "order_item_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "stock_movements_order_item_id_idx" ON "stock_movements"("order_item_id");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
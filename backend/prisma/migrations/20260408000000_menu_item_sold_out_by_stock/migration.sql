@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN IF NOT EXISTS "sold_out_by_stock" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ALTER COLUMN "ingredient_id" DROP NOT NULL;
+ALTER TABLE "stock_movements" ADD COLUMN IF NOT EXISTS "menu_item_id" INTEGER;
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_menu_item_id_fkey" FOREIGN KEY ("menu_item_id") REFERENCES "menu_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
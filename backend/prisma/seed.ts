@@ -85,6 +85,20 @@ function randomDateWithWeekendBias(days: number): Date {
     return date
 }
 
+/**
+ * Generate kitchen timestamps for a served item of an order placed at orderDate
+ * Queue 1-6 min, cook 5-20 min, pass 1-4 min
+ */
+function servedItemTimestamps(orderDate: Date) {
+    const minutes = (min: number, max: number) =>
+        (min + Math.random() * (max - min)) * 60000
+    const startedAt = new Date(orderDate.getTime() + minutes(1, 6))
+    const readyAt = new Date(startedAt.getTime() + minutes(5, 20))
+    const servedAt = new Date(readyAt.getTime() + minutes(1, 4))
+
+    return { createdAt: orderDate, startedAt, readyAt, servedAt }
+}
+
 /**
  * Clean all existing data in the correct order
  */
@@ -126,6 +140,9 @@ async function cleanDatabase() {
         await prisma.category.deleteMany()
         console.log('  ✓ Deleted Categories')
 
+        await prisma.kitchenStation.deleteMany()
+        console.log('  ✓ Deleted KitchenStations')
+
         await prisma.table.deleteMany()
         console.log('  ✓ Deleted Tables')
 
@@ -172,6 +189,7 @@ async function seedDatabase() {
                 passwordHash,
                 fullName: 'Admin User',
                 role: UserRole.ADMIN,
+                restaurantId: restaurant.id,
             },
         })
         console.log(`  ✓ Created admin: ${admin.email}`)
@@ -182,6 +200,7 @@ async function seedDatabase() {
                 passwordHash,
                 fullName: 'Waiter User',
                 role: UserRole.WAITER,
+                restaurantId: restaurant.id,
             },
         })
         console.log(`  ✓ Created waiter: ${waiter.email}`)
@@ -192,6 +211,7 @@ async function seedDatabase() {
                 passwordHash,
                 fullName: 'Kitchen Staff',
                 role: UserRole.KITCHEN,
+                restaurantId: restaurant.id,
             },
         })
         console.log(`  ✓ Created kitchen: ${kitchen.email}`)
@@ -206,6 +226,40 @@ async function seedDatabase() {
         })
         console.log(`  ✓ Created customer: ${customer.email}\n`)
 
+        // Custom staff roles, built from permissions
+        for (const role of [
+            {
+                name: 'Shift manager',
+                permissions: [
+                    'orders.void',
+                    'payments.refund',
+                    'reports.view',
+                    'payments.cash',
+                    'shifts.manage',
+                    'reservations.manage',
+                    'tables.manage',
+                ],
+            },
+            {
+                name: 'Cashier',
+                permissions: [
+                    'payments.refund',
+                    'payments.cash',
+                    'shifts.manage',
+                ],
+            },
+            {
+                name: 'Host',
+                permissions: ['reservations.manage', 'tables.manage'],
+            },
+        ]) {
+            await prisma.staffRole.create({
+                data: { ...role, restaurantId: restaurant.id },
+            })
+            console.log(`  ✓ Created staff role: ${role.name}`)
+        }
+        console.log('')
+
         // 3. Create Tables
         console.log('🪑 Creating tables...')
         const tables: Array<{
@@ -233,7 +287,23 @@ async function seedDatabase() {
         }
         console.log(`  ✓ Created ${tables.length} tables\n`)
 
-        // 4. Create Categories
+        // 4. Create Kitchen Stations and Categories
+        console.log('🔥 Creating kitchen stations...')
+        const stations = new Map<string, number>()
+        const stationNames = ['Grill', 'Wok', 'Cold', 'Bar']
+        for (const [index, name] of stationNames.entries()) {
+            const station = await prisma.kitchenStation.create({
+                data: {
+                    restaurantId: restaurant.id,
+                    name,
+                    rank: index + 1,
+                },
+            })
+            stations.set(name, station.id)
+            console.log(`  ✓ Created station: ${station.name}`)
+        }
+        console.log('')
+
         console.log('📋 Creating categories...')
         const categories: Array<{
             id: number
@@ -241,13 +311,16 @@ async function seedDatabase() {
             restaurantId: number
             image: string | null
             rank: number
+            stationId: number | null
         }> = []
         const categoryData = [
-            { name: 'Starters', rank: 1 },
-            { name: 'Mains', rank: 2 },
-            { name: 'Drinks', rank: 3 },
-            { name: 'Desserts', rank: 4 },
+            { name: 'Starters', rank: 1, station: 'Cold' },
+            { name: 'Mains', rank: 2, station: 'Grill' },
+            { name: 'Drinks', rank: 3, station: 'Bar' },
+            { name: 'Desserts', rank: 4, station: 'Cold' },
         ]
+        // Default station of each category, used to route seeded order items
+        const stationByCategory = new Map<number, number>()
 
         for (const catData of categoryData) {
             const category = await prisma.category.create({
@@ -255,9 +328,13 @@ async function seedDatabase() {
                     restaurantId: restaurant.id,
                     name: catData.name,
                     rank: catData.rank,
+                    stationId: stations.get(catData.station),
                 },
             })
             categories.push(category)
+            if (category.stationId) {
+                stationByCategory.set(category.id, category.stationId)
+            }
             console.log(`  ✓ Created category: ${category.name}`)
         }
         console.log('')
@@ -502,9 +579,12 @@ async function seedDatabase() {
             restaurantId: number
             description: string | null
             status: ItemStatus
+            stationId: number | null
             createdAt: Date
             updatedAt: Date
         }> = []
+        // Wok dishes override their category's station
+        const wokItems = ['Seafood Fried Rice', 'Beef Noodles', 'Pad Thai']
         for (const itemData of menuItemsData) {
             const menuItem = await prisma.menuItem.create({
                 data: {
@@ -514,6 +594,9 @@ async function seedDatabase() {
                     description: itemData.description,
                     basePrice: itemData.price,
                     status: ItemStatus.AVAILABLE,
+                    stationId: wokItems.includes(itemData.name)
+                        ? stations.get('Wok')
+                        : undefined,
                     modifierGroups:
                         itemData.modifierGroupIds.length > 0
                             ? {
@@ -533,6 +616,14 @@ async function seedDatabase() {
                 `  ✓ Created: ${menuItem.name} (${itemData.price.toLocaleString()} VND)`
             )
         }
+        const stationByMenuItem = new Map(
+            menuItems.map((item) => [
+                item.id,
+                item.stationId ??
+                    stationByCategory.get(item.categoryId) ??
+                    null,
+            ])
+        )
         console.log(`  ✓ Created ${menuItems.length} menu items\n`)
 
         // 8. Create Historical Orders (100+ orders over last 30 days)
@@ -563,10 +654,15 @@ async function seedDatabase() {
                 // Create order items - make Grilled Salmon and Coke popular
                 const orderItems: Array<{
                     menuItemId: number
+                    stationId: number | null
                     name: string
                     quantity: number
                     pricePerUnit: number
                     status: OrderItemStatus
+                    createdAt: Date
+                    startedAt: Date
+                    readyAt: Date
+                    servedAt: Date
                     modifiers: {
                         create: Array<{
                             modifierName: string
@@ -643,10 +739,13 @@ async function seedDatabase() {
 
                     orderItems.push({
                         menuItemId: selectedItem.id,
+                        stationId:
+                            stationByMenuItem.get(selectedItem.id) ?? null,
                         name: selectedItem.name,
                         quantity,
                         pricePerUnit,
                         status: OrderItemStatus.SERVED,
+                        ...servedItemTimestamps(orderDate),
                         modifiers: {
                             create: modifiers,
                         },
@@ -666,6 +765,7 @@ async function seedDatabase() {
                     userId: randomCustomer?.id,
                     waiterId: randomWaiter?.id,
                     status: OrderStatus.COMPLETED,
+                    subtotal: totalAmount,
                     totalAmount,
                     guestCount: Math.floor(Math.random() * 4) + 1,
                     createdAt: orderDate,
@@ -673,7 +773,7 @@ async function seedDatabase() {
                     items: {
                         create: orderItems,
                     },
-                    payment: {
+                    payments: {
                         create: {
                             amount: totalAmount,
                             method: [
@@ -726,10 +826,15 @@ async function seedDatabase() {
             // Create order items - make Grilled Salmon and Coke popular
             const orderItems: Array<{
                 menuItemId: number
+                stationId: number | null
                 name: string
                 quantity: number
                 pricePerUnit: number
                 status: OrderItemStatus
+                createdAt: Date
+                startedAt: Date
+                readyAt: Date
+                servedAt: Date
                 modifiers: {
                     create: Array<{
                         modifierName: string
@@ -802,10 +907,12 @@ async function seedDatabase() {
 
                 orderItems.push({
                     menuItemId: selectedItem.id,
+                    stationId: stationByMenuItem.get(selectedItem.id) ?? null,
                     name: selectedItem.name,
                     quantity,
                     pricePerUnit,
                     status: OrderItemStatus.SERVED,
+                    ...servedItemTimestamps(orderDate),
                     modifiers: {
                         create: modifiers,
                     },
@@ -824,6 +931,7 @@ async function seedDatabase() {
                     userId: randomCustomer?.id,
                     waiterId: randomWaiter?.id,
                     status: OrderStatus.COMPLETED,
+                    subtotal: totalAmount,
                     totalAmount: totalAmount,
                     guestCount: Math.floor(Math.random() * 4) + 1,
                     createdAt: orderDate,
@@ -831,7 +939,7 @@ async function seedDatabase() {
                     items: {
                         create: orderItems,
                     },
-                    payment: {
+                    payments: {
                         create: {
                             amount: totalAmount,
                             method: [
@@ -872,6 +980,7 @@ async function seedDatabase() {
                 // Create order items
                 const orderItems: Array<{
                     menuItemId: number
+                    stationId: number | null
                     name: string
                     quantity: number
                     pricePerUnit: number
@@ -958,6 +1067,8 @@ async function seedDatabase() {
 
                     orderItems.push({
                         menuItemId: selectedItem.id,
+                        stationId:
+                            stationByMenuItem.get(selectedItem.id) ?? null,
                         name: selectedItem.name,
                         quantity,
                         pricePerUnit,
@@ -980,6 +1091,7 @@ async function seedDatabase() {
                         tableId: randomTable.id,
                         waiterId: randomWaiter?.id,
                         status: orderGroup.status,
+                        subtotal: totalAmount,
                         totalAmount,
                         guestCount: Math.floor(Math.random() * 4) + 1,
                         createdAt: orderDate,
@@ -1003,6 +1115,7 @@ async function seedDatabase() {
         console.log(`   - 1 Restaurant: ${restaurant.name}`)
         console.log(`   - 4 Users (Admin, Waiter, Kitchen, Customer)`)
         console.log(`   - ${tables.length} Tables`)
+        console.log(`   - ${stations.size} Kitchen Stations`)
         console.log(`   - ${categories.length} Categories`)
         console.log(`   - 2 Modifier Groups`)
         console.log(`   - ${menuItems.length} Menu Items`)
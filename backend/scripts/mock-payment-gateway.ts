@@ -0,0 +1,711 @@
+/**
+ * Local mock of the MoMo, VNPay and ZaloPay sandboxes
+ *
+ * Accepts the same signed requests as the real gateways, shows a page to
+ * approve or cancel the payment, then sends the signed IPN to the backend
+ * and redirects to the return URL, so wallet payments work offline.
+ * Status queries answer from the payments completed since it started.
+ *
+ * Point the backend at it (see .env.example) and run:
+ *   pnpm run mock:gateway
+ */
+import * as http from 'http'
+import * as crypto from 'crypto'
+
+const port = Number(process.env.MOCK_GATEWAY_PORT) || 8888
+const baseUrl = `http://localhost:${port}`
+
+const momo = {
+    partnerCode: process.env.MOMO_PARTNER_CODE || '',
+    accessKey: process.env.MOMO_ACCESS_KEY || '',
+    secretKey: process.env.MOMO_SECRET_KEY || '',
+}
+const vnpay = {
+    tmnCode: process.env.VNPAY_TMN_CODE || '',
+    hashSecret: process.env.VNPAY_HASH_SECRET || '',
+    // VNPay calls the IPN URL registered in its merchant portal
+    ipnUrl:
+        process.env.VNPAY_IPN_URL ||
+        `${process.env.APP_BASE_URL || 'http://localhost:3000'}/api/payments/callback/vnpay`,
+}
+const zalopay = {
+    appId: process.env.ZALOPAY_APP_ID || '',
+    key1: process.env.ZALOPAY_KEY1 || '',
+    key2: process.env.ZALOPAY_KEY2 || '',
+}
+
+type Provider = 'momo' | 'vnpay' | 'zalopay'
+
+interface PendingPayment {
+    provider: Provider
+    amount: number
+    description: string
+    params: Record<string, string>
+}
+
+interface CompletedPayment {
+    approved: boolean
+    amount: number
+    transactionId: string
+}
+
+// Payments waiting on the approve / cancel page, by token
+const pending = new Map<string, PendingPayment>()
+// Approved or cancelled payments, by the merchant's order reference
+const completed = new Map<string, CompletedPayment>()
+
+function hmac(algorithm: 'sha256' | 'sha512', key: string, data: string) {
+    return crypto.createHmac(algorithm, key).update(data).digest('hex')
+}
+
+function momoSign(params: Record<string, string | number>) {
+    const raw = Object.keys(params)
+        .sort()
+        .map((key) => `${key}=${params[key]}`)
+        .join('&')
+    return hmac('sha256', momo.secretKey, raw)
+}
+
+function vnpaySignData(params: Record<string, string>) {
+    return Object.keys(params)
+        .sort()
+        .map(
+            (key) =>
+                `${key}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`
+        )
+        .join('&')
+}
+
+function vnpayDate(date = new Date()) {
+    // yyyyMMddHHmmss in Vietnam time (UTC+7, no DST)
+    return new Date(date.getTime() + 7 * 60 * 60 * 1000)
+        .toISOString()
+        .replace(/\D/g, '')
+        .slice(0, 14)
+}
+
+function newId() {
+    return String(Date.now()) + String(Math.floor(Math.random() * 1000))
+}
+
+async function readBody(req: http.IncomingMessage) {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer)
+    }
+    const raw = Buffer.concat(chunks).toString('utf-8')
+    if (!raw) {
+        return {}
+    }
+    if ((req.headers['content-type'] || '').includes('json')) {
+        return JSON.parse(raw) as Record<string, unknown>
+    }
+    return Object.fromEntries(new URLSearchParams(raw))
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+}
+
+function redirect(res: http.ServerResponse, location: string) {
+    res.writeHead(302, { Location: location })
+    res.end()
+}
+
+function withQuery(url: string, params: Record<string, string>) {
+    const separator = url.includes('?') ? '&' : '?'
+    return `${url}${separator}${new URLSearchParams(params).toString()}`
+}
+
+function addPending(payment: PendingPayment) {
+    const token = crypto.randomBytes(12).toString('hex')
+    pending.set(token, payment)
+    return `${baseUrl}/pay/${token}`
+}
+
+function isPending(provider: Provider, reference: string) {
+    const key = {
+        momo: 'orderId',
+        vnpay: 'vnp_TxnRef',
+        zalopay: 'app_trans_id',
+    }[provider]
+    return [...pending.values()].some(
+        (payment) =>
+            payment.provider === provider && payment.params[key] === reference
+    )
+}
+
+async function notify(url: string, init: RequestInit) {
+    try {
+        const response = await fetch(url, init)
+        console.log(`IPN ${url} -> ${response.status} ${await response.text()}`)
+    } catch (error) {
+        console.error(
+            `IPN ${url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+    }
+}
+
+// ---------------------------------------------------------------- MoMo
+
+function momoCreate(body: Record<string, unknown>, res: http.ServerResponse) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const signature = momoSign({
+        accessKey: momo.accessKey,
+        amount: field('amount'),
+        extraData: field('extraData'),
+        ipnUrl: field('ipnUrl'),
+        orderId: field('orderId'),
+        orderInfo: field('orderInfo'),
+        partnerCode: field('partnerCode'),
+        redirectUrl: field('redirectUrl'),
+        requestId: field('requestId'),
+        requestType: field('requestType'),
+    })
+    if (signature !== body.signature) {
+        return sendJson(res, 200, {
+            resultCode: 11007,
+            message: 'Invalid signature',
+        })
+    }
+
+    const payUrl = addPending({
+        provider: 'momo',
+        amount: Number(body.amount),
+        description: field('orderInfo'),
+        params: {
+            orderId: field('orderId'),
+            requestId: field('requestId'),
+            amount: field('amount'),
+            orderInfo: field('orderInfo'),
+            extraData: field('extraData'),
+            ipnUrl: field('ipnUrl'),
+            redirectUrl: field('redirectUrl'),
+        },
+    })
+    sendJson(res, 200, {
+        partnerCode: momo.partnerCode,
+        orderId: body.orderId,
+        requestId: body.requestId,
+        amount: body.amount,
+        responseTime: Date.now(),
+        resultCode: 0,
+        message: 'Successful.',
+        payUrl,
+    })
+}
+
+function momoRefund(body: Record<string, unknown>, res: http.ServerResponse) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const signature = momoSign({
+        accessKey: momo.accessKey,
+        amount: field('amount'),
+        description: field('description'),
+        orderId: field('orderId'),
+        partnerCode: field('partnerCode'),
+        requestId: field('requestId'),
+        transId: field('transId'),
+    })
+    if (signature !== body.signature) {
+        return sendJson(res, 200, {
+            resultCode: 11007,
+            message: 'Invalid signature',
+        })
+    }
+    sendJson(res, 200, {
+        resultCode: 0,
+        message: 'Successful.',
+        transId: Number(newId().slice(0, 13)),
+    })
+}
+
+function momoQuery(body: Record<string, unknown>, res: http.ServerResponse) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const signature = momoSign({
+        accessKey: momo.accessKey,
+        orderId: field('orderId'),
+        partnerCode: field('partnerCode'),
+        requestId: field('requestId'),
+    })
+    if (signature !== body.signature) {
+        return sendJson(res, 200, {
+            resultCode: 11007,
+            message: 'Invalid signature',
+        })
+    }
+
+    const payment = completed.get(field('orderId'))
+    if (!payment) {
+        return sendJson(
+            res,
+            200,
+            isPending('momo', field('orderId'))
+                ? { resultCode: 1000, message: 'Waiting for the user.' }
+                : { resultCode: 42, message: 'Order not found.' }
+        )
+    }
+    sendJson(res, 200, {
+        partnerCode: momo.partnerCode,
+        orderId: body.orderId,
+        requestId: body.requestId,
+        amount: payment.amount,
+        transId: payment.approved ? Number(payment.transactionId) : 0,
+        resultCode: payment.approved ? 0 : 1006,
+        message: payment.approved
+            ? 'Successful.'
+            : 'Transaction denied by user.',
+        responseTime: Date.now(),
+    })
+}
+
+async function momoComplete(payment: PendingPayment, approved: boolean) {
+    const { params } = payment
+    const result: Record<string, string> = {
+        partnerCode: momo.partnerCode,
+        orderId: params.orderId,
+        requestId: params.requestId,
+        amount: params.amount,
+        orderInfo: params.orderInfo,
+        orderType: 'momo_wallet',
+        transId: approved ? newId() : '',
+        resultCode: approved ? '0' : '1006',
+        message: approved ? 'Successful.' : 'Transaction denied by user.',
+        payType: 'qr',
+        responseTime: String(Date.now()),
+        extraData: params.extraData,
+    }
+    result.signature = momoSign({ ...result, accessKey: momo.accessKey })
+    completed.set(params.orderId, {
+        approved,
+        amount: Number(params.amount),
+        transactionId: result.transId,
+    })
+
+    await notify(params.ipnUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            ...result,
+            amount: Number(result.amount),
+            resultCode: Number(result.resultCode),
+            responseTime: Number(result.responseTime),
+        }),
+    })
+    return withQuery(params.redirectUrl, result)
+}
+
+// --------------------------------------------------------------- VNPay
+
+function vnpayPay(query: URLSearchParams, res: http.ServerResponse) {
+    const params: Record<string, string> = {}
+    query.forEach((value, key) => {
+        if (key !== 'vnp_SecureHash' && key !== 'vnp_SecureHashType') {
+            params[key] = value
+        }
+    })
+    const signature = hmac('sha512', vnpay.hashSecret, vnpaySignData(params))
+    if (signature !== query.get('vnp_SecureHash')) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' })
+        return res.end('VNPay: invalid vnp_SecureHash (code 97)')
+    }
+
+    redirect(
+        res,
+        addPending({
+            provider: 'vnpay',
+            amount: Number(params.vnp_Amount) / 100,
+            description: params.vnp_OrderInfo,
+            params,
+        })
+    )
+}
+
+function vnpayTransaction(
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    if (body.vnp_Command === 'querydr') {
+        return vnpayQuery(body, res)
+    }
+    const signData = [
+        'vnp_RequestId',
+        'vnp_Version',
+        'vnp_Command',
+        'vnp_TmnCode',
+        'vnp_TransactionType',
+        'vnp_TxnRef',
+        'vnp_Amount',
+        'vnp_TransactionNo',
+        'vnp_TransactionDate',
+        'vnp_CreateBy',
+        'vnp_CreateDate',
+        'vnp_IpAddr',
+        'vnp_OrderInfo',
+    ]
+        .map(field)
+        .join('|')
+    if (hmac('sha512', vnpay.hashSecret, signData) !== body.vnp_SecureHash) {
+        return sendJson(res, 200, {
+            vnp_ResponseCode: '97',
+            vnp_Message: 'Invalid checksum',
+        })
+    }
+    sendJson(res, 200, {
+        vnp_ResponseCode: '00',
+        vnp_Message: 'Refund success',
+        vnp_TransactionNo: newId().slice(0, 8),
+    })
+}
+
+function vnpayQuery(body: Record<string, unknown>, res: http.ServerResponse) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const signData = [
+        'vnp_RequestId',
+        'vnp_Version',
+        'vnp_Command',
+        'vnp_TmnCode',
+        'vnp_TxnRef',
+        'vnp_TransactionDate',
+        'vnp_CreateDate',
+        'vnp_IpAddr',
+        'vnp_OrderInfo',
+    ]
+        .map(field)
+        .join('|')
+    if (hmac('sha512', vnpay.hashSecret, signData) !== body.vnp_SecureHash) {
+        return sendJson(res, 200, {
+            vnp_ResponseCode: '97',
+            vnp_Message: 'Invalid checksum',
+        })
+    }
+
+    const payment = completed.get(field('vnp_TxnRef'))
+    if (!payment && !isPending('vnpay', field('vnp_TxnRef'))) {
+        return sendJson(res, 200, {
+            vnp_ResponseCode: '91',
+            vnp_Message: 'Transaction not found',
+        })
+    }
+    sendJson(res, 200, {
+        vnp_ResponseCode: '00',
+        vnp_Message: 'QueryDR Success',
+        vnp_TxnRef: field('vnp_TxnRef'),
+        vnp_Amount: payment ? String(payment.amount * 100) : undefined,
+        vnp_TransactionNo: payment?.transactionId,
+        // 01 = not completed yet
+        vnp_TransactionStatus: payment
+            ? payment.approved
+                ? '00'
+                : '02'
+            : '01',
+    })
+}
+
+async function vnpayComplete(payment: PendingPayment, approved: boolean) {
+    const { params } = payment
+    const result: Record<string, string> = {
+        vnp_Amount: params.vnp_Amount,
+        vnp_BankCode: 'NCB',
+        vnp_CardType: 'ATM',
+        vnp_OrderInfo: params.vnp_OrderInfo,
+        vnp_PayDate: vnpayDate(),
+        vnp_ResponseCode: approved ? '00' : '24',
+        vnp_TmnCode: vnpay.tmnCode,
+        vnp_TransactionNo: approved ? newId().slice(0, 8) : '0',
+        vnp_TransactionStatus: approved ? '00' : '02',
+        vnp_TxnRef: params.vnp_TxnRef,
+    }
+    completed.set(params.vnp_TxnRef, {
+        approved,
+        amount: Number(params.vnp_Amount) / 100,
+        transactionId: result.vnp_TransactionNo,
+    })
+    const signData = vnpaySignData(result)
+    const query = `${signData}&vnp_SecureHash=${hmac('sha512', vnpay.hashSecret, signData)}`
+
+    await notify(`${vnpay.ipnUrl}?${query}`, { method: 'GET' })
+    return `${params.vnp_ReturnUrl}?${query}`
+}
+
+// ------------------------------------------------------------- ZaloPay
+
+function zalopayCreate(
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const mac = hmac(
+        'sha256',
+        zalopay.key1,
+        [
+            'app_id',
+            'app_trans_id',
+            'app_user',
+            'amount',
+            'app_time',
+            'embed_data',
+            'item',
+        ]
+            .map(field)
+            .join('|')
+    )
+    if (mac !== body.mac) {
+        return sendJson(res, 200, {
+            return_code: 2,
+            return_message: 'Giao dịch thất bại',
+            sub_return_message: 'Invalid mac',
+        })
+    }
+
+    const params: Record<string, string> = {}
+    Object.keys(body).forEach((key) => (params[key] = field(key)))
+    const orderUrl = addPending({
+        provider: 'zalopay',
+        amount: Number(body.amount),
+        description: field('description'),
+        params,
+    })
+    sendJson(res, 200, {
+        return_code: 1,
+        return_message: 'Giao dịch thành công',
+        order_url: orderUrl,
+        zp_trans_token: crypto.randomBytes(8).toString('hex'),
+    })
+}
+
+function zalopayRefund(
+    body: Record<string, unknown>,
+    res: http.ServerResponse
+) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const mac = hmac(
+        'sha256',
+        zalopay.key1,
+        ['app_id', 'zp_trans_id', 'amount', 'description', 'timestamp']
+            .map(field)
+            .join('|')
+    )
+    if (mac !== body.mac) {
+        return sendJson(res, 200, {
+            return_code: 2,
+            return_message: 'Hoàn tiền thất bại',
+            sub_return_message: 'Invalid mac',
+        })
+    }
+    sendJson(res, 200, {
+        return_code: 1,
+        return_message: 'Hoàn tiền thành công',
+        refund_id: Number(newId().slice(0, 13)),
+    })
+}
+
+function zalopayQuery(body: Record<string, unknown>, res: http.ServerResponse) {
+    const field = (key: string) => String((body[key] as string) ?? '')
+    const mac = hmac(
+        'sha256',
+        zalopay.key1,
+        [field('app_id'), field('app_trans_id'), zalopay.key1].join('|')
+    )
+    if (mac !== body.mac) {
+        return sendJson(res, 200, {
+            return_code: 2,
+            return_message: 'Giao dịch thất bại',
+            sub_return_message: 'Invalid mac',
+        })
+    }
+
+    const payment = completed.get(field('app_trans_id'))
+    if (!payment) {
+        // 3 = not paid yet; ZaloPay also answers this for unknown orders
+        return sendJson(res, 200, {
+            return_code: 3,
+            return_message: 'Giao dịch chưa thực hiện',
+            is_processing: isPending('zalopay', field('app_trans_id')),
+        })
+    }
+    sendJson(res, 200, {
+        return_code: payment.approved ? 1 : 2,
+        return_message: payment.approved
+            ? 'Giao dịch thành công'
+            : 'Giao dịch thất bại',
+        amount: payment.amount,
+        zp_trans_id: payment.approved ? Number(payment.transactionId) : 0,
+        is_processing: false,
+    })
+}
+
+async function zalopayComplete(payment: PendingPayment, approved: boolean) {
+    const { params } = payment
+    const embedData = JSON.parse(params.embed_data || '{}') as {
+        redirecturl?: string
+    }
+
+    const transactionId = approved ? newId().slice(0, 13) : '0'
+    completed.set(params.app_trans_id, {
+        approved,
+        amount: Number(params.amount),
+        transactionId,
+    })
+
+    // ZaloPay only calls back for successful payments
+    if (approved) {
+        const data = JSON.stringify({
+            app_id: Number(params.app_id),
+            app_trans_id: params.app_trans_id,
+            app_time: Number(params.app_time),
+            app_user: params.app_user,
+            amount: Number(params.amount),
+            embed_data: params.embed_data,
+            item: params.item,
+            zp_trans_id: Number(transactionId),
+            server_time: Date.now(),
+            channel: 38,
+            merchant_user_id: '',
+            user_fee_amount: 0,
+            discount_amount: 0,
+        })
+        await notify(params.callback_url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                data,
+                mac: hmac('sha256', zalopay.key2, data),
+                type: 1,
+            }),
+        })
+    }
+
+    const result: Record<string, string> = {
+        appid: params.app_id,
+        apptransid: params.app_trans_id,
+        pmcid: '38',
+        bankcode: '',
+        amount: params.amount,
+        discountamount: '0',
+        status: approved ? '1' : '-49',
+    }
+    result.checksum = hmac(
+        'sha256',
+        zalopay.key2,
+        [
+            result.appid,
+            result.apptransid,
+            result.pmcid,
+            result.bankcode,
+            result.amount,
+            result.discountamount,
+            result.status,
+        ].join('|')
+    )
+    return withQuery(embedData.redirecturl || baseUrl, result)
+}
+
+// ------------------------------------------------------------ Pay page
+
+const labels: Record<Provider, string> = {
+    momo: 'MoMo',
+    vnpay: 'VNPay',
+    zalopay: 'ZaloPay',
+}
+
+function payPage(token: string, payment: PendingPayment) {
+    const amount = new Intl.NumberFormat('vi-VN').format(payment.amount)
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${labels[payment.provider]} (mock)</title>
+<style>
+body { font-family: sans-serif; max-width: 360px; margin: 48px auto; text-align: center; }
+a { display: block; margin: 12px 0; padding: 14px; border-radius: 8px; text-decoration: none; color: #fff; }
+.pay { background: #16a34a; } .cancel { background: #6b7280; }
+</style>
+</head>
+<body>
+<h2>${labels[payment.provider]} mock gateway</h2>
+<p>${payment.description}</p>
+<h1>${amount} ₫</h1>
+<a class="pay" href="/pay/${token}/confirm">Pay</a>
+<a class="cancel" href="/pay/${token}/cancel">Cancel</a>
+</body>
+</html>`
+}
+
+async function completePayment(
+    token: string,
+    approved: boolean,
+    res: http.ServerResponse
+) {
+    const payment = pending.get(token)
+    if (!payment) {
+        return sendJson(res, 404, { message: 'Payment not found or done' })
+    }
+    pending.delete(token)
+
+    const complete = {
+        momo: momoComplete,
+        vnpay: vnpayComplete,
+        zalopay: zalopayComplete,
+    }[payment.provider]
+    redirect(res, await complete(payment, approved))
+}
+
+// -------------------------------------------------------------- Server
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', baseUrl)
+    const route = `${req.method} ${url.pathname}`
+    console.log(route)
+
+    const handle = async () => {
+        switch (route) {
+            case 'POST /momo/v2/gateway/api/create':
+                return momoCreate(await readBody(req), res)
+            case 'POST /momo/v2/gateway/api/refund':
+                return momoRefund(await readBody(req), res)
+            case 'POST /momo/v2/gateway/api/query':
+                return momoQuery(await readBody(req), res)
+            case 'GET /vnpay/paymentv2/vpcpay.html':
+                return vnpayPay(url.searchParams, res)
+            case 'POST /vnpay/merchant_webapi/api/transaction':
+                return vnpayTransaction(await readBody(req), res)
+            case 'POST /zalopay/v2/create':
+                return zalopayCreate(await readBody(req), res)
+            case 'POST /zalopay/v2/refund':
+                return zalopayRefund(await readBody(req), res)
+            case 'POST /zalopay/v2/query':
+                return zalopayQuery(await readBody(req), res)
+        }
+
+        const match = /^\/pay\/([a-f0-9]+)(?:\/(confirm|cancel))?$/.exec(
+            url.pathname
+        )
+        const payment = match && pending.get(match[1])
+        if (req.method === 'GET' && match && match[2]) {
+            return completePayment(match[1], match[2] === 'confirm', res)
+        }
+        if (req.method === 'GET' && match && payment) {
+            res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+            return res.end(payPage(match[1], payment))
+        }
+
+        sendJson(res, 404, { message: `No mock for ${route}` })
+    }
+
+    handle().catch((error) => {
+        console.error(error)
+        sendJson(res, 500, {
+            message: error instanceof Error ? error.message : 'Unknown error',
+        })
+    })
+})
+
+server.listen(port, () => {
+    console.log(`Mock payment gateway listening on ${baseUrl}`)
+    console.log(`  MoMo:    ${baseUrl}/momo/v2/gateway/api/create`)
+    console.log(`  VNPay:   ${baseUrl}/vnpay/paymentv2/vpcpay.html`)
+    console.log(`  ZaloPay: ${baseUrl}/zalopay/v2`)
+})
@@ -12,6 +12,13 @@ import { TablesModule } from './tables/tables.module'
 import { RestaurantsModule } from './restaurants/restaurants.module'
 import { PaymentsModule } from './payments/payments.module'
 import { ReportsModule } from './reports/reports.module'
+import { ReservationsModule } from './reservations/reservations.module'
+import { InventoryModule } from './inventory/inventory.module'
+import { PricingModule } from './pricing/pricing.module'
+import { PromoCodesModule } from './promo-codes/promo-codes.module'
+import { ReceiptsModule } from './receipts/receipts.module'
+import { ShiftsModule } from './shifts/shifts.module'
+import { StaffRolesModule } from './staff-roles/staff-roles.module'
 import { SocketModule } from './socket/socket.module'
 import { DatabaseModule } from './database/database.module'
 import { CloudinaryModule } from './cloudinary/cloudinary.module'
@@ -49,6 +56,13 @@ import configuration from './config/configuration'
         RestaurantsModule,
         PaymentsModule,
         ReportsModule,
+        ReservationsModule,
+        InventoryModule,
+        PricingModule,
+        PromoCodesModule,
+        ReceiptsModule,
+        ShiftsModule,
+        StaffRolesModule,
         CloudinaryModule,
         AiModule,
     ],
@@ -1,8 +1,13 @@
 import {
     Body,
     Controller,
+    Delete,
     Get,
+    Headers,
+    Param,
+    Patch,
     Post,
+    Query,
     UseGuards,
     Req,
     Res,
@@ -23,11 +28,22 @@ import { ChangePasswordDto } from './dto/change-password.dto'
 import { JwtAuthGuard } from './guards/jwt-auth.guard'
 import { GoogleAuthGuard } from './guards/google-auth.guard'
 import { CurrentUser } from './decorators/current-user.decorator'
+import { RolesGuard } from './guards/roles.guard'
+import { Roles } from './decorators/roles.decorator'
+import { SessionMeta, SessionUser } from './sessions.service'
+import { DeviceAdmin, StaffDevicesService } from './staff-devices.service'
+import { PinLoginDto } from './dto/pin-login.dto'
+import { RegisterDeviceDto } from './dto/register-device.dto'
+import { SetPinDto } from './dto/set-pin.dto'
+import { UserRole } from '@aerodine/shared-types'
 import { ConfigService } from '@nestjs/config'
 import {
     ApiBearerAuth,
     ApiTags,
     ApiOperation,
+    ApiHeader,
+    ApiParam,
+    ApiQuery,
     ApiResponse,
 } from '@nestjs/swagger'
 
@@ -37,9 +53,17 @@ export class AuthController {
     constructor(
         private readonly authService: AuthService,
         private readonly usersService: UsersService,
-        private readonly configService: ConfigService
+        private readonly configService: ConfigService,
+        private readonly staffDevicesService: StaffDevicesService
     ) {}
 
+    /**
+     * Device details stored with a new session
+     */
+    private sessionMeta(req: Request): SessionMeta {
+        return { userAgent: req.headers['user-agent'], ipAddress: req.ip }
+    }
+
     @Throttle({ short: { ttl: 60000, limit: 5 } }) // 5 requests per minute
     @Post('register')
     @ApiOperation({
@@ -50,15 +74,15 @@ export class AuthController {
         status: 429,
         description: 'Too many registration attempts. Please try again later.',
     })
-    register(@Body() registerDto: RegisterDto) {
-        return this.authService.register(registerDto)
+    register(@Body() registerDto: RegisterDto, @Req() req: Request) {
+        return this.authService.register(registerDto, this.sessionMeta(req))
     }
 
     @Throttle({ short: { ttl: 60000, limit: 5 } }) // 5 requests per minute
     @Post('login')
     @ApiOperation({ 
         summary: 'Login and receive JWT access token and refresh token',
-        description: 'Rate limited to 5 requests per minute to prevent brute force attacks.',
+        description: 'Rate limited to 5 requests per minute to prevent brute force attacks. 5 wrong passwords in a row lock the account for 15 minutes; resetting the password unlocks it.',
     })
     @ApiResponse({
         status: 200,
@@ -78,20 +102,45 @@ export class AuthController {
     })
     @ApiResponse({
         status: 429,
-        description: 'Too many login attempts. Please try again later.',
+        description: 'Too many login attempts or account locked. Please try again later.',
     })
-    login(@Body() loginDto: LoginDto) {
-        return this.authService.login(loginDto)
+    login(@Body() loginDto: LoginDto, @Req() req: Request) {
+        return this.authService.login(loginDto, this.sessionMeta(req))
+    }
+
+    @Throttle({ short: { ttl: 60000, limit: 10 } }) // 10 requests per minute
+    @Post('pin-login')
+    @ApiOperation({
+        summary: 'Quick-switch sign in with a PIN on a shared device',
+        description:
+            'Staff of the registered device restaurant sign in with their PIN. Wrong PINs count towards the account lockout. Rate limited to 10 requests per minute.',
+    })
+    @ApiResponse({ status: 200, description: 'Login successful' })
+    @ApiResponse({
+        status: 401,
+        description: 'Device not registered or invalid PIN',
+    })
+    @ApiResponse({
+        status: 429,
+        description: 'Too many attempts or account locked',
+    })
+    pinLogin(@Body() pinLoginDto: PinLoginDto, @Req() req: Request) {
+        return this.authService.pinLogin(pinLoginDto, this.sessionMeta(req))
     }
 
     @Post('refresh')
-    @ApiOperation({ summary: 'Refresh access token using refresh token' })
+    @ApiOperation({
+        summary: 'Refresh access token using refresh token',
+        description:
+            'Returns a new refresh token as well; the one sent is used up. Sending a used refresh token again signs that device out.',
+    })
     @ApiResponse({
         status: 200,
         description: 'Token refreshed successfully',
         schema: {
             example: {
                 access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+                refresh_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
                 user: {
                     id: 1,
                     email: 'user@example.com',
@@ -103,7 +152,7 @@ export class AuthController {
     })
     @ApiResponse({
         status: 401,
-        description: 'Invalid or expired refresh token',
+        description: 'Invalid, expired or reused refresh token',
     })
     async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
         return this.authService.refreshToken(refreshTokenDto.refresh_token)
@@ -112,7 +161,9 @@ export class AuthController {
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard)
     @Post('logout')
-    @ApiOperation({ summary: 'Logout - invalidate refresh token (requires JWT)' })
+    @ApiOperation({
+        summary: 'Logout - sign this device out (requires JWT)',
+    })
     @ApiResponse({
         status: 200,
         description: 'Logout successful',
@@ -122,11 +173,113 @@ export class AuthController {
             },
         },
     })
-    async logout(@CurrentUser() user: any) {
-        await this.authService.logout(user.id)
+    async logout(@CurrentUser() user: SessionUser) {
+        await this.authService.logout(user.id, user.sessionId)
         return { message: 'Logged out successfully' }
     }
 
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard)
+    @Get('sessions')
+    @ApiOperation({
+        summary: 'List devices signed in to the account (requires JWT)',
+        description: 'The device making the request is marked current.',
+    })
+    getSessions(@CurrentUser() user: SessionUser) {
+        return this.authService.getSessions(user.id, user.sessionId)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard)
+    @Delete('sessions/:id')
+    @ApiOperation({ summary: 'Sign one of your devices out (requires JWT)' })
+    @ApiParam({ name: 'id', type: String, description: 'Session ID' })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    revokeSession(@Param('id') id: string, @CurrentUser() user: SessionUser) {
+        return this.authService.revokeSession(user.id, id)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @Delete('users/:id/sessions')
+    @ApiOperation({
+        summary: 'Sign a user out everywhere (ADMIN only)',
+        description:
+            'Ends every session of the user; their devices must sign in again.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'User ID' })
+    signOutEverywhere(@Param('id') id: string) {
+        return this.authService.signOutEverywhere(Number(id))
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @Patch('users/:id/pin')
+    @ApiOperation({
+        summary: 'Set the PIN a staff member uses on shared devices (ADMIN only)',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'User ID' })
+    async setPin(@Param('id') id: string, @Body() setPinDto: SetPinDto) {
+        await this.usersService.setPin(Number(id), setPinDto.pin)
+        return { message: 'PIN has been set' }
+    }
+
+    @Get('devices/staff')
+    @ApiOperation({
+        summary: 'Staff who can sign in on this shared device',
+        description:
+            'Authenticated by the device token; lists active staff of its restaurant that have a PIN.',
+    })
+    @ApiHeader({ name: 'x-device-token', required: true })
+    @ApiResponse({ status: 401, description: 'Device is not registered' })
+    async getDeviceStaff(@Headers('x-device-token') deviceToken?: string) {
+        const device = await this.staffDevicesService.authenticate(deviceToken)
+        return this.staffDevicesService.findStaff(device)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @Post('devices')
+    @ApiOperation({
+        summary: 'Register a shared staff device (ADMIN only)',
+        description:
+            'Returns the device token once; the device keeps it to offer PIN sign in.',
+    })
+    registerDevice(
+        @Body() dto: RegisterDeviceDto,
+        @CurrentUser() user: DeviceAdmin
+    ) {
+        return this.staffDevicesService.register(dto, user)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @Get('devices')
+    @ApiOperation({ summary: 'List shared staff devices (ADMIN only)' })
+    @ApiQuery({ name: 'restaurantId', required: false, type: Number })
+    getDevices(@Query('restaurantId') restaurantId?: string) {
+        return this.staffDevicesService.findAll(
+            restaurantId ? Number(restaurantId) : undefined
+        )
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @Delete('devices/:id')
+    @ApiOperation({
+        summary: 'Revoke a shared staff device (ADMIN only)',
+        description: 'PIN sign in stops working on it.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Device ID' })
+    revokeDevice(@Param('id') id: string) {
+        return this.staffDevicesService.revoke(Number(id))
+    }
+
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard)
     @Get('profile')
@@ -143,7 +296,7 @@ export class AuthController {
     @ApiOperation({
         summary: 'Request password reset with OTP',
         description:
-            'Sends a 6-digit OTP code to the user email. Always returns success to prevent email enumeration. Rate limited to 3 requests per minute.',
+            'Sends a 6-digit OTP code to the user email. Always returns success to prevent email enumeration. Rate limited to 3 requests per minute; a new code is sent at most once a minute and 5 times an hour per account.',
     })
     @ApiResponse({
         status: 200,
@@ -163,10 +316,12 @@ export class AuthController {
         return this.authService.forgotPassword(forgotPasswordDto)
     }
 
+    @Throttle({ short: { ttl: 60000, limit: 5 } }) // 5 requests per minute
     @Post('verify-otp')
     @ApiOperation({
         summary: 'Verify OTP code',
-        description: 'Verifies the OTP code sent to user email for password reset.',
+        description:
+            'Verifies the OTP code sent to user email for password reset. Each code allows 5 checks, then a new one must be requested.',
     })
     @ApiResponse({
         status: 200,
@@ -175,6 +330,7 @@ export class AuthController {
             example: {
                 message: 'Verification code verified successfully',
                 verified: true,
+                attemptsLeft: 4,
             },
         },
     })
@@ -182,15 +338,20 @@ export class AuthController {
         status: 400,
         description: 'Invalid or expired OTP code',
     })
+    @ApiResponse({
+        status: 429,
+        description: 'Too many verification attempts. Please try again later.',
+    })
     async verifyOtp(@Body() verifyOtpDto: VerifyOtpDto) {
         return this.authService.verifyOtp(verifyOtpDto)
     }
 
+    @Throttle({ short: { ttl: 60000, limit: 5 } }) // 5 requests per minute
     @Post('reset-password-with-otp')
     @ApiOperation({
         summary: 'Reset password with OTP code',
         description:
-            'Resets user password using the OTP code received via email. OTP expires in 10 minutes.',
+            'Resets user password using the OTP code received via email. OTP expires in 10 minutes, can be used once and counts against the same 5 attempts as verify-otp. Also unlocks a locked account.',
     })
     @ApiResponse({
         status: 200,
@@ -279,14 +440,17 @@ export class AuthController {
         }
 
         try {
-            const result = await this.authService.googleLogin(user)
+            const result = await this.authService.googleLogin(
+                user,
+                this.sessionMeta(req)
+            )
             const frontendUrl =
                 this.configService.get<string>('frontend.url') ||
                 'http://localhost:5173'
 
-            // Redirect to frontend with token in query parameter
+            // Redirect to frontend with tokens in query parameters
             return res.redirect(
-                `${frontendUrl}/auth/success?token=${result.access_token}`
+                `${frontendUrl}/auth/success?token=${result.access_token}&refreshToken=${result.refresh_token}`
             )
         } catch (error) {
             const frontendUrl =
@@ -305,7 +469,7 @@ export class AuthController {
     @Post('change-password')
     @ApiOperation({
         summary: 'Change password for logged-in user',
-        description: 'Change password with old password verification. Requires authentication.',
+        description: 'Change password with old password verification. Requires authentication. Other devices are signed out.',
     })
     @ApiResponse({
         status: 200,
@@ -324,7 +488,14 @@ export class AuthController {
         status: 404,
         description: 'User not found',
     })
-    async changePassword(@Body() changePasswordDto: ChangePasswordDto, @CurrentUser() user: any) {
-        return this.authService.changePassword(user.id, changePasswordDto)
+    async changePassword(
+        @Body() changePasswordDto: ChangePasswordDto,
+        @CurrentUser() user: SessionUser
+    ) {
+        return this.authService.changePassword(
+            user.id,
+            changePasswordDto,
+            user.sessionId
+        )
     }
 }
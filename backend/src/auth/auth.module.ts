@@ -10,6 +10,8 @@ import { JwtStrategy } from './strategies/jwt.strategy'
 import { GoogleStrategy } from './strategies/google.strategy'
 import { RolesGuard } from './guards/roles.guard'
 import { OtpService } from './otp.service'
+import { SessionsService } from './sessions.service'
+import { StaffDevicesService } from './staff-devices.service'
 
 @Module({
     imports: [
@@ -44,7 +46,9 @@ import { OtpService } from './otp.service'
         GoogleStrategy,
         RolesGuard,
         OtpService,
+        SessionsService,
+        StaffDevicesService,
     ],
-    exports: [AuthService],
+    exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
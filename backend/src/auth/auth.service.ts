@@ -1,6 +1,8 @@
 import {
     BadRequestException,
     ConflictException,
+    HttpException,
+    HttpStatus,
     Injectable,
     Logger,
     NotFoundException,
@@ -9,6 +11,7 @@ import {
 import { JwtService } from '@nestjs/jwt'
 import { ConfigService } from '@nestjs/config'
 import * as bcrypt from 'bcrypt'
+import * as crypto from 'crypto'
 import { RegisterDto } from './dto/create-auth.dto'
 import { LoginDto } from './dto/update-auth.dto'
 import { ForgotPasswordDto } from './dto/forgot-password.dto'
@@ -20,8 +23,18 @@ import { UsersService } from '../users/users.service'
 import { CreateUserDto } from '../users/dto/create-user.dto'
 import { MailService } from '../mail/mail.service'
 import { OtpService } from './otp.service'
+import { SessionMeta, SessionsService } from './sessions.service'
+import { StaffDevicesService } from './staff-devices.service'
+import { PinLoginDto } from './dto/pin-login.dto'
+import type { JwtPayload } from './strategies/jwt.strategy'
 import { UserRole } from '@aerodine/shared-types'
-import { UserRole as PrismaUserRole } from '@prisma/client'
+import { UserRole as PrismaUserRole, User } from '@prisma/client'
+
+const MAX_LOGIN_ATTEMPTS = 5 // Wrong passwords in a row before the account locks
+const LOCKOUT_MINUTES = 15
+
+// Password reset tokens carry no role or session
+type PasswordResetPayload = Pick<JwtPayload, 'sub' | 'email' | 'type'>
 
 @Injectable()
 export class AuthService {
@@ -49,10 +62,12 @@ export class AuthService {
         private readonly jwtService: JwtService,
         private readonly configService: ConfigService,
         private readonly mailService: MailService,
-        private readonly otpService: OtpService
+        private readonly otpService: OtpService,
+        private readonly sessionsService: SessionsService,
+        private readonly staffDevicesService: StaffDevicesService
     ) {}
 
-    async register(registerDto: RegisterDto) {
+    async register(registerDto: RegisterDto, meta?: SessionMeta) {
         const existing = await this.usersService.findByEmail(registerDto.email)
         if (existing) {
             throw new ConflictException('Email already registered')
@@ -67,41 +82,40 @@ export class AuthService {
             role: UserRole.CUSTOMER,
         }
         const user = await this.usersService.create(createUserDto)
-        const { accessToken, refreshToken } = await this.generateTokens(
+        const { accessToken, refreshToken } = await this.startSession(
             user.id,
             user.email,
-            this.toSharedUserRole(user.role)
+            this.toSharedUserRole(user.role),
+            user.restaurantId,
+            meta
         )
-        // Store refresh token in database
-        await this.usersService.updateRefreshToken(user.id, refreshToken)
         return { access_token: accessToken, refresh_token: refreshToken, user }
     }
 
-    async login(loginDto: LoginDto) {
+    async login(loginDto: LoginDto, meta?: SessionMeta) {
         const user = await this.usersService.findByEmail(loginDto.email)
         if (!user) {
             throw new UnauthorizedException('Invalid credentials')
         }
 
-        const isValid = await bcrypt.compare(
+        await this.checkSecret(
+            user,
             loginDto.password,
-            user.passwordHash
+            user.passwordHash,
+            'Invalid credentials'
         )
-        if (!isValid) {
-            throw new UnauthorizedException('Invalid credentials')
-        }
 
         // Get effective role (downgrade to CUSTOMER if inactive)
         const effectiveRole = this.getEffectiveRole(user)
 
-        const { accessToken, refreshToken } = await this.generateTokens(
+        const { accessToken, refreshToken } = await this.startSession(
             user.id,
             user.email,
-            effectiveRole
+            effectiveRole,
+            user.restaurantId,
+            meta
         )
-        // Store refresh token in database
-        await this.usersService.updateRefreshToken(user.id, refreshToken)
-        const { passwordHash, refreshToken: _, ...userSafe } = user
+        const userSafe = this.toSafeUser(user)
         // Return user with effective role (CUSTOMER if inactive)
         return { 
             access_token: accessToken, 
@@ -110,10 +124,103 @@ export class AuthService {
         }
     }
 
+    /**
+     * Quick-switch sign in on a registered shared device with a PIN
+     * Wrong PINs count towards the same lockout as wrong passwords
+     */
+    async pinLogin(dto: PinLoginDto, meta?: SessionMeta) {
+        const device = await this.staffDevicesService.authenticate(
+            dto.deviceToken
+        )
+        const user = await this.staffDevicesService.findStaffMember(
+            device,
+            dto.userId
+        )
+        if (!user || !user.pinHash) {
+            throw new UnauthorizedException('Invalid PIN')
+        }
+
+        await this.checkSecret(user, dto.pin, user.pinHash, 'Invalid PIN')
+
+        const role = this.toSharedUserRole(user.role)
+        const { accessToken, refreshToken } = await this.startSession(
+            user.id,
+            user.email,
+            role,
+            user.restaurantId,
+            { ...meta, deviceName: device.name }
+        )
+        return {
+            access_token: accessToken,
+            refresh_token: refreshToken,
+            user: { ...this.toSafeUser(user), role },
+        }
+    }
+
+    /**
+     * Compare a password or PIN, locking the account after repeated misses
+     */
+    private async checkSecret(
+        user: User,
+        secret: string,
+        hash: string,
+        failureMessage: string
+    ) {
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+            throw this.accountLockedException(user.lockedUntil)
+        }
+
+        const isValid = await bcrypt.compare(secret, hash)
+        if (!isValid) {
+            const lockedUntil = await this.usersService.recordFailedLogin(
+                user.id,
+                MAX_LOGIN_ATTEMPTS,
+                LOCKOUT_MINUTES
+            )
+            if (lockedUntil) {
+                this.logger.warn(
+                    `Account ${user.email} locked until ${lockedUntil.toISOString()} after ${MAX_LOGIN_ATTEMPTS} failed logins`
+                )
+                throw this.accountLockedException(lockedUntil)
+            }
+            throw new UnauthorizedException(failureMessage)
+        }
+        await this.usersService.clearFailedLogins(user.id)
+    }
+
+    /**
+     * User without password, PIN and lockout state
+     */
+    private toSafeUser(user: User) {
+        return {
+            id: user.id,
+            email: user.email,
+            fullName: user.fullName,
+            avatar: user.avatar,
+            role: user.role,
+            isActive: user.isActive,
+            restaurantId: user.restaurantId,
+            staffRoleId: user.staffRoleId,
+            createdAt: user.createdAt,
+            updatedAt: user.updatedAt,
+        }
+    }
+
+    /**
+     * 429 telling the user when they can try again
+     */
+    private accountLockedException(lockedUntil: Date) {
+        const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000)
+        return new HttpException(
+            `Too many failed login attempts. Try again in ${minutes} minute(s) or reset your password.`,
+            HttpStatus.TOO_MANY_REQUESTS
+        )
+    }
+
     /**
      * Generate JWT token for Google OAuth user
      */
-    async googleLogin(user: any) {
+    async googleLogin(user: any, meta?: SessionMeta) {
         if (!user) {
             throw new UnauthorizedException('Google authentication failed')
         }
@@ -127,15 +234,15 @@ export class AuthService {
         // Get effective role (downgrade to CUSTOMER if inactive)
         const effectiveRole = this.getEffectiveRole(fullUser)
 
-        const { accessToken, refreshToken } = await this.generateTokens(
+        const { accessToken, refreshToken } = await this.startSession(
             fullUser.id,
             fullUser.email,
-            effectiveRole
+            effectiveRole,
+            fullUser.restaurantId,
+            meta
         )
-        // Store refresh token in database
-        await this.usersService.updateRefreshToken(fullUser.id, refreshToken)
 
-        const { passwordHash, refreshToken: _, ...userSafe } = fullUser
+        const userSafe = this.toSafeUser(fullUser)
         // Return user with effective role (CUSTOMER if inactive)
         return {
             access_token: accessToken,
@@ -145,19 +252,64 @@ export class AuthService {
     }
 
     /**
-     * Generate both access token and refresh token
+     * Sign in on a new device: a session with its own refresh token
+     * Staff tokens carry the restaurant they are assigned to
      */
-    private async generateTokens(userId: number, email: string, role: UserRole) {
-        const accessToken = await this.signAccessToken(userId, email, role)
-        const refreshToken = await this.signRefreshToken(userId, email, role)
+    private async startSession(
+        userId: number,
+        email: string,
+        role: UserRole,
+        restaurantId: number | null,
+        meta?: SessionMeta
+    ) {
+        const sessionId = crypto.randomUUID()
+        const accessToken = await this.signAccessToken(
+            userId,
+            email,
+            role,
+            restaurantId,
+            sessionId
+        )
+        const refreshToken = await this.signRefreshToken(
+            userId,
+            email,
+            role,
+            restaurantId,
+            sessionId
+        )
+        await this.sessionsService.create(
+            sessionId,
+            userId,
+            refreshToken,
+            this.tokenExpiry(refreshToken),
+            meta
+        )
         return { accessToken, refreshToken }
     }
 
+    private tokenExpiry(token: string): Date {
+        const { exp } = this.jwtService.decode<{ exp: number }>(token)
+        return new Date(exp * 1000)
+    }
+
     /**
      * Sign short-lived access token (15 minutes default)
      */
-    private async signAccessToken(userId: number, email: string, role: UserRole) {
-        const payload = { sub: userId, email, role, type: 'access' }
+    private async signAccessToken(
+        userId: number,
+        email: string,
+        role: UserRole,
+        restaurantId: number | null,
+        sessionId: string
+    ) {
+        const payload = {
+            sub: userId,
+            email,
+            role,
+            restaurantId,
+            sid: sessionId,
+            type: 'access',
+        }
         const secret = this.configService.get<string>('jwt.secret')
         if (!secret) {
             throw new Error('JWT secret not configured')
@@ -174,9 +326,24 @@ export class AuthService {
 
     /**
      * Sign long-lived refresh token (7 days default)
+     * jti keeps tokens rotated within the same second distinct
      */
-    private async signRefreshToken(userId: number, email: string, role: UserRole) {
-        const payload = { sub: userId, email, role, type: 'refresh' }
+    private async signRefreshToken(
+        userId: number,
+        email: string,
+        role: UserRole,
+        restaurantId: number | null,
+        sessionId: string
+    ) {
+        const payload = {
+            sub: userId,
+            email,
+            role,
+            restaurantId,
+            sid: sessionId,
+            jti: crypto.randomUUID(),
+            type: 'refresh',
+        }
         const secret = this.configService.get<string>('jwt.secret')
         if (!secret) {
             throw new Error('JWT secret not configured')
@@ -224,11 +391,22 @@ export class AuthService {
         }
 
         try {
+            // Resend cooldown; answered the same way to prevent email enumeration
+            if (!(await this.otpService.canSendOtp(user.id))) {
+                this.logger.warn(
+                    `Password reset OTP for ${user.email} throttled`
+                )
+                return {
+                    message:
+                        'If an account with that email exists, a verification code has been sent.',
+                }
+            }
+
             // Generate OTP code
             const otpCode = this.otpService.generateOtpCode()
 
-            // Store OTP with expiration
-            this.otpService.storeOtp(user.email, user.id, otpCode)
+            // Store hashed OTP with expiration
+            await this.otpService.storeOtp(user.id, otpCode)
 
             // Send OTP code via email
             // Wrap in try-catch to prevent email enumeration if sending fails
@@ -251,30 +429,35 @@ export class AuthService {
     /**
      * Verify OTP code
      */
-    async verifyOtp(dto: VerifyOtpDto): Promise<{ message: string; verified: boolean }> {
+    async verifyOtp(
+        dto: VerifyOtpDto
+    ): Promise<{ message: string; verified: boolean; attemptsLeft: number }> {
         const user = await this.usersService.findByEmail(dto.email)
 
         // Don't reveal if email exists for security
         if (!user) {
             return {
-                message: 'Invalid verification code',
+                message: 'Invalid or expired verification code',
                 verified: false,
+                attemptsLeft: 0,
             }
         }
 
-        // Verify OTP
-        const result = this.otpService.verifyOtp(dto.email, dto.otpCode)
+        // Verify OTP; each check counts against the code's attempts
+        const result = await this.otpService.verifyOtp(user.id, dto.otpCode)
 
         if (!result.valid) {
             return {
                 message: 'Invalid or expired verification code',
                 verified: false,
+                attemptsLeft: result.attemptsLeft,
             }
         }
 
         return {
             message: 'Verification code verified successfully',
             verified: true,
+            attemptsLeft: result.attemptsLeft,
         }
     }
 
@@ -284,32 +467,35 @@ export class AuthService {
     async resetPasswordWithOtp(
         dto: ResetPasswordWithOtpDto
     ): Promise<{ message: string }> {
-        // Verify OTP first
-        const otpResult = this.otpService.verifyOtp(dto.email, dto.otpCode)
-
-        if (!otpResult.valid) {
-            throw new BadRequestException('Invalid or expired verification code')
-        }
-
-        // Find user
+        // Same answer for unknown emails and wrong codes
         const user = await this.usersService.findByEmail(dto.email)
         if (!user) {
-            throw new NotFoundException('User not found')
+            throw new BadRequestException(
+                'Invalid or expired verification code'
+            )
         }
 
-        // Verify user ID matches
-        if (user.id !== otpResult.userId) {
-            throw new BadRequestException('Verification code does not match user')
+        // Verify and use up the OTP so it cannot reset the password twice
+        const otpResult = await this.otpService.verifyOtp(
+            user.id,
+            dto.otpCode,
+            true
+        )
+
+        if (!otpResult.valid) {
+            throw new BadRequestException(
+                'Invalid or expired verification code'
+            )
         }
 
         // Hash new password
         const passwordHash = await bcrypt.hash(dto.newPassword, 10)
 
-        // Update user password
+        // Update user password; this also lifts a login lockout
         await this.usersService.updatePassword(user.id, passwordHash)
 
-        // Remove OTP after successful use
-        this.otpService.removeOtp(dto.email)
+        // Whoever knew the old password is signed out
+        await this.sessionsService.revokeAll(user.id, 'password_reset')
 
         return {
             message: 'Password has been reset successfully',
@@ -327,9 +513,12 @@ export class AuthService {
         }
 
         // Verify token
-        let decoded: any
+        let decoded: PasswordResetPayload
         try {
-            decoded = await this.jwtService.verifyAsync(dto.token, { secret })
+            decoded = await this.jwtService.verifyAsync<PasswordResetPayload>(
+                dto.token,
+                { secret }
+            )
         } catch (error) {
             throw new BadRequestException('Invalid or expired reset token')
         }
@@ -355,6 +544,7 @@ export class AuthService {
 
         // Update user password
         await this.usersService.updatePassword(user.id, passwordHash)
+        await this.sessionsService.revokeAll(user.id, 'password_reset')
 
         return {
             message: 'Password has been reset successfully',
@@ -362,7 +552,9 @@ export class AuthService {
     }
 
     /**
-     * Refresh access token using refresh token
+     * Exchange a refresh token for a new access token and refresh token
+     * The presented token is used up; presenting it again later is treated
+     * as theft and signs the device out
      */
     async refreshToken(refreshToken: string) {
         const secret = this.configService.get<string>('jwt.secret')
@@ -371,25 +563,29 @@ export class AuthService {
         }
 
         // Verify refresh token
-        let decoded: any
+        let decoded: JwtPayload
         try {
-            decoded = await this.jwtService.verifyAsync(refreshToken, { secret })
+            decoded = await this.jwtService.verifyAsync<JwtPayload>(
+                refreshToken,
+                { secret }
+            )
         } catch (error) {
             throw new UnauthorizedException('Invalid or expired refresh token')
         }
 
         // Verify token type
-        if (decoded.type !== 'refresh') {
+        if (decoded.type !== 'refresh' || !decoded.sid) {
             throw new UnauthorizedException('Invalid token type')
         }
 
-        // Verify refresh token exists in database
-        const user = await this.usersService.findByRefreshToken(refreshToken)
-        if (!user) {
-            throw new UnauthorizedException('Refresh token not found')
+        // Session must still be signed in
+        const session = await this.sessionsService.findActive(decoded.sid)
+        if (!session) {
+            throw new UnauthorizedException('Session has been signed out')
         }
 
         // Verify user ID matches
+        const user = session.user
         if (user.id !== decoded.sub) {
             throw new UnauthorizedException('Token does not match user')
         }
@@ -397,13 +593,42 @@ export class AuthService {
         // Get effective role (downgrade to CUSTOMER if inactive)
         const effectiveRole = this.getEffectiveRole(user)
 
-        // Generate new access token with effective role
-        const accessToken = await this.signAccessToken(user.id, user.email, effectiveRole)
+        // Restaurant claim is re-read so reassignments apply on the next refresh
+        const newRefreshToken = await this.signRefreshToken(
+            user.id,
+            user.email,
+            effectiveRole,
+            user.restaurantId,
+            session.id
+        )
+        const rotation = await this.sessionsService.rotate(
+            session,
+            refreshToken,
+            newRefreshToken,
+            this.tokenExpiry(newRefreshToken)
+        )
+        if (rotation === 'reused') {
+            throw new UnauthorizedException(
+                'Refresh token was already used; session signed out'
+            )
+        }
+        if (rotation === 'stale') {
+            throw new UnauthorizedException('Refresh token was already rotated')
+        }
+
+        const accessToken = await this.signAccessToken(
+            user.id,
+            user.email,
+            effectiveRole,
+            user.restaurantId,
+            session.id
+        )
 
-        const { passwordHash, refreshToken: _, ...userSafe } = user
+        const userSafe = this.toSafeUser(user)
         // Return user with effective role (CUSTOMER if inactive)
         return {
             access_token: accessToken,
+            refresh_token: newRefreshToken,
             user: { ...userSafe, role: effectiveRole },
         }
     }
@@ -411,7 +636,11 @@ export class AuthService {
     /**
      * Change password for logged-in user
      */
-    async changePassword(userId: number, dto: ChangePasswordDto): Promise<{ message: string }> {
+    async changePassword(
+        userId: number,
+        dto: ChangePasswordDto,
+        sessionId?: string
+    ): Promise<{ message: string }> {
         // Find user
         const user = await this.usersService.findById(userId)
         if (!user) {
@@ -436,16 +665,62 @@ export class AuthService {
         // Update user password
         await this.usersService.updatePassword(userId, passwordHash)
 
+        // Other devices sign in again with the new password
+        await this.sessionsService.revokeAll(
+            userId,
+            'password_change',
+            sessionId
+        )
+
         return {
             message: 'Password has been changed successfully',
         }
     }
 
     /**
-     * Logout - invalidate refresh token
+     * Logout - end the session of this device
+     */
+    async logout(userId: number, sessionId?: string): Promise<void> {
+        if (sessionId) {
+            await this.sessionsService.revoke(sessionId, 'logout', userId)
+        }
+    }
+
+    /**
+     * Signed-in devices of the user, flagging the one making the request
+     */
+    async getSessions(userId: number, currentSessionId?: string) {
+        const sessions = await this.sessionsService.findForUser(userId)
+        return sessions.map((session) => ({
+            ...session,
+            current: session.id === currentSessionId,
+        }))
+    }
+
+    /**
+     * Sign one of the user's own devices out
+     */
+    async revokeSession(
+        userId: number,
+        sessionId: string
+    ): Promise<{ message: string }> {
+        const revoked = await this.sessionsService.revoke(
+            sessionId,
+            'revoked',
+            userId
+        )
+        if (!revoked) {
+            throw new NotFoundException('Session not found')
+        }
+        return { message: 'Session signed out' }
+    }
+
+    /**
+     * Sign a user out on every device (admin action)
      */
-    async logout(userId: number): Promise<void> {
-        // Clear refresh token from database
-        await this.usersService.updateRefreshToken(userId, null)
+    async signOutEverywhere(userId: number): Promise<{ revoked: number }> {
+        await this.usersService.findById(userId)
+        const revoked = await this.sessionsService.revokeAll(userId, 'admin')
+        return { revoked }
     }
 }
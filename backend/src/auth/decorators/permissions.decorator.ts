@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common'
+import { Permission } from '@aerodine/shared-types'
+
+export const PERMISSIONS_KEY = 'permissions'
+
+// Checked by RolesGuard; the user needs every listed permission
+export const Permissions = (...permissions: Permission[]) =>
+    SetMetadata(PERMISSIONS_KEY, permissions)
@@ -0,0 +1,20 @@
+import { IsInt, IsNotEmpty, IsString, Matches } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class PinLoginDto {
+    @ApiProperty({
+        description: 'Secret the device received when it was registered',
+    })
+    @IsString()
+    @IsNotEmpty()
+    deviceToken: string
+
+    @ApiProperty({ example: 3, description: 'Staff member signing in' })
+    @IsInt()
+    userId: number
+
+    @ApiProperty({ example: '1234', description: '4 to 6 digit PIN' })
+    @IsString()
+    @Matches(/^\d{4,6}$/, { message: 'PIN must be 4 to 6 digits' })
+    pin: string
+}
@@ -0,0 +1,29 @@
+import {
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RegisterDeviceDto {
+    @ApiProperty({
+        example: 'Pass tablet',
+        description: 'Label shown in the device list and on sessions',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string
+
+    @ApiProperty({
+        example: 1,
+        required: false,
+        description:
+            'Restaurant whose staff can sign in on it; defaults to the admin assignment',
+    })
+    @IsOptional()
+    @IsInt()
+    restaurantId?: number
+}
@@ -0,0 +1,12 @@
+import { IsString, Matches } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class SetPinDto {
+    @ApiProperty({
+        example: '1234',
+        description: '4 to 6 digit PIN for shared staff devices',
+    })
+    @IsString()
+    @Matches(/^\d{4,6}$/, { message: 'PIN must be 4 to 6 digits' })
+    pin: string
+}
@@ -6,7 +6,20 @@ import {
 } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
 import { ROLES_KEY } from '../decorators/roles.decorator'
-import { UserRole } from '@aerodine/shared-types'
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator'
+import { Permission, UserRole } from '@aerodine/shared-types'
+
+interface ScopedRequest {
+    method?: string
+    user?: {
+        role: UserRole
+        restaurantId?: number | null
+        permissions?: Permission[]
+    }
+    params?: { restaurantId?: unknown; [key: string]: unknown }
+    query?: { restaurantId?: unknown }
+    body?: { restaurantId?: unknown }
+}
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -17,15 +30,81 @@ export class RolesGuard implements CanActivate {
             ROLES_KEY,
             [context.getHandler(), context.getClass()]
         )
+        const requiredPermissions = this.reflector.getAllAndOverride<
+            Permission[]
+        >(PERMISSIONS_KEY, [context.getHandler(), context.getClass()])
 
-        if (!requiredRoles || requiredRoles.length === 0) {
+        if (!requiredRoles?.length && !requiredPermissions?.length) {
             return true
         }
 
-        const { user } = context.switchToHttp().getRequest()
-        if (!user || !requiredRoles.includes(user.role)) {
+        const request = context.switchToHttp().getRequest<ScopedRequest>()
+        const { user } = request
+        if (!user) {
+            throw new ForbiddenException('Insufficient role')
+        }
+        if (requiredRoles?.length && !requiredRoles.includes(user.role)) {
             throw new ForbiddenException('Insufficient role')
         }
+
+        const missing = (requiredPermissions ?? []).filter(
+            (permission) => !user.permissions?.includes(permission)
+        )
+        if (missing.length > 0) {
+            throw new ForbiddenException(
+                `Missing permission: ${missing.join(', ')}`
+            )
+        }
+
+        this.assertRestaurantScope(user, request, !!requiredPermissions?.length)
         return true
     }
+
+    /**
+     * Staff may only target the restaurant in their token claim.
+     * Admins without an assignment manage every restaurant.
+     * Staff listing through a permission must name their restaurant, as
+     * such lists cover every restaurant by default. Reads by id are
+     * scoped by their service against the record's restaurant.
+     */
+    private assertRestaurantScope(
+        user: NonNullable<ScopedRequest['user']>,
+        request: ScopedRequest,
+        viaPermission = false
+    ) {
+        if (user.role === UserRole.CUSTOMER) {
+            return
+        }
+
+        const target =
+            request.params?.restaurantId ??
+            request.query?.restaurantId ??
+            request.body?.restaurantId
+        if (target === undefined || target === null || target === '') {
+            if (
+                viaPermission &&
+                user.role !== UserRole.ADMIN &&
+                request.method === 'GET' &&
+                Object.keys(request.params ?? {}).length === 0
+            ) {
+                throw new ForbiddenException('restaurantId is required')
+            }
+            return
+        }
+
+        if (user.restaurantId == null) {
+            if (user.role === UserRole.ADMIN) {
+                return
+            }
+            throw new ForbiddenException(
+                'Staff account is not assigned to a restaurant'
+            )
+        }
+
+        if (Number(target) !== user.restaurantId) {
+            throw new ForbiddenException(
+                'You can only access your own restaurant'
+            )
+        }
+    }
 }
@@ -1,118 +1,159 @@
 import { Injectable, Logger } from '@nestjs/common'
 import * as crypto from 'crypto'
+import * as bcrypt from 'bcrypt'
+import { PrismaService } from '../database/prisma.service'
 
-interface OtpData {
-    code: string
-    email: string
-    userId: number
-    expiresAt: Date
-}
+const MINUTE_MS = 60 * 1000
 
+/**
+ * Password reset codes, stored hashed in the database so they survive a
+ * restart and work across backend instances
+ */
 @Injectable()
 export class OtpService {
     private readonly logger = new Logger(OtpService.name)
-    // In-memory storage for OTP codes
-    // In production, consider using Redis or database
-    private readonly otpStore = new Map<string, OtpData>()
     private readonly OTP_EXPIRATION_MINUTES = 10
-    private readonly OTP_CODE_LENGTH = 6
+    private readonly OTP_MAX_ATTEMPTS = 5 // Wrong guesses before a code is burned
+    private readonly OTP_RESEND_COOLDOWN_SECONDS = 60
+    private readonly OTP_MAX_PER_HOUR = 5
+    private readonly OTP_RETENTION_HOURS = 24 // Old rows kept for the hourly limit
+
+    constructor(private readonly prisma: PrismaService) {}
 
     /**
      * Generate a 6-digit OTP code
      */
     generateOtpCode(): string {
-        // Generate random 6-digit code
-        const code = crypto.randomInt(100000, 999999).toString()
-        return code
+        return crypto.randomInt(100000, 1000000).toString()
     }
 
     /**
-     * Store OTP code with expiration
+     * Whether a new code may be sent: one per cooldown, a few per hour
      */
-    storeOtp(email: string, userId: number, code: string): void {
-        const expiresAt = new Date()
-        expiresAt.setMinutes(expiresAt.getMinutes() + this.OTP_EXPIRATION_MINUTES)
-
-        // Remove any existing OTP for this email
-        this.removeOtp(email)
-
-        // Store new OTP
-        const key = this.getOtpKey(email)
-        this.otpStore.set(key, {
-            code,
-            email,
-            userId,
-            expiresAt,
+    async canSendOtp(userId: number): Promise<boolean> {
+        const now = Date.now()
+        const recent = await this.prisma.otpCode.findMany({
+            where: {
+                userId,
+                createdAt: { gte: new Date(now - 60 * MINUTE_MS) },
+            },
+            select: { createdAt: true },
+            orderBy: { createdAt: 'desc' },
         })
 
-        this.logger.debug(`OTP stored for ${email}, expires at ${expiresAt}`)
-
-        // Clean up expired OTPs periodically
-        this.cleanupExpiredOtps()
+        if (recent.length >= this.OTP_MAX_PER_HOUR) {
+            return false
+        }
+        return (
+            recent.length === 0 ||
+            recent[0].createdAt.getTime() <
+                now - this.OTP_RESEND_COOLDOWN_SECONDS * 1000
+        )
     }
 
     /**
-     * Verify OTP code
+     * Store a new code for the user, replacing any earlier one
      */
-    verifyOtp(email: string, code: string): { valid: boolean; userId?: number } {
-        const key = this.getOtpKey(email)
-        const otpData = this.otpStore.get(key)
+    async storeOtp(userId: number, code: string): Promise<void> {
+        const now = new Date()
+        const expiresAt = new Date(
+            now.getTime() + this.OTP_EXPIRATION_MINUTES * MINUTE_MS
+        )
+        const codeHash = await bcrypt.hash(code, 10)
+
+        await this.prisma.$transaction([
+            this.prisma.otpCode.updateMany({
+                where: { userId, consumedAt: null },
+                data: { consumedAt: now },
+            }),
+            this.prisma.otpCode.create({
+                data: { userId, codeHash, expiresAt },
+            }),
+            this.prisma.otpCode.deleteMany({
+                where: {
+                    createdAt: {
+                        lt: new Date(
+                            now.getTime() -
+                                this.OTP_RETENTION_HOURS * 60 * MINUTE_MS
+                        ),
+                    },
+                },
+            }),
+        ])
+
+        this.logger.debug(
+            `OTP stored for user ${userId}, expires at ${expiresAt.toISOString()}`
+        )
+    }
 
-        if (!otpData) {
-            this.logger.warn(`OTP not found for ${email}`)
-            return { valid: false }
+    /**
+     * Check a code against the user's live OTP
+     * Every check uses up an attempt; the code is burned when they run out.
+     * With consume, a matching code is used up as well
+     */
+    async verifyOtp(
+        userId: number,
+        code: string,
+        consume = false
+    ): Promise<{ valid: boolean; attemptsLeft: number }> {
+        const now = new Date()
+        const otp = await this.prisma.otpCode.findFirst({
+            where: { userId, consumedAt: null, expiresAt: { gt: now } },
+            orderBy: { createdAt: 'desc' },
+        })
+        if (!otp) {
+            this.logger.warn(`No live OTP for user ${userId}`)
+            return { valid: false, attemptsLeft: 0 }
         }
 
-        // Check expiration
-        if (new Date() > otpData.expiresAt) {
-            this.logger.warn(`OTP expired for ${email}`)
-            this.removeOtp(email)
-            return { valid: false }
+        // Reserve the attempt first so parallel guesses cannot exceed the limit
+        const { count } = await this.prisma.otpCode.updateMany({
+            where: {
+                id: otp.id,
+                consumedAt: null,
+                attempts: { lt: this.OTP_MAX_ATTEMPTS },
+            },
+            data: { attempts: { increment: 1 } },
+        })
+        if (count === 0) {
+            return { valid: false, attemptsLeft: 0 }
         }
 
-        // Verify code (case-insensitive)
-        if (otpData.code.toLowerCase() !== code.toLowerCase()) {
-            this.logger.warn(`Invalid OTP code for ${email}`)
-            return { valid: false }
-        }
+        const attemptsLeft = this.OTP_MAX_ATTEMPTS - (otp.attempts + 1)
+        const valid = await bcrypt.compare(code.trim(), otp.codeHash)
 
-        // OTP is valid
-        this.logger.debug(`OTP verified successfully for ${email}`)
-        return { valid: true, userId: otpData.userId }
-    }
+        if (!valid) {
+            this.logger.warn(
+                `Invalid OTP for user ${userId}, ${attemptsLeft} attempt(s) left`
+            )
+            if (attemptsLeft <= 0) {
+                await this.removeOtp(userId)
+            }
+            return { valid: false, attemptsLeft: Math.max(attemptsLeft, 0) }
+        }
 
-    /**
-     * Remove OTP for email (after successful use or expiration)
-     */
-    removeOtp(email: string): void {
-        const key = this.getOtpKey(email)
-        this.otpStore.delete(key)
-    }
+        if (consume) {
+            // Only one reset can use the code
+            const consumed = await this.prisma.otpCode.updateMany({
+                where: { id: otp.id, consumedAt: null },
+                data: { consumedAt: now },
+            })
+            if (consumed.count === 0) {
+                return { valid: false, attemptsLeft: 0 }
+            }
+        }
 
-    /**
-     * Get OTP key for email
-     */
-    private getOtpKey(email: string): string {
-        return email.toLowerCase().trim()
+        this.logger.debug(`OTP verified for user ${userId}`)
+        return { valid: true, attemptsLeft }
     }
 
     /**
-     * Clean up expired OTPs
+     * Burn the user's live codes
      */
-    private cleanupExpiredOtps(): void {
-        const now = new Date()
-        const keysToDelete: string[] = []
-
-        for (const [key, otpData] of this.otpStore.entries()) {
-            if (now > otpData.expiresAt) {
-                keysToDelete.push(key)
-            }
-        }
-
-        keysToDelete.forEach((key) => this.otpStore.delete(key))
-
-        if (keysToDelete.length > 0) {
-            this.logger.debug(`Cleaned up ${keysToDelete.length} expired OTPs`)
-        }
+    async removeOtp(userId: number): Promise<void> {
+        await this.prisma.otpCode.updateMany({
+            where: { userId, consumedAt: null },
+            data: { consumedAt: new Date() },
+        })
     }
 }
@@ -0,0 +1,99 @@
+import { Test } from '@nestjs/testing'
+import { Session } from '@prisma/client'
+import { SessionsService } from './sessions.service'
+import { PrismaService } from '../database/prisma.service'
+
+/**
+ * Just enough of Prisma for refresh token rotation: one session row,
+ * kept in memory
+ */
+function createPrisma(session: Session) {
+    return {
+        session: {
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { id: string; tokenHash?: string; revokedAt: null }
+                data: Partial<Session>
+            }) => {
+                const matches =
+                    session.id === where.id &&
+                    session.revokedAt === null &&
+                    (where.tokenHash === undefined ||
+                        session.tokenHash === where.tokenHash)
+                if (matches) Object.assign(session, data)
+                return Promise.resolve({ count: matches ? 1 : 0 })
+            },
+        },
+    }
+}
+
+describe('SessionsService refresh token rotation', () => {
+    let service: SessionsService
+    let session: Session
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+
+    beforeEach(async () => {
+        session = {
+            id: 'session-1',
+            userId: 1,
+            tokenHash: '',
+            previousTokenHash: null,
+            deviceName: 'Chrome on Windows',
+            userAgent: null,
+            ipAddress: null,
+            createdAt: new Date(),
+            lastUsedAt: new Date(),
+            expiresAt,
+            revokedAt: null,
+            revokedReason: null,
+        }
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                SessionsService,
+                { provide: PrismaService, useValue: createPrisma(session) },
+            ],
+        }).compile()
+
+        service = moduleRef.get(SessionsService)
+        session.tokenHash = service.hashToken('token-1')
+    })
+
+    const rotate = (presented: string, next: string) =>
+        service.rotate({ ...session }, presented, next, expiresAt)
+
+    it('replaces the current token with the new one', async () => {
+        await expect(rotate('token-1', 'token-2')).resolves.toBe('rotated')
+
+        expect(session.tokenHash).toBe(service.hashToken('token-2'))
+        expect(session.previousTokenHash).toBe(service.hashToken('token-1'))
+        expect(session.revokedAt).toBeNull()
+    })
+
+    it('lets another tab send the token it just replaced', async () => {
+        await rotate('token-1', 'token-2')
+
+        await expect(rotate('token-1', 'token-3')).resolves.toBe('stale')
+        expect(session.tokenHash).toBe(service.hashToken('token-2'))
+        expect(session.revokedAt).toBeNull()
+    })
+
+    it('signs the session out when a replaced token comes back later', async () => {
+        await rotate('token-1', 'token-2')
+        session.lastUsedAt = new Date(Date.now() - 60 * 1000)
+
+        await expect(rotate('token-1', 'token-3')).resolves.toBe('reused')
+        expect(session.revokedAt).not.toBeNull()
+        expect(session.revokedReason).toBe('reuse')
+
+        // The current token no longer rotates on the revoked session either
+        await expect(rotate('token-2', 'token-4')).resolves.toBe('stale')
+    })
+
+    it('signs the session out on a token it never issued', async () => {
+        await expect(rotate('forged', 'token-2')).resolves.toBe('reused')
+        expect(session.revokedReason).toBe('reuse')
+    })
+})
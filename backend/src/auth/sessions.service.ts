@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Prisma, Session } from '@prisma/client'
+import * as crypto from 'crypto'
+import { PrismaService } from '../database/prisma.service'
+
+const ROTATION_GRACE_SECONDS = 30 // Another tab may still send the token it just replaced
+const RETENTION_DAYS = 30 // Ended sessions are deleted after this
+
+export type SessionMeta = {
+    userAgent?: string
+    ipAddress?: string
+    deviceName?: string // Registered device name, otherwise read from userAgent
+}
+
+// Request user as set by JwtStrategy
+export type SessionUser = {
+    id: number
+    sessionId?: string
+}
+
+export type SessionEndReason =
+    | 'logout'
+    | 'revoked' // By the user from another device
+    | 'admin'
+    | 'password_reset'
+    | 'password_change'
+    | 'reuse' // A rotated refresh token came back
+
+export type RotationResult = 'rotated' | 'stale' | 'reused'
+
+const SESSION_SELECT = {
+    id: true,
+    deviceName: true,
+    ipAddress: true,
+    createdAt: true,
+    lastUsedAt: true,
+    expiresAt: true,
+} satisfies Prisma.SessionSelect
+
+const BROWSERS: [string, RegExp][] = [
+    ['Edge', /Edg\//],
+    ['Opera', /OPR\//],
+    ['Chrome', /Chrome\//],
+    ['Firefox', /Firefox\//],
+    ['Safari', /Safari\//],
+]
+
+const PLATFORMS: [string, RegExp][] = [
+    ['Android', /Android/],
+    ['iPad', /iPad/],
+    ['iPhone', /iPhone/],
+    ['Windows', /Windows/],
+    ['macOS', /Mac OS X/],
+    ['Linux', /Linux/],
+]
+
+/**
+ * "Chrome on Windows" style label from a User-Agent header
+ */
+function describeDevice(userAgent?: string): string | null {
+    if (!userAgent) return null
+
+    const browser =
+        BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0] ??
+        'Browser'
+    const platform = PLATFORMS.find(([, pattern]) =>
+        pattern.test(userAgent)
+    )?.[0]
+    return platform ? `${browser} on ${platform}` : browser
+}
+
+/**
+ * Sessions Service - one row per signed-in device
+ * Only a hash of the refresh token is stored. Each refresh replaces the
+ * token; presenting a replaced token again means it leaked, and the
+ * session is ended
+ */
+@Injectable()
+export class SessionsService {
+    private readonly logger = new Logger(SessionsService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex')
+    }
+
+    async create(
+        id: string,
+        userId: number,
+        refreshToken: string,
+        expiresAt: Date,
+        meta: SessionMeta = {}
+    ): Promise<Session> {
+        const cutoff = new Date(
+            Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+        )
+        const [, session] = await this.prisma.$transaction([
+            this.prisma.session.deleteMany({
+                where: {
+                    userId,
+                    OR: [
+                        { expiresAt: { lt: cutoff } },
+                        { revokedAt: { lt: cutoff } },
+                    ],
+                },
+            }),
+            this.prisma.session.create({
+                data: {
+                    id,
+                    userId,
+                    tokenHash: this.hashToken(refreshToken),
+                    deviceName:
+                        meta.deviceName ?? describeDevice(meta.userAgent),
+                    userAgent: meta.userAgent?.slice(0, 500),
+                    ipAddress: meta.ipAddress,
+                    expiresAt,
+                },
+            }),
+        ])
+        return session
+    }
+
+    /**
+     * Live session with its user, null when revoked or expired
+     */
+    async findActive(id: string) {
+        return this.prisma.session.findFirst({
+            where: { id, revokedAt: null, expiresAt: { gt: new Date() } },
+            include: { user: true },
+        })
+    }
+
+    async isActive(id: string): Promise<boolean> {
+        const count = await this.prisma.session.count({
+            where: { id, revokedAt: null, expiresAt: { gt: new Date() } },
+        })
+        return count > 0
+    }
+
+    /**
+     * Swap the presented refresh token for a new one
+     * - rotated: the presented token was current and has been replaced
+     * - stale: it was replaced moments ago, e.g. by another tab; nothing changes
+     * - reused: it was replaced earlier, so it leaked; the session is revoked
+     */
+    async rotate(
+        session: Session,
+        presentedToken: string,
+        newToken: string,
+        expiresAt: Date
+    ): Promise<RotationResult> {
+        const presentedHash = this.hashToken(presentedToken)
+
+        if (presentedHash === session.tokenHash) {
+            // Only if no parallel refresh rotated it first
+            const { count } = await this.prisma.session.updateMany({
+                where: {
+                    id: session.id,
+                    tokenHash: presentedHash,
+                    revokedAt: null,
+                },
+                data: {
+                    tokenHash: this.hashToken(newToken),
+                    previousTokenHash: presentedHash,
+                    lastUsedAt: new Date(),
+                    expiresAt,
+                },
+            })
+            return count > 0 ? 'rotated' : 'stale'
+        }
+
+        if (
+            presentedHash === session.previousTokenHash &&
+            session.lastUsedAt.getTime() >
+                Date.now() - ROTATION_GRACE_SECONDS * 1000
+        ) {
+            return 'stale'
+        }
+
+        await this.revoke(session.id, 'reuse')
+        this.logger.warn(
+            `Refresh token reuse on session ${session.id} of user ${session.userId}, session revoked`
+        )
+        return 'reused'
+    }
+
+    /**
+     * Signed-in devices of a user, most recently used first
+     */
+    async findForUser(userId: number) {
+        return this.prisma.session.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: SESSION_SELECT,
+            orderBy: { lastUsedAt: 'desc' },
+        })
+    }
+
+    /**
+     * End one session; with userId, only if it belongs to that user
+     */
+    async revoke(id: string, reason: SessionEndReason, userId?: number) {
+        const { count } = await this.prisma.session.updateMany({
+            where: { id, userId, revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason },
+        })
+        return count > 0
+    }
+
+    /**
+     * End every session of a user, optionally keeping one
+     */
+    async revokeAll(
+        userId: number,
+        reason: SessionEndReason,
+        exceptId?: string
+    ) {
+        const { count } = await this.prisma.session.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                id: exceptId ? { not: exceptId } : undefined,
+            },
+            data: { revokedAt: new Date(), revokedReason: reason },
+        })
+        if (count > 0) {
+            this.logger.log(
+                `Revoked ${count} session(s) of user ${userId} (${reason})`
+            )
+        }
+        return count
+    }
+}
@@ -0,0 +1,150 @@
+import {
+    BadRequestException,
+    Injectable,
+    Logger,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common'
+import { Prisma, StaffDevice, UserRole } from '@prisma/client'
+import * as crypto from 'crypto'
+import { PrismaService } from '../database/prisma.service'
+import { RegisterDeviceDto } from './dto/register-device.dto'
+
+const DEVICE_SELECT = {
+    id: true,
+    restaurantId: true,
+    name: true,
+    lastUsedAt: true,
+    createdAt: true,
+} satisfies Prisma.StaffDeviceSelect
+
+// Roles that can sign in with a PIN on a shared device
+const PIN_ROLES = [UserRole.WAITER, UserRole.KITCHEN, UserRole.ADMIN]
+
+export type DeviceAdmin = {
+    id: number
+    restaurantId?: number | null
+}
+
+/**
+ * Staff Devices Service - shared tablets registered by an admin
+ * A registered device holds a secret; staff of its restaurant sign in on
+ * it with their PIN instead of email and password
+ */
+@Injectable()
+export class StaffDevicesService {
+    private readonly logger = new Logger(StaffDevicesService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    private hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex')
+    }
+
+    /**
+     * Register a device; the returned deviceToken is shown only once
+     */
+    async register(dto: RegisterDeviceDto, admin: DeviceAdmin) {
+        const restaurantId = admin.restaurantId ?? dto.restaurantId
+        if (!restaurantId) {
+            throw new BadRequestException(
+                'restaurantId is required for admins without a restaurant'
+            )
+        }
+
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${restaurantId} not found`
+            )
+        }
+
+        const deviceToken = crypto.randomBytes(32).toString('hex')
+        const device = await this.prisma.staffDevice.create({
+            data: {
+                restaurantId,
+                name: dto.name.trim(),
+                tokenHash: this.hashToken(deviceToken),
+            },
+            select: DEVICE_SELECT,
+        })
+        this.logger.log(
+            `Device ${device.id} "${device.name}" registered for restaurant ${restaurantId} by user ${admin.id}`
+        )
+        return { ...device, deviceToken }
+    }
+
+    async findAll(restaurantId?: number) {
+        return this.prisma.staffDevice.findMany({
+            where: { restaurantId, revokedAt: null },
+            select: DEVICE_SELECT,
+            orderBy: { createdAt: 'desc' },
+        })
+    }
+
+    async revoke(id: number) {
+        const { count } = await this.prisma.staffDevice.updateMany({
+            where: { id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        })
+        if (count === 0) {
+            throw new NotFoundException(`Device with ID ${id} not found`)
+        }
+        return { message: 'Device revoked' }
+    }
+
+    /**
+     * The registered device holding this secret
+     */
+    async authenticate(deviceToken?: string): Promise<StaffDevice> {
+        const device = deviceToken
+            ? await this.prisma.staffDevice.findFirst({
+                  where: {
+                      tokenHash: this.hashToken(deviceToken),
+                      revokedAt: null,
+                  },
+              })
+            : null
+        if (!device) {
+            throw new UnauthorizedException('Device is not registered')
+        }
+
+        await this.prisma.staffDevice.update({
+            where: { id: device.id },
+            data: { lastUsedAt: new Date() },
+        })
+        return device
+    }
+
+    /**
+     * Staff who can pick themselves on the device's PIN pad
+     */
+    async findStaff(device: StaffDevice) {
+        return this.prisma.user.findMany({
+            where: {
+                restaurantId: device.restaurantId,
+                isActive: true,
+                role: { in: PIN_ROLES },
+                pinHash: { not: null },
+            },
+            select: { id: true, fullName: true, avatar: true, role: true },
+            orderBy: { fullName: 'asc' },
+        })
+    }
+
+    /**
+     * Staff member of the device's restaurant, null when they cannot use it
+     */
+    async findStaffMember(device: StaffDevice, userId: number) {
+        return this.prisma.user.findFirst({
+            where: {
+                id: userId,
+                restaurantId: device.restaurantId,
+                isActive: true,
+                role: { in: PIN_ROLES },
+            },
+        })
+    }
+}
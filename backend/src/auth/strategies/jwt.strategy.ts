@@ -4,18 +4,24 @@ import { ExtractJwt, Strategy } from 'passport-jwt'
 import { ConfigService } from '@nestjs/config'
 import { UserRole } from '@aerodine/shared-types'
 import { UsersService } from '../../users/users.service'
+import { SessionsService } from '../sessions.service'
+import { resolvePermissions } from '../../common/utils/permissions.util'
 
 export interface JwtPayload {
     sub: number
     email: string
     role: string
+    restaurantId?: number | null
+    sid?: string
+    type?: string
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
     constructor(
         configService: ConfigService,
-        private readonly usersService: UsersService
+        private readonly usersService: UsersService,
+        private readonly sessionsService: SessionsService
     ) {
         const secretOrKey = configService.get<string>('jwt.secret')
         if (!secretOrKey) {
@@ -32,15 +38,32 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         if (!payload.sub || !payload.email || !payload.role) {
             throw new UnauthorizedException('Invalid token payload')
         }
+        // Refresh and password reset tokens are signed with the same secret
+        if (payload.type !== 'access') {
+            throw new UnauthorizedException('Invalid token type')
+        }
 
         // Check if user exists and get current status
-        let user
+        let user: Awaited<ReturnType<UsersService['findById']>>
         try {
             user = await this.usersService.findById(payload.sub)
         } catch (error) {
             throw new UnauthorizedException('User not found or account is invalid')
         }
 
+        // Signed-out devices lose access before the token expires
+        if (
+            payload.sid &&
+            !(await this.sessionsService.isActive(payload.sid))
+        ) {
+            throw new UnauthorizedException('Session has been signed out')
+        }
+
+        // Staff reassigned to another restaurant must pick up a fresh token
+        if ((payload.restaurantId ?? null) !== user.restaurantId) {
+            throw new UnauthorizedException('Restaurant assignment has changed')
+        }
+
         // If user is inactive, downgrade role to CUSTOMER
         // This ensures inactive users can only access CUSTOMER-level endpoints
         const effectiveRole = user.isActive ? (payload.role as UserRole) : UserRole.CUSTOMER
@@ -50,6 +73,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
             id: payload.sub,
             email: payload.email,
             role: effectiveRole,
+            restaurantId: user.restaurantId,
+            // Read on every request, so role edits apply without a new token
+            permissions: resolvePermissions(
+                effectiveRole,
+                user.restaurantId,
+                user.staffRole
+            ),
+            sessionId: payload.sid,
             fullName: user.fullName,
             avatar: user.avatar,
             isActive: user.isActive,
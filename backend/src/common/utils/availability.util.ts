@@ -0,0 +1,97 @@
+/**
+ * Day-part availability of menu items and categories
+ * Windows are evaluated on the restaurant's wall clock
+ */
+
+import { getZonedParts, toZonedDateKey } from './timezone.util'
+
+export interface AvailabilityWindowLike {
+    daysOfWeek: number[] // 0 = Sunday; empty = every day
+    startTime: string | null // HH:mm, inclusive
+    endTime: string | null // HH:mm, exclusive
+    startDate: Date | null // Local date, stored at UTC midnight
+    endDate: Date | null
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+export function parseTimeOfDay(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number)
+    return hours * 60 + minutes
+}
+
+function toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Whether a window covers the given local day and minute of that day
+ * A window whose end is before its start runs past midnight; the hours after
+ * midnight belong to the day the window started on
+ */
+function coversWindow(
+    window: AvailabilityWindowLike,
+    at: Date,
+    timeZone: string
+): boolean {
+    const local = getZonedParts(at, timeZone)
+    const minute = local.hour * 60 + local.minute
+    const start = window.startTime ? parseTimeOfDay(window.startTime) : 0
+    const end = window.endTime
+        ? parseTimeOfDay(window.endTime)
+        : MINUTES_PER_DAY
+
+    let day = at
+    if (start < end) {
+        if (minute < start || minute >= end) return false
+    } else if (minute < end) {
+        // After midnight of an overnight window: it opened the day before
+        day = new Date(at.getTime() - MINUTES_PER_DAY * 60 * 1000)
+    } else if (minute < start) {
+        return false
+    }
+
+    const dayParts = getZonedParts(day, timeZone)
+    if (
+        window.daysOfWeek.length > 0 &&
+        !window.daysOfWeek.includes(dayParts.weekday)
+    ) {
+        return false
+    }
+
+    const dateKey = toZonedDateKey(day, timeZone)
+    if (window.startDate && dateKey < toDateKey(window.startDate)) return false
+    if (window.endDate && dateKey > toDateKey(window.endDate)) return false
+    return true
+}
+
+/**
+ * Whether any of the windows is open at the instant
+ * No windows means no schedule: always available
+ */
+export function isWithinWindows(
+    windows: AvailabilityWindowLike[],
+    at: Date,
+    timeZone: string
+): boolean {
+    if (windows.length === 0) return true
+    return windows.some((window) => coversWindow(window, at, timeZone))
+}
+
+/**
+ * A menu item is on the menu when both its own schedule and its
+ * category's schedule are open
+ */
+export function isMenuItemOnSchedule(
+    menuItem: {
+        availabilityWindows: AvailabilityWindowLike[]
+        category: { availabilityWindows: AvailabilityWindowLike[] }
+    },
+    at: Date,
+    timeZone: string
+): boolean {
+    return (
+        isWithinWindows(menuItem.availabilityWindows, at, timeZone) &&
+        isWithinWindows(menuItem.category.availabilityWindows, at, timeZone)
+    )
+}
@@ -0,0 +1,47 @@
+/**
+ * Order total breakdown
+ * Service charge is taken on the discounted subtotal, VAT on the discounted
+ * subtotal plus service charge; tips are neither charged nor taxed
+ */
+
+export interface OrderChargesInput {
+    subtotal: number // Items after pricing rules
+    discountAmount: number // Promo code discount
+    serviceChargeRate: number // Percent
+    taxRate: number // Percent
+    tipAmount: number
+}
+
+export interface OrderTotals {
+    subtotal: number
+    discountAmount: number
+    serviceCharge: number
+    taxAmount: number
+    tipAmount: number
+    totalAmount: number
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+export function calculateOrderTotals(input: OrderChargesInput): OrderTotals {
+    const subtotal = roundMoney(input.subtotal)
+    // Items removed after the code was applied cannot push the total below 0
+    const discountAmount = roundMoney(Math.min(input.discountAmount, subtotal))
+    const taxable = subtotal - discountAmount
+    const serviceCharge = roundMoney((taxable * input.serviceChargeRate) / 100)
+    const taxAmount = roundMoney(
+        ((taxable + serviceCharge) * input.taxRate) / 100
+    )
+    const tipAmount = roundMoney(input.tipAmount)
+
+    return {
+        subtotal,
+        discountAmount,
+        serviceCharge,
+        taxAmount,
+        tipAmount,
+        totalAmount: roundMoney(
+            taxable + serviceCharge + taxAmount + tipAmount
+        ),
+    }
+}
@@ -0,0 +1,17 @@
+import { PaymentStatus } from '@prisma/client'
+
+/**
+ * Payments whose money was taken
+ * Refunds do not undo a capture: refunded payments keep counting towards
+ * what the order was paid, and the refunded part is tracked separately in
+ * refundedAmount
+ */
+export const CAPTURED_PAYMENT_STATUSES: PaymentStatus[] = [
+    PaymentStatus.SUCCESS,
+    PaymentStatus.PARTIALLY_REFUNDED,
+    PaymentStatus.REFUNDED,
+]
+
+export function isCapturedPayment(status: PaymentStatus) {
+    return CAPTURED_PAYMENT_STATUSES.includes(status)
+}
@@ -0,0 +1,63 @@
+import {
+    DEFAULT_ROLE_PERMISSIONS,
+    Permission,
+    UserRole,
+} from '@aerodine/shared-types'
+
+// Request user carrying the permissions resolved by JwtStrategy
+export type PermissionUser = {
+    id: number
+    role: UserRole
+    restaurantId?: number | null
+    permissions?: Permission[]
+}
+
+const PERMISSIONS = Object.values(Permission) as string[]
+
+export function isPermission(value: string): value is Permission {
+    return PERMISSIONS.includes(value)
+}
+
+/**
+ * Permissions a user holds
+ * Admins hold all of them. Other staff get those of their custom role,
+ * or the defaults of their base role without one; a custom role of
+ * another restaurant, left over from a reassignment, is ignored
+ */
+export function resolvePermissions(
+    role: UserRole,
+    restaurantId: number | null,
+    staffRole?: { restaurantId: number | null; permissions: string[] } | null
+): Permission[] {
+    if (
+        role === UserRole.ADMIN ||
+        role === UserRole.CUSTOMER ||
+        !staffRole ||
+        (staffRole.restaurantId !== null &&
+            staffRole.restaurantId !== restaurantId)
+    ) {
+        return DEFAULT_ROLE_PERMISSIONS[role]
+    }
+    return staffRole.permissions.filter(isPermission)
+}
+
+/**
+ * Staff act on their own restaurant's records only; admins without an
+ * assignment act on every restaurant's
+ */
+export function canAccessRestaurant(
+    user: Pick<PermissionUser, 'role' | 'restaurantId'>,
+    restaurantId: number
+) {
+    if (user.role === UserRole.ADMIN && user.restaurantId == null) {
+        return true
+    }
+    return user.restaurantId === restaurantId
+}
+
+export function hasPermission(
+    user: PermissionUser | undefined,
+    permission: Permission
+) {
+    return !!user?.permissions?.includes(permission)
+}
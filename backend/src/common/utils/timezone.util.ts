@@ -0,0 +1,129 @@
+/**
+ * Timezone helpers built on Intl (no date library required)
+ * Used to bound and bucket data in a restaurant's local time
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Ho_Chi_Minh'
+
+export interface ZonedDateParts {
+    year: number
+    month: number // 1-12
+    day: number
+    hour: number // 0-23
+    minute: number
+    second: number
+    weekday: number // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone)
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+            weekday: 'short',
+        })
+        formatters.set(timeZone, formatter)
+    }
+    return formatter
+}
+
+/**
+ * Check whether a string is a valid IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone)
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Get wall-clock parts of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+    const parts: Record<string, string> = {}
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value
+    }
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    }
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const p = getZonedParts(date, timeZone)
+    const asUtc = Date.UTC(
+        p.year,
+        p.month - 1,
+        p.day,
+        p.hour,
+        p.minute,
+        p.second
+    )
+    return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+/**
+ * Convert a wall-clock time in the timezone to a UTC instant
+ * Out-of-range values roll over like Date.UTC (e.g. day 32)
+ */
+export function zonedTimeToUtc(
+    timeZone: string,
+    year: number,
+    month: number,
+    day: number,
+    hour = 0,
+    minute = 0
+): Date {
+    const guess = Date.UTC(year, month - 1, day, hour, minute)
+    const offset = getTimeZoneOffset(new Date(guess), timeZone)
+    // Re-check the offset at the result in case a DST shift lies in between
+    const correctedOffset = getTimeZoneOffset(
+        new Date(guess - offset),
+        timeZone
+    )
+    return new Date(guess - correctedOffset)
+}
+
+/**
+ * Start of the local day containing the instant, shifted by a number of days
+ */
+export function startOfZonedDay(
+    date: Date,
+    timeZone: string,
+    addDays = 0
+): Date {
+    const p = getZonedParts(date, timeZone)
+    return zonedTimeToUtc(timeZone, p.year, p.month, p.day + addDays)
+}
+
+/**
+ * Local calendar date of the instant as YYYY-MM-DD
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+    const p = getZonedParts(date, timeZone)
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
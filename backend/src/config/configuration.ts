@@ -16,12 +16,32 @@ export default () => ({
     frontend: {
         url: process.env.FRONTEND_URL || 'http://localhost:5173',
     },
+    app: {
+        // Public URL of this API, used for gateway callbacks and redirects
+        baseUrl: process.env.APP_BASE_URL || 'http://localhost:3000',
+    },
     momo: {
         partnerCode: process.env.MOMO_PARTNER_CODE,
         accessKey: process.env.MOMO_ACCESS_KEY,
         secretKey: process.env.MOMO_SECRET_KEY,
         endpoint: process.env.MOMO_ENDPOINT || 'https://test-payment.momo.vn/v2/gateway/api/create',
-        appBaseUrl: process.env.APP_BASE_URL || 'http://localhost:3000',
+    },
+    vnpay: {
+        tmnCode: process.env.VNPAY_TMN_CODE,
+        hashSecret: process.env.VNPAY_HASH_SECRET,
+        paymentUrl:
+            process.env.VNPAY_PAYMENT_URL ||
+            'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+        apiUrl:
+            process.env.VNPAY_API_URL ||
+            'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction',
+    },
+    zalopay: {
+        appId: process.env.ZALOPAY_APP_ID,
+        key1: process.env.ZALOPAY_KEY1,
+        key2: process.env.ZALOPAY_KEY2,
+        endpoint:
+            process.env.ZALOPAY_ENDPOINT || 'https://sb-openapi.zalopay.vn/v2',
     },
     stripe: {
         secretKey: process.env.STRIPE_SECRET_KEY,
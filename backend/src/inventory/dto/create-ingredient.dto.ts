@@ -0,0 +1,53 @@
+import {
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class CreateIngredientDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({ example: 'Beef tenderloin' })
+    @IsString()
+    @IsNotEmpty()
+    name: string
+
+    @ApiProperty({ example: 'g', description: 'Unit stock is counted in' })
+    @IsString()
+    @IsNotEmpty()
+    unit: string
+
+    @ApiProperty({
+        example: 5000,
+        required: false,
+        default: 0,
+        description: 'Opening stock, recorded as a PURCHASE movement',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    stockQuantity?: number
+
+    @ApiProperty({
+        example: 1000,
+        required: false,
+        default: 0,
+        description: 'Admins are notified when stock falls to this level',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    lowStockThreshold?: number
+
+    @ApiProperty({ example: 0.45, required: false, default: 0 })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    costPerUnit?: number
+}
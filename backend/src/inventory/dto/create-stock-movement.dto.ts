@@ -0,0 +1,36 @@
+import {
+    IsIn,
+    IsNumber,
+    IsOptional,
+    IsString,
+    NotEquals,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { StockMovementType } from '@prisma/client'
+
+// CONSUMPTION is only written by completed orders
+export const MANUAL_MOVEMENT_TYPES = [
+    StockMovementType.PURCHASE,
+    StockMovementType.WASTE,
+    StockMovementType.ADJUSTMENT,
+] as const
+
+export class CreateStockMovementDto {
+    @ApiProperty({ enum: MANUAL_MOVEMENT_TYPES })
+    @IsIn(MANUAL_MOVEMENT_TYPES)
+    type: (typeof MANUAL_MOVEMENT_TYPES)[number]
+
+    @ApiProperty({
+        example: 2000,
+        description:
+            'Amount received (PURCHASE) or thrown away (WASTE); signed correction for ADJUSTMENT',
+    })
+    @IsNumber()
+    @NotEquals(0)
+    quantity: number
+
+    @ApiProperty({ example: 'Weekly delivery', required: false })
+    @IsOptional()
+    @IsString()
+    note?: string
+}
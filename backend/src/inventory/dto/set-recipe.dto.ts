@@ -0,0 +1,57 @@
+import {
+    IsArray,
+    IsInt,
+    IsNumber,
+    Min,
+    NotEquals,
+    ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RecipeLineDto {
+    @ApiProperty({ example: 1 })
+    @IsInt()
+    ingredientId: number
+
+    @ApiProperty({ example: 150, description: 'Quantity per portion' })
+    @IsNumber()
+    @Min(0.001)
+    quantity: number
+}
+
+export class ModifierIngredientLineDto {
+    @ApiProperty({ example: 1 })
+    @IsInt()
+    ingredientId: number
+
+    @ApiProperty({
+        example: 50,
+        description: 'Change per portion; negative when the option removes it',
+    })
+    @IsNumber()
+    @NotEquals(0)
+    quantity: number
+}
+
+/**
+ * DTO replacing the recipe of a menu item (empty list clears it)
+ */
+export class SetRecipeDto {
+    @ApiProperty({ type: [RecipeLineDto] })
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => RecipeLineDto)
+    ingredients: RecipeLineDto[]
+}
+
+/**
+ * DTO replacing the ingredient adjustments of a modifier option
+ */
+export class SetModifierIngredientsDto {
+    @ApiProperty({ type: [ModifierIngredientLineDto] })
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => ModifierIngredientLineDto)
+    ingredients: ModifierIngredientLineDto[]
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types'
+import { CreateIngredientDto } from './create-ingredient.dto'
+
+// Stock only changes through movements, so it is not editable here
+export class UpdateIngredientDto extends PartialType(
+    OmitType(CreateIngredientDto, ['restaurantId', 'stockQuantity'] as const)
+) {}
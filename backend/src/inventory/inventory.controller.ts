@@ -0,0 +1,152 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Param,
+    Patch,
+    Post,
+    Put,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+    ApiQuery,
+} from '@nestjs/swagger'
+import { InventoryService } from './inventory.service'
+import { CreateIngredientDto } from './dto/create-ingredient.dto'
+import { UpdateIngredientDto } from './dto/update-ingredient.dto'
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto'
+import { SetRecipeDto, SetModifierIngredientsDto } from './dto/set-recipe.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '@aerodine/shared-types'
+
+@ApiTags('inventory')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('inventory')
+export class InventoryController {
+    constructor(private readonly inventoryService: InventoryService) {}
+
+    // Ingredients
+    @Post('ingredients')
+    @ApiOperation({
+        summary: 'Create an ingredient (ADMIN only)',
+        description:
+            'Opening stock, if any, is recorded as a PURCHASE movement.',
+    })
+    @ApiResponse({ status: 201, description: 'Ingredient created' })
+    @ApiResponse({ status: 409, description: 'Name already in use' })
+    createIngredient(@Body() dto: CreateIngredientDto) {
+        return this.inventoryService.createIngredient(dto)
+    }
+
+    @Roles(UserRole.ADMIN, UserRole.KITCHEN)
+    @Get('ingredients')
+    @ApiOperation({ summary: 'List ingredients with stock levels' })
+    @ApiQuery({ name: 'restaurantId', type: Number, required: true })
+    getIngredients(@Query('restaurantId') restaurantId: string) {
+        return this.inventoryService.findIngredients(Number(restaurantId))
+    }
+
+    @Patch('ingredients/:id')
+    @ApiOperation({
+        summary: 'Update an ingredient (ADMIN only)',
+        description:
+            'Name, unit, threshold and cost. Stock changes go through movements.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Ingredient ID' })
+    updateIngredient(
+        @Param('id') id: string,
+        @Body() dto: UpdateIngredientDto
+    ) {
+        return this.inventoryService.updateIngredient(Number(id), dto)
+    }
+
+    @Delete('ingredients/:id')
+    @ApiOperation({
+        summary: 'Delete an ingredient (ADMIN only)',
+        description: 'Also removes it from every recipe.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Ingredient ID' })
+    deleteIngredient(@Param('id') id: string) {
+        return this.inventoryService.removeIngredient(Number(id))
+    }
+
+    // Stock movements
+    @Roles(UserRole.ADMIN, UserRole.KITCHEN)
+    @Post('ingredients/:id/movements')
+    @ApiOperation({
+        summary: 'Record a purchase, waste or stock adjustment',
+        description:
+            'Dishes using the ingredient are sold out or made available again, and admins are alerted when stock runs low.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Ingredient ID' })
+    @ApiResponse({ status: 201, description: 'Movement recorded' })
+    recordMovement(
+        @Param('id') id: string,
+        @Body() dto: CreateStockMovementDto
+    ) {
+        return this.inventoryService.recordMovement(Number(id), dto)
+    }
+
+    @Roles(UserRole.ADMIN, UserRole.KITCHEN)
+    @Get('ingredients/:id/movements')
+    @ApiOperation({ summary: 'Latest stock movements of an ingredient' })
+    @ApiParam({ name: 'id', type: Number, description: 'Ingredient ID' })
+    getMovements(@Param('id') id: string) {
+        return this.inventoryService.findMovements(Number(id))
+    }
+
+    // Recipes
+    @Get('costing')
+    @ApiOperation({
+        summary: 'Food cost and margin per menu item (ADMIN only)',
+    })
+    @ApiQuery({ name: 'restaurantId', type: Number, required: true })
+    getCosting(@Query('restaurantId') restaurantId: string) {
+        return this.inventoryService.getCosting(Number(restaurantId))
+    }
+
+    @Roles(UserRole.ADMIN, UserRole.KITCHEN)
+    @Get('recipes/:menuItemId')
+    @ApiOperation({ summary: 'Recipe and food cost of a menu item' })
+    @ApiParam({ name: 'menuItemId', type: Number })
+    getRecipe(@Param('menuItemId') menuItemId: string) {
+        return this.inventoryService.getRecipe(Number(menuItemId))
+    }
+
+    @Put('recipes/:menuItemId')
+    @ApiOperation({
+        summary: 'Replace the recipe of a menu item (ADMIN only)',
+    })
+    @ApiParam({ name: 'menuItemId', type: Number })
+    setRecipe(
+        @Param('menuItemId') menuItemId: string,
+        @Body() dto: SetRecipeDto
+    ) {
+        return this.inventoryService.setRecipe(Number(menuItemId), dto)
+    }
+
+    @Put('modifier-options/:id/ingredients')
+    @ApiOperation({
+        summary: 'Replace the ingredient adjustments of a modifier option',
+        description:
+            'Quantities are added to each portion when the option is chosen; negative values remove part of the recipe.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Modifier option ID' })
+    setModifierIngredients(
+        @Param('id') id: string,
+        @Body() dto: SetModifierIngredientsDto
+    ) {
+        return this.inventoryService.setModifierIngredients(Number(id), dto)
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { InventoryService } from './inventory.service'
+import { InventoryController } from './inventory.controller'
+import { SocketModule } from '../socket/socket.module'
+
+@Module({
+    imports: [SocketModule],
+    controllers: [InventoryController],
+    providers: [InventoryService],
+    exports: [InventoryService],
+})
+export class InventoryModule {}
@@ -0,0 +1,265 @@
+import { Test } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { OrderItemStatus, Prisma, StockMovementType } from '@prisma/client'
+import { InventoryService } from './inventory.service'
+import { PrismaService } from '../database/prisma.service'
+import { SocketService } from '../socket/socket.service'
+
+type Movement = {
+    ingredientId?: number | null
+    menuItemId?: number | null
+    orderItemId?: number | null
+    type: StockMovementType
+    quantity: Prisma.Decimal
+}
+
+type StockUpdate<T> = T | { increment?: T; decrement?: T }
+
+const decimal = (value: Prisma.Decimal.Value) => new Prisma.Decimal(value)
+
+/**
+ * Just enough of Prisma for order stock: one dish with a portion count,
+ * one ingredient in its recipe and the order's items, kept in memory
+ */
+function createStore(portions: number, beef: number) {
+    const menuItem = { id: 1, name: 'Pho', stockQuantity: portions }
+    const ingredient = {
+        id: 10,
+        restaurantId: 1,
+        name: 'Beef',
+        unit: 'g',
+        stockQuantity: decimal(beef),
+    }
+    const recipe = [{ menuItemId: 1, ingredientId: 10, quantity: decimal(100) }]
+    const orderItems = [
+        {
+            id: 100,
+            orderId: 1,
+            menuItemId: 1,
+            quantity: 2,
+            stockReserved: false,
+            status: OrderItemStatus.QUEUED as OrderItemStatus,
+            modifiers: [],
+        },
+    ]
+    const movements: Movement[] = []
+
+    const applyPortions = (update: StockUpdate<number>) => {
+        if (typeof update === 'number') return update
+        return (
+            menuItem.stockQuantity +
+            (update.increment ?? 0) -
+            (update.decrement ?? 0)
+        )
+    }
+    const applyIngredient = (update: StockUpdate<Prisma.Decimal.Value>) => {
+        if (typeof update !== 'object' || update instanceof Prisma.Decimal) {
+            return decimal(update)
+        }
+        return ingredient.stockQuantity
+            .plus(update.increment ?? 0)
+            .minus(update.decrement ?? 0)
+    }
+
+    const tx = {
+        orderItem: {
+            findMany: ({
+                where,
+            }: {
+                where: { orderId: number; stockReserved: boolean }
+            }) =>
+                Promise.resolve(
+                    orderItems.filter(
+                        (item) =>
+                            item.orderId === where.orderId &&
+                            item.stockReserved === where.stockReserved &&
+                            item.status !== OrderItemStatus.CANCELLED
+                    )
+                ),
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { id: { in: number[] } }
+                data: { stockReserved: boolean }
+            }) => {
+                orderItems
+                    .filter((item) => where.id.in.includes(item.id))
+                    .forEach((item) => Object.assign(item, data))
+                return Promise.resolve({ count: where.id.in.length })
+            },
+        },
+        recipeIngredient: { findMany: () => Promise.resolve(recipe) },
+        modifierOptionIngredient: { findMany: () => Promise.resolve([]) },
+        menuItem: {
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { stockQuantity: { gte?: number } }
+                data: { stockQuantity: StockUpdate<number> }
+            }) => {
+                const { gte } = where.stockQuantity
+                if (gte !== undefined && menuItem.stockQuantity < gte) {
+                    return Promise.resolve({ count: 0 })
+                }
+                menuItem.stockQuantity = applyPortions(data.stockQuantity)
+                return Promise.resolve({ count: 1 })
+            },
+            update: ({ data }: { data: { stockQuantity: number } }) => {
+                menuItem.stockQuantity = applyPortions(data.stockQuantity)
+                return Promise.resolve({ ...menuItem })
+            },
+            findUniqueOrThrow: () => Promise.resolve({ ...menuItem }),
+        },
+        ingredient: {
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { stockQuantity?: { gte: Prisma.Decimal } }
+                data: { stockQuantity: StockUpdate<Prisma.Decimal> }
+            }) => {
+                const gte = where.stockQuantity?.gte
+                if (gte && ingredient.stockQuantity.lessThan(gte)) {
+                    return Promise.resolve({ count: 0 })
+                }
+                ingredient.stockQuantity = applyIngredient(data.stockQuantity)
+                return Promise.resolve({ count: 1 })
+            },
+            update: ({
+                data,
+            }: {
+                data: { stockQuantity: StockUpdate<Prisma.Decimal.Value> }
+            }) => {
+                ingredient.stockQuantity = applyIngredient(data.stockQuantity)
+                return Promise.resolve({ ...ingredient })
+            },
+            findUniqueOrThrow: () => Promise.resolve({ ...ingredient }),
+        },
+        stockMovement: {
+            create: ({
+                data,
+            }: {
+                data: Omit<Movement, 'quantity'> & {
+                    quantity: Prisma.Decimal.Value
+                }
+            }) => {
+                movements.push({ ...data, quantity: decimal(data.quantity) })
+                return Promise.resolve(data)
+            },
+            groupBy: ({
+                where,
+            }: {
+                where: {
+                    orderItemId: { in: number[] }
+                    type: { in: StockMovementType[] }
+                }
+            }) => {
+                const groups = new Map<string, Movement>()
+                for (const movement of movements) {
+                    if (
+                        !where.orderItemId.in.includes(movement.orderItemId!) ||
+                        !where.type.in.includes(movement.type)
+                    ) {
+                        continue
+                    }
+                    const key = `${movement.ingredientId}-${movement.menuItemId}-${movement.orderItemId}`
+                    const group = groups.get(key)
+                    groups.set(key, {
+                        ...movement,
+                        quantity: movement.quantity.plus(group?.quantity ?? 0),
+                    })
+                }
+                return Promise.resolve(
+                    [...groups.values()].map((group) => ({
+                        ingredientId: group.ingredientId ?? null,
+                        menuItemId: group.menuItemId ?? null,
+                        orderItemId: group.orderItemId ?? null,
+                        _sum: { quantity: group.quantity },
+                    }))
+                )
+            },
+        },
+    }
+
+    return {
+        tx: tx as unknown as Prisma.TransactionClient,
+        menuItem,
+        ingredient,
+        recipe,
+        movements,
+    }
+}
+
+describe('InventoryService order stock', () => {
+    let service: InventoryService
+
+    beforeEach(async () => {
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                InventoryService,
+                { provide: PrismaService, useValue: {} },
+                { provide: SocketService, useValue: {} },
+            ],
+        }).compile()
+
+        service = moduleRef.get(InventoryService)
+    })
+
+    it('takes portions and ingredients when an order is accepted', async () => {
+        const store = createStore(5, 1000)
+
+        const changes = await service.reserveForOrder(1, store.tx)
+
+        expect(store.menuItem.stockQuantity).toBe(3)
+        expect(Number(store.ingredient.stockQuantity)).toBe(800)
+        expect(changes.menuItems).toEqual([
+            expect.objectContaining({ menuItemId: 1, previous: 5, current: 3 }),
+        ])
+    })
+
+    it('rejects an order the shelf cannot cover', async () => {
+        const store = createStore(1, 1000)
+
+        await expect(service.reserveForOrder(1, store.tx)).rejects.toThrow(
+            BadRequestException
+        )
+    })
+
+    it('gives back what was taken even after the recipe changed', async () => {
+        const store = createStore(5, 1000)
+        await service.reserveForOrder(1, store.tx)
+
+        store.recipe[0].quantity = decimal(150)
+        await service.releaseForOrder(1, store.tx)
+
+        expect(store.menuItem.stockQuantity).toBe(5)
+        expect(Number(store.ingredient.stockQuantity)).toBe(1000)
+    })
+
+    it('never goes below zero and only gives back what was on the shelf', async () => {
+        const store = createStore(1, 150)
+
+        await service.reserveForOrder(1, store.tx, { strict: false })
+
+        expect(store.menuItem.stockQuantity).toBe(0)
+        expect(Number(store.ingredient.stockQuantity)).toBe(0)
+
+        await service.releaseForOrder(1, store.tx)
+
+        expect(store.menuItem.stockQuantity).toBe(1)
+        expect(Number(store.ingredient.stockQuantity)).toBe(150)
+    })
+
+    it('releases an order only once', async () => {
+        const store = createStore(5, 1000)
+        await service.reserveForOrder(1, store.tx)
+
+        await service.releaseForOrder(1, store.tx)
+        await service.releaseForOrder(1, store.tx)
+
+        expect(store.menuItem.stockQuantity).toBe(5)
+        expect(Number(store.ingredient.stockQuantity)).toBe(1000)
+    })
+})
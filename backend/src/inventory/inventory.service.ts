@@ -0,0 +1,1024 @@
+import {
+    Injectable,
+    Logger,
+    NotFoundException,
+    BadRequestException,
+    ConflictException,
+} from '@nestjs/common'
+import {
+    ItemStatus,
+    OrderItemStatus,
+    Prisma,
+    StockMovementType,
+} from '@prisma/client'
+import { MenuItemStatusChangedEvent } from '@aerodine/shared-types'
+import { PrismaService } from '../database/prisma.service'
+import { SocketService } from '../socket/socket.service'
+import { CreateIngredientDto } from './dto/create-ingredient.dto'
+import { UpdateIngredientDto } from './dto/update-ingredient.dto'
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto'
+import { SetRecipeDto, SetModifierIngredientsDto } from './dto/set-recipe.dto'
+
+const MOVEMENT_HISTORY_LIMIT = 100
+// Portions left at which the kitchen is warned about a dish
+const DISH_LOW_STOCK_LEVEL = 5
+
+/**
+ * Stock level of an ingredient before and after a committed movement
+ */
+export type StockChange = {
+    ingredientId: number
+    restaurantId: number
+    previous: Prisma.Decimal
+    current: Prisma.Decimal
+}
+
+/**
+ * Portion count of a dish before and after a committed change
+ */
+export type MenuItemStockChange = {
+    menuItemId: number
+    name: string
+    previous: number
+    current: number
+}
+
+/**
+ * Everything a reservation or release moved
+ */
+export type StockChanges = {
+    ingredients: StockChange[]
+    menuItems: MenuItemStockChange[]
+}
+
+/**
+ * Dish ordered with the modifier options chosen for it
+ */
+export type StockLine = {
+    menuItemId: number
+    quantity: number
+    modifierOptionIds: number[]
+}
+
+/**
+ * Inventory Service - Ingredients, recipes and stock movements
+ * Menu items whose recipe can no longer be cooked are marked SOLD_OUT, and
+ * admins are notified when an ingredient runs low
+ */
+@Injectable()
+export class InventoryService {
+    private readonly logger = new Logger(InventoryService.name)
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly socketService: SocketService
+    ) {}
+
+    // ========================================================================
+    // INGREDIENTS
+    // ========================================================================
+
+    async createIngredient(dto: CreateIngredientDto) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: dto.restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${dto.restaurantId} not found`
+            )
+        }
+        await this.assertNameFree(dto.restaurantId, dto.name)
+
+        const openingStock = dto.stockQuantity ?? 0
+        return this.prisma.$transaction(async (tx) => {
+            const ingredient = await tx.ingredient.create({
+                data: {
+                    restaurantId: dto.restaurantId,
+                    name: dto.name.trim(),
+                    unit: dto.unit.trim(),
+                    stockQuantity: openingStock,
+                    lowStockThreshold: dto.lowStockThreshold ?? 0,
+                    costPerUnit: dto.costPerUnit ?? 0,
+                },
+            })
+            if (openingStock > 0) {
+                await tx.stockMovement.create({
+                    data: {
+                        ingredientId: ingredient.id,
+                        type: StockMovementType.PURCHASE,
+                        quantity: openingStock,
+                        note: 'Opening stock',
+                    },
+                })
+            }
+            return ingredient
+        })
+    }
+
+    async findIngredients(restaurantId: number) {
+        const ingredients = await this.prisma.ingredient.findMany({
+            where: { restaurantId },
+            include: { _count: { select: { recipes: true } } },
+            orderBy: { name: 'asc' },
+        })
+        return ingredients.map((ingredient) => ({
+            ...ingredient,
+            isLowStock: this.isLow(
+                ingredient.stockQuantity,
+                ingredient.lowStockThreshold
+            ),
+        }))
+    }
+
+    async findIngredient(id: number) {
+        const ingredient = await this.prisma.ingredient.findUnique({
+            where: { id },
+        })
+        if (!ingredient) {
+            throw new NotFoundException(`Ingredient with ID ${id} not found`)
+        }
+        return ingredient
+    }
+
+    async updateIngredient(id: number, dto: UpdateIngredientDto) {
+        const ingredient = await this.findIngredient(id)
+        if (dto.name && dto.name.trim() !== ingredient.name) {
+            await this.assertNameFree(ingredient.restaurantId, dto.name)
+        }
+
+        return this.prisma.ingredient.update({
+            where: { id },
+            data: {
+                name: dto.name?.trim(),
+                unit: dto.unit?.trim(),
+                lowStockThreshold: dto.lowStockThreshold,
+                costPerUnit: dto.costPerUnit,
+            },
+        })
+    }
+
+    async removeIngredient(id: number) {
+        const ingredient = await this.findIngredient(id)
+        const recipes = await this.prisma.recipeIngredient.findMany({
+            where: { ingredientId: id },
+            select: { menuItemId: true },
+        })
+
+        await this.prisma.ingredient.delete({ where: { id } })
+
+        // Dishes held back by this ingredient may be cookable again
+        await this.syncMenuItems(
+            ingredient.restaurantId,
+            recipes.map((r) => r.menuItemId)
+        )
+        return { message: `Ingredient ${ingredient.name} deleted` }
+    }
+
+    // ========================================================================
+    // STOCK MOVEMENTS
+    // ========================================================================
+
+    /**
+     * Record a delivery, waste or stock-count correction
+     */
+    async recordMovement(ingredientId: number, dto: CreateStockMovementDto) {
+        const ingredient = await this.findIngredient(ingredientId)
+
+        const amount = Math.abs(dto.quantity)
+        const delta =
+            dto.type === StockMovementType.PURCHASE
+                ? amount
+                : dto.type === StockMovementType.WASTE
+                  ? -amount
+                  : dto.quantity
+
+        const [updated, movement] = await this.prisma.$transaction([
+            this.prisma.ingredient.update({
+                where: { id: ingredientId },
+                data: { stockQuantity: { increment: delta } },
+            }),
+            this.prisma.stockMovement.create({
+                data: {
+                    ingredientId,
+                    type: dto.type,
+                    quantity: delta,
+                    note: dto.note,
+                },
+            }),
+        ])
+
+        this.logger.log(
+            `${dto.type} of ${delta} ${ingredient.unit} ${ingredient.name}, stock now ${updated.stockQuantity.toString()}`
+        )
+
+        await this.handleStockChanges(ingredient.restaurantId, {
+            ingredients: [
+                {
+                    ingredientId,
+                    restaurantId: ingredient.restaurantId,
+                    previous: updated.stockQuantity.minus(delta),
+                    current: updated.stockQuantity,
+                },
+            ],
+            menuItems: [],
+        })
+
+        return { ingredient: updated, movement }
+    }
+
+    async findMovements(ingredientId: number) {
+        await this.findIngredient(ingredientId)
+        return this.prisma.stockMovement.findMany({
+            where: { ingredientId },
+            orderBy: { createdAt: 'desc' },
+            take: MOVEMENT_HISTORY_LIMIT,
+        })
+    }
+
+    // ========================================================================
+    // ORDER STOCK
+    // ========================================================================
+
+    /**
+     * Check that a new order's dishes and ingredients are still in stock,
+     * counting all of its lines together
+     * Stock held by accepted orders has already been taken off
+     */
+    async assertAvailable(lines: StockLine[], tx: Prisma.TransactionClient) {
+        const usage = await this.getUsage(lines, tx)
+
+        const menuItems = await tx.menuItem.findMany({
+            where: {
+                id: { in: [...usage.menuItems.keys()] },
+                stockQuantity: { not: null },
+            },
+        })
+        for (const menuItem of menuItems) {
+            const requested = usage.menuItems.get(menuItem.id)!
+            if (menuItem.stockQuantity! < requested) {
+                throw new BadRequestException(
+                    `Insufficient stock for ${menuItem.name}. Available: ${menuItem.stockQuantity}, Requested: ${requested}`
+                )
+            }
+        }
+
+        const ingredients = await tx.ingredient.findMany({
+            where: { id: { in: [...usage.ingredients.keys()] } },
+        })
+        for (const ingredient of ingredients) {
+            if (
+                ingredient.stockQuantity.lessThan(
+                    usage.ingredients.get(ingredient.id)!
+                )
+            ) {
+                throw new BadRequestException(
+                    `Not enough ${ingredient.name} in stock for this order`
+                )
+            }
+        }
+    }
+
+    /**
+     * Hold stock for the order's items that do not hold any yet
+     * Strict reservations (accepting an order, adding items to it) fail when
+     * anything is short. Settling an order that was never accepted takes
+     * whatever is left, since the food has already been served
+     * Runs inside the caller's transaction; call handleStockChanges with the
+     * result once it commits
+     */
+    async reserveForOrder(
+        orderId: number,
+        tx: Prisma.TransactionClient,
+        options: { itemIds?: number[]; strict?: boolean } = {}
+    ): Promise<StockChanges> {
+        const { itemIds, strict = true } = options
+        const items = await this.findOrderItems(tx, {
+            orderId,
+            ...(itemIds && { id: { in: itemIds } }),
+            stockReserved: false,
+            status: { not: OrderItemStatus.CANCELLED },
+        })
+        const changes: StockChanges = { ingredients: [], menuItems: [] }
+        if (items.length === 0) return changes
+
+        const usage = await this.getUsage(items, tx)
+
+        for (const [menuItemId, quantity] of usage.menuItems) {
+            // The guarded decrement is what keeps two waiters from accepting
+            // the last portion twice
+            const { count } = await tx.menuItem.updateMany({
+                where: {
+                    id: menuItemId,
+                    stockQuantity: strict ? { gte: quantity } : { not: null },
+                },
+                data: { stockQuantity: { decrement: quantity } },
+            })
+            const menuItem = await tx.menuItem.findUniqueOrThrow({
+                where: { id: menuItemId },
+            })
+            // null = unlimited stock
+            if (menuItem.stockQuantity === null) continue
+            if (count === 0) {
+                throw new BadRequestException(
+                    `Insufficient stock for ${menuItem.name}. Available: ${menuItem.stockQuantity}, Requested: ${quantity}`
+                )
+            }
+
+            const previous = menuItem.stockQuantity + quantity
+            const current = Math.max(menuItem.stockQuantity, 0)
+            let shortfall = current - menuItem.stockQuantity
+            if (shortfall > 0) {
+                await tx.menuItem.update({
+                    where: { id: menuItemId },
+                    data: { stockQuantity: current },
+                })
+            }
+
+            // Portions not on hand were never taken, so a release must not
+            // add them back
+            for (const item of items) {
+                if (item.menuItemId !== menuItemId) continue
+                const short = Math.min(shortfall, item.quantity)
+                shortfall -= short
+                const taken = item.quantity - short
+                if (taken <= 0) continue
+
+                await tx.stockMovement.create({
+                    data: {
+                        menuItemId,
+                        type: StockMovementType.CONSUMPTION,
+                        quantity: -taken,
+                        orderId,
+                        orderItemId: item.id,
+                        note:
+                            short > 0
+                                ? `${short} portion(s) short, stock was empty`
+                                : undefined,
+                    },
+                })
+            }
+            changes.menuItems.push({
+                menuItemId,
+                name: menuItem.name,
+                previous,
+                current,
+            })
+        }
+
+        for (const [ingredientId, quantity] of usage.ingredients) {
+            const { count } = await tx.ingredient.updateMany({
+                where: {
+                    id: ingredientId,
+                    ...(strict && { stockQuantity: { gte: quantity } }),
+                },
+                data: { stockQuantity: { decrement: quantity } },
+            })
+            let ingredient = await tx.ingredient.findUniqueOrThrow({
+                where: { id: ingredientId },
+            })
+            if (count === 0) {
+                throw new BadRequestException(
+                    `Not enough ${ingredient.name} in stock for this order`
+                )
+            }
+
+            const previous = ingredient.stockQuantity.plus(quantity)
+
+            // Stock never goes below zero; the part that was not on the
+            // shelf is not recorded as taken, so a release cannot add it
+            let shortfall = Prisma.Decimal.max(
+                ingredient.stockQuantity.negated(),
+                0
+            )
+            if (shortfall.greaterThan(0)) {
+                ingredient = await tx.ingredient.update({
+                    where: { id: ingredientId },
+                    data: { stockQuantity: 0 },
+                })
+                this.logger.warn(
+                    `Order ${orderId} used ${shortfall.toString()} ${ingredient.unit} more ${ingredient.name} than was in stock`
+                )
+            }
+
+            // One movement per item, so a release gives back exactly what
+            // each item took even if its recipe changes in between
+            for (const [index, item] of items.entries()) {
+                const amount = usage.byLine[index].get(ingredientId)
+                if (!amount) continue
+                const short = Prisma.Decimal.min(shortfall, amount)
+                shortfall = shortfall.minus(short)
+                const taken = amount.minus(short)
+                if (taken.lessThanOrEqualTo(0)) continue
+
+                await tx.stockMovement.create({
+                    data: {
+                        ingredientId,
+                        type: StockMovementType.CONSUMPTION,
+                        quantity: taken.negated(),
+                        orderId,
+                        orderItemId: item.id,
+                        note: short.greaterThan(0)
+                            ? `${short.toString()} ${ingredient.unit} short, stock was empty`
+                            : undefined,
+                    },
+                })
+            }
+            changes.ingredients.push({
+                ingredientId,
+                restaurantId: ingredient.restaurantId,
+                previous,
+                current: ingredient.stockQuantity,
+            })
+        }
+
+        await tx.orderItem.updateMany({
+            where: { id: { in: items.map((i) => i.id) } },
+            data: { stockReserved: true },
+        })
+
+        this.logger.log(
+            `Reserved stock for ${items.length} item(s) of order ${orderId}`
+        )
+        return changes
+    }
+
+    /**
+     * Give back the stock held by cancelled items, or by every item of a
+     * cancelled order when itemIds is omitted
+     */
+    async releaseForOrder(
+        orderId: number,
+        tx: Prisma.TransactionClient,
+        itemIds?: number[]
+    ): Promise<StockChanges> {
+        const items = await this.findOrderItems(tx, {
+            orderId,
+            ...(itemIds && { id: { in: itemIds } }),
+            stockReserved: true,
+        })
+        const changes: StockChanges = { ingredients: [], menuItems: [] }
+        if (items.length === 0) return changes
+
+        // Give back what the items' movements took, not what their
+        // recipes call for or their quantities say today
+        const held = await tx.stockMovement.groupBy({
+            by: ['ingredientId', 'menuItemId', 'orderItemId'],
+            where: {
+                orderItemId: { in: items.map((i) => i.id) },
+                type: {
+                    in: [
+                        StockMovementType.CONSUMPTION,
+                        StockMovementType.RELEASE,
+                    ],
+                },
+            },
+            _sum: { quantity: true },
+        })
+        const released = new Map<number, Prisma.Decimal>()
+        const portions = new Map<number, number>()
+        for (const { ingredientId, menuItemId, orderItemId, _sum } of held) {
+            const quantity = (_sum.quantity ?? new Prisma.Decimal(0)).negated()
+            if (quantity.lessThanOrEqualTo(0)) continue
+
+            await tx.stockMovement.create({
+                data: {
+                    ingredientId,
+                    menuItemId,
+                    type: StockMovementType.RELEASE,
+                    quantity,
+                    orderId,
+                    orderItemId,
+                },
+            })
+            if (ingredientId !== null) {
+                released.set(
+                    ingredientId,
+                    (released.get(ingredientId) ?? new Prisma.Decimal(0)).plus(
+                        quantity
+                    )
+                )
+            } else if (menuItemId !== null) {
+                portions.set(
+                    menuItemId,
+                    (portions.get(menuItemId) ?? 0) + quantity.toNumber()
+                )
+            }
+        }
+
+        for (const [menuItemId, quantity] of portions) {
+            const { count } = await tx.menuItem.updateMany({
+                where: { id: menuItemId, stockQuantity: { not: null } },
+                data: { stockQuantity: { increment: quantity } },
+            })
+            if (count === 0) continue
+
+            const menuItem = await tx.menuItem.findUniqueOrThrow({
+                where: { id: menuItemId },
+            })
+            changes.menuItems.push({
+                menuItemId,
+                name: menuItem.name,
+                previous: menuItem.stockQuantity! - quantity,
+                current: menuItem.stockQuantity!,
+            })
+        }
+
+        for (const [ingredientId, quantity] of released) {
+            const ingredient = await tx.ingredient.update({
+                where: { id: ingredientId },
+                data: { stockQuantity: { increment: quantity } },
+            })
+            changes.ingredients.push({
+                ingredientId,
+                restaurantId: ingredient.restaurantId,
+                previous: ingredient.stockQuantity.minus(quantity),
+                current: ingredient.stockQuantity,
+            })
+        }
+
+        await tx.orderItem.updateMany({
+            where: { id: { in: items.map((i) => i.id) } },
+            data: { stockReserved: false },
+        })
+
+        this.logger.log(
+            `Released stock of ${items.length} item(s) of order ${orderId}`
+        )
+        return changes
+    }
+
+    /**
+     * Post-commit follow-up of stock changes: low-stock alerts for admins and
+     * the kitchen, and SOLD_OUT/AVAILABLE for every dish affected
+     */
+    async handleStockChanges(restaurantId: number, changes: StockChanges) {
+        if (
+            changes.ingredients.length === 0 &&
+            changes.menuItems.length === 0
+        ) {
+            return
+        }
+
+        try {
+            const ingredientIds = changes.ingredients.map((c) => c.ingredientId)
+            const ingredients = await this.prisma.ingredient.findMany({
+                where: { id: { in: ingredientIds } },
+            })
+            for (const change of changes.ingredients) {
+                const ingredient = ingredients.find(
+                    (i) => i.id === change.ingredientId
+                )
+                if (ingredient) {
+                    this.notifyIfLow(restaurantId, ingredient, change)
+                }
+            }
+            for (const change of changes.menuItems) {
+                await this.notifyIfDishLow(restaurantId, change)
+            }
+
+            const recipes = await this.prisma.recipeIngredient.findMany({
+                where: { ingredientId: { in: ingredientIds } },
+                select: { menuItemId: true },
+            })
+            await this.syncMenuItems(restaurantId, [
+                ...recipes.map((r) => r.menuItemId),
+                ...changes.menuItems.map((c) => c.menuItemId),
+            ])
+        } catch (error) {
+            // Stock is already committed; availability catches up next change
+            this.logger.error(
+                `Failed to process stock changes: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+    }
+
+    // ========================================================================
+    // RECIPES & COSTING
+    // ========================================================================
+
+    async getRecipe(menuItemId: number) {
+        const menuItem = await this.prisma.menuItem.findUnique({
+            where: { id: menuItemId },
+            select: {
+                id: true,
+                restaurantId: true,
+                name: true,
+                basePrice: true,
+                recipe: {
+                    include: { ingredient: true },
+                    orderBy: { ingredientId: 'asc' },
+                },
+                modifierGroups: {
+                    select: {
+                        modifierGroup: {
+                            select: {
+                                id: true,
+                                name: true,
+                                options: {
+                                    select: {
+                                        id: true,
+                                        name: true,
+                                        ingredients: {
+                                            include: { ingredient: true },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        })
+        if (!menuItem) {
+            throw new NotFoundException(
+                `Menu item with ID ${menuItemId} not found`
+            )
+        }
+
+        const cost = this.recipeCost(menuItem.recipe)
+        return {
+            menuItemId: menuItem.id,
+            name: menuItem.name,
+            basePrice: menuItem.basePrice,
+            ingredients: menuItem.recipe,
+            modifierGroups: menuItem.modifierGroups.map((g) => g.modifierGroup),
+            ...this.margin(menuItem.basePrice, cost),
+        }
+    }
+
+    async setRecipe(menuItemId: number, dto: SetRecipeDto) {
+        const menuItem = await this.prisma.menuItem.findUnique({
+            where: { id: menuItemId },
+        })
+        if (!menuItem) {
+            throw new NotFoundException(
+                `Menu item with ID ${menuItemId} not found`
+            )
+        }
+        await this.assertIngredientsIn(menuItem.restaurantId, dto.ingredients)
+
+        await this.prisma.$transaction([
+            this.prisma.recipeIngredient.deleteMany({ where: { menuItemId } }),
+            this.prisma.recipeIngredient.createMany({
+                data: dto.ingredients.map((line) => ({
+                    menuItemId,
+                    ingredientId: line.ingredientId,
+                    quantity: line.quantity,
+                })),
+            }),
+        ])
+
+        await this.syncMenuItems(menuItem.restaurantId, [menuItemId])
+        return this.getRecipe(menuItemId)
+    }
+
+    async setModifierIngredients(
+        modifierOptionId: number,
+        dto: SetModifierIngredientsDto
+    ) {
+        const option = await this.prisma.modifierOption.findUnique({
+            where: { id: modifierOptionId },
+            include: { group: { select: { restaurantId: true } } },
+        })
+        if (!option) {
+            throw new NotFoundException(
+                `Modifier option with ID ${modifierOptionId} not found`
+            )
+        }
+        await this.assertIngredientsIn(
+            option.group.restaurantId,
+            dto.ingredients
+        )
+
+        await this.prisma.$transaction([
+            this.prisma.modifierOptionIngredient.deleteMany({
+                where: { modifierOptionId },
+            }),
+            this.prisma.modifierOptionIngredient.createMany({
+                data: dto.ingredients.map((line) => ({
+                    modifierOptionId,
+                    ingredientId: line.ingredientId,
+                    quantity: line.quantity,
+                })),
+            }),
+        ])
+
+        return this.prisma.modifierOptionIngredient.findMany({
+            where: { modifierOptionId },
+            include: { ingredient: true },
+        })
+    }
+
+    /**
+     * Food cost and margin of every menu item of a restaurant
+     */
+    async getCosting(restaurantId: number) {
+        const menuItems = await this.prisma.menuItem.findMany({
+            where: { restaurantId },
+            select: {
+                id: true,
+                name: true,
+                status: true,
+                basePrice: true,
+                recipe: { include: { ingredient: true } },
+            },
+            orderBy: { name: 'asc' },
+        })
+
+        return menuItems.map((item) => ({
+            menuItemId: item.id,
+            name: item.name,
+            status: item.status,
+            basePrice: item.basePrice,
+            hasRecipe: item.recipe.length > 0,
+            ...this.margin(item.basePrice, this.recipeCost(item.recipe)),
+        }))
+    }
+
+    // ========================================================================
+    // HELPERS
+    // ========================================================================
+
+    /**
+     * Mark dishes SOLD_OUT when their portion count or an ingredient can no
+     * longer cover a portion, and back to AVAILABLE once restocked
+     * Only dishes inventory itself sold out are restored, never those a
+     * manager marked SOLD_OUT by hand. Untracked items (no recipe, no
+     * portion count) and HIDDEN items are left alone
+     */
+    private async syncMenuItems(restaurantId: number, menuItemIds: number[]) {
+        if (menuItemIds.length === 0) return
+
+        const menuItems = await this.prisma.menuItem.findMany({
+            where: {
+                id: { in: [...new Set(menuItemIds)] },
+                status: { in: [ItemStatus.AVAILABLE, ItemStatus.SOLD_OUT] },
+            },
+            include: { recipe: { include: { ingredient: true } } },
+        })
+
+        for (const menuItem of menuItems) {
+            if (
+                menuItem.recipe.length === 0 &&
+                menuItem.stockQuantity === null
+            ) {
+                continue
+            }
+
+            const canCook =
+                (menuItem.stockQuantity === null ||
+                    menuItem.stockQuantity > 0) &&
+                menuItem.recipe.every((line) =>
+                    line.ingredient.stockQuantity.greaterThanOrEqualTo(
+                        line.quantity
+                    )
+                )
+            const newStatus = canCook
+                ? ItemStatus.AVAILABLE
+                : ItemStatus.SOLD_OUT
+            if (newStatus === menuItem.status) continue
+            if (
+                newStatus === ItemStatus.AVAILABLE &&
+                !menuItem.soldOutByStock
+            ) {
+                continue
+            }
+
+            // Guard against a concurrent manual status change
+            const { count } = await this.prisma.menuItem.updateMany({
+                where: {
+                    id: menuItem.id,
+                    status: menuItem.status,
+                    soldOutByStock: menuItem.soldOutByStock,
+                },
+                data: {
+                    status: newStatus,
+                    soldOutByStock: newStatus === ItemStatus.SOLD_OUT,
+                },
+            })
+            if (count === 0) continue
+
+            this.logger.log(
+                `Menu item ${menuItem.id} ${menuItem.status} -> ${newStatus} (stock)`
+            )
+            const event: MenuItemStatusChangedEvent = {
+                menuItemId: menuItem.id,
+                restaurantId,
+                previousStatus: menuItem.status,
+                newStatus,
+                stockQuantity: menuItem.stockQuantity,
+                updatedAt: new Date().toISOString(),
+            }
+            this.socketService.emitMenuItemStatusChanged(restaurantId, event)
+        }
+    }
+
+    /**
+     * Alert admins when stock crosses the low-stock threshold or runs out
+     */
+    private notifyIfLow(
+        restaurantId: number,
+        ingredient: {
+            id: number
+            name: string
+            unit: string
+            lowStockThreshold: Prisma.Decimal
+        },
+        change: StockChange
+    ) {
+        const ranOut =
+            change.previous.greaterThan(0) &&
+            change.current.lessThanOrEqualTo(0)
+        const becameLow =
+            !this.isLow(change.previous, ingredient.lowStockThreshold) &&
+            this.isLow(change.current, ingredient.lowStockThreshold)
+        if (!ranOut && !becameLow) return
+
+        this.socketService.emitAdminNotification(restaurantId, {
+            id: `low-stock-${ingredient.id}-${Date.now()}`,
+            type: ranOut ? 'error' : 'warning',
+            title: ranOut ? 'Out of stock' : 'Low stock',
+            message: ranOut
+                ? `${ingredient.name} has run out; dishes using it are sold out`
+                : `${ingredient.name} is down to ${change.current.toString()} ${ingredient.unit}`,
+            timestamp: new Date().toISOString(),
+            sound: ranOut,
+        })
+    }
+
+    /**
+     * Warn the kitchen when a dish's own portion count runs low or out
+     */
+    private async notifyIfDishLow(
+        restaurantId: number,
+        change: MenuItemStockChange
+    ) {
+        // Releases only ever add stock back
+        if (change.current >= change.previous) return
+
+        if (change.current === 0) {
+            await this.socketService.emitKitchenNotification(restaurantId, {
+                id: `out-of-stock-${change.menuItemId}-${Date.now()}`,
+                type: 'error',
+                title: 'Out of Stock',
+                message: `${change.name} is now out of stock`,
+                timestamp: new Date().toISOString(),
+                sound: true,
+            })
+        } else if (change.current <= DISH_LOW_STOCK_LEVEL) {
+            await this.socketService.emitKitchenNotification(restaurantId, {
+                id: `low-stock-${change.menuItemId}-${Date.now()}`,
+                type: 'warning',
+                title: 'Low Stock Alert',
+                message: `${change.name} is running low (${change.current} remaining)`,
+                timestamp: new Date().toISOString(),
+                sound: true,
+            })
+        }
+    }
+
+    /**
+     * Portions and ingredient amounts used by the lines, in total and for
+     * each line (byLine follows the order of lines)
+     * Usage per portion is the recipe plus the chosen options' adjustments
+     */
+    private async getUsage(lines: StockLine[], tx: Prisma.TransactionClient) {
+        const menuItems = new Map<number, number>()
+        const ingredients = new Map<number, Prisma.Decimal>()
+        const byLine: Map<number, Prisma.Decimal>[] = []
+        if (lines.length === 0) return { menuItems, ingredients, byLine }
+
+        const recipes = await tx.recipeIngredient.findMany({
+            where: { menuItemId: { in: lines.map((l) => l.menuItemId) } },
+        })
+        const adjustments = await tx.modifierOptionIngredient.findMany({
+            where: {
+                modifierOptionId: {
+                    in: lines.flatMap((l) => l.modifierOptionIds),
+                },
+            },
+        })
+
+        for (const line of lines) {
+            menuItems.set(
+                line.menuItemId,
+                (menuItems.get(line.menuItemId) ?? 0) + line.quantity
+            )
+
+            const perPortion = new Map<number, Prisma.Decimal>()
+            const usageLines = [
+                ...recipes.filter((r) => r.menuItemId === line.menuItemId),
+                ...adjustments.filter((a) =>
+                    line.modifierOptionIds.includes(a.modifierOptionId)
+                ),
+            ]
+            for (const usageLine of usageLines) {
+                const current =
+                    perPortion.get(usageLine.ingredientId) ??
+                    new Prisma.Decimal(0)
+                perPortion.set(
+                    usageLine.ingredientId,
+                    current.plus(usageLine.quantity)
+                )
+            }
+            const lineUsage = new Map<number, Prisma.Decimal>()
+            for (const [ingredientId, quantity] of perPortion) {
+                // "No onion" can take a line to zero, never below
+                if (quantity.lessThanOrEqualTo(0)) continue
+                const amount = quantity.times(line.quantity)
+                lineUsage.set(ingredientId, amount)
+                const total =
+                    ingredients.get(ingredientId) ?? new Prisma.Decimal(0)
+                ingredients.set(ingredientId, total.plus(amount))
+            }
+            byLine.push(lineUsage)
+        }
+
+        return { menuItems, ingredients, byLine }
+    }
+
+    private async findOrderItems(
+        tx: Prisma.TransactionClient,
+        where: Prisma.OrderItemWhereInput
+    ) {
+        const items = await tx.orderItem.findMany({
+            where,
+            select: {
+                id: true,
+                menuItemId: true,
+                quantity: true,
+                modifiers: { select: { modifierOptionId: true } },
+            },
+        })
+        return items.map((item) => ({
+            id: item.id,
+            menuItemId: item.menuItemId,
+            quantity: item.quantity,
+            modifierOptionIds: item.modifiers
+                .map((m) => m.modifierOptionId)
+                .filter((id): id is number => id !== null),
+        }))
+    }
+
+    private isLow(stock: Prisma.Decimal, threshold: Prisma.Decimal) {
+        return stock.lessThanOrEqualTo(0) || stock.lessThanOrEqualTo(threshold)
+    }
+
+    private recipeCost(
+        lines: Array<{
+            quantity: Prisma.Decimal
+            ingredient: { costPerUnit: Prisma.Decimal }
+        }>
+    ) {
+        return lines.reduce(
+            (sum, line) =>
+                sum.plus(line.quantity.times(line.ingredient.costPerUnit)),
+            new Prisma.Decimal(0)
+        )
+    }
+
+    private margin(basePrice: Prisma.Decimal, cost: Prisma.Decimal) {
+        const foodCost = cost.toDecimalPlaces(2)
+        return {
+            foodCost,
+            margin: basePrice.minus(foodCost),
+            // Food cost as a share of the menu price
+            foodCostPercent: basePrice.greaterThan(0)
+                ? foodCost.dividedBy(basePrice).times(100).toDecimalPlaces(1)
+                : null,
+        }
+    }
+
+    private async assertNameFree(restaurantId: number, name: string) {
+        const existing = await this.prisma.ingredient.findFirst({
+            where: {
+                restaurantId,
+                name: { equals: name.trim(), mode: 'insensitive' },
+            },
+        })
+        if (existing) {
+            throw new ConflictException(
+                `Ingredient "${name.trim()}" already exists`
+            )
+        }
+    }
+
+    private async assertIngredientsIn(
+        restaurantId: number,
+        lines: Array<{ ingredientId: number }>
+    ) {
+        const ids = lines.map((line) => line.ingredientId)
+        if (new Set(ids).size !== ids.length) {
+            throw new BadRequestException('Each ingredient may appear once')
+        }
+
+        const count = await this.prisma.ingredient.count({
+            where: { id: { in: ids }, restaurantId },
+        })
+        if (count !== ids.length) {
+            throw new BadRequestException(
+                'All ingredients must belong to the same restaurant'
+            )
+        }
+    }
+}
@@ -217,4 +217,48 @@ export class MailService {
             throw error
         }
     }
+
+    /**
+     * Send an order receipt, with the PDF slip attached
+     */
+    async sendReceipt(
+        to: string,
+        receipt: { receiptNumber: string; restaurantName: string },
+        html: string,
+        pdf: Buffer
+    ): Promise<void> {
+        if (!this.transporter) {
+            this.logger.warn(
+                'Mail transporter not configured. Skipping email send.'
+            )
+            return
+        }
+
+        const from =
+            this.configService.get<string>('mail.from') ||
+            'noreply@aerodine.com'
+
+        try {
+            await this.transporter.sendMail({
+                from: `"AeroDine" <${from}>`,
+                to,
+                subject: `Your receipt ${receipt.receiptNumber} from ${receipt.restaurantName}`,
+                html,
+                attachments: [
+                    {
+                        filename: `receipt-${receipt.receiptNumber}.pdf`,
+                        content: pdf,
+                        contentType: 'application/pdf',
+                    },
+                ],
+            })
+            this.logger.log(`Receipt ${receipt.receiptNumber} sent to ${to}`)
+        } catch (error) {
+            this.logger.error(
+                `Failed to send receipt ${receipt.receiptNumber} to ${to}:`,
+                error
+            )
+            throw error
+        }
+    }
 }
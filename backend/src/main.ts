@@ -69,6 +69,7 @@ async function bootstrap() {
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'Authorization', 'x-guest-session-id'],
+        exposedHeaders: ['Content-Disposition'], // Filenames of report exports
     })
 
     // Enable global validation pipe
@@ -0,0 +1,54 @@
+import {
+    IsArray,
+    IsDateString,
+    IsInt,
+    IsOptional,
+    Matches,
+    Max,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Day-part window of a menu item or category, in the restaurant timezone
+ * Every part is optional; omitted parts do not restrict the window
+ */
+export class AvailabilityWindowDto {
+    @ApiProperty({
+        example: [1, 2, 3, 4, 5],
+        required: false,
+        description: 'Days of week (0 = Sunday); empty means every day',
+    })
+    @IsArray()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    @IsOptional()
+    daysOfWeek?: number[]
+
+    @ApiProperty({ example: '06:30', required: false })
+    @Matches(TIME_OF_DAY, { message: 'startTime must be HH:mm' })
+    @IsOptional()
+    startTime?: string | null
+
+    @ApiProperty({
+        example: '10:30',
+        required: false,
+        description: 'Exclusive; earlier than startTime runs past midnight',
+    })
+    @Matches(TIME_OF_DAY, { message: 'endTime must be HH:mm' })
+    @IsOptional()
+    endTime?: string | null
+
+    @ApiProperty({ example: '2026-06-01', required: false })
+    @IsDateString()
+    @IsOptional()
+    startDate?: string | null
+
+    @ApiProperty({ example: '2026-08-31', required: false })
+    @IsDateString()
+    @IsOptional()
+    endDate?: string | null
+}
@@ -1,5 +1,14 @@
-import { IsInt, IsNotEmpty, IsOptional, IsString } from 'class-validator'
+import {
+    IsArray,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
 import { ApiProperty } from '@nestjs/swagger'
+import { AvailabilityWindowDto } from './availability-window.dto'
 
 export class CreateCategoryDto {
     @ApiProperty({
@@ -23,6 +32,28 @@ export class CreateCategoryDto {
     @IsInt()
     @IsOptional()
     rank?: number
+
+    @ApiProperty({
+        example: 1,
+        required: false,
+        nullable: true,
+        description: 'Default kitchen station for items in this category',
+    })
+    @IsInt()
+    @IsOptional()
+    stationId?: number | null
+
+    @ApiProperty({
+        type: [AvailabilityWindowDto],
+        required: false,
+        description:
+            'Day-part schedule; replaces the current one, empty means always',
+    })
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => AvailabilityWindowDto)
+    @IsOptional()
+    availability?: AvailabilityWindowDto[]
 }
 
 
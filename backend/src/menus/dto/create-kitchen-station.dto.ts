@@ -0,0 +1,32 @@
+import {
+    IsBoolean,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class CreateKitchenStationDto {
+    @ApiProperty({
+        example: 1,
+        description: 'Restaurant ID (ADMIN must specify this)',
+    })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({ example: 'Grill' })
+    @IsString()
+    @IsNotEmpty()
+    name: string
+
+    @ApiProperty({ example: 1, required: false, default: 0 })
+    @IsInt()
+    @IsOptional()
+    rank?: number
+
+    @ApiProperty({ example: true, required: false, default: true })
+    @IsBoolean()
+    @IsOptional()
+    isActive?: boolean
+}
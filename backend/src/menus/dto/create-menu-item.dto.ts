@@ -8,8 +8,11 @@ import {
     IsOptional,
     IsString,
     Min,
+    ValidateNested,
 } from 'class-validator'
+import { Type } from 'class-transformer'
 import { ItemStatus } from '@aerodine/shared-types'
+import { AvailabilityWindowDto } from './availability-window.dto'
 
 export class CreateMenuItemDto {
     @IsInt()
@@ -38,6 +41,11 @@ export class CreateMenuItemDto {
     @IsOptional()
     isChefRecommendation?: boolean
 
+    // Overrides the category station; null falls back to the category
+    @IsInt()
+    @IsOptional()
+    stationId?: number | null
+
     // image can be a remote URL or base64 data URI
     @IsString()
     @IsOptional()
@@ -47,6 +55,13 @@ export class CreateMenuItemDto {
     @IsInt({ each: true })
     @IsOptional()
     modifierGroupIds?: number[]
+
+    // Day-part schedule; replaces the current one, empty means always
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => AvailabilityWindowDto)
+    @IsOptional()
+    availability?: AvailabilityWindowDto[]
 }
 
 
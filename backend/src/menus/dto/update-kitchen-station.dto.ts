@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types'
+import { CreateKitchenStationDto } from './create-kitchen-station.dto'
+
+export class UpdateKitchenStationDto extends PartialType(
+    OmitType(CreateKitchenStationDto, ['restaurantId'] as const)
+) {}
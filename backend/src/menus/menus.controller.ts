@@ -17,11 +17,15 @@ import { CreateMenuItemDto } from './dto/create-menu-item.dto'
 import { UpdateMenuItemDto } from './dto/update-menu-item.dto'
 import { CreateModifierGroupDto } from './dto/create-modifier-group.dto'
 import { CreateModifierOptionDto } from './dto/create-modifier-option.dto'
+import { CreateKitchenStationDto } from './dto/create-kitchen-station.dto'
+import { UpdateKitchenStationDto } from './dto/update-kitchen-station.dto'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { RolesGuard } from '../auth/guards/roles.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
+import { Permissions } from '../auth/decorators/permissions.decorator'
 import { CurrentUser } from '../auth/decorators/current-user.decorator'
-import { UserRole } from '@aerodine/shared-types'
+import { PermissionUser } from '../common/utils/permissions.util'
+import { Permission, UserRole } from '@aerodine/shared-types'
 import { ApiBearerAuth, ApiQuery, ApiTags, ApiOperation } from '@nestjs/swagger'
 
 @ApiTags('menus')
@@ -29,13 +33,71 @@ import { ApiBearerAuth, ApiQuery, ApiTags, ApiOperation } from '@nestjs/swagger'
 export class MenusController {
     constructor(private readonly menusService: MenusService) {}
 
+    // Kitchen Stations
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.MENU_EDIT)
+    @Post('kitchen-stations')
+    @ApiOperation({
+        summary: 'Create kitchen station (menu.edit)',
+        description:
+            'Stations (grill, wok, cold, bar...) receive the items routed to them on the KDS',
+    })
+    createStation(@Body() dto: CreateKitchenStationDto) {
+        if (!dto.restaurantId) {
+            throw new BadRequestException('restaurantId is required')
+        }
+        return this.menusService.createStation(dto)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN, UserRole.KITCHEN)
+    @Get('kitchen-stations')
+    @ApiOperation({
+        summary: 'Get kitchen stations for a restaurant (ADMIN/KITCHEN)',
+    })
+    @ApiQuery({ name: 'restaurantId', required: true, type: Number })
+    getStations(@Query('restaurantId') restaurantId: string) {
+        return this.menusService.findAllStations(Number(restaurantId))
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.MENU_EDIT)
+    @Patch('kitchen-stations/:id')
+    @ApiOperation({ summary: 'Update kitchen station (menu.edit)' })
+    updateStation(
+        @Param('id') id: string,
+        @Body() dto: UpdateKitchenStationDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.updateStation(+id, dto, user)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.MENU_EDIT)
+    @Delete('kitchen-stations/:id')
+    @ApiOperation({
+        summary: 'Delete kitchen station (menu.edit)',
+        description:
+            'Categories and items assigned to the station fall back to no station.',
+    })
+    deleteStation(
+        @Param('id') id: string,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.deleteStation(+id, user)
+    }
+
     // Categories
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Post('categories')
     @ApiOperation({
-        summary: 'Create category (ADMIN only)',
+        summary: 'Create category (menu.edit)',
         description:
             'ADMIN must specify restaurantId to create category for any restaurant',
     })
@@ -56,33 +118,40 @@ export class MenusController {
 
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Patch('categories/:id')
-    @ApiOperation({ summary: 'Update category (ADMIN only)' })
-    updateCategory(@Param('id') id: string, @Body() dto: UpdateCategoryDto) {
-        return this.menusService.updateCategory(+id, dto)
+    @ApiOperation({ summary: 'Update category (menu.edit)' })
+    updateCategory(
+        @Param('id') id: string,
+        @Body() dto: UpdateCategoryDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.updateCategory(+id, dto, user)
     }
 
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Delete('categories/:id')
     @ApiOperation({
-        summary: 'Delete category (ADMIN only)',
+        summary: 'Delete category (menu.edit)',
         description:
             'Deletes a category. Will cascade delete all menu items in this category.',
     })
-    deleteCategory(@Param('id') id: string) {
-        return this.menusService.deleteCategory(+id)
+    deleteCategory(
+        @Param('id') id: string,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.deleteCategory(+id, user)
     }
 
     // Modifier Groups
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Post('modifiers')
     @ApiOperation({
-        summary: 'Create modifier group (ADMIN only)',
+        summary: 'Create modifier group (menu.edit)',
         description: 'ADMIN must specify restaurantId',
     })
     createModifierGroup(@Body() dto: CreateModifierGroupDto) {
@@ -104,20 +173,23 @@ export class MenusController {
 
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Post('modifier-options')
-    @ApiOperation({ summary: 'Create modifier option (ADMIN only)' })
-    createModifierOption(@Body() dto: CreateModifierOptionDto) {
-        return this.menusService.createModifierOption(dto)
+    @ApiOperation({ summary: 'Create modifier option (menu.edit)' })
+    createModifierOption(
+        @Body() dto: CreateModifierOptionDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.createModifierOption(dto, user)
     }
 
     // Menu Items
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Post('menu-items')
     @ApiOperation({
-        summary: 'Create menu item with image upload (ADMIN only)',
+        summary: 'Create menu item with image upload (menu.edit)',
         description:
             'ADMIN must specify restaurantId. Optional image field for Cloudinary upload.',
     })
@@ -148,34 +220,66 @@ export class MenusController {
         type: String,
         description: 'Sort by: popularity, name, price-asc, price-desc',
     })
+    @ApiQuery({
+        name: 'at',
+        required: false,
+        type: String,
+        description:
+            'ISO date-time to evaluate day-part schedules at (default: now)',
+    })
+    @ApiQuery({
+        name: 'includeUnscheduled',
+        required: false,
+        type: Boolean,
+        description:
+            'Also return items off schedule at that time, flagged by isOnSchedule',
+    })
     getMenuItems(
         @Query('restaurantId') restaurantId: string,
         @Query('q') q?: string,
-        @Query('sortBy') sortBy?: string
+        @Query('sortBy') sortBy?: string,
+        @Query('at') at?: string,
+        @Query('includeUnscheduled') includeUnscheduled?: string
     ) {
-        return this.menusService.findAllMenuItems(Number(restaurantId), q, sortBy)
+        const atDate = at ? new Date(at) : undefined
+        if (atDate && isNaN(atDate.getTime())) {
+            throw new BadRequestException('at must be an ISO date-time')
+        }
+        return this.menusService.findAllMenuItems(
+            Number(restaurantId),
+            q,
+            sortBy,
+            { at: atDate, includeUnscheduled: includeUnscheduled === 'true' }
+        )
     }
 
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Patch('menu-items/:id')
-    @ApiOperation({ summary: 'Update menu item (ADMIN only)' })
-    updateMenuItem(@Param('id') id: string, @Body() dto: UpdateMenuItemDto) {
-        return this.menusService.updateMenuItem(+id, dto)
+    @ApiOperation({ summary: 'Update menu item (menu.edit)' })
+    updateMenuItem(
+        @Param('id') id: string,
+        @Body() dto: UpdateMenuItemDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.updateMenuItem(+id, dto, user)
     }
 
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.ADMIN)
+    @Permissions(Permission.MENU_EDIT)
     @Delete('menu-items/:id')
     @ApiOperation({
-        summary: 'Delete menu item (ADMIN only)',
+        summary: 'Delete menu item (menu.edit)',
         description:
             'Permanently deletes a menu item. Use with caution as it will remove all associated data.',
     })
-    deleteMenuItem(@Param('id') id: string) {
-        return this.menusService.deleteMenuItem(+id)
+    deleteMenuItem(
+        @Param('id') id: string,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.menusService.deleteMenuItem(+id, user)
     }
 
     @Get('menu-items/:id/reviews')
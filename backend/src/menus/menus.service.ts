@@ -3,6 +3,7 @@ import {
     NotFoundException,
     InternalServerErrorException,
     BadRequestException,
+    ForbiddenException,
     Logger,
 } from '@nestjs/common'
 import { PrismaService } from '../database/prisma.service'
@@ -13,6 +14,15 @@ import { CreateMenuItemDto } from './dto/create-menu-item.dto'
 import { UpdateMenuItemDto } from './dto/update-menu-item.dto'
 import { CreateModifierGroupDto } from './dto/create-modifier-group.dto'
 import { CreateModifierOptionDto } from './dto/create-modifier-option.dto'
+import { CreateKitchenStationDto } from './dto/create-kitchen-station.dto'
+import { UpdateKitchenStationDto } from './dto/update-kitchen-station.dto'
+import { AvailabilityWindowDto } from './dto/availability-window.dto'
+import { isMenuItemOnSchedule } from '../common/utils/availability.util'
+import { DEFAULT_TIMEZONE } from '../common/utils/timezone.util'
+import {
+    PermissionUser,
+    canAccessRestaurant,
+} from '../common/utils/permissions.util'
 import * as levenshtein from 'fast-levenshtein'
 
 @Injectable()
@@ -35,6 +45,76 @@ export class MenusService {
         }
     }
 
+    /**
+     * Changes by id are checked against the record's own restaurant, as the
+     * route does not name one
+     */
+    private assertCanEdit(restaurantId: number, editor: PermissionUser) {
+        if (!canAccessRestaurant(editor, restaurantId)) {
+            throw new ForbiddenException(
+                'You can only edit the menu of your own restaurant'
+            )
+        }
+    }
+
+    /**
+     * Ensure a kitchen station belongs to the restaurant it is assigned in
+     * null/undefined means "no station" and is always valid
+     */
+    private async validateStation(
+        stationId: number | null | undefined,
+        restaurantId: number
+    ): Promise<void> {
+        if (stationId === null || stationId === undefined) return
+
+        const station = await this.prisma.kitchenStation.findFirst({
+            where: { id: stationId, restaurantId },
+        })
+        if (!station) {
+            throw new NotFoundException(
+                `Kitchen station with ID ${stationId} not found in restaurant ${restaurantId}`
+            )
+        }
+    }
+
+    /**
+     * Validate day-part windows and map them to rows
+     * Time ranges need both ends; date ranges may be open-ended
+     */
+    private toAvailabilityWindows(windows: AvailabilityWindowDto[]) {
+        return windows.map((window) => {
+            if (!window.startTime !== !window.endTime) {
+                throw new BadRequestException(
+                    'Availability windows need both startTime and endTime'
+                )
+            }
+            if (window.startTime && window.startTime === window.endTime) {
+                throw new BadRequestException(
+                    'Availability window startTime and endTime must differ'
+                )
+            }
+            if (
+                window.startDate &&
+                window.endDate &&
+                window.startDate > window.endDate
+            ) {
+                throw new BadRequestException(
+                    'Availability window startDate must not be after endDate'
+                )
+            }
+
+            return {
+                daysOfWeek: [...new Set(window.daysOfWeek ?? [])].sort(
+                    (a, b) => a - b
+                ),
+                startTime: window.startTime || null,
+                endTime: window.endTime || null,
+                startDate: window.startDate ? new Date(window.startDate) : null,
+                endDate: window.endDate ? new Date(window.endDate) : null,
+            }
+        })
+    }
+
     /**
      * Helper method to upload image to Cloudinary
      */
@@ -54,11 +134,87 @@ export class MenusService {
         }
     }
 
+    // Kitchen stations
+    async createStation(dto: CreateKitchenStationDto) {
+        await this.validateRestaurant(dto.restaurantId)
+
+        const existing = await this.prisma.kitchenStation.findUnique({
+            where: {
+                restaurantId_name: {
+                    restaurantId: dto.restaurantId,
+                    name: dto.name,
+                },
+            },
+        })
+        if (existing) {
+            throw new BadRequestException(
+                `Kitchen station "${dto.name}" already exists`
+            )
+        }
+
+        return this.prisma.kitchenStation.create({
+            data: dto,
+        })
+    }
+
+    findAllStations(restaurantId: number) {
+        return this.prisma.kitchenStation.findMany({
+            where: { restaurantId },
+            orderBy: [{ rank: 'asc' }, { name: 'asc' }],
+        })
+    }
+
+    async updateStation(
+        id: number,
+        dto: UpdateKitchenStationDto,
+        editor: PermissionUser
+    ) {
+        const station = await this.prisma.kitchenStation.findUnique({
+            where: { id },
+        })
+        if (!station) {
+            throw new NotFoundException(
+                `Kitchen station with ID ${id} not found`
+            )
+        }
+        this.assertCanEdit(station.restaurantId, editor)
+
+        return this.prisma.kitchenStation.update({
+            where: { id },
+            data: dto,
+        })
+    }
+
+    async deleteStation(id: number, editor: PermissionUser) {
+        const station = await this.prisma.kitchenStation.findUnique({
+            where: { id },
+        })
+        if (!station) {
+            throw new NotFoundException(
+                `Kitchen station with ID ${id} not found`
+            )
+        }
+        this.assertCanEdit(station.restaurantId, editor)
+
+        // Categories, items and open tickets fall back to "no station" (SET NULL)
+        return this.prisma.kitchenStation.delete({
+            where: { id },
+        })
+    }
+
     // Categories
     async createCategory(dto: CreateCategoryDto) {
+        const { availability, ...data } = dto
         await this.validateRestaurant(dto.restaurantId)
+        await this.validateStation(dto.stationId, dto.restaurantId)
         return this.prisma.category.create({
-            data: dto,
+            data: {
+                ...data,
+                availabilityWindows: availability?.length
+                    ? { create: this.toAvailabilityWindows(availability) }
+                    : undefined,
+            },
+            include: { availabilityWindows: true },
         })
     }
 
@@ -66,17 +222,50 @@ export class MenusService {
         return this.prisma.category.findMany({
             where: { restaurantId },
             orderBy: { rank: 'asc' },
+            include: { availabilityWindows: true },
         })
     }
 
-    updateCategory(id: number, dto: UpdateCategoryDto) {
+    async updateCategory(
+        id: number,
+        dto: UpdateCategoryDto,
+        editor: PermissionUser
+    ) {
+        const { availability, ...data } = dto
+        const category = await this.prisma.category.findUnique({
+            where: { id },
+        })
+        if (!category) {
+            throw new NotFoundException(`Category with ID ${id} not found`)
+        }
+        this.assertCanEdit(category.restaurantId, editor)
+        if (dto.restaurantId !== undefined) {
+            this.assertCanEdit(dto.restaurantId, editor)
+        }
+
+        if (dto.stationId !== undefined) {
+            await this.validateStation(
+                dto.stationId,
+                dto.restaurantId ?? category.restaurantId
+            )
+        }
+
         return this.prisma.category.update({
             where: { id },
-            data: dto,
+            data: {
+                ...data,
+                availabilityWindows: availability
+                    ? {
+                          deleteMany: {},
+                          create: this.toAvailabilityWindows(availability),
+                      }
+                    : undefined,
+            },
+            include: { availabilityWindows: true },
         })
     }
 
-    async deleteCategory(id: number) {
+    async deleteCategory(id: number, editor: PermissionUser) {
         // Check if category exists
         const category = await this.prisma.category.findUnique({
             where: { id },
@@ -86,6 +275,7 @@ export class MenusService {
         if (!category) {
             throw new NotFoundException(`Category with ID ${id} not found`)
         }
+        this.assertCanEdit(category.restaurantId, editor)
 
         // Delete category (cascade will delete all menu items)
         return this.prisma.category.delete({
@@ -108,7 +298,10 @@ export class MenusService {
         })
     }
 
-    async createModifierOption(dto: CreateModifierOptionDto) {
+    async createModifierOption(
+        dto: CreateModifierOptionDto,
+        editor: PermissionUser
+    ) {
         const { groupId, ...rest } = dto
         // Validate modifier group exists
         const group = await this.prisma.modifierGroup.findUnique({
@@ -119,6 +312,7 @@ export class MenusService {
                 `Modifier group with ID ${groupId} not found`
             )
         }
+        this.assertCanEdit(group.restaurantId, editor)
         return this.prisma.modifierOption.create({
             data: {
                 ...rest,
@@ -131,10 +325,11 @@ export class MenusService {
 
     // Menu items
     async createMenuItem(dto: CreateMenuItemDto) {
-        const { image, modifierGroupIds, ...rest } = dto
+        const { image, modifierGroupIds, availability, ...rest } = dto
 
-        // Validate restaurant and category exist
+        // Validate restaurant, category and station exist
         await this.validateRestaurant(dto.restaurantId)
+        await this.validateStation(dto.stationId, dto.restaurantId)
         const category = await this.prisma.category.findUnique({
             where: { id: dto.categoryId },
         })
@@ -187,10 +382,14 @@ export class MenusService {
                               },
                           }
                         : undefined,
+                    availabilityWindows: availability?.length
+                        ? { create: this.toAvailabilityWindows(availability) }
+                        : undefined,
                 },
                 include: {
                     images: true,
                     category: true,
+                    availabilityWindows: true,
                     modifierGroups: {
                         include: {
                             modifierGroup: {
@@ -215,15 +414,21 @@ export class MenusService {
         }
     }
 
-    async findAllMenuItems(restaurantId: number, query?: string, sortBy?: string) {
+    async findAllMenuItems(
+        restaurantId: number,
+        query?: string,
+        sortBy?: string,
+        schedule: { at?: Date; includeUnscheduled?: boolean } = {}
+    ) {
         // Get all menu items for the restaurant with order count for popularity
-        const allItems = await this.prisma.menuItem.findMany({
+        const fetchedItems = await this.prisma.menuItem.findMany({
             where: {
                 restaurantId,
             },
             include: {
                 images: true,
-                category: true,
+                category: { include: { availabilityWindows: true } },
+                availabilityWindows: true,
                 modifierGroups: {
                     include: {
                         modifierGroup: {
@@ -247,6 +452,21 @@ export class MenusService {
             },
         })
 
+        // Day-part menus: only what is on at the time, in restaurant time
+        // (admins can ask for everything, flagged with isOnSchedule)
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+            select: { timezone: true },
+        })
+        const timeZone = restaurant?.timezone || DEFAULT_TIMEZONE
+        const at = schedule.at ?? new Date()
+        const allItems = fetchedItems
+            .map((item) => ({
+                ...item,
+                isOnSchedule: isMenuItemOnSchedule(item, at, timeZone),
+            }))
+            .filter((item) => schedule.includeUnscheduled || item.isOnSchedule)
+
         // If no query, apply sorting
         if (!query || query.trim() === '') {
             if (sortBy === 'popularity') {
@@ -392,14 +612,39 @@ export class MenusService {
         return matchedItems.map(({ item }) => item)
     }
 
-    async updateMenuItem(id: number, dto: UpdateMenuItemDto) {
-        const { modifierGroupIds, categoryId, image, restaurantId, ...rest } =
-            dto
+    async updateMenuItem(
+        id: number,
+        dto: UpdateMenuItemDto,
+        editor: PermissionUser
+    ) {
+        const {
+            modifierGroupIds,
+            categoryId,
+            image,
+            restaurantId,
+            stationId,
+            availability,
+            ...rest
+        } = dto
+
+        // Get current menu item to delete old images if needed
+        const currentItem = await this.prisma.menuItem.findUnique({
+            where: { id },
+            include: { images: true },
+        })
+
+        if (!currentItem) {
+            throw new NotFoundException(`Menu item with ID ${id} not found`)
+        }
+        this.assertCanEdit(currentItem.restaurantId, editor)
 
-        // Validate category exists if categoryId is provided
+        // The new category and modifier groups must be on the same menu
         if (categoryId !== undefined) {
-            const category = await this.prisma.category.findUnique({
-                where: { id: categoryId },
+            const category = await this.prisma.category.findFirst({
+                where: {
+                    id: categoryId,
+                    restaurantId: currentItem.restaurantId,
+                },
             })
             if (!category) {
                 throw new NotFoundException(
@@ -407,6 +652,19 @@ export class MenusService {
                 )
             }
         }
+        if (modifierGroupIds?.length) {
+            const groups = await this.prisma.modifierGroup.count({
+                where: {
+                    id: { in: modifierGroupIds },
+                    restaurantId: currentItem.restaurantId,
+                },
+            })
+            if (groups !== new Set(modifierGroupIds).size) {
+                throw new NotFoundException('Modifier group not found')
+            }
+        }
+
+        await this.validateStation(stationId, currentItem.restaurantId)
 
         // Handle image upload if provided
         let uploadedImageUrl: string | undefined
@@ -414,25 +672,24 @@ export class MenusService {
             uploadedImageUrl = await this.uploadMenuItemImage(image)
         }
 
-        // Get current menu item to delete old images if needed
-        const currentItem = await this.prisma.menuItem.findUnique({
-            where: { id },
-            include: { images: true },
-        })
-
-        if (!currentItem) {
-            throw new NotFoundException(`Menu item with ID ${id} not found`)
-        }
-
         try {
             const updated = await this.prisma.menuItem.update({
                 where: { id },
                 data: {
                     ...rest,
+                    // A status set by hand is no longer inventory's to undo
+                    ...(rest.status !== undefined && { soldOutByStock: false }),
                     // Update category using relation
                     category: categoryId !== undefined
                         ? { connect: { id: categoryId } }
                         : undefined,
+                    // null clears the override so the category station applies
+                    station:
+                        stationId === undefined
+                            ? undefined
+                            : stationId === null
+                              ? { disconnect: true }
+                              : { connect: { id: stationId } },
                     // Update images: delete old ones and create new one if image uploaded
                     images: uploadedImageUrl
                         ? {
@@ -455,10 +712,18 @@ export class MenusService {
                               },
                           }
                         : undefined,
+                    // A provided schedule replaces the current one
+                    availabilityWindows: availability
+                        ? {
+                              deleteMany: {},
+                              create: this.toAvailabilityWindows(availability),
+                          }
+                        : undefined,
                 },
                 include: {
                     images: true,
                     category: true,
+                    availabilityWindows: true,
                     modifierGroups: {
                         include: {
                             modifierGroup: {
@@ -483,7 +748,7 @@ export class MenusService {
         }
     }
 
-    async deleteMenuItem(id: number) {
+    async deleteMenuItem(id: number, editor: PermissionUser) {
         // Check if menu item exists
         const menuItem = await this.prisma.menuItem.findUnique({
             where: { id },
@@ -492,6 +757,7 @@ export class MenusService {
         if (!menuItem) {
             throw new NotFoundException(`Menu item with ID ${id} not found`)
         }
+        this.assertCanEdit(menuItem.restaurantId, editor)
 
         // Check if menu item is being used in any order items
         const orderItemCount = await this.prisma.orderItem.count({
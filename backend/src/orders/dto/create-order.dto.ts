@@ -11,16 +11,20 @@ import { Type } from 'class-transformer'
 
 /**
  * DTO for creating order item modifiers
+ * Name and price are read from the modifier option; the client's copies
+ * are only accepted for compatibility
  */
 export class CreateOrderItemModifierDto {
     @IsNumber()
     modifierOptionId: number
 
+    @IsOptional()
     @IsString()
-    modifierName: string
+    modifierName?: string
 
+    @IsOptional()
     @IsNumber()
-    priceAdjustment: number
+    priceAdjustment?: number
 }
 
 /**
@@ -68,6 +72,10 @@ export class CreateOrderDto {
     @IsString()
     note?: string
 
+    @IsOptional()
+    @IsString()
+    promoCode?: string // Checked again against the server-side subtotal
+
     @IsArray()
     @ArrayMinSize(1)
     @ValidateNested({ each: true })
@@ -50,3 +50,28 @@ export class AssignWaiterDto {
     @IsNumber()
     waiterId: number
 }
+
+/**
+ * DTO for moving an order to another table
+ */
+export class TransferOrderDto {
+    @IsNumber()
+    tableId: number
+}
+
+/**
+ * DTO for recording a payment on an order
+ * amount is optional - defaults to the outstanding balance (split bill)
+ * tipAmount is added to the order total before the payment is taken
+ */
+export class ProcessPaymentDto {
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    amount?: number
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    tipAmount?: number // Replaces the order's tip before paying
+}
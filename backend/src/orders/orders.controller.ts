@@ -23,14 +23,22 @@ import {
     UpdateOrderDto,
     UpdateOrderItemStatusDto,
     AssignWaiterDto,
+    TransferOrderDto,
     AcceptRejectOrderDto,
+    ProcessPaymentDto,
 } from './dto/update-order.dto'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard'
 import { RolesGuard } from '../auth/guards/roles.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
+import { Permissions } from '../auth/decorators/permissions.decorator'
 import { CurrentUser } from '../auth/decorators/current-user.decorator'
-import { UserRole } from '@aerodine/shared-types'
+import { Permission, UserRole } from '@aerodine/shared-types'
+import {
+    canAccessRestaurant,
+    hasPermission,
+    PermissionUser,
+} from '../common/utils/permissions.util'
 import { OrderStatus } from '@prisma/client'
 import {
     ApiTags,
@@ -79,9 +87,21 @@ export class OrdersController {
     @ApiOperation({ summary: 'Create Stripe checkout session for order payment' })
     async createCheckoutSession(
         @Param('id') id: string,
-        @Body() body: { successUrl: string; cancelUrl: string },
+        @Body()
+        body: {
+            successUrl: string
+            cancelUrl: string
+            amount?: number
+            tipAmount?: number
+        },
     ) {
-        return this.ordersService.createCheckoutSession(+id, body.successUrl, body.cancelUrl)
+        return this.ordersService.createCheckoutSession(
+            +id,
+            body.successUrl,
+            body.cancelUrl,
+            body.amount,
+            body.tipAmount
+        )
     }
 
     // ========================================================================
@@ -286,7 +306,7 @@ export class OrdersController {
 
     /**
      * Get orders for Kitchen Display System
-     * GET /orders/kitchen/display?restaurantId=1
+     * GET /orders/kitchen/display?restaurantId=1&stationId=2
      */
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
@@ -294,12 +314,16 @@ export class OrdersController {
     @Get('kitchen/display')
     @ApiOperation({
         summary: 'Get kitchen orders (KITCHEN/ADMIN only)',
-        description: 'Returns orders for Kitchen Display System.',
+        description:
+            'Returns orders for Kitchen Display System. Pass stationId to only get the items routed to that station.',
     })
+    @ApiQuery({ name: 'stationId', required: false, type: Number })
     getKitchenOrders(
-        @Query('restaurantId', ParseIntPipe) restaurantId: number
+        @Query('restaurantId', ParseIntPipe) restaurantId: number,
+        @Query('stationId', new ParseIntPipe({ optional: true }))
+        stationId?: number
     ) {
-        return this.ordersService.getKitchenOrders(restaurantId)
+        return this.ordersService.getKitchenOrders(restaurantId, stationId)
     }
 
     /**
@@ -350,7 +374,7 @@ export class OrdersController {
     /**
      * Cancel order
      * DELETE /orders/:id
-     * ADMIN/WAITER can cancel any order, CUSTOMER can only cancel their own orders
+     * Staff holding orders.void can cancel their restaurant's orders, CUSTOMER can only cancel their own orders
      */
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard)
@@ -358,12 +382,12 @@ export class OrdersController {
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
         summary: 'Cancel order',
-        description: 'ADMIN/WAITER can cancel any order. CUSTOMER can only cancel their own orders.',
+        description: 'Staff need the orders.void permission and can cancel orders of their restaurant. CUSTOMER can only cancel their own orders.',
     })
     async cancel(
         @Param('id', ParseIntPipe) id: number,
         @Query('reason') reason?: string,
-        @CurrentUser() user?: any
+        @CurrentUser() user?: PermissionUser
     ) {
         // CUSTOMER can only cancel their own orders
         if (user?.role === UserRole.CUSTOMER) {
@@ -371,6 +395,16 @@ export class OrdersController {
             if (order.userId !== user.id) {
                 throw new ForbiddenException('You can only cancel your own orders')
             }
+        } else {
+            if (!user || !hasPermission(user, Permission.ORDERS_VOID)) {
+                throw new ForbiddenException('Missing permission: orders.void')
+            }
+            const order = await this.ordersService.findOne(id)
+            if (!canAccessRestaurant(user, order.restaurantId)) {
+                throw new ForbiddenException(
+                    'You can only cancel orders of your own restaurant'
+                )
+            }
         }
         
         return this.ordersService.cancel(id, reason)
@@ -431,6 +465,26 @@ export class OrdersController {
         return this.ordersService.assignWaiter(id, assignDto)
     }
 
+    /**
+     * Move order to another table
+     * POST /orders/:id/transfer
+     */
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.WAITER, UserRole.ADMIN)
+    @Post(':id/transfer')
+    @ApiOperation({
+        summary: 'Transfer order to another table (WAITER/ADMIN only)',
+        description:
+            'Moves an active order to a free table. The source table is released when nothing else runs on it; TABLE_STATUS_CHANGED is emitted for both tables.',
+    })
+    transferOrder(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() transferDto: TransferOrderDto
+    ) {
+        return this.ordersService.transferOrder(id, transferDto.tableId)
+    }
+
     /**
      * Accept order (waiter)
      * POST /orders/:id/accept
@@ -485,26 +539,65 @@ export class OrdersController {
         return this.ordersService.markOrderServed(id)
     }
 
+    /**
+     * Bump a finished ticket from the expo view
+     * POST /orders/:id/bump
+     */
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.KITCHEN, UserRole.ADMIN)
+    @Post(':id/bump')
+    @ApiOperation({
+        summary: 'Bump ticket from expo (KITCHEN/ADMIN only)',
+        description:
+            'Hands the whole ticket off as served once every station has finished its items.',
+    })
+    bumpOrder(@Param('id', ParseIntPipe) id: number) {
+        return this.ordersService.bumpOrder(id)
+    }
+
     /**
      * Process cash payment for order
      * POST /orders/:id/pay-cash
-     * Case 2: Trust Your Device - Only authenticated staff can confirm cash payment
+     * Case 2: Trust Your Device - Only staff holding payments.cash can confirm cash payment
      */
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
-    @Roles(UserRole.WAITER, UserRole.ADMIN)
+    @Permissions(Permission.PAYMENTS_CASH)
     @Post(':id/pay-cash')
     @ApiOperation({
-        summary: 'Process cash payment for order (WAITER/ADMIN only)',
+        summary: 'Process cash payment for order (payments.cash)',
         description:
-            'Waiter confirms cash payment from their device. This prevents fake payment screens from customers.',
+            'Staff confirm cash payment from their device. This prevents fake payment screens from customers. ' +
+            'Pass an amount to record a partial (split bill) payment; the order completes once the balance reaches 0. ' +
+            'A tipAmount is added to the order total first. ' +
+            "The cash is counted towards the staff member's open drawer shift.",
     })
     @ApiParam({ name: 'id', type: Number, description: 'Order ID' })
     @ApiResponse({ status: 200, description: 'Payment processed successfully' })
     @ApiResponse({ status: 401, description: 'Unauthorized - Staff authentication required' })
-    @ApiResponse({ status: 403, description: 'Forbidden - Waiter/Admin role required' })
-    payCash(@Param('id', ParseIntPipe) id: number) {
-        return this.ordersService.processCashPayment(id)
+    @ApiResponse({
+        status: 403,
+        description: 'Forbidden - payments.cash permission required',
+    })
+    async payCash(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() paymentDto: ProcessPaymentDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        const order = await this.ordersService.findOne(id)
+        if (!canAccessRestaurant(user, order.restaurantId)) {
+            throw new ForbiddenException(
+                'You can only take payments for orders of your own restaurant'
+            )
+        }
+
+        return this.ordersService.processCashPayment(
+            id,
+            paymentDto.amount,
+            paymentDto.tipAmount,
+            user.id
+        )
     }
 
     // ========================================================================
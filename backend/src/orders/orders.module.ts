@@ -4,6 +4,10 @@ import { ConfigModule, ConfigService } from '@nestjs/config'
 import { OrdersService } from './orders.service'
 import { OrdersController } from './orders.controller'
 import { SocketModule } from '../socket/socket.module'
+import { InventoryModule } from '../inventory/inventory.module'
+import { PricingModule } from '../pricing/pricing.module'
+import { PromoCodesModule } from '../promo-codes/promo-codes.module'
+import { ReceiptsModule } from '../receipts/receipts.module'
 
 @Module({
     imports: [
@@ -25,6 +29,10 @@ import { SocketModule } from '../socket/socket.module'
             },
         }),
         SocketModule,
+        InventoryModule,
+        PricingModule,
+        PromoCodesModule,
+        ReceiptsModule,
     ],
     controllers: [OrdersController],
     providers: [OrdersService],
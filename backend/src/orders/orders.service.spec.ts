@@ -0,0 +1,381 @@
+import { Test } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { JwtService } from '@nestjs/jwt'
+import { ConfigService } from '@nestjs/config'
+import {
+    OrderStatus,
+    PaymentMethod,
+    PaymentProvider,
+    PaymentStatus,
+    Prisma,
+    TableStatus,
+} from '@prisma/client'
+import { OrdersService } from './orders.service'
+import { PrismaService } from '../database/prisma.service'
+import { SocketService } from '../socket/socket.service'
+import { InventoryService } from '../inventory/inventory.service'
+import { PricingService } from '../pricing/pricing.service'
+import { PromoCodesService } from '../promo-codes/promo-codes.service'
+import { ReceiptsService } from '../receipts/receipts.service'
+import { isCapturedPayment } from '../common/utils/payment-status.util'
+
+type PaymentRow = {
+    id: number
+    orderId: number
+    amount: Prisma.Decimal
+    method: PaymentMethod
+    provider: PaymentProvider | null
+    status: PaymentStatus
+    externalTransactionId: string | null
+    shiftId: number | null
+    createdAt: Date
+}
+
+type OrderRow = {
+    id: number
+    tableId: number
+    restaurantId: number
+    status: OrderStatus
+    totalAmount: Prisma.Decimal
+    discountAmount: Prisma.Decimal
+    tipAmount: Prisma.Decimal
+    createdAt: Date
+    updatedAt: Date
+}
+
+/**
+ * Just enough of Prisma for taking payments: one order with its payments,
+ * kept in memory; transactions run straight through
+ */
+function createPrisma(order: OrderRow) {
+    const subtotal = order.totalAmount.minus(order.tipAmount)
+    const payments: PaymentRow[] = []
+    const discrepancies: { paymentId: number; actualAmount: number }[] = []
+    const withOrder = (payment: PaymentRow) => ({
+        ...payment,
+        order: { ...order, table: { id: order.tableId, name: 'T1' } },
+    })
+
+    const client = {
+        payments,
+        discrepancies,
+        $transaction: <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+        $queryRaw: () => Promise.resolve([]),
+        order: {
+            findUnique: () =>
+                Promise.resolve({
+                    ...order,
+                    table: { id: order.tableId, name: 'T1' },
+                    items: [],
+                    payments: [...payments],
+                }),
+            // One dish priced at the order's subtotal, no charges or tax
+            findUniqueOrThrow: () =>
+                Promise.resolve({
+                    ...order,
+                    items: [{ pricePerUnit: subtotal, quantity: 1 }],
+                    promoCode: null,
+                    serviceChargeRate: 0,
+                    taxRate: 0,
+                }),
+            update: ({
+                data,
+            }: {
+                data: Omit<Partial<OrderRow>, 'totalAmount' | 'tipAmount'> & {
+                    totalAmount?: Prisma.Decimal.Value
+                    tipAmount?: Prisma.Decimal.Value
+                }
+            }) => {
+                const { totalAmount, tipAmount, ...rest } = data
+                Object.assign(order, rest)
+                if (totalAmount !== undefined) {
+                    order.totalAmount = new Prisma.Decimal(totalAmount)
+                }
+                if (tipAmount !== undefined) {
+                    order.tipAmount = new Prisma.Decimal(tipAmount)
+                }
+                return Promise.resolve({ ...order })
+            },
+            count: () => Promise.resolve(0),
+        },
+        payment: {
+            aggregate: () =>
+                Promise.resolve({
+                    _sum: {
+                        amount: payments
+                            .filter((p) => isCapturedPayment(p.status))
+                            .reduce(
+                                (sum, p) => sum.plus(p.amount),
+                                new Prisma.Decimal(0)
+                            ),
+                    },
+                }),
+            create: ({ data }: { data: Partial<PaymentRow> }) => {
+                const payment: PaymentRow = {
+                    id: payments.length + 1,
+                    orderId: order.id,
+                    amount: new Prisma.Decimal(0),
+                    method: PaymentMethod.CASH,
+                    provider: null,
+                    status: PaymentStatus.PENDING,
+                    externalTransactionId: null,
+                    shiftId: null,
+                    createdAt: new Date(),
+                    ...data,
+                }
+                payments.push(payment)
+                return Promise.resolve(payment)
+            },
+            update: ({
+                where,
+                data,
+            }: {
+                where: { id: number }
+                data: Partial<PaymentRow>
+            }) => {
+                const payment = payments.find((p) => p.id === where.id)!
+                Object.assign(payment, data)
+                return Promise.resolve(payment)
+            },
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { id: number; status: { notIn: PaymentStatus[] } }
+                data: Partial<PaymentRow>
+            }) => {
+                const matching = payments.filter(
+                    (p) =>
+                        p.id === where.id &&
+                        !where.status.notIn.includes(p.status)
+                )
+                matching.forEach((p) => Object.assign(p, data))
+                return Promise.resolve({ count: matching.length })
+            },
+            findUnique: ({ where }: { where: { id: number } }) => {
+                const payment = payments.find((p) => p.id === where.id)
+                return Promise.resolve(payment ? withOrder(payment) : null)
+            },
+            findFirst: ({ where }: { where: { id?: number } }) =>
+                Promise.resolve(
+                    payments.find((p) => p.id === where.id) ?? null
+                ),
+        },
+        cashShift: { findFirst: () => Promise.resolve(null) },
+        table: {
+            findUnique: () =>
+                Promise.resolve({
+                    id: order.tableId,
+                    status: TableStatus.OCCUPIED,
+                    joinedToId: null,
+                    joinedTables: [],
+                }),
+            update: () => Promise.resolve({}),
+        },
+        paymentDiscrepancy: {
+            findFirst: () => Promise.resolve(null),
+            create: ({
+                data,
+            }: {
+                data: { paymentId: number; actualAmount: number }
+            }) => {
+                discrepancies.push(data)
+                return Promise.resolve(data)
+            },
+        },
+    }
+    return client
+}
+
+describe('OrdersService split payments', () => {
+    let service: OrdersService
+    let prisma: ReturnType<typeof createPrisma>
+    let order: OrderRow
+    const reserveForOrder = jest.fn(() =>
+        Promise.resolve({ ingredients: [], menuItems: [] })
+    )
+    let sessions = 0
+    const createSession = (params: { metadata: object }) =>
+        Promise.resolve({
+            id: `cs_${++sessions}`,
+            url: 'https://checkout.test',
+            metadata: params.metadata,
+        })
+
+    beforeEach(async () => {
+        order = {
+            id: 1,
+            tableId: 5,
+            restaurantId: 2,
+            status: OrderStatus.IN_PROGRESS,
+            totalAmount: new Prisma.Decimal(100000),
+            discountAmount: new Prisma.Decimal(0),
+            tipAmount: new Prisma.Decimal(0),
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+        prisma = createPrisma(order)
+        reserveForOrder.mockClear()
+        sessions = 0
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                OrdersService,
+                { provide: PrismaService, useValue: prisma },
+                {
+                    provide: SocketService,
+                    useValue: {
+                        emitTableStatusChanged: jest.fn(),
+                        emitOrderStatusChanged: jest.fn(),
+                        emitOrderUpdated: jest.fn(),
+                        emitWaiterNotification: jest.fn(),
+                    },
+                },
+                { provide: JwtService, useValue: {} },
+                {
+                    provide: ConfigService,
+                    useValue: {
+                        get: (key: string) =>
+                            key === 'stripe.webhookSecret'
+                                ? 'whsec_test'
+                                : undefined,
+                    },
+                },
+                {
+                    provide: InventoryService,
+                    useValue: {
+                        reserveForOrder,
+                        handleStockChanges: jest.fn(),
+                    },
+                },
+                { provide: PricingService, useValue: {} },
+                { provide: PromoCodesService, useValue: {} },
+                {
+                    provide: ReceiptsService,
+                    useValue: { sendToCustomer: () => Promise.resolve() },
+                },
+            ],
+        }).compile()
+
+        service = moduleRef.get(OrdersService)
+        Object.assign(service, {
+            stripe: {
+                checkout: { sessions: { create: createSession } },
+                webhooks: {
+                    constructEvent: (body: Buffer) =>
+                        JSON.parse(body.toString()) as object,
+                },
+            },
+        })
+    })
+
+    const completedSession = (
+        sessionId: string,
+        paymentId: number,
+        amountTotal: number
+    ) =>
+        Buffer.from(
+            JSON.stringify({
+                type: 'checkout.session.completed',
+                data: {
+                    object: {
+                        id: sessionId,
+                        amount_total: amountTotal,
+                        metadata: {
+                            orderId: '1',
+                            paymentId: String(paymentId),
+                        },
+                    },
+                },
+            })
+        )
+
+    it('completes the order once partial cash payments cover the total', async () => {
+        await service.processCashPayment(1, 60000)
+        expect(order.status).toBe(OrderStatus.IN_PROGRESS)
+
+        await service.processCashPayment(1, 40000)
+        expect(order.status).toBe(OrderStatus.COMPLETED)
+        expect(prisma.payments.map((p) => Number(p.amount))).toEqual([
+            60000, 40000,
+        ])
+        expect(reserveForOrder).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects a cash payment above the outstanding balance', async () => {
+        await service.processCashPayment(1, 60000)
+
+        await expect(service.processCashPayment(1, 50000)).rejects.toThrow(
+            BadRequestException
+        )
+        expect(prisma.payments).toHaveLength(1)
+        expect(order.status).toBe(OrderStatus.IN_PROGRESS)
+    })
+
+    it('will not drop a tip below what has already been paid', async () => {
+        await service.processCashPayment(1, 60000, 10000)
+        expect(Number(order.totalAmount)).toBe(110000)
+        await service.processCashPayment(1, 45000)
+
+        await expect(service.processCashPayment(1, 1000, 0)).rejects.toThrow(
+            'Tip cannot bring the total below the amount already paid'
+        )
+        expect(prisma.payments).toHaveLength(2)
+    })
+
+    it('gives each guest checkout its own payment and counts both captures', async () => {
+        await service.createCheckoutSession(1, 'ok', 'cancel', 30000)
+        await service.createCheckoutSession(1, 'ok', 'cancel', 70000)
+
+        expect(prisma.payments).toHaveLength(2)
+        const [first, second] = prisma.payments
+        expect(Number(first.amount)).toBe(30000)
+        expect(Number(second.amount)).toBe(70000)
+        expect(first.externalTransactionId).toBe('cs_1')
+        expect(second.externalTransactionId).toBe('cs_2')
+
+        await service.handleStripeWebhook(
+            'sig',
+            completedSession('cs_1', first.id, 30000)
+        )
+        expect(order.status).toBe(OrderStatus.IN_PROGRESS)
+
+        await service.handleStripeWebhook(
+            'sig',
+            completedSession('cs_2', second.id, 70000)
+        )
+        expect(first.status).toBe(PaymentStatus.SUCCESS)
+        expect(second.status).toBe(PaymentStatus.SUCCESS)
+        expect(order.status).toBe(OrderStatus.COMPLETED)
+    })
+
+    it('counts a repeated webhook delivery once', async () => {
+        await service.createCheckoutSession(1, 'ok', 'cancel', 30000)
+        const [payment] = prisma.payments
+        const body = completedSession('cs_1', payment.id, 30000)
+
+        await service.handleStripeWebhook('sig', body)
+        await service.handleStripeWebhook('sig', body)
+
+        const { paidAmount } = await service.getOrderBalance(1)
+        expect(Number(paidAmount)).toBe(30000)
+    })
+
+    it('flags a Stripe capture that does not match its payment', async () => {
+        await service.createCheckoutSession(1, 'ok', 'cancel', 30000)
+        const [payment] = prisma.payments
+
+        await service.handleStripeWebhook(
+            'sig',
+            completedSession('cs_1', payment.id, 25000)
+        )
+
+        expect(payment.status).toBe(PaymentStatus.PENDING)
+        expect(prisma.discrepancies).toEqual([
+            expect.objectContaining({
+                paymentId: payment.id,
+                actualAmount: 25000,
+            }),
+        ])
+    })
+})
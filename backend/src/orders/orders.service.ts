@@ -7,12 +7,28 @@ import {
 } from '@nestjs/common'
 import { PrismaService } from '../database/prisma.service'
 import { SocketService } from '../socket/socket.service'
+import {
+    InventoryService,
+    StockChanges,
+    StockLine,
+} from '../inventory/inventory.service'
+import { PricingService } from '../pricing/pricing.service'
+import { PromoCodesService } from '../promo-codes/promo-codes.service'
+import { ReceiptsService } from '../receipts/receipts.service'
+import { isMenuItemOnSchedule } from '../common/utils/availability.util'
+import { DEFAULT_TIMEZONE } from '../common/utils/timezone.util'
+import { calculateOrderTotals } from '../common/utils/order-totals.util'
+import {
+    CAPTURED_PAYMENT_STATUSES,
+    isCapturedPayment,
+} from '../common/utils/payment-status.util'
 import { JwtService } from '@nestjs/jwt'
 import { ConfigService } from '@nestjs/config'
 import { randomUUID } from 'crypto'
 import {
     CreateOrderDto,
     CreateOrderItemDto,
+    CreateOrderItemModifierDto,
     AddItemsToOrderDto,
 } from './dto/create-order.dto'
 import {
@@ -24,7 +40,13 @@ import {
     OrderStatus,
     OrderItemStatus,
     TableStatus,
+    PaymentMethod,
+    PaymentProvider,
+    PaymentStatus,
+    CashShiftStatus,
+    PaymentDiscrepancyType,
     Prisma,
+    Payment,
 } from '@prisma/client'
 import {
     OrderCreatedEvent,
@@ -34,7 +56,6 @@ import {
     KitchenOrderEvent,
     NotificationEvent,
     TableStatusEvent,
-    MenuItemStatusChangedEvent,
     OrderSummary,
     OrderItemSummary,
     KitchenOrderView,
@@ -61,7 +82,11 @@ export class OrdersService {
         private readonly prisma: PrismaService,
         private readonly socketService: SocketService,
         private readonly jwtService: JwtService,
-        private readonly configService: ConfigService
+        private readonly configService: ConfigService,
+        private readonly inventoryService: InventoryService,
+        private readonly pricingService: PricingService,
+        private readonly promoCodesService: PromoCodesService,
+        private readonly receiptsService: ReceiptsService
     ) {
         // Initialize Stripe if configured
         const stripeSecretKey =
@@ -93,8 +118,15 @@ export class OrdersService {
      * Create a new order
      */
     async create(createOrderDto: CreateOrderDto, guestSessionId?: string) {
-        const { restaurantId, tableId, userId, guestCount, note, items } =
-            createOrderDto
+        const {
+            restaurantId,
+            tableId,
+            userId,
+            guestCount,
+            note,
+            promoCode,
+            items,
+        } = createOrderDto
 
         // Generate guest session ID if user is not authenticated
         const sessionId = userId ? undefined : (guestSessionId || randomUUID())
@@ -175,9 +207,17 @@ export class OrdersService {
             )
         }
 
-        // Calculate total amount
-        let totalAmount = 0
+        // Calculate subtotal; charges are added from the restaurant rates
+        let subtotal = 0
         const orderItems: Prisma.OrderItemCreateWithoutOrderInput[] = []
+        const orderedAt = new Date()
+        const timeZone = await this.getRestaurantTimeZone(restaurantId)
+        const rates = await this.getRestaurantRates(restaurantId)
+        const pricingRules = await this.pricingService.getActiveRules(
+            restaurantId,
+            orderedAt,
+            timeZone
+        )
 
         for (const item of items) {
             const menuItem = await this.prisma.menuItem.findFirst({
@@ -186,6 +226,12 @@ export class OrdersService {
                     restaurantId,
                     status: 'AVAILABLE',
                 },
+                include: {
+                    availabilityWindows: true,
+                    category: {
+                        select: { stationId: true, availabilityWindows: true },
+                    },
+                },
             })
 
             if (!menuItem) {
@@ -194,41 +240,45 @@ export class OrdersService {
                 )
             }
 
-            // Check stock quantity if item has stock tracking (stockQuantity is not null)
-            if (menuItem.stockQuantity !== null) {
-                if (menuItem.stockQuantity < item.quantity) {
-                    throw new BadRequestException(
-                        `Insufficient stock for ${menuItem.name}. Available: ${menuItem.stockQuantity}, Requested: ${item.quantity}`
-                    )
-                }
+            // Day-part menus (breakfast, lunch specials, happy hour)
+            if (!isMenuItemOnSchedule(menuItem, orderedAt, timeZone)) {
+                throw new BadRequestException(
+                    `${menuItem.name} is not available at this time`
+                )
             }
 
-            const itemPrice = Number(menuItem.basePrice)
-            let modifiersPrice = 0
+            const chosen = await this.resolveModifiers(
+                menuItem.id,
+                item.modifiers
+            )
             const modifiers: Prisma.OrderItemModifierCreateWithoutOrderItemInput[] =
-                []
-
-            if (item.modifiers) {
-                for (const mod of item.modifiers) {
-                    modifiers.push({
-                        modifierOption: mod.modifierOptionId
-                            ? { connect: { id: mod.modifierOptionId } }
-                            : undefined,
-                        modifierName: mod.modifierName,
-                        priceAdjustment: mod.priceAdjustment,
-                    })
-                    modifiersPrice += mod.priceAdjustment
-                }
-            }
+                chosen.map((mod) => ({
+                    modifierOption: { connect: { id: mod.modifierOptionId } },
+                    modifierName: mod.modifierName,
+                    priceAdjustment: mod.priceAdjustment,
+                }))
+
+            const priced = this.pricingService.priceLine(pricingRules, {
+                menuItemId: menuItem.id,
+                categoryId: menuItem.categoryId,
+                basePrice: Number(menuItem.basePrice),
+                modifiers: chosen,
+            })
+            subtotal += priced.unitPrice * item.quantity
 
-            const lineTotal = (itemPrice + modifiersPrice) * item.quantity
-            totalAmount += lineTotal
+            const stationId = this.resolveItemStationId(menuItem)
 
             orderItems.push({
                 menuItem: { connect: { id: item.menuItemId } },
+                station: stationId ? { connect: { id: stationId } } : undefined,
                 name: menuItem.name,
                 quantity: item.quantity,
-                pricePerUnit: itemPrice + modifiersPrice,
+                pricePerUnit: priced.unitPrice,
+                listPrice: priced.listPrice,
+                pricingRule: priced.rule
+                    ? { connect: { id: priced.rule.id } }
+                    : undefined,
+                pricingRuleName: priced.rule?.name,
                 status: OrderItemStatus.QUEUED,
                 note: item.note,
                 modifiers: {
@@ -239,28 +289,56 @@ export class OrdersService {
 
         // Case 1: Ghost Order Prevention - Set status to PENDING_REVIEW
         // Order requires waiter confirmation before going to kitchen
-        const order = await this.prisma.order.create({
-            data: {
-                restaurantId,
-                tableId,
-                userId,
-                guestSessionId: sessionId, // Store guest session ID for tracking
-                guestCount: guestCount || 1,
-                note,
-                totalAmount,
-                status: 'PENDING_REVIEW' as any, // Use string literal - Prisma client will be regenerated after migration
-                items: {
-                    create: orderItems,
+        // Stock is checked for the whole order at once (the same dish on two
+        // lines, dishes sharing an ingredient) in the same transaction
+        const order = await this.prisma.$transaction(async (tx) => {
+            await this.inventoryService.assertAvailable(
+                this.toStockLines(items),
+                tx
+            )
+
+            // Promo code discounts the priced subtotal; a rejected code
+            // fails the order rather than silently charging full price
+            const promo = promoCode
+                ? await this.promoCodesService.applyToOrder(
+                      restaurantId,
+                      promoCode,
+                      subtotal,
+                      { userId, guestSessionId: sessionId },
+                      tx
+                  )
+                : null
+
+            return tx.order.create({
+                data: {
+                    restaurantId,
+                    tableId,
+                    userId,
+                    guestSessionId: sessionId, // Store guest session ID for tracking
+                    guestCount: guestCount || 1,
+                    note,
+                    ...calculateOrderTotals({
+                        subtotal,
+                        discountAmount: promo?.discountAmount ?? 0,
+                        ...rates,
+                        tipAmount: 0,
+                    }),
+                    ...rates,
+                    promoCodeId: promo?.promoCodeId,
+                    status: 'PENDING_REVIEW' as any, // Use string literal - Prisma client will be regenerated after migration
+                    items: {
+                        create: orderItems,
+                    },
                 },
-            },
-            include: {
-                table: true,
-                items: {
-                    include: {
-                        modifiers: true,
+                include: {
+                    table: true,
+                    items: {
+                        include: {
+                            modifiers: true,
+                        },
                     },
                 },
-            },
+            })
         })
 
         // Get current table status before update
@@ -325,8 +403,14 @@ export class OrdersService {
             throw new BadRequestException('Cannot add items to this order')
         }
 
-        let additionalAmount = 0
-        const newItems: Prisma.OrderItemCreateManyInput[] = []
+        const newItems: Prisma.OrderItemUncheckedCreateInput[] = []
+        const orderedAt = new Date()
+        const timeZone = await this.getRestaurantTimeZone(order.restaurantId)
+        const pricingRules = await this.pricingService.getActiveRules(
+            order.restaurantId,
+            orderedAt,
+            timeZone
+        )
 
         for (const item of addItemsDto.items) {
             const menuItem = await this.prisma.menuItem.findFirst({
@@ -335,6 +419,12 @@ export class OrdersService {
                     restaurantId: order.restaurantId,
                     status: 'AVAILABLE',
                 },
+                include: {
+                    availabilityWindows: true,
+                    category: {
+                        select: { stationId: true, availabilityWindows: true },
+                    },
+                },
             })
 
             if (!menuItem) {
@@ -343,75 +433,92 @@ export class OrdersService {
                 )
             }
 
-            const itemPrice = Number(menuItem.basePrice)
-            let modifiersPrice = 0
-
-            if (item.modifiers) {
-                modifiersPrice = item.modifiers.reduce(
-                    (sum, m) => sum + m.priceAdjustment,
-                    0
+            if (!isMenuItemOnSchedule(menuItem, orderedAt, timeZone)) {
+                throw new BadRequestException(
+                    `${menuItem.name} is not available at this time`
                 )
             }
 
-            const lineTotal = (itemPrice + modifiersPrice) * item.quantity
-            additionalAmount += lineTotal
-        }
-
-        // Create new items
-        for (const item of addItemsDto.items) {
-            const menuItem = await this.prisma.menuItem.findUnique({
-                where: { id: item.menuItemId },
+            const chosen = await this.resolveModifiers(
+                menuItem.id,
+                item.modifiers
+            )
+            const priced = this.pricingService.priceLine(pricingRules, {
+                menuItemId: menuItem.id,
+                categoryId: menuItem.categoryId,
+                basePrice: Number(menuItem.basePrice),
+                modifiers: chosen,
             })
-
-            const itemPrice = Number(menuItem!.basePrice)
-            let modifiersPrice = 0
-
-            if (item.modifiers) {
-                modifiersPrice = item.modifiers.reduce(
-                    (sum, m) => sum + m.priceAdjustment,
-                    0
-                )
-            }
-
-            const orderItem = await this.prisma.orderItem.create({
-                data: {
-                    orderId,
-                    menuItemId: item.menuItemId,
-                    name: menuItem!.name,
-                    quantity: item.quantity,
-                    pricePerUnit: itemPrice + modifiersPrice,
-                    status: OrderItemStatus.QUEUED,
-                    note: item.note,
-                    modifiers: item.modifiers
-                        ? {
-                              create: item.modifiers.map((m) => ({
-                                  modifierOptionId: m.modifierOptionId,
-                                  modifierName: m.modifierName,
-                                  priceAdjustment: m.priceAdjustment,
-                              })),
-                          }
-                        : undefined,
-                },
+            newItems.push({
+                orderId,
+                menuItemId: item.menuItemId,
+                stationId: this.resolveItemStationId(menuItem),
+                name: menuItem.name,
+                quantity: item.quantity,
+                pricePerUnit: priced.unitPrice,
+                listPrice: priced.listPrice,
+                pricingRuleId: priced.rule?.id,
+                pricingRuleName: priced.rule?.name,
+                status: OrderItemStatus.QUEUED,
+                note: item.note,
+                modifiers: chosen.length > 0 ? { create: chosen } : undefined,
             })
         }
 
-        // Update total amount
-        const updatedOrder = await this.prisma.order.update({
-            where: { id: orderId },
-            data: {
-                totalAmount: {
-                    increment: additionalAmount,
-                },
-            },
-            include: {
-                table: true,
-                items: {
+        // Accepted orders hold stock for their items right away; pending
+        // ones are only checked until a waiter accepts them
+        const orderStatus = String(order.status)
+        const isAccepted =
+            orderStatus !== 'PENDING_REVIEW' && orderStatus !== 'PENDING'
+
+        const { updatedOrder, stockChanges } = await this.prisma.$transaction(
+            async (tx) => {
+                // Create new items
+                const newItemIds: number[] = []
+                for (const data of newItems) {
+                    const orderItem = await tx.orderItem.create({ data })
+                    newItemIds.push(orderItem.id)
+                }
+
+                let stockChanges: StockChanges = {
+                    ingredients: [],
+                    menuItems: [],
+                }
+                if (isAccepted) {
+                    stockChanges = await this.inventoryService.reserveForOrder(
+                        orderId,
+                        tx,
+                        { itemIds: newItemIds }
+                    )
+                } else {
+                    await this.inventoryService.assertAvailable(
+                        this.toStockLines(addItemsDto.items),
+                        tx
+                    )
+                }
+
+                // Update totals
+                await this.recalculateTotals(orderId, tx)
+                const updatedOrder = await tx.order.findUniqueOrThrow({
+                    where: { id: orderId },
                     include: {
-                        modifiers: true,
+                        table: true,
+                        items: {
+                            include: {
+                                modifiers: true,
+                            },
+                        },
                     },
-                },
-            },
-        })
+                })
+
+                return { updatedOrder, stockChanges }
+            }
+        )
+
+        await this.inventoryService.handleStockChanges(
+            order.restaurantId,
+            stockChanges
+        )
 
         // Emit real-time event
         const orderSummary = this.mapToOrderSummary(updatedOrder)
@@ -439,15 +546,11 @@ export class OrdersService {
         const where: Prisma.OrderWhereInput = {
             tableId,
             // Show only orders that are not completed
+            // Orders are only COMPLETED once fully paid, so partially paid
+            // (split bill) orders stay visible until the balance reaches 0
             status: {
                 notIn: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
             },
-            // Exclude orders with successful payment (payment.status = SUCCESS)
-            // Include orders with no payment record OR payment status != SUCCESS
-            OR: [
-                { payment: null }, // No payment record yet
-                { payment: { status: { not: 'SUCCESS' } } }, // Payment exists but not successful
-            ],
         }
 
         // Filter by userId if logged in, or by guestSessionId if guest
@@ -469,7 +572,7 @@ export class OrdersService {
                         menuItem: true,
                     },
                 },
-                payment: true,
+                payments: true,
             },
             orderBy: { createdAt: 'desc' },
         })
@@ -497,7 +600,7 @@ export class OrdersService {
                         menuItem: true,
                     },
                 },
-                payment: true,
+                payments: true,
             },
             orderBy: { createdAt: 'desc' },
         })
@@ -560,7 +663,7 @@ export class OrdersService {
                             modifiers: true,
                         },
                     },
-                    payment: true,
+                    payments: true,
                 },
                 orderBy: { createdAt: 'desc' },
                 skip: (page - 1) * pageSize,
@@ -594,7 +697,7 @@ export class OrdersService {
                         menuItem: true,
                     },
                 },
-                payment: true,
+                payments: true,
             },
         })
 
@@ -602,7 +705,22 @@ export class OrdersService {
             throw new NotFoundException('Order not found')
         }
 
-        return order
+        // Expose split-bill progress alongside the order
+        const paidAmount = order.payments
+            .filter((payment) => isCapturedPayment(payment.status))
+            .reduce(
+                (sum, payment) => sum.plus(payment.amount),
+                new Prisma.Decimal(0)
+            )
+
+        return {
+            ...order,
+            paidAmount,
+            balanceDue: Prisma.Decimal.max(
+                order.totalAmount.minus(paidAmount),
+                0
+            ),
+        }
     }
 
     /**
@@ -654,14 +772,14 @@ export class OrdersService {
 
             // If order completed, update table status if needed
             if (updateOrderDto.status === OrderStatus.COMPLETED) {
-                const tableStatusEvent = await this.updateTableStatusIfNeeded(
+                const tableStatusEvents = await this.updateTableStatusIfNeeded(
                     id,
                     order.tableId,
                     order.restaurantId
                 )
 
                 // Emit table status change if status was updated
-                if (tableStatusEvent) {
+                for (const tableStatusEvent of tableStatusEvents) {
                     this.socketService.emitTableStatusChanged(
                         order.restaurantId,
                         tableStatusEvent
@@ -686,36 +804,66 @@ export class OrdersService {
             throw new BadRequestException('Cannot cancel this order')
         }
 
-        const updatedOrder = await this.prisma.order.update({
-            where: { id },
-            data: {
-                status: OrderStatus.CANCELLED,
-                note: reason
-                    ? `${order.note || ''} [Cancelled: ${reason}]`
-                    : order.note,
-            },
-        })
+        const { updatedOrder, stockChanges } = await this.prisma.$transaction(
+            async (tx) => {
+                const updatedOrder = await tx.order.update({
+                    where: { id },
+                    data: {
+                        status: OrderStatus.CANCELLED,
+                        note: reason
+                            ? `${order.note || ''} [Cancelled: ${reason}]`
+                            : order.note,
+                    },
+                })
 
-        // Cancel all queued/preparing items
-        await this.prisma.orderItem.updateMany({
-            where: {
-                orderId: id,
-                status: {
-                    in: [OrderItemStatus.QUEUED, OrderItemStatus.PREPARING],
-                },
-            },
-            data: { status: OrderItemStatus.CANCELLED },
-        })
+                // Cancel all queued/preparing items and give their stock back;
+                // dishes already cooked keep theirs
+                const cancelledItems = await tx.orderItem.findMany({
+                    where: {
+                        orderId: id,
+                        status: {
+                            in: [
+                                OrderItemStatus.QUEUED,
+                                OrderItemStatus.PREPARING,
+                            ],
+                        },
+                    },
+                    select: { id: true },
+                })
+                const cancelledItemIds = cancelledItems.map((i) => i.id)
+                await tx.orderItem.updateMany({
+                    where: { id: { in: cancelledItemIds } },
+                    data: { status: OrderItemStatus.CANCELLED },
+                })
+                const stockChanges =
+                    await this.inventoryService.releaseForOrder(
+                        id,
+                        tx,
+                        cancelledItemIds
+                    )
+                await this.promoCodesService.releaseForOrder(
+                    order.promoCodeId,
+                    tx
+                )
+
+                return { updatedOrder, stockChanges }
+            }
+        )
+
+        await this.inventoryService.handleStockChanges(
+            order.restaurantId,
+            stockChanges
+        )
 
         // Update table status if needed
-        const tableStatusEvent = await this.updateTableStatusIfNeeded(
+        const tableStatusEvents = await this.updateTableStatusIfNeeded(
             id,
             order.tableId,
             order.restaurantId
         )
 
         // Emit table status change if status was updated
-        if (tableStatusEvent) {
+        for (const tableStatusEvent of tableStatusEvents) {
             this.socketService.emitTableStatusChanged(
                 order.restaurantId,
                 tableStatusEvent
@@ -893,54 +1041,97 @@ export class OrdersService {
                 include: { modifiers: true },
             })
 
-            // Add items to existing order with QUEUED status
-            for (const item of pendingOrderItems) {
-                await this.prisma.orderItem.create({
-                    data: {
-                        orderId: mergeWithOrderId,
-                        menuItemId: item.menuItemId,
-                        name: item.name,
-                        quantity: item.quantity,
-                        pricePerUnit: item.pricePerUnit,
-                        status: OrderItemStatus.QUEUED,
-                        note: item.note,
-                        modifiers: {
-                            create: item.modifiers.map((mod) => ({
-                                modifierOptionId: mod.modifierOptionId,
-                                modifierName: mod.modifierName,
-                                priceAdjustment: mod.priceAdjustment,
-                            })),
-                        },
-                    },
-                })
-            }
+            // Move the items, hold their stock and cancel the pending order
+            // in one go so a shortage leaves both orders untouched
+            const { updatedOrder, stockChanges } =
+                await this.prisma.$transaction(async (tx) => {
+                    // Add items to existing order with QUEUED status
+                    const newItemIds: number[] = []
+                    for (const item of pendingOrderItems) {
+                        const newItem = await tx.orderItem.create({
+                            data: {
+                                orderId: mergeWithOrderId,
+                                menuItemId: item.menuItemId,
+                                stationId: item.stationId,
+                                name: item.name,
+                                quantity: item.quantity,
+                                pricePerUnit: item.pricePerUnit,
+                                listPrice: item.listPrice,
+                                pricingRuleId: item.pricingRuleId,
+                                pricingRuleName: item.pricingRuleName,
+                                status: OrderItemStatus.QUEUED,
+                                note: item.note,
+                                modifiers: {
+                                    create: item.modifiers.map((mod) => ({
+                                        modifierOptionId: mod.modifierOptionId,
+                                        modifierName: mod.modifierName,
+                                        priceAdjustment: mod.priceAdjustment,
+                                    })),
+                                },
+                            },
+                        })
+                        newItemIds.push(newItem.id)
+                    }
 
-            // Update total amount of existing order
-            const updatedOrder = await this.prisma.order.update({
-                where: { id: mergeWithOrderId },
-                data: {
-                    totalAmount: {
-                        increment: order.totalAmount,
-                    },
-                },
-                include: {
-                    table: true,
-                    items: {
+                    const stockChanges =
+                        await this.inventoryService.reserveForOrder(
+                            mergeWithOrderId,
+                            tx,
+                            { itemIds: newItemIds }
+                        )
+
+                    // Update totals of existing order; the promo code moves
+                    // along unless that order has its own, which then wins
+                    const moveCode =
+                        order.promoCodeId !== null &&
+                        targetOrder.promoCodeId === null
+                    if (order.promoCodeId !== null && !moveCode) {
+                        await this.promoCodesService.releaseForOrder(
+                            order.promoCodeId,
+                            tx
+                        )
+                    }
+                    await tx.order.update({
+                        where: { id: mergeWithOrderId },
+                        data: {
+                            discountAmount: {
+                                increment: order.discountAmount,
+                            },
+                            promoCodeId: moveCode
+                                ? order.promoCodeId
+                                : undefined,
+                        },
+                    })
+                    await this.recalculateTotals(mergeWithOrderId, tx)
+                    const updatedOrder = await tx.order.findUniqueOrThrow({
+                        where: { id: mergeWithOrderId },
                         include: {
-                            modifiers: true,
+                            table: true,
+                            items: {
+                                include: {
+                                    modifiers: true,
+                                },
+                            },
                         },
-                    },
-                },
-            })
+                    })
 
-            // Cancel the pending order
-            await this.prisma.order.update({
-                where: { id: orderId },
-                data: {
-                    status: OrderStatus.CANCELLED,
-                    note: `Merged into order #${mergeWithOrderId}`,
-                },
-            })
+                    // Cancel the pending order
+                    await tx.order.update({
+                        where: { id: orderId },
+                        data: {
+                            status: OrderStatus.CANCELLED,
+                            note: `Merged into order #${mergeWithOrderId}`,
+                            promoCodeId: moveCode ? null : undefined,
+                        },
+                    })
+
+                    return { updatedOrder, stockChanges }
+                })
+
+            await this.inventoryService.handleStockChanges(
+                order.restaurantId,
+                stockChanges
+            )
 
             // Send only NEW items to kitchen (not the merged order)
             for (const item of pendingOrderItems) {
@@ -956,6 +1147,7 @@ export class OrdersService {
                         previousStatus: OrderItemStatus.QUEUED,
                         newStatus: OrderItemStatus.QUEUED,
                         updatedAt: new Date().toISOString(),
+                        stationId: newItem.stationId,
                     }
                     this.socketService.emitOrderItemStatusChanged(
                         order.restaurantId,
@@ -991,21 +1183,37 @@ export class OrdersService {
         }
 
         // Normal accept flow (no existing order on table)
-        const updatedOrder = await this.prisma.order.update({
-            where: { id: orderId },
-            data: {
-                status: 'IN_PROGRESS' as any, // Use string literal - Prisma client will be regenerated after migration
-                waiterId,
-            },
-            include: {
-                table: true,
-                items: {
+        // Stock is held from here on, so the last portions cannot be sold
+        // twice; a shortage leaves the order pending
+        const { updatedOrder, stockChanges } = await this.prisma.$transaction(
+            async (tx) => {
+                const stockChanges =
+                    await this.inventoryService.reserveForOrder(orderId, tx)
+
+                const updatedOrder = await tx.order.update({
+                    where: { id: orderId },
+                    data: {
+                        status: 'IN_PROGRESS' as any, // Use string literal - Prisma client will be regenerated after migration
+                        waiterId,
+                    },
                     include: {
-                        modifiers: true,
+                        table: true,
+                        items: {
+                            include: {
+                                modifiers: true,
+                            },
+                        },
                     },
-                },
-            },
-        })
+                })
+
+                return { updatedOrder, stockChanges }
+            }
+        )
+
+        await this.inventoryService.handleStockChanges(
+            order.restaurantId,
+            stockChanges
+        )
 
         // Emit accepted event
         this.socketService.emitOrderAccepted(
@@ -1061,31 +1269,48 @@ export class OrdersService {
             )
         }
 
-        const updatedOrder = await this.prisma.order.update({
-            where: { id: orderId },
-            data: {
-                status: OrderStatus.CANCELLED,
-                note: reason
-                    ? `${order.note || ''} [Rejected: ${reason}]`
-                    : order.note,
-            },
-        })
+        const { updatedOrder, stockChanges } = await this.prisma.$transaction(
+            async (tx) => {
+                const updatedOrder = await tx.order.update({
+                    where: { id: orderId },
+                    data: {
+                        status: OrderStatus.CANCELLED,
+                        note: reason
+                            ? `${order.note || ''} [Rejected: ${reason}]`
+                            : order.note,
+                    },
+                })
 
-        // Cancel all items
-        await this.prisma.orderItem.updateMany({
-            where: { orderId },
-            data: { status: OrderItemStatus.CANCELLED },
-        })
+                // Cancel all items
+                await tx.orderItem.updateMany({
+                    where: { orderId },
+                    data: { status: OrderItemStatus.CANCELLED },
+                })
+                const stockChanges =
+                    await this.inventoryService.releaseForOrder(orderId, tx)
+                await this.promoCodesService.releaseForOrder(
+                    order.promoCodeId,
+                    tx
+                )
+
+                return { updatedOrder, stockChanges }
+            }
+        )
+
+        await this.inventoryService.handleStockChanges(
+            order.restaurantId,
+            stockChanges
+        )
 
         // Update table status if needed
-        const tableStatusEvent = await this.updateTableStatusIfNeeded(
+        const tableStatusEvents = await this.updateTableStatusIfNeeded(
             orderId,
             order.tableId,
             order.restaurantId
         )
 
         // Emit table status change if status was updated
-        if (tableStatusEvent) {
+        for (const tableStatusEvent of tableStatusEvents) {
             this.socketService.emitTableStatusChanged(
                 order.restaurantId,
                 tableStatusEvent
@@ -1111,11 +1336,12 @@ export class OrdersService {
     async markOrderServed(orderId: number) {
         const order = await this.findOne(orderId)
 
-        // Check all items are ready or served
+        // Check all items are ready or served (cancelled items are skipped)
         const allReady = order.items.every(
             (item) =>
                 item.status === OrderItemStatus.READY ||
-                item.status === OrderItemStatus.SERVED
+                item.status === OrderItemStatus.SERVED ||
+                item.status === OrderItemStatus.CANCELLED
         )
 
         if (!allReady) {
@@ -1133,7 +1359,7 @@ export class OrdersService {
                 orderId,
                 status: OrderItemStatus.READY,
             },
-            data: { status: OrderItemStatus.SERVED },
+            data: { status: OrderItemStatus.SERVED, servedAt: new Date() },
         })
 
         // Emit item status changes for each item (for real-time sync)
@@ -1145,6 +1371,7 @@ export class OrdersService {
                 previousStatus: OrderItemStatus.READY,
                 newStatus: OrderItemStatus.SERVED,
                 updatedAt: new Date().toISOString(),
+                stationId: item.stationId,
             }
             this.socketService.emitOrderItemStatusChanged(
                 order.restaurantId,
@@ -1165,114 +1392,378 @@ export class OrdersService {
     }
 
     /**
-     * Process cash payment for order
+     * Move an active order (and its party) to another table
+     * The target must be free of other parties; the source table is released
+     * once nothing else is running on it
      */
-    async processCashPayment(orderId: number) {
+    async transferOrder(orderId: number, targetTableId: number) {
         const order = await this.findOne(orderId)
 
-        if (order.status === OrderStatus.COMPLETED) {
-            throw new BadRequestException('Order is already completed')
+        if (
+            order.status === OrderStatus.COMPLETED ||
+            order.status === OrderStatus.CANCELLED
+        ) {
+            throw new BadRequestException(
+                `Cannot transfer order with status ${order.status}`
+            )
         }
-
-        if (order.status === OrderStatus.CANCELLED) {
-            throw new BadRequestException('Cannot pay for cancelled order')
+        if (order.tableId === targetTableId) {
+            throw new BadRequestException('Order is already at this table')
         }
 
-        // Check if payment already exists
-        if (order.payment) {
-            if (order.payment.status === 'SUCCESS') {
-                throw new BadRequestException(
-                    'Order has already been paid successfully'
-                )
-            }
-            // If payment exists but status is not SUCCESS, update it
-            // This handles cases where payment was created but not completed
+        const targetTable = await this.prisma.table.findFirst({
+            where: {
+                id: targetTableId,
+                restaurantId: order.restaurantId,
+                isActive: true,
+            },
+        })
+        if (!targetTable) {
+            throw new NotFoundException(
+                'Target table not found or inactive in this restaurant'
+            )
+        }
+        if (targetTable.joinedToId) {
+            throw new BadRequestException(
+                `Table ${targetTable.name} is joined to another table`
+            )
+        }
+        if (
+            await this.hasActiveOrdersOnTable(
+                targetTableId,
+                order.restaurantId
+            )
+        ) {
+            throw new BadRequestException(
+                `Table ${targetTable.name} already has an active order`
+            )
         }
 
-        // Use transaction to ensure atomicity
-        // All operations must succeed or all must fail
-        const result = await this.prisma.$transaction(async (tx) => {
-            // Create or update payment record
-            let payment
-            if (order.payment) {
-                // Update existing payment
-                payment = await tx.payment.update({
-                    where: { id: order.payment.id },
-                    data: {
-                        amount: order.totalAmount,
-                        method: 'CASH',
-                        status: 'SUCCESS',
-                    },
-                })
-            } else {
-                // Create new payment record
-                payment = await tx.payment.create({
-                    data: {
-                        orderId,
-                        amount: order.totalAmount,
-                        method: 'CASH',
-                        status: 'SUCCESS',
-                    },
-                })
-            }
-
-            // Update order status to COMPLETED
-            const updatedOrder = await tx.order.update({
+        const tableStatusEvents = await this.prisma.$transaction(async (tx) => {
+            await tx.order.update({
                 where: { id: orderId },
-                data: {
-                    status: OrderStatus.COMPLETED,
-                },
-                include: {
-                    table: true,
-                    items: true,
-                    payment: true,
-                },
+                data: { tableId: targetTableId },
+            })
+            await tx.table.update({
+                where: { id: targetTableId },
+                data: { status: TableStatus.OCCUPIED },
             })
 
-            // Update inventory (decrease stock quantity)
-            await this.updateInventoryForCompletedOrder(
-                order.items.map((item) => ({
-                    menuItemId: item.menuItemId,
-                    quantity: item.quantity,
-                })),
-                tx
+            const changes: TableStatusEvent[] = []
+            if (targetTable.status !== TableStatus.OCCUPIED) {
+                changes.push({
+                    tableId: targetTableId,
+                    previousStatus: targetTable.status,
+                    newStatus: TableStatus.OCCUPIED,
+                    orderId,
+                })
+            }
+            changes.push(
+                ...(await this.updateTableStatusIfNeeded(
+                    orderId,
+                    order.tableId,
+                    order.restaurantId,
+                    tx
+                ))
             )
+            return changes
+        })
 
-            // Update table status if needed
-            const tableStatusChanged = await this.updateTableStatusIfNeeded(
-                orderId,
-                order.tableId,
+        for (const tableStatusEvent of tableStatusEvents) {
+            this.socketService.emitTableStatusChanged(
                 order.restaurantId,
-                tx
+                tableStatusEvent
             )
+        }
 
-            return { updatedOrder, tableStatusChanged }
+        // Guests tracking from either table see where the order went
+        const transferredOrder = await this.findOne(orderId)
+        const event: OrderUpdatedEvent = {
+            order: this.mapToOrderSummary(transferredOrder),
+            updatedFields: ['tableId'],
+        }
+        this.socketService.emitOrderUpdated(
+            order.restaurantId,
+            targetTableId,
+            event
+        )
+        this.socketService.emitTableNotification(order.tableId, {
+            id: `order-transfer-${orderId}-${Date.now()}`,
+            type: 'info',
+            title: 'Table changed',
+            message: `Your order has moved to ${targetTable.name}`,
+            orderId,
+            tableId: targetTableId,
+            timestamp: new Date().toISOString(),
         })
 
-        // Emit table status change after transaction commits
-        if (result.tableStatusChanged) {
-            this.socketService.emitTableStatusChanged(
-                order.restaurantId,
-                result.tableStatusChanged
+        this.logger.log(
+            `Order ${orderId} transferred from table ${order.tableId} to ${targetTableId}`
+        )
+
+        return transferredOrder
+    }
+
+    /**
+     * Bump a ticket from the expo station (Kitchen)
+     * Only allowed once every station has finished its items; the whole
+     * ticket is then handed off as served
+     */
+    async bumpOrder(orderId: number) {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                items: {
+                    include: { station: true },
+                },
+            },
+        })
+
+        if (!order) {
+            throw new NotFoundException('Order not found')
+        }
+
+        if (order.status !== OrderStatus.IN_PROGRESS) {
+            throw new BadRequestException(
+                `Cannot bump order with status ${order.status}`
             )
         }
 
-        // Emit order completed event (with retry logic)
-        const statusEvent: OrderStatusChangedEvent = {
-            orderId,
-            previousStatus: order.status,
-            newStatus: OrderStatus.COMPLETED,
-            updatedAt: new Date().toISOString(),
+        const pendingStations = new Set<string>()
+        for (const item of order.items) {
+            if (
+                item.status === OrderItemStatus.QUEUED ||
+                item.status === OrderItemStatus.PREPARING
+            ) {
+                pendingStations.add(item.station?.name ?? 'Unassigned')
+            }
         }
-        await this.socketService.emitOrderStatusChanged(
+
+        if (pendingStations.size > 0) {
+            throw new BadRequestException(
+                `Stations still working on order ${orderId}: ${[...pendingStations].join(', ')}`
+            )
+        }
+
+        this.logger.log(`Order ${orderId} bumped from expo`)
+
+        return this.markOrderServed(orderId)
+    }
+
+    /**
+     * Process cash payment for order
+     * Supports split bills: amount defaults to the outstanding balance and the
+     * order is only completed once the balance reaches 0
+     * The cash goes into the drawer of the cashier's open shift, if any
+     */
+    async processCashPayment(
+        orderId: number,
+        amount?: number,
+        tipAmount?: number,
+        cashierId?: number
+    ) {
+        const order = await this.findOne(orderId)
+
+        if (order.status === OrderStatus.COMPLETED) {
+            throw new BadRequestException('Order is already completed')
+        }
+
+        if (order.status === OrderStatus.CANCELLED) {
+            throw new BadRequestException('Cannot pay for cancelled order')
+        }
+
+        // Use transaction to ensure atomicity
+        // All operations must succeed or all must fail
+        const settlement = await this.prisma.$transaction(async (tx) => {
+            await this.lockOrder(tx, orderId)
+
+            if (tipAmount !== undefined) {
+                await this.setTip(orderId, tipAmount, tx)
+            }
+
+            // Re-check balance under the order lock so concurrent partial
+            // payments cannot overpay the order
+            const { balanceDue } = await this.getOrderBalance(orderId, tx)
+
+            if (balanceDue.lessThanOrEqualTo(0)) {
+                throw new BadRequestException(
+                    'Order has already been paid successfully'
+                )
+            }
+
+            const paymentAmount =
+                amount !== undefined ? new Prisma.Decimal(amount) : balanceDue
+
+            if (paymentAmount.lessThanOrEqualTo(0)) {
+                throw new BadRequestException(
+                    'Payment amount must be greater than 0'
+                )
+            }
+
+            if (paymentAmount.greaterThan(balanceDue)) {
+                throw new BadRequestException(
+                    `Payment amount exceeds outstanding balance of ${balanceDue.toString()}`
+                )
+            }
+
+            const shift = cashierId
+                ? await tx.cashShift.findFirst({
+                      where: { cashierId, status: CashShiftStatus.OPEN },
+                      select: { id: true },
+                  })
+                : null
+
+            await tx.payment.create({
+                data: {
+                    orderId,
+                    amount: paymentAmount,
+                    method: PaymentMethod.CASH,
+                    status: PaymentStatus.SUCCESS,
+                    shiftId: shift?.id ?? null,
+                },
+            })
+
+            return this.settleOrderIfPaid(order, tx)
+        })
+
+        await this.emitPaymentSettled(order, settlement)
+
+        this.logger.log(
+            settlement.completed
+                ? `Order ${orderId} paid with cash and completed`
+                : `Order ${orderId} received partial cash payment, balance due ${settlement.balanceDue.toString()}`
+        )
+
+        return this.findOne(orderId)
+    }
+
+    /**
+     * Lock an order row until the transaction ends, so payments of the
+     * same order check its balance and settle one after the other
+     */
+    private async lockOrder(tx: Prisma.TransactionClient, orderId: number) {
+        await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`
+    }
+
+    /**
+     * Confirm a pending gateway payment (Stripe, MoMo, ...)
+     * Idempotent: already successful payments are ignored
+     */
+    async confirmPayment(paymentId: number, externalTransactionId?: string) {
+        const payment = await this.prisma.payment.findUnique({
+            where: { id: paymentId },
+            include: { order: { include: { table: true } } },
+        })
+
+        if (!payment) {
+            throw new NotFoundException(`Payment ${paymentId} not found`)
+        }
+
+        if (isCapturedPayment(payment.status)) {
+            this.logger.log(`Payment ${paymentId} already processed`)
+            return { completed: payment.order.status === OrderStatus.COMPLETED }
+        }
+
+        const { order } = payment
+
+        const settlement = await this.prisma.$transaction(async (tx) => {
+            await this.lockOrder(tx, order.id)
+
+            // Only one of concurrent webhook or IPN deliveries captures it
+            const { count } = await tx.payment.updateMany({
+                where: {
+                    id: paymentId,
+                    status: { notIn: CAPTURED_PAYMENT_STATUSES },
+                },
+                data: {
+                    status: PaymentStatus.SUCCESS,
+                    externalTransactionId:
+                        externalTransactionId ?? payment.externalTransactionId,
+                },
+            })
+            if (count === 0) return null
+
+            return this.settleOrderIfPaid(order, tx)
+        })
+
+        if (!settlement) {
+            this.logger.log(`Payment ${paymentId} already processed`)
+            const current = await this.prisma.order.findUnique({
+                where: { id: order.id },
+                select: { status: true },
+            })
+            return { completed: current?.status === OrderStatus.COMPLETED }
+        }
+
+        await this.emitPaymentSettled(order, settlement)
+
+        // Emit notification to waiters (with retry logic)
+        const notification: NotificationEvent = settlement.completed
+            ? {
+                  id: `payment-${order.id}-${Date.now()}`,
+                  type: 'success',
+                  title: 'Payment Completed',
+                  message: `Order #${order.id} (${order.table.name}) has been paid successfully via ${payment.method.toLowerCase()}`,
+                  orderId: order.id,
+                  tableId: order.tableId,
+                  timestamp: new Date().toISOString(),
+                  sound: true,
+              }
+            : {
+                  id: `payment-${order.id}-${Date.now()}`,
+                  type: 'info',
+                  title: 'Partial Payment',
+                  message: `Order #${order.id} (${order.table.name}) received ${Number(payment.amount)} via ${payment.method.toLowerCase()}, ${Number(settlement.balanceDue)} remaining`,
+                  orderId: order.id,
+                  tableId: order.tableId,
+                  timestamp: new Date().toISOString(),
+                  sound: true,
+              }
+
+        await this.socketService.emitWaiterNotification(
             order.restaurantId,
-            order.tableId,
-            statusEvent
+            notification
         )
 
-        this.logger.log(`Order ${orderId} paid with cash and completed`)
+        this.logger.log(
+            `Payment ${paymentId} confirmed for order ${order.id}${settlement.completed ? ' - order completed' : ''}`
+        )
+
+        return { completed: settlement.completed }
+    }
+
+    /**
+     * Get paid amount and outstanding balance of an order
+     * Only captured payments count towards the paid amount; refunds do not
+     * reopen the balance
+     */
+    async getOrderBalance(orderId: number, tx?: Prisma.TransactionClient) {
+        const prismaClient = tx || this.prisma
+
+        const order = await prismaClient.order.findUnique({
+            where: { id: orderId },
+            select: { totalAmount: true },
+        })
+
+        if (!order) {
+            throw new NotFoundException('Order not found')
+        }
+
+        const paid = await prismaClient.payment.aggregate({
+            where: { orderId, status: { in: CAPTURED_PAYMENT_STATUSES } },
+            _sum: { amount: true },
+        })
 
-        return result.updatedOrder
+        const paidAmount = paid._sum.amount ?? new Prisma.Decimal(0)
+
+        return {
+            totalAmount: order.totalAmount,
+            paidAmount,
+            balanceDue: Prisma.Decimal.max(
+                order.totalAmount.minus(paidAmount),
+                0
+            ),
+        }
     }
 
     // ========================================================================
@@ -1281,14 +1772,16 @@ export class OrdersService {
 
     /**
      * Get orders for Kitchen Display System
+     * With stationId, tickets only carry the items routed to that station
      */
-    async getKitchenOrders(restaurantId: number) {
+    async getKitchenOrders(restaurantId: number, stationId?: number) {
         const orders = await this.prisma.order.findMany({
             where: {
                 restaurantId,
                 status: OrderStatus.IN_PROGRESS,
                 items: {
                     some: {
+                        stationId,
                         status: {
                             in: [
                                 OrderItemStatus.QUEUED,
@@ -1302,6 +1795,7 @@ export class OrdersService {
                 table: true,
                 items: {
                     where: {
+                        stationId,
                         status: {
                             in: [
                                 OrderItemStatus.QUEUED,
@@ -1312,6 +1806,7 @@ export class OrdersService {
                     },
                     include: {
                         modifiers: true,
+                        station: true,
                     },
                     orderBy: { createdAt: 'asc' },
                 },
@@ -1355,13 +1850,43 @@ export class OrdersService {
         }
 
         const previousStatus = orderItem.status
-        const updatedItem = await this.prisma.orderItem.update({
-            where: { id: orderItemId },
-            data: { status: updateDto.status },
-            include: {
-                modifiers: true,
-            },
-        })
+        const { updatedItem, stockChanges } = await this.prisma.$transaction(
+            async (tx) => {
+                const updatedItem = await tx.orderItem.update({
+                    where: { id: orderItemId },
+                    data: {
+                        status: updateDto.status,
+                        ...this.getItemStatusTimestamp(
+                            updateDto.status,
+                            new Date()
+                        ),
+                    },
+                    include: {
+                        modifiers: true,
+                    },
+                })
+
+                // A cancelled dish gives its stock back and leaves the bill
+                const stockChanges =
+                    updateDto.status === OrderItemStatus.CANCELLED
+                        ? await this.inventoryService.releaseForOrder(
+                              orderItem.orderId,
+                              tx,
+                              [orderItemId]
+                          )
+                        : { ingredients: [], menuItems: [] }
+                if (updateDto.status === OrderItemStatus.CANCELLED) {
+                    await this.recalculateTotals(orderItem.orderId, tx)
+                }
+
+                return { updatedItem, stockChanges }
+            }
+        )
+
+        await this.inventoryService.handleStockChanges(
+            orderItem.order.restaurantId,
+            stockChanges
+        )
 
         // Emit item status change
         const event: OrderItemStatusChangedEvent = {
@@ -1371,6 +1896,7 @@ export class OrdersService {
             previousStatus,
             newStatus: updateDto.status,
             updatedAt: new Date().toISOString(),
+            stationId: orderItem.stationId,
         }
         this.socketService.emitOrderItemStatusChanged(
             orderItem.order.restaurantId,
@@ -1414,6 +1940,216 @@ export class OrdersService {
         return updatedItem
     }
 
+    private async getRestaurantTimeZone(restaurantId: number) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+            select: { timezone: true },
+        })
+        return restaurant?.timezone || DEFAULT_TIMEZONE
+    }
+
+    /**
+     * Service charge and VAT rates, copied onto new orders
+     */
+    private async getRestaurantRates(restaurantId: number) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+            select: { serviceChargeRate: true, taxRate: true },
+        })
+        return {
+            serviceChargeRate: Number(restaurant?.serviceChargeRate ?? 0),
+            taxRate: Number(restaurant?.taxRate ?? 0),
+        }
+    }
+
+    /**
+     * Recompute subtotal, discount, charges and total from live items
+     * Every change to items, discount or tip goes through here; a promo code
+     * the order no longer meets the minimum spend for is dropped
+     */
+    private async recalculateTotals(
+        orderId: number,
+        tx: Prisma.TransactionClient
+    ) {
+        const order = await tx.order.findUniqueOrThrow({
+            where: { id: orderId },
+            include: {
+                items: {
+                    where: { status: { not: OrderItemStatus.CANCELLED } },
+                    select: { pricePerUnit: true, quantity: true },
+                },
+                promoCode: true,
+            },
+        })
+        const subtotal = order.items.reduce(
+            (sum, item) => sum + Number(item.pricePerUnit) * item.quantity,
+            0
+        )
+
+        // Orders whose code was deleted keep the discount they got
+        let discountAmount = Number(order.discountAmount)
+        let promoCodeId = order.promoCodeId
+        if (order.promoCode) {
+            if (subtotal < Number(order.promoCode.minSpend)) {
+                await this.promoCodesService.releaseForOrder(
+                    order.promoCode.id,
+                    tx
+                )
+                this.logger.log(
+                    `Order #${orderId} dropped promo code ${order.promoCode.code}: below minimum spend`
+                )
+                discountAmount = 0
+                promoCodeId = null
+            } else {
+                discountAmount = this.promoCodesService.calculateDiscount(
+                    order.promoCode,
+                    subtotal
+                )
+            }
+        }
+
+        return tx.order.update({
+            where: { id: orderId },
+            data: {
+                promoCodeId,
+                ...calculateOrderTotals({
+                    subtotal,
+                    discountAmount,
+                    serviceChargeRate: Number(order.serviceChargeRate),
+                    taxRate: Number(order.taxRate),
+                    tipAmount: Number(order.tipAmount),
+                }),
+            },
+        })
+    }
+
+    /**
+     * Set the tip before an online payment (wallet gateways)
+     */
+    async applyTip(orderId: number, tipAmount: number) {
+        await this.prisma.$transaction((tx) =>
+            this.setTip(orderId, tipAmount, tx)
+        )
+    }
+
+    /**
+     * Set the tip on an open order; it replaces any earlier tip
+     */
+    private async setTip(
+        orderId: number,
+        tipAmount: number,
+        tx: Prisma.TransactionClient
+    ) {
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            select: { status: true },
+        })
+        if (!order) {
+            throw new NotFoundException(`Order with ID ${orderId} not found`)
+        }
+        if (
+            order.status === OrderStatus.COMPLETED ||
+            order.status === OrderStatus.CANCELLED
+        ) {
+            throw new BadRequestException('Cannot add a tip to this order')
+        }
+
+        await tx.order.update({
+            where: { id: orderId },
+            data: { tipAmount },
+        })
+        await this.recalculateTotals(orderId, tx)
+
+        // Balance due is clamped at zero, so compare against what was paid
+        const { totalAmount, paidAmount } = await this.getOrderBalance(
+            orderId,
+            tx
+        )
+        if (totalAmount.lessThan(paidAmount)) {
+            throw new BadRequestException(
+                'Tip cannot bring the total below the amount already paid'
+            )
+        }
+    }
+
+    /**
+     * Modifiers chosen for an order line, with names and prices taken from
+     * the menu rather than from the client
+     * Every option must be available and offered for the dish
+     */
+    private async resolveModifiers(
+        menuItemId: number,
+        modifiers: CreateOrderItemModifierDto[] = []
+    ) {
+        if (modifiers.length === 0) return []
+
+        const options = await this.prisma.modifierOption.findMany({
+            where: {
+                id: { in: modifiers.map((m) => m.modifierOptionId) },
+                isAvailable: true,
+                group: { items: { some: { itemId: menuItemId } } },
+            },
+        })
+
+        return modifiers.map((mod) => {
+            const option = options.find((o) => o.id === mod.modifierOptionId)
+            if (!option) {
+                throw new BadRequestException(
+                    `Modifier option ${mod.modifierOptionId} is not available for this item`
+                )
+            }
+            return {
+                modifierOptionId: option.id,
+                modifierName: option.name,
+                priceAdjustment: Number(option.priceAdjustment),
+            }
+        })
+    }
+
+    /**
+     * Dishes and chosen modifier options of order lines, for stock checks
+     */
+    private toStockLines(items: CreateOrderItemDto[]): StockLine[] {
+        return items.map((item) => ({
+            menuItemId: item.menuItemId,
+            quantity: item.quantity,
+            modifierOptionIds: (item.modifiers ?? []).map(
+                (m) => m.modifierOptionId
+            ),
+        }))
+    }
+
+    /**
+     * KDS station for a new order item: the item's own station wins over
+     * the default station of its category
+     */
+    private resolveItemStationId(menuItem: {
+        stationId: number | null
+        category: { stationId: number | null }
+    }): number | null {
+        return menuItem.stationId ?? menuItem.category.stationId
+    }
+
+    /**
+     * Timestamp field recorded when an item enters a kitchen status
+     * Used for queue/cook/pass time reports
+     */
+    private getItemStatusTimestamp(
+        status: OrderItemStatus,
+        at: Date
+    ): Prisma.OrderItemUpdateInput {
+        switch (status) {
+            case OrderItemStatus.PREPARING:
+                return { startedAt: at }
+            case OrderItemStatus.READY:
+                return { readyAt: at }
+            case OrderItemStatus.SERVED:
+                return { servedAt: at }
+            default:
+                return {}
+        }
+    }
+
     /**
      * Start preparing an item (Kitchen)
      */
@@ -1460,7 +2196,16 @@ export class OrdersService {
             orderId,
             tableId: order.tableId,
             tableName: order.table.name,
+            subtotal: order.subtotal,
+            discountAmount: order.discountAmount,
+            serviceChargeRate: order.serviceChargeRate,
+            serviceCharge: order.serviceCharge,
+            taxRate: order.taxRate,
+            taxAmount: order.taxAmount,
+            tipAmount: order.tipAmount,
             totalAmount: order.totalAmount,
+            paidAmount: order.paidAmount,
+            balanceDue: order.balanceDue,
             items: order.items,
         }
     }
@@ -1469,120 +2214,6 @@ export class OrdersService {
     // HELPER METHODS
     // ========================================================================
 
-    /**
-     * Update inventory (stock quantity) when order is completed
-     * Decreases stockQuantity for each menu item in the order
-     * Auto-updates status to SOLD_OUT if stock reaches 0
-     */
-    private async updateInventoryForCompletedOrder(
-        orderItems: Array<{ menuItemId: number; quantity: number }>,
-        tx?: Prisma.TransactionClient
-    ) {
-        const prismaClient = tx || this.prisma
-
-        for (const item of orderItems) {
-            const menuItem = await prismaClient.menuItem.findUnique({
-                where: { id: item.menuItemId },
-            })
-
-            if (!menuItem) {
-                this.logger.warn(
-                    `Menu item ${item.menuItemId} not found, skipping inventory update`
-                )
-                continue
-            }
-
-            // Only update if stockQuantity is not null (null = unlimited stock)
-            if (menuItem.stockQuantity !== null) {
-                const newStock = menuItem.stockQuantity - item.quantity
-                const updatedStock = Math.max(0, newStock) // Prevent negative stock
-
-                // Check if status needs to change
-                const previousStatus = menuItem.status
-                const newStatus = updatedStock === 0 ? ('SOLD_OUT' as any) : menuItem.status
-                const statusChanged = previousStatus !== newStatus
-
-                // Update stock and status
-                await prismaClient.menuItem.update({
-                    where: { id: item.menuItemId },
-                    data: {
-                        stockQuantity: updatedStock,
-                        // Auto-update status to SOLD_OUT if stock reaches 0
-                        status: newStatus,
-                    },
-                })
-
-                this.logger.log(
-                    `Updated inventory for menu item ${item.menuItemId}: ${menuItem.stockQuantity} -> ${updatedStock}${statusChanged ? ` (status: ${previousStatus} -> ${newStatus})` : ''}`
-                )
-
-                // Emit menu item status change event if status changed
-                if (statusChanged) {
-                    const menuItemStatusEvent: MenuItemStatusChangedEvent = {
-                        menuItemId: item.menuItemId,
-                        restaurantId: menuItem.restaurantId,
-                        previousStatus,
-                        newStatus,
-                        stockQuantity: updatedStock,
-                        updatedAt: new Date().toISOString(),
-                    }
-                    // Emit menu item status change to all customers
-                    this.socketService.emitMenuItemStatusChanged(
-                        menuItem.restaurantId,
-                        menuItemStatusEvent
-                    )
-
-                    // Also emit notification for kitchen/admin
-                    const notification: NotificationEvent = {
-                        id: `menu-item-status-${item.menuItemId}-${Date.now()}`,
-                        type: newStatus === 'SOLD_OUT' ? 'warning' : 'info',
-                        title: 'Menu Item Status Changed',
-                        message: `${menuItem.name} is now ${newStatus === 'SOLD_OUT' ? 'sold out' : 'available'}`,
-                        timestamp: new Date().toISOString(),
-                    }
-                    // Emit to restaurant room (all customers will receive)
-                    this.socketService.emitNotification(
-                        `restaurant:${menuItem.restaurantId}`,
-                        notification
-                    )
-                }
-
-                // Emit notification if stock is low (<= 5)
-                if (updatedStock > 0 && updatedStock <= 5) {
-                    const notification: NotificationEvent = {
-                        id: `low-stock-${item.menuItemId}-${Date.now()}`,
-                        type: 'warning',
-                        title: 'Low Stock Alert',
-                        message: `${menuItem.name} is running low (${updatedStock} remaining)`,
-                        timestamp: new Date().toISOString(),
-                        sound: true,
-                    }
-                    // Emit to kitchen and admin (with retry logic)
-                    await this.socketService.emitKitchenNotification(
-                        menuItem.restaurantId,
-                        notification
-                    )
-                }
-
-                // Emit notification if stock is out
-                if (updatedStock === 0) {
-                    const notification: NotificationEvent = {
-                        id: `out-of-stock-${item.menuItemId}-${Date.now()}`,
-                        type: 'error',
-                        title: 'Out of Stock',
-                        message: `${menuItem.name} is now out of stock`,
-                        timestamp: new Date().toISOString(),
-                        sound: true,
-                    }
-                    await this.socketService.emitKitchenNotification(
-                        menuItem.restaurantId,
-                        notification
-                    )
-                }
-            }
-        }
-    }
-
     /**
      * Check if table has any active orders (not COMPLETED or CANCELLED)
      * Returns true if table should remain OCCUPIED
@@ -1612,14 +2243,16 @@ export class OrdersService {
     /**
      * Helper to update table status and emit socket event after order completion/cancellation
      * Checks if table has other active orders before setting to AVAILABLE
+     * Tables joined to it are released together; a joined table waits for its primary
      */
     private async updateTableStatusIfNeeded(
         orderId: number,
         tableId: number,
         restaurantId: number,
         tx?: Prisma.TransactionClient
-    ): Promise<TableStatusEvent | null> {
+    ): Promise<TableStatusEvent[]> {
         const prismaClient = tx || this.prisma
+        const changes: TableStatusEvent[] = []
 
         // Check if table has other active orders
         const hasOtherActiveOrders = await this.hasActiveOrdersOnTable(
@@ -1633,26 +2266,173 @@ export class OrdersService {
         if (!hasOtherActiveOrders) {
             const currentTable = await prismaClient.table.findUnique({
                 where: { id: tableId },
+                include: { joinedTables: true },
             })
+            // A joined table stays with its party while the primary is in use
+            if (
+                currentTable?.joinedToId &&
+                (await this.hasActiveOrdersOnTable(
+                    currentTable.joinedToId,
+                    restaurantId,
+                    orderId,
+                    tx
+                ))
+            ) {
+                return changes
+            }
             const previousTableStatus = currentTable?.status || TableStatus.OCCUPIED
 
             await prismaClient.table.update({
                 where: { id: tableId },
-                data: { status: TableStatus.AVAILABLE },
+                data: { status: TableStatus.AVAILABLE, joinedToId: null },
             })
 
             // Return table status change info for emission after transaction
             if (previousTableStatus !== TableStatus.AVAILABLE) {
-                return {
+                changes.push({
                     tableId,
                     previousStatus: previousTableStatus,
                     newStatus: TableStatus.AVAILABLE,
                     orderId,
+                })
+            }
+
+            for (const joined of currentTable?.joinedTables ?? []) {
+                if (
+                    await this.hasActiveOrdersOnTable(
+                        joined.id,
+                        restaurantId,
+                        orderId,
+                        tx
+                    )
+                ) {
+                    continue
                 }
+                await prismaClient.table.update({
+                    where: { id: joined.id },
+                    data: { status: TableStatus.AVAILABLE, joinedToId: null },
+                })
+                if (joined.status !== TableStatus.AVAILABLE) {
+                    changes.push({
+                        tableId: joined.id,
+                        previousStatus: joined.status,
+                        newStatus: TableStatus.AVAILABLE,
+                        orderId,
+                    })
+                }
+            }
+        }
+
+        return changes
+    }
+
+    /**
+     * Helper to complete an order once its successful payments cover the total
+     * Inventory and table status are only updated on the final payment
+     */
+    private async settleOrderIfPaid(
+        order: { id: number; tableId: number; restaurantId: number },
+        tx: Prisma.TransactionClient
+    ): Promise<{
+        completed: boolean
+        balanceDue: Prisma.Decimal
+        tableStatusChanges: TableStatusEvent[]
+        stockChanges: StockChanges
+    }> {
+        const { balanceDue } = await this.getOrderBalance(order.id, tx)
+
+        if (balanceDue.greaterThan(0)) {
+            return {
+                completed: false,
+                balanceDue,
+                tableStatusChanges: [],
+                stockChanges: { ingredients: [], menuItems: [] },
             }
         }
 
-        return null
+        await tx.order.update({
+            where: { id: order.id },
+            data: { status: OrderStatus.COMPLETED },
+        })
+
+        // Stock was held when the order was accepted; only items that never
+        // went through acceptance are taken now
+        const stockChanges = await this.inventoryService.reserveForOrder(
+            order.id,
+            tx,
+            { strict: false }
+        )
+
+        // Update table status if needed
+        const tableStatusChanges = await this.updateTableStatusIfNeeded(
+            order.id,
+            order.tableId,
+            order.restaurantId,
+            tx
+        )
+
+        return { completed: true, balanceDue, tableStatusChanges, stockChanges }
+    }
+
+    /**
+     * Helper to emit socket events after a payment transaction commits
+     */
+    private async emitPaymentSettled(
+        order: {
+            id: number
+            tableId: number
+            restaurantId: number
+            status: OrderStatus
+        },
+        settlement: {
+            completed: boolean
+            tableStatusChanges: TableStatusEvent[]
+            stockChanges: StockChanges
+        }
+    ) {
+        for (const tableStatusChanged of settlement.tableStatusChanges) {
+            this.socketService.emitTableStatusChanged(
+                order.restaurantId,
+                tableStatusChanged
+            )
+        }
+
+        if (settlement.completed) {
+            // Emit order completed event (with retry logic)
+            const statusEvent: OrderStatusChangedEvent = {
+                orderId: order.id,
+                previousStatus: order.status,
+                newStatus: OrderStatus.COMPLETED,
+                updatedAt: new Date().toISOString(),
+            }
+            await this.socketService.emitOrderStatusChanged(
+                order.restaurantId,
+                order.tableId,
+                statusEvent
+            )
+
+            // Sold-out dishes and low-stock alerts from any stock taken now
+            await this.inventoryService.handleStockChanges(
+                order.restaurantId,
+                settlement.stockChanges
+            )
+
+            // Logged-in customers get their receipt by email; sent in the
+            // background so a slow mail server does not hold up the payment
+            void this.receiptsService.sendToCustomer(order.id)
+        } else {
+            // Partial payment - let staff and the table see the new balance
+            const updatedOrder = await this.findOne(order.id)
+            const updatedEvent: OrderUpdatedEvent = {
+                order: this.mapToOrderSummary(updatedOrder),
+                updatedFields: ['payments'],
+            }
+            this.socketService.emitOrderUpdated(
+                order.restaurantId,
+                order.tableId,
+                updatedEvent
+            )
+        }
     }
 
     private mapToOrderSummary(order: any): OrderSummary {
@@ -1661,10 +2441,25 @@ export class OrdersService {
             tableId: order.tableId,
             tableName: order.table?.name || '',
             status: order.status,
+            subtotal: Number(order.subtotal ?? 0),
+            discountAmount: Number(order.discountAmount ?? 0),
+            serviceChargeRate: Number(order.serviceChargeRate ?? 0),
+            serviceCharge: Number(order.serviceCharge ?? 0),
+            taxRate: Number(order.taxRate ?? 0),
+            taxAmount: Number(order.taxAmount ?? 0),
+            tipAmount: Number(order.tipAmount ?? 0),
             totalAmount: Number(order.totalAmount),
             guestCount: order.guestCount,
             note: order.note,
             waiterName: order.waiter?.fullName,
+            paidAmount:
+                order.paidAmount !== undefined
+                    ? Number(order.paidAmount)
+                    : undefined,
+            balanceDue:
+                order.balanceDue !== undefined
+                    ? Number(order.balanceDue)
+                    : undefined,
             createdAt: order.createdAt.toISOString(),
             updatedAt: order.updatedAt.toISOString(),
             items: order.items.map(
@@ -1706,12 +2501,6 @@ export class OrdersService {
             elapsedMinutes,
             isOverdue: elapsedMinutes > 30, // Orders older than 30 min are overdue
             items: order.items.map((item: any): KitchenItemView => {
-                const itemUpdatedAt =
-                    item.updatedAt instanceof Date
-                        ? item.updatedAt
-                        : item.updatedAt
-                          ? new Date(item.updatedAt)
-                          : null
                 return {
                     id: item.id,
                     name: item.name,
@@ -1721,12 +2510,12 @@ export class OrdersService {
                     modifiers:
                         item.modifiers?.map((m: any) => m.modifierName) || [],
                     prepTimeMinutes: 15, // Default prep time
-                    startedAt:
-                        item.status === OrderItemStatus.PREPARING &&
-                        itemUpdatedAt
-                            ? itemUpdatedAt.toISOString()
-                            : undefined,
+                    startedAt: item.startedAt
+                        ? new Date(item.startedAt).toISOString()
+                        : undefined,
                     isOverdue: false,
+                    stationId: item.stationId ?? null,
+                    stationName: item.station?.name,
                 }
             }),
         }
@@ -1738,11 +2527,14 @@ export class OrdersService {
 
     /**
      * Create Stripe checkout session for an order
+     * Charges the outstanding balance, or a partial amount for split bills
      */
     async createCheckoutSession(
         orderId: number,
         successUrl: string,
-        cancelUrl: string
+        cancelUrl: string,
+        amount?: number,
+        tipAmount?: number
     ) {
         // Re-check Stripe configuration at runtime
         if (!this.stripe) {
@@ -1774,11 +2566,19 @@ export class OrdersService {
             }
         }
 
+        // The tip is part of the total the session charges
+        if (tipAmount !== undefined) {
+            await this.applyTip(orderId, tipAmount)
+        }
+
         const order = await this.prisma.order.findUnique({
             where: { id: orderId },
             include: {
-                items: true,
-                payment: true,
+                items: {
+                    where: { status: { not: OrderItemStatus.CANCELLED } },
+                },
+                payments: true,
+                promoCode: { select: { code: true } },
             },
         })
 
@@ -1786,58 +2586,85 @@ export class OrdersService {
             throw new NotFoundException(`Order with ID ${orderId} not found`)
         }
 
-        if (order.payment?.status === 'SUCCESS') {
+        const { paidAmount, balanceDue } = await this.getOrderBalance(orderId)
+
+        if (balanceDue.lessThanOrEqualTo(0)) {
             throw new BadRequestException('Order has already been paid')
         }
 
-        // Check if there's a pending payment
-        if (order.payment?.status === 'PENDING' && order.payment.method === 'CARD') {
-            // If there's already a pending card payment, we could return existing session
-            // For now, we'll create a new one (Stripe will handle duplicates)
-            this.logger.warn(`Order ${orderId} already has a pending card payment`)
+        // Split bill: charge only part of the outstanding balance if requested
+        const paymentAmount =
+            amount !== undefined ? new Prisma.Decimal(amount) : balanceDue
+
+        if (paymentAmount.lessThanOrEqualTo(0)) {
+            throw new BadRequestException('Payment amount must be greater than 0')
         }
 
-        // Create or update payment record with PENDING status
-        let payment = order.payment
-        if (!payment) {
-            payment = await this.prisma.payment.create({
-                data: {
-                    orderId: order.id,
-                    amount: order.totalAmount,
-                    method: 'CARD',
-                    status: 'PENDING',
-                },
-            })
-        } else if (payment.status !== 'PENDING' || payment.method !== 'CARD') {
-            // Update existing payment to CARD and PENDING
-            payment = await this.prisma.payment.update({
-                where: { id: payment.id },
-                data: {
-                    method: 'CARD',
-                    status: 'PENDING',
-                },
+        if (paymentAmount.greaterThan(balanceDue)) {
+            throw new BadRequestException(
+                `Payment amount exceeds outstanding balance of ${balanceDue.toString()}`
+            )
+        }
+
+        // One payment per checkout session, so guests splitting the bill
+        // each settle their own share; abandoned ones expire in reconciliation
+        const payment = await this.prisma.payment.create({
+            data: {
+                orderId: order.id,
+                amount: paymentAmount,
+                method: PaymentMethod.CARD,
+                provider: PaymentProvider.STRIPE,
+                status: PaymentStatus.PENDING,
+            },
+        })
+
+        // Itemize only when a single payment settles the whole order,
+        // partial payments are charged as one line for the requested amount
+        const isFullPayment =
+            paidAmount.isZero() && paymentAmount.equals(order.totalAmount)
+
+        // Items are listed at their own prices, so the promo discount goes
+        // on as a one-off coupon to show it on the Stripe page
+        let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined
+        if (isFullPayment && order.discountAmount.greaterThan(0)) {
+            const coupon = await this.stripe.coupons.create({
+                amount_off: Math.round(Number(order.discountAmount)),
+                currency: 'vnd',
+                duration: 'once',
+                max_redemptions: 1,
+                name: order.promoCode
+                    ? `Promo ${order.promoCode.code}`
+                    : 'Discount',
             })
+            discounts = [{ coupon: coupon.id }]
         }
 
         // Create Stripe checkout session
         // Note: VND has no decimal places (smallest unit), so we don't multiply by 100
         const session = await this.stripe.checkout.sessions.create({
             payment_method_types: ['card'],
-            line_items: order.items.map((item: any) => ({
-                price_data: {
-                    currency: 'vnd',
-                    product_data: {
-                        name: item.name,
-                    },
-                    unit_amount: Math.round(Number(item.pricePerUnit)), // VND has no cents, use amount as-is
-                },
-                quantity: item.quantity,
-            })),
+            line_items: isFullPayment
+                ? this.toCheckoutLineItems(order)
+                : [
+                      {
+                          price_data: {
+                              currency: 'vnd',
+                              product_data: {
+                                  name: `Order #${orderId} - partial payment`,
+                              },
+                              unit_amount: Math.round(Number(paymentAmount)),
+                          },
+                          quantity: 1,
+                      },
+                  ],
+            discounts,
             mode: 'payment',
             success_url: successUrl,
             cancel_url: cancelUrl,
             metadata: {
                 orderId: orderId.toString(),
+                paymentId: payment.id.toString(),
+                ...(order.promoCode && { promoCode: order.promoCode.code }),
             },
         })
 
@@ -1857,6 +2684,54 @@ export class OrdersService {
         }
     }
 
+    /**
+     * Stripe lines for a whole order: items, then service charge, VAT and tip
+     * VAT takes the rounding difference so the session adds up to the total
+     */
+    private toCheckoutLineItems(
+        order: Prisma.OrderGetPayload<{ include: { items: true } }>
+    ): Stripe.Checkout.SessionCreateParams.LineItem[] {
+        const line = (name: string, amount: number, quantity = 1) => ({
+            price_data: {
+                currency: 'vnd',
+                product_data: { name },
+                unit_amount: amount, // VND has no cents, use amount as-is
+            },
+            quantity,
+        })
+
+        const lines = order.items.map((item) =>
+            line(item.name, Math.round(Number(item.pricePerUnit)), item.quantity)
+        )
+        const serviceCharge = Math.round(Number(order.serviceCharge))
+        const tip = Math.round(Number(order.tipAmount))
+        const charged =
+            lines.reduce(
+                (sum, l) => sum + l.price_data.unit_amount * l.quantity,
+                0
+            ) +
+            serviceCharge +
+            tip -
+            Math.round(Number(order.discountAmount))
+        const tax = Math.round(Number(order.totalAmount)) - charged
+
+        if (serviceCharge > 0) {
+            lines.push(
+                line(
+                    `Service charge (${Number(order.serviceChargeRate)}%)`,
+                    serviceCharge
+                )
+            )
+        }
+        if (tax > 0) {
+            lines.push(line(`VAT (${Number(order.taxRate)}%)`, tax))
+        }
+        if (tip > 0) {
+            lines.push(line('Tip', tip))
+        }
+        return lines
+    }
+
     /**
      * Handle Stripe webhook events
      */
@@ -1919,120 +2794,105 @@ export class OrdersService {
                 return { received: true }
             }
 
-            // Get order with relations
-            const order = await this.prisma.order.findUnique({
-                where: { id: orderId },
-                include: {
-                    table: true,
-                    payment: true,
-                },
+            // Find the payment this session was created for
+            const paymentId = parseInt(session.metadata?.paymentId || '0', 10)
+            let payment = await this.prisma.payment.findFirst({
+                where: paymentId
+                    ? {
+                          id: paymentId,
+                          orderId,
+                          OR: [
+                              { externalTransactionId: session.id },
+                              { externalTransactionId: null },
+                          ],
+                      }
+                    : { orderId, externalTransactionId: session.id },
             })
 
-            if (!order) {
-                this.logger.error(`Order ${orderId} not found for webhook`)
-                return { received: true }
-            }
-
-            // Check if payment already processed (idempotency)
-            if (order.payment?.status === 'SUCCESS') {
-                this.logger.log(`Payment for order ${orderId} already processed`)
-                return { received: true }
-            }
+            if (!payment) {
+                // Sessions created before split bills carry no paymentId
+                const order = await this.prisma.order.findUnique({
+                    where: { id: orderId },
+                })
 
-            // Get order items for inventory update
-            const orderWithItems = await this.prisma.order.findUnique({
-                where: { id: orderId },
-                include: { items: true },
-            })
+                if (!order) {
+                    this.logger.error(`Order ${orderId} not found for webhook`)
+                    return { received: true }
+                }
 
-            // Use transaction to ensure atomicity
-            const tableStatusEvent = await this.prisma.$transaction(async (tx) => {
-                // Update payment status
-                await tx.payment.upsert({
-                    where: { orderId },
-                    create: {
+                payment = await this.prisma.payment.create({
+                    data: {
                         orderId,
-                        amount: order.totalAmount,
-                        method: 'CARD',
-                        status: 'SUCCESS',
-                        externalTransactionId: session.id,
-                    },
-                    update: {
-                        status: 'SUCCESS',
+                        amount:
+                            session.amount_total !== null
+                                ? new Prisma.Decimal(session.amount_total)
+                                : order.totalAmount,
+                        method: PaymentMethod.CARD,
+                        provider: PaymentProvider.STRIPE,
+                        status: PaymentStatus.PENDING,
                         externalTransactionId: session.id,
                     },
                 })
-
-                // Update order status to COMPLETED
-                await tx.order.update({
-                    where: { id: orderId },
-                    data: {
-                        status: OrderStatus.COMPLETED,
-                    },
-                })
-
-                // Update inventory (decrease stock quantity)
-                if (orderWithItems) {
-                    await this.updateInventoryForCompletedOrder(
-                        orderWithItems.items.map((item) => ({
-                            menuItemId: item.menuItemId,
-                            quantity: item.quantity,
-                        })),
-                        tx
-                    )
-                }
-
-                // Update table status if needed (within transaction)
-                return await this.updateTableStatusIfNeeded(
-                    orderId,
-                    order.tableId,
-                    order.restaurantId,
-                    tx
-                )
-            })
-
-            // Emit table status change after transaction commits
-            if (tableStatusEvent) {
-                this.socketService.emitTableStatusChanged(
-                    order.restaurantId,
-                    tableStatusEvent
-                )
             }
 
-            // Emit socket events for real-time updates (with retry logic)
-            const statusEvent: OrderStatusChangedEvent = {
-                orderId,
-                previousStatus: order.status,
-                newStatus: OrderStatus.COMPLETED,
-                updatedAt: new Date().toISOString(),
+            // A capture for another amount is left for an admin to sort out
+            if (
+                session.amount_total !== null &&
+                session.amount_total !== Math.round(Number(payment.amount))
+            ) {
+                await this.flagGatewayAmount(payment, session)
+                return { received: true }
             }
 
-            await this.socketService.emitOrderStatusChanged(
-                order.restaurantId,
-                order.tableId,
-                statusEvent
+            // confirmPayment is idempotent for already processed payments
+            const { completed } = await this.confirmPayment(
+                payment.id,
+                session.id
             )
 
-            // Emit notification to waiters (with retry logic)
-            const notification: NotificationEvent = {
-                id: `payment-${orderId}-${Date.now()}`,
-                type: 'success',
-                title: 'Payment Completed',
-                message: `Order #${orderId} (${order.table.name}) has been paid successfully via card`,
-                orderId,
-                tableId: order.tableId,
-                timestamp: new Date().toISOString(),
-                sound: true,
-            }
-
-            await this.socketService.emitWaiterNotification(
-                order.restaurantId,
-                notification
+            this.logger.log(
+                completed
+                    ? `Payment successful for order ${orderId} - Order completed`
+                    : `Partial payment successful for order ${orderId}`
             )
-
-            this.logger.log(`Payment successful for order ${orderId} - Order completed and table ${order.table.name} is now available`)
         }
 
         return { received: true }
     }
+
+    /**
+     * Record a Stripe capture that does not match its payment's amount
+     * Stripe retries webhooks, so an existing record is kept
+     */
+    private async flagGatewayAmount(
+        payment: Payment,
+        session: Stripe.Checkout.Session
+    ) {
+        const existing = await this.prisma.paymentDiscrepancy.findFirst({
+            where: {
+                paymentId: payment.id,
+                type: PaymentDiscrepancyType.GATEWAY_AMOUNT,
+            },
+        })
+        if (existing) return
+
+        const order = await this.prisma.order.findUniqueOrThrow({
+            where: { id: payment.orderId },
+            select: { restaurantId: true },
+        })
+        await this.prisma.paymentDiscrepancy.create({
+            data: {
+                restaurantId: order.restaurantId,
+                orderId: payment.orderId,
+                paymentId: payment.id,
+                type: PaymentDiscrepancyType.GATEWAY_AMOUNT,
+                expectedAmount: payment.amount,
+                actualAmount: session.amount_total ?? 0,
+                note: `Stripe checkout session ${session.id}`,
+            },
+        })
+        this.logger.warn(
+            `Payment ${payment.id} of order ${payment.orderId}: Stripe captured ${session.amount_total}, expected ${Number(payment.amount)}`
+        )
+    }
 }
@@ -1,6 +1,13 @@
-import { IsInt, IsEnum, IsNotEmpty } from 'class-validator'
+import {
+    IsInt,
+    IsEnum,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    Min,
+} from 'class-validator'
 import { ApiProperty } from '@nestjs/swagger'
-import { PaymentMethod } from '@aerodine/shared-types'
+import { PaymentMethod, PaymentProvider } from '@aerodine/shared-types'
 
 export class CreatePaymentDto {
     @ApiProperty({
@@ -14,10 +21,42 @@ export class CreatePaymentDto {
     @ApiProperty({
         example: 'QR_CODE',
         enum: PaymentMethod,
-        description: 'Payment method (QR_CODE or E_WALLET for MoMo)',
+        description: 'Payment method (CARD, QR_CODE or E_WALLET)',
     })
     @IsEnum(PaymentMethod)
     @IsNotEmpty()
     method: PaymentMethod
-}
 
+    @ApiProperty({
+        example: 150000,
+        required: false,
+        description:
+            'Amount to charge (split bill). Defaults to the outstanding balance',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    amount?: number
+
+    @ApiProperty({
+        example: 'MOMO',
+        enum: PaymentProvider,
+        required: false,
+        description:
+            'Gateway to pay with. Defaults to Stripe for CARD, VNPay for QR_CODE and MoMo for E_WALLET',
+    })
+    @IsOptional()
+    @IsEnum(PaymentProvider)
+    provider?: PaymentProvider
+
+    @ApiProperty({
+        example: 20000,
+        required: false,
+        description:
+            "Tip added to the order total before paying; replaces the order's tip",
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    tipAmount?: number
+}
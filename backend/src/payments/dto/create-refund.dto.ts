@@ -0,0 +1,70 @@
+import {
+    ArrayMinSize,
+    IsArray,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RefundItemDto {
+    @ApiProperty({ example: 12, description: 'Order item ID' })
+    @IsInt()
+    orderItemId: number
+
+    @ApiProperty({ example: 1, description: 'Quantity to refund' })
+    @IsInt()
+    @Min(1)
+    quantity: number
+}
+
+/**
+ * Refund request: whole payment by default, or a fixed amount, or items
+ * (each at its share of the order total, including discount, service
+ * charge and VAT)
+ */
+export class CreateRefundDto {
+    @ApiProperty({ example: 1, description: 'Order ID' })
+    @IsInt()
+    orderId: number
+
+    @ApiProperty({
+        example: 3,
+        required: false,
+        description:
+            'Payment to refund. Required when the order was paid in several payments',
+    })
+    @IsOptional()
+    @IsInt()
+    paymentId?: number
+
+    @ApiProperty({
+        example: 50000,
+        required: false,
+        description: 'Partial amount; omit with items for a full refund',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    amount?: number
+
+    @ApiProperty({ type: [RefundItemDto], required: false })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => RefundItemDto)
+    items?: RefundItemDto[]
+
+    @ApiProperty({ example: 'Dish sent back cold' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsInt, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { RefundStatus } from '@prisma/client'
+
+export class RefundQueryDto {
+    @ApiProperty({ example: 1, required: false })
+    @IsOptional()
+    @IsInt()
+    restaurantId?: number
+
+    @ApiProperty({ enum: RefundStatus, required: false })
+    @IsOptional()
+    @IsEnum(RefundStatus)
+    status?: RefundStatus
+}
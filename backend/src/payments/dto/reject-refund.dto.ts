@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RejectRefundDto {
+    @ApiProperty({ example: 'Dish was eaten', required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    note?: string
+}
@@ -4,6 +4,8 @@ import {
     Body,
     Get,
     Param,
+    Query,
+    Res,
     HttpCode,
     HttpStatus,
     Logger,
@@ -11,8 +13,10 @@ import {
     RawBodyRequest,
     Inject,
     forwardRef,
+    BadRequestException,
 } from '@nestjs/common'
-import { Request } from 'express'
+import { ConfigService } from '@nestjs/config'
+import { Request, Response } from 'express'
 import { PaymentsService } from './payments.service'
 import { CreatePaymentDto } from './dto/create-payment.dto'
 import {
@@ -23,7 +27,7 @@ import {
     ApiBody,
     ApiHeader,
 } from '@nestjs/swagger'
-import { PaymentMethod } from '@aerodine/shared-types'
+import { PaymentProvider } from '@aerodine/shared-types'
 import { OrdersService } from '../orders/orders.service'
 
 @ApiTags('payments')
@@ -34,14 +38,15 @@ export class PaymentsController {
     constructor(
         private readonly paymentsService: PaymentsService,
         @Inject(forwardRef(() => OrdersService))
-        private readonly ordersService: OrdersService
+        private readonly ordersService: OrdersService,
+        private readonly configService: ConfigService
     ) {}
 
     @Post('create')
     @ApiOperation({
         summary: 'Create payment transaction',
         description:
-            'Creates a payment transaction for an order and returns the payment URL. Supports Stripe (CARD/QR_CODE/E_WALLET).',
+            'Creates a payment transaction for an order and returns the payment URL. Supports Stripe, MoMo, VNPay and ZaloPay; the provider defaults by method (CARD: Stripe, QR_CODE: VNPay, E_WALLET: MoMo).',
     })
     @ApiResponse({
         status: 201,
@@ -65,7 +70,10 @@ export class PaymentsController {
     async createPayment(@Body() createPaymentDto: CreatePaymentDto) {
         return this.paymentsService.createPayment(
             createPaymentDto.orderId,
-            createPaymentDto.method
+            createPaymentDto.method,
+            createPaymentDto.amount,
+            createPaymentDto.provider,
+            createPaymentDto.tipAmount
         )
     }
 
@@ -144,9 +152,9 @@ export class PaymentsController {
     @Post('callback/momo')
     @HttpCode(HttpStatus.NO_CONTENT)
     @ApiOperation({
-        summary: 'MoMo IPN callback (Public - FROZEN)',
+        summary: 'MoMo IPN callback (Public)',
         description:
-            'Instant Payment Notification endpoint for MoMo. Currently frozen. This is called by MoMo server after payment. No authentication required.',
+            'Instant Payment Notification endpoint for MoMo. This is called by MoMo server after payment. No authentication required; the payload signature is verified.',
     })
     @ApiBody({
         description: 'MoMo IPN payload',
@@ -175,20 +183,120 @@ export class PaymentsController {
     })
     @ApiResponse({
         status: 400,
-        description: 'Invalid IPN payload',
+        description: 'Invalid IPN payload or signature',
     })
     async handleMomoCallback(@Body() payload: any) {
-        // MoMo temporarily disabled
-        this.logger.warn(
-            `MoMo IPN callback received but MoMo is disabled: ${JSON.stringify(payload)}`
+        const result = await this.paymentsService.handleIPN(
+            PaymentProvider.MOMO,
+            payload
+        )
+
+        // Anything but 204 makes MoMo retry the notification
+        if (!result.success) {
+            throw new BadRequestException(
+                result.verified ? 'IPN not processed' : 'Invalid signature'
+            )
+        }
+    }
+
+    @Get('callback/vnpay')
+    @ApiOperation({
+        summary: 'VNPay IPN callback (Public)',
+        description:
+            'Instant Payment Notification endpoint for VNPay, sent as query parameters. No authentication required; vnp_SecureHash is verified. VNPay retries until RspCode 00.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'VNPay acknowledgement',
+        schema: { example: { RspCode: '00', Message: 'Confirm Success' } },
+    })
+    async handleVnpayCallback(@Query() query: Record<string, string>) {
+        const result = await this.paymentsService.handleIPN(
+            PaymentProvider.VNPAY,
+            query
+        )
+
+        if (!result.verified) {
+            return { RspCode: '97', Message: 'Invalid signature' }
+        }
+        if (!result.success) {
+            return { RspCode: '99', Message: 'Unknown error' }
+        }
+        return { RspCode: '00', Message: 'Confirm Success' }
+    }
+
+    @Post('callback/zalopay')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'ZaloPay callback (Public)',
+        description:
+            'Callback from ZaloPay after a successful payment. No authentication required; the mac is verified with key2. ZaloPay retries when return_code is not 1.',
+    })
+    @ApiBody({
+        description: 'ZaloPay callback payload',
+        schema: {
+            type: 'object',
+            properties: {
+                data: { type: 'string' },
+                mac: { type: 'string' },
+                type: { type: 'number' },
+            },
+        },
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'ZaloPay acknowledgement',
+        schema: { example: { return_code: 1, return_message: 'success' } },
+    })
+    async handleZaloPayCallback(@Body() payload: any) {
+        const result = await this.paymentsService.handleIPN(
+            PaymentProvider.ZALOPAY,
+            payload
+        )
+
+        if (!result.verified) {
+            return { return_code: -1, return_message: 'mac not equal' }
+        }
+        if (!result.success) {
+            return { return_code: 0, return_message: 'not processed' }
+        }
+        return { return_code: 1, return_message: 'success' }
+    }
+
+    @Get('return/:provider')
+    @ApiOperation({
+        summary: 'Wallet gateway return (Public)',
+        description:
+            'Where MoMo, VNPay and ZaloPay send the customer after paying. Redirects to the frontend success or cancel page; the payment itself is confirmed by the IPN.',
+    })
+    @ApiParam({ name: 'provider', enum: ['momo', 'vnpay', 'zalopay'] })
+    @ApiResponse({
+        status: 302,
+        description: 'Redirects to the frontend payment result page',
+    })
+    handleGatewayReturn(
+        @Param('provider') provider: string,
+        @Query() query: Record<string, string>,
+        @Res() res: Response
+    ) {
+        const frontendUrl =
+            this.configService.get<string>('frontend.url') ||
+            'http://localhost:5173'
+
+        return res.redirect(
+            this.paymentsService.resolveReturnUrl(
+                provider.toUpperCase() as PaymentProvider,
+                query,
+                frontendUrl
+            )
         )
-        return null
     }
 
     @Get('order/:orderId')
     @ApiOperation({
         summary: 'Get payment by order ID',
-        description: 'Retrieves payment information for a specific order',
+        description:
+            'Retrieves the latest payment for a specific order (orders can have several payments when the bill is split)',
     })
     @ApiParam({ name: 'orderId', type: Number, description: 'Order ID' })
     @ApiResponse({
@@ -203,4 +311,3 @@ export class PaymentsController {
         return this.paymentsService.getPaymentByOrderId(Number(orderId))
     }
 }
-
@@ -2,13 +2,27 @@ import { Module, forwardRef } from '@nestjs/common'
 import { ConfigModule } from '@nestjs/config'
 import { PaymentsService } from './payments.service'
 import { PaymentsController } from './payments.controller'
+import { RefundsService } from './refunds.service'
+import { RefundsController } from './refunds.controller'
+import { ReconciliationService } from './reconciliation.service'
 import { StripeStrategy } from './strategies/stripe.strategy'
+import { MomoStrategy } from './strategies/momo.strategy'
+import { VnpayStrategy } from './strategies/vnpay.strategy'
+import { ZaloPayStrategy } from './strategies/zalopay.strategy'
 import { OrdersModule } from '../orders/orders.module'
 
 @Module({
     imports: [ConfigModule, forwardRef(() => OrdersModule)],
-    controllers: [PaymentsController],
-    providers: [PaymentsService, StripeStrategy],
+    controllers: [PaymentsController, RefundsController],
+    providers: [
+        PaymentsService,
+        RefundsService,
+        ReconciliationService,
+        StripeStrategy,
+        MomoStrategy,
+        VnpayStrategy,
+        ZaloPayStrategy,
+    ],
     exports: [PaymentsService],
 })
 export class PaymentsModule {}
@@ -3,21 +3,42 @@ import {
     NotFoundException,
     BadRequestException,
     Logger,
+    Inject,
+    forwardRef,
 } from '@nestjs/common'
 import { PrismaService } from '../database/prisma.service'
-import { IPaymentStrategy } from './strategies/payment.strategy.interface'
+import {
+    IPaymentStrategy,
+    IRedirectPaymentStrategy,
+} from './strategies/payment.strategy.interface'
 import { StripeStrategy } from './strategies/stripe.strategy'
+import { MomoStrategy } from './strategies/momo.strategy'
+import { VnpayStrategy } from './strategies/vnpay.strategy'
+import { ZaloPayStrategy } from './strategies/zalopay.strategy'
+import { OrdersService } from '../orders/orders.service'
 import {
     PaymentMethod,
+    PaymentProvider,
     PaymentStatus,
-    OrderStatus,
 } from '@aerodine/shared-types'
 import {
+    PaymentDiscrepancyType,
     PaymentMethod as PrismaPaymentMethod,
+    PaymentProvider as PrismaPaymentProvider,
     PaymentStatus as PrismaPaymentStatus,
-    OrderStatus as PrismaOrderStatus,
+    Prisma,
+    Payment,
 } from '@prisma/client'
 
+/**
+ * Gateway used when the client does not pick one for the method
+ */
+const DEFAULT_PROVIDERS: Partial<Record<PaymentMethod, PaymentProvider>> = {
+    [PaymentMethod.CARD]: PaymentProvider.STRIPE,
+    [PaymentMethod.QR_CODE]: PaymentProvider.VNPAY,
+    [PaymentMethod.E_WALLET]: PaymentProvider.MOMO,
+}
+
 /**
  * Payment Service (Context in Strategy Pattern)
  * Manages different payment gateway strategies
@@ -25,32 +46,69 @@ import {
 @Injectable()
 export class PaymentsService {
     private readonly logger = new Logger(PaymentsService.name)
-    private readonly strategies: Map<PaymentMethod, IPaymentStrategy>
+    private readonly strategies: Map<PaymentProvider, IPaymentStrategy>
+    private readonly redirectStrategies: Map<
+        PaymentProvider,
+        IRedirectPaymentStrategy
+    >
 
     constructor(
         private readonly prisma: PrismaService,
-        private readonly stripeStrategy: StripeStrategy
+        private readonly stripeStrategy: StripeStrategy,
+        private readonly momoStrategy: MomoStrategy,
+        private readonly vnpayStrategy: VnpayStrategy,
+        private readonly zaloPayStrategy: ZaloPayStrategy,
+        @Inject(forwardRef(() => OrdersService))
+        private readonly ordersService: OrdersService
     ) {
-        // Initialize strategies map
-        this.strategies = new Map()
+        // Local wallets send the customer back through /payments/return
+        this.redirectStrategies = new Map<
+            PaymentProvider,
+            IRedirectPaymentStrategy
+        >([
+            [PaymentProvider.MOMO, this.momoStrategy],
+            [PaymentProvider.VNPAY, this.vnpayStrategy],
+            [PaymentProvider.ZALOPAY, this.zaloPayStrategy],
+        ])
 
-        // Map CARD to Stripe
-        this.strategies.set(PaymentMethod.CARD, this.stripeStrategy)
-
-        // Temporarily map QR_CODE and E_WALLET to Stripe for testing
-        this.strategies.set(PaymentMethod.QR_CODE, this.stripeStrategy)
-        this.strategies.set(PaymentMethod.E_WALLET, this.stripeStrategy)
+        // Initialize strategies map
+        this.strategies = new Map<PaymentProvider, IPaymentStrategy>([
+            [PaymentProvider.STRIPE, this.stripeStrategy],
+            ...this.redirectStrategies,
+        ])
     }
 
     /**
      * Create payment and return payment URL
+     * amount defaults to the outstanding balance (split bill); the provider
+     * defaults to Stripe for cards, VNPay for QR codes and MoMo for e-wallets
      */
-    async createPayment(orderId: number, method: PaymentMethod) {
+    async createPayment(
+        orderId: number,
+        method: PaymentMethod,
+        amount?: number,
+        provider?: PaymentProvider,
+        tipAmount?: number
+    ) {
+        // Get strategy for payment method
+        const gateway = provider ?? DEFAULT_PROVIDERS[method]
+        const strategy = gateway && this.strategies.get(gateway)
+        if (!gateway || !strategy || method === PaymentMethod.CASH) {
+            throw new BadRequestException(
+                `Payment method ${method} is not supported`
+            )
+        }
+
+        // The tip is part of the total the gateway charges
+        if (tipAmount !== undefined) {
+            await this.ordersService.applyTip(orderId, tipAmount)
+        }
+
         // Verify order exists
         const order = await this.prisma.order.findUnique({
             where: { id: orderId },
             include: {
-                payment: true,
+                payments: true,
             },
         })
 
@@ -58,50 +116,36 @@ export class PaymentsService {
             throw new NotFoundException(`Order with ID ${orderId} not found`)
         }
 
-        // Check if payment already exists
-        if (order.payment) {
-            if (order.payment.status === PaymentStatus.SUCCESS) {
-                throw new BadRequestException(
-                    'Order has already been paid successfully'
-                )
-            }
-            if (order.payment.status === PaymentStatus.PENDING) {
-                throw new BadRequestException(
-                    'Payment is already pending for this order'
-                )
-            }
-        }
+        // Check outstanding balance across all payments of the order
+        const { balanceDue } = await this.ordersService.getOrderBalance(orderId)
 
-        // Get strategy for payment method
-        const strategy = this.strategies.get(method)
-        if (!strategy) {
+        if (balanceDue.lessThanOrEqualTo(0)) {
             throw new BadRequestException(
-                `Payment method ${method} is not supported`
+                'Order has already been paid successfully'
             )
         }
 
-        // Create payment record (if not exists)
-        let payment = order.payment
-        if (!payment) {
-            payment = await this.prisma.payment.create({
-                data: {
-                    orderId: order.id,
-                    amount: order.totalAmount,
-                    method: method as unknown as PrismaPaymentMethod,
-                    status: PaymentStatus.PENDING as unknown as PrismaPaymentStatus,
-                },
-            })
-        } else {
-            // Update existing payment
-            payment = await this.prisma.payment.update({
-                where: { id: payment.id },
-                data: {
-                    method: method as unknown as PrismaPaymentMethod,
-                    status: PaymentStatus.PENDING as unknown as PrismaPaymentStatus,
-                },
-            })
+        const paymentAmount =
+            amount !== undefined ? new Prisma.Decimal(amount) : balanceDue
+
+        if (paymentAmount.greaterThan(balanceDue)) {
+            throw new BadRequestException(
+                `Payment amount exceeds outstanding balance of ${balanceDue.toString()}`
+            )
         }
 
+        // One payment per gateway attempt, so guests splitting the bill each
+        // settle their own share; abandoned ones expire in reconciliation
+        const payment = await this.prisma.payment.create({
+            data: {
+                orderId: order.id,
+                amount: paymentAmount,
+                method: method as unknown as PrismaPaymentMethod,
+                provider: gateway as unknown as PrismaPaymentProvider,
+                status: PaymentStatus.PENDING as unknown as PrismaPaymentStatus,
+            },
+        })
+
         // Create transaction using strategy
         const orderWithPayment = {
             ...order,
@@ -111,6 +155,14 @@ export class PaymentsService {
         const transactionResult =
             await strategy.createTransaction(orderWithPayment)
 
+        // Wallet gateways know the payment by our reference, kept for refunds
+        if (transactionResult.reference) {
+            await this.prisma.payment.update({
+                where: { id: payment.id },
+                data: { gatewayReference: transactionResult.reference },
+            })
+        }
+
         this.logger.log(
             `Payment created for order ${orderId}: ${transactionResult.payUrl}`
         )
@@ -129,7 +181,7 @@ export class PaymentsService {
         payload: string | Buffer,
         signature: string
     ): Promise<{ success: boolean }> {
-        const strategy = this.strategies.get(PaymentMethod.CARD)
+        const strategy = this.strategies.get(PaymentProvider.STRIPE)
         if (!strategy || !(strategy instanceof StripeStrategy)) {
             this.logger.error('Stripe strategy not found')
             return { success: false }
@@ -150,48 +202,119 @@ export class PaymentsService {
 
     /**
      * Handle IPN callback from payment gateway
+     * success means the notification was recorded (payment confirmed, or
+     * marked failed when the gateway declined it); verified is false when
+     * the signature does not match
      */
     async handleIPN(
-        method: PaymentMethod,
+        provider: PaymentProvider,
         payload: any
-    ): Promise<{ success: boolean }> {
+    ): Promise<{ success: boolean; verified: boolean }> {
         this.logger.log(
-            `Handling IPN callback for method ${method}: ${JSON.stringify(payload)}`
+            `Handling IPN callback for provider ${provider}: ${JSON.stringify(payload)}`
         )
 
-        const strategy = this.strategies.get(method)
+        const strategy = this.strategies.get(provider)
         if (!strategy) {
-            this.logger.error(`No strategy found for payment method ${method}`)
-            return { success: false }
+            this.logger.error(
+                `No strategy found for payment provider ${provider}`
+            )
+            return { success: false, verified: false }
         }
 
         // Verify IPN
         const verificationResult = await strategy.verifyIPN(payload)
 
-        if (!verificationResult.success) {
+        if (verificationResult.verified === false) {
             this.logger.warn(
-                `IPN verification failed for order ${verificationResult.orderId}`
+                `IPN signature check failed for order ${verificationResult.orderId}`
             )
+            return { success: false, verified: false }
+        }
+
+        if (!verificationResult.success) {
+            return {
+                ...(await this.markPaymentFailed(verificationResult)),
+                verified: true,
+            }
+        }
+
+        return {
+            ...(await this.updatePaymentStatus(verificationResult)),
+            verified: true,
+        }
+    }
+
+    /**
+     * Where to send a customer coming back from a wallet gateway
+     * Only decides which page to show; the IPN confirms the payment
+     */
+    resolveReturnUrl(
+        provider: PaymentProvider,
+        query: Record<string, string>,
+        frontendUrl: string
+    ) {
+        const strategy = this.redirectStrategies.get(provider)
+        const result = strategy?.parseReturn(query)
+        const page = result?.success ? 'success' : 'cancel'
+        const orderQuery = result?.orderId ? `?order_id=${result.orderId}` : ''
+
+        return `${frontendUrl}/customer/payment/${page}${orderQuery}`
+    }
+
+    /**
+     * Mark a pending payment FAILED after the gateway declined it
+     */
+    private async markPaymentFailed(verificationResult: {
+        orderId: number
+        paymentId?: number
+    }): Promise<{ success: boolean }> {
+        if (!verificationResult.paymentId) {
             return { success: false }
         }
 
-        return this.updatePaymentStatus(verificationResult)
+        await this.prisma.payment.updateMany({
+            where: {
+                id: verificationResult.paymentId,
+                orderId: verificationResult.orderId,
+                status: PaymentStatus.PENDING as unknown as PrismaPaymentStatus,
+            },
+            data: {
+                status: PaymentStatus.FAILED as unknown as PrismaPaymentStatus,
+            },
+        })
+        this.logger.warn(
+            `Payment ${verificationResult.paymentId} for order ${verificationResult.orderId} was declined by the gateway`
+        )
+        return { success: true }
     }
 
     /**
      * Update payment status after successful IPN verification
+     * The order is only completed once all payments cover its total
      */
     private async updatePaymentStatus(verificationResult: {
         success: boolean
         orderId: number
         transactionId: string
         amount?: number
+        paymentId?: number
     }): Promise<{ success: boolean }> {
         // Update payment status
         try {
-            const payment = await this.prisma.payment.findUnique({
-                where: { orderId: verificationResult.orderId },
-                include: { order: true },
+            // Prefer the payment referenced by the gateway, fall back to the
+            // latest pending payment of the order
+            const payment = await this.prisma.payment.findFirst({
+                where: verificationResult.paymentId
+                    ? {
+                          id: verificationResult.paymentId,
+                          orderId: verificationResult.orderId,
+                      }
+                    : {
+                          orderId: verificationResult.orderId,
+                          status: PaymentStatus.PENDING as unknown as PrismaPaymentStatus,
+                      },
+                orderBy: { createdAt: 'desc' },
             })
 
             if (!payment) {
@@ -201,22 +324,26 @@ export class PaymentsService {
                 return { success: false }
             }
 
-            // Update payment status and external transaction ID
-            await this.prisma.payment.update({
-                where: { id: payment.id },
-                data: {
-                    status: PaymentStatus.SUCCESS as unknown as PrismaPaymentStatus,
-                    externalTransactionId: verificationResult.transactionId,
-                },
-            })
+            // A capture for another amount is left for an admin to sort out
+            if (
+                verificationResult.amount !== undefined &&
+                Math.round(verificationResult.amount) !==
+                    Math.round(Number(payment.amount))
+            ) {
+                await this.flagDiscrepancy(
+                    payment,
+                    PaymentDiscrepancyType.GATEWAY_AMOUNT,
+                    verificationResult.amount,
+                    `IPN for transaction ${verificationResult.transactionId}`
+                )
+                return { success: false }
+            }
 
-            // Update order status to COMPLETED if payment successful
-            await this.prisma.order.update({
-                where: { id: verificationResult.orderId },
-                data: {
-                    status: OrderStatus.COMPLETED as unknown as PrismaOrderStatus,
-                },
-            })
+            // Marks the payment SUCCESS and completes the order when settled
+            await this.ordersService.confirmPayment(
+                payment.id,
+                verificationResult.transactionId
+            )
 
             this.logger.log(
                 `Payment successful for order ${verificationResult.orderId}, transaction: ${verificationResult.transactionId}`
@@ -232,11 +359,89 @@ export class PaymentsService {
     }
 
     /**
-     * Get payment by order ID
+     * Ask the payment's gateway for its real status (reconciliation)
+     */
+    async queryGatewayStatus(payment: Payment) {
+        const strategy =
+            payment.provider &&
+            this.strategies.get(payment.provider as unknown as PaymentProvider)
+        if (!strategy) {
+            throw new BadRequestException(
+                `Payment ${payment.id} was not made through a gateway`
+            )
+        }
+
+        return strategy.queryStatus(payment)
+    }
+
+    /**
+     * Record a mismatch between what the gateway took and what we expected
+     * Duplicates are skipped, so callers may flag on every gateway retry
+     */
+    async flagDiscrepancy(
+        payment: Pick<Payment, 'id' | 'orderId' | 'amount'>,
+        type: PaymentDiscrepancyType,
+        actualAmount: number,
+        note?: string
+    ) {
+        const existing = await this.prisma.paymentDiscrepancy.findFirst({
+            where: { paymentId: payment.id, type },
+        })
+        if (existing) {
+            return existing
+        }
+
+        const order = await this.prisma.order.findUniqueOrThrow({
+            where: { id: payment.orderId },
+            select: { restaurantId: true },
+        })
+
+        this.logger.warn(
+            `Payment ${payment.id} of order ${payment.orderId}: ${type}, expected ${Number(payment.amount)}, got ${actualAmount}`
+        )
+        return this.prisma.paymentDiscrepancy.create({
+            data: {
+                restaurantId: order.restaurantId,
+                orderId: payment.orderId,
+                paymentId: payment.id,
+                type,
+                expectedAmount: payment.amount,
+                actualAmount,
+                note,
+            },
+        })
+    }
+
+    /**
+     * Refund a captured gateway payment through its strategy
+     * Cash refunds are handed back at the till and never reach a gateway
+     */
+    async refundPayment(payment: Payment, amount: number, reference: string) {
+        // Card payments from before providers were recorded went via Stripe
+        const provider =
+            (payment.provider as unknown as PaymentProvider | null) ??
+            DEFAULT_PROVIDERS[payment.method as unknown as PaymentMethod]
+        const strategy = provider && this.strategies.get(provider)
+        if (!strategy) {
+            throw new BadRequestException(
+                `Payment method ${payment.method} cannot be refunded online`
+            )
+        }
+
+        const result = await strategy.refund(payment, amount, reference)
+        this.logger.log(
+            `Refund ${reference} of ${amount} sent for payment ${payment.id}: ${result.refundId}`
+        )
+        return result
+    }
+
+    /**
+     * Get latest payment by order ID
      */
     async getPaymentByOrderId(orderId: number) {
-        const payment = await this.prisma.payment.findUnique({
+        const payment = await this.prisma.payment.findFirst({
             where: { orderId },
+            orderBy: { createdAt: 'desc' },
             include: {
                 order: {
                     include: {
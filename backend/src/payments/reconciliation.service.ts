@@ -0,0 +1,204 @@
+import {
+    Inject,
+    Injectable,
+    Logger,
+    OnModuleDestroy,
+    OnModuleInit,
+    forwardRef,
+} from '@nestjs/common'
+import {
+    OrderStatus,
+    Payment,
+    PaymentDiscrepancyType,
+    PaymentStatus,
+    Prisma,
+} from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { PaymentsService } from './payments.service'
+import { OrdersService } from '../orders/orders.service'
+import { CAPTURED_PAYMENT_STATUSES } from '../common/utils/payment-status.util'
+
+const MINUTE_MS = 60 * 1000
+const SWEEP_INTERVAL_MS = 5 * MINUTE_MS
+const STALE_AFTER_MINUTES = 30 // Pending payments untouched this long are checked with the gateway
+const EXPIRE_AFTER_MINUTES = 24 * 60 // Still pending at the gateway after this: give up on it
+const ORDER_LOOKBACK_MINUTES = 24 * 60 // Completed orders checked after a restart
+
+/**
+ * Payment reconciliation - closes payments abandoned at the gateway,
+ * captures those whose IPN never arrived and flags amount mismatches
+ */
+@Injectable()
+export class ReconciliationService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ReconciliationService.name)
+    private sweepTimer: NodeJS.Timeout | null = null
+    private sweeping = false
+    private ordersCheckedUntil = new Date(
+        Date.now() - ORDER_LOOKBACK_MINUTES * MINUTE_MS
+    )
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly paymentsService: PaymentsService,
+        @Inject(forwardRef(() => OrdersService))
+        private readonly ordersService: OrdersService
+    ) {}
+
+    onModuleInit() {
+        this.sweepTimer = setInterval(() => {
+            void this.sweep()
+        }, SWEEP_INTERVAL_MS)
+        this.sweepTimer.unref()
+    }
+
+    onModuleDestroy() {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer)
+            this.sweepTimer = null
+        }
+    }
+
+    /**
+     * Reconcile stale pending payments and recently completed orders.
+     * Runs every 5 minutes; safe to call on demand.
+     */
+    async sweep() {
+        if (this.sweeping) return
+        this.sweeping = true
+        try {
+            await this.reconcilePendingPayments()
+            await this.checkOrderTotals()
+        } catch (error) {
+            this.logger.error('Payment reconciliation failed', error)
+        } finally {
+            this.sweeping = false
+        }
+    }
+
+    private async reconcilePendingPayments() {
+        const now = Date.now()
+        const stale = await this.prisma.payment.findMany({
+            where: {
+                status: PaymentStatus.PENDING,
+                provider: { not: null },
+                updatedAt: {
+                    lt: new Date(now - STALE_AFTER_MINUTES * MINUTE_MS),
+                },
+                // Amount mismatches are left to an admin
+                discrepancies: {
+                    none: { type: PaymentDiscrepancyType.GATEWAY_AMOUNT },
+                },
+            },
+            orderBy: { updatedAt: 'asc' },
+        })
+
+        for (const payment of stale) {
+            try {
+                await this.reconcilePayment(
+                    payment,
+                    payment.updatedAt.getTime() <
+                        now - EXPIRE_AFTER_MINUTES * MINUTE_MS
+                )
+            } catch (error) {
+                this.logger.warn(
+                    `Could not reconcile payment ${payment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                )
+            }
+        }
+    }
+
+    private async reconcilePayment(payment: Payment, overdue: boolean) {
+        const gateway = await this.paymentsService.queryGatewayStatus(payment)
+
+        if (gateway.status === 'PAID') {
+            const amount = gateway.amount ?? Number(payment.amount)
+            await this.paymentsService.flagDiscrepancy(
+                payment,
+                PaymentDiscrepancyType.MISSED_CALLBACK,
+                amount,
+                `Paid at ${payment.provider} as ${gateway.transactionId}`
+            )
+
+            if (Math.round(amount) !== Math.round(Number(payment.amount))) {
+                await this.paymentsService.flagDiscrepancy(
+                    payment,
+                    PaymentDiscrepancyType.GATEWAY_AMOUNT,
+                    amount,
+                    `Found by reconciliation, transaction ${gateway.transactionId}`
+                )
+                return
+            }
+
+            await this.ordersService.confirmPayment(
+                payment.id,
+                gateway.transactionId
+            )
+            return
+        }
+
+        if (gateway.status === 'FAILED' || overdue) {
+            // Only a payment nobody has confirmed in the meantime
+            const { count } = await this.prisma.payment.updateMany({
+                where: { id: payment.id, status: PaymentStatus.PENDING },
+                data: { status: PaymentStatus.EXPIRED },
+            })
+            if (count > 0) {
+                this.logger.log(
+                    `Payment ${payment.id} of order ${payment.orderId} expired (${payment.provider}: ${gateway.status})`
+                )
+            }
+        }
+    }
+
+    /**
+     * Flag completed orders whose captured payments do not add up to the
+     * order total
+     */
+    private async checkOrderTotals() {
+        const checkedUntil = new Date()
+        const orders = await this.prisma.order.findMany({
+            where: {
+                status: OrderStatus.COMPLETED,
+                updatedAt: { gte: this.ordersCheckedUntil, lt: checkedUntil },
+                discrepancies: {
+                    none: { type: PaymentDiscrepancyType.ORDER_TOTAL },
+                },
+            },
+            select: {
+                id: true,
+                restaurantId: true,
+                totalAmount: true,
+                payments: {
+                    where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+                    select: { amount: true },
+                },
+            },
+        })
+
+        for (const order of orders) {
+            const paid = order.payments.reduce(
+                (sum, payment) => sum.plus(payment.amount),
+                new Prisma.Decimal(0)
+            )
+            if (paid.equals(order.totalAmount)) {
+                continue
+            }
+
+            await this.prisma.paymentDiscrepancy.create({
+                data: {
+                    restaurantId: order.restaurantId,
+                    orderId: order.id,
+                    type: PaymentDiscrepancyType.ORDER_TOTAL,
+                    expectedAmount: order.totalAmount,
+                    actualAmount: paid,
+                    note: `${order.payments.length} captured payment(s)`,
+                },
+            })
+            this.logger.warn(
+                `Order ${order.id} completed with ${paid.toString()} paid of ${order.totalAmount.toString()}`
+            )
+        }
+
+        this.ordersCheckedUntil = checkedUntil
+    }
+}
@@ -0,0 +1,104 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+} from '@nestjs/swagger'
+import { RefundsService, RefundRequester } from './refunds.service'
+import { CreateRefundDto } from './dto/create-refund.dto'
+import { RefundQueryDto } from './dto/refund-query.dto'
+import { RejectRefundDto } from './dto/reject-refund.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { Permissions } from '../auth/decorators/permissions.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { Permission, UserRole } from '@aerodine/shared-types'
+
+@ApiTags('refunds')
+@Controller('refunds')
+export class RefundsController {
+    constructor(private readonly refundsService: RefundsService) {}
+
+    @Post()
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.WAITER, UserRole.ADMIN)
+    @ApiOperation({
+        summary: 'Request a refund (WAITER, ADMIN)',
+        description:
+            'Full refund of a payment, a partial amount, or specific items. Waiter requests wait for manager approval; requests from staff holding payments.refund are approved and processed immediately.',
+    })
+    @ApiResponse({ status: 201, description: 'Refund requested' })
+    @ApiResponse({ status: 400, description: 'Nothing left to refund' })
+    create(@Body() dto: CreateRefundDto, @CurrentUser() user: RefundRequester) {
+        return this.refundsService.create(dto, user)
+    }
+
+    @Get()
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.PAYMENTS_REFUND)
+    @ApiOperation({ summary: 'List refunds (payments.refund)' })
+    findAll(
+        @Query() query: RefundQueryDto,
+        @CurrentUser() user: RefundRequester
+    ) {
+        return this.refundsService.findAll(query, user)
+    }
+
+    @Get('order/:orderId')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.WAITER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Refunds of an order (WAITER, ADMIN)' })
+    @ApiParam({ name: 'orderId', type: Number, description: 'Order ID' })
+    findForOrder(
+        @Param('orderId') orderId: string,
+        @CurrentUser() user: RefundRequester
+    ) {
+        return this.refundsService.findForOrder(Number(orderId), user)
+    }
+
+    @Post(':id/approve')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.PAYMENTS_REFUND)
+    @ApiOperation({
+        summary: 'Approve and process a refund (payments.refund)',
+        description:
+            'Cash refunds complete immediately; card refunds go through the payment gateway and are marked FAILED if it declines.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Refund ID' })
+    approve(@Param('id') id: string, @CurrentUser() user: RefundRequester) {
+        return this.refundsService.approve(Number(id), user)
+    }
+
+    @Post(':id/reject')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.PAYMENTS_REFUND)
+    @ApiOperation({ summary: 'Reject a refund request (payments.refund)' })
+    @ApiParam({ name: 'id', type: Number, description: 'Refund ID' })
+    reject(
+        @Param('id') id: string,
+        @Body() dto: RejectRefundDto,
+        @CurrentUser() user: RefundRequester
+    ) {
+        return this.refundsService.reject(Number(id), user, dto.note)
+    }
+}
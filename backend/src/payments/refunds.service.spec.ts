@@ -0,0 +1,283 @@
+import { Test } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import {
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    RefundStatus,
+} from '@prisma/client'
+import { Permission, UserRole } from '@aerodine/shared-types'
+import { RefundsService, RefundRequester } from './refunds.service'
+import { PaymentsService } from './payments.service'
+import { PrismaService } from '../database/prisma.service'
+
+type RefundRow = {
+    id: number
+    orderId: number
+    paymentId: number
+    amount: Prisma.Decimal
+    status: RefundStatus
+    requestedById: number
+    approvedById: number | null
+}
+
+type DecimalUpdate = Prisma.Decimal.Value | { increment: Prisma.Decimal.Value }
+
+const decimal = (value: Prisma.Decimal.Value) => new Prisma.Decimal(value)
+
+const manager: RefundRequester = {
+    id: 7,
+    role: UserRole.ADMIN,
+    restaurantId: 2,
+    permissions: [Permission.PAYMENTS_REFUND],
+}
+
+/**
+ * Just enough of Prisma for refunds: one order paid in cash by one payment,
+ * kept in memory; a failed transaction puts the refunds back as they were
+ */
+function createPrisma() {
+    const order = {
+        id: 1,
+        restaurantId: 2,
+        refundedAmount: decimal(0),
+        items: [],
+    }
+    const payment = {
+        id: 3,
+        orderId: 1,
+        amount: decimal(100000),
+        refundedAmount: decimal(0),
+        method: PaymentMethod.CASH as PaymentMethod,
+        status: PaymentStatus.SUCCESS as PaymentStatus,
+    }
+    const refunds: RefundRow[] = []
+    const findRefunds: unknown[] = []
+
+    const withRelations = (refund: RefundRow) => ({
+        ...refund,
+        order: { id: order.id, restaurantId: order.restaurantId },
+        payment: { ...payment },
+    })
+    const apply = (current: Prisma.Decimal, update: DecimalUpdate) =>
+        typeof update === 'object' && 'increment' in update
+            ? current.plus(update.increment)
+            : decimal(update)
+
+    const client = {
+        refunds,
+        findRefunds,
+        captured: payment,
+        $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => {
+            const snapshot = refunds.map((refund) => ({ ...refund }))
+            try {
+                return await fn(client)
+            } catch (error) {
+                refunds.splice(0, refunds.length, ...snapshot)
+                throw error
+            }
+        },
+        $queryRaw: () => Promise.resolve([]),
+        order: {
+            findUnique: () =>
+                Promise.resolve({
+                    ...order,
+                    payments: [
+                        {
+                            ...payment,
+                            refunds: refunds.filter(
+                                (refund) =>
+                                    refund.status ===
+                                        RefundStatus.PENDING_APPROVAL ||
+                                    refund.status === RefundStatus.PROCESSING
+                            ),
+                        },
+                    ],
+                }),
+            update: ({ data }: { data: { refundedAmount: DecimalUpdate } }) => {
+                order.refundedAmount = apply(
+                    order.refundedAmount,
+                    data.refundedAmount
+                )
+                return Promise.resolve(order)
+            },
+        },
+        payment: {
+            update: ({
+                data,
+            }: {
+                data: {
+                    refundedAmount?: DecimalUpdate
+                    status?: PaymentStatus
+                }
+            }) => {
+                if (data.refundedAmount !== undefined) {
+                    payment.refundedAmount = apply(
+                        payment.refundedAmount,
+                        data.refundedAmount
+                    )
+                }
+                if (data.status) payment.status = data.status
+                return Promise.resolve({ ...payment })
+            },
+        },
+        refund: {
+            create: ({
+                data,
+            }: {
+                data: Omit<
+                    RefundRow,
+                    'id' | 'amount' | 'status' | 'approvedById'
+                > & { amount: number }
+            }) => {
+                const refund: RefundRow = {
+                    ...data,
+                    approvedById: null,
+                    id: refunds.length + 1,
+                    amount: decimal(data.amount),
+                    status: RefundStatus.PENDING_APPROVAL,
+                }
+                refunds.push(refund)
+                return Promise.resolve(refund)
+            },
+            findUnique: ({ where }: { where: { id: number } }) => {
+                const refund = refunds.find((r) => r.id === where.id)
+                return Promise.resolve(refund ? withRelations(refund) : null)
+            },
+            findUniqueOrThrow: ({ where }: { where: { id: number } }) =>
+                Promise.resolve(
+                    withRelations(refunds.find((r) => r.id === where.id)!)
+                ),
+            findMany: (args: unknown) => {
+                findRefunds.push(args)
+                return Promise.resolve([])
+            },
+            updateMany: ({
+                where,
+                data,
+            }: {
+                where: { id: number; status: RefundStatus }
+                data: Partial<RefundRow>
+            }) => {
+                const matching = refunds.filter(
+                    (r) => r.id === where.id && r.status === where.status
+                )
+                matching.forEach((r) => Object.assign(r, data))
+                return Promise.resolve({ count: matching.length })
+            },
+            update: ({
+                where,
+                data,
+            }: {
+                where: { id: number }
+                data: Partial<RefundRow>
+            }) => {
+                const refund = refunds.find((r) => r.id === where.id)!
+                Object.assign(refund, data)
+                return Promise.resolve(refund)
+            },
+            aggregate: ({
+                where,
+            }: {
+                where: {
+                    paymentId: number
+                    status: RefundStatus
+                    id: { not: number }
+                }
+            }) =>
+                Promise.resolve({
+                    _sum: {
+                        amount: refunds
+                            .filter(
+                                (r) =>
+                                    r.paymentId === where.paymentId &&
+                                    r.status === where.status &&
+                                    r.id !== where.id.not
+                            )
+                            .reduce<Prisma.Decimal | null>(
+                                (sum, r) => r.amount.plus(sum ?? 0),
+                                null
+                            ),
+                    },
+                }),
+        },
+        cashShift: { findMany: () => Promise.resolve([]) },
+    }
+    return client
+}
+
+describe('RefundsService', () => {
+    let service: RefundsService
+    let prisma: ReturnType<typeof createPrisma>
+
+    beforeEach(async () => {
+        prisma = createPrisma()
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                RefundsService,
+                { provide: PrismaService, useValue: prisma },
+                { provide: PaymentsService, useValue: {} },
+            ],
+        }).compile()
+
+        service = moduleRef.get(RefundsService)
+    })
+
+    // Two waiters asking at once, each seeing the whole payment still open
+    const requestConcurrently = (...amounts: number[]) =>
+        amounts.map((amount) =>
+            prisma.refunds.push({
+                id: prisma.refunds.length + 1,
+                orderId: 1,
+                paymentId: prisma.captured.id,
+                amount: decimal(amount),
+                status: RefundStatus.PENDING_APPROVAL,
+                requestedById: 4,
+                approvedById: null,
+            })
+        )
+
+    it('rejects a request above what is left on the payment', async () => {
+        await expect(
+            service.create(
+                { orderId: 1, amount: 120000, reason: 'Cold soup' },
+                manager
+            )
+        ).rejects.toThrow(BadRequestException)
+        expect(prisma.refunds).toHaveLength(0)
+    })
+
+    it('refunds a payment only up to its amount across approvals', async () => {
+        requestConcurrently(60000, 60000)
+
+        await service.approve(1, manager)
+        await expect(service.approve(2, manager)).rejects.toThrow(
+            'Refund exceeds the 40000 left on payment 3'
+        )
+
+        expect(Number(prisma.captured.refundedAmount)).toBe(60000)
+        expect(prisma.captured.status).toBe(PaymentStatus.PARTIALLY_REFUNDED)
+        expect(prisma.refunds[1].status).toBe(RefundStatus.PENDING_APPROVAL)
+    })
+
+    it('counts refunds still at the gateway against the payment', async () => {
+        requestConcurrently(70000, 50000)
+        prisma.refunds[0].status = RefundStatus.PROCESSING
+
+        await expect(service.approve(2, manager)).rejects.toThrow(
+            BadRequestException
+        )
+        expect(Number(prisma.captured.refundedAmount)).toBe(0)
+    })
+
+    it("lists only the requester's restaurant for staff", async () => {
+        await service.findAll({ restaurantId: 9 }, manager)
+
+        expect(prisma.findRefunds).toEqual([
+            expect.objectContaining({
+                where: { status: undefined, order: { restaurantId: 2 } },
+            }),
+        ])
+    })
+})
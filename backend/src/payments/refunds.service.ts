@@ -0,0 +1,465 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import {
+    CashShiftStatus,
+    OrderItemStatus,
+    PaymentMethod,
+    PaymentStatus,
+    Prisma,
+    RefundStatus,
+} from '@prisma/client'
+import { Permission } from '@aerodine/shared-types'
+import { PrismaService } from '../database/prisma.service'
+import { PaymentsService } from './payments.service'
+import { CreateRefundDto, RefundItemDto } from './dto/create-refund.dto'
+import { RefundQueryDto } from './dto/refund-query.dto'
+import { isCapturedPayment } from '../common/utils/payment-status.util'
+import {
+    canAccessRestaurant,
+    hasPermission,
+    PermissionUser,
+} from '../common/utils/permissions.util'
+
+/**
+ * Refunds that still hold part of a payment
+ */
+const OPEN_REFUND_STATUSES: RefundStatus[] = [
+    RefundStatus.PENDING_APPROVAL,
+    RefundStatus.PROCESSING,
+]
+
+const REFUND_INCLUDE = {
+    order: { select: { id: true, restaurantId: true, table: true } },
+    payment: { select: { id: true, method: true, amount: true } },
+    requestedBy: { select: { id: true, fullName: true } },
+    approvedBy: { select: { id: true, fullName: true } },
+    items: {
+        include: {
+            orderItem: { select: { id: true, name: true, quantity: true } },
+        },
+    },
+} satisfies Prisma.RefundInclude
+
+export type RefundRequester = PermissionUser
+
+/**
+ * Refunds Service - Gives money back on captured payments
+ * Waiters request refunds and a manager holding payments.refund approves
+ * them; refunds such a manager asks for are approved straight away. Cash is handed back at the
+ * till, gateway payments are refunded through their payment strategy
+ */
+@Injectable()
+export class RefundsService {
+    private readonly logger = new Logger(RefundsService.name)
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly paymentsService: PaymentsService
+    ) {}
+
+    async create(dto: CreateRefundDto, requester: RefundRequester) {
+        if (dto.items && dto.amount !== undefined) {
+            throw new BadRequestException(
+                'Refund either items or an amount, not both'
+            )
+        }
+
+        const order = await this.prisma.order.findUnique({
+            where: { id: dto.orderId },
+            include: {
+                items: true,
+                payments: {
+                    include: {
+                        refunds: {
+                            where: { status: { in: OPEN_REFUND_STATUSES } },
+                            select: { amount: true },
+                        },
+                    },
+                    orderBy: { createdAt: 'desc' },
+                },
+            },
+        })
+        if (!order) {
+            throw new NotFoundException(
+                `Order with ID ${dto.orderId} not found`
+            )
+        }
+        this.assertSameRestaurant(order.restaurantId, requester)
+
+        // What is left of each payment after completed and pending refunds
+        const payments = order.payments
+            .filter((payment) => isCapturedPayment(payment.status))
+            .map((payment) => ({
+                ...payment,
+                refundable:
+                    Number(payment.amount) -
+                    Number(payment.refundedAmount) -
+                    payment.refunds.reduce(
+                        (sum, refund) => sum + Number(refund.amount),
+                        0
+                    ),
+            }))
+        if (payments.length === 0) {
+            throw new BadRequestException(
+                `Order ${order.id} has no payment to refund`
+            )
+        }
+
+        const items = dto.items
+            ? await this.priceItems(order, dto.items)
+            : undefined
+        const requested = items
+            ? items.reduce((sum, item) => sum + item.amount, 0)
+            : dto.amount
+
+        let payment = payments[0]
+        if (dto.paymentId) {
+            const match = payments.find((p) => p.id === dto.paymentId)
+            if (!match) {
+                throw new NotFoundException(
+                    `Payment ${dto.paymentId} is not a captured payment of order ${order.id}`
+                )
+            }
+            payment = match
+        } else if (payments.length > 1) {
+            // Split bills: the most recent payment that can cover the refund
+            const match =
+                requested !== undefined
+                    ? payments.find((p) => p.refundable >= requested)
+                    : undefined
+            if (!match) {
+                throw new BadRequestException(
+                    'Order was paid in several payments; choose the payment to refund'
+                )
+            }
+            payment = match
+        }
+
+        const amount = roundMoney(requested ?? payment.refundable)
+        if (amount <= 0) {
+            throw new BadRequestException(
+                `Nothing is left to refund on payment ${payment.id}`
+            )
+        }
+        if (amount > roundMoney(payment.refundable)) {
+            throw new BadRequestException(
+                `Refund exceeds the ${roundMoney(payment.refundable)} left on payment ${payment.id}`
+            )
+        }
+
+        const refund = await this.prisma.refund.create({
+            data: {
+                orderId: order.id,
+                paymentId: payment.id,
+                amount,
+                reason: dto.reason.trim(),
+                requestedById: requester.id,
+                items: items && {
+                    create: items.map((item) => ({
+                        orderItemId: item.orderItemId,
+                        quantity: item.quantity,
+                        amount: item.amount,
+                    })),
+                },
+            },
+        })
+        this.logger.log(
+            `Refund ${refund.id} of ${amount} requested for order ${order.id} by user ${requester.id}`
+        )
+
+        if (hasPermission(requester, Permission.PAYMENTS_REFUND)) {
+            return this.approve(refund.id, requester)
+        }
+        return this.findOne(refund.id)
+    }
+
+    async findAll(query: RefundQueryDto, requester: RefundRequester) {
+        // Staff see their own restaurant; admins without one pick any
+        const restaurantId = requester.restaurantId ?? query.restaurantId
+        return this.prisma.refund.findMany({
+            where: {
+                status: query.status,
+                order: restaurantId ? { restaurantId } : undefined,
+            },
+            include: REFUND_INCLUDE,
+            orderBy: { createdAt: 'desc' },
+            take: 200,
+        })
+    }
+
+    async findForOrder(orderId: number, requester: RefundRequester) {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+            select: { restaurantId: true },
+        })
+        if (!order) {
+            throw new NotFoundException(`Order with ID ${orderId} not found`)
+        }
+        this.assertSameRestaurant(order.restaurantId, requester)
+
+        return this.prisma.refund.findMany({
+            where: { orderId },
+            include: REFUND_INCLUDE,
+            orderBy: { createdAt: 'desc' },
+        })
+    }
+
+    async findOne(id: number) {
+        const refund = await this.prisma.refund.findUnique({
+            where: { id },
+            include: REFUND_INCLUDE,
+        })
+        if (!refund) {
+            throw new NotFoundException(`Refund with ID ${id} not found`)
+        }
+        return refund
+    }
+
+    /**
+     * Approve a pending refund and give the money back
+     * A failed gateway refund leaves the request FAILED with the error
+     */
+    async approve(id: number, approver: RefundRequester) {
+        const { paymentId } = await this.findScoped(id, approver)
+
+        // Claim the request under the payment lock so neither two managers
+        // nor two refunds of one payment can give back more than it took
+        const refund = await this.prisma.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`
+
+            const { count } = await tx.refund.updateMany({
+                where: { id, status: RefundStatus.PENDING_APPROVAL },
+                data: {
+                    status: RefundStatus.PROCESSING,
+                    approvedById: approver.id,
+                },
+            })
+            if (count === 0) {
+                const existing = await tx.refund.findUniqueOrThrow({
+                    where: { id },
+                })
+                throw new BadRequestException(
+                    `Refund ${id} is already ${existing.status.toLowerCase()}`
+                )
+            }
+
+            const claimed = await tx.refund.findUniqueOrThrow({
+                where: { id },
+                include: { payment: true },
+            })
+            const inFlight = await tx.refund.aggregate({
+                where: {
+                    paymentId,
+                    status: RefundStatus.PROCESSING,
+                    id: { not: id },
+                },
+                _sum: { amount: true },
+            })
+            const left = claimed.payment.amount
+                .minus(claimed.payment.refundedAmount)
+                .minus(inFlight._sum.amount ?? 0)
+            if (claimed.amount.greaterThan(left)) {
+                throw new BadRequestException(
+                    `Refund exceeds the ${roundMoney(Number(left))} left on payment ${paymentId}`
+                )
+            }
+            return claimed
+        })
+        const amount = Number(refund.amount)
+
+        let externalRefundId: string | null = null
+        let shiftId: number | null = null
+        if (refund.payment.method === PaymentMethod.CASH) {
+            shiftId = await this.findCashShift(
+                refund.requestedById,
+                approver.id
+            )
+        } else {
+            try {
+                const result = await this.paymentsService.refundPayment(
+                    refund.payment,
+                    amount,
+                    String(refund.id)
+                )
+                externalRefundId = result.refundId
+            } catch (error) {
+                await this.prisma.refund.update({
+                    where: { id },
+                    data: {
+                        status: RefundStatus.FAILED,
+                        note:
+                            error instanceof Error
+                                ? error.message
+                                : 'Unknown error',
+                        processedAt: new Date(),
+                    },
+                })
+                this.logger.error(`Refund ${id} failed at the gateway`)
+                throw error
+            }
+        }
+
+        await this.prisma.$transaction(async (tx) => {
+            const payment = await tx.payment.update({
+                where: { id: refund.paymentId },
+                data: { refundedAmount: { increment: amount } },
+            })
+            await tx.payment.update({
+                where: { id: refund.paymentId },
+                data: {
+                    status: payment.refundedAmount.greaterThanOrEqualTo(
+                        payment.amount
+                    )
+                        ? PaymentStatus.REFUNDED
+                        : PaymentStatus.PARTIALLY_REFUNDED,
+                },
+            })
+            await tx.order.update({
+                where: { id: refund.orderId },
+                data: { refundedAmount: { increment: amount } },
+            })
+            await tx.refund.update({
+                where: { id },
+                data: {
+                    status: RefundStatus.COMPLETED,
+                    externalRefundId,
+                    shiftId,
+                    processedAt: new Date(),
+                },
+            })
+        })
+
+        this.logger.log(
+            `Refund ${id} of ${amount} completed for order ${refund.orderId}`
+        )
+        return this.findOne(id)
+    }
+
+    async reject(id: number, approver: RefundRequester, note?: string) {
+        await this.findScoped(id, approver)
+
+        const { count } = await this.prisma.refund.updateMany({
+            where: { id, status: RefundStatus.PENDING_APPROVAL },
+            data: {
+                status: RefundStatus.REJECTED,
+                approvedById: approver.id,
+                note: note?.trim() || null,
+                processedAt: new Date(),
+            },
+        })
+        if (count === 0) {
+            const existing = await this.findOne(id)
+            throw new BadRequestException(
+                `Refund ${id} is already ${existing.status.toLowerCase()}`
+            )
+        }
+        return this.findOne(id)
+    }
+
+    /**
+     * Refund whose order is at the user's restaurant
+     */
+    private async findScoped(id: number, user: RefundRequester) {
+        const refund = await this.findOne(id)
+        this.assertSameRestaurant(refund.order.restaurantId, user)
+        return refund
+    }
+
+    private assertSameRestaurant(restaurantId: number, user: RefundRequester) {
+        if (!canAccessRestaurant(user, restaurantId)) {
+            throw new ForbiddenException(
+                'You can only handle refunds of your own restaurant'
+            )
+        }
+    }
+
+    /**
+     * Drawer a cash refund is paid out of: the open shift of the waiter who
+     * asked for it, else the approving manager's
+     */
+    private async findCashShift(requestedById: number, approverId: number) {
+        const shifts = await this.prisma.cashShift.findMany({
+            where: {
+                cashierId: { in: [requestedById, approverId] },
+                status: CashShiftStatus.OPEN,
+            },
+            select: { id: true, cashierId: true },
+        })
+        const shift =
+            shifts.find((s) => s.cashierId === requestedById) ?? shifts[0]
+        return shift?.id ?? null
+    }
+
+    /**
+     * Price refunded items at their share of what the order charged:
+     * line amount scaled by (total - tip) / subtotal, which spreads the
+     * discount, service charge and VAT over the items
+     */
+    private async priceItems(
+        order: Prisma.OrderGetPayload<{ include: { items: true } }>,
+        items: RefundItemDto[]
+    ) {
+        const subtotal = Number(order.subtotal)
+        const ratio =
+            subtotal > 0
+                ? (Number(order.totalAmount) - Number(order.tipAmount)) /
+                  subtotal
+                : 1
+
+        // Quantities already covered by other refunds
+        const refunded = await this.prisma.refundItem.groupBy({
+            by: ['orderItemId'],
+            where: {
+                orderItemId: { in: items.map((item) => item.orderItemId) },
+                refund: {
+                    status: {
+                        in: [...OPEN_REFUND_STATUSES, RefundStatus.COMPLETED],
+                    },
+                },
+            },
+            _sum: { quantity: true },
+        })
+        const refundedQuantity = new Map(
+            refunded.map((row) => [row.orderItemId, row._sum.quantity ?? 0])
+        )
+
+        return items.map((item) => {
+            const orderItem = order.items.find(
+                (candidate) => candidate.id === item.orderItemId
+            )
+            if (!orderItem) {
+                throw new NotFoundException(
+                    `Order item ${item.orderItemId} is not part of order ${order.id}`
+                )
+            }
+            if (orderItem.status === OrderItemStatus.CANCELLED) {
+                throw new BadRequestException(
+                    `${orderItem.name} was cancelled and never charged`
+                )
+            }
+
+            const left =
+                orderItem.quantity - (refundedQuantity.get(orderItem.id) ?? 0)
+            if (item.quantity > left) {
+                throw new BadRequestException(
+                    `Only ${left} of ${orderItem.name} can still be refunded`
+                )
+            }
+
+            return {
+                orderItemId: orderItem.id,
+                quantity: item.quantity,
+                amount: roundMoney(
+                    Number(orderItem.pricePerUnit) * item.quantity * ratio
+                ),
+            }
+        })
+    }
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
@@ -0,0 +1,68 @@
+import * as crypto from 'crypto'
+import {
+    DEFAULT_TIMEZONE,
+    getZonedParts,
+} from '../../common/utils/timezone.util'
+
+/**
+ * Helpers shared by the local wallet gateways (MoMo, VNPay, ZaloPay)
+ */
+
+/**
+ * Our order reference at a wallet gateway: <orderId>-<paymentId>-<timestamp>
+ * Gateways refuse a reference twice, so every attempt gets a new timestamp;
+ * callbacks map back to the payment through the first two parts
+ */
+export function createGatewayReference(
+    payment: { id: number; orderId: number },
+    createdAt = new Date()
+): string {
+    return `${payment.orderId}-${payment.id}-${createdAt.getTime()}`
+}
+
+export function parseGatewayReference(reference: string): {
+    orderId: number
+    paymentId: number
+    createdAt: Date
+} | null {
+    const match = /^(\d+)-(\d+)-(\d+)$/.exec(reference)
+    if (!match) {
+        return null
+    }
+
+    return {
+        orderId: Number(match[1]),
+        paymentId: Number(match[2]),
+        createdAt: new Date(Number(match[3])),
+    }
+}
+
+/**
+ * Vietnam wall-clock time as yyyyMMddHHmmss, the format VNPay expects
+ */
+export function toGatewayDate(date: Date): string {
+    const p = getZonedParts(date, DEFAULT_TIMEZONE)
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return `${p.year}${pad(p.month)}${pad(p.day)}${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`
+}
+
+export function hmac(
+    algorithm: 'sha256' | 'sha512',
+    key: string,
+    data: string
+): string {
+    return crypto.createHmac(algorithm, key).update(data).digest('hex')
+}
+
+/**
+ * Constant-time comparison of hex signatures
+ */
+export function signaturesMatch(expected: string, received?: unknown) {
+    if (typeof received !== 'string' || received.length !== expected.length) {
+        return false
+    }
+    return crypto.timingSafeEqual(
+        Buffer.from(expected.toLowerCase()),
+        Buffer.from(received.toLowerCase())
+    )
+}
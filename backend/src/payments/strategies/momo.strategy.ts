@@ -1,15 +1,30 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
-import { IPaymentStrategy } from './payment.strategy.interface'
+import {
+    GatewayPaymentStatus,
+    IRedirectPaymentStrategy,
+} from './payment.strategy.interface'
 import { Payment, Order } from '@prisma/client'
-import * as crypto from 'crypto'
+import {
+    createGatewayReference,
+    hmac,
+    parseGatewayReference,
+    signaturesMatch,
+} from './gateway.util'
+
+/**
+ * Text of an IPN or redirect field; anything but a string or number (a
+ * missing field, a nested object) counts as empty
+ */
+const fieldText = (value: unknown) =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : ''
 
 /**
  * MoMo Payment Gateway Strategy Implementation
  * Supports Vietnam's MoMo e-wallet payment gateway
  */
 @Injectable()
-export class MomoStrategy implements IPaymentStrategy {
+export class MomoStrategy implements IRedirectPaymentStrategy {
     private readonly logger = new Logger(MomoStrategy.name)
     private readonly partnerCode: string
     private readonly accessKey: string
@@ -26,7 +41,7 @@ export class MomoStrategy implements IPaymentStrategy {
             this.configService.get<string>('momo.endpoint') ||
             'https://test-payment.momo.vn/v2/gateway/api/create'
         this.appBaseUrl =
-            this.configService.get<string>('momo.appBaseUrl') ||
+            this.configService.get<string>('app.baseUrl') ||
             'http://localhost:3000'
 
         if (!this.partnerCode || !this.accessKey || !this.secretKey) {
@@ -40,6 +55,7 @@ export class MomoStrategy implements IPaymentStrategy {
      * 1. Sort parameters by key
      * 2. Create raw string: key1=value1&key2=value2&...
      * 3. Hash with HMAC-SHA256 using secret key
+     * Each API signs a fixed set of fields, empty values included
      */
     private generateSignature(params: Record<string, string>): string {
         // Sort parameters by key
@@ -48,13 +64,32 @@ export class MomoStrategy implements IPaymentStrategy {
             .map((key) => `${key}=${params[key]}`)
             .join('&')
 
-        // Create HMAC-SHA256 signature
-        const signature = crypto
-            .createHmac('sha256', this.secretKey)
-            .update(rawString)
-            .digest('hex')
+        return hmac('sha256', this.secretKey, rawString)
+    }
+
+    /**
+     * Check the signature MoMo puts on IPN and redirect parameters
+     */
+    private verifyResultSignature(payload: Record<string, unknown>) {
+        const field = (key: string) => fieldText(payload[key])
+
+        const signature = this.generateSignature({
+            accessKey: this.accessKey,
+            amount: field('amount'),
+            extraData: field('extraData'),
+            message: field('message'),
+            orderId: field('orderId'),
+            orderInfo: field('orderInfo'),
+            orderType: field('orderType'),
+            partnerCode: field('partnerCode'),
+            payType: field('payType'),
+            requestId: field('requestId'),
+            responseTime: field('responseTime'),
+            resultCode: field('resultCode'),
+            transId: field('transId'),
+        })
 
-        return signature
+        return signaturesMatch(signature, payload.signature)
     }
 
     /**
@@ -66,42 +101,58 @@ export class MomoStrategy implements IPaymentStrategy {
         payUrl: string
         orderId: string
         requestId: string
+        reference: string
     }> {
         if (!this.partnerCode || !this.accessKey || !this.secretKey) {
             throw new BadRequestException('MoMo credentials not configured')
         }
+        if (!order.payment) {
+            throw new BadRequestException('MoMo payments need a payment record')
+        }
 
-        const orderId = order.id.toString()
+        // MoMo's orderId must be new on every attempt
+        const orderId = createGatewayReference(order.payment)
         const requestId = `${this.partnerCode}-${Date.now()}`
-        const orderInfo = `Order #${orderId}`
-        const redirectUrl = `${this.appBaseUrl}/api/payments/callback/momo`
+        const orderInfo = `Order #${order.id}`
+        const redirectUrl = `${this.appBaseUrl}/api/payments/return/momo`
         const ipnUrl = `${this.appBaseUrl}/api/payments/callback/momo`
 
         // Convert amount to integer (VND has no decimals)
-        const amount = Math.round(Number(order.totalAmount))
+        const amount = Math.round(Number(order.payment.amount))
+
+        // Signed fields of the create API
+        const signedParams: Record<string, string> = {
+            accessKey: this.accessKey,
+            amount: amount.toString(),
+            extraData: '',
+            ipnUrl: ipnUrl,
+            orderId: orderId,
+            orderInfo: orderInfo,
+            partnerCode: this.partnerCode,
+            redirectUrl: redirectUrl,
+            requestId: requestId,
+            requestType: 'captureWallet',
+        }
 
         // Build request parameters
-        const requestParams: Record<string, string> = {
+        const requestParams = {
             partnerCode: this.partnerCode,
-            partnerName: 'AeroDine',
-            storeId: this.partnerCode,
             requestId: requestId,
-            amount: amount.toString(),
+            amount,
             orderId: orderId,
             orderInfo: orderInfo,
             redirectUrl: redirectUrl,
             ipnUrl: ipnUrl,
             requestType: 'captureWallet',
             extraData: '',
+            partnerName: 'AeroDine',
+            storeId: this.partnerCode,
             lang: 'vi',
-            autoCapture: 'true',
+            autoCapture: true,
+            signature: this.generateSignature(signedParams),
         }
 
-        // Generate signature
-        const signature = this.generateSignature(requestParams)
-        requestParams.signature = signature
-
-        this.logger.log(`Creating MoMo payment for order ${orderId}`)
+        this.logger.log(`Creating MoMo payment for order ${order.id}`)
 
         try {
             // Send request to MoMo API
@@ -113,7 +164,11 @@ export class MomoStrategy implements IPaymentStrategy {
                 body: JSON.stringify(requestParams),
             })
 
-            const responseData = await response.json()
+            const responseData = (await response.json()) as {
+                resultCode: number
+                message?: string
+                payUrl?: string
+            }
 
             if (responseData.resultCode !== 0) {
                 this.logger.error(
@@ -125,15 +180,18 @@ export class MomoStrategy implements IPaymentStrategy {
             }
 
             this.logger.log(
-                `MoMo payment created successfully for order ${orderId}, payUrl: ${responseData.payUrl}`
+                `MoMo payment created successfully for order ${order.id}, payUrl: ${responseData.payUrl}`
             )
 
             return {
-                payUrl: responseData.payUrl,
+                payUrl: responseData.payUrl || '',
                 orderId: orderId,
                 requestId: requestId,
+                reference: orderId,
             }
         } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
             this.logger.error(
                 `Error creating MoMo payment: ${error instanceof Error ? error.message : 'Unknown error'}`
             )
@@ -146,99 +204,190 @@ export class MomoStrategy implements IPaymentStrategy {
     /**
      * Verify IPN callback from MoMo
      */
-    async verifyIPN(payload: any): Promise<{
+    async verifyIPN(payload: Record<string, unknown>): Promise<{
         success: boolean
         orderId: number
         transactionId: string
         amount?: number
+        paymentId?: number
+        verified: boolean
     }> {
         this.logger.log(`Received MoMo IPN: ${JSON.stringify(payload)}`)
 
-        try {
-            const {
-                partnerCode,
-                orderId,
-                requestId,
-                amount,
-                orderInfo,
-                orderType,
-                transId,
-                resultCode,
-                message,
-                payType,
-                responseTime,
-                extraData,
-                signature,
-            } = payload
-
-            // Verify signature
-            const verifyParams: Record<string, string> = {
-                accessKey: this.accessKey,
-                amount: amount?.toString() || '',
-                extraData: extraData || '',
-                message: message || '',
-                orderId: orderId || '',
-                orderInfo: orderInfo || '',
-                orderType: orderType || '',
-                partnerCode: partnerCode || '',
-                payType: payType || '',
-                requestId: requestId || '',
-                responseTime: responseTime?.toString() || '',
-                resultCode: resultCode?.toString() || '',
-                transId: transId || '',
+        const reference = parseGatewayReference(fieldText(payload.orderId))
+        const result = {
+            orderId: reference?.orderId ?? 0,
+            paymentId: reference?.paymentId,
+            transactionId: fieldText(payload.transId),
+            amount: payload.amount ? Number(payload.amount) : undefined,
+        }
+
+        if (!this.verifyResultSignature(payload)) {
+            this.logger.warn(
+                `Invalid MoMo IPN signature for order ${fieldText(payload.orderId)}`
+            )
+            return { ...result, success: false, verified: false }
+        }
+
+        // Verify result code (0 = success)
+        const success = Number(payload.resultCode) === 0
+
+        if (!success) {
+            this.logger.warn(
+                `MoMo payment failed for order ${result.orderId}: ${String(payload.message)}`
+            )
+        } else {
+            this.logger.log(
+                `MoMo payment verified successfully for order ${result.orderId}, transaction: ${result.transactionId}`
+            )
+        }
+
+        return { ...result, success, verified: true }
+    }
+
+    /**
+     * MoMo redirects with the same signed fields as the IPN
+     */
+    parseReturn(query: Record<string, string>) {
+        const reference = parseGatewayReference(query.orderId || '')
+        return {
+            orderId: reference?.orderId ?? 0,
+            success:
+                this.verifyResultSignature(query) &&
+                Number(query.resultCode) === 0,
+        }
+    }
+
+    /**
+     * Check a payment through the query API
+     * resultCode 1000 means the customer has not confirmed yet and 7000/7002
+     * that MoMo is still processing it
+     */
+    async queryStatus(payment: Payment): Promise<GatewayPaymentStatus> {
+        if (!this.partnerCode || !this.accessKey || !this.secretKey) {
+            throw new BadRequestException('MoMo credentials not configured')
+        }
+        if (!payment.gatewayReference) {
+            return { status: 'FAILED' }
+        }
+
+        const requestParams: Record<string, string> = {
+            accessKey: this.accessKey,
+            orderId: payment.gatewayReference,
+            partnerCode: this.partnerCode,
+            requestId: `${this.partnerCode}-query-${Date.now()}`,
+        }
+
+        const response = await fetch(
+            this.endpoint.replace(/\/create$/, '/query'),
+            {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    ...requestParams,
+                    lang: 'vi',
+                    signature: this.generateSignature(requestParams),
+                }),
             }
+        )
 
-            // Remove empty values for signature verification
-            const filteredParams: Record<string, string> = {}
-            Object.keys(verifyParams).forEach((key) => {
-                if (verifyParams[key]) {
-                    filteredParams[key] = verifyParams[key]
-                }
-            })
+        const responseData = (await response.json()) as {
+            resultCode: number
+            amount?: number
+            transId?: number
+        }
 
-            const calculatedSignature = this.generateSignature(filteredParams)
+        if (responseData.resultCode === 0) {
+            return {
+                status: 'PAID',
+                transactionId: String(responseData.transId),
+                amount: responseData.amount,
+            }
+        }
+        return {
+            status: [1000, 7000, 7002].includes(responseData.resultCode)
+                ? 'PENDING'
+                : 'FAILED',
+        }
+    }
 
-            if (calculatedSignature !== signature) {
-                this.logger.warn(
-                    `Invalid MoMo IPN signature. Expected: ${calculatedSignature}, Received: ${signature}`
-                )
-                return {
-                    success: false,
-                    orderId: parseInt(orderId) || 0,
-                    transactionId: transId || '',
-                    amount: amount ? parseInt(amount) : undefined,
+    /**
+     * Refund a MoMo payment through the refund API
+     * externalTransactionId holds MoMo's transId from the IPN
+     */
+    async refund(
+        payment: Payment,
+        amount: number,
+        reference: string
+    ): Promise<{ refundId: string }> {
+        if (!this.partnerCode || !this.accessKey || !this.secretKey) {
+            throw new BadRequestException('MoMo credentials not configured')
+        }
+        if (!payment.externalTransactionId) {
+            throw new BadRequestException(
+                `Payment ${payment.id} has no MoMo transaction to refund`
+            )
+        }
+
+        // MoMo needs a fresh orderId per refund request
+        const requestParams: Record<string, string> = {
+            accessKey: this.accessKey,
+            amount: Math.round(amount).toString(),
+            description: `Refund ${reference} for order #${payment.orderId}`,
+            orderId: `refund-${reference}`,
+            partnerCode: this.partnerCode,
+            requestId: `${this.partnerCode}-refund-${reference}`,
+            transId: payment.externalTransactionId,
+        }
+        const signature = this.generateSignature(requestParams)
+
+        try {
+            const response = await fetch(
+                this.endpoint.replace(/\/create$/, '/refund'),
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        ...requestParams,
+                        lang: 'vi',
+                        signature,
+                    }),
                 }
-            }
+            )
 
-            // Verify result code (0 = success)
-            const success = resultCode === 0 || resultCode === '0'
+            const responseData = (await response.json()) as {
+                resultCode: number
+                message?: string
+                transId?: number
+            }
 
-            if (!success) {
-                this.logger.warn(
-                    `MoMo payment failed for order ${orderId}: ${message}`
+            if (responseData.resultCode !== 0) {
+                this.logger.error(
+                    `MoMo refund failed: ${JSON.stringify(responseData)}`
                 )
-            } else {
-                this.logger.log(
-                    `MoMo payment verified successfully for order ${orderId}, transaction: ${transId}`
+                throw new BadRequestException(
+                    `MoMo refund failed: ${responseData.message || 'Unknown error'}`
                 )
             }
 
-            return {
-                success,
-                orderId: parseInt(orderId) || 0,
-                transactionId: transId || '',
-                amount: amount ? parseInt(amount) : undefined,
-            }
+            this.logger.log(
+                `MoMo refund created for payment ${payment.id}, transId: ${responseData.transId}`
+            )
+
+            return { refundId: String(responseData.transId) }
         } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
             this.logger.error(
-                `Error verifying MoMo IPN: ${error instanceof Error ? error.message : 'Unknown error'}`
+                `Error refunding MoMo payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+            throw new BadRequestException(
+                `Failed to refund MoMo payment: ${error instanceof Error ? error.message : 'Unknown error'}`
             )
-            return {
-                success: false,
-                orderId: 0,
-                transactionId: '',
-            }
         }
     }
 }
-
@@ -1,5 +1,16 @@
 import { Payment, Order } from '@prisma/client'
 
+/**
+ * What the gateway reports for a payment
+ * PENDING while the customer can still pay; FAILED when it expired, was
+ * declined or never reached the gateway
+ */
+export type GatewayPaymentStatus = {
+    status: 'PAID' | 'PENDING' | 'FAILED'
+    transactionId?: string
+    amount?: number
+}
+
 /**
  * Interface for payment gateway strategies
  * Allows easy addition of new payment providers (Stripe, ZaloPay, etc.)
@@ -7,27 +18,67 @@ import { Payment, Order } from '@prisma/client'
 export interface IPaymentStrategy {
     /**
      * Create a payment transaction and return the payment URL
-     * @param order - The order to create payment for
-     * @returns Promise with payment URL, order ID, and request ID
+     * @param order - The order to create payment for, with the payment being
+     * processed (its amount may be a partial split-bill amount)
+     * @returns Promise with payment URL, order ID, and request ID, plus the
+     * reference the gateway knows the payment by (stored for refunds)
      */
-    createTransaction(
-        order: Order & { payment?: Payment | null }
-    ): Promise<{
+    createTransaction(order: Order & { payment?: Payment | null }): Promise<{
         payUrl: string
         orderId: string
         requestId: string
+        reference?: string
     }>
 
     /**
      * Verify IPN (Instant Payment Notification) from payment gateway
      * @param payload - The callback payload from payment gateway
-     * @returns Promise with verification result
+     * @returns Promise with verification result; verified is false when the
+     * signature does not match, success is false when the payment failed
      */
     verifyIPN(payload: any): Promise<{
         success: boolean
         orderId: number
         transactionId: string
         amount?: number
+        paymentId?: number
+        verified?: boolean
     }>
+
+    /**
+     * Ask the gateway what became of a payment still PENDING on our side
+     * (used by reconciliation when no IPN arrived)
+     * @param payment - The pending payment, with its gateway reference
+     * @returns Promise with the gateway status, plus the captured amount and
+     * transaction ID when paid
+     */
+    queryStatus(payment: Payment): Promise<GatewayPaymentStatus>
+
+    /**
+     * Give back part or all of a captured payment through the gateway
+     * @param payment - The captured payment, carrying the gateway transaction ID
+     * @param amount - Amount to refund, at most what is left of the payment
+     * @param reference - Our refund reference, used as idempotency key
+     * @returns Promise with the gateway refund ID
+     */
+    refund(
+        payment: Payment,
+        amount: number,
+        reference: string
+    ): Promise<{ refundId: string }>
 }
 
+/**
+ * Gateways that send the customer back to us after paying (MoMo, VNPay,
+ * ZaloPay); the payment itself is only confirmed by the IPN
+ */
+export interface IRedirectPaymentStrategy extends IPaymentStrategy {
+    /**
+     * Read the query string of the return redirect
+     * @returns The order paid for and whether the gateway reported success
+     */
+    parseReturn(query: Record<string, string>): {
+        orderId: number
+        success: boolean
+    }
+}
@@ -1,6 +1,9 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
-import { IPaymentStrategy } from './payment.strategy.interface'
+import {
+    GatewayPaymentStatus,
+    IPaymentStrategy,
+} from './payment.strategy.interface'
 import { Payment, Order } from '@prisma/client'
 import Stripe from 'stripe'
 
@@ -41,6 +44,7 @@ export class StripeStrategy implements IPaymentStrategy {
         payUrl: string
         orderId: string
         requestId: string
+        reference: string
     }> {
         if (!this.configService.get<string>('stripe.secretKey')) {
             throw new BadRequestException('Stripe secret key not configured')
@@ -55,7 +59,9 @@ export class StripeStrategy implements IPaymentStrategy {
         // Convert amount to cents (Stripe uses smallest currency unit)
         // VND doesn't use cents, so we'll use the amount as-is
         // For USD, multiply by 100
-        const amount = Math.round(Number(order.totalAmount))
+        const amount = Math.round(
+            Number(order.payment?.amount ?? order.totalAmount)
+        )
 
         // Determine currency (VND or USD)
         // For now, using VND - can be made configurable
@@ -82,6 +88,9 @@ export class StripeStrategy implements IPaymentStrategy {
                 metadata: {
                     orderId: orderId,
                     requestId: requestId,
+                    ...(order.payment && {
+                        paymentId: order.payment.id.toString(),
+                    }),
                 },
                 success_url: `${this.frontendUrl}/order/status?success=true`,
                 cancel_url: `${this.frontendUrl}/order/status?canceled=true`,
@@ -102,6 +111,7 @@ export class StripeStrategy implements IPaymentStrategy {
                 payUrl: session.url,
                 orderId: orderId,
                 requestId: requestId,
+                reference: session.id,
             }
         } catch (error) {
             this.logger.error(
@@ -131,6 +141,7 @@ export class StripeStrategy implements IPaymentStrategy {
         orderId: number
         transactionId: string
         amount?: number
+        paymentId?: number
     }> {
         this.logger.log(
             `Received Stripe webhook: ${typeof payload === 'string' ? payload.substring(0, 100) : JSON.stringify(payload)}`
@@ -199,9 +210,10 @@ export class StripeStrategy implements IPaymentStrategy {
                         success: true,
                         orderId: parseInt(orderId),
                         transactionId: session.id,
-                        amount: session.amount_total
-                            ? session.amount_total / 100
-                            : undefined, // Convert from cents
+                        amount: session.amount_total ?? undefined, // VND is zero-decimal
+                        paymentId: session.metadata?.paymentId
+                            ? parseInt(session.metadata.paymentId)
+                            : undefined,
                     }
                 } else {
                     this.logger.warn(
@@ -239,5 +251,101 @@ export class StripeStrategy implements IPaymentStrategy {
             }
         }
     }
-}
 
+    /**
+     * Look up the Checkout Session of a pending payment
+     * Sessions stay open for 24 hours unless expired earlier
+     */
+    async queryStatus(payment: Payment): Promise<GatewayPaymentStatus> {
+        const sessionId = [
+            payment.gatewayReference,
+            payment.externalTransactionId,
+        ].find((id) => id?.startsWith('cs_'))
+        if (!sessionId) {
+            return { status: 'FAILED' }
+        }
+
+        const session = await this.stripe.checkout.sessions.retrieve(sessionId)
+
+        if (session.payment_status === 'paid') {
+            return {
+                status: 'PAID',
+                transactionId: session.id,
+                amount: session.amount_total ?? undefined,
+            }
+        }
+        return { status: session.status === 'open' ? 'PENDING' : 'FAILED' }
+    }
+
+    /**
+     * Refund a card payment
+     * Payments store the Checkout Session ID; the refund goes against its
+     * PaymentIntent
+     */
+    async refund(
+        payment: Payment,
+        amount: number,
+        reference: string
+    ): Promise<{ refundId: string }> {
+        if (!this.configService.get<string>('stripe.secretKey')) {
+            throw new BadRequestException('Stripe secret key not configured')
+        }
+        if (!payment.externalTransactionId) {
+            throw new BadRequestException(
+                `Payment ${payment.id} has no Stripe transaction to refund`
+            )
+        }
+
+        try {
+            let paymentIntent: string | undefined =
+                payment.externalTransactionId
+            if (paymentIntent.startsWith('cs_')) {
+                const session =
+                    await this.stripe.checkout.sessions.retrieve(paymentIntent)
+                paymentIntent =
+                    typeof session.payment_intent === 'string'
+                        ? session.payment_intent
+                        : session.payment_intent?.id
+            }
+            if (!paymentIntent) {
+                throw new BadRequestException(
+                    `Stripe session of payment ${payment.id} has no payment intent`
+                )
+            }
+
+            // VND is zero-decimal, amounts are sent as-is
+            const refund = await this.stripe.refunds.create(
+                {
+                    payment_intent: paymentIntent,
+                    amount: Math.round(amount),
+                    metadata: {
+                        orderId: payment.orderId.toString(),
+                        paymentId: payment.id.toString(),
+                        refundId: reference,
+                    },
+                },
+                { idempotencyKey: `refund-${reference}` }
+            )
+
+            this.logger.log(
+                `Stripe refund ${refund.id} created for payment ${payment.id}: ${refund.status}`
+            )
+
+            return { refundId: refund.id }
+        } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
+            this.logger.error(
+                `Error refunding Stripe payment ${payment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+
+            if (error instanceof Stripe.errors.StripeError) {
+                throw new BadRequestException(`Stripe error: ${error.message}`)
+            }
+
+            throw new BadRequestException(
+                `Failed to refund Stripe payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+    }
+}
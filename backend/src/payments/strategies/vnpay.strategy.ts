@@ -0,0 +1,392 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+    GatewayPaymentStatus,
+    IRedirectPaymentStrategy,
+} from './payment.strategy.interface'
+import { Payment, Order } from '@prisma/client'
+import {
+    createGatewayReference,
+    hmac,
+    parseGatewayReference,
+    signaturesMatch,
+    toGatewayDate,
+} from './gateway.util'
+
+const VNPAY_VERSION = '2.1.0'
+
+/**
+ * VNPay Payment Gateway Strategy Implementation
+ * Customers pay on VNPay's hosted page (bank app QR, ATM or card); the IPN
+ * URL is registered in the VNPay merchant portal, not sent per request
+ */
+@Injectable()
+export class VnpayStrategy implements IRedirectPaymentStrategy {
+    private readonly logger = new Logger(VnpayStrategy.name)
+    private readonly tmnCode: string
+    private readonly hashSecret: string
+    private readonly paymentUrl: string
+    private readonly apiUrl: string
+    private readonly appBaseUrl: string
+
+    constructor(private readonly configService: ConfigService) {
+        this.tmnCode = this.configService.get<string>('vnpay.tmnCode') || ''
+        this.hashSecret =
+            this.configService.get<string>('vnpay.hashSecret') || ''
+        this.paymentUrl =
+            this.configService.get<string>('vnpay.paymentUrl') ||
+            'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html'
+        this.apiUrl =
+            this.configService.get<string>('vnpay.apiUrl') ||
+            'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction'
+        this.appBaseUrl =
+            this.configService.get<string>('app.baseUrl') ||
+            'http://localhost:3000'
+
+        if (!this.tmnCode || !this.hashSecret) {
+            this.logger.warn('VNPay credentials not fully configured')
+        }
+    }
+
+    /**
+     * VNPay signs the sorted, URL-encoded query string (spaces as +)
+     * with HMAC-SHA512
+     */
+    private toSignData(params: Record<string, string>): string {
+        return Object.keys(params)
+            .sort()
+            .map(
+                (key) =>
+                    `${key}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`
+            )
+            .join('&')
+    }
+
+    /**
+     * Check vnp_SecureHash on IPN and return parameters
+     */
+    private verifySecureHash(query: Record<string, unknown>) {
+        const params: Record<string, string> = {}
+        Object.keys(query).forEach((key) => {
+            const value = query[key]
+            if (
+                key.startsWith('vnp_') &&
+                key !== 'vnp_SecureHash' &&
+                key !== 'vnp_SecureHashType' &&
+                value !== undefined &&
+                value !== ''
+            ) {
+                params[key] = String(value as string)
+            }
+        })
+
+        const signature = hmac(
+            'sha512',
+            this.hashSecret,
+            this.toSignData(params)
+        )
+        return signaturesMatch(signature, query.vnp_SecureHash)
+    }
+
+    /**
+     * Build the signed VNPay payment URL
+     */
+    createTransaction(order: Order & { payment?: Payment | null }): Promise<{
+        payUrl: string
+        orderId: string
+        requestId: string
+        reference: string
+    }> {
+        if (!this.tmnCode || !this.hashSecret) {
+            throw new BadRequestException('VNPay credentials not configured')
+        }
+        if (!order.payment) {
+            throw new BadRequestException(
+                'VNPay payments need a payment record'
+            )
+        }
+
+        const createdAt = new Date()
+        const txnRef = createGatewayReference(order.payment, createdAt)
+        const amount = Math.round(Number(order.payment.amount))
+
+        const params: Record<string, string> = {
+            vnp_Version: VNPAY_VERSION,
+            vnp_Command: 'pay',
+            vnp_TmnCode: this.tmnCode,
+            vnp_Amount: String(amount * 100), // VNPay amounts are x100
+            vnp_CurrCode: 'VND',
+            vnp_TxnRef: txnRef,
+            vnp_OrderInfo: `Thanh toan don hang ${order.id}`,
+            vnp_OrderType: 'other',
+            vnp_Locale: 'vn',
+            vnp_ReturnUrl: `${this.appBaseUrl}/api/payments/return/vnpay`,
+            vnp_IpAddr: '127.0.0.1',
+            vnp_CreateDate: toGatewayDate(createdAt),
+            vnp_ExpireDate: toGatewayDate(
+                new Date(createdAt.getTime() + 15 * 60 * 1000)
+            ),
+        }
+
+        const signData = this.toSignData(params)
+        const secureHash = hmac('sha512', this.hashSecret, signData)
+
+        this.logger.log(`VNPay payment URL created for order ${order.id}`)
+
+        return Promise.resolve({
+            payUrl: `${this.paymentUrl}?${signData}&vnp_SecureHash=${secureHash}`,
+            orderId: txnRef,
+            requestId: txnRef,
+            reference: txnRef,
+        })
+    }
+
+    /**
+     * Verify IPN callback from VNPay (query parameters of a GET request)
+     */
+    verifyIPN(query: Record<string, unknown>): Promise<{
+        success: boolean
+        orderId: number
+        transactionId: string
+        amount?: number
+        paymentId?: number
+        verified: boolean
+    }> {
+        this.logger.log(`Received VNPay IPN: ${JSON.stringify(query)}`)
+
+        const reference = parseGatewayReference(
+            typeof query.vnp_TxnRef === 'string' ? query.vnp_TxnRef : ''
+        )
+        const result = {
+            orderId: reference?.orderId ?? 0,
+            paymentId: reference?.paymentId,
+            transactionId:
+                typeof query.vnp_TransactionNo === 'string'
+                    ? query.vnp_TransactionNo
+                    : '',
+            amount: query.vnp_Amount
+                ? Number(query.vnp_Amount) / 100
+                : undefined,
+        }
+
+        if (!this.verifySecureHash(query)) {
+            this.logger.warn(
+                `Invalid VNPay IPN signature for ${String(query.vnp_TxnRef)}`
+            )
+            return Promise.resolve({
+                ...result,
+                success: false,
+                verified: false,
+            })
+        }
+
+        // Both codes are 00 when the money was taken
+        const success =
+            query.vnp_ResponseCode === '00' &&
+            query.vnp_TransactionStatus === '00'
+
+        if (!success) {
+            this.logger.warn(
+                `VNPay payment failed for order ${result.orderId}: response code ${String(query.vnp_ResponseCode)}`
+            )
+        }
+
+        return Promise.resolve({ ...result, success, verified: true })
+    }
+
+    parseReturn(query: Record<string, string>) {
+        const reference = parseGatewayReference(query.vnp_TxnRef || '')
+        return {
+            orderId: reference?.orderId ?? 0,
+            success:
+                this.verifySecureHash(query) && query.vnp_ResponseCode === '00',
+        }
+    }
+
+    /**
+     * Check a payment through the merchant API (querydr)
+     * Payment URLs expire after 15 minutes, so a transaction VNPay does not
+     * know (91) was never paid
+     */
+    async queryStatus(payment: Payment): Promise<GatewayPaymentStatus> {
+        if (!this.tmnCode || !this.hashSecret) {
+            throw new BadRequestException('VNPay credentials not configured')
+        }
+
+        const original = parseGatewayReference(payment.gatewayReference || '')
+        if (!original || !payment.gatewayReference) {
+            return { status: 'FAILED' }
+        }
+
+        const request = {
+            vnp_RequestId: `query-${payment.id}-${Date.now()}`,
+            vnp_Version: VNPAY_VERSION,
+            vnp_Command: 'querydr',
+            vnp_TmnCode: this.tmnCode,
+            vnp_TxnRef: payment.gatewayReference,
+            vnp_TransactionDate: toGatewayDate(original.createdAt),
+            vnp_CreateDate: toGatewayDate(new Date()),
+            vnp_IpAddr: '127.0.0.1',
+            vnp_OrderInfo: `Query payment ${payment.id}`,
+        }
+
+        // Pipe-joined like the refund request, in this exact order
+        const signData = [
+            request.vnp_RequestId,
+            request.vnp_Version,
+            request.vnp_Command,
+            request.vnp_TmnCode,
+            request.vnp_TxnRef,
+            request.vnp_TransactionDate,
+            request.vnp_CreateDate,
+            request.vnp_IpAddr,
+            request.vnp_OrderInfo,
+        ].join('|')
+
+        const response = await fetch(this.apiUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                ...request,
+                vnp_SecureHash: hmac('sha512', this.hashSecret, signData),
+            }),
+        })
+
+        const responseData = (await response.json()) as {
+            vnp_ResponseCode: string
+            vnp_Message?: string
+            vnp_TransactionStatus?: string
+            vnp_TransactionNo?: string
+            vnp_Amount?: string
+        }
+
+        if (responseData.vnp_ResponseCode === '91') {
+            return { status: 'FAILED' }
+        }
+        if (responseData.vnp_ResponseCode !== '00') {
+            throw new BadRequestException(
+                `VNPay query failed: ${responseData.vnp_Message || responseData.vnp_ResponseCode}`
+            )
+        }
+
+        // 00 = paid, 01 = not completed yet, anything else failed
+        switch (responseData.vnp_TransactionStatus) {
+            case '00':
+                return {
+                    status: 'PAID',
+                    transactionId: responseData.vnp_TransactionNo,
+                    amount: Number(responseData.vnp_Amount) / 100,
+                }
+            case '01':
+                return { status: 'PENDING' }
+            default:
+                return { status: 'FAILED' }
+        }
+    }
+
+    /**
+     * Refund through the merchant API
+     * VNPay identifies the original payment by our TxnRef and its create date
+     */
+    async refund(
+        payment: Payment,
+        amount: number,
+        reference: string
+    ): Promise<{ refundId: string }> {
+        if (!this.tmnCode || !this.hashSecret) {
+            throw new BadRequestException('VNPay credentials not configured')
+        }
+
+        const original = parseGatewayReference(payment.gatewayReference || '')
+        if (!original || !payment.gatewayReference) {
+            throw new BadRequestException(
+                `Payment ${payment.id} has no VNPay transaction to refund`
+            )
+        }
+
+        const isFullRefund =
+            Number(payment.refundedAmount) === 0 &&
+            amount >= Number(payment.amount)
+
+        const request = {
+            vnp_RequestId: `refund-${reference}-${Date.now()}`,
+            vnp_Version: VNPAY_VERSION,
+            vnp_Command: 'refund',
+            vnp_TmnCode: this.tmnCode,
+            vnp_TransactionType: isFullRefund ? '02' : '03',
+            vnp_TxnRef: payment.gatewayReference,
+            vnp_Amount: String(Math.round(amount) * 100),
+            vnp_TransactionNo: payment.externalTransactionId || '',
+            vnp_TransactionDate: toGatewayDate(original.createdAt),
+            vnp_CreateBy: 'AeroDine',
+            vnp_CreateDate: toGatewayDate(new Date()),
+            vnp_IpAddr: '127.0.0.1',
+            vnp_OrderInfo: `Refund ${reference} for order ${payment.orderId}`,
+        }
+
+        // The merchant API signs a pipe-joined list in this exact order
+        const signData = [
+            request.vnp_RequestId,
+            request.vnp_Version,
+            request.vnp_Command,
+            request.vnp_TmnCode,
+            request.vnp_TransactionType,
+            request.vnp_TxnRef,
+            request.vnp_Amount,
+            request.vnp_TransactionNo,
+            request.vnp_TransactionDate,
+            request.vnp_CreateBy,
+            request.vnp_CreateDate,
+            request.vnp_IpAddr,
+            request.vnp_OrderInfo,
+        ].join('|')
+
+        try {
+            const response = await fetch(this.apiUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    ...request,
+                    vnp_SecureHash: hmac('sha512', this.hashSecret, signData),
+                }),
+            })
+
+            const responseData = (await response.json()) as {
+                vnp_ResponseCode: string
+                vnp_Message?: string
+                vnp_TransactionNo?: string
+            }
+
+            if (responseData.vnp_ResponseCode !== '00') {
+                this.logger.error(
+                    `VNPay refund failed: ${JSON.stringify(responseData)}`
+                )
+                throw new BadRequestException(
+                    `VNPay refund failed: ${responseData.vnp_Message || responseData.vnp_ResponseCode}`
+                )
+            }
+
+            this.logger.log(
+                `VNPay refund created for payment ${payment.id}, transaction: ${responseData.vnp_TransactionNo}`
+            )
+
+            return {
+                refundId:
+                    responseData.vnp_TransactionNo || request.vnp_RequestId,
+            }
+        } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
+            this.logger.error(
+                `Error refunding VNPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+            throw new BadRequestException(
+                `Failed to refund VNPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+    }
+}
@@ -0,0 +1,362 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+    GatewayPaymentStatus,
+    IRedirectPaymentStrategy,
+} from './payment.strategy.interface'
+import { Payment, Order } from '@prisma/client'
+import {
+    createGatewayReference,
+    hmac,
+    parseGatewayReference,
+    signaturesMatch,
+    toGatewayDate,
+} from './gateway.util'
+
+/**
+ * ZaloPay Payment Gateway Strategy Implementation (API v2)
+ * Requests are signed with key1; callbacks and redirects with key2
+ */
+@Injectable()
+export class ZaloPayStrategy implements IRedirectPaymentStrategy {
+    private readonly logger = new Logger(ZaloPayStrategy.name)
+    private readonly appId: string
+    private readonly key1: string
+    private readonly key2: string
+    private readonly endpoint: string
+    private readonly appBaseUrl: string
+
+    constructor(private readonly configService: ConfigService) {
+        this.appId = this.configService.get<string>('zalopay.appId') || ''
+        this.key1 = this.configService.get<string>('zalopay.key1') || ''
+        this.key2 = this.configService.get<string>('zalopay.key2') || ''
+        this.endpoint =
+            this.configService.get<string>('zalopay.endpoint') ||
+            'https://sb-openapi.zalopay.vn/v2'
+        this.appBaseUrl =
+            this.configService.get<string>('app.baseUrl') ||
+            'http://localhost:3000'
+
+        if (!this.appId || !this.key1 || !this.key2) {
+            this.logger.warn('ZaloPay credentials not fully configured')
+        }
+    }
+
+    /**
+     * app_trans_id must start with the Vietnam date as yymmdd_
+     */
+    private toAppTransId(reference: string, date: Date) {
+        return `${toGatewayDate(date).slice(2, 8)}_${reference}`
+    }
+
+    private toReference(appTransId: string) {
+        return parseGatewayReference(appTransId.replace(/^\d{6}_/, ''))
+    }
+
+    private async post<T>(path: string, params: Record<string, string>) {
+        const response = await fetch(`${this.endpoint}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams(params).toString(),
+        })
+        return (await response.json()) as T
+    }
+
+    /**
+     * Create a ZaloPay order and return its payment page
+     */
+    async createTransaction(
+        order: Order & { payment?: Payment | null }
+    ): Promise<{
+        payUrl: string
+        orderId: string
+        requestId: string
+        reference: string
+    }> {
+        if (!this.appId || !this.key1 || !this.key2) {
+            throw new BadRequestException('ZaloPay credentials not configured')
+        }
+        if (!order.payment) {
+            throw new BadRequestException(
+                'ZaloPay payments need a payment record'
+            )
+        }
+
+        const now = new Date()
+        const appTransId = this.toAppTransId(
+            createGatewayReference(order.payment, now),
+            now
+        )
+        const params = {
+            app_id: this.appId,
+            app_trans_id: appTransId,
+            app_user: 'AeroDine',
+            app_time: String(now.getTime()),
+            amount: String(Math.round(Number(order.payment.amount))),
+            item: '[]',
+            embed_data: JSON.stringify({
+                redirecturl: `${this.appBaseUrl}/api/payments/return/zalopay`,
+            }),
+            description: `AeroDine - Thanh toan don hang #${order.id}`,
+            bank_code: '',
+            callback_url: `${this.appBaseUrl}/api/payments/callback/zalopay`,
+        }
+
+        const mac = hmac(
+            'sha256',
+            this.key1,
+            [
+                params.app_id,
+                params.app_trans_id,
+                params.app_user,
+                params.amount,
+                params.app_time,
+                params.embed_data,
+                params.item,
+            ].join('|')
+        )
+
+        this.logger.log(`Creating ZaloPay order for order ${order.id}`)
+
+        try {
+            const responseData = await this.post<{
+                return_code: number
+                return_message?: string
+                sub_return_message?: string
+                order_url?: string
+            }>('/create', { ...params, mac })
+
+            if (responseData.return_code !== 1 || !responseData.order_url) {
+                this.logger.error(
+                    `ZaloPay order creation failed: ${JSON.stringify(responseData)}`
+                )
+                throw new BadRequestException(
+                    `ZaloPay payment failed: ${responseData.sub_return_message || responseData.return_message || 'Unknown error'}`
+                )
+            }
+
+            return {
+                payUrl: responseData.order_url,
+                orderId: appTransId,
+                requestId: appTransId,
+                reference: appTransId,
+            }
+        } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
+            this.logger.error(
+                `Error creating ZaloPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+            throw new BadRequestException(
+                `Failed to create ZaloPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+    }
+
+    /**
+     * Verify callback from ZaloPay: { data, mac } with mac = HMAC(key2, data)
+     * ZaloPay only calls back for successful payments
+     */
+    verifyIPN(payload: { data?: string; mac?: string }): Promise<{
+        success: boolean
+        orderId: number
+        transactionId: string
+        amount?: number
+        paymentId?: number
+        verified: boolean
+    }> {
+        this.logger.log(`Received ZaloPay callback: ${JSON.stringify(payload)}`)
+
+        const data = payload?.data || ''
+        if (!signaturesMatch(hmac('sha256', this.key2, data), payload?.mac)) {
+            this.logger.warn('Invalid ZaloPay callback mac')
+            return Promise.resolve({
+                success: false,
+                orderId: 0,
+                transactionId: '',
+                verified: false,
+            })
+        }
+
+        try {
+            const transaction = JSON.parse(data) as {
+                app_trans_id: string
+                zp_trans_id: number
+                amount: number
+            }
+            const reference = this.toReference(transaction.app_trans_id)
+
+            this.logger.log(
+                `ZaloPay payment verified for ${transaction.app_trans_id}, transaction: ${transaction.zp_trans_id}`
+            )
+
+            return Promise.resolve({
+                success: !!reference,
+                orderId: reference?.orderId ?? 0,
+                paymentId: reference?.paymentId,
+                transactionId: String(transaction.zp_trans_id),
+                amount: Number(transaction.amount),
+                verified: true,
+            })
+        } catch (error) {
+            this.logger.error(
+                `Error reading ZaloPay callback: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+            return Promise.resolve({
+                success: false,
+                orderId: 0,
+                transactionId: '',
+                verified: true,
+            })
+        }
+    }
+
+    /**
+     * Redirect carries status=1 on success and a key2 checksum
+     */
+    parseReturn(query: Record<string, string>) {
+        const checksum = hmac(
+            'sha256',
+            this.key2,
+            [
+                query.appid,
+                query.apptransid,
+                query.pmcid,
+                query.bankcode,
+                query.amount,
+                query.discountamount,
+                query.status,
+            ].join('|')
+        )
+        const reference = this.toReference(query.apptransid || '')
+
+        return {
+            orderId: reference?.orderId ?? 0,
+            success:
+                signaturesMatch(checksum, query.checksum) &&
+                query.status === '1',
+        }
+    }
+
+    /**
+     * Check a payment through the v2 query API
+     * return_code 1 = paid, 2 = failed, 3 = not paid yet or processing
+     */
+    async queryStatus(payment: Payment): Promise<GatewayPaymentStatus> {
+        if (!this.appId || !this.key1) {
+            throw new BadRequestException('ZaloPay credentials not configured')
+        }
+        if (!payment.gatewayReference) {
+            return { status: 'FAILED' }
+        }
+
+        const responseData = await this.post<{
+            return_code: number
+            amount?: number
+            zp_trans_id?: number
+        }>('/query', {
+            app_id: this.appId,
+            app_trans_id: payment.gatewayReference,
+            mac: hmac(
+                'sha256',
+                this.key1,
+                [this.appId, payment.gatewayReference, this.key1].join('|')
+            ),
+        })
+
+        switch (responseData.return_code) {
+            case 1:
+                return {
+                    status: 'PAID',
+                    transactionId: String(responseData.zp_trans_id),
+                    amount: responseData.amount,
+                }
+            case 3:
+                return { status: 'PENDING' }
+            default:
+                return { status: 'FAILED' }
+        }
+    }
+
+    /**
+     * Refund through the v2 refund API
+     * externalTransactionId holds ZaloPay's zp_trans_id from the callback
+     */
+    async refund(
+        payment: Payment,
+        amount: number,
+        reference: string
+    ): Promise<{ refundId: string }> {
+        if (!this.appId || !this.key1) {
+            throw new BadRequestException('ZaloPay credentials not configured')
+        }
+        if (!payment.externalTransactionId) {
+            throw new BadRequestException(
+                `Payment ${payment.id} has no ZaloPay transaction to refund`
+            )
+        }
+
+        const now = new Date()
+        const params = {
+            app_id: this.appId,
+            // yymmdd_appid_<unique per attempt>
+            m_refund_id: `${toGatewayDate(now).slice(2, 8)}_${this.appId}_${reference}${now.getTime() % 100000}`,
+            zp_trans_id: payment.externalTransactionId,
+            amount: String(Math.round(amount)),
+            description: `Refund ${reference} for order #${payment.orderId}`,
+            timestamp: String(now.getTime()),
+        }
+        const mac = hmac(
+            'sha256',
+            this.key1,
+            [
+                params.app_id,
+                params.zp_trans_id,
+                params.amount,
+                params.description,
+                params.timestamp,
+            ].join('|')
+        )
+
+        try {
+            const responseData = await this.post<{
+                return_code: number
+                return_message?: string
+                sub_return_message?: string
+                refund_id?: number
+            }>('/refund', { ...params, mac })
+
+            // 1 = refunded, 3 = still processing at ZaloPay
+            if (
+                responseData.return_code !== 1 &&
+                responseData.return_code !== 3
+            ) {
+                this.logger.error(
+                    `ZaloPay refund failed: ${JSON.stringify(responseData)}`
+                )
+                throw new BadRequestException(
+                    `ZaloPay refund failed: ${responseData.sub_return_message || responseData.return_message || 'Unknown error'}`
+                )
+            }
+
+            this.logger.log(
+                `ZaloPay refund created for payment ${payment.id}, refund: ${responseData.refund_id}`
+            )
+
+            return {
+                refundId: String(responseData.refund_id ?? params.m_refund_id),
+            }
+        } catch (error) {
+            if (error instanceof BadRequestException) throw error
+
+            this.logger.error(
+                `Error refunding ZaloPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+            throw new BadRequestException(
+                `Failed to refund ZaloPay payment: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import {
+    IsBoolean,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { DiscountType } from '@prisma/client'
+import { AvailabilityWindowDto } from '../../menus/dto/availability-window.dto'
+
+/**
+ * Discount rule; the schedule fields work like a menu availability window
+ * and leaving every scope ID out applies the rule to the whole menu
+ */
+export class CreatePricingRuleDto extends AvailabilityWindowDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({ example: 'Happy hour drinks' })
+    @IsString()
+    @IsNotEmpty()
+    name: string
+
+    @ApiProperty({ enum: DiscountType, example: DiscountType.PERCENTAGE })
+    @IsEnum(DiscountType)
+    discountType: DiscountType
+
+    @ApiProperty({
+        example: 20,
+        description: 'Percent off, or amount off per unit for FIXED',
+    })
+    @IsNumber()
+    @Min(0)
+    value: number
+
+    @ApiProperty({ example: 12, required: false })
+    @IsOptional()
+    @IsInt()
+    menuItemId?: number | null
+
+    @ApiProperty({ example: 3, required: false })
+    @IsOptional()
+    @IsInt()
+    categoryId?: number | null
+
+    @ApiProperty({
+        example: 7,
+        required: false,
+        description: "Discounts only this modifier option's price",
+    })
+    @IsOptional()
+    @IsInt()
+    modifierOptionId?: number | null
+
+    @ApiProperty({ example: true, required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean
+}
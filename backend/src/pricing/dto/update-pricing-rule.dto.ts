@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types'
+import { CreatePricingRuleDto } from './create-pricing-rule.dto'
+
+export class UpdatePricingRuleDto extends PartialType(
+    OmitType(CreatePricingRuleDto, ['restaurantId'] as const)
+) {}
@@ -0,0 +1,70 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Param,
+    Patch,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+    ApiQuery,
+} from '@nestjs/swagger'
+import { PricingService } from './pricing.service'
+import { CreatePricingRuleDto } from './dto/create-pricing-rule.dto'
+import { UpdatePricingRuleDto } from './dto/update-pricing-rule.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '@aerodine/shared-types'
+
+@ApiTags('pricing')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('pricing-rules')
+export class PricingController {
+    constructor(private readonly pricingService: PricingService) {}
+
+    @Post()
+    @ApiOperation({
+        summary: 'Create a pricing rule (ADMIN only)',
+        description:
+            'Percentage or fixed discount for a menu item, category, modifier option or the whole menu while its schedule is open.',
+    })
+    @ApiResponse({ status: 201, description: 'Pricing rule created' })
+    create(@Body() dto: CreatePricingRuleDto) {
+        return this.pricingService.create(dto)
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List pricing rules of a restaurant' })
+    @ApiQuery({ name: 'restaurantId', type: Number, required: true })
+    findAll(@Query('restaurantId') restaurantId: string) {
+        return this.pricingService.findAll(Number(restaurantId))
+    }
+
+    @Patch(':id')
+    @ApiOperation({
+        summary: 'Update a pricing rule (ADMIN only)',
+        description: 'Only items ordered afterwards get the new price.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Pricing rule ID' })
+    update(@Param('id') id: string, @Body() dto: UpdatePricingRuleDto) {
+        return this.pricingService.update(Number(id), dto)
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete a pricing rule (ADMIN only)' })
+    @ApiParam({ name: 'id', type: Number, description: 'Pricing rule ID' })
+    remove(@Param('id') id: string) {
+        return this.pricingService.remove(Number(id))
+    }
+}
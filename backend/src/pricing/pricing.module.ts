@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { PricingService } from './pricing.service'
+import { PricingController } from './pricing.controller'
+
+@Module({
+    controllers: [PricingController],
+    providers: [PricingService],
+    exports: [PricingService],
+})
+export class PricingModule {}
@@ -0,0 +1,277 @@
+import {
+    BadRequestException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import { DiscountType, Prisma, PricingRule } from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { isWithinWindows } from '../common/utils/availability.util'
+import { CreatePricingRuleDto } from './dto/create-pricing-rule.dto'
+import { UpdatePricingRuleDto } from './dto/update-pricing-rule.dto'
+
+/**
+ * Menu item ordered with the modifiers chosen for it
+ */
+export type PricingLine = {
+    menuItemId: number
+    categoryId: number
+    basePrice: number
+    modifiers: { modifierOptionId?: number; priceAdjustment: number }[]
+}
+
+/**
+ * Unit price of a line after the best matching rule
+ */
+export type PricedLine = {
+    listPrice: number
+    unitPrice: number
+    rule: { id: number; name: string } | null
+}
+
+/**
+ * Pricing Service - Automatic discounts (happy hour, lunch specials)
+ * Rules are evaluated on the restaurant's wall clock when items are ordered;
+ * each line gets the single rule that takes the most off it
+ */
+@Injectable()
+export class PricingService {
+    private readonly logger = new Logger(PricingService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    // ========================================================================
+    // RULES
+    // ========================================================================
+
+    async create(dto: CreatePricingRuleDto) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: dto.restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${dto.restaurantId} not found`
+            )
+        }
+
+        const data = this.toRuleData(dto)
+        await this.assertScopeInRestaurant(dto.restaurantId, data)
+
+        const rule = await this.prisma.pricingRule.create({
+            data: {
+                ...data,
+                restaurantId: dto.restaurantId,
+                name: dto.name.trim(),
+                discountType: dto.discountType,
+                value: dto.value,
+                isActive: dto.isActive ?? true,
+            },
+        })
+        this.logger.log(`Pricing rule ${rule.id} created: ${rule.name}`)
+        return rule
+    }
+
+    async findAll(restaurantId: number) {
+        return this.prisma.pricingRule.findMany({
+            where: { restaurantId },
+            include: {
+                menuItem: { select: { id: true, name: true } },
+                category: { select: { id: true, name: true } },
+                modifierOption: { select: { id: true, name: true } },
+            },
+            orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+        })
+    }
+
+    async update(id: number, dto: UpdatePricingRuleDto) {
+        const existing = await this.findOne(id)
+        // Validate the rule as it will be after the update
+        const data = this.toRuleData({
+            ...existing,
+            startDate: existing.startDate?.toISOString().slice(0, 10),
+            endDate: existing.endDate?.toISOString().slice(0, 10),
+            value: Number(existing.value),
+            ...dto,
+        })
+        await this.assertScopeInRestaurant(existing.restaurantId, data)
+
+        return this.prisma.pricingRule.update({
+            where: { id },
+            data: {
+                ...data,
+                name: dto.name?.trim(),
+                discountType: dto.discountType,
+                value: dto.value,
+                isActive: dto.isActive,
+            },
+        })
+    }
+
+    async remove(id: number) {
+        await this.findOne(id)
+        // Order items keep the rule name and their prices
+        await this.prisma.pricingRule.delete({ where: { id } })
+        return { message: 'Pricing rule deleted successfully' }
+    }
+
+    private async findOne(id: number) {
+        const rule = await this.prisma.pricingRule.findUnique({
+            where: { id },
+        })
+        if (!rule) {
+            throw new NotFoundException(`Pricing rule with ID ${id} not found`)
+        }
+        return rule
+    }
+
+    /**
+     * Validate value and schedule, and map the scope and schedule to columns
+     */
+    private toRuleData(dto: CreatePricingRuleDto | UpdatePricingRuleDto) {
+        if (
+            dto.discountType === DiscountType.PERCENTAGE &&
+            dto.value !== undefined &&
+            dto.value > 100
+        ) {
+            throw new BadRequestException(
+                'A percentage discount cannot exceed 100'
+            )
+        }
+        if (!dto.startTime !== !dto.endTime) {
+            throw new BadRequestException(
+                'Pricing rules need both startTime and endTime'
+            )
+        }
+        if (dto.startTime && dto.startTime === dto.endTime) {
+            throw new BadRequestException(
+                'Pricing rule startTime and endTime must differ'
+            )
+        }
+        if (dto.startDate && dto.endDate && dto.startDate > dto.endDate) {
+            throw new BadRequestException(
+                'Pricing rule startDate must not be after endDate'
+            )
+        }
+
+        return {
+            menuItemId: dto.menuItemId ?? null,
+            categoryId: dto.categoryId ?? null,
+            modifierOptionId: dto.modifierOptionId ?? null,
+            daysOfWeek: [...new Set(dto.daysOfWeek ?? [])].sort(
+                (a, b) => a - b
+            ),
+            startTime: dto.startTime || null,
+            endTime: dto.endTime || null,
+            startDate: dto.startDate ? new Date(dto.startDate) : null,
+            endDate: dto.endDate ? new Date(dto.endDate) : null,
+        }
+    }
+
+    private async assertScopeInRestaurant(
+        restaurantId: number,
+        scope: {
+            menuItemId: number | null
+            categoryId: number | null
+            modifierOptionId: number | null
+        }
+    ) {
+        const [menuItem, category, modifierOption] = await Promise.all([
+            scope.menuItemId
+                ? this.prisma.menuItem.findFirst({
+                      where: { id: scope.menuItemId, restaurantId },
+                  })
+                : true,
+            scope.categoryId
+                ? this.prisma.category.findFirst({
+                      where: { id: scope.categoryId, restaurantId },
+                  })
+                : true,
+            scope.modifierOptionId
+                ? this.prisma.modifierOption.findFirst({
+                      where: {
+                          id: scope.modifierOptionId,
+                          group: { restaurantId },
+                      },
+                  })
+                : true,
+        ])
+        if (!menuItem) {
+            throw new NotFoundException(
+                `Menu item with ID ${scope.menuItemId} not found`
+            )
+        }
+        if (!category) {
+            throw new NotFoundException(
+                `Category with ID ${scope.categoryId} not found`
+            )
+        }
+        if (!modifierOption) {
+            throw new NotFoundException(
+                `Modifier option with ID ${scope.modifierOptionId} not found`
+            )
+        }
+    }
+
+    // ========================================================================
+    // PRICE CALCULATION
+    // ========================================================================
+
+    /**
+     * Active rules whose schedule is open at the instant
+     */
+    async getActiveRules(
+        restaurantId: number,
+        at: Date,
+        timeZone: string,
+        tx?: Prisma.TransactionClient
+    ) {
+        const rules = await (tx ?? this.prisma).pricingRule.findMany({
+            where: { restaurantId, isActive: true },
+        })
+        return rules.filter((rule) => isWithinWindows([rule], at, timeZone))
+    }
+
+    /**
+     * Price one unit of a line with the rule that takes the most off
+     * Modifier rules discount that option's price, other rules the whole unit
+     */
+    priceLine(rules: PricingRule[], line: PricingLine): PricedLine {
+        const listPrice =
+            line.basePrice +
+            line.modifiers.reduce((sum, m) => sum + m.priceAdjustment, 0)
+
+        let best: { rule: PricingRule; discount: number } | null = null
+        for (const rule of rules) {
+            if (rule.menuItemId && rule.menuItemId !== line.menuItemId) continue
+            if (rule.categoryId && rule.categoryId !== line.categoryId) continue
+
+            let target = listPrice
+            if (rule.modifierOptionId) {
+                const chosen = line.modifiers.filter(
+                    (m) => m.modifierOptionId === rule.modifierOptionId
+                )
+                if (chosen.length === 0) continue
+                target = chosen.reduce((sum, m) => sum + m.priceAdjustment, 0)
+            }
+            if (target <= 0) continue
+
+            const value = Number(rule.value)
+            const discount =
+                rule.discountType === DiscountType.PERCENTAGE
+                    ? (target * value) / 100
+                    : Math.min(value, target)
+            if (discount > 0 && (!best || discount > best.discount)) {
+                best = { rule, discount }
+            }
+        }
+
+        if (!best) {
+            return { listPrice, unitPrice: listPrice, rule: null }
+        }
+        return {
+            listPrice,
+            unitPrice: Math.round((listPrice - best.discount) * 100) / 100,
+            rule: { id: best.rule.id, name: best.rule.name },
+        }
+    }
+}
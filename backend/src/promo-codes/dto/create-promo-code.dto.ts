@@ -0,0 +1,108 @@
+import {
+    IsBoolean,
+    IsDateString,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Matches,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { DiscountType } from '@prisma/client'
+
+/**
+ * Code customers enter at checkout; it discounts the whole order
+ */
+export class CreatePromoCodeDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({
+        example: 'WELCOME10',
+        description:
+            'Letters, digits, dashes and underscores; case-insensitive',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+        message: 'code must be 3-32 letters, digits, dashes or underscores',
+    })
+    code: string
+
+    @ApiProperty({ example: '10% off your first order', required: false })
+    @IsOptional()
+    @IsString()
+    description?: string | null
+
+    @ApiProperty({ enum: DiscountType, example: DiscountType.PERCENTAGE })
+    @IsEnum(DiscountType)
+    discountType: DiscountType
+
+    @ApiProperty({
+        example: 10,
+        description: 'Percent off, or amount off the order for FIXED',
+    })
+    @IsNumber()
+    @Min(0)
+    value: number
+
+    @ApiProperty({
+        example: 50000,
+        required: false,
+        description: 'Largest discount a PERCENTAGE code can give',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    maxDiscount?: number | null
+
+    @ApiProperty({
+        example: 200000,
+        required: false,
+        default: 0,
+        description: 'Order subtotal needed to use the code',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    minSpend?: number
+
+    @ApiProperty({
+        example: 100,
+        required: false,
+        description: 'Total number of orders that can use the code',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    usageLimit?: number | null
+
+    @ApiProperty({
+        example: 1,
+        required: false,
+        description: 'Orders per customer account or guest session',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    perUserLimit?: number | null
+
+    @ApiProperty({ example: '2026-03-01T00:00:00.000Z', required: false })
+    @IsOptional()
+    @IsDateString()
+    startsAt?: string | null
+
+    @ApiProperty({ example: '2026-03-31T23:59:59.000Z', required: false })
+    @IsOptional()
+    @IsDateString()
+    expiresAt?: string | null
+
+    @ApiProperty({ example: true, required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean
+}
@@ -0,0 +1,21 @@
+import { IsInt, IsNotEmpty, IsNumber, IsString, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * Check a code against the cart before the order is placed
+ */
+export class RedeemPromoCodeDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({ example: 'WELCOME10' })
+    @IsString()
+    @IsNotEmpty()
+    code: string
+
+    @ApiProperty({ example: 250000, description: 'Cart subtotal' })
+    @IsNumber()
+    @Min(0)
+    subtotal: number
+}
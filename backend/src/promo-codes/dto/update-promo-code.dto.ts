@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types'
+import { CreatePromoCodeDto } from './create-promo-code.dto'
+
+export class UpdatePromoCodeDto extends PartialType(
+    OmitType(CreatePromoCodeDto, ['restaurantId'] as const)
+) {}
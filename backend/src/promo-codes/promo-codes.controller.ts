@@ -0,0 +1,117 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+    Req,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+    ApiQuery,
+} from '@nestjs/swagger'
+import { Throttle } from '@nestjs/throttler'
+import { Request } from 'express'
+import { PromoCodesService } from './promo-codes.service'
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto'
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto'
+import { RedeemPromoCodeDto } from './dto/redeem-promo-code.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { UserRole } from '@aerodine/shared-types'
+
+@ApiTags('promo-codes')
+@Controller('promo-codes')
+export class PromoCodesController {
+    constructor(private readonly promoCodesService: PromoCodesService) {}
+
+    /**
+     * Check a code from the cart (guests and customers)
+     * The discount is only applied when the order is placed with the code
+     */
+    @UseGuards(OptionalJwtAuthGuard)
+    @Throttle({ short: { ttl: 60000, limit: 10 } }) // Slow down code guessing
+    @Post('redeem')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Check a promo code against the cart (PUBLIC)',
+        description:
+            'Validates expiry, minimum spend and usage limits and returns the discount. Pass the same code as promoCode when creating the order.',
+    })
+    @ApiResponse({ status: 200, description: 'Code is valid' })
+    @ApiResponse({ status: 400, description: 'Code cannot be used' })
+    redeem(
+        @Body() dto: RedeemPromoCodeDto,
+        @Req() req: Request,
+        @CurrentUser() user?: { id: number }
+    ) {
+        const cookies = req.cookies as Record<string, string> | undefined
+        const guestSessionId =
+            req.header('x-guest-session-id') || cookies?.guestSessionId
+
+        return this.promoCodesService.redeem(dto, {
+            userId: user?.id,
+            guestSessionId: user ? undefined : guestSessionId,
+        })
+    }
+
+    @Post()
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({
+        summary: 'Create a promo code (ADMIN only)',
+        description:
+            'Percentage or fixed discount on the order, with optional minimum spend, usage limits and validity period.',
+    })
+    @ApiResponse({ status: 201, description: 'Promo code created' })
+    create(@Body() dto: CreatePromoCodeDto) {
+        return this.promoCodesService.create(dto)
+    }
+
+    @Get()
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'List promo codes of a restaurant' })
+    @ApiQuery({ name: 'restaurantId', type: Number, required: true })
+    findAll(@Query('restaurantId') restaurantId: string) {
+        return this.promoCodesService.findAll(Number(restaurantId))
+    }
+
+    @Patch(':id')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({
+        summary: 'Update a promo code (ADMIN only)',
+        description: 'Orders already placed keep their discount.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Promo code ID' })
+    update(@Param('id') id: string, @Body() dto: UpdatePromoCodeDto) {
+        return this.promoCodesService.update(Number(id), dto)
+    }
+
+    @Delete(':id')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'Delete a promo code (ADMIN only)' })
+    @ApiParam({ name: 'id', type: Number, description: 'Promo code ID' })
+    remove(@Param('id') id: string) {
+        return this.promoCodesService.remove(Number(id))
+    }
+}
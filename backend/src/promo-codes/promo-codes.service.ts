@@ -0,0 +1,348 @@
+import {
+    BadRequestException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import { DiscountType, OrderStatus, Prisma, PromoCode } from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto'
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto'
+import { RedeemPromoCodeDto } from './dto/redeem-promo-code.dto'
+
+/**
+ * Who is using a code; per-user limits count orders of the account, or of
+ * the guest session when there is no account
+ */
+export type PromoCustomer = {
+    userId?: number
+    guestSessionId?: string
+}
+
+/**
+ * Promo Codes Service - Admin-managed codes redeemed at checkout
+ * A code discounts the order subtotal (after pricing rules) once, when the
+ * order is placed; usedCount holds one use per order until it is cancelled
+ */
+@Injectable()
+export class PromoCodesService {
+    private readonly logger = new Logger(PromoCodesService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    // ========================================================================
+    // CODES
+    // ========================================================================
+
+    async create(dto: CreatePromoCodeDto) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: dto.restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${dto.restaurantId} not found`
+            )
+        }
+
+        const code = this.normalizeCode(dto.code)
+        this.validateCodeData(dto)
+        await this.assertCodeFree(dto.restaurantId, code)
+
+        const promoCode = await this.prisma.promoCode.create({
+            data: {
+                restaurantId: dto.restaurantId,
+                code,
+                description: dto.description?.trim() || null,
+                discountType: dto.discountType,
+                value: dto.value,
+                maxDiscount: dto.maxDiscount ?? null,
+                minSpend: dto.minSpend ?? 0,
+                usageLimit: dto.usageLimit ?? null,
+                perUserLimit: dto.perUserLimit ?? null,
+                startsAt: dto.startsAt ? new Date(dto.startsAt) : null,
+                expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+                isActive: dto.isActive ?? true,
+            },
+        })
+        this.logger.log(`Promo code ${promoCode.code} created`)
+        return promoCode
+    }
+
+    async findAll(restaurantId: number) {
+        return this.prisma.promoCode.findMany({
+            where: { restaurantId },
+            orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+        })
+    }
+
+    async update(id: number, dto: UpdatePromoCodeDto) {
+        const existing = await this.findOne(id)
+        // Validate the code as it will be after the update
+        this.validateCodeData({
+            discountType: dto.discountType ?? existing.discountType,
+            value: dto.value ?? Number(existing.value),
+            startsAt:
+                dto.startsAt !== undefined
+                    ? dto.startsAt
+                    : existing.startsAt?.toISOString(),
+            expiresAt:
+                dto.expiresAt !== undefined
+                    ? dto.expiresAt
+                    : existing.expiresAt?.toISOString(),
+        })
+
+        const code = dto.code ? this.normalizeCode(dto.code) : undefined
+        if (code && code !== existing.code) {
+            await this.assertCodeFree(existing.restaurantId, code)
+        }
+
+        return this.prisma.promoCode.update({
+            where: { id },
+            data: {
+                code,
+                description:
+                    dto.description !== undefined
+                        ? dto.description?.trim() || null
+                        : undefined,
+                discountType: dto.discountType,
+                value: dto.value,
+                maxDiscount: dto.maxDiscount,
+                minSpend: dto.minSpend,
+                usageLimit: dto.usageLimit,
+                perUserLimit: dto.perUserLimit,
+                startsAt: this.toDate(dto.startsAt),
+                expiresAt: this.toDate(dto.expiresAt),
+                isActive: dto.isActive,
+            },
+        })
+    }
+
+    async remove(id: number) {
+        await this.findOne(id)
+        // Orders keep their discount amount
+        await this.prisma.promoCode.delete({ where: { id } })
+        return { message: 'Promo code deleted successfully' }
+    }
+
+    private async findOne(id: number) {
+        const promoCode = await this.prisma.promoCode.findUnique({
+            where: { id },
+        })
+        if (!promoCode) {
+            throw new NotFoundException(`Promo code with ID ${id} not found`)
+        }
+        return promoCode
+    }
+
+    // undefined leaves the column alone, null clears it
+    private toDate(value: string | null | undefined) {
+        if (value === undefined) return undefined
+        return value ? new Date(value) : null
+    }
+
+    private normalizeCode(code: string) {
+        return code.trim().toUpperCase()
+    }
+
+    private validateCodeData(dto: {
+        discountType?: DiscountType
+        value?: number
+        startsAt?: string | null
+        expiresAt?: string | null
+    }) {
+        if (
+            dto.discountType === DiscountType.PERCENTAGE &&
+            dto.value !== undefined &&
+            dto.value > 100
+        ) {
+            throw new BadRequestException(
+                'A percentage discount cannot exceed 100'
+            )
+        }
+        if (
+            dto.startsAt &&
+            dto.expiresAt &&
+            new Date(dto.startsAt) >= new Date(dto.expiresAt)
+        ) {
+            throw new BadRequestException(
+                'Promo code startsAt must be before expiresAt'
+            )
+        }
+    }
+
+    private async assertCodeFree(restaurantId: number, code: string) {
+        const existing = await this.prisma.promoCode.findUnique({
+            where: { restaurantId_code: { restaurantId, code } },
+        })
+        if (existing) {
+            throw new BadRequestException(`Promo code ${code} already exists`)
+        }
+    }
+
+    // ========================================================================
+    // REDEMPTION
+    // ========================================================================
+
+    /**
+     * Check a code against a cart and show the discount it would give
+     * Nothing is reserved; the order re-checks the code when it is placed
+     */
+    async redeem(dto: RedeemPromoCodeDto, customer: PromoCustomer) {
+        const promoCode = await this.findUsableCode(
+            dto.restaurantId,
+            dto.code,
+            dto.subtotal,
+            customer,
+            this.prisma
+        )
+        const discountAmount = this.calculateDiscount(promoCode, dto.subtotal)
+
+        return {
+            promoCodeId: promoCode.id,
+            code: promoCode.code,
+            description: promoCode.description,
+            discountType: promoCode.discountType,
+            value: Number(promoCode.value),
+            discountAmount,
+            totalAfterDiscount: dto.subtotal - discountAmount,
+        }
+    }
+
+    /**
+     * Validate a code for a new order and take one use of it
+     * Runs in the order's transaction so a failed order gives the use back
+     */
+    async applyToOrder(
+        restaurantId: number,
+        code: string,
+        subtotal: number,
+        customer: PromoCustomer,
+        tx: Prisma.TransactionClient
+    ) {
+        const promoCode = await this.findUsableCode(
+            restaurantId,
+            code,
+            subtotal,
+            customer,
+            tx
+        )
+
+        // Guarded increment: concurrent orders cannot go past the limit
+        const { count } = await tx.promoCode.updateMany({
+            where: {
+                id: promoCode.id,
+                ...(promoCode.usageLimit !== null && {
+                    usedCount: { lt: promoCode.usageLimit },
+                }),
+            },
+            data: { usedCount: { increment: 1 } },
+        })
+        if (count === 0) {
+            throw new BadRequestException(
+                `Promo code ${promoCode.code} has been fully redeemed`
+            )
+        }
+
+        return {
+            promoCodeId: promoCode.id,
+            discountAmount: this.calculateDiscount(promoCode, subtotal),
+        }
+    }
+
+    /**
+     * Give back the use held by a cancelled order
+     */
+    async releaseForOrder(
+        promoCodeId: number | null,
+        tx: Prisma.TransactionClient
+    ) {
+        if (!promoCodeId) return
+        await tx.promoCode.updateMany({
+            where: { id: promoCodeId, usedCount: { gt: 0 } },
+            data: { usedCount: { decrement: 1 } },
+        })
+    }
+
+    /**
+     * Discount a code gives on a subtotal, never more than the subtotal
+     */
+    calculateDiscount(promoCode: PromoCode, subtotal: number) {
+        const value = Number(promoCode.value)
+        let discount =
+            promoCode.discountType === DiscountType.PERCENTAGE
+                ? (subtotal * value) / 100
+                : value
+        if (
+            promoCode.discountType === DiscountType.PERCENTAGE &&
+            promoCode.maxDiscount !== null
+        ) {
+            discount = Math.min(discount, Number(promoCode.maxDiscount))
+        }
+        return Math.round(Math.min(discount, subtotal) * 100) / 100
+    }
+
+    private async findUsableCode(
+        restaurantId: number,
+        code: string,
+        subtotal: number,
+        customer: PromoCustomer,
+        client: Prisma.TransactionClient
+    ) {
+        const normalized = this.normalizeCode(code)
+        const promoCode = await client.promoCode.findUnique({
+            where: { restaurantId_code: { restaurantId, code: normalized } },
+        })
+        if (!promoCode || !promoCode.isActive) {
+            throw new BadRequestException(
+                `Promo code ${normalized} is not valid`
+            )
+        }
+
+        const now = new Date()
+        if (promoCode.startsAt && promoCode.startsAt > now) {
+            throw new BadRequestException(
+                `Promo code ${normalized} is not active yet`
+            )
+        }
+        if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+            throw new BadRequestException(
+                `Promo code ${normalized} has expired`
+            )
+        }
+        if (
+            promoCode.usageLimit !== null &&
+            promoCode.usedCount >= promoCode.usageLimit
+        ) {
+            throw new BadRequestException(
+                `Promo code ${normalized} has been fully redeemed`
+            )
+        }
+        if (subtotal < Number(promoCode.minSpend)) {
+            throw new BadRequestException(
+                `Promo code ${normalized} needs a minimum spend of ${Number(promoCode.minSpend)}`
+            )
+        }
+
+        if (
+            promoCode.perUserLimit !== null &&
+            (customer.userId || customer.guestSessionId)
+        ) {
+            const used = await client.order.count({
+                where: {
+                    promoCodeId: promoCode.id,
+                    status: { not: OrderStatus.CANCELLED },
+                    ...(customer.userId
+                        ? { userId: customer.userId }
+                        : { guestSessionId: customer.guestSessionId }),
+                },
+            })
+            if (used >= promoCode.perUserLimit) {
+                throw new BadRequestException(
+                    `You have already used promo code ${normalized}`
+                )
+            }
+        }
+
+        return promoCode
+    }
+}
@@ -0,0 +1,13 @@
+import { IsEmail, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * Receipt email request; logged-in customers may leave the address out to
+ * use their account email
+ */
+export class EmailReceiptDto {
+    @ApiProperty({ example: 'guest@example.com', required: false })
+    @IsOptional()
+    @IsEmail()
+    email?: string
+}
@@ -0,0 +1,22 @@
+import { IsIn, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export const RECEIPT_FORMATS = ['html', 'pdf', 'escpos'] as const
+
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number]
+
+/**
+ * Receipt file format: HTML page, PDF slip, or plain text with
+ * ESC/POS commands for 80mm thermal printers
+ */
+export class ReceiptQueryDto {
+    @ApiProperty({
+        enum: RECEIPT_FORMATS,
+        required: false,
+        default: 'html',
+        description: 'Receipt format',
+    })
+    @IsOptional()
+    @IsIn(RECEIPT_FORMATS)
+    format?: ReceiptFormat
+}
@@ -0,0 +1,432 @@
+import { Injectable } from '@nestjs/common'
+import PDFDocument from 'pdfkit'
+import type { Receipt } from './receipts.service'
+import { ReceiptFormat } from './dto/receipt-query.dto'
+
+export interface RenderedReceipt {
+    buffer: Buffer
+    contentType: string
+    filename: string
+}
+
+const CONTENT_TYPES: Record<ReceiptFormat, string> = {
+    html: 'text/html; charset=utf-8',
+    pdf: 'application/pdf',
+    escpos: 'application/octet-stream',
+}
+
+const FILE_EXTENSIONS: Record<ReceiptFormat, string> = {
+    html: 'html',
+    pdf: 'pdf',
+    escpos: 'bin',
+}
+
+// 80mm paper: 72mm printable, 48 characters in the default ESC/POS font
+const THERMAL_WIDTH = 48
+const SLIP_WIDTH = 226 // 80mm in PDF points
+
+// ESC/POS commands
+const ESC = '\x1b'
+const GS = '\x1d'
+const INIT = `${ESC}@`
+const ALIGN_LEFT = `${ESC}a\x00`
+const ALIGN_CENTER = `${ESC}a\x01`
+const BOLD_ON = `${ESC}E\x01`
+const BOLD_OFF = `${ESC}E\x00`
+const DOUBLE_SIZE = `${GS}!\x11`
+const NORMAL_SIZE = `${GS}!\x00`
+const FEED_AND_CUT = `${ESC}d\x04${GS}V\x00`
+
+/**
+ * Summary lines under the items, skipping charges that are not applied
+ */
+interface TotalLine {
+    label: string
+    amount: number
+    bold?: boolean
+}
+
+/**
+ * Receipt Render Service - Turns a receipt into HTML, a PDF slip or
+ * ESC/POS text for thermal printers
+ * PDF and ESC/POS drop Vietnamese diacritics: neither the built-in PDF font
+ * nor common printer code pages can print them
+ */
+@Injectable()
+export class ReceiptRenderService {
+    async render(
+        receipt: Receipt,
+        format: ReceiptFormat
+    ): Promise<RenderedReceipt> {
+        let buffer: Buffer
+        switch (format) {
+            case 'pdf':
+                buffer = await this.toPdf(receipt)
+                break
+            case 'escpos':
+                buffer = this.toEscPos(receipt)
+                break
+            default:
+                buffer = Buffer.from(this.toHtml(receipt), 'utf-8')
+        }
+
+        return {
+            buffer,
+            contentType: CONTENT_TYPES[format],
+            filename: `receipt-${receipt.receiptNumber}.${FILE_EXTENSIONS[format]}`,
+        }
+    }
+
+    /**
+     * Standalone HTML page, also used as the email body
+     */
+    toHtml(receipt: Receipt): string {
+        const rows = receipt.items
+            .map((item) => {
+                const details = [
+                    ...item.modifiers.map(
+                        (modifier) =>
+                            `+ ${escapeHtml(modifier.name)}${modifier.priceAdjustment ? ` (${formatMoney(modifier.priceAdjustment)})` : ''}`
+                    ),
+                    ...(item.note ? [`Note: ${escapeHtml(item.note)}`] : []),
+                ]
+                    .map(
+                        (detail) =>
+                            `<div style="color: #666; font-size: 12px;">${detail}</div>`
+                    )
+                    .join('')
+                return `
+            <tr>
+                <td style="padding: 6px 0; vertical-align: top;">${escapeHtml(item.name)}${details}</td>
+                <td style="padding: 6px 0; text-align: center; vertical-align: top;">${item.quantity}</td>
+                <td style="padding: 6px 0; text-align: right; vertical-align: top;">${formatMoney(item.unitPrice)}</td>
+                <td style="padding: 6px 0; text-align: right; vertical-align: top;">${formatMoney(item.amount)}</td>
+            </tr>`
+            })
+            .join('')
+
+        const totals = this.getTotalLines(receipt)
+            .map(
+                (line) => `
+            <tr style="${line.bold ? 'font-weight: bold; font-size: 16px;' : ''}">
+                <td style="padding: 4px 0;">${escapeHtml(line.label)}</td>
+                <td style="padding: 4px 0; text-align: right;">${formatMoney(line.amount)}</td>
+            </tr>`
+            )
+            .join('')
+
+        const payments = receipt.payments
+            .map(
+                (payment) => `
+            <tr>
+                <td style="padding: 4px 0;">${payment.method} · ${formatDate(payment.paidAt, receipt.timezone)}</td>
+                <td style="padding: 4px 0; text-align: right;">${formatMoney(payment.amount)}</td>
+            </tr>`
+            )
+            .join('')
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Receipt ${receipt.receiptNumber} - ${escapeHtml(receipt.restaurantName)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.5; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+        <h1 style="margin: 0; text-align: center;">${escapeHtml(receipt.restaurantName)}</h1>
+        ${receipt.restaurantAddress ? `<p style="margin: 4px 0 0; text-align: center; color: #666;">${escapeHtml(receipt.restaurantAddress)}</p>` : ''}
+        <p style="text-align: center; color: #666; font-size: 14px;">
+            Receipt ${receipt.receiptNumber} · Order #${receipt.orderId} · ${escapeHtml(receipt.tableName)}<br>
+            ${formatDate(receipt.issuedAt, receipt.timezone)}
+        </p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+            <thead>
+                <tr style="border-bottom: 1px solid #ddd;">
+                    <th style="padding: 6px 0; text-align: left;">Item</th>
+                    <th style="padding: 6px 0; text-align: center;">Qty</th>
+                    <th style="padding: 6px 0; text-align: right;">Price</th>
+                    <th style="padding: 6px 0; text-align: right;">Amount</th>
+                </tr>
+            </thead>
+            <tbody>${rows}
+            </tbody>
+        </table>
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 16px 0;">
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${totals}
+        </table>
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 16px 0;">
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${payments}
+        </table>
+        <p style="text-align: center; color: #666; font-size: 14px; margin-top: 30px;">Thank you for dining with us!</p>
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px; margin: 0; text-align: center;">© ${new Date().getFullYear()} AeroDine. All rights reserved.</p>
+    </div>
+</body>
+</html>
+        `
+    }
+
+    /**
+     * 80mm wide slip, one page as long as the receipt
+     */
+    toPdf(receipt: Receipt): Promise<Buffer> {
+        const lineCount =
+            receipt.items.reduce(
+                (sum, item) =>
+                    sum + 1 + item.modifiers.length + (item.note ? 1 : 0),
+                0
+            ) +
+            this.getTotalLines(receipt).length +
+            receipt.payments.length
+        const height = 220 + lineCount * 14
+
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({
+                size: [SLIP_WIDTH, height],
+                margin: 12,
+            })
+            const chunks: Buffer[] = []
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+            doc.on('end', () => resolve(Buffer.concat(chunks)))
+            doc.on('error', reject)
+
+            const left = doc.page.margins.left
+            const width = SLIP_WIDTH - left - doc.page.margins.right
+
+            const row = (label: string, amount: string, bold = false) => {
+                const y = doc.y
+                doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8)
+                doc.text(toAscii(label), left, y, { width: width - 60 })
+                const nextY = doc.y
+                doc.text(amount, left, y, { width, align: 'right' })
+                doc.x = left
+                doc.y = Math.max(nextY, doc.y)
+            }
+            const rule = () => {
+                doc.moveDown(0.3)
+                doc.moveTo(left, doc.y)
+                    .lineTo(left + width, doc.y)
+                    .strokeColor('#999999')
+                    .dash(2, { space: 2 })
+                    .stroke()
+                doc.moveDown(0.3)
+            }
+
+            doc.font('Helvetica-Bold')
+                .fontSize(12)
+                .text(toAscii(receipt.restaurantName), { align: 'center' })
+            doc.font('Helvetica').fontSize(8)
+            if (receipt.restaurantAddress) {
+                doc.text(toAscii(receipt.restaurantAddress), {
+                    align: 'center',
+                })
+            }
+            doc.moveDown(0.5)
+            doc.text(
+                `Receipt ${receipt.receiptNumber} - Order #${receipt.orderId}`,
+                { align: 'center' }
+            )
+            doc.text(
+                `${toAscii(receipt.tableName)} - ${formatDate(receipt.issuedAt, receipt.timezone)}`,
+                { align: 'center' }
+            )
+            rule()
+
+            receipt.items.forEach((item) => {
+                row(
+                    `${item.quantity} x ${item.name}`,
+                    formatMoney(item.amount, true)
+                )
+                item.modifiers.forEach((modifier) => {
+                    row(`   + ${modifier.name}`, '')
+                })
+                if (item.note) {
+                    row(`   Note: ${item.note}`, '')
+                }
+            })
+            rule()
+
+            this.getTotalLines(receipt).forEach((line) => {
+                row(line.label, formatMoney(line.amount, true), line.bold)
+            })
+            rule()
+
+            receipt.payments.forEach((payment) => {
+                row(payment.method, formatMoney(payment.amount, true))
+            })
+
+            doc.moveDown()
+            doc.font('Helvetica')
+                .fontSize(8)
+                .text('Thank you for dining with us!', left, doc.y, {
+                    width,
+                    align: 'center',
+                })
+
+            doc.end()
+        })
+    }
+
+    /**
+     * Raw bytes for an 80mm ESC/POS printer, ending with a paper cut
+     */
+    toEscPos(receipt: Receipt): Buffer {
+        const lines: string[] = [INIT, ALIGN_CENTER]
+        const rule = '-'.repeat(THERMAL_WIDTH)
+
+        lines.push(
+            `${BOLD_ON}${DOUBLE_SIZE}${toAscii(receipt.restaurantName).slice(0, THERMAL_WIDTH / 2)}${NORMAL_SIZE}${BOLD_OFF}\n`
+        )
+        if (receipt.restaurantAddress) {
+            lines.push(`${toAscii(receipt.restaurantAddress)}\n`)
+        }
+        lines.push(
+            `Receipt ${receipt.receiptNumber} - Order #${receipt.orderId}\n`,
+            `${toAscii(receipt.tableName)} - ${formatDate(receipt.issuedAt, receipt.timezone)}\n`,
+            ALIGN_LEFT,
+            `${rule}\n`
+        )
+
+        receipt.items.forEach((item) => {
+            lines.push(
+                columns(
+                    `${item.quantity} x ${item.name}`,
+                    formatMoney(item.amount, true)
+                )
+            )
+            item.modifiers.forEach((modifier) => {
+                lines.push(columns(`   + ${modifier.name}`, ''))
+            })
+            if (item.note) {
+                lines.push(columns(`   Note: ${item.note}`, ''))
+            }
+        })
+        lines.push(`${rule}\n`)
+
+        this.getTotalLines(receipt).forEach((line) => {
+            const text = columns(line.label, formatMoney(line.amount, true))
+            lines.push(line.bold ? `${BOLD_ON}${text}${BOLD_OFF}` : text)
+        })
+        lines.push(`${rule}\n`)
+
+        receipt.payments.forEach((payment) => {
+            lines.push(
+                columns(payment.method, formatMoney(payment.amount, true))
+            )
+        })
+
+        lines.push(
+            ALIGN_CENTER,
+            '\nThank you for dining with us!\n',
+            FEED_AND_CUT
+        )
+
+        return Buffer.from(lines.join(''), 'latin1')
+    }
+
+    private getTotalLines(receipt: Receipt): TotalLine[] {
+        const lines: TotalLine[] = [
+            { label: 'Subtotal', amount: receipt.subtotal },
+        ]
+        if (receipt.discountAmount > 0) {
+            lines.push({
+                label: receipt.promoCode
+                    ? `Discount (${receipt.promoCode})`
+                    : 'Discount',
+                amount: -receipt.discountAmount,
+            })
+        }
+        if (receipt.serviceCharge > 0) {
+            lines.push({
+                label: `Service charge (${receipt.serviceChargeRate}%)`,
+                amount: receipt.serviceCharge,
+            })
+        }
+        if (receipt.taxAmount > 0) {
+            lines.push({
+                label: `VAT (${receipt.taxRate}%)`,
+                amount: receipt.taxAmount,
+            })
+        }
+        if (receipt.tipAmount > 0) {
+            lines.push({ label: 'Tip', amount: receipt.tipAmount })
+        }
+        lines.push({ label: 'Total', amount: receipt.totalAmount, bold: true })
+        lines.push({ label: 'Paid', amount: receipt.paidAmount })
+        if (receipt.refundedAmount > 0) {
+            lines.push({ label: 'Refunded', amount: -receipt.refundedAmount })
+        }
+        if (receipt.balanceDue > 0) {
+            lines.push({ label: 'Balance due', amount: receipt.balanceDue })
+        }
+        return lines
+    }
+}
+
+function formatMoney(amount: number, ascii = false) {
+    const value = Math.round(amount).toLocaleString('en-US')
+    return ascii ? `${value} VND` : `${value} ₫`
+}
+
+function formatDate(date: Date, timeZone: string) {
+    return date.toLocaleString('en-GB', {
+        timeZone,
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+}
+
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+/**
+ * Strip diacritics ("Phở bò" -> "Pho bo") for fonts without Vietnamese
+ */
+function toAscii(value: string) {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .replace(/[^\x20-\x7e]/g, '')
+}
+
+/**
+ * One thermal line: label on the left, amount right-aligned, the label
+ * wrapping onto extra lines when it does not fit
+ */
+function columns(label: string, amount: string) {
+    const labelWidth = THERMAL_WIDTH - amount.length - 1
+    const text = toAscii(label)
+    const indent = text.slice(0, text.length - text.trimStart().length)
+    const chunks: string[] = [indent]
+    // Wrap on spaces; words longer than a line are cut
+    for (const word of text.trimStart().split(' ')) {
+        const current = chunks[chunks.length - 1]
+        const next = current.trim() ? `${current} ${word}` : current + word
+        if (next.length <= labelWidth) {
+            chunks[chunks.length - 1] = next
+            continue
+        }
+        if (!current.trim()) chunks.pop()
+        for (let i = 0; i < word.length; i += labelWidth) {
+            chunks.push(word.slice(i, i + labelWidth))
+        }
+    }
+
+    const last = chunks.pop() as string
+    return [...chunks, `${last.padEnd(labelWidth)} ${amount}`.trimEnd()]
+        .map((line) => `${line}\n`)
+        .join('')
+}
@@ -0,0 +1,109 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Query,
+    Req,
+    StreamableFile,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+    ApiProduces,
+} from '@nestjs/swagger'
+import { Throttle } from '@nestjs/throttler'
+import { Request } from 'express'
+import { ReceiptsService, ReceiptRequester } from './receipts.service'
+import { ReceiptQueryDto } from './dto/receipt-query.dto'
+import { EmailReceiptDto } from './dto/email-receipt.dto'
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+
+@ApiTags('receipts')
+@Controller('receipts')
+export class ReceiptsController {
+    constructor(private readonly receiptsService: ReceiptsService) {}
+
+    /**
+     * Receipt of a paid order, for its customer or guest session and staff
+     */
+    @UseGuards(OptionalJwtAuthGuard)
+    @Get(':orderId')
+    @ApiOperation({
+        summary: 'Get the receipt of a paid order',
+        description:
+            'Renders the order items, modifiers, charges and payments as an HTML page, an 80mm PDF slip, or ESC/POS bytes for a thermal printer. Customers and guests can get receipts of their own orders; staff can get any receipt.',
+    })
+    @ApiParam({ name: 'orderId', type: Number })
+    @ApiProduces('text/html', 'application/pdf', 'application/octet-stream')
+    @ApiResponse({ status: 200, description: 'Receipt file' })
+    @ApiResponse({ status: 400, description: 'Order has not been paid' })
+    @ApiResponse({ status: 403, description: 'Order belongs to someone else' })
+    async getReceipt(
+        @Param('orderId', ParseIntPipe) orderId: number,
+        @Query() query: ReceiptQueryDto,
+        @Req() req: Request,
+        @CurrentUser() user?: { id: number; role: string }
+    ) {
+        const format = query.format ?? 'html'
+        const file = await this.receiptsService.renderReceipt(
+            orderId,
+            format,
+            this.toRequester(req, user)
+        )
+        return new StreamableFile(file.buffer, {
+            type: file.contentType,
+            disposition:
+                format === 'html'
+                    ? 'inline'
+                    : `attachment; filename="${file.filename}"`,
+            length: file.buffer.length,
+        })
+    }
+
+    /**
+     * Email a receipt to the customer of the order
+     */
+    @UseGuards(OptionalJwtAuthGuard)
+    @Throttle({ short: { ttl: 60000, limit: 5 } }) // Not a mail relay
+    @Post(':orderId/email')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Email the receipt of a paid order',
+        description:
+            'Customers and guests can email receipts of their own orders; logged-in customers may omit the address to use their account email. Staff can email any receipt.',
+    })
+    @ApiParam({ name: 'orderId', type: Number })
+    @ApiResponse({ status: 200, description: 'Receipt sent' })
+    @ApiResponse({ status: 403, description: 'Order belongs to someone else' })
+    emailReceipt(
+        @Param('orderId', ParseIntPipe) orderId: number,
+        @Body() dto: EmailReceiptDto,
+        @Req() req: Request,
+        @CurrentUser() user?: { id: number; role: string }
+    ) {
+        return this.receiptsService.emailReceipt(
+            orderId,
+            this.toRequester(req, user),
+            dto.email
+        )
+    }
+
+    private toRequester(
+        req: Request,
+        user?: { id: number; role: string }
+    ): ReceiptRequester {
+        const cookies = req.cookies as Record<string, string> | undefined
+        const guestSessionId =
+            req.header('x-guest-session-id') || cookies?.guestSessionId
+        return { user, guestSessionId: user ? undefined : guestSessionId }
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { MailModule } from '../mail/mail.module'
+import { ReceiptsService } from './receipts.service'
+import { ReceiptsController } from './receipts.controller'
+import { ReceiptRenderService } from './receipt-render.service'
+
+@Module({
+    imports: [MailModule],
+    controllers: [ReceiptsController],
+    providers: [ReceiptsService, ReceiptRenderService],
+    exports: [ReceiptsService],
+})
+export class ReceiptsModule {}
@@ -0,0 +1,250 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import { OrderItemStatus, PaymentMethod, UserRole } from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { MailService } from '../mail/mail.service'
+import { DEFAULT_TIMEZONE } from '../common/utils/timezone.util'
+import { CAPTURED_PAYMENT_STATUSES } from '../common/utils/payment-status.util'
+import { ReceiptRenderService } from './receipt-render.service'
+import { ReceiptFormat } from './dto/receipt-query.dto'
+
+export interface ReceiptLine {
+    name: string
+    quantity: number
+    unitPrice: number // Includes modifiers
+    amount: number
+    modifiers: { name: string; priceAdjustment: number }[]
+    note: string | null
+}
+
+export interface ReceiptPayment {
+    method: PaymentMethod
+    amount: number
+    paidAt: Date
+}
+
+/**
+ * Everything printed on a receipt, taken from the order as it was paid
+ */
+export interface Receipt {
+    receiptNumber: string
+    orderId: number
+    restaurantName: string
+    restaurantAddress: string | null
+    timezone: string
+    tableName: string
+    issuedAt: Date // Last successful payment
+    items: ReceiptLine[]
+    subtotal: number
+    discountAmount: number
+    promoCode: string | null
+    serviceChargeRate: number
+    serviceCharge: number
+    taxRate: number
+    taxAmount: number
+    tipAmount: number
+    totalAmount: number
+    payments: ReceiptPayment[]
+    paidAmount: number
+    refundedAmount: number
+    balanceDue: number
+    customerEmail: string | null
+}
+
+/**
+ * Who asks for a receipt; guests are matched on their session
+ */
+export type ReceiptRequester = {
+    user?: { id: number; role: string }
+    guestSessionId?: string
+}
+
+/**
+ * Receipts Service - Builds receipts for paid orders and emails them
+ */
+@Injectable()
+export class ReceiptsService {
+    private readonly logger = new Logger(ReceiptsService.name)
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly mailService: MailService,
+        private readonly receiptRenderService: ReceiptRenderService
+    ) {}
+
+    /**
+     * Receipt of an order with at least one successful payment
+     */
+    async getReceipt(orderId: number): Promise<Receipt> {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                restaurant: {
+                    select: { name: true, address: true, timezone: true },
+                },
+                table: { select: { name: true } },
+                customer: { select: { email: true } },
+                promoCode: { select: { code: true } },
+                items: {
+                    where: { status: { not: OrderItemStatus.CANCELLED } },
+                    include: { modifiers: true },
+                    orderBy: { createdAt: 'asc' },
+                },
+                payments: {
+                    where: { status: { in: CAPTURED_PAYMENT_STATUSES } },
+                    orderBy: { createdAt: 'asc' },
+                },
+            },
+        })
+
+        if (!order) {
+            throw new NotFoundException(`Order with ID ${orderId} not found`)
+        }
+        if (order.payments.length === 0) {
+            throw new BadRequestException(
+                `Order ${orderId} has no successful payment yet`
+            )
+        }
+
+        const payments = order.payments.map((payment) => ({
+            method: payment.method,
+            amount: Number(payment.amount),
+            paidAt: payment.updatedAt,
+        }))
+        const paidAmount = payments.reduce(
+            (sum, payment) => sum + payment.amount,
+            0
+        )
+        const totalAmount = Number(order.totalAmount)
+
+        return {
+            receiptNumber: `R${String(order.id).padStart(6, '0')}`,
+            orderId: order.id,
+            restaurantName: order.restaurant.name,
+            restaurantAddress: order.restaurant.address,
+            timezone: order.restaurant.timezone || DEFAULT_TIMEZONE,
+            tableName: order.table.name,
+            issuedAt: payments[payments.length - 1].paidAt,
+            items: order.items.map((item) => ({
+                name: item.name,
+                quantity: item.quantity,
+                unitPrice: Number(item.pricePerUnit),
+                amount: Number(item.pricePerUnit) * item.quantity,
+                modifiers: item.modifiers.map((modifier) => ({
+                    name: modifier.modifierName,
+                    priceAdjustment: Number(modifier.priceAdjustment),
+                })),
+                note: item.note,
+            })),
+            subtotal: Number(order.subtotal),
+            discountAmount: Number(order.discountAmount),
+            promoCode: order.promoCode?.code ?? null,
+            serviceChargeRate: Number(order.serviceChargeRate),
+            serviceCharge: Number(order.serviceCharge),
+            taxRate: Number(order.taxRate),
+            taxAmount: Number(order.taxAmount),
+            tipAmount: Number(order.tipAmount),
+            totalAmount,
+            payments,
+            paidAmount,
+            refundedAmount: Number(order.refundedAmount),
+            balanceDue: Math.max(totalAmount - paidAmount, 0),
+            customerEmail: order.customer?.email ?? null,
+        }
+    }
+
+    /**
+     * Receipt rendered as a downloadable or printable file
+     * Staff can fetch any receipt; customers only their own order's
+     */
+    async renderReceipt(
+        orderId: number,
+        format: ReceiptFormat,
+        requester: ReceiptRequester
+    ) {
+        await this.assertCanAccess(orderId, requester)
+        const receipt = await this.getReceipt(orderId)
+        return this.receiptRenderService.render(receipt, format)
+    }
+
+    /**
+     * Email a receipt on request
+     * Staff can send any receipt; customers only their own order's, to the
+     * address they enter or else to their account email
+     */
+    async emailReceipt(
+        orderId: number,
+        requester: ReceiptRequester,
+        email?: string
+    ) {
+        await this.assertCanAccess(orderId, requester)
+
+        const receipt = await this.getReceipt(orderId)
+        const to = email?.trim() || receipt.customerEmail
+        if (!to) {
+            throw new BadRequestException(
+                'An email address is required for guest orders'
+            )
+        }
+
+        await this.send(receipt, to)
+        return { message: `Receipt sent to ${to}` }
+    }
+
+    /**
+     * Email the receipt of a settled order to its logged-in customer
+     * Called after payment; failures are logged and never reach the payer
+     */
+    async sendToCustomer(orderId: number) {
+        try {
+            const receipt = await this.getReceipt(orderId)
+            if (receipt.customerEmail) {
+                await this.send(receipt, receipt.customerEmail)
+            }
+        } catch (error) {
+            this.logger.error(
+                `Failed to email receipt for order ${orderId}: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`
+            )
+        }
+    }
+
+    /**
+     * Staff pass; customers and guests must have placed the order
+     */
+    private async assertCanAccess(
+        orderId: number,
+        requester: ReceiptRequester
+    ) {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+            select: { userId: true, guestSessionId: true },
+        })
+        if (!order) {
+            throw new NotFoundException(`Order with ID ${orderId} not found`)
+        }
+
+        const { user, guestSessionId } = requester
+        const isStaff = !!user && user.role !== UserRole.CUSTOMER
+        const isOwner = user
+            ? order.userId === user.id
+            : !!guestSessionId && order.guestSessionId === guestSessionId
+        if (!isStaff && !isOwner) {
+            throw new ForbiddenException(
+                'You can only request receipts for your own orders'
+            )
+        }
+    }
+
+    private async send(receipt: Receipt, to: string) {
+        const html = this.receiptRenderService.toHtml(receipt)
+        const pdf = await this.receiptRenderService.toPdf(receipt)
+        await this.mailService.sendReceipt(to, receipt, html, pdf)
+    }
+}
@@ -0,0 +1,39 @@
+import { IsIn } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { ReportQueryDto } from './report-query.dto'
+
+export const EXPORTABLE_REPORTS = [
+    'revenue',
+    'category-sales',
+    'discounts',
+    'voided-items',
+    'menu-performance',
+    'modifiers',
+] as const
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const
+
+export type ExportableReport = (typeof EXPORTABLE_REPORTS)[number]
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * Report export request: which report, which file format, and the usual
+ * report filters for the period
+ */
+export class ExportReportQueryDto extends ReportQueryDto {
+    @ApiProperty({
+        enum: EXPORTABLE_REPORTS,
+        example: 'revenue',
+        description: 'Report to export',
+    })
+    @IsIn(EXPORTABLE_REPORTS)
+    report: ExportableReport
+
+    @ApiProperty({
+        enum: EXPORT_FORMATS,
+        example: 'csv',
+        description: 'File format',
+    })
+    @IsIn(EXPORT_FORMATS)
+    format: ExportFormat
+}
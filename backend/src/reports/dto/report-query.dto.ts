@@ -0,0 +1,76 @@
+import {
+    IsDateString,
+    IsIn,
+    IsInt,
+    IsOptional,
+    IsTimeZone,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export const REPORT_RANGES = [
+    'today',
+    'week',
+    '30',
+    'month',
+    'lastMonth',
+    '3months',
+] as const
+
+export type ReportRange = (typeof REPORT_RANGES)[number]
+
+/**
+ * Common filters accepted by every /reports/* endpoint
+ * from/to take precedence over range; the previous period of the same
+ * length is used for comparison deltas
+ */
+export class ReportQueryDto {
+    @ApiProperty({
+        example: 1,
+        required: false,
+        description: 'Only include data of this restaurant (all when omitted)',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    restaurantId?: number
+
+    @ApiProperty({
+        example: '2026-01-01',
+        required: false,
+        description:
+            'Start of the period (inclusive). Dates are read in the report timezone',
+    })
+    @IsOptional()
+    @IsDateString()
+    from?: string
+
+    @ApiProperty({
+        example: '2026-01-31',
+        required: false,
+        description:
+            'End of the period (inclusive for dates, exclusive for date-times)',
+    })
+    @IsOptional()
+    @IsDateString()
+    to?: string
+
+    @ApiProperty({
+        example: 'Asia/Ho_Chi_Minh',
+        required: false,
+        description:
+            "IANA timezone for day/hour grouping. Defaults to the restaurant's timezone",
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string
+
+    @ApiProperty({
+        enum: REPORT_RANGES,
+        required: false,
+        description: 'Preset period used when from/to are not provided',
+    })
+    @IsOptional()
+    @IsIn(REPORT_RANGES)
+    range?: ReportRange
+}
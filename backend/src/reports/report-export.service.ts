@@ -0,0 +1,476 @@
+import { Injectable, Logger } from '@nestjs/common'
+import ExcelJS from 'exceljs'
+import PDFDocument from 'pdfkit'
+import { ReportsService } from './reports.service'
+import {
+    ExportableReport,
+    ExportFormat,
+    ExportReportQueryDto,
+} from './dto/export-report-query.dto'
+import { ReportQueryDto } from './dto/report-query.dto'
+
+type CellValue = string | number | null
+
+interface ExportColumn {
+    header: string
+    key: string
+    width: number // relative width (characters in XLSX)
+    numeric?: boolean
+}
+
+/**
+ * Tabular form of a report, shared by all export formats
+ */
+interface ExportTable {
+    title: string
+    columns: ExportColumn[]
+    rows: Array<Record<string, CellValue>>
+}
+
+export interface ExportedFile {
+    buffer: Buffer
+    contentType: string
+    filename: string
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pdf: 'application/pdf',
+}
+
+@Injectable()
+export class ReportExportService {
+    private readonly logger = new Logger(ReportExportService.name)
+
+    constructor(private readonly reportsService: ReportsService) {}
+
+    /**
+     * Render a report as a CSV, XLSX or PDF file for the requested period
+     */
+    async exportReport(query: ExportReportQueryDto): Promise<ExportedFile> {
+        const { report, format, ...filters } = query
+        const defaultRange = report === 'revenue' ? 'week' : '30'
+
+        const [table, period] = await Promise.all([
+            this.buildTable(report, filters),
+            this.reportsService.getPeriodSummary(filters, defaultRange),
+        ])
+        const subtitle = `${period.from} to ${period.to} (${period.timezone})`
+
+        let buffer: Buffer
+        switch (format) {
+            case 'xlsx':
+                buffer = await this.toXlsx(table, subtitle)
+                break
+            case 'pdf':
+                buffer = await this.toPdf(table, subtitle)
+                break
+            case 'csv':
+            default:
+                buffer = this.toCsv(table)
+        }
+
+        this.logger.log(
+            `Exported ${report} report as ${format} (${table.rows.length} rows)`
+        )
+
+        return {
+            buffer,
+            contentType: CONTENT_TYPES[format],
+            filename: `${report}_${period.from}_${period.to}.${format}`,
+        }
+    }
+
+    // ========================================================================
+    // REPORT TABLES
+    // ========================================================================
+
+    private async buildTable(
+        report: ExportableReport,
+        filters: ReportQueryDto
+    ): Promise<ExportTable> {
+        switch (report) {
+            case 'revenue': {
+                const chart = await this.reportsService.getRevenueChart(filters)
+                const rows: ExportTable['rows'] = chart.dates.map(
+                    (date, index) => ({
+                        date,
+                        revenue: chart.data[index],
+                        previousRevenue: chart.previousData[index],
+                    })
+                )
+                rows.push({
+                    date: 'Total',
+                    revenue: chart.total,
+                    previousRevenue: chart.previousTotal,
+                    changePercent: chart.changePercent,
+                })
+                return {
+                    title: 'Revenue',
+                    columns: [
+                        { header: 'Date', key: 'date', width: 14 },
+                        {
+                            header: 'Revenue',
+                            key: 'revenue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Previous Period',
+                            key: 'previousRevenue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows,
+                }
+            }
+            case 'category-sales': {
+                const rows = await this.reportsService.getCategorySales(filters)
+                return {
+                    title: 'Sales by Category',
+                    columns: [
+                        { header: 'Category', key: 'category', width: 24 },
+                        {
+                            header: 'Sales',
+                            key: 'sales',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Previous Period',
+                            key: 'previousValue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows,
+                }
+            }
+            case 'discounts': {
+                const summary =
+                    await this.reportsService.getDiscountSummary(filters)
+                const rows: ExportTable['rows'] = summary.byRule.map((row) => ({
+                    ...row,
+                }))
+                rows.push({
+                    ruleName: 'Total',
+                    listRevenue: summary.listRevenue,
+                    discountedRevenue: summary.discountedRevenue,
+                    discount: summary.discountTotal,
+                    previousValue:
+                        summary.comparison.discountTotal.previousValue,
+                    changePercent:
+                        summary.comparison.discountTotal.changePercent,
+                })
+                return {
+                    title: 'Discounts',
+                    columns: [
+                        { header: 'Pricing Rule', key: 'ruleName', width: 24 },
+                        {
+                            header: 'Items Sold',
+                            key: 'quantity',
+                            width: 12,
+                            numeric: true,
+                        },
+                        {
+                            header: 'List Revenue',
+                            key: 'listRevenue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Charged',
+                            key: 'discountedRevenue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Discount',
+                            key: 'discount',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Previous Discount',
+                            key: 'previousValue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows,
+                }
+            }
+            case 'voided-items': {
+                const rows = await this.reportsService.getVoidedItems(
+                    filters,
+                    null
+                )
+                return {
+                    title: 'Voided Items',
+                    columns: [
+                        { header: 'Item', key: 'itemName', width: 24 },
+                        {
+                            header: 'Times Voided',
+                            key: 'timesVoided',
+                            width: 14,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Loss Amount',
+                            key: 'lossAmount',
+                            width: 16,
+                            numeric: true,
+                        },
+                        { header: 'Reason', key: 'reason', width: 20 },
+                        {
+                            header: 'Previous Loss',
+                            key: 'previousValue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows,
+                }
+            }
+            case 'menu-performance': {
+                const rows =
+                    await this.reportsService.getMenuPerformance(filters)
+                return {
+                    title: 'Menu Performance',
+                    columns: [
+                        { header: 'Item', key: 'name', width: 24 },
+                        {
+                            header: 'Quantity Sold',
+                            key: 'quantitySold',
+                            width: 14,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Revenue',
+                            key: 'totalRevenue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Previous Revenue',
+                            key: 'previousValue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows: rows.sort((a, b) => b.totalRevenue - a.totalRevenue),
+                }
+            }
+            case 'modifiers': {
+                const rows = await this.reportsService.getTopModifiers(
+                    filters,
+                    null
+                )
+                return {
+                    title: 'Modifier Usage',
+                    columns: [
+                        { header: 'Modifier', key: 'name', width: 24 },
+                        {
+                            header: 'Usage',
+                            key: 'usage',
+                            width: 12,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Previous Usage',
+                            key: 'previousValue',
+                            width: 16,
+                            numeric: true,
+                        },
+                        {
+                            header: 'Change %',
+                            key: 'changePercent',
+                            width: 12,
+                            numeric: true,
+                        },
+                    ],
+                    rows,
+                }
+            }
+        }
+    }
+
+    // ========================================================================
+    // RENDERERS
+    // ========================================================================
+
+    /**
+     * CSV with a UTF-8 BOM so spreadsheet apps keep Vietnamese characters
+     */
+    private toCsv(table: ExportTable): Buffer {
+        const escape = (value: CellValue) => {
+            const text =
+                value === null || value === undefined ? '' : String(value)
+            return /[",\r\n]/.test(text)
+                ? `"${text.replace(/"/g, '""')}"`
+                : text
+        }
+
+        const lines = [
+            table.columns.map((column) => escape(column.header)).join(','),
+            ...table.rows.map((row) =>
+                table.columns.map((column) => escape(row[column.key])).join(',')
+            ),
+        ]
+
+        return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf-8')
+    }
+
+    private async toXlsx(
+        table: ExportTable,
+        subtitle: string
+    ): Promise<Buffer> {
+        const workbook = new ExcelJS.Workbook()
+        workbook.creator = 'AeroDine'
+        workbook.created = new Date()
+
+        const sheet = workbook.addWorksheet(table.title)
+        sheet.columns = table.columns.map((column) => ({
+            key: column.key,
+            width: column.width,
+        }))
+
+        sheet.addRow([table.title]).font = { bold: true, size: 14 }
+        sheet.addRow([subtitle]).font = { italic: true }
+        sheet.addRow([])
+
+        const headerRow = sheet.addRow(
+            table.columns.map((column) => column.header)
+        )
+        headerRow.font = { bold: true }
+        headerRow.fill = {
+            type: 'pattern',
+            pattern: 'solid',
+            fgColor: { argb: 'FFF1F5F9' },
+        }
+
+        table.rows.forEach((row) => {
+            sheet.addRow(table.columns.map((column) => row[column.key] ?? null))
+        })
+
+        table.columns.forEach((column, index) => {
+            if (column.numeric) {
+                sheet.getColumn(index + 1).numFmt = '#,##0.##'
+            }
+        })
+
+        return Buffer.from(await workbook.xlsx.writeBuffer())
+    }
+
+    /**
+     * Printable A4 table, repeating the header row on every page
+     */
+    private toPdf(table: ExportTable, subtitle: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: 'A4', margin: 40 })
+            const chunks: Buffer[] = []
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+            doc.on('end', () => resolve(Buffer.concat(chunks)))
+            doc.on('error', reject)
+
+            const left = doc.page.margins.left
+            const usableWidth = doc.page.width - left - doc.page.margins.right
+            const totalWidth = table.columns.reduce(
+                (sum, column) => sum + column.width,
+                0
+            )
+            const widths = table.columns.map(
+                (column) => (column.width / totalWidth) * usableWidth
+            )
+            const rowHeight = 18
+
+            doc.font('Helvetica-Bold').fontSize(16).text(table.title)
+            doc.font('Helvetica')
+                .fontSize(10)
+                .fillColor('#64748b')
+                .text(subtitle)
+            doc.fillColor('#0f172a').moveDown()
+
+            const drawRow = (cells: CellValue[], bold: boolean) => {
+                if (
+                    doc.y + rowHeight >
+                    doc.page.height - doc.page.margins.bottom
+                ) {
+                    doc.addPage()
+                    drawRow(
+                        table.columns.map((column) => column.header),
+                        true
+                    )
+                }
+
+                const y = doc.y
+                let x = left
+                doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9)
+                cells.forEach((cell, index) => {
+                    const value =
+                        typeof cell === 'number'
+                            ? cell.toLocaleString('en-US')
+                            : (cell ?? '')
+                    doc.text(value, x + 4, y + 5, {
+                        width: widths[index] - 8,
+                        align: table.columns[index].numeric ? 'right' : 'left',
+                        lineBreak: false,
+                        ellipsis: true,
+                    })
+                    x += widths[index]
+                })
+                doc.moveTo(left, y + rowHeight)
+                    .lineTo(left + usableWidth, y + rowHeight)
+                    .strokeColor('#e2e8f0')
+                    .stroke()
+                doc.x = left
+                doc.y = y + rowHeight
+            }
+
+            drawRow(
+                table.columns.map((column) => column.header),
+                true
+            )
+            table.rows.forEach((row) => {
+                drawRow(
+                    table.columns.map((column) => row[column.key] ?? null),
+                    false
+                )
+            })
+
+            doc.end()
+        })
+    }
+}
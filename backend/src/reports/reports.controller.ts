@@ -1,41 +1,56 @@
 import {
     Controller,
     Get,
+    Post,
+    Param,
+    HttpCode,
     Query,
     UseGuards,
-    ParseEnumPipe,
     HttpException,
     HttpStatus,
     Logger,
+    StreamableFile,
 } from '@nestjs/common'
 import { ReportsService } from './reports.service'
+import { ReportExportService } from './report-export.service'
+import { ReportQueryDto } from './dto/report-query.dto'
+import { ExportReportQueryDto } from './dto/export-report-query.dto'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { RolesGuard } from '../auth/guards/roles.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
-import { UserRole } from '@aerodine/shared-types'
+import { Permissions } from '../auth/decorators/permissions.decorator'
+import { Permission, UserRole } from '@aerodine/shared-types'
 import {
     ApiTags,
     ApiOperation,
     ApiResponse,
     ApiBearerAuth,
-    ApiQuery,
+    ApiProduces,
 } from '@nestjs/swagger'
 
 @ApiTags('reports')
 @Controller('reports')
 @ApiBearerAuth('JWT-auth')
 @UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(UserRole.ADMIN)
+@Permissions(Permission.REPORTS_VIEW)
 export class ReportsController {
     private readonly logger = new Logger(ReportsController.name)
     
-    constructor(private readonly reportsService: ReportsService) {}
+    constructor(
+        private readonly reportsService: ReportsService,
+        private readonly reportExportService: ReportExportService
+    ) {}
 
     /**
      * Helper method to handle errors from service methods
      */
     private handleError(error: any, methodName: string) {
         this.logger.error(`Error in ${methodName}:`, error)
+
+        // Keep validation/not-found errors from filter resolution as they are
+        if (error instanceof HttpException) {
+            throw error
+        }
         
         // Handle Prisma connection errors
         if (error.code === 'P1017') {
@@ -62,9 +77,9 @@ export class ReportsController {
 
     @Get('stats')
     @ApiOperation({
-        summary: 'Get dashboard statistics (Admin only)',
+        summary: 'Get dashboard statistics (reports.view)',
         description:
-            'Returns today\'s total revenue, total orders, and active tables count.',
+            'Returns total revenue and total orders for the period (today by default) with changes against the previous period, plus the active tables count.',
     })
     @ApiResponse({
         status: 200,
@@ -74,12 +89,16 @@ export class ReportsController {
                 totalRevenue: 1250000,
                 totalOrders: 45,
                 activeTables: 12,
+                comparison: {
+                    totalRevenue: { previousValue: 1000000, changePercent: 25 },
+                    totalOrders: { previousValue: 50, changePercent: -10 },
+                },
             },
         },
     })
-    async getDashboardStats() {
+    async getDashboardStats(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getDashboardStats()
+            return await this.reportsService.getDashboardStats(query)
         } catch (error: any) {
             this.handleError(error, 'dashboard stats')
         }
@@ -87,16 +106,9 @@ export class ReportsController {
 
     @Get('revenue')
     @ApiOperation({
-        summary: 'Get revenue chart data (Admin only)',
+        summary: 'Get revenue chart data (reports.view)',
         description:
-            'Returns revenue chart data formatted for Chart.js with labels (dates) and data (revenue sums).',
-    })
-    @ApiQuery({
-        name: 'range',
-        required: false,
-        enum: ['week', '30', 'month', 'lastMonth', '3months'],
-        description: 'Time range for revenue chart',
-        example: 'week',
+            'Returns revenue chart data formatted for Chart.js with labels (local dates) and data (revenue sums), plus previous-period data for comparison. Defaults to the last 7 days.',
     })
     @ApiResponse({
         status: 200,
@@ -105,14 +117,16 @@ export class ReportsController {
             example: {
                 labels: ['12/1', '12/2', '12/3', '12/4', '12/5', '12/6', '12/7'],
                 data: [500000, 750000, 600000, 900000, 850000, 700000, 800000],
+                previousData: [450000, 700000, 650000, 800000, 900000, 600000, 750000],
+                total: 5100000,
+                previousTotal: 4850000,
+                changePercent: 5.2,
             },
         },
     })
-    async getRevenueChart(
-        @Query('range') range?: string
-    ) {
+    async getRevenueChart(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getRevenueChart(range || 'week')
+            return await this.reportsService.getRevenueChart(query)
         } catch (error: any) {
             this.handleError(error, 'revenue chart')
         }
@@ -120,7 +134,7 @@ export class ReportsController {
 
     @Get('top-items')
     @ApiOperation({
-        summary: 'Get top selling menu items (Admin only)',
+        summary: 'Get top selling menu items (reports.view)',
         description:
             'Returns top 5 selling menu items based on total quantity sold from completed orders.',
     })
@@ -136,9 +150,9 @@ export class ReportsController {
             },
         },
     })
-    async getTopSellingItems() {
+    async getTopSellingItems(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getTopSellingItems()
+            return await this.reportsService.getTopSellingItems(query)
         } catch (error: any) {
             this.handleError(error, 'top selling items')
         }
@@ -146,33 +160,73 @@ export class ReportsController {
 
     @Get('payment-methods')
     @ApiOperation({
-        summary: 'Get payment methods breakdown (Admin only)',
+        summary: 'Get payment methods breakdown (reports.view)',
         description: 'Returns payment methods distribution with total amounts.',
     })
     @ApiResponse({
         status: 200,
         description: 'Payment methods breakdown',
     })
-    async getPaymentMethodsBreakdown() {
+    async getPaymentMethodsBreakdown(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getPaymentMethodsBreakdown()
+            return await this.reportsService.getPaymentMethodsBreakdown(query)
         } catch (error: any) {
             this.handleError(error, 'payment methods breakdown')
         }
     }
 
+    @Get('discounts')
+    @ApiOperation({
+        summary: 'Get discounted vs list revenue (reports.view)',
+        description:
+            'Returns revenue at list price and at the prices actually charged, with the discount given per pricing rule.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Discount summary',
+        schema: {
+            example: {
+                listRevenue: 5400000,
+                discountedRevenue: 5100000,
+                discountTotal: 300000,
+                discountPercent: 5.6,
+                comparison: {
+                    discountTotal: { previousValue: 250000, changePercent: 20 },
+                },
+                byRule: [
+                    {
+                        ruleName: 'Happy hour drinks',
+                        quantity: 60,
+                        listRevenue: 1500000,
+                        discountedRevenue: 1200000,
+                        discount: 300000,
+                        previousValue: 250000,
+                        changePercent: 20,
+                    },
+                ],
+            },
+        },
+    })
+    async getDiscountSummary(@Query() query: ReportQueryDto) {
+        try {
+            return await this.reportsService.getDiscountSummary(query)
+        } catch (error: any) {
+            this.handleError(error, 'discount summary')
+        }
+    }
+
     @Get('category-sales')
     @ApiOperation({
-        summary: 'Get sales by category (Admin only)',
+        summary: 'Get sales by category (reports.view)',
         description: 'Returns total sales grouped by category.',
     })
     @ApiResponse({
         status: 200,
         description: 'Category sales data',
     })
-    async getCategorySales() {
+    async getCategorySales(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getCategorySales()
+            return await this.reportsService.getCategorySales(query)
         } catch (error: any) {
             this.handleError(error, 'category sales')
         }
@@ -180,16 +234,16 @@ export class ReportsController {
 
     @Get('voided-items')
     @ApiOperation({
-        summary: 'Get voided/cancelled items (Admin only)',
+        summary: 'Get voided/cancelled items (reports.view)',
         description: 'Returns top 5 voided items with cancellation counts and loss amounts.',
     })
     @ApiResponse({
         status: 200,
         description: 'Voided items data',
     })
-    async getVoidedItems() {
+    async getVoidedItems(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getVoidedItems()
+            return await this.reportsService.getVoidedItems(query)
         } catch (error: any) {
             this.handleError(error, 'voided items')
         }
@@ -197,16 +251,16 @@ export class ReportsController {
 
     @Get('peak-hours')
     @ApiOperation({
-        summary: 'Get peak hours analysis (Admin only)',
+        summary: 'Get peak hours analysis (reports.view)',
         description: 'Returns order count by hour of day (0-23).',
     })
     @ApiResponse({
         status: 200,
         description: 'Peak hours data',
     })
-    async getPeakHours() {
+    async getPeakHours(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getPeakHours()
+            return await this.reportsService.getPeakHours(query)
         } catch (error: any) {
             this.handleError(error, 'peak hours')
         }
@@ -214,16 +268,16 @@ export class ReportsController {
 
     @Get('day-of-week-revenue')
     @ApiOperation({
-        summary: 'Get revenue by day of week (Admin only)',
+        summary: 'Get revenue by day of week (reports.view)',
         description: 'Returns total revenue grouped by day of week (Mon-Sun).',
     })
     @ApiResponse({
         status: 200,
         description: 'Day of week revenue data',
     })
-    async getDayOfWeekRevenue() {
+    async getDayOfWeekRevenue(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getDayOfWeekRevenue()
+            return await this.reportsService.getDayOfWeekRevenue(query)
         } catch (error: any) {
             this.handleError(error, 'day of week revenue')
         }
@@ -231,16 +285,16 @@ export class ReportsController {
 
     @Get('menu-performance')
     @ApiOperation({
-        summary: 'Get menu performance matrix (Admin only)',
+        summary: 'Get menu performance matrix (reports.view)',
         description: 'Returns menu items with quantity sold and total revenue for performance analysis.',
     })
     @ApiResponse({
         status: 200,
         description: 'Menu performance data',
     })
-    async getMenuPerformance() {
+    async getMenuPerformance(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getMenuPerformance()
+            return await this.reportsService.getMenuPerformance(query)
         } catch (error: any) {
             this.handleError(error, 'menu performance')
         }
@@ -248,16 +302,16 @@ export class ReportsController {
 
     @Get('top-modifiers')
     @ApiOperation({
-        summary: 'Get top modifiers (Admin only)',
+        summary: 'Get top modifiers (reports.view)',
         description: 'Returns top 8 most used modifiers.',
     })
     @ApiResponse({
         status: 200,
         description: 'Top modifiers data',
     })
-    async getTopModifiers() {
+    async getTopModifiers(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getTopModifiers()
+            return await this.reportsService.getTopModifiers(query)
         } catch (error: any) {
             this.handleError(error, 'top modifiers')
         }
@@ -265,16 +319,16 @@ export class ReportsController {
 
     @Get('rating-volume')
     @ApiOperation({
-        summary: 'Get rating vs volume data (Admin only)',
+        summary: 'Get rating vs volume data (reports.view)',
         description: 'Returns top menu items with average ratings and sales volume.',
     })
     @ApiResponse({
         status: 200,
         description: 'Rating vs volume data',
     })
-    async getRatingVolume() {
+    async getRatingVolume(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getRatingVolume()
+            return await this.reportsService.getRatingVolume(query)
         } catch (error: any) {
             this.handleError(error, 'rating volume')
         }
@@ -282,8 +336,8 @@ export class ReportsController {
 
     @Get('prep-time-trends')
     @ApiOperation({
-        summary: 'Get prep time trends (Admin only)',
-        description: 'Returns average prep time by week for the last 12 weeks.',
+        summary: 'Get prep time trends (reports.view)',
+        description: 'Returns average prep time by week of the selected period.',
     })
     @ApiResponse({
         status: 200,
@@ -293,11 +347,109 @@ export class ReportsController {
         status: 500,
         description: 'Database connection error',
     })
-    async getPrepTimeTrends() {
+    async getPrepTimeTrends(@Query() query: ReportQueryDto) {
         try {
-            return await this.reportsService.getPrepTimeTrends()
+            return await this.reportsService.getPrepTimeTrends(query)
         } catch (error: any) {
             this.handleError(error, 'prep time trends')
         }
     }
+
+    @Get('kitchen-timings')
+    @ApiOperation({
+        summary: 'Get kitchen stage timings (reports.view)',
+        description:
+            'Returns average queue time (ordered to preparing), cook time (preparing to ready) and pass time (ready to served) in minutes, overall and per menu item and category.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Kitchen timings data',
+    })
+    async getKitchenTimings(@Query() query: ReportQueryDto) {
+        try {
+            return await this.reportsService.getKitchenTimings(query)
+        } catch (error: any) {
+            this.handleError(error, 'kitchen timings')
+        }
+    }
+
+    @Get('reconciliation')
+    @ApiOperation({
+        summary: 'Get payment reconciliation report (reports.view)',
+        description:
+            'Lists discrepancies found by payment reconciliation (gateway amount mismatches, missed callbacks, completed orders not adding up) and payments expired at the gateway, per local day. Defaults to the last 7 days.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Reconciliation report',
+    })
+    async getReconciliationReport(@Query() query: ReportQueryDto) {
+        try {
+            return await this.reportsService.getReconciliationReport(query)
+        } catch (error: any) {
+            this.handleError(error, 'reconciliation report')
+        }
+    }
+
+    @Post('reconciliation/:id/resolve')
+    @HttpCode(HttpStatus.OK)
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({
+        summary: 'Mark a payment discrepancy as resolved (Admin only)',
+    })
+    @ApiResponse({ status: 200, description: 'Discrepancy resolved' })
+    @ApiResponse({ status: 404, description: 'Discrepancy not found' })
+    async resolveDiscrepancy(@Param('id') id: string) {
+        try {
+            return await this.reportsService.resolveDiscrepancy(Number(id))
+        } catch (error: any) {
+            this.handleError(error, 'discrepancy resolution')
+        }
+    }
+
+    @Get('z-report')
+    @ApiOperation({
+        summary: 'Get the end-of-day Z-report (reports.view)',
+        description:
+            'Sales, tax, service charge and tips of completed orders, takings and refunds per payment method, and each cashier shift with its float, expected cash, counted cash and over/short. Defaults to today.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Z-report',
+    })
+    async getZReport(@Query() query: ReportQueryDto) {
+        try {
+            return await this.reportsService.getZReport(query)
+        } catch (error: any) {
+            this.handleError(error, 'Z-report')
+        }
+    }
+
+    @Get('export')
+    @ApiOperation({
+        summary: 'Export a report as CSV, XLSX or PDF (reports.view)',
+        description:
+            'Renders revenue, category sales, voided items, menu performance or modifier usage for the selected period as a downloadable file. Accepts the same filters as the other report endpoints.',
+    })
+    @ApiProduces(
+        'text/csv',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/pdf'
+    )
+    @ApiResponse({
+        status: 200,
+        description: 'Report file (attachment)',
+    })
+    async exportReport(@Query() query: ExportReportQueryDto) {
+        try {
+            const file = await this.reportExportService.exportReport(query)
+            return new StreamableFile(file.buffer, {
+                type: file.contentType,
+                disposition: `attachment; filename="${file.filename}"`,
+                length: file.buffer.length,
+            })
+        } catch (error: any) {
+            this.handleError(error, 'report export')
+        }
+    }
 }
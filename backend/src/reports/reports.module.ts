@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common'
 import { ReportsService } from './reports.service'
 import { ReportsController } from './reports.controller'
+import { ReportExportService } from './report-export.service'
+import { ShiftsModule } from '../shifts/shifts.module'
 
 @Module({
+    imports: [ShiftsModule],
     controllers: [ReportsController],
-    providers: [ReportsService],
+    providers: [ReportsService, ReportExportService],
     exports: [ReportsService],
 })
 export class ReportsModule {}
@@ -1,12 +1,80 @@
-import { Injectable, Logger } from '@nestjs/common'
+import {
+    BadRequestException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import { PaymentStatus, Prisma, RefundStatus } from '@prisma/client'
 import { PrismaService } from '../database/prisma.service'
 import { TableStatus, OrderStatus, PaymentMethod, OrderItemStatus } from '@aerodine/shared-types'
+import { ReportQueryDto, ReportRange } from './dto/report-query.dto'
+import {
+    DEFAULT_TIMEZONE,
+    getZonedParts,
+    startOfZonedDay,
+    toZonedDateKey,
+} from '../common/utils/timezone.util'
+import { CAPTURED_PAYMENT_STATUSES } from '../common/utils/payment-status.util'
+import { ShiftsService } from '../shifts/shifts.service'
+
+/**
+ * Half-open time window [startDate, endDate)
+ */
+interface ReportWindow {
+    startDate: Date
+    endDate: Date
+}
+
+/**
+ * Resolved report filters: the requested window plus the previous window
+ * of the same length used for comparison deltas
+ */
+interface ReportPeriod {
+    restaurantId?: number
+    timezone: string
+    current: ReportWindow
+    previous: ReportWindow
+}
+
+type Compared<T> = T & { previousValue: number; changePercent: number | null }
+
+/**
+ * Order item with its kitchen status timestamps
+ */
+interface TimedOrderItem {
+    quantity: number
+    createdAt: Date
+    startedAt: Date | null
+    readyAt: Date | null
+    servedAt: Date | null
+    station: { name: string } | null
+    menuItem: {
+        name: string
+        category: { name: string }
+    }
+}
+
+/**
+ * Average kitchen stage durations in minutes (null when no item has both timestamps)
+ * queue: created -> PREPARING, cook: PREPARING -> READY, pass: READY -> SERVED
+ */
+export interface KitchenTimings {
+    itemCount: number
+    avgQueueTime: number | null
+    avgCookTime: number | null
+    avgPassTime: number | null
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
 
 @Injectable()
 export class ReportsService {
     private readonly logger = new Logger(ReportsService.name)
     
-    constructor(private readonly prisma: PrismaService) {}
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly shiftsService: ShiftsService
+    ) {}
 
     /**
      * Helper method to execute Prisma queries with retry logic for connection errors
@@ -50,178 +118,509 @@ export class ReportsService {
         throw lastError || new Error('Query failed after retries')
     }
 
+    // ========================================================================
+    // FILTERS & COMPARISON
+    // ========================================================================
+
     /**
-     * Get dashboard statistics for today
+     * Resolve restaurant, timezone and windows from the report filters
+     * @param defaultRange - preset used when neither from/to nor range is given
      */
-    async getDashboardStats() {
-        const today = new Date()
-        today.setHours(0, 0, 0, 0)
-        const tomorrow = new Date(today)
-        tomorrow.setDate(tomorrow.getDate() + 1)
+    private async resolvePeriod(
+        query: ReportQueryDto,
+        defaultRange: ReportRange
+    ): Promise<ReportPeriod> {
+        let timezone = query.timezone
+
+        if (query.restaurantId) {
+            const restaurant = await this.prisma.restaurant.findUnique({
+                where: { id: query.restaurantId },
+                select: { timezone: true },
+            })
+            if (!restaurant) {
+                throw new NotFoundException(
+                    `Restaurant with ID ${query.restaurantId} not found`
+                )
+            }
+            timezone = timezone || restaurant.timezone
+        }
+        timezone = timezone || DEFAULT_TIMEZONE
+
+        let current: ReportWindow
+        if (query.from || query.to) {
+            const endDate = query.to
+                ? this.parseBoundary(query.to, timezone, true)
+                : startOfZonedDay(new Date(), timezone, 1)
+            const startDate = query.from
+                ? this.parseBoundary(query.from, timezone, false)
+                : startOfZonedDay(endDate, timezone, -30)
+            current = { startDate, endDate }
+        } else {
+            current = this.getDateRange(query.range || defaultRange, timezone)
+        }
 
-        // Total Revenue (Today) - Sum of completed orders
-        const revenueResult = await this.prisma.order.aggregate({
-            where: {
-                status: OrderStatus.COMPLETED,
-                createdAt: {
-                    gte: today,
-                    lt: tomorrow,
-                },
-            },
-            _sum: {
-                totalAmount: true,
-            },
-        })
+        if (current.startDate >= current.endDate) {
+            throw new BadRequestException('"from" must be before "to"')
+        }
 
-        const totalRevenue = revenueResult._sum.totalAmount
-            ? Number(revenueResult._sum.totalAmount)
-            : 0
+        // Previous window of the same length, ending where the current one starts
+        const length = current.endDate.getTime() - current.startDate.getTime()
+        const previous: ReportWindow = {
+            startDate: new Date(current.startDate.getTime() - length),
+            endDate: current.startDate,
+        }
 
-        // Total Orders (Today) - Count all orders created today
-        const totalOrders = await this.prisma.order.count({
-            where: {
-                createdAt: {
-                    gte: today,
-                    lt: tomorrow,
-                },
-            },
-        })
+        return {
+            restaurantId: query.restaurantId,
+            timezone,
+            current,
+            previous,
+        }
+    }
 
-        // Active Tables (Status != AVAILABLE)
-        const activeTables = await this.prisma.table.count({
-            where: {
-                status: {
-                    not: TableStatus.AVAILABLE,
-                },
-                isActive: true,
-            },
-        })
+    /**
+     * Describe the resolved period (inclusive local dates) for report headers
+     */
+    async getPeriodSummary(
+        query: ReportQueryDto = {},
+        defaultRange: ReportRange = '30'
+    ) {
+        const period = await this.resolvePeriod(query, defaultRange)
+        // endDate is exclusive, step back to the last included day
+        const lastDay = new Date(period.current.endDate.getTime() - 1)
 
         return {
-            totalRevenue,
-            totalOrders,
-            activeTables,
+            from: toZonedDateKey(period.current.startDate, period.timezone),
+            to: toZonedDateKey(lastDay, period.timezone),
+            timezone: period.timezone,
         }
     }
 
     /**
-     * Helper method to calculate date range based on range string
+     * Parse a from/to value. Plain dates are local days in the timezone and
+     * an end date covers that whole day
      */
-    private getDateRange(range: string): { startDate: Date; endDate: Date } {
-        const endDate = new Date()
-        endDate.setHours(23, 59, 59, 999) // End of today
+    private parseBoundary(value: string, timezone: string, isEnd: boolean): Date {
+        if (DATE_ONLY_PATTERN.test(value)) {
+            // Noon UTC falls on the same calendar day in every timezone we bucket by
+            const noon = new Date(`${value}T12:00:00Z`)
+            return startOfZonedDay(noon, timezone, isEnd ? 1 : 0)
+        }
+        return new Date(value)
+    }
 
-        const startDate = new Date(endDate)
+    /**
+     * Helper method to calculate date range based on range string
+     * Days are counted in the given timezone, the end is exclusive
+     */
+    private getDateRange(range: string, timezone: string): ReportWindow {
+        const now = new Date()
+        const endDate = startOfZonedDay(now, timezone, 1) // Start of tomorrow
 
         switch (range) {
+            case 'today':
+                return { startDate: startOfZonedDay(now, timezone), endDate }
             case 'week':
-                startDate.setDate(startDate.getDate() - 6) // 7 days including today
-                break
-            case '30':
-            case 'month':
-                startDate.setDate(startDate.getDate() - 29) // 30 days including today
-                break
+                // 7 days including today
+                return { startDate: startOfZonedDay(now, timezone, -6), endDate }
             case 'lastMonth': {
-                // First day of last month
-                startDate.setMonth(startDate.getMonth() - 1)
-                startDate.setDate(1)
-                // Last day of last month
-                const lastDayOfLastMonth = new Date(endDate)
-                lastDayOfLastMonth.setDate(0) // Last day of previous month
-                lastDayOfLastMonth.setHours(23, 59, 59, 999)
-                return { startDate, endDate: lastDayOfLastMonth }
+                const { day } = getZonedParts(now, timezone)
+                const firstOfThisMonth = startOfZonedDay(now, timezone, 1 - day)
+                const lastOfLastMonth = startOfZonedDay(firstOfThisMonth, timezone, -1)
+                const { day: lastDay } = getZonedParts(lastOfLastMonth, timezone)
+                return {
+                    startDate: startOfZonedDay(lastOfLastMonth, timezone, 1 - lastDay),
+                    endDate: firstOfThisMonth,
+                }
+            }
+            case '3months': {
+                // 3 months including current month, from the first day
+                const { year, month } = getZonedParts(now, timezone)
+                const firstOfMonth = new Date(Date.UTC(year, month - 3, 1, 12))
+                return { startDate: startOfZonedDay(firstOfMonth, timezone), endDate }
             }
-            case '3months':
-                startDate.setMonth(startDate.getMonth() - 2) // 3 months including current month
-                startDate.setDate(1) // First day of the month
-                break
+            case '30':
+            case 'month':
             default:
-                // Default to 30 days
-                startDate.setDate(startDate.getDate() - 29)
+                // 30 days including today
+                return { startDate: startOfZonedDay(now, timezone, -29), endDate }
         }
+    }
 
-        startDate.setHours(0, 0, 0, 0)
-        return { startDate, endDate }
+    /**
+     * Where clause for completed orders of the filtered restaurant in a window
+     */
+    private completedOrdersWhere(
+        period: ReportPeriod,
+        window: ReportWindow
+    ): Prisma.OrderWhereInput {
+        return {
+            status: OrderStatus.COMPLETED,
+            restaurantId: period.restaurantId,
+            createdAt: {
+                gte: window.startDate,
+                lt: window.endDate,
+            },
+        }
     }
 
     /**
-     * Get revenue chart data for Chart.js
-     * @param range - 'week', '30', 'month', 'lastMonth', or '3months'
+     * Percentage change from previous to current (null when there is no baseline)
      */
-    async getRevenueChart(range: string = 'week') {
-        const { startDate, endDate } = this.getDateRange(range)
+    private calculateChange(current: number, previous: number): number | null {
+        if (previous === 0) {
+            return current === 0 ? 0 : null
+        }
+        return Number((((current - previous) / previous) * 100).toFixed(1))
+    }
 
-        // Get all completed orders in the date range
-        const orders = await this.prisma.order.findMany({
+    /**
+     * Attach the previous-period value and change percentage to each row
+     */
+    private compareRows<T>(
+        current: T[],
+        previous: T[],
+        key: (row: T) => string | number,
+        value: (row: T) => number
+    ): Compared<T>[] {
+        const previousByKey = new Map(
+            previous.map((row) => [key(row), value(row)])
+        )
+
+        return current.map((row) => {
+            const previousValue = previousByKey.get(key(row)) ?? 0
+            return {
+                ...row,
+                previousValue,
+                changePercent: this.calculateChange(value(row), previousValue),
+            }
+        })
+    }
+
+    // ========================================================================
+    // FINANCIAL REPORTS
+    // ========================================================================
+
+    /**
+     * Get dashboard statistics (today by default)
+     */
+    async getDashboardStats(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, 'today')
+
+        const [current, previous, activeTables] = await Promise.all([
+            this.aggregateDashboardStats(period, period.current),
+            this.aggregateDashboardStats(period, period.previous),
+            // Active Tables (Status != AVAILABLE) - live value, not compared
+            this.prisma.table.count({
+                where: {
+                    restaurantId: period.restaurantId,
+                    status: {
+                        not: TableStatus.AVAILABLE,
+                    },
+                    isActive: true,
+                },
+            }),
+        ])
+
+        return {
+            ...current,
+            activeTables,
+            comparison: {
+                totalRevenue: {
+                    previousValue: previous.totalRevenue,
+                    changePercent: this.calculateChange(
+                        current.totalRevenue,
+                        previous.totalRevenue
+                    ),
+                },
+                totalOrders: {
+                    previousValue: previous.totalOrders,
+                    changePercent: this.calculateChange(
+                        current.totalOrders,
+                        previous.totalOrders
+                    ),
+                },
+            },
+        }
+    }
+
+    private async aggregateDashboardStats(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Total Revenue - Sum of completed orders, net of refunds
+        const revenueResult = await this.prisma.order.aggregate({
+            where: this.completedOrdersWhere(period, window),
+            _sum: {
+                totalAmount: true,
+                refundedAmount: true,
+            },
+        })
+
+        const totalRevenue =
+            Number(revenueResult._sum.totalAmount ?? 0) -
+            Number(revenueResult._sum.refundedAmount ?? 0)
+
+        // Total Orders - Count all orders created in the window
+        const totalOrders = await this.prisma.order.count({
             where: {
-                status: OrderStatus.COMPLETED,
+                restaurantId: period.restaurantId,
                 createdAt: {
-                    gte: startDate,
-                    lte: endDate,
+                    gte: window.startDate,
+                    lt: window.endDate,
                 },
             },
+        })
+
+        return { totalRevenue, totalOrders }
+    }
+
+    /**
+     * Get revenue chart data for Chart.js (last 7 days by default)
+     * previousData holds the same day offset of the previous period
+     */
+    async getRevenueChart(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, 'week')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateDailyRevenue(period, period.current),
+            this.aggregateDailyRevenue(period, period.previous),
+        ])
+
+        const total = current.data.reduce((sum, value) => sum + value, 0)
+        const previousTotal = previous.data.reduce((sum, value) => sum + value, 0)
+
+        return {
+            labels: current.labels,
+            dates: current.dates,
+            data: current.data,
+            previousData: current.data.map((_, index) => previous.data[index] ?? 0),
+            total: Number(total.toFixed(2)),
+            previousTotal: Number(previousTotal.toFixed(2)),
+            changePercent: this.calculateChange(total, previousTotal),
+        }
+    }
+
+    private async aggregateDailyRevenue(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get all completed orders in the date range
+        const orders = await this.prisma.order.findMany({
+            where: this.completedOrdersWhere(period, window),
             select: {
                 totalAmount: true,
+                refundedAmount: true,
                 createdAt: true,
             },
         })
 
-        // Group by date and sum revenue
+        // Initialize all local dates in range with 0
         const revenueByDate = new Map<string, number>()
-
-        // Initialize all dates in range with 0
-        const dateArray: Date[] = []
-        const currentDate = new Date(startDate)
-        const endDateOnly = new Date(endDate)
-        endDateOnly.setHours(0, 0, 0, 0)
-        
-        while (currentDate <= endDateOnly) {
-            dateArray.push(new Date(currentDate))
-            const dateKey = currentDate.toISOString().split('T')[0]
-            revenueByDate.set(dateKey, 0)
-            currentDate.setDate(currentDate.getDate() + 1)
+        let day = startOfZonedDay(window.startDate, period.timezone)
+        while (day < window.endDate) {
+            revenueByDate.set(toZonedDateKey(day, period.timezone), 0)
+            day = startOfZonedDay(day, period.timezone, 1)
         }
 
-        // Sum revenue by date
+        // Sum revenue (net of refunds) by local date
         orders.forEach((order) => {
-            const dateKey = order.createdAt.toISOString().split('T')[0]
+            const dateKey = toZonedDateKey(order.createdAt, period.timezone)
             const currentAmount = revenueByDate.get(dateKey) || 0
             revenueByDate.set(
                 dateKey,
-                currentAmount + Number(order.totalAmount)
+                currentAmount +
+                    Number(order.totalAmount) -
+                    Number(order.refundedAmount)
             )
         })
 
-        // Format for Chart.js: labels (dates) and data (revenue)
+        // Format for Chart.js: labels (MM/DD) and data (revenue)
         const labels: string[] = []
+        const dates: string[] = []
         const data: number[] = []
 
-        dateArray.forEach((date) => {
-            const dateKey = date.toISOString().split('T')[0]
-            // Format date as MM/DD for display
-            const formattedDate = `${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}`
-            labels.push(formattedDate)
-            data.push(revenueByDate.get(dateKey) || 0)
+        revenueByDate.forEach((revenue, dateKey) => {
+            const [, month, date] = dateKey.split('-')
+            labels.push(`${month}/${date}`)
+            dates.push(dateKey)
+            data.push(Number(revenue.toFixed(2)))
         })
 
-        return {
-            labels,
-            data,
+        return { labels, dates, data }
+    }
+
+    /**
+     * Get payment methods breakdown
+     */
+    async getPaymentMethodsBreakdown(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregatePaymentMethods(period, period.current),
+            this.aggregatePaymentMethods(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.name,
+            (row) => row.value
+        )
+    }
+
+    private async aggregatePaymentMethods(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get all captured payments from completed orders
+        const payments = await this.prisma.payment.findMany({
+            where: {
+                status: { in: CAPTURED_PAYMENT_STATUSES },
+                order: this.completedOrdersWhere(period, window),
+            },
+            select: {
+                method: true,
+                amount: true,
+                refundedAmount: true,
+            },
+        })
+
+        // Group by payment method and sum amounts
+        const breakdown = new Map<PaymentMethod, number>()
+        
+        // Initialize all methods with 0
+        Object.values(PaymentMethod).forEach((method) => {
+            breakdown.set(method, 0)
+        })
+
+        payments.forEach((payment) => {
+            // Convert Prisma enum to shared-types enum
+            const method = payment.method as PaymentMethod
+            const current = breakdown.get(method) || 0
+            breakdown.set(
+                method,
+                current +
+                    Number(payment.amount) -
+                    Number(payment.refundedAmount)
+            )
+        })
+
+        // Convert to array format
+        const result = Array.from(breakdown.entries()).map(([name, value]) => ({
+            name,
+            value: Number(value.toFixed(2)),
+        }))
+
+        // Filter out methods with 0 value
+        return result.filter((item) => item.value > 0)
+    }
+
+    /**
+     * Get revenue by day of week (local time)
+     */
+    async getDayOfWeekRevenue(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateDayOfWeekRevenue(period, period.current),
+            this.aggregateDayOfWeekRevenue(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.day,
+            (row) => row.revenue
+        )
+    }
+
+    private async aggregateDayOfWeekRevenue(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get all completed orders
+        const orders = await this.prisma.order.findMany({
+            where: this.completedOrdersWhere(period, window),
+            select: {
+                totalAmount: true,
+                refundedAmount: true,
+                createdAt: true,
+            },
+        })
+
+        // Day names mapping
+        const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+        const dayRevenue = new Map<number, number>()
+
+        // Initialize all days with 0
+        for (let day = 0; day < 7; day++) {
+            dayRevenue.set(day, 0)
+        }
+
+        orders.forEach((order) => {
+            const dayOfWeek = getZonedParts(order.createdAt, period.timezone).weekday
+            const current = dayRevenue.get(dayOfWeek) || 0
+            dayRevenue.set(
+                dayOfWeek,
+                current +
+                    Number(order.totalAmount) -
+                    Number(order.refundedAmount)
+            )
+        })
+
+        // Convert to array format, starting with Monday (1)
+        // Rearrange: Mon=0, Tue=1, ..., Sun=6
+        const result: Array<{ day: string; revenue: number }> = []
+        for (let i = 1; i <= 6; i++) {
+            result.push({
+                day: dayNames[i],
+                revenue: Number((dayRevenue.get(i) || 0).toFixed(2)),
+            })
         }
+        // Add Sunday at the end
+        result.push({
+            day: dayNames[0],
+            revenue: Number((dayRevenue.get(0) || 0).toFixed(2)),
+        })
+
+        return result
     }
 
+    // ========================================================================
+    // MENU REPORTS
+    // ========================================================================
+
     /**
      * Get top 5 selling menu items
      */
-    async getTopSellingItems() {
+    async getTopSellingItems(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateTopSellingItems(period, period.current, 5),
+            this.aggregateTopSellingItems(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.menuItemId,
+            (row) => row.totalQuantity
+        )
+    }
+
+    private async aggregateTopSellingItems(
+        period: ReportPeriod,
+        window: ReportWindow,
+        take?: number
+    ) {
         // Group OrderItem by menuItemId and sum quantities
         const topItems = await this.prisma.orderItem.groupBy({
             by: ['menuItemId'],
             where: {
                 // Only count items from completed orders
-                order: {
-                    status: OrderStatus.COMPLETED,
-                },
+                order: this.completedOrdersWhere(period, window),
             },
             _sum: {
                 quantity: true,
@@ -231,7 +630,7 @@ export class ReportsService {
                     quantity: 'desc',
                 },
             },
-            take: 5,
+            take,
         })
 
         // Fetch menu item details for each top item
@@ -266,58 +665,140 @@ export class ReportsService {
     }
 
     /**
-     * Get payment methods breakdown
+     * Get list vs discounted revenue, broken down by pricing rule
+     * Cancelled items are left out; items ordered before pricing rules
+     * existed count at the price they were sold for
      */
-    async getPaymentMethodsBreakdown() {
-        // Get all successful payments from completed orders
-        const payments = await this.prisma.payment.findMany({
-            where: {
-                status: 'SUCCESS',
-                order: {
-                    status: OrderStatus.COMPLETED,
+    async getDiscountSummary(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateDiscounts(period, period.current),
+            this.aggregateDiscounts(period, period.previous),
+        ])
+
+        return {
+            listRevenue: current.listRevenue,
+            discountedRevenue: current.discountedRevenue,
+            discountTotal: current.discountTotal,
+            discountPercent:
+                current.listRevenue > 0
+                    ? Number(
+                          (
+                              (current.discountTotal / current.listRevenue) *
+                              100
+                          ).toFixed(1)
+                      )
+                    : 0,
+            comparison: {
+                discountTotal: {
+                    previousValue: previous.discountTotal,
+                    changePercent: this.calculateChange(
+                        current.discountTotal,
+                        previous.discountTotal
+                    ),
                 },
             },
+            byRule: this.compareRows(
+                current.byRule,
+                previous.byRule,
+                (row) => row.ruleName,
+                (row) => row.discount
+            ),
+        }
+    }
+
+    private async aggregateDiscounts(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        const orderItems = await this.prisma.orderItem.findMany({
+            where: {
+                status: { not: OrderItemStatus.CANCELLED },
+                order: this.completedOrdersWhere(period, window),
+            },
             select: {
-                method: true,
-                amount: true,
+                quantity: true,
+                pricePerUnit: true,
+                listPrice: true,
+                pricingRuleName: true,
             },
         })
 
-        // Group by payment method and sum amounts
-        const breakdown = new Map<PaymentMethod, number>()
-        
-        // Initialize all methods with 0
-        Object.values(PaymentMethod).forEach((method) => {
-            breakdown.set(method, 0)
-        })
+        let listRevenue = 0
+        let discountedRevenue = 0
+        const rules = new Map<
+            string,
+            { quantity: number; listRevenue: number; discount: number }
+        >()
 
-        payments.forEach((payment) => {
-            // Convert Prisma enum to shared-types enum
-            const method = payment.method as PaymentMethod
-            const current = breakdown.get(method) || 0
-            breakdown.set(method, current + Number(payment.amount))
+        orderItems.forEach((item) => {
+            const sold = Number(item.pricePerUnit) * item.quantity
+            const list =
+                Number(item.listPrice ?? item.pricePerUnit) * item.quantity
+            listRevenue += list
+            discountedRevenue += sold
+
+            if (!item.pricingRuleName) return
+            const current = rules.get(item.pricingRuleName) || {
+                quantity: 0,
+                listRevenue: 0,
+                discount: 0,
+            }
+            rules.set(item.pricingRuleName, {
+                quantity: current.quantity + item.quantity,
+                listRevenue: current.listRevenue + list,
+                discount: current.discount + (list - sold),
+            })
         })
 
-        // Convert to array format
-        const result = Array.from(breakdown.entries()).map(([name, value]) => ({
-            name,
-            value: Number(value.toFixed(2)),
-        }))
+        const byRule = Array.from(rules.entries())
+            .map(([ruleName, data]) => ({
+                ruleName,
+                quantity: data.quantity,
+                listRevenue: Number(data.listRevenue.toFixed(2)),
+                discountedRevenue: Number(
+                    (data.listRevenue - data.discount).toFixed(2)
+                ),
+                discount: Number(data.discount.toFixed(2)),
+            }))
+            .sort((a, b) => b.discount - a.discount)
 
-        // Filter out methods with 0 value
-        return result.filter((item) => item.value > 0)
+        return {
+            listRevenue: Number(listRevenue.toFixed(2)),
+            discountedRevenue: Number(discountedRevenue.toFixed(2)),
+            discountTotal: Number((listRevenue - discountedRevenue).toFixed(2)),
+            byRule,
+        }
     }
 
     /**
      * Get sales by category
      */
-    async getCategorySales() {
+    async getCategorySales(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateCategorySales(period, period.current),
+            this.aggregateCategorySales(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.category,
+            (row) => row.sales
+        )
+    }
+
+    private async aggregateCategorySales(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
         // Get all order items from completed orders with category info
         const orderItems = await this.prisma.orderItem.findMany({
             where: {
-                order: {
-                    status: OrderStatus.COMPLETED,
-                },
+                order: this.completedOrdersWhere(period, window),
             },
             select: {
                 quantity: true,
@@ -357,13 +838,43 @@ export class ReportsService {
     }
 
     /**
-     * Get voided/cancelled items
+     * Get voided/cancelled items (top 5 by loss)
+     * @param limit - number of items to return, null for all
      */
-    async getVoidedItems() {
-        // Get cancelled order items
+    async getVoidedItems(
+        query: ReportQueryDto = {},
+        limit: number | null = 5
+    ) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateVoidedItems(period, period.current),
+            this.aggregateVoidedItems(period, period.previous),
+        ])
+
+        return this.compareRows(
+            limit === null ? current : current.slice(0, limit),
+            previous,
+            (row) => row.itemName,
+            (row) => row.lossAmount
+        )
+    }
+
+    private async aggregateVoidedItems(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get cancelled order items of orders placed in the window
         const voidedItems = await this.prisma.orderItem.findMany({
             where: {
                 status: OrderItemStatus.CANCELLED,
+                order: {
+                    restaurantId: period.restaurantId,
+                    createdAt: {
+                        gte: window.startDate,
+                        lt: window.endDate,
+                    },
+                },
             },
             select: {
                 id: true,
@@ -399,7 +910,7 @@ export class ReportsService {
             })
         })
 
-        // Convert to array and sort by loss amount descending, take top 5
+        // Convert to array and sort by loss amount descending
         const result = Array.from(itemMap.entries())
             .map(([itemName, data]) => ({
                 itemName,
@@ -408,112 +919,37 @@ export class ReportsService {
                 reason: data.reason,
             }))
             .sort((a, b) => b.lossAmount - a.lossAmount)
-            .slice(0, 5)
 
         return result
     }
 
     /**
-     * Get peak hours analysis
+     * Get menu performance matrix (quantity sold vs revenue)
      */
-    async getPeakHours() {
-        // Get all orders with creation time
-        const orders = await this.prisma.order.findMany({
-            where: {
-                status: OrderStatus.COMPLETED,
-            },
-            select: {
-                createdAt: true,
-            },
-        })
-
-        // Group by hour (0-23)
-        const hourCounts = new Map<number, number>()
-
-        // Initialize all hours with 0
-        for (let hour = 0; hour < 24; hour++) {
-            hourCounts.set(hour, 0)
-        }
-
-        orders.forEach((order) => {
-            const hour = new Date(order.createdAt).getHours()
-            const current = hourCounts.get(hour) || 0
-            hourCounts.set(hour, current + 1)
-        })
-
-        // Convert to array format with formatted hour strings
-        const result = Array.from(hourCounts.entries())
-            .map(([hour, orders]) => ({
-                hour: `${String(hour).padStart(2, '0')}:00`,
-                orders,
-            }))
-            .sort((a, b) => {
-                const hourA = parseInt(a.hour.split(':')[0])
-                const hourB = parseInt(b.hour.split(':')[0])
-                return hourA - hourB
-            })
-
-        return result
-    }
-
-    /**
-     * Get revenue by day of week
-     */
-    async getDayOfWeekRevenue() {
-        // Get all completed orders
-        const orders = await this.prisma.order.findMany({
-            where: {
-                status: OrderStatus.COMPLETED,
-            },
-            select: {
-                totalAmount: true,
-                createdAt: true,
-            },
-        })
-
-        // Day names mapping
-        const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-        const dayRevenue = new Map<number, number>()
-
-        // Initialize all days with 0
-        for (let day = 0; day < 7; day++) {
-            dayRevenue.set(day, 0)
-        }
-
-        orders.forEach((order) => {
-            const dayOfWeek = new Date(order.createdAt).getDay()
-            const current = dayRevenue.get(dayOfWeek) || 0
-            dayRevenue.set(dayOfWeek, current + Number(order.totalAmount))
-        })
-
-        // Convert to array format, starting with Monday (1)
-        // Rearrange: Mon=0, Tue=1, ..., Sun=6
-        const result: Array<{ day: string; revenue: number }> = []
-        for (let i = 1; i <= 6; i++) {
-            result.push({
-                day: dayNames[i],
-                revenue: Number((dayRevenue.get(i) || 0).toFixed(2)),
-            })
-        }
-        // Add Sunday at the end
-        result.push({
-            day: dayNames[0],
-            revenue: Number((dayRevenue.get(0) || 0).toFixed(2)),
-        })
-
-        return result
+    async getMenuPerformance(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateMenuPerformance(period, period.current),
+            this.aggregateMenuPerformance(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.name,
+            (row) => row.totalRevenue
+        )
     }
 
-    /**
-     * Get menu performance matrix (quantity sold vs revenue)
-     */
-    async getMenuPerformance() {
+    private async aggregateMenuPerformance(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
         // Get all order items from completed orders
         const orderItems = await this.prisma.orderItem.findMany({
             where: {
-                order: {
-                    status: OrderStatus.COMPLETED,
-                },
+                order: this.completedOrdersWhere(period, window),
             },
             select: {
                 menuItemId: true,
@@ -562,16 +998,37 @@ export class ReportsService {
     }
 
     /**
-     * Get top modifiers
+     * Get top 8 modifiers
+     * @param limit - number of modifiers to return, null for all
      */
-    async getTopModifiers() {
+    async getTopModifiers(
+        query: ReportQueryDto = {},
+        limit: number | null = 8
+    ) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateModifierUsage(period, period.current),
+            this.aggregateModifierUsage(period, period.previous),
+        ])
+
+        return this.compareRows(
+            limit === null ? current : current.slice(0, limit),
+            previous,
+            (row) => row.name,
+            (row) => row.usage
+        )
+    }
+
+    private async aggregateModifierUsage(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
         // Get all order item modifiers
         const modifiers = await this.prisma.orderItemModifier.findMany({
             where: {
                 orderItem: {
-                    order: {
-                        status: OrderStatus.COMPLETED,
-                    },
+                    order: this.completedOrdersWhere(period, window),
                 },
             },
             select: {
@@ -588,28 +1045,44 @@ export class ReportsService {
             modifierCounts.set(name, current + 1)
         })
 
-        // Convert to array, sort by usage, take top 8
+        // Convert to array, sort by usage
         const result = Array.from(modifierCounts.entries())
             .map(([name, usage]) => ({
                 name,
                 usage,
             }))
             .sort((a, b) => b.usage - a.usage)
-            .slice(0, 8)
 
         return result
     }
 
     /**
-     * Get rating vs volume data (menu items with ratings and sales volume)
+     * Get rating vs volume data (top 5 rated menu items by sales volume)
      */
-    async getRatingVolume() {
+    async getRatingVolume(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregateRatingVolume(period, period.current),
+            this.aggregateRatingVolume(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current.slice(0, 5),
+            previous,
+            (row) => row.item,
+            (row) => row.volume
+        )
+    }
+
+    private async aggregateRatingVolume(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
         // Get all order items from completed orders with menu item info
         const orderItems = await this.prisma.orderItem.findMany({
             where: {
-                order: {
-                    status: OrderStatus.COMPLETED,
-                },
+                order: this.completedOrdersWhere(period, window),
             },
             select: {
                 menuItemId: true,
@@ -634,8 +1107,16 @@ export class ReportsService {
             volumeMap.set(menuItemId, current + item.quantity)
         })
 
-        // Get all reviews with ratings
+        // Get reviews written up to the end of the window
         const reviews = await this.prisma.review.findMany({
+            where: {
+                menuItemId: {
+                    in: Array.from(volumeMap.keys()),
+                },
+                createdAt: {
+                    lt: window.endDate,
+                },
+            },
             select: {
                 menuItemId: true,
                 rating: true,
@@ -670,124 +1151,598 @@ export class ReportsService {
             }
         })
 
-        // Sort by volume descending and take top 5
+        // Sort by volume descending
+        return result.sort((a, b) => b.volume - a.volume)
+    }
+
+    // ========================================================================
+    // OPERATIONAL REPORTS
+    // ========================================================================
+
+    /**
+     * Get peak hours analysis (local hour of day)
+     */
+    async getPeakHours(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await Promise.all([
+            this.aggregatePeakHours(period, period.current),
+            this.aggregatePeakHours(period, period.previous),
+        ])
+
+        return this.compareRows(
+            current,
+            previous,
+            (row) => row.hour,
+            (row) => row.orders
+        )
+    }
+
+    private async aggregatePeakHours(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get all orders with creation time
+        const orders = await this.prisma.order.findMany({
+            where: this.completedOrdersWhere(period, window),
+            select: {
+                createdAt: true,
+            },
+        })
+
+        // Group by hour (0-23)
+        const hourCounts = new Map<number, number>()
+
+        // Initialize all hours with 0
+        for (let hour = 0; hour < 24; hour++) {
+            hourCounts.set(hour, 0)
+        }
+
+        orders.forEach((order) => {
+            const hour = getZonedParts(order.createdAt, period.timezone).hour
+            const current = hourCounts.get(hour) || 0
+            hourCounts.set(hour, current + 1)
+        })
+
+        // Convert to array format with formatted hour strings
+        const result = Array.from(hourCounts.entries())
+            .map(([hour, orders]) => ({
+                hour: `${String(hour).padStart(2, '0')}:00`,
+                orders,
+            }))
+            .sort((a, b) => {
+                const hourA = parseInt(a.hour.split(':')[0])
+                const hourB = parseInt(b.hour.split(':')[0])
+                return hourA - hourB
+            })
+
         return result
-            .sort((a, b) => b.volume - a.volume)
-            .slice(0, 5)
     }
 
     /**
-     * Get prep time trends (average prep time by week)
-     * Calculates from OrderItem timestamps (createdAt to updatedAt when status = READY)
+     * Get prep time trends (average prep time by week of the selected period)
+     * Calculates from OrderItem timestamps (createdAt to readyAt)
      */
-    async getPrepTimeTrends() {
+    async getPrepTimeTrends(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
         // Retry logic for connection errors
-        const maxRetries = 3
-        let lastError: any = null
+        const [current, previous] = await this.executeWithRetry(
+            () =>
+                Promise.all([
+                    this.aggregatePrepTimes(period, period.current),
+                    this.aggregatePrepTimes(period, period.previous),
+                ]),
+            3
+        )
+
+        // Weeks of both periods are aligned by their position
+        return current.map((week, index) => {
+            const previousValue = previous[index]?.avgPrepTime ?? 0
+            return {
+                ...week,
+                previousValue,
+                changePercent: this.calculateChange(
+                    week.avgPrepTime,
+                    previousValue
+                ),
+            }
+        })
+    }
 
-        for (let attempt = 0; attempt < maxRetries; attempt++) {
-            try {
-                // Get order items that have been prepared (status = READY or SERVED)
-                // Limit to last 1000 items to avoid query timeout
-                const orderItems = await this.prisma.orderItem.findMany({
-                    where: {
-                        status: {
-                            in: ['READY', 'SERVED'],
-                        },
-                        order: {
-                            status: OrderStatus.COMPLETED,
-                        },
-                    },
+    private async aggregatePrepTimes(
+        period: ReportPeriod,
+        window: ReportWindow
+    ) {
+        // Get order items that have been prepared (readyAt recorded)
+        // Limit to last 1000 items to avoid query timeout
+        const orderItems = await this.prisma.orderItem.findMany({
+            where: {
+                readyAt: {
+                    not: null,
+                },
+                order: this.completedOrdersWhere(period, window),
+            },
+            select: {
+                createdAt: true,
+                readyAt: true,
+                order: {
                     select: {
                         createdAt: true,
-                        updatedAt: true,
-                        order: {
+                    },
+                },
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+            take: 1000, // Limit to prevent timeout
+        })
+
+        // Calculate prep time for each item (time from created to ready)
+        const prepTimes: Array<{ date: Date; prepTime: number }> = []
+        orderItems.forEach((item) => {
+            if (!item.readyAt) {
+                return
+            }
+            const prepTimeMs =
+                item.readyAt.getTime() - item.createdAt.getTime()
+            const prepTimeMinutes = prepTimeMs / (1000 * 60)
+            if (prepTimeMinutes > 0 && prepTimeMinutes < 120) {
+                // Filter out unreasonable values
+                prepTimes.push({
+                    date: new Date(item.order.createdAt),
+                    prepTime: prepTimeMinutes,
+                })
+            }
+        })
+
+        // Group by local week, starting from the beginning of the window
+        const weeksData: Array<{ week: string; avgPrepTime: number }> = []
+        let weekStart = startOfZonedDay(window.startDate, period.timezone)
+
+        while (weekStart < window.endDate) {
+            const weekEnd = startOfZonedDay(weekStart, period.timezone, 7)
+
+            // Filter prep times for this week
+            const weekPrepTimes = prepTimes
+                .filter(
+                    (pt) =>
+                        pt.date >= weekStart &&
+                        pt.date < weekEnd
+                )
+                .map((pt) => pt.prepTime)
+
+            const avgPrepTime =
+                weekPrepTimes.length > 0
+                    ? weekPrepTimes.reduce((a, b) => a + b, 0) /
+                      weekPrepTimes.length
+                    : 0 // Return 0 if no data for this week
+
+            // Label weeks by their first day (MM/DD)
+            const [, month, day] = toZonedDateKey(weekStart, period.timezone).split('-')
+            weeksData.push({
+                week: `${month}/${day}`,
+                avgPrepTime: Number(avgPrepTime.toFixed(1)),
+            })
+
+            weekStart = weekEnd
+        }
+
+        return weeksData
+    }
+
+    /**
+     * Get kitchen stage timings (queue, cook and pass time) overall,
+     * per menu item, per category and per kitchen station
+     */
+    async getKitchenTimings(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, '30')
+
+        const [current, previous] = await this.executeWithRetry(() =>
+            Promise.all([
+                this.fetchTimedItems(period, period.current),
+                this.fetchTimedItems(period, period.previous),
+            ])
+        )
+
+        const summary = this.summarizeTimings(current)
+        const previousSummary = this.summarizeTimings(previous)
+        const change = (key: keyof Omit<KitchenTimings, 'itemCount'>) =>
+            summary[key] !== null && previousSummary[key] !== null
+                ? this.calculateChange(summary[key], previousSummary[key])
+                : null
+
+        return {
+            summary: {
+                ...summary,
+                previous: previousSummary,
+                changePercent: {
+                    queueTime: change('avgQueueTime'),
+                    cookTime: change('avgCookTime'),
+                    passTime: change('avgPassTime'),
+                },
+            },
+            byItem: this.groupTimings(current, (item) => item.menuItem.name),
+            byCategory: this.groupTimings(
+                current,
+                (item) => item.menuItem.category.name
+            ),
+            byStation: this.groupTimings(
+                current,
+                (item) => item.station?.name ?? 'Unassigned'
+            ),
+        }
+    }
+
+    /**
+     * Order items of the window that reached the kitchen (startedAt recorded)
+     */
+    private fetchTimedItems(
+        period: ReportPeriod,
+        window: ReportWindow
+    ): Promise<TimedOrderItem[]> {
+        return this.prisma.orderItem.findMany({
+            where: {
+                startedAt: {
+                    not: null,
+                },
+                status: {
+                    not: OrderItemStatus.CANCELLED,
+                },
+                order: {
+                    restaurantId: period.restaurantId,
+                    createdAt: {
+                        gte: window.startDate,
+                        lt: window.endDate,
+                    },
+                },
+            },
+            select: {
+                quantity: true,
+                createdAt: true,
+                startedAt: true,
+                readyAt: true,
+                servedAt: true,
+                station: {
+                    select: {
+                        name: true,
+                    },
+                },
+                menuItem: {
+                    select: {
+                        name: true,
+                        category: {
                             select: {
-                                createdAt: true,
+                                name: true,
                             },
                         },
                     },
-                    orderBy: {
-                        createdAt: 'desc',
-                    },
-                    take: 1000, // Limit to prevent timeout
-                })
+                },
+            },
+        })
+    }
 
-                // Calculate prep time for each item (time from created to updated)
-                const prepTimes: Array<{ date: Date; prepTime: number }> = []
-                orderItems.forEach((item) => {
-                    const prepTimeMs =
-                        new Date(item.updatedAt).getTime() -
-                        new Date(item.createdAt).getTime()
-                    const prepTimeMinutes = prepTimeMs / (1000 * 60)
-                    if (prepTimeMinutes > 0 && prepTimeMinutes < 120) {
-                        // Filter out unreasonable values
-                        prepTimes.push({
-                            date: new Date(item.order.createdAt),
-                            prepTime: prepTimeMinutes,
-                        })
-                    }
+    private summarizeTimings(items: TimedOrderItem[]): KitchenTimings {
+        // Average minutes between two timestamps, skipping items missing either
+        const average = (
+            from: (item: TimedOrderItem) => Date | null,
+            to: (item: TimedOrderItem) => Date | null
+        ) => {
+            const durations = items
+                .map((item) => {
+                    const start = from(item)
+                    const end = to(item)
+                    return start && end
+                        ? (end.getTime() - start.getTime()) / 60000
+                        : null
                 })
+                .filter(
+                    (minutes): minutes is number =>
+                        minutes !== null && minutes >= 0
+                )
 
-                // Group by week (last 12 weeks)
-                const now = new Date()
-                const weeksData: Array<{ week: string; avgPrepTime: number }> = []
-                
-                for (let i = 11; i >= 0; i--) {
-                    const weekStart = new Date(now)
-                    weekStart.setDate(weekStart.getDate() - (i * 7 + 6))
-                    weekStart.setHours(0, 0, 0, 0)
-                    
-                    const weekEnd = new Date(weekStart)
-                    weekEnd.setDate(weekEnd.getDate() + 7)
-                    
-                    // Filter prep times for this week
-                    const weekPrepTimes = prepTimes
-                        .filter(
-                            (pt) =>
-                                pt.date >= weekStart &&
-                                pt.date < weekEnd
-                        )
-                        .map((pt) => pt.prepTime)
-                    
-                    const avgPrepTime =
-                        weekPrepTimes.length > 0
-                            ? weekPrepTimes.reduce((a, b) => a + b, 0) /
-                              weekPrepTimes.length
-                            : 0 // Return 0 if no data for this week
-                    
-                    weeksData.push({
-                        week: `Week ${12 - i}`,
-                        avgPrepTime: Number(avgPrepTime.toFixed(1)),
-                    })
-                }
+            if (durations.length === 0) {
+                return null
+            }
+            const total = durations.reduce((sum, minutes) => sum + minutes, 0)
+            return Number((total / durations.length).toFixed(1))
+        }
 
-                return weeksData
-            } catch (error: any) {
-                lastError = error
-                
-                // Check if it's a connection error (P1017)
-                if (error.code === 'P1017' && attempt < maxRetries - 1) {
-                    // Wait before retry
-                    await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)))
-                    
-                    // Try to reconnect
-                    try {
-                        await this.prisma.$disconnect()
-                        await this.prisma.$connect()
-                    } catch (reconnectError) {
-                        // Ignore reconnect errors, will retry query
-                    }
-                    
-                    continue // Retry
+        return {
+            itemCount: items.length,
+            avgQueueTime: average(
+                (item) => item.createdAt,
+                (item) => item.startedAt
+            ),
+            avgCookTime: average(
+                (item) => item.startedAt,
+                (item) => item.readyAt
+            ),
+            avgPassTime: average(
+                (item) => item.readyAt,
+                (item) => item.servedAt
+            ),
+        }
+    }
+
+    /**
+     * Group items by key and summarize each group, slowest cook time first
+     */
+    private groupTimings(
+        items: TimedOrderItem[],
+        key: (item: TimedOrderItem) => string
+    ): Array<KitchenTimings & { name: string }> {
+        const groups = new Map<string, TimedOrderItem[]>()
+        items.forEach((item) => {
+            const name = key(item)
+            groups.set(name, [...(groups.get(name) || []), item])
+        })
+
+        return Array.from(groups.entries())
+            .map(([name, groupItems]) => ({
+                name,
+                ...this.summarizeTimings(groupItems),
+            }))
+            .sort((a, b) => (b.avgCookTime ?? 0) - (a.avgCookTime ?? 0))
+    }
+
+    // ========================================================================
+    // PAYMENT RECONCILIATION
+    // ========================================================================
+
+    /**
+     * Discrepancies flagged by payment reconciliation and payments expired at
+     * the gateway, grouped by local day (latest first, days without either
+     * left out)
+     */
+    async getReconciliationReport(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, 'week')
+        const { startDate, endDate } = period.current
+
+        const [discrepancies, expiredPayments] = await Promise.all([
+            this.prisma.paymentDiscrepancy.findMany({
+                where: {
+                    restaurantId: period.restaurantId,
+                    detectedAt: { gte: startDate, lt: endDate },
+                },
+                include: {
+                    order: {
+                        select: {
+                            id: true,
+                            table: { select: { id: true, name: true } },
+                        },
+                    },
+                    payment: {
+                        select: {
+                            id: true,
+                            method: true,
+                            provider: true,
+                            amount: true,
+                        },
+                    },
+                },
+                orderBy: { detectedAt: 'desc' },
+            }),
+            // Expired payments keep their last update as the expiry time
+            this.prisma.payment.findMany({
+                where: {
+                    status: PaymentStatus.EXPIRED,
+                    updatedAt: { gte: startDate, lt: endDate },
+                    order: { restaurantId: period.restaurantId },
+                },
+                select: { amount: true, updatedAt: true },
+            }),
+        ])
+
+        const days = new Map<
+            string,
+            {
+                date: string
+                discrepancies: typeof discrepancies
+                unresolvedCount: number
+                expiredPayments: number
+                expiredAmount: number
+            }
+        >()
+        const getDay = (at: Date) => {
+            const date = toZonedDateKey(at, period.timezone)
+            let day = days.get(date)
+            if (!day) {
+                day = {
+                    date,
+                    discrepancies: [],
+                    unresolvedCount: 0,
+                    expiredPayments: 0,
+                    expiredAmount: 0,
                 }
-                
-                // If not a connection error or max retries reached, throw
-                throw error
+                days.set(date, day)
             }
+            return day
+        }
+
+        discrepancies.forEach((discrepancy) => {
+            const day = getDay(discrepancy.detectedAt)
+            day.discrepancies.push(discrepancy)
+            if (!discrepancy.resolvedAt) {
+                day.unresolvedCount += 1
+            }
+        })
+        expiredPayments.forEach((payment) => {
+            const day = getDay(payment.updatedAt)
+            day.expiredPayments += 1
+            day.expiredAmount += Number(payment.amount)
+        })
+
+        return {
+            days: Array.from(days.values()).sort((a, b) =>
+                b.date.localeCompare(a.date)
+            ),
+            totals: {
+                discrepancies: discrepancies.length,
+                unresolved: discrepancies.filter((d) => !d.resolvedAt).length,
+                expiredPayments: expiredPayments.length,
+            },
+        }
+    }
+
+    /**
+     * Mark a discrepancy as looked into; it stays in the report
+     */
+    async resolveDiscrepancy(id: number) {
+        const discrepancy = await this.prisma.paymentDiscrepancy.findUnique({
+            where: { id },
+        })
+        if (!discrepancy) {
+            throw new NotFoundException(`Discrepancy with ID ${id} not found`)
+        }
+
+        return this.prisma.paymentDiscrepancy.update({
+            where: { id },
+            data: { resolvedAt: discrepancy.resolvedAt ?? new Date() },
+        })
+    }
+
+    // ========================================================================
+    // END OF DAY
+    // ========================================================================
+
+    /**
+     * Z-report: sales of completed orders, takings per payment method,
+     * completed refunds and the cash drawer of every shift open during the
+     * period (today by default)
+     */
+    async getZReport(query: ReportQueryDto = {}) {
+        const period = await this.resolvePeriod(query, 'today')
+        const { startDate, endDate } = period.current
+        const inPeriod = { gte: startDate, lt: endDate }
+
+        const [orders, payments, refunds, shifts] = await Promise.all([
+            this.prisma.order.aggregate({
+                where: this.completedOrdersWhere(period, period.current),
+                _count: true,
+                _sum: {
+                    subtotal: true,
+                    discountAmount: true,
+                    serviceCharge: true,
+                    taxAmount: true,
+                    tipAmount: true,
+                    totalAmount: true,
+                },
+            }),
+            this.prisma.payment.findMany({
+                where: {
+                    status: { in: CAPTURED_PAYMENT_STATUSES },
+                    createdAt: inPeriod,
+                    order: { restaurantId: period.restaurantId },
+                },
+                select: { method: true, amount: true, shiftId: true },
+            }),
+            this.prisma.refund.findMany({
+                where: {
+                    status: RefundStatus.COMPLETED,
+                    processedAt: inPeriod,
+                    order: { restaurantId: period.restaurantId },
+                },
+                select: { amount: true, payment: { select: { method: true } } },
+            }),
+            this.prisma.cashShift.findMany({
+                where: {
+                    restaurantId: period.restaurantId,
+                    openedAt: { lt: endDate },
+                    OR: [{ closedAt: null }, { closedAt: { gte: startDate } }],
+                },
+                include: { cashier: { select: { id: true, fullName: true } } },
+                orderBy: { openedAt: 'asc' },
+            }),
+        ])
+
+        const byMethod = new Map<
+            PaymentMethod,
+            {
+                method: PaymentMethod
+                count: number
+                amount: number
+                refunded: number
+            }
+        >()
+        const getMethod = (method: PaymentMethod) => {
+            let row = byMethod.get(method)
+            if (!row) {
+                row = { method, count: 0, amount: 0, refunded: 0 }
+                byMethod.set(method, row)
+            }
+            return row
+        }
+        payments.forEach((payment) => {
+            const row = getMethod(payment.method as PaymentMethod)
+            row.count += 1
+            row.amount += Number(payment.amount)
+        })
+        refunds.forEach((refund) => {
+            getMethod(refund.payment.method as PaymentMethod).refunded +=
+                Number(refund.amount)
+        })
+
+        const drawers = await Promise.all(
+            shifts.map(async (shift) => ({
+                ...shift,
+                summary: await this.shiftsService.summarize(shift),
+            }))
+        )
+        const closed = drawers.filter((shift) => shift.closedAt)
+        // Cash taken by staff without an open shift is in no drawer count
+        const unassignedCash = payments.filter(
+            (payment) =>
+                (payment.method as PaymentMethod) === PaymentMethod.CASH &&
+                payment.shiftId === null
+        )
+
+        const takings = payments.reduce((sum, p) => sum + Number(p.amount), 0)
+        const refunded = refunds.reduce((sum, r) => sum + Number(r.amount), 0)
+
+        return {
+            ...(await this.getPeriodSummary(query, 'today')),
+            generatedAt: new Date().toISOString(),
+            sales: {
+                orders: orders._count,
+                subtotal: Number(orders._sum.subtotal ?? 0),
+                discounts: Number(orders._sum.discountAmount ?? 0),
+                serviceCharge: Number(orders._sum.serviceCharge ?? 0),
+                tax: Number(orders._sum.taxAmount ?? 0),
+                tips: Number(orders._sum.tipAmount ?? 0),
+                total: Number(orders._sum.totalAmount ?? 0),
+            },
+            payments: Array.from(byMethod.values()),
+            totals: {
+                takings,
+                refunds: refunded,
+                net: takings - refunded,
+            },
+            shifts: drawers,
+            drawer: {
+                openingFloat: drawers.reduce(
+                    (sum, shift) => sum + Number(shift.openingFloat),
+                    0
+                ),
+                expectedCash: closed.reduce(
+                    (sum, shift) => sum + shift.summary.expectedCash,
+                    0
+                ),
+                countedCash: closed.reduce(
+                    (sum, shift) => sum + Number(shift.countedCash ?? 0),
+                    0
+                ),
+                overShort: closed.reduce(
+                    (sum, shift) => sum + Number(shift.overShort ?? 0),
+                    0
+                ),
+                openShifts: drawers.length - closed.length,
+                unassignedCashPayments: unassignedCash.length,
+                unassignedCash: unassignedCash.reduce(
+                    (sum, payment) => sum + Number(payment.amount),
+                    0
+                ),
+            },
         }
-        
-        // If all retries failed, throw last error
-        throw lastError || new Error('Failed to fetch prep time trends after retries')
     }
 }
@@ -0,0 +1,66 @@
+import {
+    IsDateString,
+    IsEmail,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Max,
+    Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class CreateReservationDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    restaurantId: number
+
+    @ApiProperty({
+        example: 3,
+        required: false,
+        description:
+            'Table to hold. When omitted the smallest free table that fits the party is assigned',
+    })
+    @IsInt()
+    @IsOptional()
+    tableId?: number
+
+    @ApiProperty({ example: 4, description: 'Number of guests' })
+    @IsInt()
+    @Min(1)
+    partySize: number
+
+    @ApiProperty({
+        example: '2026-02-14T19:00:00+07:00',
+        description: 'Start of the slot (ISO 8601 with offset)',
+    })
+    @IsDateString()
+    reservedAt: string
+
+    @ApiProperty({ example: 90, required: false, default: 90 })
+    @IsInt()
+    @Min(15)
+    @Max(480)
+    @IsOptional()
+    durationMinutes?: number
+
+    @ApiProperty({ example: 'Nguyen Van A' })
+    @IsString()
+    @IsNotEmpty()
+    contactName: string
+
+    @ApiProperty({ example: '0901234567' })
+    @IsString()
+    @IsNotEmpty()
+    contactPhone: string
+
+    @ApiProperty({ example: 'guest@example.com', required: false })
+    @IsEmail()
+    @IsOptional()
+    contactEmail?: string
+
+    @ApiProperty({ example: 'Window seat, birthday', required: false })
+    @IsString()
+    @IsOptional()
+    note?: string
+}
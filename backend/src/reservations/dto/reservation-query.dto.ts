@@ -0,0 +1,33 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { ReservationStatus } from '@aerodine/shared-types'
+
+export class ReservationQueryDto {
+    @ApiProperty({ example: 1, description: 'Restaurant ID' })
+    @IsInt()
+    @Min(1)
+    restaurantId: number
+
+    @ApiProperty({
+        example: '2026-02-14T00:00:00+07:00',
+        required: false,
+        description: 'Only slots starting at or after this time',
+    })
+    @IsOptional()
+    @IsDateString()
+    from?: string
+
+    @ApiProperty({
+        example: '2026-02-15T00:00:00+07:00',
+        required: false,
+        description: 'Only slots starting before this time',
+    })
+    @IsOptional()
+    @IsDateString()
+    to?: string
+
+    @ApiProperty({ enum: ReservationStatus, required: false })
+    @IsOptional()
+    @IsEnum(ReservationStatus)
+    status?: ReservationStatus
+}
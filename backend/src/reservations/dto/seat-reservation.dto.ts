@@ -0,0 +1,13 @@
+import { IsInt, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class SeatReservationDto {
+    @ApiProperty({
+        example: 5,
+        required: false,
+        description: 'Seat the party at a different table than the one held',
+    })
+    @IsInt()
+    @IsOptional()
+    tableId?: number
+}
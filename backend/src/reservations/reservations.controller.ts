@@ -0,0 +1,98 @@
+import {
+    Body,
+    Controller,
+    Get,
+    Param,
+    Patch,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+} from '@nestjs/swagger'
+import { ReservationsService } from './reservations.service'
+import { CreateReservationDto } from './dto/create-reservation.dto'
+import { SeatReservationDto } from './dto/seat-reservation.dto'
+import { ReservationQueryDto } from './dto/reservation-query.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Permissions } from '../auth/decorators/permissions.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { PermissionUser } from '../common/utils/permissions.util'
+import { Permission } from '@aerodine/shared-types'
+
+@ApiTags('reservations')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions(Permission.RESERVATIONS_MANAGE)
+@Controller('reservations')
+export class ReservationsController {
+    constructor(private readonly reservationsService: ReservationsService) {}
+
+    @Post()
+    @ApiOperation({
+        summary: 'Book a table (reservations.manage)',
+        description:
+            'Creates a reservation. The requested table must seat the party and be free for the slot; without a tableId the smallest free table that fits is assigned.',
+    })
+    @ApiResponse({ status: 201, description: 'Reservation created' })
+    @ApiResponse({ status: 404, description: 'Restaurant or table not found' })
+    @ApiResponse({
+        status: 409,
+        description: 'Party too large for the table or slot already taken',
+    })
+    create(@Body() dto: CreateReservationDto) {
+        return this.reservationsService.create(dto)
+    }
+
+    @Get()
+    @ApiOperation({
+        summary: 'List reservations of a restaurant (reservations.manage)',
+    })
+    @ApiResponse({ status: 200, description: 'Reservations ordered by slot' })
+    findAll(@Query() query: ReservationQueryDto) {
+        return this.reservationsService.findAll(query)
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a reservation by ID (reservations.manage)' })
+    @ApiParam({ name: 'id', type: Number, description: 'Reservation ID' })
+    @ApiResponse({ status: 404, description: 'Reservation not found' })
+    findOne(@Param('id') id: string, @CurrentUser() user: PermissionUser) {
+        return this.reservationsService.findOne(+id, user)
+    }
+
+    @Patch(':id/seat')
+    @ApiOperation({
+        summary: 'Seat a reservation (reservations.manage)',
+        description:
+            'Marks the party as seated and the table as OCCUPIED. Optionally seats them at another table.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Reservation ID' })
+    @ApiResponse({ status: 200, description: 'Reservation seated' })
+    @ApiResponse({ status: 409, description: 'Table is occupied or too small' })
+    seat(
+        @Param('id') id: string,
+        @Body() dto: SeatReservationDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.reservationsService.seat(+id, dto, user)
+    }
+
+    @Patch(':id/cancel')
+    @ApiOperation({
+        summary: 'Cancel a reservation (reservations.manage)',
+        description:
+            'Releases the held table when nothing else is booked on it soon.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Reservation ID' })
+    @ApiResponse({ status: 200, description: 'Reservation cancelled' })
+    cancel(@Param('id') id: string, @CurrentUser() user: PermissionUser) {
+        return this.reservationsService.cancel(+id, user)
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { ReservationsService } from './reservations.service'
+import { ReservationsController } from './reservations.controller'
+import { SocketModule } from '../socket/socket.module'
+
+@Module({
+    imports: [SocketModule],
+    controllers: [ReservationsController],
+    providers: [ReservationsService],
+    exports: [ReservationsService],
+})
+export class ReservationsModule {}
@@ -0,0 +1,539 @@
+import {
+    Injectable,
+    Logger,
+    NotFoundException,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    OnModuleInit,
+    OnModuleDestroy,
+} from '@nestjs/common'
+import { Prisma, ReservationStatus, TableStatus } from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { SocketService } from '../socket/socket.service'
+import { CreateReservationDto } from './dto/create-reservation.dto'
+import { SeatReservationDto } from './dto/seat-reservation.dto'
+import { ReservationQueryDto } from './dto/reservation-query.dto'
+import {
+    canAccessRestaurant,
+    PermissionUser,
+} from '../common/utils/permissions.util'
+
+const MINUTE_MS = 60 * 1000
+const HOLD_BEFORE_MINUTES = 30 // Table flips to RESERVED this long before the slot
+const NO_SHOW_AFTER_MINUTES = 20 // Unseated bookings are released after this grace
+const MAX_DURATION_MINUTES = 480 // Upper bound of a slot, used to narrow overlap queries
+const SWEEP_INTERVAL_MS = MINUTE_MS
+
+// Statuses that still claim their table for the slot
+const ACTIVE_STATUSES: ReservationStatus[] = [
+    ReservationStatus.BOOKED,
+    ReservationStatus.SEATED,
+]
+
+type ReservationSlot = {
+    id: number
+    reservedAt: Date
+    durationMinutes: number
+}
+
+/**
+ * Reservations Service - Table bookings, capacity/overlap checks and the
+ * automatic RESERVED hold shortly before each slot
+ */
+@Injectable()
+export class ReservationsService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ReservationsService.name)
+    private sweepTimer: NodeJS.Timeout | null = null
+    private sweeping = false
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly socketService: SocketService
+    ) {}
+
+    onModuleInit() {
+        this.sweepTimer = setInterval(() => {
+            void this.sweep()
+        }, SWEEP_INTERVAL_MS)
+        this.sweepTimer.unref()
+    }
+
+    onModuleDestroy() {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer)
+            this.sweepTimer = null
+        }
+    }
+
+    private getReservationInclude() {
+        return {
+            table: {
+                select: { id: true, name: true, capacity: true, status: true },
+            },
+        }
+    }
+
+    private slotEnd(
+        slot: Pick<ReservationSlot, 'reservedAt' | 'durationMinutes'>
+    ) {
+        return new Date(
+            slot.reservedAt.getTime() + slot.durationMinutes * MINUTE_MS
+        )
+    }
+
+    /**
+     * Lock a table row until the transaction ends, so concurrent bookings
+     * of the same table check and insert one after the other
+     */
+    private async lockTable(tx: Prisma.TransactionClient, tableId: number) {
+        await tx.$queryRaw`SELECT id FROM tables WHERE id = ${tableId} FOR UPDATE`
+    }
+
+    /**
+     * Active reservations on a table whose slot overlaps [start, end)
+     */
+    private async findOverlapping(
+        tx: Prisma.TransactionClient,
+        tableId: number,
+        start: Date,
+        end: Date,
+        excludeId?: number
+    ): Promise<ReservationSlot[]> {
+        const candidates = await tx.reservation.findMany({
+            where: {
+                tableId,
+                status: { in: ACTIVE_STATUSES },
+                id: excludeId ? { not: excludeId } : undefined,
+                reservedAt: {
+                    lt: end,
+                    gt: new Date(
+                        start.getTime() - MAX_DURATION_MINUTES * MINUTE_MS
+                    ),
+                },
+            },
+            select: { id: true, reservedAt: true, durationMinutes: true },
+        })
+
+        return candidates.filter((slot) => this.slotEnd(slot) > start)
+    }
+
+    /**
+     * Check a table can take the party for the slot; the table stays locked
+     * until the transaction ends
+     */
+    private async assertTableFits(
+        tx: Prisma.TransactionClient,
+        restaurantId: number,
+        tableId: number,
+        partySize: number,
+        start: Date,
+        end: Date,
+        excludeId?: number
+    ) {
+        await this.lockTable(tx, tableId)
+        const table = await tx.table.findUnique({
+            where: { id: tableId },
+        })
+        if (!table || table.restaurantId !== restaurantId) {
+            throw new NotFoundException(
+                `Table with ID ${tableId} not found in this restaurant`
+            )
+        }
+        if (!table.isActive) {
+            throw new BadRequestException(`Table ${table.name} is not active`)
+        }
+        if (partySize > table.capacity) {
+            throw new ConflictException(
+                `Table ${table.name} seats ${table.capacity}, party of ${partySize} does not fit`
+            )
+        }
+
+        const overlapping = await this.findOverlapping(
+            tx,
+            tableId,
+            start,
+            end,
+            excludeId
+        )
+        if (overlapping.length > 0) {
+            throw new ConflictException(
+                `Table ${table.name} is already reserved for an overlapping slot`
+            )
+        }
+
+        return table
+    }
+
+    /**
+     * Smallest active table that seats the party and is free for the slot
+     * Each candidate is locked before its slots are checked
+     */
+    private async findFreeTable(
+        tx: Prisma.TransactionClient,
+        restaurantId: number,
+        partySize: number,
+        start: Date,
+        end: Date
+    ) {
+        const tables = await tx.table.findMany({
+            where: {
+                restaurantId,
+                isActive: true,
+                capacity: { gte: partySize },
+            },
+            orderBy: [{ capacity: 'asc' }, { name: 'asc' }],
+        })
+
+        for (const table of tables) {
+            await this.lockTable(tx, table.id)
+            const overlapping = await this.findOverlapping(
+                tx,
+                table.id,
+                start,
+                end
+            )
+            if (overlapping.length === 0) return table
+        }
+        return null
+    }
+
+    // ========================================================================
+    // CRUD
+    // ========================================================================
+
+    async create(dto: CreateReservationDto) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: dto.restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${dto.restaurantId} not found`
+            )
+        }
+
+        const reservedAt = new Date(dto.reservedAt)
+        if (reservedAt.getTime() < Date.now()) {
+            throw new BadRequestException(
+                'Reservation slot must be in the future'
+            )
+        }
+        const durationMinutes = dto.durationMinutes ?? 90
+        const end = this.slotEnd({ reservedAt, durationMinutes })
+
+        // Check and insert under the table lock so two bookings cannot
+        // both take the same slot
+        const reservation = await this.prisma.$transaction(async (tx) => {
+            let tableId = dto.tableId
+            if (tableId) {
+                await this.assertTableFits(
+                    tx,
+                    dto.restaurantId,
+                    tableId,
+                    dto.partySize,
+                    reservedAt,
+                    end
+                )
+            } else {
+                const table = await this.findFreeTable(
+                    tx,
+                    dto.restaurantId,
+                    dto.partySize,
+                    reservedAt,
+                    end
+                )
+                if (!table) {
+                    throw new ConflictException(
+                        `No table for ${dto.partySize} guests is free at this time`
+                    )
+                }
+                tableId = table.id
+            }
+
+            return tx.reservation.create({
+                data: {
+                    restaurantId: dto.restaurantId,
+                    tableId,
+                    partySize: dto.partySize,
+                    reservedAt,
+                    durationMinutes,
+                    contactName: dto.contactName,
+                    contactPhone: dto.contactPhone,
+                    contactEmail: dto.contactEmail,
+                    note: dto.note,
+                },
+                include: this.getReservationInclude(),
+            })
+        })
+
+        this.logger.log(
+            `Reservation ${reservation.id} booked for ${dto.partySize} at table ${reservation.tableId}`
+        )
+
+        // A slot inside the hold window blocks the table straight away
+        await this.holdUpcomingTables(dto.restaurantId)
+
+        return reservation
+    }
+
+    findAll(query: ReservationQueryDto) {
+        const reservedAt: Prisma.DateTimeFilter = {}
+        if (query.from) reservedAt.gte = new Date(query.from)
+        if (query.to) reservedAt.lt = new Date(query.to)
+
+        return this.prisma.reservation.findMany({
+            where: {
+                restaurantId: query.restaurantId,
+                status: query.status,
+                reservedAt,
+            },
+            include: this.getReservationInclude(),
+            orderBy: { reservedAt: 'asc' },
+        })
+    }
+
+    /**
+     * Get a reservation; staff only see those of their own restaurant
+     */
+    async findOne(id: number, user: PermissionUser) {
+        const reservation = await this.prisma.reservation.findUnique({
+            where: { id },
+            include: this.getReservationInclude(),
+        })
+        if (!reservation) {
+            throw new NotFoundException(`Reservation with ID ${id} not found`)
+        }
+        if (!canAccessRestaurant(user, reservation.restaurantId)) {
+            throw new ForbiddenException(
+                'You can only manage reservations of your own restaurant'
+            )
+        }
+        return reservation
+    }
+
+    /**
+     * Seat the party: the reservation is fulfilled and the table becomes OCCUPIED
+     */
+    async seat(id: number, dto: SeatReservationDto, user: PermissionUser) {
+        const reservation = await this.findOne(id, user)
+        if (reservation.status !== ReservationStatus.BOOKED) {
+            throw new BadRequestException(
+                `Reservation is ${reservation.status} and cannot be seated`
+            )
+        }
+
+        const tableId = dto.tableId ?? reservation.tableId
+        if (!tableId) {
+            throw new BadRequestException(
+                'A table is required to seat the party'
+            )
+        }
+
+        const { table, seated } = await this.prisma.$transaction(async (tx) => {
+            const table =
+                tableId === reservation.tableId
+                    ? await tx.table.findUniqueOrThrow({
+                          where: { id: tableId },
+                      })
+                    : await this.assertTableFits(
+                          tx,
+                          reservation.restaurantId,
+                          tableId,
+                          reservation.partySize,
+                          new Date(),
+                          this.slotEnd(reservation),
+                          reservation.id
+                      )
+            if (table.status === TableStatus.OCCUPIED) {
+                throw new ConflictException(
+                    `Table ${table.name} is still occupied`
+                )
+            }
+
+            await tx.table.update({
+                where: { id: tableId },
+                data: { status: TableStatus.OCCUPIED },
+            })
+            const seated = await tx.reservation.update({
+                where: { id },
+                data: {
+                    status: ReservationStatus.SEATED,
+                    seatedAt: new Date(),
+                    tableId,
+                },
+                include: this.getReservationInclude(),
+            })
+            return { table, seated }
+        })
+
+        this.socketService.emitTableStatusChanged(reservation.restaurantId, {
+            tableId,
+            previousStatus: table.status,
+            newStatus: TableStatus.OCCUPIED,
+            reservationId: id,
+        })
+
+        // Moving the party frees the table that was held for it
+        if (reservation.tableId && reservation.tableId !== tableId) {
+            await this.releaseTable(
+                reservation.restaurantId,
+                reservation.tableId,
+                id
+            )
+        }
+
+        return seated
+    }
+
+    async cancel(id: number, user: PermissionUser) {
+        const reservation = await this.findOne(id, user)
+        if (reservation.status !== ReservationStatus.BOOKED) {
+            throw new BadRequestException(
+                `Reservation is ${reservation.status} and cannot be cancelled`
+            )
+        }
+
+        const cancelled = await this.prisma.reservation.update({
+            where: { id },
+            data: { status: ReservationStatus.CANCELLED },
+            include: this.getReservationInclude(),
+        })
+
+        if (reservation.tableId) {
+            await this.releaseTable(
+                reservation.restaurantId,
+                reservation.tableId,
+                id
+            )
+        }
+
+        return cancelled
+    }
+
+    // ========================================================================
+    // AUTOMATIC TABLE TRANSITIONS
+    // ========================================================================
+
+    /**
+     * Hold tables for slots starting soon and release no-shows.
+     * Runs every minute; safe to call on demand.
+     */
+    async sweep() {
+        if (this.sweeping) return
+        this.sweeping = true
+        try {
+            await this.holdUpcomingTables()
+            await this.releaseNoShows()
+        } catch (error) {
+            this.logger.error('Reservation sweep failed', error)
+        } finally {
+            this.sweeping = false
+        }
+    }
+
+    private async holdUpcomingTables(restaurantId?: number) {
+        const now = Date.now()
+        const upcoming = await this.prisma.reservation.findMany({
+            where: {
+                restaurantId,
+                status: ReservationStatus.BOOKED,
+                tableId: { not: null },
+                reservedAt: {
+                    gte: new Date(now - NO_SHOW_AFTER_MINUTES * MINUTE_MS),
+                    lte: new Date(now + HOLD_BEFORE_MINUTES * MINUTE_MS),
+                },
+                table: { status: TableStatus.AVAILABLE, isActive: true },
+            },
+            select: { id: true, restaurantId: true, tableId: true },
+        })
+
+        for (const reservation of upcoming) {
+            if (!reservation.tableId) continue
+            // Only an AVAILABLE table is held; seated walk-ins keep theirs
+            const { count } = await this.prisma.table.updateMany({
+                where: {
+                    id: reservation.tableId,
+                    status: TableStatus.AVAILABLE,
+                },
+                data: { status: TableStatus.RESERVED },
+            })
+            if (count > 0) {
+                this.socketService.emitTableStatusChanged(
+                    reservation.restaurantId,
+                    {
+                        tableId: reservation.tableId,
+                        previousStatus: TableStatus.AVAILABLE,
+                        newStatus: TableStatus.RESERVED,
+                        reservationId: reservation.id,
+                    }
+                )
+            }
+        }
+    }
+
+    private async releaseNoShows() {
+        const expired = await this.prisma.reservation.findMany({
+            where: {
+                status: ReservationStatus.BOOKED,
+                reservedAt: {
+                    lt: new Date(
+                        Date.now() - NO_SHOW_AFTER_MINUTES * MINUTE_MS
+                    ),
+                },
+            },
+            select: { id: true, restaurantId: true, tableId: true },
+        })
+
+        for (const reservation of expired) {
+            await this.prisma.reservation.update({
+                where: { id: reservation.id },
+                data: { status: ReservationStatus.NO_SHOW },
+            })
+            this.logger.log(`Reservation ${reservation.id} marked as no-show`)
+
+            if (reservation.tableId) {
+                await this.releaseTable(
+                    reservation.restaurantId,
+                    reservation.tableId,
+                    reservation.id
+                )
+            }
+        }
+    }
+
+    /**
+     * Put a RESERVED table back to AVAILABLE unless another booking still holds it
+     */
+    private async releaseTable(
+        restaurantId: number,
+        tableId: number,
+        reservationId: number
+    ) {
+        const now = Date.now()
+        const stillHeld = await this.prisma.reservation.count({
+            where: {
+                tableId,
+                id: { not: reservationId },
+                status: ReservationStatus.BOOKED,
+                reservedAt: {
+                    gte: new Date(now - NO_SHOW_AFTER_MINUTES * MINUTE_MS),
+                    lte: new Date(now + HOLD_BEFORE_MINUTES * MINUTE_MS),
+                },
+            },
+        })
+        if (stillHeld > 0) return
+
+        const { count } = await this.prisma.table.updateMany({
+            where: { id: tableId, status: TableStatus.RESERVED },
+            data: { status: TableStatus.AVAILABLE },
+        })
+        if (count > 0) {
+            this.socketService.emitTableStatusChanged(restaurantId, {
+                tableId,
+                previousStatus: TableStatus.RESERVED,
+                newStatus: TableStatus.AVAILABLE,
+                reservationId,
+            })
+        }
+    }
+}
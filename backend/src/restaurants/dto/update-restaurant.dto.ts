@@ -1,4 +1,12 @@
-import { IsString, IsOptional, IsBoolean } from 'class-validator'
+import {
+    IsString,
+    IsOptional,
+    IsBoolean,
+    IsTimeZone,
+    IsNumber,
+    Min,
+    Max,
+} from 'class-validator'
 import { ApiProperty } from '@nestjs/swagger'
 
 export class UpdateRestaurantDto {
@@ -12,6 +20,33 @@ export class UpdateRestaurantDto {
     @IsOptional()
     address?: string
 
+    @ApiProperty({ example: 'Asia/Ho_Chi_Minh', required: false })
+    @IsTimeZone()
+    @IsOptional()
+    timezone?: string
+
+    @ApiProperty({
+        example: 8,
+        required: false,
+        description: 'VAT percent added to new orders',
+    })
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    @IsOptional()
+    taxRate?: number
+
+    @ApiProperty({
+        example: 5,
+        required: false,
+        description: 'Service charge percent added to new orders',
+    })
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    @IsOptional()
+    serviceChargeRate?: number
+
     @ApiProperty({ example: true, required: false })
     @IsBoolean()
     @IsOptional()
@@ -0,0 +1,18 @@
+import { IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class CloseShiftDto {
+    @ApiProperty({
+        example: 1250000,
+        description: 'Cash counted in the drawer',
+    })
+    @IsNumber()
+    @Min(0)
+    countedCash: number
+
+    @ApiProperty({ example: 'Short one 10k note', required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    note?: string
+}
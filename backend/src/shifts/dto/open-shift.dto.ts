@@ -0,0 +1,22 @@
+import { IsInt, IsNumber, IsOptional, Min } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class OpenShiftDto {
+    @ApiProperty({
+        example: 500000,
+        description: 'Cash in the drawer at start',
+    })
+    @IsNumber()
+    @Min(0)
+    openingFloat: number
+
+    @ApiProperty({
+        example: 1,
+        required: false,
+        description:
+            'Restaurant of the drawer; defaults to the staff assignment',
+    })
+    @IsOptional()
+    @IsInt()
+    restaurantId?: number
+}
@@ -0,0 +1,24 @@
+import { IsDateString, IsEnum, IsInt, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { CashShiftStatus } from '@prisma/client'
+
+export class ShiftQueryDto {
+    @ApiProperty({ example: 1, required: false })
+    @IsOptional()
+    @IsInt()
+    restaurantId?: number
+
+    @ApiProperty({ enum: CashShiftStatus, required: false })
+    @IsOptional()
+    @IsEnum(CashShiftStatus)
+    status?: CashShiftStatus
+
+    @ApiProperty({
+        example: '2026-02-01T00:00:00Z',
+        required: false,
+        description: 'Only shifts opened at or after this time',
+    })
+    @IsOptional()
+    @IsDateString()
+    from?: string
+}
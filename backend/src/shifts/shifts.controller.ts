@@ -0,0 +1,91 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+} from '@nestjs/swagger'
+import { ShiftsService, ShiftUser } from './shifts.service'
+import { OpenShiftDto } from './dto/open-shift.dto'
+import { CloseShiftDto } from './dto/close-shift.dto'
+import { ShiftQueryDto } from './dto/shift-query.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { Permissions } from '../auth/decorators/permissions.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { Permission, UserRole } from '@aerodine/shared-types'
+
+@ApiTags('shifts')
+@Controller('shifts')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ShiftsController {
+    constructor(private readonly shiftsService: ShiftsService) {}
+
+    @Post('open')
+    @Permissions(Permission.SHIFTS_MANAGE)
+    @ApiOperation({
+        summary: 'Open a cash drawer shift (shifts.manage)',
+        description:
+            'Cash payments taken while the shift is open are counted towards its drawer.',
+    })
+    @ApiResponse({ status: 201, description: 'Shift opened' })
+    @ApiResponse({ status: 400, description: 'A shift is already open' })
+    open(@Body() dto: OpenShiftDto, @CurrentUser() user: ShiftUser) {
+        return this.shiftsService.open(dto, user)
+    }
+
+    @Get('current')
+    @ApiOperation({
+        summary: 'Own open shift with live drawer totals',
+        description: 'Returns null when no shift is open.',
+    })
+    findCurrent(@CurrentUser() user: ShiftUser) {
+        return this.shiftsService.findCurrent(user.id)
+    }
+
+    @Get()
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'List shifts with drawer totals (ADMIN only)' })
+    findAll(@Query() query: ShiftQueryDto) {
+        return this.shiftsService.findAll(query)
+    }
+
+    @Get(':id')
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'Get a shift (ADMIN only)' })
+    @ApiParam({ name: 'id', type: Number, description: 'Shift ID' })
+    findOne(@Param('id') id: string) {
+        return this.shiftsService.findOne(Number(id))
+    }
+
+    @Post(':id/close')
+    @HttpCode(HttpStatus.OK)
+    @Permissions(Permission.SHIFTS_MANAGE)
+    @ApiOperation({
+        summary: 'Close a shift with the counted cash (shifts.manage)',
+        description:
+            'Fixes the expected cash (float + cash taken - cash refunded) and records the over/short. Staff other than admins can only close their own shift.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Shift ID' })
+    @ApiResponse({ status: 200, description: 'Shift closed' })
+    close(
+        @Param('id') id: string,
+        @Body() dto: CloseShiftDto,
+        @CurrentUser() user: ShiftUser
+    ) {
+        return this.shiftsService.close(Number(id), dto, user)
+    }
+}
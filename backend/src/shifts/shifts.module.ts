@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { ShiftsService } from './shifts.service'
+import { ShiftsController } from './shifts.controller'
+
+@Module({
+    controllers: [ShiftsController],
+    providers: [ShiftsService],
+    exports: [ShiftsService],
+})
+export class ShiftsModule {}
@@ -0,0 +1,210 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import {
+    CashShift,
+    CashShiftStatus,
+    PaymentMethod,
+    Prisma,
+    RefundStatus,
+    UserRole,
+} from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { OpenShiftDto } from './dto/open-shift.dto'
+import { CloseShiftDto } from './dto/close-shift.dto'
+import { ShiftQueryDto } from './dto/shift-query.dto'
+import { CAPTURED_PAYMENT_STATUSES } from '../common/utils/payment-status.util'
+
+const SHIFT_INCLUDE = {
+    cashier: { select: { id: true, fullName: true } },
+} satisfies Prisma.CashShiftInclude
+
+export type ShiftUser = {
+    id: number
+    role: string
+    restaurantId?: number | null
+}
+
+/**
+ * Drawer totals of a shift
+ * expectedCash = opening float + cash taken - cash refunded
+ */
+export interface CashShiftSummary {
+    cashPayments: number
+    cashSales: number
+    cashRefunds: number
+    expectedCash: number
+}
+
+/**
+ * Shifts Service - Cashier drawer sessions
+ * A cashier opens a shift with a float; cash payments they take and cash
+ * refunds they hand out are tied to it. Closing records the counted cash
+ * and the over/short against what the drawer should hold
+ */
+@Injectable()
+export class ShiftsService {
+    private readonly logger = new Logger(ShiftsService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    async open(dto: OpenShiftDto, user: ShiftUser) {
+        // Staff open the drawer of their own restaurant
+        const restaurantId = user.restaurantId ?? dto.restaurantId
+        if (!restaurantId) {
+            throw new BadRequestException(
+                'restaurantId is required for staff without a restaurant'
+            )
+        }
+
+        const existing = await this.prisma.cashShift.findFirst({
+            where: { cashierId: user.id, status: CashShiftStatus.OPEN },
+        })
+        if (existing) {
+            throw new BadRequestException(
+                `Close shift ${existing.id} before opening a new one`
+            )
+        }
+
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+        })
+        if (!restaurant) {
+            throw new NotFoundException(
+                `Restaurant with ID ${restaurantId} not found`
+            )
+        }
+
+        const shift = await this.prisma.cashShift.create({
+            data: {
+                restaurantId,
+                cashierId: user.id,
+                openingFloat: dto.openingFloat,
+            },
+            include: SHIFT_INCLUDE,
+        })
+        this.logger.log(
+            `Shift ${shift.id} opened by user ${user.id} with ${dto.openingFloat}`
+        )
+        return this.withSummary(shift)
+    }
+
+    /**
+     * The cashier's open shift with live totals, null when the drawer is closed
+     */
+    async findCurrent(cashierId: number) {
+        const shift = await this.prisma.cashShift.findFirst({
+            where: { cashierId, status: CashShiftStatus.OPEN },
+            include: SHIFT_INCLUDE,
+        })
+        return shift ? this.withSummary(shift) : null
+    }
+
+    async findAll(query: ShiftQueryDto) {
+        const shifts = await this.prisma.cashShift.findMany({
+            where: {
+                restaurantId: query.restaurantId,
+                status: query.status,
+                openedAt: query.from
+                    ? { gte: new Date(query.from) }
+                    : undefined,
+            },
+            include: SHIFT_INCLUDE,
+            orderBy: { openedAt: 'desc' },
+        })
+        return Promise.all(shifts.map((shift) => this.withSummary(shift)))
+    }
+
+    async findOne(id: number) {
+        const shift = await this.prisma.cashShift.findUnique({
+            where: { id },
+            include: SHIFT_INCLUDE,
+        })
+        if (!shift) {
+            throw new NotFoundException(`Shift with ID ${id} not found`)
+        }
+        return this.withSummary(shift)
+    }
+
+    /**
+     * Close a shift with the counted cash; cashiers close their own,
+     * admins any
+     */
+    async close(id: number, dto: CloseShiftDto, user: ShiftUser) {
+        const shift = await this.findOne(id)
+        if (shift.cashierId !== user.id && user.role !== UserRole.ADMIN) {
+            throw new ForbiddenException('You can only close your own shift')
+        }
+        if (shift.status !== CashShiftStatus.OPEN) {
+            throw new BadRequestException(`Shift ${id} is already closed`)
+        }
+
+        const expectedCash = new Prisma.Decimal(shift.summary.expectedCash)
+        const overShort = new Prisma.Decimal(dto.countedCash).minus(
+            expectedCash
+        )
+
+        // Only while still open, so two closes cannot both record a count
+        const { count } = await this.prisma.cashShift.updateMany({
+            where: { id, status: CashShiftStatus.OPEN },
+            data: {
+                status: CashShiftStatus.CLOSED,
+                expectedCash,
+                countedCash: dto.countedCash,
+                overShort,
+                note: dto.note?.trim() || null,
+                closedAt: new Date(),
+            },
+        })
+        if (count === 0) {
+            throw new BadRequestException(`Shift ${id} is already closed`)
+        }
+
+        this.logger.log(
+            `Shift ${id} closed: expected ${expectedCash.toString()}, counted ${dto.countedCash} (${overShort.toString()})`
+        )
+        return this.findOne(id)
+    }
+
+    /**
+     * Cash taken and refunded through the shift's drawer
+     */
+    async summarize(shift: CashShift): Promise<CashShiftSummary> {
+        const [payments, refunds] = await Promise.all([
+            this.prisma.payment.aggregate({
+                where: {
+                    shiftId: shift.id,
+                    method: PaymentMethod.CASH,
+                    status: { in: CAPTURED_PAYMENT_STATUSES },
+                },
+                _sum: { amount: true },
+                _count: true,
+            }),
+            this.prisma.refund.aggregate({
+                where: { shiftId: shift.id, status: RefundStatus.COMPLETED },
+                _sum: { amount: true },
+            }),
+        ])
+
+        const cashSales = Number(payments._sum.amount ?? 0)
+        const cashRefunds = Number(refunds._sum.amount ?? 0)
+        return {
+            cashPayments: payments._count,
+            cashSales,
+            cashRefunds,
+            // A closed shift keeps the total it was counted against
+            expectedCash:
+                shift.expectedCash !== null
+                    ? Number(shift.expectedCash)
+                    : Number(shift.openingFloat) + cashSales - cashRefunds,
+        }
+    }
+
+    private async withSummary<T extends CashShift>(shift: T) {
+        return { ...shift, summary: await this.summarize(shift) }
+    }
+}
@@ -7,25 +7,53 @@ import {
     OnGatewayDisconnect,
     ConnectedSocket,
     MessageBody,
+    WsException,
 } from '@nestjs/websockets'
 import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { JwtService } from '@nestjs/jwt'
 import { Server, Socket } from 'socket.io'
+import { OrderStatus } from '@prisma/client'
 import { SocketService } from './socket.service'
-import { SocketEvents } from '@aerodine/shared-types'
+import { PrismaService } from '../database/prisma.service'
+import { TablesService } from '../tables/tables.service'
+import { SessionsService } from '../auth/sessions.service'
+import type { JwtPayload } from '../auth/strategies/jwt.strategy'
+import { SocketEvents, UserRole } from '@aerodine/shared-types'
 import type {
+    SocketHandshakeAuth,
     JoinRestaurantPayload,
     JoinTablePayload,
     JoinKitchenPayload,
+    JoinStationPayload,
     JoinWaiterPayload,
+    ReplayEventsPayload,
+    ReplayEventsAck,
     NewOrderPayload,
     AddItemsToOrderPayload,
     RequestBillPayload,
 } from '@aerodine/shared-types'
 
+/**
+ * Identity established during the handshake and kept on socket.data
+ */
+interface SocketIdentity {
+    userId: number | null
+    role: UserRole | null
+    restaurantId: number | null
+    guestSessionId: string | null
+}
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.WAITER, UserRole.KITCHEN]
+
 /**
  * Socket Gateway - WebSocket entry point
  * Handles client connections and room management
  *
+ * Staff authenticate with their access token; customers connect with a
+ * guest session (or customer JWT) and prove table access with the QR
+ * table token. Every join is checked against that identity.
+ *
  * @author Dev 2 - Operations Team
  */
 @WebSocketGateway({
@@ -43,7 +71,14 @@ export class SocketGateway
 
     private readonly logger = new Logger(SocketGateway.name)
 
-    constructor(private readonly socketService: SocketService) {}
+    constructor(
+        private readonly socketService: SocketService,
+        private readonly jwtService: JwtService,
+        private readonly configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly tablesService: TablesService,
+        private readonly sessionsService: SessionsService
+    ) {}
 
     // ========================================================================
     // LIFECYCLE HOOKS
@@ -51,11 +86,32 @@ export class SocketGateway
 
     afterInit(server: Server) {
         this.socketService.setServer(server)
+
+        // Handshake authentication - runs before the connection is accepted
+        server.use((client, next) => {
+            this.authenticateHandshake(client)
+                .then((identity) => {
+                    const data = client.data as { identity?: SocketIdentity }
+                    data.identity = identity
+                    next()
+                })
+                .catch((error) => {
+                    next(
+                        error instanceof Error
+                            ? error
+                            : new Error('Authentication failed')
+                    )
+                })
+        })
+
         this.logger.log('WebSocket Gateway initialized')
     }
 
     handleConnection(client: Socket) {
-        this.logger.log(`Client connected: ${client.id}`)
+        const identity = this.getIdentity(client)
+        this.logger.log(
+            `Client connected: ${client.id} (${identity.role ?? 'guest'})`
+        )
     }
 
     handleDisconnect(client: Socket) {
@@ -69,37 +125,53 @@ export class SocketGateway
     @SubscribeMessage(SocketEvents.JOIN_RESTAURANT)
     handleJoinRestaurant(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: JoinRestaurantPayload,
+        @MessageBody() payload: JoinRestaurantPayload
     ) {
-        const room = `restaurant:${payload.restaurantId}`
-        client.join(room)
-        this.logger.log(
-            `Client ${client.id} joined restaurant ${payload.restaurantId}`,
-        )
+        // Order and table traffic is staff-only; everyone else gets menu updates
+        const identity = this.getIdentity(client)
+        const isStaff = this.isStaffOf(identity, payload.restaurantId)
+        const room = isStaff
+            ? `restaurant:${payload.restaurantId}`
+            : `menu:${payload.restaurantId}`
+        void client.join(room)
+        // Admins also get back-office alerts such as low stock
+        if (isStaff && identity.role === UserRole.ADMIN) {
+            void client.join(`admin:${payload.restaurantId}`)
+        }
+        this.logger.log(`Client ${client.id} joined ${room}`)
         return { success: true, room }
     }
 
     @SubscribeMessage(SocketEvents.LEAVE_RESTAURANT)
     handleLeaveRestaurant(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: { restaurantId: number },
+        @MessageBody() payload: { restaurantId: number }
     ) {
-        const room = `restaurant:${payload.restaurantId}`
-        client.leave(room)
+        void client.leave(`restaurant:${payload.restaurantId}`)
+        void client.leave(`menu:${payload.restaurantId}`)
+        void client.leave(`admin:${payload.restaurantId}`)
         this.logger.log(
-            `Client ${client.id} left restaurant ${payload.restaurantId}`,
+            `Client ${client.id} left restaurant ${payload.restaurantId}`
         )
         return { success: true }
     }
 
     @SubscribeMessage(SocketEvents.JOIN_TABLE)
-    handleJoinTable(
+    async handleJoinTable(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: JoinTablePayload,
+        @MessageBody() payload: JoinTablePayload
     ) {
-        // TODO: Verify table token before joining
+        const allowed = await this.canJoinTable(
+            this.getIdentity(client),
+            Number(payload.tableId),
+            payload.tableToken
+        )
+        if (!allowed) {
+            throw new WsException('Not allowed to join this table')
+        }
+
         const room = `table:${payload.tableId}`
-        client.join(room)
+        void client.join(room)
         this.logger.log(`Client ${client.id} joined table ${payload.tableId}`)
         return { success: true, room }
     }
@@ -107,10 +179,10 @@ export class SocketGateway
     @SubscribeMessage(SocketEvents.LEAVE_TABLE)
     handleLeaveTable(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: { tableId: number },
+        @MessageBody() payload: { tableId: number }
     ) {
         const room = `table:${payload.tableId}`
-        client.leave(room)
+        void client.leave(room)
         this.logger.log(`Client ${client.id} left table ${payload.tableId}`)
         return { success: true }
     }
@@ -118,31 +190,116 @@ export class SocketGateway
     @SubscribeMessage(SocketEvents.JOIN_KITCHEN)
     handleJoinKitchen(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: JoinKitchenPayload,
+        @MessageBody() payload: JoinKitchenPayload
     ) {
-        // TODO: Verify user is kitchen staff
+        this.assertStaffAccess(client, payload.restaurantId, [
+            UserRole.KITCHEN,
+            UserRole.ADMIN,
+        ])
         const room = `kitchen:${payload.restaurantId}`
-        client.join(room)
+        void client.join(room)
+        this.logger.log(
+            `Kitchen staff ${payload.userId} joined kitchen room for restaurant ${payload.restaurantId}`
+        )
+        return { success: true, room }
+    }
+
+    @SubscribeMessage(SocketEvents.JOIN_STATION)
+    async handleJoinStation(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() payload: JoinStationPayload
+    ) {
+        this.assertStaffAccess(client, payload.restaurantId, [
+            UserRole.KITCHEN,
+            UserRole.ADMIN,
+        ])
+        // The station must belong to the restaurant the staff member may see
+        const station = await this.prisma.kitchenStation.findFirst({
+            where: {
+                id: Number(payload.stationId),
+                restaurantId: Number(payload.restaurantId),
+            },
+            select: { id: true },
+        })
+        if (!station) {
+            throw new WsException('Station not found in this restaurant')
+        }
+
+        const room = `station:${payload.stationId}`
+        void client.join(room)
         this.logger.log(
-            `Kitchen staff ${payload.userId} joined kitchen room for restaurant ${payload.restaurantId}`,
+            `Kitchen staff ${payload.userId} joined station ${payload.stationId} for restaurant ${payload.restaurantId}`
         )
         return { success: true, room }
     }
 
+    @SubscribeMessage(SocketEvents.LEAVE_STATION)
+    handleLeaveStation(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() payload: { stationId: number }
+    ) {
+        const room = `station:${payload.stationId}`
+        void client.leave(room)
+        this.logger.log(`Client ${client.id} left station ${payload.stationId}`)
+        return { success: true }
+    }
+
     @SubscribeMessage(SocketEvents.JOIN_WAITER)
     handleJoinWaiter(
         @ConnectedSocket() client: Socket,
-        @MessageBody() payload: JoinWaiterPayload,
+        @MessageBody() payload: JoinWaiterPayload
     ) {
-        // TODO: Verify user is waiter
+        this.assertStaffAccess(client, payload.restaurantId, [
+            UserRole.WAITER,
+            UserRole.ADMIN,
+        ])
         const room = `waiter:${payload.restaurantId}`
-        client.join(room)
+        void client.join(room)
         this.logger.log(
-            `Waiter ${payload.userId} joined waiter room for restaurant ${payload.restaurantId}`,
+            `Waiter ${payload.userId} joined waiter room for restaurant ${payload.restaurantId}`
         )
         return { success: true, room }
     }
 
+    // ========================================================================
+    // EVENT REPLAY
+    // ========================================================================
+
+    /**
+     * Re-send order/table events a client missed while disconnected.
+     * Clients send this after re-joining their rooms; only events addressed to
+     * rooms this socket is currently in are replayed.
+     */
+    @SubscribeMessage(SocketEvents.REPLAY_EVENTS)
+    async handleReplayEvents(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() payload: ReplayEventsPayload
+    ): Promise<ReplayEventsAck> {
+        const lastSeq =
+            payload.lastSeq === undefined || payload.lastSeq === null
+                ? null
+                : Number(payload.lastSeq)
+        const { events, latestSeq, complete } =
+            await this.socketService.getEventsSince(
+                Number(payload.restaurantId),
+                lastSeq
+            )
+
+        let replayed = 0
+        for (const entry of events) {
+            if (!entry.rooms.some((room) => client.rooms.has(room))) continue
+            client.emit(entry.event, entry.payload)
+            replayed++
+        }
+
+        if (replayed > 0) {
+            this.logger.log(
+                `Replayed ${replayed} events to ${client.id} for restaurant ${payload.restaurantId}`
+            )
+        }
+        return { success: true, replayed, latestSeq, complete }
+    }
+
     // ========================================================================
     // ORDER EVENTS (These will be handled by OrdersService and emit via SocketService)
     // These handlers are placeholders - actual logic is in OrdersService
@@ -187,6 +344,172 @@ export class SocketGateway
         return { success: true, message: 'Bill request received' }
     }
 
+    // ========================================================================
+    // AUTHORIZATION
+    // ========================================================================
+
+    /**
+     * Resolve the handshake credentials into a socket identity.
+     * A present but invalid JWT rejects the connection so the client
+     * refreshes its token instead of silently running as a guest.
+     * The token is held to the same checks as on REST requests.
+     */
+    private async authenticateHandshake(
+        client: Socket
+    ): Promise<SocketIdentity> {
+        const auth = (client.handshake.auth ?? {}) as SocketHandshakeAuth
+        const identity: SocketIdentity = {
+            userId: null,
+            role: null,
+            restaurantId: null,
+            guestSessionId: auth.guestSessionId || null,
+        }
+
+        if (auth.token) {
+            let decoded: JwtPayload
+            try {
+                decoded = this.jwtService.verify<JwtPayload>(auth.token, {
+                    secret: this.configService.get<string>('jwt.secret'),
+                })
+            } catch {
+                throw new Error('Invalid or expired token')
+            }
+            if (decoded.type !== 'access') {
+                throw new Error('Invalid token type')
+            }
+
+            const user = await this.prisma.user.findUnique({
+                where: { id: decoded.sub },
+                select: { restaurantId: true, isActive: true },
+            })
+            if (!user) {
+                throw new Error('User not found or account is invalid')
+            }
+            if (
+                decoded.sid &&
+                !(await this.sessionsService.isActive(decoded.sid))
+            ) {
+                throw new Error('Session has been signed out')
+            }
+            if ((decoded.restaurantId ?? null) !== user.restaurantId) {
+                throw new Error('Restaurant assignment has changed')
+            }
+
+            identity.userId = decoded.sub
+            // Inactive accounts keep customer access only
+            identity.role = user.isActive
+                ? (decoded.role as UserRole)
+                : UserRole.CUSTOMER
+            identity.restaurantId = user.restaurantId
+        }
+
+        return identity
+    }
+
+    private getIdentity(client: Socket): SocketIdentity {
+        const data = client.data as { identity?: SocketIdentity }
+        return (
+            data.identity ?? {
+                userId: null,
+                role: null,
+                restaurantId: null,
+                guestSessionId: null,
+            }
+        )
+    }
+
+    /**
+     * Staff of the restaurant, or an admin without an assignment
+     */
+    private isStaffOf(identity: SocketIdentity, restaurantId: number): boolean {
+        if (!identity.role || !STAFF_ROLES.includes(identity.role)) {
+            return false
+        }
+        if (
+            identity.role === UserRole.ADMIN &&
+            identity.restaurantId === null
+        ) {
+            return true
+        }
+        return identity.restaurantId === Number(restaurantId)
+    }
+
+    /**
+     * Check the handshake identity against a staff room of a restaurant
+     */
+    private assertStaffAccess(
+        client: Socket,
+        restaurantId: number,
+        roles: UserRole[]
+    ) {
+        const identity = this.getIdentity(client)
+        if (!identity.userId || !identity.role) {
+            throw new WsException('Authentication required')
+        }
+        if (!roles.includes(identity.role)) {
+            throw new WsException('Insufficient role')
+        }
+        if (!this.isStaffOf(identity, restaurantId)) {
+            throw new WsException('You can only join your own restaurant')
+        }
+    }
+
+    /**
+     * Table rooms are open to the restaurant's staff, to holders of the
+     * table's QR token, and to customers with an open order at the table.
+     */
+    private async canJoinTable(
+        identity: SocketIdentity,
+        tableId: number,
+        tableToken?: string
+    ): Promise<boolean> {
+        const table = await this.prisma.table.findUnique({
+            where: { id: tableId },
+            select: { restaurantId: true },
+        })
+        if (!table) {
+            return false
+        }
+
+        if (this.isStaffOf(identity, table.restaurantId)) {
+            return true
+        }
+
+        if (tableToken) {
+            try {
+                const verified =
+                    await this.tablesService.verifyTableToken(tableToken)
+                if (verified.tableId === tableId) {
+                    return true
+                }
+            } catch {
+                // Fall through to the order ownership check
+            }
+        }
+
+        const owners = [
+            ...(identity.userId ? [{ userId: identity.userId }] : []),
+            ...(identity.guestSessionId
+                ? [{ guestSessionId: identity.guestSessionId }]
+                : []),
+        ]
+        if (owners.length === 0) {
+            return false
+        }
+
+        const openOrder = await this.prisma.order.findFirst({
+            where: {
+                tableId,
+                OR: owners,
+                status: {
+                    notIn: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+                },
+            },
+            select: { id: true },
+        })
+        return !!openOrder
+    }
+
     // ========================================================================
     // UTILITY
     // ========================================================================
@@ -196,4 +519,3 @@ export class SocketGateway
         return { event: 'pong', timestamp: new Date().toISOString() }
     }
 }
-
@@ -1,8 +1,16 @@
-import { Module } from '@nestjs/common'
+import { Module, forwardRef } from '@nestjs/common'
+import { JwtModule } from '@nestjs/jwt'
 import { SocketGateway } from './socket.gateway'
 import { SocketService } from './socket.service'
+import { TablesModule } from '../tables/tables.module'
+import { AuthModule } from '../auth/auth.module'
 
 @Module({
+    imports: [
+        JwtModule.register({}),
+        AuthModule,
+        forwardRef(() => TablesModule),
+    ],
     providers: [SocketGateway, SocketService],
     exports: [SocketGateway, SocketService],
 })
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common'
+import { Prisma } from '@prisma/client'
 import { Server, Socket } from 'socket.io'
 import {
     SocketEvents,
@@ -11,6 +12,7 @@ import {
     TableStatusEvent,
     MenuItemStatusChangedEvent,
 } from '@aerodine/shared-types'
+import { PrismaService } from '../database/prisma.service'
 
 /**
  * Socket Service - Handles all real-time broadcasting
@@ -24,6 +26,12 @@ export class SocketService {
     private server: Server | null = null
     private readonly MAX_RETRIES = 3
     private readonly RETRY_DELAY_MS = 1000 // 1 second
+    private readonly EVENT_RETENTION_MS = 15 * 60 * 1000 // 15 minutes
+    private readonly PRUNE_EVERY = 100 // events between log cleanups
+    private readonly MAX_REPLAY = 500
+    private readonly publishQueues = new Map<number, Promise<void>>()
+
+    constructor(private readonly prisma: PrismaService) {}
 
     setServer(server: Server) {
         this.server = server
@@ -34,7 +42,7 @@ export class SocketService {
      * Retries up to MAX_RETRIES times with exponential backoff
      */
     private async emitWithRetry(
-        room: string,
+        room: string | string[],
         event: string,
         data: any,
         retries = this.MAX_RETRIES
@@ -44,27 +52,164 @@ export class SocketService {
             return
         }
 
+        const target = Array.isArray(room) ? room.join(', ') : room
         try {
             this.server.to(room).emit(event, data)
-            this.logger.debug(`Emitted ${event} to ${room}`)
+            this.logger.debug(`Emitted ${event} to ${target}`)
         } catch (error) {
             if (retries > 0) {
                 const delay = this.RETRY_DELAY_MS * (this.MAX_RETRIES - retries + 1)
                 this.logger.warn(
-                    `Failed to emit ${event} to ${room}, retrying in ${delay}ms (${retries} retries left)`,
+                    `Failed to emit ${event} to ${target}, retrying in ${delay}ms (${retries} retries left)`,
                     error
                 )
                 await new Promise((resolve) => setTimeout(resolve, delay))
                 return this.emitWithRetry(room, event, data, retries - 1)
             } else {
                 this.logger.error(
-                    `Failed to emit ${event} to ${room} after ${this.MAX_RETRIES} retries`,
+                    `Failed to emit ${event} to ${target} after ${this.MAX_RETRIES} retries`,
                     error
                 )
             }
         }
     }
 
+    // ========================================================================
+    // EVENT LOG (REPLAY)
+    // ========================================================================
+
+    /**
+     * Stamp an event with the next restaurant sequence, log it for replay and emit it.
+     * Publishes are chained per restaurant so clients see sequences in order.
+     */
+    private publish(
+        restaurantId: number,
+        rooms: string[],
+        event: string,
+        data: object,
+        critical = false
+    ): Promise<void> {
+        const previous =
+            this.publishQueues.get(restaurantId) ?? Promise.resolve()
+        const next = previous.then(() =>
+            this.logAndEmit(restaurantId, rooms, event, data, critical)
+        )
+        this.publishQueues.set(restaurantId, next)
+        return next
+    }
+
+    private async logAndEmit(
+        restaurantId: number,
+        rooms: string[],
+        event: string,
+        data: object,
+        critical: boolean
+    ): Promise<void> {
+        if (!this.server) return
+
+        let payload: object = data
+        try {
+            const seq = await this.prisma.$transaction(async (tx) => {
+                const restaurant = await tx.restaurant.update({
+                    where: { id: restaurantId },
+                    data: { eventSequence: { increment: 1 } },
+                    select: { eventSequence: true },
+                })
+                payload = {
+                    ...data,
+                    restaurantId,
+                    seq: restaurant.eventSequence,
+                }
+                await tx.realtimeEvent.create({
+                    data: {
+                        restaurantId,
+                        sequence: restaurant.eventSequence,
+                        event,
+                        rooms,
+                        // Round-trip through JSON so dates match what the socket sends
+                        payload: JSON.parse(
+                            JSON.stringify(payload)
+                        ) as Prisma.InputJsonValue,
+                    },
+                })
+                return restaurant.eventSequence
+            })
+
+            if (seq % this.PRUNE_EVERY === 0) {
+                void this.pruneEventLog()
+            }
+        } catch (error) {
+            // Live delivery still matters more than the replay log
+            payload = data
+            this.logger.error(
+                `Failed to log ${event} for restaurant ${restaurantId}`,
+                error
+            )
+        }
+
+        if (critical) {
+            await this.emitWithRetry(rooms, event, payload)
+        } else {
+            this.server.to(rooms).emit(event, payload)
+        }
+    }
+
+    private async pruneEventLog(): Promise<void> {
+        try {
+            const { count } = await this.prisma.realtimeEvent.deleteMany({
+                where: {
+                    createdAt: {
+                        lt: new Date(Date.now() - this.EVENT_RETENTION_MS),
+                    },
+                },
+            })
+            if (count > 0) {
+                this.logger.debug(`Pruned ${count} expired realtime events`)
+            }
+        } catch (error) {
+            this.logger.warn('Failed to prune realtime event log', error)
+        }
+    }
+
+    /**
+     * Events a reconnecting client missed since lastSeq, oldest first.
+     * `complete` is false when part of the gap already fell out of the retention
+     * window (or the sequence was reset), so the client must refetch instead.
+     */
+    async getEventsSince(restaurantId: number, lastSeq: number | null) {
+        const restaurant = await this.prisma.restaurant.findUnique({
+            where: { id: restaurantId },
+            select: { eventSequence: true },
+        })
+        const latestSeq = restaurant?.eventSequence ?? 0
+
+        if (lastSeq === null || lastSeq >= latestSeq) {
+            return {
+                events: [],
+                latestSeq,
+                complete: lastSeq === null || lastSeq === latestSeq,
+            }
+        }
+
+        const events = await this.prisma.realtimeEvent.findMany({
+            where: {
+                restaurantId,
+                sequence: { gt: lastSeq },
+                createdAt: {
+                    gte: new Date(Date.now() - this.EVENT_RETENTION_MS),
+                },
+            },
+            orderBy: { sequence: 'asc' },
+            take: this.MAX_REPLAY,
+        })
+
+        return {
+            events,
+            latestSeq,
+            complete: events.length === latestSeq - lastSeq,
+        }
+    }
+
     // ========================================================================
     // ROOM HELPERS
     // ========================================================================
@@ -73,6 +218,11 @@ export class SocketService {
         return `restaurant:${restaurantId}`
     }
 
+    // Public room for guests browsing the menu (no order traffic)
+    private getMenuRoom(restaurantId: number): string {
+        return `menu:${restaurantId}`
+    }
+
     private getTableRoom(tableId: number): string {
         return `table:${tableId}`
     }
@@ -85,6 +235,14 @@ export class SocketService {
         return `waiter:${restaurantId}`
     }
 
+    private getAdminRoom(restaurantId: number): string {
+        return `admin:${restaurantId}`
+    }
+
+    private getStationRoom(stationId: number): string {
+        return `station:${stationId}`
+    }
+
     // ========================================================================
     // ORDER EVENTS
     // ========================================================================
@@ -97,20 +255,17 @@ export class SocketService {
 
         this.logger.log(`New order created: ${event.order.id} for table ${event.tableId}`)
 
-        // Notify kitchen
-        this.server
-            .to(this.getKitchenRoom(restaurantId))
-            .emit(SocketEvents.ORDER_CREATED, event)
-
-        // Notify waiters
-        this.server
-            .to(this.getWaiterRoom(restaurantId))
-            .emit(SocketEvents.ORDER_CREATED, event)
-
-        // Notify customer at table
-        this.server
-            .to(this.getTableRoom(event.tableId))
-            .emit(SocketEvents.ORDER_CREATED, event)
+        // Notify kitchen, waiters and the customer at the table
+        void this.publish(
+            restaurantId,
+            [
+                this.getKitchenRoom(restaurantId),
+                this.getWaiterRoom(restaurantId),
+                this.getTableRoom(event.tableId),
+            ],
+            SocketEvents.ORDER_CREATED,
+            event
+        )
     }
 
     /**
@@ -121,15 +276,13 @@ export class SocketService {
 
         this.logger.log(`Order updated: ${event.order.id}`)
 
-        // Notify all in restaurant
-        this.server
-            .to(this.getRestaurantRoom(restaurantId))
-            .emit(SocketEvents.ORDER_UPDATED, event)
-
-        // Notify customer at table
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_UPDATED, event)
+        // Notify all in restaurant and the customer at the table
+        void this.publish(
+            restaurantId,
+            [this.getRestaurantRoom(restaurantId), this.getTableRoom(tableId)],
+            SocketEvents.ORDER_UPDATED,
+            event
+        )
     }
 
     /**
@@ -149,40 +302,18 @@ export class SocketService {
 
         // Use retry for critical status changes (especially COMPLETED)
         const isCritical = event.newStatus === 'COMPLETED' || event.newStatus === 'CANCELLED'
-        
-        if (isCritical) {
-            // Critical events use retry logic
-            await Promise.all([
-                this.emitWithRetry(
-                    this.getKitchenRoom(restaurantId),
-                    SocketEvents.ORDER_STATUS_CHANGED,
-                    event
-                ),
-                this.emitWithRetry(
-                    this.getWaiterRoom(restaurantId),
-                    SocketEvents.ORDER_STATUS_CHANGED,
-                    event
-                ),
-                this.emitWithRetry(
-                    this.getTableRoom(tableId),
-                    SocketEvents.ORDER_STATUS_CHANGED,
-                    event
-                ),
-            ])
-        } else {
-            // Non-critical events emit normally
-            this.server
-                .to(this.getKitchenRoom(restaurantId))
-                .emit(SocketEvents.ORDER_STATUS_CHANGED, event)
-
-            this.server
-                .to(this.getWaiterRoom(restaurantId))
-                .emit(SocketEvents.ORDER_STATUS_CHANGED, event)
 
-            this.server
-                .to(this.getTableRoom(tableId))
-                .emit(SocketEvents.ORDER_STATUS_CHANGED, event)
-        }
+        await this.publish(
+            restaurantId,
+            [
+                this.getKitchenRoom(restaurantId),
+                this.getWaiterRoom(restaurantId),
+                this.getTableRoom(tableId),
+            ],
+            SocketEvents.ORDER_STATUS_CHANGED,
+            event,
+            isCritical
+        )
     }
 
     /**
@@ -193,20 +324,17 @@ export class SocketService {
 
         this.logger.log(`Items added to order: ${event.order.id}`)
 
-        // Notify kitchen
-        this.server
-            .to(this.getKitchenRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ITEMS_ADDED, event)
-
-        // Notify waiters
-        this.server
-            .to(this.getWaiterRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ITEMS_ADDED, event)
-
-        // Notify customer at table
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_ITEMS_ADDED, event)
+        // Notify kitchen, waiters and the customer at the table
+        void this.publish(
+            restaurantId,
+            [
+                this.getKitchenRoom(restaurantId),
+                this.getWaiterRoom(restaurantId),
+                this.getTableRoom(tableId),
+            ],
+            SocketEvents.ORDER_ITEMS_ADDED,
+            event
+        )
     }
 
     // ========================================================================
@@ -227,20 +355,24 @@ export class SocketService {
             `Order item ${event.orderItemId} status: ${event.previousStatus} -> ${event.newStatus}`,
         )
 
-        // Notify kitchen
-        this.server
-            .to(this.getKitchenRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ITEM_STATUS_CHANGED, event)
+        // Notify kitchen, waiters and the customer at the table
+        const rooms = [
+            this.getKitchenRoom(restaurantId),
+            this.getWaiterRoom(restaurantId),
+            this.getTableRoom(tableId),
+        ]
 
-        // Notify waiters
-        this.server
-            .to(this.getWaiterRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ITEM_STATUS_CHANGED, event)
+        // Notify the station the item is routed to
+        if (event.stationId) {
+            rooms.push(this.getStationRoom(event.stationId))
+        }
 
-        // Notify customer at table
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_ITEM_STATUS_CHANGED, event)
+        void this.publish(
+            restaurantId,
+            rooms,
+            SocketEvents.ORDER_ITEM_STATUS_CHANGED,
+            event
+        )
     }
 
     /**
@@ -255,15 +387,13 @@ export class SocketService {
 
         this.logger.log(`Item ready: ${event.itemName} for order ${event.orderId}`)
 
-        // Notify waiters (they need to serve)
-        this.server
-            .to(this.getWaiterRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ITEM_READY, event)
-
-        // Notify customer at table
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_ITEM_READY, event)
+        // Notify waiters (they need to serve) and the customer at the table
+        void this.publish(
+            restaurantId,
+            [this.getWaiterRoom(restaurantId), this.getTableRoom(tableId)],
+            SocketEvents.ORDER_ITEM_READY,
+            event
+        )
     }
 
     // ========================================================================
@@ -281,6 +411,26 @@ export class SocketService {
         this.server
             .to(this.getKitchenRoom(restaurantId))
             .emit(SocketEvents.KITCHEN_ORDER_RECEIVED, event)
+
+        // Each station only gets the part of the ticket routed to it
+        const stationIds = new Set<number>()
+        for (const item of event.order.items) {
+            if (item.stationId) stationIds.add(item.stationId)
+        }
+        for (const stationId of stationIds) {
+            const stationEvent: KitchenOrderEvent = {
+                ...event,
+                order: {
+                    ...event.order,
+                    items: event.order.items.filter(
+                        (item) => item.stationId === stationId
+                    ),
+                },
+            }
+            this.server
+                .to(this.getStationRoom(stationId))
+                .emit(SocketEvents.KITCHEN_ORDER_RECEIVED, stationEvent)
+        }
     }
 
     /**
@@ -341,15 +491,13 @@ export class SocketService {
 
         this.logger.log(`Order ${orderId} accepted by waiter ${waiterId}`)
 
-        // Notify kitchen to start
-        this.server
-            .to(this.getKitchenRoom(restaurantId))
-            .emit(SocketEvents.ORDER_ACCEPTED, { orderId, waiterId })
-
-        // Notify customer
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_ACCEPTED, { orderId, waiterId })
+        // Notify kitchen to start, and the customer
+        void this.publish(
+            restaurantId,
+            [this.getKitchenRoom(restaurantId), this.getTableRoom(tableId)],
+            SocketEvents.ORDER_ACCEPTED,
+            { orderId, waiterId }
+        )
     }
 
     /**
@@ -366,9 +514,12 @@ export class SocketService {
         this.logger.log(`Order ${orderId} rejected: ${reason || 'No reason'}`)
 
         // Notify customer
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_REJECTED, { orderId, reason })
+        void this.publish(
+            restaurantId,
+            [this.getTableRoom(tableId)],
+            SocketEvents.ORDER_REJECTED,
+            { orderId, reason }
+        )
     }
 
     /**
@@ -379,20 +530,17 @@ export class SocketService {
 
         this.logger.log(`Order ${orderId} served`)
 
-        // Notify kitchen (so they can update KDS)
-        this.server
-            .to(this.getKitchenRoom(restaurantId))
-            .emit(SocketEvents.ORDER_SERVED, { orderId })
-
-        // Notify waiters
-        this.server
-            .to(this.getWaiterRoom(restaurantId))
-            .emit(SocketEvents.ORDER_SERVED, { orderId })
-
-        // Notify customer
-        this.server
-            .to(this.getTableRoom(tableId))
-            .emit(SocketEvents.ORDER_SERVED, { orderId })
+        // Notify kitchen (so they can update KDS), waiters and the customer
+        void this.publish(
+            restaurantId,
+            [
+                this.getKitchenRoom(restaurantId),
+                this.getWaiterRoom(restaurantId),
+                this.getTableRoom(tableId),
+            ],
+            SocketEvents.ORDER_SERVED,
+            { orderId }
+        )
     }
 
     // ========================================================================
@@ -410,9 +558,12 @@ export class SocketService {
         )
 
         // Notify all staff in restaurant
-        this.server
-            .to(this.getRestaurantRoom(restaurantId))
-            .emit(SocketEvents.TABLE_STATUS_CHANGED, event)
+        void this.publish(
+            restaurantId,
+            [this.getRestaurantRoom(restaurantId)],
+            SocketEvents.TABLE_STATUS_CHANGED,
+            event
+        )
     }
 
     /**
@@ -425,15 +576,15 @@ export class SocketService {
             `Menu item ${event.menuItemId} status: ${event.previousStatus} -> ${event.newStatus}`,
         )
 
-        // Notify all customers in restaurant (so they see updated menu)
-        this.server
-            .to(this.getRestaurantRoom(restaurantId))
-            .emit(SocketEvents.MENU_ITEM_STATUS_CHANGED, event)
+        // Notify staff and customers browsing the menu
+        const rooms = [
+            this.getRestaurantRoom(restaurantId),
+            this.getMenuRoom(restaurantId),
+        ]
+        this.server.to(rooms).emit(SocketEvents.MENU_ITEM_STATUS_CHANGED, event)
 
         // Also emit stock update event
-        this.server
-            .to(this.getRestaurantRoom(restaurantId))
-            .emit(SocketEvents.MENU_ITEM_STOCK_UPDATED, event)
+        this.server.to(rooms).emit(SocketEvents.MENU_ITEM_STOCK_UPDATED, event)
     }
 
     /**
@@ -509,6 +660,13 @@ export class SocketService {
         }
     }
 
+    /**
+     * Send notification to admins of a restaurant (back-office alerts)
+     */
+    emitAdminNotification(restaurantId: number, notification: NotificationEvent) {
+        this.emitNotification(this.getAdminRoom(restaurantId), notification)
+    }
+
     // ========================================================================
     // ERROR HANDLING
     // ========================================================================
@@ -0,0 +1,13 @@
+import { IsInt, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class AssignStaffRoleDto {
+    @ApiProperty({
+        example: 2,
+        nullable: true,
+        description: 'Custom role to give; null restores the role defaults',
+    })
+    @IsOptional()
+    @IsInt()
+    staffRoleId: number | null
+}
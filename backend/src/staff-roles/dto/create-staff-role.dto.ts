@@ -0,0 +1,38 @@
+import {
+    IsArray,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { Permission } from '@aerodine/shared-types'
+
+export class CreateStaffRoleDto {
+    @ApiProperty({ example: 'Shift manager' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(50)
+    name: string
+
+    @ApiProperty({
+        enum: Permission,
+        isArray: true,
+        example: [Permission.ORDERS_VOID, Permission.REPORTS_VIEW],
+    })
+    @IsArray()
+    @IsEnum(Permission, { each: true })
+    permissions: Permission[]
+
+    @ApiProperty({
+        example: 1,
+        required: false,
+        description:
+            'Restaurant offering the role; admins assigned to a restaurant always create roles for it. Omit for a role offered everywhere',
+    })
+    @IsOptional()
+    @IsInt()
+    restaurantId?: number
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types'
+import { CreateStaffRoleDto } from './create-staff-role.dto'
+
+export class UpdateStaffRoleDto extends PartialType(
+    OmitType(CreateStaffRoleDto, ['restaurantId'] as const)
+) {}
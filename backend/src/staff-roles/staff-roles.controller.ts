@@ -0,0 +1,104 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Param,
+    Patch,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common'
+import {
+    ApiBearerAuth,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiParam,
+    ApiQuery,
+} from '@nestjs/swagger'
+import { StaffRolesService, RoleAdmin } from './staff-roles.service'
+import { CreateStaffRoleDto } from './dto/create-staff-role.dto'
+import { UpdateStaffRoleDto } from './dto/update-staff-role.dto'
+import { AssignStaffRoleDto } from './dto/assign-staff-role.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { UserRole } from '@aerodine/shared-types'
+
+@ApiTags('staff-roles')
+@Controller('staff-roles')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class StaffRolesController {
+    constructor(private readonly staffRolesService: StaffRolesService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List custom staff roles (ADMIN only)',
+        description:
+            'With restaurantId, the roles offered at that restaurant, including those offered everywhere.',
+    })
+    @ApiQuery({ name: 'restaurantId', required: false, type: Number })
+    findAll(
+        @CurrentUser() admin: RoleAdmin,
+        @Query('restaurantId') restaurantId?: string
+    ) {
+        return this.staffRolesService.findAll(
+            admin.restaurantId ??
+                (restaurantId ? Number(restaurantId) : undefined)
+        )
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Create a custom staff role (ADMIN only)' })
+    @ApiResponse({ status: 201, description: 'Role created' })
+    @ApiResponse({ status: 409, description: 'Role name already taken' })
+    create(@Body() dto: CreateStaffRoleDto, @CurrentUser() admin: RoleAdmin) {
+        return this.staffRolesService.create(dto, admin)
+    }
+
+    @Patch('users/:userId')
+    @ApiOperation({
+        summary: 'Give a waiter or kitchen account a custom role (ADMIN only)',
+        description:
+            'The role permissions replace the defaults of the account role. Send null to restore the defaults.',
+    })
+    @ApiParam({ name: 'userId', type: Number, description: 'User ID' })
+    assign(
+        @Param('userId') userId: string,
+        @Body() dto: AssignStaffRoleDto,
+        @CurrentUser() admin: RoleAdmin
+    ) {
+        return this.staffRolesService.assign(
+            Number(userId),
+            dto.staffRoleId ?? null,
+            admin
+        )
+    }
+
+    @Patch(':id')
+    @ApiOperation({
+        summary: 'Rename a role or change its permissions (ADMIN only)',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Staff role ID' })
+    update(
+        @Param('id') id: string,
+        @Body() dto: UpdateStaffRoleDto,
+        @CurrentUser() admin: RoleAdmin
+    ) {
+        return this.staffRolesService.update(Number(id), dto, admin)
+    }
+
+    @Delete(':id')
+    @ApiOperation({
+        summary: 'Delete a custom staff role (ADMIN only)',
+        description: 'Its staff fall back to the defaults of their role.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Staff role ID' })
+    remove(@Param('id') id: string, @CurrentUser() admin: RoleAdmin) {
+        return this.staffRolesService.remove(Number(id), admin)
+    }
+}
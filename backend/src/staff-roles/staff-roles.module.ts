@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { StaffRolesService } from './staff-roles.service'
+import { StaffRolesController } from './staff-roles.controller'
+
+@Module({
+    controllers: [StaffRolesController],
+    providers: [StaffRolesService],
+    exports: [StaffRolesService],
+})
+export class StaffRolesModule {}
@@ -0,0 +1,190 @@
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common'
+import { Prisma, StaffRole, UserRole } from '@prisma/client'
+import { PrismaService } from '../database/prisma.service'
+import { CreateStaffRoleDto } from './dto/create-staff-role.dto'
+import { UpdateStaffRoleDto } from './dto/update-staff-role.dto'
+
+// Custom roles refine what waiter and kitchen accounts may do
+const CUSTOM_ROLE_BASES: UserRole[] = [UserRole.WAITER, UserRole.KITCHEN]
+
+const STAFF_ROLE_INCLUDE = {
+    _count: { select: { users: true } },
+} satisfies Prisma.StaffRoleInclude
+
+export type RoleAdmin = {
+    id: number
+    restaurantId?: number | null
+}
+
+/**
+ * Staff Roles Service - named permission sets such as shift manager,
+ * cashier or host, offered at one restaurant or at all of them
+ */
+@Injectable()
+export class StaffRolesService {
+    private readonly logger = new Logger(StaffRolesService.name)
+
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Roles offered at a restaurant, including those offered everywhere
+     */
+    async findAll(restaurantId?: number) {
+        return this.prisma.staffRole.findMany({
+            where: restaurantId
+                ? { OR: [{ restaurantId }, { restaurantId: null }] }
+                : undefined,
+            include: STAFF_ROLE_INCLUDE,
+            orderBy: { name: 'asc' },
+        })
+    }
+
+    async create(dto: CreateStaffRoleDto, admin: RoleAdmin) {
+        const restaurantId = admin.restaurantId ?? dto.restaurantId ?? null
+        if (restaurantId !== null) {
+            const restaurant = await this.prisma.restaurant.findUnique({
+                where: { id: restaurantId },
+            })
+            if (!restaurant) {
+                throw new NotFoundException(
+                    `Restaurant with ID ${restaurantId} not found`
+                )
+            }
+        }
+
+        const name = dto.name.trim()
+        await this.assertNameFree(name, restaurantId)
+
+        const role = await this.prisma.staffRole.create({
+            data: {
+                restaurantId,
+                name,
+                permissions: [...new Set(dto.permissions)],
+            },
+            include: STAFF_ROLE_INCLUDE,
+        })
+        this.logger.log(
+            `Staff role ${role.id} "${role.name}" created by user ${admin.id}`
+        )
+        return role
+    }
+
+    async update(id: number, dto: UpdateStaffRoleDto, admin: RoleAdmin) {
+        const role = await this.findManageable(id, admin)
+
+        const name = dto.name?.trim()
+        if (name && name !== role.name) {
+            await this.assertNameFree(name, role.restaurantId)
+        }
+
+        return this.prisma.staffRole.update({
+            where: { id },
+            data: {
+                name,
+                permissions: dto.permissions
+                    ? [...new Set(dto.permissions)]
+                    : undefined,
+            },
+            include: STAFF_ROLE_INCLUDE,
+        })
+    }
+
+    /**
+     * Delete a role; its staff fall back to their role defaults
+     */
+    async remove(id: number, admin: RoleAdmin) {
+        await this.findManageable(id, admin)
+        await this.prisma.staffRole.delete({ where: { id } })
+        return { message: 'Staff role deleted' }
+    }
+
+    /**
+     * Give a staff member a custom role, or take it away with null
+     */
+    async assign(userId: number, staffRoleId: number | null, admin: RoleAdmin) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        })
+        if (!user) {
+            throw new NotFoundException('User not found')
+        }
+        if (
+            admin.restaurantId != null &&
+            user.restaurantId !== admin.restaurantId
+        ) {
+            throw new ForbiddenException(
+                'You can only manage staff of your own restaurant'
+            )
+        }
+
+        if (staffRoleId !== null) {
+            // Roles offered everywhere can be given by any admin
+            const role = await this.findRole(staffRoleId)
+            if (!CUSTOM_ROLE_BASES.includes(user.role)) {
+                throw new BadRequestException(
+                    'Custom roles apply to waiter and kitchen staff only'
+                )
+            }
+            if (
+                role.restaurantId !== null &&
+                role.restaurantId !== user.restaurantId
+            ) {
+                throw new BadRequestException(
+                    'This role is not offered at the restaurant of this staff member'
+                )
+            }
+        }
+
+        return this.prisma.user.update({
+            where: { id: userId },
+            data: { staffRoleId },
+            select: { id: true, staffRoleId: true },
+        })
+    }
+
+    private async findRole(id: number): Promise<StaffRole> {
+        const role = await this.prisma.staffRole.findUnique({ where: { id } })
+        if (!role) {
+            throw new NotFoundException(`Staff role with ID ${id} not found`)
+        }
+        return role
+    }
+
+    /**
+     * Admins assigned to a restaurant only edit that restaurant's roles
+     */
+    private async findManageable(
+        id: number,
+        admin: RoleAdmin
+    ): Promise<StaffRole> {
+        const role = await this.findRole(id)
+        if (
+            admin.restaurantId != null &&
+            role.restaurantId !== admin.restaurantId
+        ) {
+            throw new ForbiddenException(
+                'You can only manage roles of your own restaurant'
+            )
+        }
+        return role
+    }
+
+    private async assertNameFree(name: string, restaurantId: number | null) {
+        const existing = await this.prisma.staffRole.findFirst({
+            where: {
+                name: { equals: name, mode: 'insensitive' },
+                restaurantId,
+            },
+        })
+        if (existing) {
+            throw new ConflictException(`A role named "${name}" already exists`)
+        }
+    }
+}
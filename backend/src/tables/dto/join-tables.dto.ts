@@ -0,0 +1,14 @@
+import { ArrayNotEmpty, IsArray, IsInt } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class JoinTablesDto {
+    @ApiProperty({
+        example: [4],
+        type: [Number],
+        description: 'Tables pushed onto the primary table for a large party',
+    })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsInt({ each: true })
+    tableIds: number[]
+}
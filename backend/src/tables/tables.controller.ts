@@ -14,10 +14,14 @@ import {
 import { TablesService } from './tables.service'
 import { CreateTableDto } from './dto/create-table.dto'
 import { UpdateTableDto } from './dto/update-table.dto'
+import { JoinTablesDto } from './dto/join-tables.dto'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { RolesGuard } from '../auth/guards/roles.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
-import { UserRole } from '@aerodine/shared-types'
+import { Permissions } from '../auth/decorators/permissions.decorator'
+import { CurrentUser } from '../auth/decorators/current-user.decorator'
+import { PermissionUser } from '../common/utils/permissions.util'
+import { Permission, UserRole } from '@aerodine/shared-types'
 import {
     ApiBearerAuth,
     ApiTags,
@@ -177,6 +181,43 @@ export class TablesController {
         return this.tablesService.update(+id, dto)
     }
 
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.TABLES_MANAGE)
+    @Post(':id/join')
+    @ApiOperation({
+        summary: 'Join tables for a large party (tables.manage)',
+        description:
+            'Pushes the given tables onto this primary table. Active orders of the joined tables move to the primary and all tables become OCCUPIED.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Primary table ID' })
+    @ApiResponse({ status: 201, description: 'Tables joined successfully' })
+    @ApiResponse({ status: 400, description: 'Tables cannot be joined' })
+    @ApiResponse({ status: 404, description: 'Table not found' })
+    joinTables(
+        @Param('id') id: string,
+        @Body() dto: JoinTablesDto,
+        @CurrentUser() user: PermissionUser
+    ) {
+        return this.tablesService.joinTables(+id, dto, user)
+    }
+
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Permissions(Permission.TABLES_MANAGE)
+    @Delete(':id/join')
+    @ApiOperation({
+        summary: 'Split joined tables (tables.manage)',
+        description:
+            'Detaches all tables joined to this primary table and marks them AVAILABLE. Orders stay on the primary table.',
+    })
+    @ApiParam({ name: 'id', type: Number, description: 'Primary table ID' })
+    @ApiResponse({ status: 200, description: 'Tables split successfully' })
+    @ApiResponse({ status: 400, description: 'Table has no joined tables' })
+    splitTables(@Param('id') id: string, @CurrentUser() user: PermissionUser) {
+        return this.tablesService.splitTables(+id, user)
+    }
+
     @ApiBearerAuth('JWT-auth')
     @UseGuards(JwtAuthGuard, RolesGuard)
     @Roles(UserRole.ADMIN)
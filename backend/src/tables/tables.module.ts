@@ -1,8 +1,9 @@
-import { Module } from '@nestjs/common'
+import { Module, forwardRef } from '@nestjs/common'
 import { JwtModule, type JwtModuleOptions } from '@nestjs/jwt'
 import { ConfigModule, ConfigService } from '@nestjs/config'
 import { TablesService } from './tables.service'
 import { TablesController } from './tables.controller'
+import { SocketModule } from '../socket/socket.module'
 
 @Module({
     imports: [
@@ -23,6 +24,7 @@ import { TablesController } from './tables.controller'
                 }
             },
         }),
+        forwardRef(() => SocketModule),
     ],
     controllers: [TablesController],
     providers: [TablesService],
@@ -3,20 +3,30 @@ import {
     NotFoundException,
     BadRequestException,
     UnauthorizedException,
+    ForbiddenException,
 } from '@nestjs/common'
+import { OrderStatus, TableStatus } from '@prisma/client'
+import { TableStatusEvent } from '@aerodine/shared-types'
 import { PrismaService } from '../database/prisma.service'
+import { SocketService } from '../socket/socket.service'
 import { JwtService } from '@nestjs/jwt'
 import { ConfigService } from '@nestjs/config'
 import { randomUUID } from 'crypto'
 import { CreateTableDto } from './dto/create-table.dto'
 import { UpdateTableDto } from './dto/update-table.dto'
+import { JoinTablesDto } from './dto/join-tables.dto'
+import {
+    canAccessRestaurant,
+    PermissionUser,
+} from '../common/utils/permissions.util'
 
 @Injectable()
 export class TablesService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly jwtService: JwtService,
-        private readonly configService: ConfigService
+        private readonly configService: ConfigService,
+        private readonly socketService: SocketService
     ) {}
 
     /**
@@ -41,6 +51,13 @@ export class TablesService {
                     name: true,
                 },
             },
+            joinedTables: {
+                select: {
+                    id: true,
+                    name: true,
+                    capacity: true,
+                },
+            },
         }
     }
 
@@ -154,6 +171,144 @@ export class TablesService {
         })
     }
 
+    /**
+     * Join tables for a large party
+     * Active orders of the joined tables move onto the primary table, and all
+     * of them stay OCCUPIED until the primary is released
+     */
+    async joinTables(
+        primaryTableId: number,
+        dto: JoinTablesDto,
+        user: PermissionUser
+    ) {
+        const primary = await this.findOne(primaryTableId)
+        this.assertCanManage(primary.restaurantId, user)
+        if (!primary.isActive) {
+            throw new BadRequestException(`Table ${primary.name} is not active`)
+        }
+        if (primary.joinedToId) {
+            throw new BadRequestException(
+                `Table ${primary.name} is itself joined to another table`
+            )
+        }
+
+        const tableIds = [...new Set(dto.tableIds)].filter(
+            (id) => id !== primaryTableId
+        )
+        if (tableIds.length === 0) {
+            throw new BadRequestException('Select at least one other table')
+        }
+
+        const tables = await this.prisma.table.findMany({
+            where: { id: { in: tableIds } },
+            include: { _count: { select: { joinedTables: true } } },
+        })
+        for (const id of tableIds) {
+            const table = tables.find((t) => t.id === id)
+            if (!table || table.restaurantId !== primary.restaurantId) {
+                throw new NotFoundException(
+                    `Table with ID ${id} not found in this restaurant`
+                )
+            }
+            if (!table.isActive) {
+                throw new BadRequestException(
+                    `Table ${table.name} is not active`
+                )
+            }
+            if (table.joinedToId && table.joinedToId !== primaryTableId) {
+                throw new BadRequestException(
+                    `Table ${table.name} is already joined to another table`
+                )
+            }
+            if (table._count.joinedTables > 0) {
+                throw new BadRequestException(
+                    `Table ${table.name} has tables joined to it; split it first`
+                )
+            }
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.order.updateMany({
+                where: {
+                    tableId: { in: tableIds },
+                    status: {
+                        notIn: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+                    },
+                },
+                data: { tableId: primaryTableId },
+            }),
+            this.prisma.table.updateMany({
+                where: { id: { in: tableIds } },
+                data: {
+                    joinedToId: primaryTableId,
+                    status: TableStatus.OCCUPIED,
+                },
+            }),
+            this.prisma.table.update({
+                where: { id: primaryTableId },
+                data: { status: TableStatus.OCCUPIED },
+            }),
+        ])
+
+        for (const table of [primary, ...tables]) {
+            if (table.status !== TableStatus.OCCUPIED) {
+                this.emitTableStatus(table.restaurantId, {
+                    tableId: table.id,
+                    previousStatus: table.status,
+                    newStatus: TableStatus.OCCUPIED,
+                })
+            }
+        }
+
+        return this.findOne(primaryTableId)
+    }
+
+    /**
+     * Undo a join; orders stay on the primary table and the joined tables
+     * become AVAILABLE again
+     */
+    async splitTables(primaryTableId: number, user: PermissionUser) {
+        const primary = await this.findOne(primaryTableId)
+        this.assertCanManage(primary.restaurantId, user)
+        const joined = await this.prisma.table.findMany({
+            where: { joinedToId: primaryTableId },
+        })
+        if (joined.length === 0) {
+            throw new BadRequestException(
+                `Table ${primary.name} has no joined tables`
+            )
+        }
+
+        await this.prisma.table.updateMany({
+            where: { joinedToId: primaryTableId },
+            data: { joinedToId: null, status: TableStatus.AVAILABLE },
+        })
+
+        for (const table of joined) {
+            if (table.status !== TableStatus.AVAILABLE) {
+                this.emitTableStatus(table.restaurantId, {
+                    tableId: table.id,
+                    previousStatus: table.status,
+                    newStatus: TableStatus.AVAILABLE,
+                })
+            }
+        }
+
+        return this.findOne(primaryTableId)
+    }
+
+    private assertCanManage(restaurantId: number, user: PermissionUser) {
+        if (!canAccessRestaurant(user, restaurantId)) {
+            throw new ForbiddenException(
+                'You can only manage tables of your own restaurant'
+            )
+        }
+    }
+
+    private emitTableStatus(restaurantId: number, event: TableStatusEvent) {
+        this.socketService.emitTableStatusChanged(restaurantId, event)
+    }
+
     /**
      * Regenerate QR token for a table
      */
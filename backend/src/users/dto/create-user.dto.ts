@@ -1,6 +1,7 @@
 import {
     IsEmail,
     IsEnum,
+    IsInt,
     IsNotEmpty,
     IsOptional,
     IsString,
@@ -27,4 +28,9 @@ export class CreateUserDto {
     @IsEnum(UserRole)
     @IsOptional()
     role?: UserRole
+
+    // Restaurant a WAITER/KITCHEN/ADMIN account works at
+    @IsInt()
+    @IsOptional()
+    restaurantId?: number | null
 }
@@ -79,6 +79,7 @@ export class UsersController {
     // Non-admin users cannot change their role or isActive status
     if (user.role !== UserRole.ADMIN) {
       delete updateUserDto.role
+      delete updateUserDto.restaurantId
       // Note: isActive is not in UpdateUserDto, but we ensure it can't be changed
     }
     
@@ -60,31 +60,65 @@ export class UsersService {
     }
 
     /**
-     * Update user password by ID
+     * Update user password by ID; a new password lifts any lockout
      */
     async updatePassword(id: number, passwordHash: string): Promise<void> {
         await this.prisma.user.update({
             where: { id },
-            data: { passwordHash },
+            data: { passwordHash, failedLoginAttempts: 0, lockedUntil: null },
         })
     }
 
     /**
-     * Update refresh token for user
+     * Set the PIN used to sign in on shared staff devices
      */
-    async updateRefreshToken(id: number, refreshToken: string | null): Promise<void> {
+    async setPin(id: number, pin: string): Promise<void> {
+        await this.findById(id)
         await this.prisma.user.update({
             where: { id },
-            data: { refreshToken },
+            data: { pinHash: await bcrypt.hash(pin, 10) },
         })
     }
 
     /**
-     * Find user by refresh token
+     * Count a wrong password and lock the account once the limit is reached
+     * Returns the lock expiry when this attempt locked it
      */
-    async findByRefreshToken(refreshToken: string) {
-        return this.prisma.user.findFirst({
-            where: { refreshToken },
+    async recordFailedLogin(
+        id: number,
+        maxAttempts: number,
+        lockoutMinutes: number
+    ): Promise<Date | null> {
+        const user = await this.prisma.user.update({
+            where: { id },
+            data: { failedLoginAttempts: { increment: 1 } },
+            select: { failedLoginAttempts: true },
+        })
+        if (user.failedLoginAttempts < maxAttempts) {
+            return null
+        }
+
+        const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000)
+        await this.prisma.user.update({
+            where: { id },
+            data: { failedLoginAttempts: 0, lockedUntil },
+        })
+        return lockedUntil
+    }
+
+    /**
+     * Reset the failed login counter after a successful login
+     */
+    async clearFailedLogins(id: number): Promise<void> {
+        await this.prisma.user.updateMany({
+            where: {
+                id,
+                OR: [
+                    { failedLoginAttempts: { gt: 0 } },
+                    { lockedUntil: { not: null } },
+                ],
+            },
+            data: { failedLoginAttempts: 0, lockedUntil: null },
         })
     }
 
@@ -112,6 +146,11 @@ export class UsersService {
             avatar: true,
             role: true,
             isActive: true,
+            restaurantId: true,
+            staffRoleId: true,
+            staffRole: {
+                select: { name: true, restaurantId: true, permissions: true },
+            },
             createdAt: true,
             updatedAt: true,
         }
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react'
+import { Tablet, Trash2, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import {
+    staffDevicesApi,
+    type Restaurant,
+    type StaffDevice,
+} from '../../services/api'
+import { authService } from '../../services/auth.service'
+import { errorMessage } from '../../utils/errorMessage'
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+/**
+ * Shared tablets where staff switch users with their PIN
+ * Registering stores the device secret in this browser, so it is done
+ * on the tablet itself
+ */
+export default function StaffDevicesModal({
+    restaurants,
+    onClose,
+}: {
+    restaurants: Restaurant[]
+    onClose: () => void
+}) {
+    const [devices, setDevices] = useState<StaffDevice[]>([])
+    const [loading, setLoading] = useState(true)
+    const [name, setName] = useState('')
+    const [restaurantId, setRestaurantId] = useState<number | null>(
+        restaurants.length === 1 ? restaurants[0].id : null
+    )
+    const [registered, setRegistered] = useState(!!authService.getDeviceToken())
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    useEffect(() => {
+        staffDevicesApi
+            .getDevices()
+            .then(setDevices)
+            .catch((err) =>
+                setError(`Unable to load devices: ${errorMessage(err)}`)
+            )
+            .finally(() => setLoading(false))
+    }, [])
+
+    const restaurantName = (id: number) =>
+        restaurants.find((r) => r.id === id)?.name ?? `Restaurant #${id}`
+
+    const handleRegister = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            setSubmitting(true)
+            setError(null)
+            const { deviceToken, ...device } =
+                await staffDevicesApi.registerDevice(
+                    name.trim(),
+                    restaurantId ?? undefined
+                )
+            authService.setDeviceToken(deviceToken ?? null)
+            setRegistered(true)
+            setDevices((current) => [device, ...current])
+            setName('')
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    const handleRevoke = async (device: StaffDevice) => {
+        try {
+            setError(null)
+            await staffDevicesApi.revokeDevice(device.id)
+            setDevices((current) => current.filter((d) => d.id !== device.id))
+        } catch (err) {
+            setError(errorMessage(err))
+        }
+    }
+
+    const handleForget = () => {
+        authService.setDeviceToken(null)
+        setRegistered(false)
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Shared devices
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {registered ? (
+                        <div className="flex items-center justify-between gap-3 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+                            <span>
+                                This browser is a shared device. Staff screens
+                                lock to the PIN pad when idle.
+                            </span>
+                            <button
+                                type="button"
+                                onClick={handleForget}
+                                className="shrink-0 text-green-800 hover:underline"
+                            >
+                                Forget
+                            </button>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleRegister} className="space-y-4">
+                            <p className="text-sm text-slate-600">
+                                Register this browser as a shared device for a
+                                restaurant.
+                            </p>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Device name{' '}
+                                    <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    maxLength={100}
+                                    placeholder="e.g. Kitchen pass tablet"
+                                    className={inputClass}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Restaurant
+                                </label>
+                                <select
+                                    value={restaurantId ?? ''}
+                                    onChange={(e) =>
+                                        setRestaurantId(
+                                            e.target.value
+                                                ? Number(e.target.value)
+                                                : null
+                                        )
+                                    }
+                                    className={inputClass}
+                                >
+                                    <option value="">
+                                        My assigned restaurant
+                                    </option>
+                                    {restaurants.map((restaurant) => (
+                                        <option
+                                            key={restaurant.id}
+                                            value={restaurant.id}
+                                        >
+                                            {restaurant.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={submitting}
+                                className="w-full px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                            >
+                                {submitting
+                                    ? 'Registering...'
+                                    : 'Register this device'}
+                            </button>
+                        </form>
+                    )}
+
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 mb-2">
+                            Registered devices
+                        </h3>
+                        {loading ? (
+                            <p className="text-sm text-slate-500">Loading...</p>
+                        ) : devices.length === 0 ? (
+                            <p className="text-sm text-slate-500">
+                                No devices registered yet.
+                            </p>
+                        ) : (
+                            <ul className="divide-y divide-slate-100">
+                                {devices.map((device) => (
+                                    <li
+                                        key={device.id}
+                                        className="flex items-center gap-3 py-3"
+                                    >
+                                        <Tablet
+                                            size={20}
+                                            className="text-slate-400"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-medium text-slate-900">
+                                                {device.name}
+                                            </p>
+                                            <p className="text-xs text-slate-500">
+                                                {restaurantName(
+                                                    device.restaurantId
+                                                )}{' '}
+                                                · Last used{' '}
+                                                {device.lastUsedAt
+                                                    ? new Date(
+                                                          device.lastUsedAt
+                                                      ).toLocaleString()
+                                                    : 'never'}
+                                            </p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRevoke(device)}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                        >
+                                            <Trash2 size={14} />
+                                            Revoke
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
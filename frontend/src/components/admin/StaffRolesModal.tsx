@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react'
+import { Edit, Plus, Trash2, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import {
+    DEFAULT_ROLE_PERMISSIONS,
+    Permission,
+    UserRole,
+} from '@aerodine/shared-types'
+import {
+    staffRolesApi,
+    type Restaurant,
+    type StaffRoleWithCount,
+} from '../../services/api'
+import { useModal } from '../../contexts/ModalContext'
+import { errorMessage } from '../../utils/errorMessage'
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+    [Permission.ORDERS_VOID]: 'Void orders',
+    [Permission.PAYMENTS_REFUND]: 'Approve refunds',
+    [Permission.MENU_EDIT]: 'Edit the menu',
+    [Permission.REPORTS_VIEW]: 'View reports',
+    [Permission.PAYMENTS_CASH]: 'Take cash payments',
+    [Permission.SHIFTS_MANAGE]: 'Open and close drawer shifts',
+    [Permission.RESERVATIONS_MANAGE]: 'Manage reservations',
+    [Permission.TABLES_MANAGE]: 'Join and split tables',
+}
+
+const describeDefaults = (role: UserRole) =>
+    DEFAULT_ROLE_PERMISSIONS[role]
+        .map((permission) => PERMISSION_LABELS[permission])
+        .join(', ') || 'none'
+
+/**
+ * Custom staff roles such as shift manager, cashier or host
+ * Each is a set of permissions; a waiter or kitchen account given one
+ * holds exactly those permissions instead of its role defaults
+ */
+export default function StaffRolesModal({
+    restaurants,
+    onClose,
+}: {
+    restaurants: Restaurant[]
+    onClose: () => void
+}) {
+    const { confirm } = useModal()
+    const [roles, setRoles] = useState<StaffRoleWithCount[]>([])
+    const [loading, setLoading] = useState(true)
+    const [editing, setEditing] = useState<StaffRoleWithCount | null>(null)
+    const [formOpen, setFormOpen] = useState(false)
+    const [name, setName] = useState('')
+    const [permissions, setPermissions] = useState<Permission[]>([])
+    const [restaurantId, setRestaurantId] = useState<number | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    useEffect(() => {
+        staffRolesApi
+            .getRoles()
+            .then(setRoles)
+            .catch((err) =>
+                setError(`Unable to load roles: ${errorMessage(err)}`)
+            )
+            .finally(() => setLoading(false))
+    }, [])
+
+    const restaurantName = (id?: number | null) =>
+        id == null
+            ? 'All restaurants'
+            : (restaurants.find((r) => r.id === id)?.name ??
+              `Restaurant #${id}`)
+
+    const openForm = (role: StaffRoleWithCount | null) => {
+        setEditing(role)
+        setName(role?.name ?? '')
+        setPermissions(role?.permissions ?? [])
+        setRestaurantId(
+            role ? (role.restaurantId ?? null) : (restaurants[0]?.id ?? null)
+        )
+        setError(null)
+        setFormOpen(true)
+    }
+
+    const togglePermission = (permission: Permission) => {
+        setPermissions((current) =>
+            current.includes(permission)
+                ? current.filter((p) => p !== permission)
+                : [...current, permission]
+        )
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            setSubmitting(true)
+            setError(null)
+            const data = { name: name.trim(), permissions }
+            if (editing) {
+                const updated = await staffRolesApi.updateRole(editing.id, data)
+                setRoles((current) =>
+                    current.map((r) => (r.id === updated.id ? updated : r))
+                )
+            } else {
+                const created = await staffRolesApi.createRole({
+                    ...data,
+                    restaurantId: restaurantId ?? undefined,
+                })
+                setRoles((current) =>
+                    [...current, created].sort((a, b) =>
+                        a.name.localeCompare(b.name)
+                    )
+                )
+            }
+            setFormOpen(false)
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    const handleDelete = async (role: StaffRoleWithCount) => {
+        const confirmed = await confirm({
+            title: 'Delete Role',
+            message: `Delete "${role.name}"? ${role._count.users} staff member(s) will go back to the defaults of their role.`,
+            type: 'warning',
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+
+        try {
+            setError(null)
+            await staffRolesApi.deleteRole(role.id)
+            setRoles((current) => current.filter((r) => r.id !== role.id))
+        } catch (err) {
+            setError(errorMessage(err))
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Staff roles
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    <p className="text-sm text-slate-600">
+                        Without a custom role: waiters -{' '}
+                        {describeDefaults(UserRole.WAITER)}; kitchen staff -{' '}
+                        {describeDefaults(UserRole.KITCHEN)}. Admins hold every
+                        permission.
+                    </p>
+
+                    {formOpen ? (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Name <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    maxLength={50}
+                                    placeholder="e.g. Shift manager"
+                                    className={inputClass}
+                                    required
+                                />
+                            </div>
+
+                            {!editing && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                                        Restaurant
+                                    </label>
+                                    <select
+                                        value={restaurantId ?? ''}
+                                        onChange={(e) =>
+                                            setRestaurantId(
+                                                e.target.value
+                                                    ? Number(e.target.value)
+                                                    : null
+                                            )
+                                        }
+                                        className={inputClass}
+                                    >
+                                        <option value="">
+                                            All restaurants
+                                        </option>
+                                        {restaurants.map((restaurant) => (
+                                            <option
+                                                key={restaurant.id}
+                                                value={restaurant.id}
+                                            >
+                                                {restaurant.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <fieldset className="space-y-2">
+                                <legend className="block text-sm font-medium text-slate-700 mb-2">
+                                    Permissions
+                                </legend>
+                                {Object.values(Permission).map((permission) => (
+                                    <label
+                                        key={permission}
+                                        className="flex items-center gap-3 text-sm text-slate-700"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={permissions.includes(
+                                                permission
+                                            )}
+                                            onChange={() =>
+                                                togglePermission(permission)
+                                            }
+                                            className="h-4 w-4 accent-amber-500"
+                                        />
+                                        {PERMISSION_LABELS[permission]}
+                                        <span className="text-xs text-slate-400">
+                                            {permission}
+                                        </span>
+                                    </label>
+                                ))}
+                            </fieldset>
+
+                            <div className="flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setFormOpen(false)}
+                                    className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={submitting}
+                                    className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                                >
+                                    {submitting
+                                        ? 'Saving...'
+                                        : editing
+                                          ? 'Update'
+                                          : 'Create'}
+                                </button>
+                            </div>
+                        </form>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={() => openForm(null)}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-medium transition-colors"
+                        >
+                            <Plus size={18} />
+                            New role
+                        </button>
+                    )}
+
+                    {loading ? (
+                        <p className="text-sm text-slate-500">Loading...</p>
+                    ) : roles.length === 0 ? (
+                        <p className="text-sm text-slate-500">
+                            No custom roles yet.
+                        </p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100">
+                            {roles.map((role) => (
+                                <li
+                                    key={role.id}
+                                    className="flex items-start gap-3 py-3"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-slate-900">
+                                            {role.name}
+                                        </p>
+                                        <p className="text-xs text-slate-500">
+                                            {restaurantName(role.restaurantId)}{' '}
+                                            · {role._count.users} staff
+                                        </p>
+                                        <div className="flex flex-wrap gap-1 mt-2">
+                                            {role.permissions.length === 0 ? (
+                                                <span className="text-xs text-slate-400">
+                                                    No permissions
+                                                </span>
+                                            ) : (
+                                                role.permissions.map(
+                                                    (permission) => (
+                                                        <span
+                                                            key={permission}
+                                                            className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-700"
+                                                        >
+                                                            {PERMISSION_LABELS[
+                                                                permission
+                                                            ] ?? permission}
+                                                        </span>
+                                                    )
+                                                )
+                                            )}
+                                        </div>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => openForm(role)}
+                                        className="p-2 text-slate-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                    >
+                                        <Edit size={16} />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDelete(role)}
+                                        className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    )
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react'
+import { sessionsApi, type UserSession } from '../../services/api'
+import { errorMessage } from '../../utils/errorMessage'
+
+const MOBILE_DEVICES = /Android|iPhone|iPad/
+
+/**
+ * Devices signed in to the current account, each with its own refresh
+ * token; any device but this one can be signed out. The page supplies
+ * the surrounding card and heading
+ */
+export default function SessionsList() {
+    const [sessions, setSessions] = useState<UserSession[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [revokingId, setRevokingId] = useState<string | null>(null)
+
+    useEffect(() => {
+        sessionsApi
+            .getSessions()
+            .then(setSessions)
+            .catch((err) =>
+                setError(`Unable to load sessions: ${errorMessage(err)}`)
+            )
+            .finally(() => setLoading(false))
+    }, [])
+
+    const handleRevoke = async (session: UserSession) => {
+        try {
+            setRevokingId(session.id)
+            setError(null)
+            await sessionsApi.revokeSession(session.id)
+            setSessions((current) => current.filter((s) => s.id !== session.id))
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setRevokingId(null)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <Loader2 className="h-5 w-5 text-amber-500 animate-spin" />
+            ) : (
+                <ul className="divide-y divide-slate-100">
+                    {sessions.map((session) => {
+                        const Icon = MOBILE_DEVICES.test(
+                            session.deviceName ?? ''
+                        )
+                            ? Smartphone
+                            : Monitor
+                        return (
+                            <li
+                                key={session.id}
+                                className="flex items-center gap-3 py-3"
+                            >
+                                <Icon size={20} className="text-slate-400" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-slate-900">
+                                        {session.deviceName || 'Unknown device'}
+                                        {session.current && (
+                                            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">
+                                                This device
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-slate-500">
+                                        {session.ipAddress &&
+                                            `${session.ipAddress} · `}
+                                        Last active{' '}
+                                        {new Date(
+                                            session.lastUsedAt
+                                        ).toLocaleString()}
+                                    </p>
+                                </div>
+                                {!session.current && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRevoke(session)}
+                                        disabled={revokingId === session.id}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        <LogOut size={14} />
+                                        Sign out
+                                    </button>
+                                )}
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+        </div>
+    )
+}
@@ -12,6 +12,10 @@ import {
   LogOut,
   Settings,
   ChefHat,
+  Package,
+  Percent,
+  Ticket,
+  RotateCcw,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useUserStore } from '../../store/userStore';
@@ -27,6 +31,10 @@ const navigationItems = [
   { path: '/admin/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/admin/menu', label: 'Menu', icon: UtensilsCrossed },
   { path: '/admin/tables', label: 'Tables', icon: Table },
+  { path: '/admin/inventory', label: 'Inventory', icon: Package },
+  { path: '/admin/pricing', label: 'Pricing', icon: Percent },
+  { path: '/admin/promo-codes', label: 'Promo Codes', icon: Ticket },
+  { path: '/admin/refunds', label: 'Refunds', icon: RotateCcw },
   { path: '/admin/staff', label: 'Staff', icon: Users },
   { path: '/admin/kds', label: 'Kitchen Display System', icon: ChefHat },
   { path: '/admin/reports', label: 'Reports', icon: BarChart3 },
@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { shiftsApi } from '../../services/api'
+import type { CashShiftWithSummary } from '@aerodine/shared-types'
+import { formatVND } from '../../utils/currency'
+import { errorMessage } from '../../utils/errorMessage'
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+/**
+ * Cash drawer of the signed-in cashier
+ * Opens a shift with a float, shows the running cash totals and closes it
+ * with the counted cash
+ */
+export default function CashShiftModal({
+    restaurantId,
+    onClose,
+}: {
+    restaurantId?: number | null
+    onClose: () => void
+}) {
+    const [shift, setShift] = useState<CashShiftWithSummary | null>(null)
+    const [closedShift, setClosedShift] = useState<CashShiftWithSummary | null>(
+        null
+    )
+    const [loading, setLoading] = useState(true)
+    const [amount, setAmount] = useState('')
+    const [note, setNote] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    useEffect(() => {
+        shiftsApi
+            .getCurrentShift()
+            .then(setShift)
+            .catch((err) =>
+                setError(`Unable to load shift: ${errorMessage(err)}`)
+            )
+            .finally(() => setLoading(false))
+    }, [])
+
+    const handleOpen = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            setSubmitting(true)
+            setError(null)
+            setShift(
+                await shiftsApi.openShift(
+                    Number(amount),
+                    restaurantId ?? undefined
+                )
+            )
+            setAmount('')
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    const handleClose = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!shift) return
+        try {
+            setSubmitting(true)
+            setError(null)
+            setClosedShift(
+                await shiftsApi.closeShift(
+                    shift.id,
+                    Number(amount),
+                    note.trim() || undefined
+                )
+            )
+            setShift(null)
+            setAmount('')
+            setNote('')
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    const overShort = Number(closedShift?.overShort ?? 0)
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Cash drawer
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {loading && (
+                        <p className="text-sm text-slate-500">Loading...</p>
+                    )}
+
+                    {closedShift && (
+                        <div className="space-y-2 text-sm text-slate-700">
+                            <p className="font-medium text-slate-900">
+                                Shift #{closedShift.id} closed
+                            </p>
+                            <div className="flex justify-between">
+                                <span>Expected cash</span>
+                                <span>
+                                    {formatVND(
+                                        closedShift.summary.expectedCash
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>Counted cash</span>
+                                <span>
+                                    {formatVND(Number(closedShift.countedCash))}
+                                </span>
+                            </div>
+                            <div
+                                className={`flex justify-between font-semibold ${
+                                    overShort < 0
+                                        ? 'text-red-600'
+                                        : overShort > 0
+                                          ? 'text-amber-600'
+                                          : 'text-green-600'
+                                }`}
+                            >
+                                <span>
+                                    {overShort < 0
+                                        ? 'Short'
+                                        : overShort > 0
+                                          ? 'Over'
+                                          : 'Balanced'}
+                                </span>
+                                <span>{formatVND(Math.abs(overShort))}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {!loading && shift && (
+                        <form onSubmit={handleClose} className="space-y-4">
+                            <div className="space-y-2 text-sm text-slate-700">
+                                <p className="text-slate-500">
+                                    Shift #{shift.id} opened{' '}
+                                    {new Date(shift.openedAt).toLocaleString()}
+                                </p>
+                                <div className="flex justify-between">
+                                    <span>Opening float</span>
+                                    <span>
+                                        {formatVND(Number(shift.openingFloat))}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>
+                                        Cash taken ({shift.summary.cashPayments}{' '}
+                                        payments)
+                                    </span>
+                                    <span>
+                                        {formatVND(shift.summary.cashSales)}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Cash refunds</span>
+                                    <span>
+                                        -{formatVND(shift.summary.cashRefunds)}
+                                    </span>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Counted cash{' '}
+                                    <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    className={inputClass}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Note
+                                </label>
+                                <textarea
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    maxLength={500}
+                                    rows={2}
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            <button
+                                type="submit"
+                                disabled={submitting}
+                                className="w-full px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                            >
+                                {submitting ? 'Closing...' : 'Close shift'}
+                            </button>
+                        </form>
+                    )}
+
+                    {!loading && !shift && (
+                        <form onSubmit={handleOpen} className="space-y-4">
+                            <p className="text-sm text-slate-600">
+                                {closedShift
+                                    ? 'Open a new shift when the next drawer starts.'
+                                    : 'No shift is open. Cash you take is not counted in any drawer until you open one.'}
+                            </p>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Opening float{' '}
+                                    <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    className={inputClass}
+                                    required
+                                />
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={submitting}
+                                className="w-full px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                            >
+                                {submitting ? 'Opening...' : 'Open shift'}
+                            </button>
+                        </form>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    )
+}
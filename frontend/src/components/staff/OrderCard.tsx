@@ -1,8 +1,10 @@
 import { useState, useRef } from 'react'
 import { formatVND } from '../../utils/currency'
 import { orderService } from '../../services/order.service'
+import { paymentService } from '../../services/payment.service'
 import { getQRCodeImageUrl } from '../../utils/qrcode'
 import { useModal } from '../../contexts/ModalContext'
+import { PaymentMethod, PaymentProvider } from '@aerodine/shared-types'
 
 /**
  * Order Card Component for Waiter Dashboard
@@ -30,6 +32,15 @@ interface Order {
     note?: string
     createdAt: string
     items: OrderItem[]
+    paidAmount?: number // Already paid through earlier split-bill payments
+    // Breakdown of totalAmount (rates in percent)
+    subtotal?: number
+    discountAmount?: number
+    serviceChargeRate?: number
+    serviceCharge?: number
+    taxRate?: number
+    taxAmount?: number
+    tipAmount?: number
 }
 
 interface OrderCardProps {
@@ -38,8 +49,10 @@ interface OrderCardProps {
     onAccept?: () => void
     onReject?: (reason?: string) => void
     onServe?: () => void
-    onCashPayment?: () => void
+    onCashPayment?: (amount?: number, tipAmount?: number) => void
     onCardPayment?: () => void
+    transferTargets?: { id: number; name: string }[]
+    onTransfer?: (tableId: number) => void
     restaurantName?: string
 }
 
@@ -51,6 +64,8 @@ export default function OrderCard({
     onServe,
     onCashPayment,
     onCardPayment,
+    transferTargets = [],
+    onTransfer,
     restaurantName = 'Smart Restaurant',
 }: OrderCardProps) {
     const { alert, confirm } = useModal()
@@ -62,6 +77,10 @@ export default function OrderCard({
     const [isCreatingCheckout, setIsCreatingCheckout] = useState(false)
     const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null)
     const [checkoutError, setCheckoutError] = useState<string | null>(null)
+    const [checkoutLabel, setCheckoutLabel] = useState('thẻ')
+    const [splitAmount, setSplitAmount] = useState('')
+    const [tipInput, setTipInput] = useState('')
+    const [transferTableId, setTransferTableId] = useState('')
     const billRef = useRef<HTMLDivElement>(null)
 
     const formatTime = (dateString: string) => {
@@ -132,10 +151,57 @@ export default function OrderCard({
         }
     }
 
+    const handleTransfer = async () => {
+        if (!transferTableId) return
+        setIsProcessing(true)
+        try {
+            await onTransfer?.(Number(transferTableId))
+            setTransferTableId('')
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    // Bill breakdown from the server; the tip being entered replaces the
+    // order's current tip
+    const currentTip = order.tipAmount || 0
+    const tipAmount = tipInput.trim() ? Math.max(Number(tipInput) || 0, 0) : currentTip
+    const subtotal = order.subtotal ?? order.totalAmount
+    const discountAmount = order.discountAmount || 0
+    const serviceCharge = order.serviceCharge || 0
+    const taxAmount = order.taxAmount || 0
+    const grandTotal = order.totalAmount - currentTip + tipAmount
+
+    // Split bill: an empty amount pays the whole outstanding balance
+    const balanceDue = Math.max(grandTotal - (order.paidAmount || 0), 0)
+
+    // Only send the tip when it was changed here
+    const getTipAmount = () => (tipInput.trim() ? tipAmount : undefined)
+
+    const getSplitAmount = async (): Promise<number | undefined | null> => {
+        if (!splitAmount.trim()) {
+            return undefined
+        }
+        const amount = Number(splitAmount)
+        if (!Number.isFinite(amount) || amount <= 0 || amount > balanceDue) {
+            await alert({
+                title: 'Lỗi',
+                message: `Số tiền phải lớn hơn 0 và không vượt quá ${formatVND(balanceDue)}`,
+                type: 'error',
+            })
+            return null
+        }
+        return amount
+    }
+
     const handleCashPayment = async () => {
+        const amount = await getSplitAmount()
+        if (amount === null) {
+            return
+        }
         const confirmed = await confirm({
             title: 'Xác nhận thanh toán',
-            message: `Xác nhận thanh toán tiền mặt ${formatVND(order.totalAmount)} cho ${order.tableName}?`,
+            message: `Xác nhận thanh toán tiền mặt ${formatVND(amount ?? balanceDue)} cho ${order.tableName}?`,
             type: 'warning',
             confirmText: 'Xác nhận',
             cancelText: 'Hủy',
@@ -145,7 +211,9 @@ export default function OrderCard({
         }
         setIsProcessing(true)
         try {
-            await onCashPayment?.()
+            await onCashPayment?.(amount, getTipAmount())
+            setSplitAmount('')
+            setTipInput('')
             setShowPaymentModal(false)
         } finally {
             setIsProcessing(false)
@@ -153,11 +221,20 @@ export default function OrderCard({
     }
 
     const handleCardPayment = async () => {
+        const amount = await getSplitAmount()
+        if (amount === null) {
+            return
+        }
         setIsCreatingCheckout(true)
         setCheckoutError(null)
         try {
-            const result = await orderService.createStripeCheckout(order.id)
+            const result = await orderService.createStripeCheckout(
+                order.id,
+                amount,
+                getTipAmount(),
+            )
             setCheckoutUrl(result.url)
+            setCheckoutLabel('thẻ')
             setShowQRCodeModal(true)
             setShowPaymentModal(false)
             // Notify parent component if callback provided
@@ -173,6 +250,40 @@ export default function OrderCard({
         }
     }
 
+    // Local wallets: the customer scans the gateway's payment page
+    const handleWalletPayment = async (
+        provider: PaymentProvider,
+        label: string
+    ) => {
+        const amount = await getSplitAmount()
+        if (amount === null) {
+            return
+        }
+        setIsCreatingCheckout(true)
+        setCheckoutError(null)
+        try {
+            const result = await paymentService.createPayment(
+                order.id,
+                provider === PaymentProvider.VNPAY
+                    ? PaymentMethod.QR_CODE
+                    : PaymentMethod.E_WALLET,
+                { provider, amount, tipAmount: getTipAmount() }
+            )
+            setCheckoutUrl(result.payUrl)
+            setCheckoutLabel(label)
+            setShowQRCodeModal(true)
+            setShowPaymentModal(false)
+        } catch (error: any) {
+            console.error(`Failed to create ${label} payment:`, error)
+            setCheckoutError(
+                error?.response?.data?.message ||
+                    'Không thể tạo phiên thanh toán. Vui lòng thử lại.'
+            )
+        } finally {
+            setIsCreatingCheckout(false)
+        }
+    }
+
     const copyCheckoutUrl = async () => {
         if (checkoutUrl) {
             navigator.clipboard.writeText(checkoutUrl)
@@ -205,12 +316,6 @@ export default function OrderCard({
         })
     }
 
-    // Calculate subtotal (before VAT)
-    const subtotal = order.totalAmount
-    const vatRate = 0.1 // 10% VAT
-    const vatAmount = subtotal * vatRate
-    const grandTotal = subtotal + vatAmount
-
     // Download bill as PDF
     const handleDownloadBill = async () => {
         try {
@@ -290,13 +395,25 @@ export default function OrderCard({
             y += 8
             
             // Totals
-            doc.text('Tong tien hang:', 15, y)
-            doc.text(formatVND(subtotal), pageWidth - 15, y, { align: 'right' })
-            y += 6
-            
-            doc.text(`VAT (${vatRate * 100}%):`, 15, y)
-            doc.text(formatVND(vatAmount), pageWidth - 15, y, { align: 'right' })
-            y += 8
+            const totalLines: [string, number][] = [['Tong tien hang:', subtotal]]
+            if (discountAmount > 0) {
+                totalLines.push(['Giam gia:', -discountAmount])
+            }
+            if (serviceCharge > 0) {
+                totalLines.push([`Phi dich vu (${order.serviceChargeRate}%):`, serviceCharge])
+            }
+            if (taxAmount > 0) {
+                totalLines.push([`VAT (${order.taxRate}%):`, taxAmount])
+            }
+            if (tipAmount > 0) {
+                totalLines.push(['Tien tip:', tipAmount])
+            }
+            totalLines.forEach(([label, value]) => {
+                doc.text(label, 15, y)
+                doc.text(formatVND(value), pageWidth - 15, y, { align: 'right' })
+                y += 6
+            })
+            y += 2
             
             // Grand total
             doc.line(10, y - 2, pageWidth - 10, y - 2)
@@ -484,6 +601,31 @@ export default function OrderCard({
                             💳 Pay
                         </button>
                     )}
+
+                    {type === 'active' && onTransfer && transferTargets.length > 0 && (
+                        <div className="flex space-x-2 mt-2">
+                            <select
+                                value={transferTableId}
+                                onChange={(e) => setTransferTableId(e.target.value)}
+                                disabled={isProcessing}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">Move to table...</option>
+                                {transferTargets.map((table) => (
+                                    <option key={table.id} value={table.id}>
+                                        {table.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={handleTransfer}
+                                disabled={isProcessing || !transferTableId}
+                                className="px-4 py-2 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Move
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -583,14 +725,46 @@ export default function OrderCard({
                                         <span className="text-gray-600">Tổng tiền hàng:</span>
                                         <span className="font-medium">{formatVND(subtotal)}</span>
                                     </div>
-                                    <div className="flex justify-between text-sm">
-                                        <span className="text-gray-600">VAT ({vatRate * 100}%):</span>
-                                        <span className="font-medium">{formatVND(vatAmount)}</span>
-                                    </div>
+                                    {discountAmount > 0 && (
+                                        <div className="flex justify-between text-sm">
+                                            <span className="text-gray-600">Giảm giá:</span>
+                                            <span className="font-medium text-red-600">-{formatVND(discountAmount)}</span>
+                                        </div>
+                                    )}
+                                    {serviceCharge > 0 && (
+                                        <div className="flex justify-between text-sm">
+                                            <span className="text-gray-600">Phí dịch vụ ({order.serviceChargeRate}%):</span>
+                                            <span className="font-medium">{formatVND(serviceCharge)}</span>
+                                        </div>
+                                    )}
+                                    {taxAmount > 0 && (
+                                        <div className="flex justify-between text-sm">
+                                            <span className="text-gray-600">VAT ({order.taxRate}%):</span>
+                                            <span className="font-medium">{formatVND(taxAmount)}</span>
+                                        </div>
+                                    )}
+                                    {tipAmount > 0 && (
+                                        <div className="flex justify-between text-sm">
+                                            <span className="text-gray-600">Tiền tip:</span>
+                                            <span className="font-medium">{formatVND(tipAmount)}</span>
+                                        </div>
+                                    )}
                                     <div className="flex justify-between text-lg font-bold border-t pt-2 mt-2">
                                         <span className="text-gray-800">TỔNG CỘNG:</span>
                                         <span className="text-blue-600">{formatVND(grandTotal)}</span>
                                     </div>
+                                    {!!order.paidAmount && (
+                                        <>
+                                            <div className="flex justify-between text-sm">
+                                                <span className="text-gray-600">Đã thanh toán:</span>
+                                                <span className="font-medium text-green-600">{formatVND(order.paidAmount)}</span>
+                                            </div>
+                                            <div className="flex justify-between text-sm font-bold">
+                                                <span className="text-gray-800">Còn lại:</span>
+                                                <span className="text-red-600">{formatVND(balanceDue)}</span>
+                                            </div>
+                                        </>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -608,6 +782,37 @@ export default function OrderCard({
                             </div>
 
                             <div className="flex-1 space-y-4">
+                                {/* Tip */}
+                                <div>
+                                    <label className="block text-sm text-gray-600 mb-1">
+                                        Tiền tip
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={tipInput}
+                                        onChange={(e) => setTipInput(e.target.value)}
+                                        placeholder={currentTip > 0 ? formatVND(currentTip) : 'Không có tip'}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+
+                                {/* Split Bill Amount */}
+                                <div>
+                                    <label className="block text-sm text-gray-600 mb-1">
+                                        Số tiền thanh toán (còn lại {formatVND(balanceDue)})
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={balanceDue}
+                                        value={splitAmount}
+                                        onChange={(e) => setSplitAmount(e.target.value)}
+                                        placeholder="Để trống để thanh toán toàn bộ"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+
                                 {/* Cash Payment */}
                                 <button
                                     onClick={handleCashPayment}
@@ -632,21 +837,32 @@ export default function OrderCard({
                                     </div>
                                 )}
 
-                                {/* Other Payment Methods - Coming Soon */}
+                                {/* Local Wallets */}
                                 <div className="border-t pt-4 mt-4">
-                                    <p className="text-sm text-gray-500 mb-3">Phương thức khác:</p>
-                                    <button
-                                        disabled
-                                        className="w-full py-3 bg-gray-100 text-gray-400 font-medium rounded-lg cursor-not-allowed flex items-center justify-center gap-2 mb-2"
-                                    >
-                                        📱 Momo (Coming soon)
-                                    </button>
-                                    <button
-                                        disabled
-                                        className="w-full py-3 bg-gray-100 text-gray-400 font-medium rounded-lg cursor-not-allowed flex items-center justify-center gap-2"
-                                    >
-                                        🏦 Bank Transfer (Coming soon)
-                                    </button>
+                                    <p className="text-sm text-gray-500 mb-3">Ví điện tử:</p>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <button
+                                            onClick={() => handleWalletPayment(PaymentProvider.MOMO, 'MoMo')}
+                                            disabled={isProcessing || isCreatingCheckout}
+                                            className="py-3 bg-pink-600 text-white font-medium rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            MoMo
+                                        </button>
+                                        <button
+                                            onClick={() => handleWalletPayment(PaymentProvider.VNPAY, 'VNPay')}
+                                            disabled={isProcessing || isCreatingCheckout}
+                                            className="py-3 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            VNPay
+                                        </button>
+                                        <button
+                                            onClick={() => handleWalletPayment(PaymentProvider.ZALOPAY, 'ZaloPay')}
+                                            disabled={isProcessing || isCreatingCheckout}
+                                            className="py-3 bg-sky-600 text-white font-medium rounded-lg hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            ZaloPay
+                                        </button>
+                                    </div>
                                 </div>
                             </div>
 
@@ -684,7 +900,7 @@ export default function OrderCard({
 
                         <div className="text-center mb-4">
                             <p className="text-sm text-gray-600 mb-4">
-                                Khách hàng quét QR code này để thanh toán bằng thẻ
+                                Khách hàng quét QR code này để thanh toán bằng {checkoutLabel}
                             </p>
                             <div className="bg-white p-4 rounded-lg border-2 border-gray-200 inline-block">
                                 <img
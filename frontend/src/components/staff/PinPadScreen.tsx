@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, Delete, Lock } from 'lucide-react'
+import { staffDevicesApi, type DeviceStaffMember } from '../../services/api'
+import { authService } from '../../services/auth.service'
+import { useUserStore, type User } from '../../store/userStore'
+import { errorMessage } from '../../utils/errorMessage'
+
+const PIN_LENGTH = { min: 4, max: 6 }
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9']
+
+/**
+ * Lock screen of a shared staff device
+ * Staff pick their name and type their PIN; the previous user is signed
+ * out and the new one signed in on this device
+ */
+export default function PinPadScreen({
+    deviceToken,
+    onUnlock,
+}: {
+    deviceToken: string
+    onUnlock: (user: User) => void
+}) {
+    const setUser = useUserStore((state) => state.setUser)
+    const [staff, setStaff] = useState<DeviceStaffMember[]>([])
+    const [loading, setLoading] = useState(true)
+    const [deviceRevoked, setDeviceRevoked] = useState(false)
+    const [selected, setSelected] = useState<DeviceStaffMember | null>(null)
+    const [pin, setPin] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    useEffect(() => {
+        staffDevicesApi
+            .getDeviceStaff(deviceToken)
+            .then(setStaff)
+            .catch((err) => {
+                if (err.response?.status === 401) {
+                    authService.setDeviceToken(null)
+                    setDeviceRevoked(true)
+                } else {
+                    setError(`Unable to load staff: ${errorMessage(err)}`)
+                }
+            })
+            .finally(() => setLoading(false))
+    }, [deviceToken])
+
+    const handleSelect = (member: DeviceStaffMember | null) => {
+        setSelected(member)
+        setPin('')
+        setError(null)
+    }
+
+    const handleKey = (key: string) => {
+        setError(null)
+        setPin((current) =>
+            current.length < PIN_LENGTH.max ? current + key : current
+        )
+    }
+
+    const handleSubmit = async () => {
+        if (!selected || pin.length < PIN_LENGTH.min) return
+        try {
+            setSubmitting(true)
+            setError(null)
+            const { user } = await authService.pinLogin({
+                deviceToken,
+                userId: selected.id,
+                pin,
+            })
+            setUser(user)
+            onUnlock(user)
+        } catch (err) {
+            setPin('')
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-6">
+                <div className="flex items-center gap-3">
+                    {selected && (
+                        <button
+                            type="button"
+                            onClick={() => handleSelect(null)}
+                            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                            <ArrowLeft size={20} className="text-slate-600" />
+                        </button>
+                    )}
+                    <Lock size={20} className="text-amber-500" />
+                    <h2 className="text-xl font-semibold text-slate-900">
+                        {selected
+                            ? selected.fullName
+                            : 'Who is using this device?'}
+                    </h2>
+                </div>
+
+                {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                {loading && (
+                    <p className="text-sm text-slate-500">Loading...</p>
+                )}
+
+                {deviceRevoked && (
+                    <p className="text-sm text-slate-600">
+                        This device is no longer registered.{' '}
+                        <Link
+                            to="/auth/login"
+                            className="text-amber-600 hover:underline"
+                        >
+                            Sign in with email and password
+                        </Link>
+                    </p>
+                )}
+
+                {!loading && !deviceRevoked && !selected && (
+                    <>
+                        {staff.length === 0 ? (
+                            <p className="text-sm text-slate-600">
+                                No staff of this restaurant has a PIN yet. An
+                                admin can set one on the Staff page.
+                            </p>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                                {staff.map((member) => (
+                                    <button
+                                        key={member.id}
+                                        type="button"
+                                        onClick={() => handleSelect(member)}
+                                        className="flex flex-col items-center gap-2 p-4 border border-slate-200 rounded-xl hover:border-amber-500 hover:bg-amber-50 transition-colors"
+                                    >
+                                        {member.avatar ? (
+                                            <img
+                                                src={member.avatar}
+                                                alt={member.fullName}
+                                                className="w-12 h-12 rounded-full object-cover"
+                                            />
+                                        ) : (
+                                            <div className="w-12 h-12 rounded-full bg-slate-200 flex items-center justify-center text-lg font-semibold text-slate-600">
+                                                {member.fullName.charAt(0)}
+                                            </div>
+                                        )}
+                                        <span className="text-sm font-medium text-slate-900">
+                                            {member.fullName}
+                                        </span>
+                                        <span className="text-xs text-slate-500">
+                                            {member.role}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <Link
+                            to="/auth/login"
+                            className="block text-center text-sm text-slate-500 hover:text-slate-700"
+                        >
+                            Sign in with email instead
+                        </Link>
+                    </>
+                )}
+
+                {selected && (
+                    <div className="space-y-6">
+                        <div className="flex justify-center gap-3">
+                            {Array.from({ length: PIN_LENGTH.max }, (_, i) => (
+                                <span
+                                    key={i}
+                                    className={`w-4 h-4 rounded-full ${
+                                        i < pin.length
+                                            ? 'bg-slate-900'
+                                            : 'bg-slate-200'
+                                    }`}
+                                />
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3">
+                            {KEYS.map((key) => (
+                                <button
+                                    key={key}
+                                    type="button"
+                                    onClick={() => handleKey(key)}
+                                    disabled={submitting}
+                                    className="py-4 text-2xl font-semibold text-slate-900 bg-slate-100 rounded-xl hover:bg-slate-200 transition-colors disabled:opacity-50"
+                                >
+                                    {key}
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    setPin((current) => current.slice(0, -1))
+                                }
+                                disabled={submitting}
+                                className="flex items-center justify-center py-4 bg-slate-100 rounded-xl hover:bg-slate-200 transition-colors disabled:opacity-50"
+                            >
+                                <Delete size={24} className="text-slate-600" />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => handleKey('0')}
+                                disabled={submitting}
+                                className="py-4 text-2xl font-semibold text-slate-900 bg-slate-100 rounded-xl hover:bg-slate-200 transition-colors disabled:opacity-50"
+                            >
+                                0
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleSubmit}
+                                disabled={
+                                    submitting || pin.length < PIN_LENGTH.min
+                                }
+                                className="py-4 text-lg font-semibold text-white bg-amber-500 rounded-xl hover:bg-amber-600 transition-colors disabled:opacity-50"
+                            >
+                                {submitting ? '...' : 'OK'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,304 @@
+import { useState } from 'react'
+import { X, Search } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { orderService } from '../../services/order.service'
+import { refundsApi } from '../../services/api'
+import { PaymentStatus, OrderItemStatus } from '@aerodine/shared-types'
+import type { OrderWithDetails, Refund } from '@aerodine/shared-types'
+import { formatVND } from '../../utils/currency'
+import { errorMessage } from '../../utils/errorMessage'
+
+type RefundMode = 'full' | 'amount' | 'items'
+
+const CAPTURED_STATUSES: string[] = [
+    PaymentStatus.SUCCESS,
+    PaymentStatus.PARTIALLY_REFUNDED,
+]
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+/**
+ * Refund request form used by waiters and managers
+ * Waiter requests wait for approval; manager requests are processed at once
+ */
+export default function RefundRequestModal({
+    onClose,
+    onCreated,
+}: {
+    onClose: () => void
+    onCreated: (refund: Refund) => void
+}) {
+    const [orderIdInput, setOrderIdInput] = useState('')
+    const [order, setOrder] = useState<OrderWithDetails | null>(null)
+    const [paymentId, setPaymentId] = useState<number | null>(null)
+    const [mode, setMode] = useState<RefundMode>('full')
+    const [amount, setAmount] = useState('')
+    const [quantities, setQuantities] = useState<Record<number, number>>({})
+    const [reason, setReason] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    const payments = (order?.payments || []).filter((payment) =>
+        CAPTURED_STATUSES.includes(payment.status)
+    )
+    const items = (order?.items || []).filter(
+        (item) => item.status !== OrderItemStatus.CANCELLED
+    )
+
+    const handleLookup = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const id = Number(orderIdInput)
+        if (!id) return
+        try {
+            setError(null)
+            const found = await orderService.getOrder(id)
+            setOrder(found)
+            setQuantities({})
+            const captured = (found.payments || []).filter((payment) =>
+                CAPTURED_STATUSES.includes(payment.status)
+            )
+            setPaymentId(captured.length === 1 ? captured[0].id : null)
+            if (captured.length === 0) {
+                setError('This order has no payment that can be refunded')
+            }
+        } catch (err) {
+            setOrder(null)
+            setError(`Unable to load order: ${errorMessage(err)}`)
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!order) return
+
+        const refundItems = Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({
+                orderItemId: Number(orderItemId),
+                quantity,
+            }))
+        if (mode === 'items' && refundItems.length === 0) {
+            setError('Choose at least one item to refund')
+            return
+        }
+
+        try {
+            setSubmitting(true)
+            setError(null)
+            const refund = await refundsApi.createRefund({
+                orderId: order.id,
+                paymentId: paymentId ?? undefined,
+                amount: mode === 'amount' ? Number(amount) : undefined,
+                items: mode === 'items' ? refundItems : undefined,
+                reason: reason.trim(),
+            })
+            onCreated(refund)
+        } catch (err) {
+            setError(errorMessage(err))
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Refund
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <form onSubmit={handleLookup} className="flex gap-2">
+                        <input
+                            type="number"
+                            min="1"
+                            value={orderIdInput}
+                            onChange={(e) => setOrderIdInput(e.target.value)}
+                            placeholder="Order ID"
+                            className={inputClass}
+                            required
+                        />
+                        <button
+                            type="submit"
+                            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            <Search size={16} />
+                            Find
+                        </button>
+                    </form>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {order && payments.length > 0 && (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <p className="text-sm text-slate-600">
+                                Order #{order.id} · {order.table?.name} · Total{' '}
+                                {formatVND(order.totalAmount)}
+                                {Number(order.refundedAmount) > 0 &&
+                                    ` · Refunded ${formatVND(Number(order.refundedAmount))}`}
+                            </p>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Payment
+                                </label>
+                                <select
+                                    value={paymentId ?? ''}
+                                    onChange={(e) =>
+                                        setPaymentId(
+                                            e.target.value
+                                                ? Number(e.target.value)
+                                                : null
+                                        )
+                                    }
+                                    className={inputClass}
+                                >
+                                    {payments.length > 1 && (
+                                        <option value="">
+                                            Latest payment that covers it
+                                        </option>
+                                    )}
+                                    {payments.map((payment) => (
+                                        <option
+                                            key={payment.id}
+                                            value={payment.id}
+                                        >
+                                            #{payment.id} · {payment.method} ·{' '}
+                                            {formatVND(payment.amount)}
+                                            {Number(payment.refundedAmount) >
+                                                0 &&
+                                                ` (${formatVND(Number(payment.refundedAmount))} refunded)`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="flex gap-2">
+                                {(
+                                    [
+                                        ['full', 'Full payment'],
+                                        ['amount', 'Amount'],
+                                        ['items', 'Items'],
+                                    ] as [RefundMode, string][]
+                                ).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        type="button"
+                                        onClick={() => setMode(value)}
+                                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                                            mode === value
+                                                ? 'bg-amber-500 border-amber-500 text-white'
+                                                : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {mode === 'amount' && (
+                                <input
+                                    type="number"
+                                    min="1"
+                                    step="any"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    placeholder="Amount to refund"
+                                    className={inputClass}
+                                    required
+                                />
+                            )}
+
+                            {mode === 'items' && (
+                                <div className="space-y-2">
+                                    {items.map((item) => (
+                                        <div
+                                            key={item.id}
+                                            className="flex items-center justify-between gap-3 text-sm"
+                                        >
+                                            <span className="text-slate-700">
+                                                {item.name} ×{item.quantity}
+                                            </span>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max={item.quantity}
+                                                step="1"
+                                                value={quantities[item.id] ?? 0}
+                                                onChange={(e) =>
+                                                    setQuantities({
+                                                        ...quantities,
+                                                        [item.id]: Number(
+                                                            e.target.value
+                                                        ),
+                                                    })
+                                                }
+                                                className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+                                            />
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-slate-400">
+                                        Items are refunded at their share of the
+                                        bill, including discount, service charge
+                                        and VAT.
+                                    </p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Reason{' '}
+                                    <span className="text-red-500">*</span>
+                                </label>
+                                <textarea
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value)}
+                                    maxLength={500}
+                                    rows={2}
+                                    className={inputClass}
+                                    required
+                                />
+                            </div>
+
+                            <div className="flex gap-3 pt-2">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={submitting}
+                                    className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                                >
+                                    {submitting
+                                        ? 'Submitting...'
+                                        : 'Request refund'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    )
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+import { useUserStore } from '../store/userStore'
+import { restaurantsApi } from '../services/api'
+
+/**
+ * Restaurant context for staff and admin pages, taken from the logged-in
+ * user's restaurant assignment. Admins without an assignment fall back to
+ * the first restaurant.
+ */
+export const useRestaurantContext = () => {
+    const user = useUserStore((state) => state.user)
+    const [fallbackId, setFallbackId] = useState<number | null>(null)
+
+    const assignedId = user?.restaurantId ?? null
+    const needsFallback = !!user && !assignedId && user.role === 'ADMIN'
+
+    useEffect(() => {
+        if (!needsFallback) return
+
+        restaurantsApi
+            .getRestaurants()
+            .then((restaurants) => setFallbackId(restaurants[0]?.id ?? null))
+            .catch(() => setFallbackId(null))
+    }, [needsFallback])
+
+    return {
+        restaurantId: assignedId ?? (needsFallback ? fallbackId : null),
+        userId: user?.id ?? null,
+        user,
+    }
+}
@@ -1,11 +1,12 @@
 import { useEffect, useRef, useState } from 'react'
 import { Socket } from 'socket.io-client'
 import { getSocket, disconnectSocket } from '../services/socket'
-import { SocketEvents } from '@aerodine/shared-types'
+import { SocketEvents, ReplayableSocketEvents } from '@aerodine/shared-types'
 import type {
     JoinRestaurantPayload,
     JoinTablePayload,
     JoinKitchenPayload,
+    JoinStationPayload,
     JoinWaiterPayload,
     OrderCreatedEvent,
     OrderUpdatedEvent,
@@ -15,6 +16,9 @@ import type {
     NotificationEvent,
     TableStatusEvent,
     MenuItemStatusChangedEvent,
+    ReplayEventsPayload,
+    ReplayEventsAck,
+    SequencedEvent,
 } from '@aerodine/shared-types'
 
 /**
@@ -28,6 +32,7 @@ export const useSocket = () => {
 
     useEffect(() => {
         socketRef.current = getSocket()
+        trackSequences(socketRef.current)
 
         const handleConnect = () => setIsConnected(true)
         const handleDisconnect = () => setIsConnected(false)
@@ -60,6 +65,112 @@ export const useSocketWithCleanup = () => {
     }, [])
 }
 
+// ============================================================================
+// EVENT REPLAY
+// ============================================================================
+
+/**
+ * Window event fired when missed events could not be replayed (the gap fell
+ * outside the server's retention window) and pages must refetch instead.
+ */
+export const RESYNC_REQUIRED_EVENT = 'aerodine:resync-required'
+
+const REPLAY_DEBOUNCE_MS = 150 // Let every room join of a render ack first
+
+// Highest event sequence seen per restaurant, kept across reconnects
+const lastSeenSeq = new Map<number, number>()
+// Sequence to resume from after the socket dropped, per restaurant
+const resumeFromSeq = new Map<number, number>()
+const replayTimers = new Map<number, ReturnType<typeof setTimeout>>()
+const trackedSockets = new WeakSet<Socket>()
+
+const trackSequences = (socket: Socket) => {
+    if (trackedSockets.has(socket)) return
+    trackedSockets.add(socket)
+
+    socket.onAny((event: string, payload?: Partial<SequencedEvent>) => {
+        if (!ReplayableSocketEvents.includes(event)) return
+        if (!payload?.restaurantId || typeof payload.seq !== 'number') return
+
+        const previous = lastSeenSeq.get(payload.restaurantId) ?? 0
+        if (payload.seq > previous) {
+            lastSeenSeq.set(payload.restaurantId, payload.seq)
+        }
+    })
+
+    socket.on('disconnect', () => {
+        for (const [restaurantId, seq] of lastSeenSeq) {
+            if (!resumeFromSeq.has(restaurantId)) {
+                resumeFromSeq.set(restaurantId, seq)
+            }
+        }
+    })
+}
+
+const requestReplay = (socket: Socket, restaurantId: number) => {
+    // Fresh joins only need a baseline; replay is for rejoins after a drop
+    const resumeFrom = resumeFromSeq.get(restaurantId)
+    const lastSeq = resumeFrom ?? lastSeenSeq.get(restaurantId) ?? null
+    if (resumeFrom === undefined && lastSeq !== null) return
+
+    const payload: ReplayEventsPayload = { restaurantId, lastSeq }
+    socket.emit(
+        SocketEvents.REPLAY_EVENTS,
+        payload,
+        (ack: ReplayEventsAck) => {
+            resumeFromSeq.delete(restaurantId)
+            const previous = lastSeenSeq.get(restaurantId) ?? 0
+            lastSeenSeq.set(restaurantId, Math.max(previous, ack.latestSeq))
+
+            if (!ack.complete) {
+                window.dispatchEvent(
+                    new CustomEvent(RESYNC_REQUIRED_EVENT, {
+                        detail: { restaurantId },
+                    })
+                )
+            }
+        }
+    )
+}
+
+/**
+ * Ask the server for missed events once the room joins of this connection
+ * have been acknowledged (replay only covers rooms the socket is in).
+ */
+const scheduleReplay = (socket: Socket, restaurantId: number) => {
+    if (!restaurantId) return
+
+    clearTimeout(replayTimers.get(restaurantId))
+    replayTimers.set(
+        restaurantId,
+        setTimeout(() => {
+            replayTimers.delete(restaurantId)
+            if (socket.connected) requestReplay(socket, restaurantId)
+        }, REPLAY_DEBOUNCE_MS)
+    )
+}
+
+/**
+ * Hook for pages that must refetch when a replay could not cover the gap
+ */
+export const useResyncRequired = (callback: () => void) => {
+    const callbackRef = useRef(callback)
+
+    useEffect(() => {
+        callbackRef.current = callback
+    }, [callback])
+
+    useEffect(() => {
+        const handleResync = () => callbackRef.current()
+
+        window.addEventListener(RESYNC_REQUIRED_EVENT, handleResync)
+
+        return () => {
+            window.removeEventListener(RESYNC_REQUIRED_EVENT, handleResync)
+        }
+    }, [])
+}
+
 // ============================================================================
 // ROOM HOOKS
 // ============================================================================
@@ -74,7 +185,9 @@ export const useRestaurantRoom = (restaurantId: number, userId?: number) => {
         if (!socket || !isConnected || !restaurantId) return
 
         const payload: JoinRestaurantPayload = { restaurantId, userId }
-        socket.emit(SocketEvents.JOIN_RESTAURANT, payload)
+        socket.emit(SocketEvents.JOIN_RESTAURANT, payload, () =>
+            scheduleReplay(socket, restaurantId)
+        )
 
         return () => {
             socket.emit(SocketEvents.LEAVE_RESTAURANT, { restaurantId })
@@ -98,7 +211,9 @@ export const useTableRoom = (
         if (!socket || !isConnected || !tableId) return
 
         const payload: JoinTablePayload = { restaurantId, tableId, tableToken }
-        socket.emit(SocketEvents.JOIN_TABLE, payload)
+        socket.emit(SocketEvents.JOIN_TABLE, payload, () =>
+            scheduleReplay(socket, restaurantId)
+        )
 
         return () => {
             socket.emit(SocketEvents.LEAVE_TABLE, { tableId })
@@ -109,21 +224,42 @@ export const useTableRoom = (
 }
 
 /**
- * Hook to join kitchen room
+ * Hook to join kitchen room, or only one station's room when stationId is set
  */
-export const useKitchenRoom = (restaurantId: number, userId: number) => {
+export const useKitchenRoom = (
+    restaurantId: number,
+    userId: number,
+    stationId?: number
+) => {
     const { socket, isConnected } = useSocket()
 
     useEffect(() => {
         if (!socket || !isConnected || !restaurantId) return
 
+        if (stationId) {
+            const payload: JoinStationPayload = {
+                restaurantId,
+                stationId,
+                userId,
+            }
+            socket.emit(SocketEvents.JOIN_STATION, payload, () =>
+                scheduleReplay(socket, restaurantId)
+            )
+
+            return () => {
+                socket.emit(SocketEvents.LEAVE_STATION, { stationId })
+            }
+        }
+
         const payload: JoinKitchenPayload = { restaurantId, userId }
-        socket.emit(SocketEvents.JOIN_KITCHEN, payload)
+        socket.emit(SocketEvents.JOIN_KITCHEN, payload, () =>
+            scheduleReplay(socket, restaurantId)
+        )
 
         return () => {
             // Leave handled by disconnect
         }
-    }, [socket, isConnected, restaurantId, userId])
+    }, [socket, isConnected, restaurantId, userId, stationId])
 
     return { socket, isConnected }
 }
@@ -138,7 +274,9 @@ export const useWaiterRoom = (restaurantId: number, userId: number) => {
         if (!socket || !isConnected || !restaurantId) return
 
         const payload: JoinWaiterPayload = { restaurantId, userId }
-        socket.emit(SocketEvents.JOIN_WAITER, payload)
+        socket.emit(SocketEvents.JOIN_WAITER, payload, () =>
+            scheduleReplay(socket, restaurantId)
+        )
 
         return () => {
             // Leave handled by disconnect
@@ -425,9 +563,14 @@ interface KitchenEvents {
 export const useKitchenEvents = (
     restaurantId: number,
     userId: number,
-    events: KitchenEvents
+    events: KitchenEvents,
+    stationId?: number
 ) => {
-    const { socket, isConnected } = useKitchenRoom(restaurantId, userId)
+    const { socket, isConnected } = useKitchenRoom(
+        restaurantId,
+        userId,
+        stationId
+    )
 
     useEffect(() => {
         if (!socket || !isConnected) return
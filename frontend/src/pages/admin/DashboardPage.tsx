@@ -22,6 +22,7 @@ import { motion } from 'framer-motion'
 import { reportsApi } from '../../services/api'
 import { orderService } from '../../services/order.service'
 import { authService } from '../../services/auth.service'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
 import type { OrderStatus } from '@aerodine/shared-types'
 
 interface KPICardProps {
@@ -157,9 +158,11 @@ export default function DashboardPage() {
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
 
+    const { restaurantId } = useRestaurantContext()
+
     useEffect(() => {
         initializeAndFetchData()
-    }, [])
+    }, [restaurantId])
 
     const initializeAndFetchData = async () => {
         try {
@@ -184,12 +187,14 @@ export default function DashboardPage() {
     }
 
     const fetchDashboardData = async () => {
+        // Wait until the logged-in admin's restaurant is known
+        if (!restaurantId) return
         try {
             // Fetch stats, revenue chart, and recent orders in parallel
             const [statsData, revenueData, ordersData] = await Promise.all([
-                reportsApi.getDashboardStats(),
-                reportsApi.getRevenueChart('week'),
-                orderService.getOrders({ restaurantId: 2 }), // TODO: Get restaurantId from context/auth - TEMP: using 2 to match database
+                reportsApi.getDashboardStats({ restaurantId }),
+                reportsApi.getRevenueChart({ range: 'week', restaurantId }),
+                orderService.getOrders({ restaurantId }),
             ])
 
             setStats(statsData)
@@ -0,0 +1,919 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+    Plus,
+    Trash2,
+    Package,
+    AlertTriangle,
+    ArrowDownToLine,
+    ArrowUpFromLine,
+    SlidersHorizontal,
+    X,
+    ChefHat,
+    Save,
+} from 'lucide-react'
+import { motion } from 'framer-motion'
+import {
+    inventoryApi,
+    type CreateIngredientDto,
+    type CreateStockMovementDto,
+    type RecipeLine,
+} from '../../services/api'
+import { StockMovementType } from '@aerodine/shared-types'
+import type {
+    Ingredient,
+    MenuItemCosting,
+    NotificationEvent,
+} from '@aerodine/shared-types'
+import { useModal } from '../../contexts/ModalContext'
+import { useRestaurantRoom, useNotification } from '../../hooks/useSocket'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
+import { formatVND } from '../../utils/currency'
+import { errorMessage } from '../../utils/errorMessage'
+
+type ManualMovementType = CreateStockMovementDto['type']
+
+const movementConfig: Record<
+    ManualMovementType,
+    { label: string; hint: string; icon: typeof ArrowDownToLine }
+> = {
+    [StockMovementType.PURCHASE]: {
+        label: 'Receive',
+        hint: 'Amount delivered',
+        icon: ArrowDownToLine,
+    },
+    [StockMovementType.WASTE]: {
+        label: 'Waste',
+        hint: 'Amount thrown away',
+        icon: ArrowUpFromLine,
+    },
+    [StockMovementType.ADJUSTMENT]: {
+        label: 'Adjust',
+        hint: 'Correction after a stock count (negative to reduce)',
+        icon: SlidersHorizontal,
+    },
+}
+
+const formatQty = (value: number | string) =>
+    Number(value).toLocaleString(undefined, { maximumFractionDigits: 3 })
+
+type RecipeOption = {
+    id: number
+    name: string
+    ingredients: { ingredientId: number; quantity: string }[]
+}
+
+type RecipeDetail = {
+    menuItemId: number
+    name: string
+    ingredients: { ingredientId: number; quantity: string }[]
+    modifierGroups: { id: number; name: string; options: RecipeOption[] }[]
+}
+
+export default function InventoryPage() {
+    const [ingredients, setIngredients] = useState<Ingredient[]>([])
+    const [costing, setCosting] = useState<MenuItemCosting[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [alerts, setAlerts] = useState<NotificationEvent[]>([])
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false)
+    const [movement, setMovement] = useState<{
+        ingredient: Ingredient
+        type: ManualMovementType
+    } | null>(null)
+    const [recipeItemId, setRecipeItemId] = useState<number | null>(null)
+    const { confirm, alert } = useModal()
+    const { restaurantId, user } = useRestaurantContext()
+
+    useRestaurantRoom(restaurantId || 0, user?.id)
+
+    const fetchData = useCallback(async () => {
+        if (!restaurantId) return
+        try {
+            setError(null)
+            const [ingredientsData, costingData] = await Promise.all([
+                inventoryApi.getIngredients(restaurantId),
+                inventoryApi.getCosting(restaurantId),
+            ])
+            setIngredients(ingredientsData)
+            setCosting(costingData)
+        } catch (err) {
+            setError(`Unable to load inventory: ${errorMessage(err)}`)
+        } finally {
+            setLoading(false)
+        }
+    }, [restaurantId])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    // Low-stock alerts are pushed to admins while orders are paid
+    const handleNotification = useCallback(
+        (event: NotificationEvent) => {
+            if (!event.id.startsWith('low-stock-')) return
+            setAlerts((prev) => [event, ...prev].slice(0, 5))
+            fetchData()
+        },
+        [fetchData]
+    )
+    useNotification(handleNotification)
+
+    const handleCreate = async (
+        data: Omit<CreateIngredientDto, 'restaurantId'>
+    ) => {
+        if (!restaurantId) return
+        try {
+            await inventoryApi.createIngredient({ ...data, restaurantId })
+            setIsAddModalOpen(false)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to create ingredient: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleMovement = async (data: CreateStockMovementDto) => {
+        if (!movement) return
+        try {
+            await inventoryApi.recordMovement(movement.ingredient.id, data)
+            setMovement(null)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to record movement: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleDelete = async (ingredient: Ingredient) => {
+        const confirmed = await confirm({
+            title: 'Delete Ingredient',
+            message: `Delete ${ingredient.name}? It will be removed from every recipe.`,
+            type: 'warning',
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+
+        try {
+            await inventoryApi.deleteIngredient(ingredient.id)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to delete ingredient: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const lowStockCount = ingredients.filter((i) => i.isLowStock).length
+
+    return (
+        <div className="p-6 lg:p-8 space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-semibold text-slate-900">
+                        Inventory
+                    </h1>
+                    <p className="text-sm text-slate-500 mt-1">
+                        Ingredient stock, recipes and food cost
+                    </p>
+                </div>
+                <button
+                    onClick={() => setIsAddModalOpen(true)}
+                    disabled={!restaurantId}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md disabled:opacity-50"
+                >
+                    <Plus size={20} />
+                    Add Ingredient
+                </button>
+            </div>
+
+            {/* Live alerts */}
+            {alerts.map((event) => (
+                <div
+                    key={event.id}
+                    className={`flex items-center justify-between gap-3 px-4 py-3 rounded-lg border ${
+                        event.type === 'error'
+                            ? 'bg-red-50 border-red-200 text-red-700'
+                            : 'bg-amber-50 border-amber-200 text-amber-700'
+                    }`}
+                >
+                    <div className="flex items-center gap-2 text-sm">
+                        <AlertTriangle size={16} />
+                        <span className="font-medium">{event.title}:</span>
+                        <span>{event.message}</span>
+                    </div>
+                    <button
+                        onClick={() =>
+                            setAlerts((prev) =>
+                                prev.filter((a) => a.id !== event.id)
+                            )
+                        }
+                        className="p-1 hover:bg-white/60 rounded"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            ))}
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Ingredients */}
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                        <Package size={20} className="text-slate-500" />
+                        Ingredients
+                    </h2>
+                    {lowStockCount > 0 && (
+                        <span className="px-2 py-1 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+                            {lowStockCount} low
+                        </span>
+                    )}
+                </div>
+                {loading ? (
+                    <p className="p-6 text-sm text-slate-500">Loading...</p>
+                ) : ingredients.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500">
+                        No ingredients yet
+                    </p>
+                ) : (
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Name
+                                </th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                    Stock
+                                </th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                    Low at
+                                </th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                    Cost / unit
+                                </th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                    Recipes
+                                </th>
+                                <th className="px-6 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {ingredients.map((ingredient) => (
+                                <tr key={ingredient.id}>
+                                    <td className="px-6 py-3 text-sm font-medium text-slate-900">
+                                        {ingredient.name}
+                                    </td>
+                                    <td
+                                        className={`px-6 py-3 text-sm text-right font-medium ${
+                                            ingredient.isLowStock
+                                                ? 'text-red-600'
+                                                : 'text-slate-700'
+                                        }`}
+                                    >
+                                        {formatQty(ingredient.stockQuantity)}{' '}
+                                        {ingredient.unit}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-right text-slate-500">
+                                        {formatQty(ingredient.lowStockThreshold)}{' '}
+                                        {ingredient.unit}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-right text-slate-500">
+                                        {formatVND(ingredient.costPerUnit)}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-right text-slate-500">
+                                        {ingredient._count?.recipes ?? 0}
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <div className="flex justify-end gap-1">
+                                            {(
+                                                Object.keys(
+                                                    movementConfig
+                                                ) as ManualMovementType[]
+                                            ).map((type) => {
+                                                const Icon =
+                                                    movementConfig[type].icon
+                                                return (
+                                                    <button
+                                                        key={type}
+                                                        onClick={() =>
+                                                            setMovement({
+                                                                ingredient,
+                                                                type,
+                                                            })
+                                                        }
+                                                        className="p-2 text-slate-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                                        title={
+                                                            movementConfig[type]
+                                                                .label
+                                                        }
+                                                    >
+                                                        <Icon size={16} />
+                                                    </button>
+                                                )
+                                            })}
+                                            <button
+                                                onClick={() =>
+                                                    handleDelete(ingredient)
+                                                }
+                                                className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Recipe costing */}
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                        <ChefHat size={20} className="text-slate-500" />
+                        Recipes & Food Cost
+                    </h2>
+                </div>
+                <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                Menu item
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                Price
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                Food cost
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
+                                Margin
+                            </th>
+                            <th className="px-6 py-3" />
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {costing.map((item) => (
+                            <tr key={item.menuItemId}>
+                                <td className="px-6 py-3 text-sm text-slate-900">
+                                    <span className="font-medium">
+                                        {item.name}
+                                    </span>
+                                    {item.status === 'SOLD_OUT' && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded-full">
+                                            Sold out
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="px-6 py-3 text-sm text-right text-slate-700">
+                                    {formatVND(item.basePrice)}
+                                </td>
+                                <td className="px-6 py-3 text-sm text-right text-slate-700">
+                                    {item.hasRecipe
+                                        ? `${formatVND(item.foodCost)}${
+                                              item.foodCostPercent !== null
+                                                  ? ` (${item.foodCostPercent}%)`
+                                                  : ''
+                                          }`
+                                        : '—'}
+                                </td>
+                                <td className="px-6 py-3 text-sm text-right text-slate-700">
+                                    {item.hasRecipe
+                                        ? formatVND(item.margin)
+                                        : '—'}
+                                </td>
+                                <td className="px-6 py-3 text-right">
+                                    <button
+                                        onClick={() =>
+                                            setRecipeItemId(item.menuItemId)
+                                        }
+                                        className="px-3 py-1 text-sm text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                    >
+                                        {item.hasRecipe
+                                            ? 'Edit recipe'
+                                            : 'Add recipe'}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {isAddModalOpen && (
+                <IngredientModal
+                    onClose={() => setIsAddModalOpen(false)}
+                    onSave={handleCreate}
+                />
+            )}
+
+            {movement && (
+                <MovementModal
+                    ingredient={movement.ingredient}
+                    type={movement.type}
+                    onClose={() => setMovement(null)}
+                    onSave={handleMovement}
+                />
+            )}
+
+            {recipeItemId !== null && (
+                <RecipeModal
+                    menuItemId={recipeItemId}
+                    ingredients={ingredients}
+                    onClose={() => setRecipeItemId(null)}
+                    onSaved={() => {
+                        setRecipeItemId(null)
+                        fetchData()
+                    }}
+                />
+            )}
+        </div>
+    )
+}
+
+function ModalShell({
+    title,
+    onClose,
+    children,
+}: {
+    title: string
+    onClose: () => void
+    children: React.ReactNode
+}) {
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        {title}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+                {children}
+            </motion.div>
+        </div>
+    )
+}
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+function IngredientModal({
+    onClose,
+    onSave,
+}: {
+    onClose: () => void
+    onSave: (data: Omit<CreateIngredientDto, 'restaurantId'>) => void
+}) {
+    const [name, setName] = useState('')
+    const [unit, setUnit] = useState('g')
+    const [stockQuantity, setStockQuantity] = useState('0')
+    const [lowStockThreshold, setLowStockThreshold] = useState('0')
+    const [costPerUnit, setCostPerUnit] = useState('0')
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        onSave({
+            name: name.trim(),
+            unit: unit.trim(),
+            stockQuantity: Number(stockQuantity) || 0,
+            lowStockThreshold: Number(lowStockThreshold) || 0,
+            costPerUnit: Number(costPerUnit) || 0,
+        })
+    }
+
+    return (
+        <ModalShell title="New Ingredient" onClose={onClose}>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Name <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className={inputClass}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Unit <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={unit}
+                            onChange={(e) => setUnit(e.target.value)}
+                            className={inputClass}
+                            required
+                        />
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Opening stock
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={stockQuantity}
+                            onChange={(e) => setStockQuantity(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Low at
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={lowStockThreshold}
+                            onChange={(e) =>
+                                setLowStockThreshold(e.target.value)
+                            }
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Cost / unit
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={costPerUnit}
+                            onChange={(e) => setCostPerUnit(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <ModalActions onClose={onClose} submitLabel="Create" />
+            </form>
+        </ModalShell>
+    )
+}
+
+function MovementModal({
+    ingredient,
+    type,
+    onClose,
+    onSave,
+}: {
+    ingredient: Ingredient
+    type: ManualMovementType
+    onClose: () => void
+    onSave: (data: CreateStockMovementDto) => void
+}) {
+    const [quantity, setQuantity] = useState('')
+    const [note, setNote] = useState('')
+    const config = movementConfig[type]
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        const value = Number(quantity)
+        if (!value) return
+        onSave({ type, quantity: value, note: note.trim() || undefined })
+    }
+
+    return (
+        <ModalShell
+            title={`${config.label}: ${ingredient.name}`}
+            onClose={onClose}
+        >
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <p className="text-sm text-slate-500">
+                    In stock: {formatQty(ingredient.stockQuantity)}{' '}
+                    {ingredient.unit}
+                </p>
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                        {config.hint} ({ingredient.unit})
+                    </label>
+                    <input
+                        type="number"
+                        step="any"
+                        min={
+                            type === StockMovementType.ADJUSTMENT
+                                ? undefined
+                                : '0'
+                        }
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        className={inputClass}
+                        required
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Note
+                    </label>
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        className={inputClass}
+                    />
+                </div>
+                <ModalActions onClose={onClose} submitLabel="Save" />
+            </form>
+        </ModalShell>
+    )
+}
+
+function RecipeModal({
+    menuItemId,
+    ingredients,
+    onClose,
+    onSaved,
+}: {
+    menuItemId: number
+    ingredients: Ingredient[]
+    onClose: () => void
+    onSaved: () => void
+}) {
+    const { alert } = useModal()
+    const [recipe, setRecipe] = useState<RecipeDetail | null>(null)
+    const [lines, setLines] = useState<RecipeLine[]>([])
+    const [optionLines, setOptionLines] = useState<
+        Record<number, RecipeLine[]>
+    >({})
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        inventoryApi
+            .getRecipe(menuItemId)
+            .then((data: RecipeDetail) => {
+                setRecipe(data)
+                setLines(toLines(data.ingredients))
+                const byOption: Record<number, RecipeLine[]> = {}
+                for (const group of data.modifierGroups) {
+                    for (const option of group.options) {
+                        byOption[option.id] = toLines(option.ingredients)
+                    }
+                }
+                setOptionLines(byOption)
+            })
+            .catch(async (err) => {
+                await alert({
+                    title: 'Error',
+                    message: `Unable to load recipe: ${errorMessage(err)}`,
+                    type: 'error',
+                })
+                onClose()
+            })
+    }, [menuItemId])
+
+    const handleSave = async () => {
+        if (!recipe) return
+        setSaving(true)
+        try {
+            await inventoryApi.setRecipe(
+                menuItemId,
+                lines.filter((l) => l.ingredientId && l.quantity > 0)
+            )
+            for (const group of recipe.modifierGroups) {
+                for (const option of group.options) {
+                    const next = (optionLines[option.id] ?? []).filter(
+                        (l) => l.ingredientId && l.quantity !== 0
+                    )
+                    // Only touch options whose adjustments were edited
+                    if (
+                        JSON.stringify(next) !==
+                        JSON.stringify(toLines(option.ingredients))
+                    ) {
+                        await inventoryApi.setModifierIngredients(
+                            option.id,
+                            next
+                        )
+                    }
+                }
+            }
+            onSaved()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to save recipe: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <ModalShell
+            title={recipe ? `Recipe: ${recipe.name}` : 'Recipe'}
+            onClose={onClose}
+        >
+            {!recipe ? (
+                <p className="p-6 text-sm text-slate-500">Loading...</p>
+            ) : (
+                <div className="p-6 space-y-6">
+                    <div>
+                        <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                            Per portion
+                        </h3>
+                        <LinesEditor
+                            lines={lines}
+                            ingredients={ingredients}
+                            onChange={setLines}
+                        />
+                    </div>
+
+                    {recipe.modifierGroups.map((group) => (
+                        <div key={group.id}>
+                            <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                                {group.name}
+                            </h3>
+                            <div className="space-y-3">
+                                {group.options.map((option) => (
+                                    <div key={option.id}>
+                                        <p className="text-xs text-slate-500 mb-1">
+                                            {option.name} (negative removes)
+                                        </p>
+                                        <LinesEditor
+                                            lines={optionLines[option.id] ?? []}
+                                            ingredients={ingredients}
+                                            allowNegative
+                                            onChange={(next) =>
+                                                setOptionLines((prev) => ({
+                                                    ...prev,
+                                                    [option.id]: next,
+                                                }))
+                                            }
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                        >
+                            <Save size={16} />
+                            {saving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </ModalShell>
+    )
+}
+
+const toLines = (
+    rows: { ingredientId: number; quantity: string | number }[]
+): RecipeLine[] =>
+    rows.map((row) => ({
+        ingredientId: row.ingredientId,
+        quantity: Number(row.quantity),
+    }))
+
+function LinesEditor({
+    lines,
+    ingredients,
+    allowNegative = false,
+    onChange,
+}: {
+    lines: RecipeLine[]
+    ingredients: Ingredient[]
+    allowNegative?: boolean
+    onChange: (lines: RecipeLine[]) => void
+}) {
+    const update = (index: number, patch: Partial<RecipeLine>) =>
+        onChange(lines.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+
+    return (
+        <div className="space-y-2">
+            {lines.map((line, index) => {
+                const unit = ingredients.find(
+                    (i) => i.id === line.ingredientId
+                )?.unit
+                return (
+                    <div key={index} className="flex items-center gap-2">
+                        <select
+                            value={line.ingredientId || ''}
+                            onChange={(e) =>
+                                update(index, {
+                                    ingredientId: Number(e.target.value),
+                                })
+                            }
+                            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                            <option value="">Select ingredient</option>
+                            {ingredients.map((ingredient) => (
+                                <option key={ingredient.id} value={ingredient.id}>
+                                    {ingredient.name}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            step="any"
+                            min={allowNegative ? undefined : '0'}
+                            value={line.quantity}
+                            onChange={(e) =>
+                                update(index, {
+                                    quantity: Number(e.target.value),
+                                })
+                            }
+                            className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                        <span className="w-8 text-xs text-slate-500">
+                            {unit}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() =>
+                                onChange(lines.filter((_, i) => i !== index))
+                            }
+                            className="p-2 text-slate-400 hover:text-red-600"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                )
+            })}
+            <button
+                type="button"
+                onClick={() =>
+                    onChange([...lines, { ingredientId: 0, quantity: 0 }])
+                }
+                className="flex items-center gap-1 text-sm text-amber-600 hover:text-amber-700"
+            >
+                <Plus size={14} />
+                Add ingredient
+            </button>
+        </div>
+    )
+}
+
+function ModalActions({
+    onClose,
+    submitLabel,
+}: {
+    onClose: () => void
+    submitLabel: string
+}) {
+    return (
+        <div className="flex gap-3 pt-4">
+            <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+                Cancel
+            </button>
+            <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+            >
+                {submitLabel}
+            </button>
+        </div>
+    )
+}
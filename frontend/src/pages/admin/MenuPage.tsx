@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import {
     Search,
     Plus,
@@ -7,12 +7,16 @@ import {
     ChevronLeft,
     ChevronRight,
     X,
+    Flame,
+    Clock,
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import Fuse from 'fuse.js'
-import { menusApi, tablesApi } from '../../services/api'
+import { menusApi, type KitchenStation } from '../../services/api'
 import { authService } from '../../services/auth.service'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
 import { useModal } from '../../contexts/ModalContext'
+import type { AvailabilityWindow } from '@aerodine/shared-types'
 
 interface MenuItem {
     id: number
@@ -23,6 +27,7 @@ interface MenuItem {
     basePrice: string | number // Prisma Decimal is serialized as string
     status: 'AVAILABLE' | 'SOLD_OUT' | 'HIDDEN' // ItemStatus enum from Prisma
     isChefRecommendation?: boolean
+    stationId?: number | null // Overrides the category station on the KDS
     createdAt?: string | Date
     updatedAt?: string | Date
     images?: Array<{
@@ -43,6 +48,8 @@ interface MenuItem {
             name: string
         }
     }>
+    availabilityWindows?: AvailabilityWindow[]
+    isOnSchedule?: boolean // Day-part schedule open at the preview time
 }
 
 interface Category {
@@ -51,6 +58,8 @@ interface Category {
     name: string
     description?: string
     displayOrder?: number
+    stationId?: number | null
+    availabilityWindows?: AvailabilityWindow[]
 }
 
 type SortBy = 'price-high' | 'price-low' | 'name' | 'none'
@@ -69,9 +78,14 @@ export default function MenuPage() {
     const [items, setItems] = useState<MenuItem[]>([])
     const [categories, setCategories] = useState<Category[]>([])
     const [modifierGroups, setModifierGroups] = useState<Array<{ id: number; name: string }>>([])
+    const [stations, setStations] = useState<KitchenStation[]>([])
+    const [isStationsModalOpen, setIsStationsModalOpen] = useState(false)
+    const [isDayPartsModalOpen, setIsDayPartsModalOpen] = useState(false)
+    // Local datetime to evaluate day-part schedules at; empty = now
+    const [previewAt, setPreviewAt] = useState('')
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
-    const [restaurantId, setRestaurantId] = useState<number | null>(null)
+    const { restaurantId } = useRestaurantContext()
     const [isAddModalOpen, setIsAddModalOpen] = useState(false)
     const [isEditModalOpen, setIsEditModalOpen] = useState(false)
     const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null)
@@ -79,7 +93,20 @@ export default function MenuPage() {
     useEffect(() => {
         initializeAndFetchData()
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []) // Only run once on mount
+    }, [restaurantId]) // Re-run once the restaurant context resolves
+
+    // Refetch without the page spinner when the preview time changes
+    const previewInitialized = useRef(false)
+    useEffect(() => {
+        if (!previewInitialized.current) {
+            previewInitialized.current = true
+            return
+        }
+        if (restaurantId) {
+            fetchData(restaurantId).catch(() => {})
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [previewAt])
 
     const initializeAndFetchData = async () => {
         try {
@@ -95,30 +122,8 @@ export default function MenuPage() {
                 }
             }
 
-            // Get restaurant ID from tables (first table's restaurantId)
-            // If no tables found, use fallback restaurantId = 2 (matches current database)
-            if (!restaurantId) {
-                try {
-                    const tables = await tablesApi.getTables()
-                    if (
-                        tables &&
-                        Array.isArray(tables) &&
-                        tables.length > 0 &&
-                        tables[0].restaurantId
-                    ) {
-                        const firstRestaurantId = tables[0].restaurantId
-                        setRestaurantId(firstRestaurantId)
-                        await fetchData(firstRestaurantId)
-                    } else {
-                        // Fallback: use restaurantId = 2 (matches current database)
-                        setRestaurantId(2)
-                        await fetchData(2)
-                    }
-                } catch (tableError) {
-                    setRestaurantId(2)
-                    await fetchData(2)
-                }
-            } else {
+            // Restaurant comes from the logged-in admin's assignment
+            if (restaurantId) {
                 await fetchData(restaurantId)
             }
         } catch (err: any) {
@@ -144,10 +149,15 @@ export default function MenuPage() {
         }
 
         try {
-            const [menuItemsData, categoriesData, modifierGroupsData] = await Promise.all([
-                menusApi.getMenuItems(targetRestaurantId),
+            const [menuItemsData, categoriesData, modifierGroupsData, stationsData] = await Promise.all([
+                // Admins see the whole menu; off-schedule items are flagged
+                menusApi.getMenuItems(targetRestaurantId, undefined, undefined, {
+                    includeUnscheduled: true,
+                    at: previewAt ? new Date(previewAt).toISOString() : undefined,
+                }),
                 menusApi.getCategories(targetRestaurantId),
                 menusApi.getModifierGroups(targetRestaurantId),
+                menusApi.getStations(targetRestaurantId),
             ])
 
             // Ensure we're setting arrays
@@ -162,6 +172,7 @@ export default function MenuPage() {
             setItems(itemsArray)
             setCategories(categoriesArray)
             setModifierGroups(modifierGroupsArray)
+            setStations(Array.isArray(stationsData) ? stationsData : [])
         } catch (err: any) {
             if (err.response?.status === 401) {
                 setError('Authentication required. Please login.')
@@ -316,6 +327,8 @@ export default function MenuPage() {
         image?: string
         modifierGroupIds?: number[]
         isChefRecommendation?: boolean
+        stationId: number | null
+        availability: AvailabilityWindow[]
     }) => {
         try {
             if (!restaurantId) {
@@ -338,6 +351,8 @@ export default function MenuPage() {
                     image: formData.image,
                     modifierGroupIds: formData.modifierGroupIds,
                     isChefRecommendation: formData.isChefRecommendation,
+                    stationId: formData.stationId,
+                    availability: formData.availability,
                 })
             } else {
                 // Create new item
@@ -351,6 +366,8 @@ export default function MenuPage() {
                     image: formData.image,
                     modifierGroupIds: formData.modifierGroupIds,
                     isChefRecommendation: formData.isChefRecommendation,
+                    stationId: formData.stationId,
+                    availability: formData.availability,
                 })
             }
 
@@ -412,13 +429,29 @@ export default function MenuPage() {
                         Manage your restaurant menu items
                     </p>
                 </div>
-                <button
-                    onClick={handleAddItem}
-                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
-                >
-                    <Plus size={20} />
-                    Add item
-                </button>
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => setIsStationsModalOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg font-medium transition-colors shadow-sm"
+                    >
+                        <Flame size={20} />
+                        Kitchen stations
+                    </button>
+                    <button
+                        onClick={() => setIsDayPartsModalOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg font-medium transition-colors shadow-sm"
+                    >
+                        <Clock size={20} />
+                        Day-parts
+                    </button>
+                    <button
+                        onClick={handleAddItem}
+                        className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
+                    >
+                        <Plus size={20} />
+                        Add item
+                    </button>
+                </div>
             </div>
 
             {/* Error Message */}
@@ -489,6 +522,26 @@ export default function MenuPage() {
                     <option value="price-high">Sort by: Price (High)</option>
                     <option value="price-low">Sort by: Price (Low)</option>
                 </select>
+
+                {/* Schedule preview */}
+                <div className="flex items-center gap-2">
+                    <input
+                        type="datetime-local"
+                        value={previewAt}
+                        onChange={(e) => setPreviewAt(e.target.value)}
+                        title="Preview the menu at this time"
+                        className="px-4 py-2 bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent text-base text-slate-900"
+                    />
+                    {previewAt && (
+                        <button
+                            onClick={() => setPreviewAt('')}
+                            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                            title="Back to now"
+                        >
+                            <X size={20} className="text-slate-600" />
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* Grid Layout */}
@@ -507,7 +560,9 @@ export default function MenuPage() {
                             key={item.id}
                             initial={{ opacity: 0, y: 20 }}
                             animate={{ opacity: 1, y: 0 }}
-                            className="bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+                            className={`bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow ${
+                                item.isOnSchedule === false ? 'opacity-60' : ''
+                            }`}
                         >
                             {/* Image/Icon Section */}
                             <div className="h-32 bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center">
@@ -555,6 +610,15 @@ export default function MenuPage() {
                                     {item.category?.name || 'Uncategorized'}
                                 </p>
 
+                                {item.isOnSchedule === false && (
+                                    <p className="flex items-center gap-1 text-sm font-medium text-amber-600">
+                                        <Clock size={14} />
+                                        {previewAt
+                                            ? 'Off menu at the preview time'
+                                            : 'Off menu at this time'}
+                                    </p>
+                                )}
+
                                 {/* Description */}
                                 {item.description && (
                                     <p className="text-base text-slate-600 line-clamp-2">
@@ -661,12 +725,491 @@ export default function MenuPage() {
                     item={selectedItem}
                     categories={categories}
                     modifierGroups={modifierGroups}
+                    stations={stations}
+                />
+            )}
+
+            {/* Kitchen Stations Modal */}
+            {isStationsModalOpen && restaurantId && (
+                <KitchenStationsModal
+                    restaurantId={restaurantId}
+                    stations={stations}
+                    categories={categories}
+                    onClose={() => setIsStationsModalOpen(false)}
+                    onChanged={() => fetchData(restaurantId)}
+                />
+            )}
+
+            {/* Day-parts Modal */}
+            {isDayPartsModalOpen && (
+                <DayPartsModal
+                    categories={categories}
+                    onClose={() => setIsDayPartsModalOpen(false)}
+                    onChanged={() => fetchData(restaurantId ?? undefined)}
                 />
             )}
         </div>
     )
 }
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Dates come back as ISO date-times; the inputs want YYYY-MM-DD
+const toDateInput = (value?: Date | string | null) =>
+    value ? new Date(value).toISOString().slice(0, 10) : ''
+
+const toEditableWindows = (windows?: AvailabilityWindow[]) =>
+    (windows || []).map((window) => ({
+        daysOfWeek: window.daysOfWeek,
+        startTime: window.startTime || null,
+        endTime: window.endTime || null,
+        startDate: toDateInput(window.startDate) || null,
+        endDate: toDateInput(window.endDate) || null,
+    }))
+
+// Availability Editor Component
+// A menu item or category is on the menu while any of its windows is open;
+// no windows means it is always on the menu
+function AvailabilityEditor({
+    windows,
+    onChange,
+}: {
+    windows: AvailabilityWindow[]
+    onChange: (windows: AvailabilityWindow[]) => void
+}) {
+    const updateWindow = (index: number, patch: Partial<AvailabilityWindow>) =>
+        onChange(
+            windows.map((window, i) =>
+                i === index ? { ...window, ...patch } : window
+            )
+        )
+
+    const toggleDay = (index: number, day: number) => {
+        const days = windows[index].daysOfWeek
+        updateWindow(index, {
+            daysOfWeek: days.includes(day)
+                ? days.filter((d) => d !== day)
+                : [...days, day].sort((a, b) => a - b),
+        })
+    }
+
+    return (
+        <div className="space-y-3">
+            {windows.length === 0 && (
+                <p className="text-sm text-slate-500">
+                    No schedule: always on the menu.
+                </p>
+            )}
+            {windows.map((window, index) => (
+                <div
+                    key={index}
+                    className="p-3 border border-slate-200 rounded-lg space-y-3"
+                >
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex flex-wrap gap-1">
+                            {WEEKDAYS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => toggleDay(index, day)}
+                                    className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                        window.daysOfWeek.includes(day)
+                                            ? 'bg-amber-500 text-white'
+                                            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() =>
+                                onChange(windows.filter((_, i) => i !== index))
+                            }
+                            className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                            <Trash2 size={16} className="text-red-600" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs text-slate-500">
+                            From
+                            <input
+                                type="time"
+                                value={window.startTime || ''}
+                                onChange={(e) =>
+                                    updateWindow(index, {
+                                        startTime: e.target.value || null,
+                                    })
+                                }
+                                className="w-full mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900"
+                            />
+                        </label>
+                        <label className="text-xs text-slate-500">
+                            Until
+                            <input
+                                type="time"
+                                value={window.endTime || ''}
+                                onChange={(e) =>
+                                    updateWindow(index, {
+                                        endTime: e.target.value || null,
+                                    })
+                                }
+                                className="w-full mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900"
+                            />
+                        </label>
+                        <label className="text-xs text-slate-500">
+                            First day
+                            <input
+                                type="date"
+                                value={toDateInput(window.startDate)}
+                                onChange={(e) =>
+                                    updateWindow(index, {
+                                        startDate: e.target.value || null,
+                                    })
+                                }
+                                className="w-full mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900"
+                            />
+                        </label>
+                        <label className="text-xs text-slate-500">
+                            Last day
+                            <input
+                                type="date"
+                                value={toDateInput(window.endDate)}
+                                onChange={(e) =>
+                                    updateWindow(index, {
+                                        endDate: e.target.value || null,
+                                    })
+                                }
+                                className="w-full mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900"
+                            />
+                        </label>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                        No days selected = every day. An end time before the
+                        start time runs past midnight.
+                    </p>
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={() =>
+                    onChange([
+                        ...windows,
+                        { daysOfWeek: [], startTime: null, endTime: null },
+                    ])
+                }
+                className="flex items-center gap-1 text-sm font-medium text-amber-600 hover:text-amber-700"
+            >
+                <Plus size={16} />
+                Add window
+            </button>
+        </div>
+    )
+}
+
+// Day-parts Modal Component
+// Category schedules (e.g. breakfast, lunch, happy hour) apply to every item
+// in the category on top of the item's own schedule
+function DayPartsModal({
+    categories,
+    onClose,
+    onChanged,
+}: {
+    categories: Category[]
+    onClose: () => void
+    onChanged: () => Promise<void>
+}) {
+    const { alert } = useModal()
+    const [categoryId, setCategoryId] = useState<number>(categories[0]?.id || 0)
+    const [windows, setWindows] = useState<AvailabilityWindow[]>([])
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        const category = categories.find((cat) => cat.id === categoryId)
+        setWindows(toEditableWindows(category?.availabilityWindows))
+    }, [categoryId, categories])
+
+    const handleSave = async () => {
+        if (!categoryId) return
+        setSaving(true)
+        try {
+            await menusApi.updateCategory(categoryId, { availability: windows })
+            await onChanged()
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to save schedule: ${
+                    err.response?.data?.message ||
+                    err.message ||
+                    'Unknown error'
+                }`,
+                type: 'error',
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Day-parts
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Category
+                        </label>
+                        <select
+                            value={categoryId}
+                            onChange={(e) => setCategoryId(Number(e.target.value))}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                            {categories.map((category) => (
+                                <option key={category.id} value={category.id}>
+                                    {category.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <AvailabilityEditor windows={windows} onChange={setWindows} />
+
+                    <div className="flex justify-end gap-3 pt-4 border-t border-slate-200">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Close
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || !categoryId}
+                            className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:opacity-50 transition-colors"
+                        >
+                            Save schedule
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
+
+// Kitchen Stations Modal Component
+// Stations receive the items routed to them on the KDS; each category has a
+// default station that single menu items can override
+function KitchenStationsModal({
+    restaurantId,
+    stations,
+    categories,
+    onClose,
+    onChanged,
+}: {
+    restaurantId: number
+    stations: KitchenStation[]
+    categories: Category[]
+    onClose: () => void
+    onChanged: () => Promise<void>
+}) {
+    const { confirm, alert } = useModal()
+    const [newStationName, setNewStationName] = useState('')
+    const [saving, setSaving] = useState(false)
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setSaving(true)
+        try {
+            await action()
+            await onChanged()
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to update kitchen stations: ${
+                    err.response?.data?.message ||
+                    err.message ||
+                    'Unknown error'
+                }`,
+                type: 'error',
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleAddStation = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const name = newStationName.trim()
+        if (!name) return
+        await runAction(() =>
+            menusApi.createStation({
+                restaurantId,
+                name,
+                rank: stations.length + 1,
+            })
+        )
+        setNewStationName('')
+    }
+
+    const handleDeleteStation = async (station: KitchenStation) => {
+        const confirmed = await confirm({
+            title: 'Delete Kitchen Station',
+            message: `Delete station "${station.name}"? Its categories and items will no longer be routed to a station.`,
+            type: 'warning',
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+        await runAction(() => menusApi.deleteStation(station.id))
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Kitchen Stations
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {/* Stations */}
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 mb-2">
+                            Stations
+                        </h3>
+                        <div className="space-y-2 mb-3">
+                            {stations.length === 0 ? (
+                                <p className="text-sm text-slate-500">
+                                    No stations yet. Every item shows on all KDS screens.
+                                </p>
+                            ) : (
+                                stations.map((station) => (
+                                    <div
+                                        key={station.id}
+                                        className="flex items-center justify-between gap-3 px-3 py-2 border border-slate-200 rounded-lg"
+                                    >
+                                        <span className="font-medium text-slate-900">
+                                            {station.name}
+                                        </span>
+                                        <div className="flex items-center gap-3">
+                                            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={station.isActive}
+                                                    disabled={saving}
+                                                    onChange={(e) =>
+                                                        runAction(() =>
+                                                            menusApi.updateStation(station.id, {
+                                                                isActive: e.target.checked,
+                                                            })
+                                                        )
+                                                    }
+                                                    className="w-4 h-4 text-amber-500 border-slate-300 rounded focus:ring-amber-500"
+                                                />
+                                                Active
+                                            </label>
+                                            <button
+                                                onClick={() => handleDeleteStation(station)}
+                                                disabled={saving}
+                                                className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                                            >
+                                                <Trash2 size={16} className="text-red-600" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                        <form onSubmit={handleAddStation} className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newStationName}
+                                onChange={(e) => setNewStationName(e.target.value)}
+                                placeholder="e.g. Grill, Wok, Cold, Bar"
+                                className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                            <button
+                                type="submit"
+                                disabled={saving || !newStationName.trim()}
+                                className="flex items-center gap-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:opacity-50 transition-colors"
+                            >
+                                <Plus size={16} />
+                                Add
+                            </button>
+                        </form>
+                    </div>
+
+                    {/* Category routing */}
+                    <div>
+                        <h3 className="text-sm font-medium text-slate-700 mb-2">
+                            Default station per category
+                        </h3>
+                        <div className="space-y-2">
+                            {categories.map((category) => (
+                                <div
+                                    key={category.id}
+                                    className="flex items-center justify-between gap-3"
+                                >
+                                    <span className="text-slate-700">
+                                        {category.name}
+                                    </span>
+                                    <select
+                                        value={category.stationId ?? ''}
+                                        disabled={saving}
+                                        onChange={(e) =>
+                                            runAction(() =>
+                                                menusApi.updateCategory(category.id, {
+                                                    stationId: e.target.value
+                                                        ? Number(e.target.value)
+                                                        : null,
+                                                })
+                                            )
+                                        }
+                                        className="w-48 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                    >
+                                        <option value="">No station</option>
+                                        {stations.map((station) => (
+                                            <option key={station.id} value={station.id}>
+                                                {station.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
+
 // Menu Item Modal Component
 function MenuItemModal({
     isOpen,
@@ -675,6 +1218,7 @@ function MenuItemModal({
     item,
     categories,
     modifierGroups,
+    stations,
 }: {
     isOpen: boolean
     onClose: () => void
@@ -687,10 +1231,13 @@ function MenuItemModal({
         image?: string
         modifierGroupIds?: number[]
         isChefRecommendation?: boolean
+        stationId: number | null
+        availability: AvailabilityWindow[]
     }) => void
     item: MenuItem | null
     categories: Category[]
     modifierGroups: Array<{ id: number; name: string }>
+    stations: KitchenStation[]
 }) {
     const { alert } = useModal()
     const [name, setName] = useState(item?.name || '')
@@ -718,6 +1265,12 @@ function MenuItemModal({
     const [isChefRecommendation, setIsChefRecommendation] = useState<boolean>(
         (item as any)?.isChefRecommendation || false
     )
+    const [stationId, setStationId] = useState<number | null>(
+        item?.stationId ?? null
+    )
+    const [availability, setAvailability] = useState<AvailabilityWindow[]>(
+        toEditableWindows(item?.availabilityWindows)
+    )
 
     useEffect(() => {
         if (item) {
@@ -733,6 +1286,8 @@ function MenuItemModal({
             setImagePreview(item.images && item.images.length > 0 ? item.images[0].url : null)
             setSelectedModifierGroups(item.modifierGroups?.map((mg) => mg.modifierGroup.id) || [])
             setIsChefRecommendation((item as any)?.isChefRecommendation || false)
+            setStationId(item.stationId ?? null)
+            setAvailability(toEditableWindows(item.availabilityWindows))
         } else {
             setName('')
             setDescription('')
@@ -742,6 +1297,8 @@ function MenuItemModal({
             setImagePreview(null)
             setSelectedModifierGroups([])
             setIsChefRecommendation(false)
+            setStationId(null)
+            setAvailability([])
         }
         setSelectedImage(null)
     }, [item, categories])
@@ -867,9 +1424,17 @@ function MenuItemModal({
             image: imageBase64,
             modifierGroupIds: selectedModifierGroups.length > 0 ? selectedModifierGroups : undefined,
             isChefRecommendation,
+            stationId,
+            availability,
         })
     }
 
+    // Station the item goes to when it has no override of its own
+    const categoryStation = stations.find(
+        (station) =>
+            station.id === categories.find((cat) => cat.id === categoryId)?.stationId
+    )
+
     if (!isOpen) return null
 
     return (
@@ -977,6 +1542,43 @@ function MenuItemModal({
                         </select>
                     </div>
 
+                    {/* Kitchen Station */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Kitchen Station
+                        </label>
+                        <select
+                            value={stationId ?? ''}
+                            onChange={(e) =>
+                                setStationId(
+                                    e.target.value ? Number(e.target.value) : null
+                                )
+                            }
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                            <option value="">
+                                Category default
+                                {categoryStation ? ` (${categoryStation.name})` : ''}
+                            </option>
+                            {stations.map((station) => (
+                                <option key={station.id} value={station.id}>
+                                    {station.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Availability */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Availability
+                        </label>
+                        <AvailabilityEditor
+                            windows={availability}
+                            onChange={setAvailability}
+                        />
+                    </div>
+
                     {/* Chef Recommendation */}
                     <div className="flex items-center gap-3">
                         <input
@@ -0,0 +1,597 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2, Edit, Percent, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import {
+    menusApi,
+    pricingApi,
+    type CreatePricingRuleDto,
+} from '../../services/api'
+import { DiscountType } from '@aerodine/shared-types'
+import type { PricingRule } from '@aerodine/shared-types'
+import { useModal } from '../../contexts/ModalContext'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
+import { formatVND } from '../../utils/currency'
+import { errorMessage } from '../../utils/errorMessage'
+
+type RuleForm = Omit<CreatePricingRuleDto, 'restaurantId'>
+
+type Option = { id: number; name: string }
+
+type Scope = 'menu' | 'category' | 'item' | 'modifier'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Dates come back as ISO date-times; the inputs want YYYY-MM-DD
+const toDateInput = (value?: Date | string | null) =>
+    value ? new Date(value).toISOString().slice(0, 10) : ''
+
+const describeDiscount = (rule: PricingRule) =>
+    rule.discountType === DiscountType.PERCENTAGE
+        ? `${Number(rule.value)}% off`
+        : `${formatVND(rule.value)} off`
+
+const describeScope = (rule: PricingRule) =>
+    rule.modifierOption
+        ? `Option: ${rule.modifierOption.name}`
+        : rule.menuItem
+        ? rule.menuItem.name
+        : rule.category
+        ? `Category: ${rule.category.name}`
+        : 'Whole menu'
+
+const describeSchedule = (rule: PricingRule) => {
+    const parts: string[] = []
+    if (rule.daysOfWeek.length > 0) {
+        parts.push(rule.daysOfWeek.map((day) => WEEKDAYS[day]).join(', '))
+    }
+    if (rule.startTime && rule.endTime) {
+        parts.push(`${rule.startTime}–${rule.endTime}`)
+    }
+    if (rule.startDate || rule.endDate) {
+        parts.push(
+            `${toDateInput(rule.startDate) || '…'} to ${
+                toDateInput(rule.endDate) || '…'
+            }`
+        )
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'Always'
+}
+
+export default function PricingPage() {
+    const [rules, setRules] = useState<PricingRule[]>([])
+    const [menuItems, setMenuItems] = useState<Option[]>([])
+    const [categories, setCategories] = useState<Option[]>([])
+    const [modifierOptions, setModifierOptions] = useState<Option[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [editing, setEditing] = useState<PricingRule | 'new' | null>(null)
+    const { confirm, alert } = useModal()
+    const { restaurantId } = useRestaurantContext()
+
+    const fetchData = useCallback(async () => {
+        if (!restaurantId) return
+        try {
+            setError(null)
+            const [rulesData, itemsData, categoriesData, groupsData] =
+                await Promise.all([
+                    pricingApi.getRules(restaurantId),
+                    menusApi.getMenuItems(restaurantId, undefined, 'name', {
+                        includeUnscheduled: true,
+                    }),
+                    menusApi.getCategories(restaurantId),
+                    menusApi.getModifierGroups(restaurantId),
+                ])
+            setRules(rulesData)
+            setMenuItems(itemsData)
+            setCategories(categoriesData)
+            setModifierOptions(
+                groupsData.flatMap((group: any) =>
+                    (group.options || []).map((option: any) => ({
+                        id: option.id,
+                        name: `${group.name}: ${option.name}`,
+                    }))
+                )
+            )
+        } catch (err) {
+            setError(`Unable to load pricing rules: ${errorMessage(err)}`)
+        } finally {
+            setLoading(false)
+        }
+    }, [restaurantId])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    const handleSave = async (data: RuleForm) => {
+        if (!restaurantId || !editing) return
+        try {
+            if (editing === 'new') {
+                await pricingApi.createRule({ ...data, restaurantId })
+            } else {
+                await pricingApi.updateRule(editing.id, data)
+            }
+            setEditing(null)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to save pricing rule: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleToggle = async (rule: PricingRule) => {
+        try {
+            await pricingApi.updateRule(rule.id, { isActive: !rule.isActive })
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to update pricing rule: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleDelete = async (rule: PricingRule) => {
+        const confirmed = await confirm({
+            title: 'Delete Pricing Rule',
+            message: `Delete "${rule.name}"? Items already ordered keep their price.`,
+            type: 'warning',
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+
+        try {
+            await pricingApi.deleteRule(rule.id)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to delete pricing rule: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    return (
+        <div className="p-6 lg:p-8 space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-semibold text-slate-900">
+                        Pricing
+                    </h1>
+                    <p className="text-sm text-slate-500 mt-1">
+                        Happy hours and specials applied automatically when
+                        items are ordered
+                    </p>
+                </div>
+                <button
+                    onClick={() => setEditing('new')}
+                    disabled={!restaurantId}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md disabled:opacity-50"
+                >
+                    <Plus size={20} />
+                    Add Rule
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                        <Percent size={20} className="text-slate-500" />
+                        Pricing Rules
+                    </h2>
+                    <span className="text-xs text-slate-500">
+                        Each item gets the rule that takes the most off
+                    </span>
+                </div>
+                {loading ? (
+                    <p className="p-6 text-sm text-slate-500">Loading...</p>
+                ) : rules.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500">
+                        No pricing rules yet. Items are sold at their base
+                        price.
+                    </p>
+                ) : (
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Name
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Discount
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Applies to
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    When
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Active
+                                </th>
+                                <th className="px-6 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {rules.map((rule) => (
+                                <tr
+                                    key={rule.id}
+                                    className={
+                                        rule.isActive ? '' : 'opacity-60'
+                                    }
+                                >
+                                    <td className="px-6 py-3 text-sm font-medium text-slate-900">
+                                        {rule.name}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-red-600 font-medium">
+                                        {describeDiscount(rule)}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        {describeScope(rule)}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        {describeSchedule(rule)}
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={rule.isActive}
+                                            onChange={() => handleToggle(rule)}
+                                            className="w-4 h-4 text-amber-500 border-slate-300 rounded focus:ring-amber-500"
+                                        />
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <div className="flex justify-end gap-1">
+                                            <button
+                                                onClick={() => setEditing(rule)}
+                                                className="p-2 text-slate-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                            >
+                                                <Edit size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleDelete(rule)
+                                                }
+                                                className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {editing && (
+                <PricingRuleModal
+                    rule={editing === 'new' ? null : editing}
+                    menuItems={menuItems}
+                    categories={categories}
+                    modifierOptions={modifierOptions}
+                    onClose={() => setEditing(null)}
+                    onSave={handleSave}
+                />
+            )}
+        </div>
+    )
+}
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+function PricingRuleModal({
+    rule,
+    menuItems,
+    categories,
+    modifierOptions,
+    onClose,
+    onSave,
+}: {
+    rule: PricingRule | null
+    menuItems: Option[]
+    categories: Option[]
+    modifierOptions: Option[]
+    onClose: () => void
+    onSave: (data: RuleForm) => void
+}) {
+    const initialScope: Scope = rule?.modifierOptionId
+        ? 'modifier'
+        : rule?.menuItemId
+        ? 'item'
+        : rule?.categoryId
+        ? 'category'
+        : 'menu'
+
+    const [name, setName] = useState(rule?.name || '')
+    const [discountType, setDiscountType] = useState<DiscountType>(
+        rule?.discountType || DiscountType.PERCENTAGE
+    )
+    const [value, setValue] = useState(rule ? String(Number(rule.value)) : '')
+    const [scope, setScope] = useState<Scope>(initialScope)
+    const [targetId, setTargetId] = useState<number | ''>(
+        rule?.modifierOptionId || rule?.menuItemId || rule?.categoryId || ''
+    )
+    const [daysOfWeek, setDaysOfWeek] = useState<number[]>(
+        rule?.daysOfWeek || []
+    )
+    const [startTime, setStartTime] = useState(rule?.startTime || '')
+    const [endTime, setEndTime] = useState(rule?.endTime || '')
+    const [startDate, setStartDate] = useState(toDateInput(rule?.startDate))
+    const [endDate, setEndDate] = useState(toDateInput(rule?.endDate))
+
+    const targets =
+        scope === 'item'
+            ? menuItems
+            : scope === 'category'
+            ? categories
+            : scope === 'modifier'
+            ? modifierOptions
+            : []
+
+    const toggleDay = (day: number) =>
+        setDaysOfWeek((prev) =>
+            prev.includes(day)
+                ? prev.filter((d) => d !== day)
+                : [...prev, day].sort((a, b) => a - b)
+        )
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        const target = targetId === '' ? null : targetId
+        onSave({
+            name: name.trim(),
+            discountType,
+            value: Number(value) || 0,
+            menuItemId: scope === 'item' ? target : null,
+            categoryId: scope === 'category' ? target : null,
+            modifierOptionId: scope === 'modifier' ? target : null,
+            daysOfWeek,
+            startTime: startTime || null,
+            endTime: endTime || null,
+            startDate: startDate || null,
+            endDate: endDate || null,
+        })
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        {rule ? 'Edit Pricing Rule' : 'New Pricing Rule'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Name <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="e.g. Happy hour drinks"
+                            className={inputClass}
+                            required
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Discount
+                            </label>
+                            <select
+                                value={discountType}
+                                onChange={(e) =>
+                                    setDiscountType(
+                                        e.target.value as DiscountType
+                                    )
+                                }
+                                className={inputClass}
+                            >
+                                <option value={DiscountType.PERCENTAGE}>
+                                    Percent off
+                                </option>
+                                <option value={DiscountType.FIXED}>
+                                    Amount off per item
+                                </option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Value <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="number"
+                                min="0"
+                                max={
+                                    discountType === DiscountType.PERCENTAGE
+                                        ? 100
+                                        : undefined
+                                }
+                                step="any"
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                                className={inputClass}
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Applies to
+                            </label>
+                            <select
+                                value={scope}
+                                onChange={(e) => {
+                                    setScope(e.target.value as Scope)
+                                    setTargetId('')
+                                }}
+                                className={inputClass}
+                            >
+                                <option value="menu">Whole menu</option>
+                                <option value="category">Category</option>
+                                <option value="item">Menu item</option>
+                                <option value="modifier">
+                                    Modifier option
+                                </option>
+                            </select>
+                        </div>
+                        {scope !== 'menu' && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Which <span className="text-red-500">*</span>
+                                </label>
+                                <select
+                                    value={targetId}
+                                    onChange={(e) =>
+                                        setTargetId(
+                                            e.target.value
+                                                ? Number(e.target.value)
+                                                : ''
+                                        )
+                                    }
+                                    className={inputClass}
+                                    required
+                                >
+                                    <option value="">Select...</option>
+                                    {targets.map((target) => (
+                                        <option
+                                            key={target.id}
+                                            value={target.id}
+                                        >
+                                            {target.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                    {scope === 'modifier' && (
+                        <p className="text-xs text-slate-500">
+                            Only the option's own price is discounted.
+                        </p>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Days
+                        </label>
+                        <div className="flex flex-wrap gap-1">
+                            {WEEKDAYS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => toggleDay(day)}
+                                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                                        daysOfWeek.includes(day)
+                                            ? 'bg-amber-500 text-white'
+                                            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">
+                            No days selected = every day
+                        </p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                From
+                            </label>
+                            <input
+                                type="time"
+                                value={startTime}
+                                onChange={(e) => setStartTime(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Until
+                            </label>
+                            <input
+                                type="time"
+                                value={endTime}
+                                onChange={(e) => setEndTime(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                First day
+                            </label>
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Last day
+                            </label>
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                        >
+                            {rule ? 'Save' : 'Create'}
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    )
+}
@@ -3,6 +3,7 @@ import { Building2, MapPin, Save, Loader2, CheckCircle2, XCircle } from 'lucide-
 import { motion } from 'framer-motion'
 import { restaurantsApi, type Restaurant, type UpdateRestaurantDto } from '../../services/api'
 import { useModal } from '../../contexts/ModalContext'
+import SessionsList from '../../components/common/SessionsList'
 
 export default function ProfilePage() {
     const { alert } = useModal()
@@ -15,6 +16,8 @@ export default function ProfilePage() {
     const [name, setName] = useState('')
     const [address, setAddress] = useState('')
     const [isActive, setIsActive] = useState(true)
+    const [taxRate, setTaxRate] = useState('0')
+    const [serviceChargeRate, setServiceChargeRate] = useState('0')
 
     useEffect(() => {
         fetchRestaurant()
@@ -32,6 +35,8 @@ export default function ProfilePage() {
                 setName(restaurantData.name)
                 setAddress(restaurantData.address || '')
                 setIsActive(restaurantData.isActive)
+                setTaxRate(String(Number(restaurantData.taxRate ?? 0)))
+                setServiceChargeRate(String(Number(restaurantData.serviceChargeRate ?? 0)))
             } else {
                 setError('No restaurant found')
             }
@@ -68,6 +73,8 @@ export default function ProfilePage() {
                 name: name.trim(),
                 address: address.trim() || undefined,
                 isActive,
+                taxRate: Number(taxRate) || 0,
+                serviceChargeRate: Number(serviceChargeRate) || 0,
             }
             const updated = await restaurantsApi.updateRestaurant(restaurant.id, updateData)
             setRestaurant(updated)
@@ -165,6 +172,42 @@ export default function ProfilePage() {
                         />
                     </div>
 
+                    {/* Charges */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                VAT (%)
+                            </label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step="0.01"
+                                value={taxRate}
+                                onChange={(e) => setTaxRate(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Service Charge (%)
+                            </label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step="0.01"
+                                value={serviceChargeRate}
+                                onChange={(e) => setServiceChargeRate(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                        </div>
+                        <p className="col-span-2 text-xs text-slate-500">
+                            Service charge applies to the subtotal after discounts; VAT applies to the
+                            subtotal plus service charge. Tips are not taxed.
+                        </p>
+                    </div>
+
                     {/* Active Status */}
                     <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
                         <div className="flex-1">
@@ -245,6 +288,21 @@ export default function ProfilePage() {
                     </div>
                 </form>
             </motion.div>
+
+            {/* Signed-in Devices */}
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-white rounded-lg shadow-sm border border-slate-200 p-6 lg:p-8"
+            >
+                <h2 className="text-lg font-semibold text-slate-900">
+                    Signed-in Devices
+                </h2>
+                <p className="text-sm text-slate-500 mt-1 mb-4">
+                    Devices signed in to your admin account
+                </p>
+                <SessionsList />
+            </motion.div>
         </div>
     )
 }
@@ -0,0 +1,554 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2, Edit, Ticket, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { promoCodesApi, type CreatePromoCodeDto } from '../../services/api'
+import { DiscountType } from '@aerodine/shared-types'
+import type { PromoCode } from '@aerodine/shared-types'
+import { useModal } from '../../contexts/ModalContext'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
+import { formatVND } from '../../utils/currency'
+import { errorMessage } from '../../utils/errorMessage'
+
+type CodeForm = Omit<CreatePromoCodeDto, 'restaurantId'>
+
+// datetime-local inputs want local YYYY-MM-DDTHH:mm
+const toDateTimeInput = (value?: Date | string | null) => {
+    if (!value) return ''
+    const date = new Date(value)
+    const offset = date.getTimezoneOffset() * 60000
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const fromDateTimeInput = (value: string) =>
+    value ? new Date(value).toISOString() : null
+
+const describeDiscount = (promo: PromoCode) => {
+    if (promo.discountType === DiscountType.FIXED) {
+        return `${formatVND(promo.value)} off`
+    }
+    return promo.maxDiscount
+        ? `${Number(promo.value)}% off (max ${formatVND(promo.maxDiscount)})`
+        : `${Number(promo.value)}% off`
+}
+
+const describeLimits = (promo: PromoCode) => {
+    const parts: string[] = []
+    if (Number(promo.minSpend) > 0) {
+        parts.push(`Min ${formatVND(promo.minSpend)}`)
+    }
+    if (promo.perUserLimit) {
+        parts.push(`${promo.perUserLimit} per customer`)
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'None'
+}
+
+const describeValidity = (promo: PromoCode) => {
+    if (!promo.startsAt && !promo.expiresAt) return 'No expiry'
+    const format = (value?: Date | string | null) =>
+        value ? new Date(value).toLocaleDateString() : '…'
+    return `${format(promo.startsAt)} to ${format(promo.expiresAt)}`
+}
+
+const isExpired = (promo: PromoCode) =>
+    !!promo.expiresAt && new Date(promo.expiresAt) <= new Date()
+
+export default function PromoCodesPage() {
+    const [codes, setCodes] = useState<PromoCode[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [editing, setEditing] = useState<PromoCode | 'new' | null>(null)
+    const { confirm, alert } = useModal()
+    const { restaurantId } = useRestaurantContext()
+
+    const fetchData = useCallback(async () => {
+        if (!restaurantId) return
+        try {
+            setError(null)
+            setCodes(await promoCodesApi.getCodes(restaurantId))
+        } catch (err) {
+            setError(`Unable to load promo codes: ${errorMessage(err)}`)
+        } finally {
+            setLoading(false)
+        }
+    }, [restaurantId])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    const handleSave = async (data: CodeForm) => {
+        if (!restaurantId || !editing) return
+        try {
+            if (editing === 'new') {
+                await promoCodesApi.createCode({ ...data, restaurantId })
+            } else {
+                await promoCodesApi.updateCode(editing.id, data)
+            }
+            setEditing(null)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to save promo code: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleToggle = async (promo: PromoCode) => {
+        try {
+            await promoCodesApi.updateCode(promo.id, {
+                isActive: !promo.isActive,
+            })
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to update promo code: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleDelete = async (promo: PromoCode) => {
+        const confirmed = await confirm({
+            title: 'Delete Promo Code',
+            message: `Delete "${promo.code}"? Orders that used it keep their discount.`,
+            type: 'warning',
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+
+        try {
+            await promoCodesApi.deleteCode(promo.id)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to delete promo code: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    return (
+        <div className="p-6 lg:p-8 space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-semibold text-slate-900">
+                        Promo Codes
+                    </h1>
+                    <p className="text-sm text-slate-500 mt-1">
+                        Codes customers enter in the cart for a discount on
+                        their order
+                    </p>
+                </div>
+                <button
+                    onClick={() => setEditing('new')}
+                    disabled={!restaurantId}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md disabled:opacity-50"
+                >
+                    <Plus size={20} />
+                    Add Code
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                        <Ticket size={20} className="text-slate-500" />
+                        Codes
+                    </h2>
+                    <span className="text-xs text-slate-500">
+                        Applied to the subtotal after pricing rules
+                    </span>
+                </div>
+                {loading ? (
+                    <p className="p-6 text-sm text-slate-500">Loading...</p>
+                ) : codes.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500">
+                        No promo codes yet.
+                    </p>
+                ) : (
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Code
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Discount
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Conditions
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Used
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Valid
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Active
+                                </th>
+                                <th className="px-6 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {codes.map((promo) => (
+                                <tr
+                                    key={promo.id}
+                                    className={
+                                        promo.isActive && !isExpired(promo)
+                                            ? ''
+                                            : 'opacity-60'
+                                    }
+                                >
+                                    <td className="px-6 py-3">
+                                        <p className="text-sm font-mono font-semibold text-slate-900">
+                                            {promo.code}
+                                        </p>
+                                        {promo.description && (
+                                            <p className="text-xs text-slate-500">
+                                                {promo.description}
+                                            </p>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-red-600 font-medium">
+                                        {describeDiscount(promo)}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        {describeLimits(promo)}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        {promo.usedCount}
+                                        {promo.usageLimit
+                                            ? ` / ${promo.usageLimit}`
+                                            : ''}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        {isExpired(promo)
+                                            ? 'Expired'
+                                            : describeValidity(promo)}
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={promo.isActive}
+                                            onChange={() =>
+                                                handleToggle(promo)
+                                            }
+                                            className="w-4 h-4 text-amber-500 border-slate-300 rounded focus:ring-amber-500"
+                                        />
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <div className="flex justify-end gap-1">
+                                            <button
+                                                onClick={() =>
+                                                    setEditing(promo)
+                                                }
+                                                className="p-2 text-slate-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                            >
+                                                <Edit size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleDelete(promo)
+                                                }
+                                                className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {editing && (
+                <PromoCodeModal
+                    promo={editing === 'new' ? null : editing}
+                    onClose={() => setEditing(null)}
+                    onSave={handleSave}
+                />
+            )}
+        </div>
+    )
+}
+
+const inputClass =
+    'w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500'
+
+// Empty optional number inputs clear the limit
+const toOptionalNumber = (value: string) => (value === '' ? null : Number(value))
+
+function PromoCodeModal({
+    promo,
+    onClose,
+    onSave,
+}: {
+    promo: PromoCode | null
+    onClose: () => void
+    onSave: (data: CodeForm) => void
+}) {
+    const [code, setCode] = useState(promo?.code || '')
+    const [description, setDescription] = useState(promo?.description || '')
+    const [discountType, setDiscountType] = useState<DiscountType>(
+        promo?.discountType || DiscountType.PERCENTAGE
+    )
+    const [value, setValue] = useState(
+        promo ? String(Number(promo.value)) : ''
+    )
+    const [maxDiscount, setMaxDiscount] = useState(
+        promo?.maxDiscount ? String(Number(promo.maxDiscount)) : ''
+    )
+    const [minSpend, setMinSpend] = useState(
+        promo && Number(promo.minSpend) > 0
+            ? String(Number(promo.minSpend))
+            : ''
+    )
+    const [usageLimit, setUsageLimit] = useState(
+        promo?.usageLimit ? String(promo.usageLimit) : ''
+    )
+    const [perUserLimit, setPerUserLimit] = useState(
+        promo?.perUserLimit ? String(promo.perUserLimit) : ''
+    )
+    const [startsAt, setStartsAt] = useState(toDateTimeInput(promo?.startsAt))
+    const [expiresAt, setExpiresAt] = useState(
+        toDateTimeInput(promo?.expiresAt)
+    )
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        onSave({
+            code: code.trim().toUpperCase(),
+            description: description.trim() || null,
+            discountType,
+            value: Number(value) || 0,
+            maxDiscount:
+                discountType === DiscountType.PERCENTAGE
+                    ? toOptionalNumber(maxDiscount)
+                    : null,
+            minSpend: Number(minSpend) || 0,
+            usageLimit: toOptionalNumber(usageLimit),
+            perUserLimit: toOptionalNumber(perUserLimit),
+            startsAt: fromDateTimeInput(startsAt),
+            expiresAt: fromDateTimeInput(expiresAt),
+        })
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        {promo ? 'Edit Promo Code' : 'New Promo Code'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Code <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={code}
+                                onChange={(e) =>
+                                    setCode(e.target.value.toUpperCase())
+                                }
+                                placeholder="e.g. WELCOME10"
+                                pattern="[A-Za-z0-9_\-]{3,32}"
+                                className={`${inputClass} font-mono`}
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Description
+                            </label>
+                            <input
+                                type="text"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                placeholder="Shown to the customer"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Discount
+                            </label>
+                            <select
+                                value={discountType}
+                                onChange={(e) =>
+                                    setDiscountType(
+                                        e.target.value as DiscountType
+                                    )
+                                }
+                                className={inputClass}
+                            >
+                                <option value={DiscountType.PERCENTAGE}>
+                                    Percent off
+                                </option>
+                                <option value={DiscountType.FIXED}>
+                                    Amount off the order
+                                </option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Value <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="number"
+                                min="0"
+                                max={
+                                    discountType === DiscountType.PERCENTAGE
+                                        ? 100
+                                        : undefined
+                                }
+                                step="any"
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                                className={inputClass}
+                                required
+                            />
+                        </div>
+                        {discountType === DiscountType.PERCENTAGE && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">
+                                    Max discount
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={maxDiscount}
+                                    onChange={(e) =>
+                                        setMaxDiscount(e.target.value)
+                                    }
+                                    placeholder="No cap"
+                                    className={inputClass}
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Minimum spend
+                            </label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={minSpend}
+                                onChange={(e) => setMinSpend(e.target.value)}
+                                placeholder="None"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Total uses
+                            </label>
+                            <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={usageLimit}
+                                onChange={(e) => setUsageLimit(e.target.value)}
+                                placeholder="Unlimited"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Uses per customer
+                            </label>
+                            <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={perUserLimit}
+                                onChange={(e) =>
+                                    setPerUserLimit(e.target.value)
+                                }
+                                placeholder="Unlimited"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Starts
+                            </label>
+                            <input
+                                type="datetime-local"
+                                value={startsAt}
+                                onChange={(e) => setStartsAt(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Expires
+                            </label>
+                            <input
+                                type="datetime-local"
+                                value={expiresAt}
+                                onChange={(e) => setExpiresAt(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                        Guests are counted per browser session.
+                    </p>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                        >
+                            {promo ? 'Save' : 'Create'}
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    )
+}
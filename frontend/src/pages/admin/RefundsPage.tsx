@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Check, X, RotateCcw } from 'lucide-react'
+import { refundsApi } from '../../services/api'
+import { RefundStatus } from '@aerodine/shared-types'
+import type { Refund } from '@aerodine/shared-types'
+import { useModal } from '../../contexts/ModalContext'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
+import { formatVND } from '../../utils/currency'
+import RefundRequestModal from '../../components/staff/RefundRequestModal'
+import { errorMessage } from '../../utils/errorMessage'
+
+const STATUS_STYLES: Record<RefundStatus, string> = {
+    [RefundStatus.PENDING_APPROVAL]: 'bg-amber-100 text-amber-700',
+    [RefundStatus.PROCESSING]: 'bg-blue-100 text-blue-700',
+    [RefundStatus.COMPLETED]: 'bg-green-100 text-green-700',
+    [RefundStatus.REJECTED]: 'bg-slate-100 text-slate-600',
+    [RefundStatus.FAILED]: 'bg-red-100 text-red-700',
+}
+
+const describeItems = (refund: Refund) =>
+    refund.items && refund.items.length > 0
+        ? refund.items
+              .map((item) => `${item.orderItem?.name} ×${item.quantity}`)
+              .join(', ')
+        : null
+
+export default function RefundsPage() {
+    const [refunds, setRefunds] = useState<Refund[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [status, setStatus] = useState<RefundStatus | ''>(
+        RefundStatus.PENDING_APPROVAL
+    )
+    const [isCreating, setIsCreating] = useState(false)
+    const { confirm, alert } = useModal()
+    const { restaurantId } = useRestaurantContext()
+
+    const fetchData = useCallback(async () => {
+        if (!restaurantId) return
+        try {
+            setError(null)
+            setRefunds(
+                await refundsApi.getRefunds({
+                    restaurantId,
+                    status: status || undefined,
+                })
+            )
+        } catch (err) {
+            setError(`Unable to load refunds: ${errorMessage(err)}`)
+        } finally {
+            setLoading(false)
+        }
+    }, [restaurantId, status])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    const handleApprove = async (refund: Refund) => {
+        const confirmed = await confirm({
+            title: 'Approve Refund',
+            message: `Refund ${formatVND(Number(refund.amount))} on order #${refund.orderId} by ${refund.payment?.method}? Cash is handed back at the till; card refunds go back to the card.`,
+            type: 'warning',
+            confirmText: 'Approve',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) return
+
+        try {
+            await refundsApi.approveRefund(refund.id)
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to refund: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+        await fetchData()
+    }
+
+    const handleReject = async (refund: Refund) => {
+        const note = window.prompt('Reason for rejecting (optional)')
+        if (note === null) return
+
+        try {
+            await refundsApi.rejectRefund(refund.id, note || undefined)
+            await fetchData()
+        } catch (err) {
+            await alert({
+                title: 'Error',
+                message: `Unable to reject refund: ${errorMessage(err)}`,
+                type: 'error',
+            })
+        }
+    }
+
+    return (
+        <div className="p-6 lg:p-8 space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-semibold text-slate-900">
+                        Refunds
+                    </h1>
+                    <p className="text-sm text-slate-500 mt-1">
+                        Approve refunds requested by staff; refunds are taken
+                        out of revenue in reports
+                    </p>
+                </div>
+                <button
+                    onClick={() => setIsCreating(true)}
+                    disabled={!restaurantId}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md disabled:opacity-50"
+                >
+                    <Plus size={20} />
+                    New Refund
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                        <RotateCcw size={20} className="text-slate-500" />
+                        Requests
+                    </h2>
+                    <select
+                        value={status}
+                        onChange={(e) =>
+                            setStatus(e.target.value as RefundStatus | '')
+                        }
+                        className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    >
+                        <option value="">All</option>
+                        {Object.values(RefundStatus).map((value) => (
+                            <option key={value} value={value}>
+                                {value.replace('_', ' ').toLowerCase()}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {loading ? (
+                    <p className="p-6 text-sm text-slate-500">Loading...</p>
+                ) : refunds.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500">
+                        No refunds here.
+                    </p>
+                ) : (
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Order
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Amount
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Reason
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Requested
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
+                                    Status
+                                </th>
+                                <th className="px-6 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {refunds.map((refund) => (
+                                <tr key={refund.id}>
+                                    <td className="px-6 py-3">
+                                        <p className="text-sm font-medium text-slate-900">
+                                            #{refund.orderId}
+                                        </p>
+                                        <p className="text-xs text-slate-500">
+                                            {refund.order?.table?.name} ·{' '}
+                                            {refund.payment?.method}
+                                        </p>
+                                    </td>
+                                    <td className="px-6 py-3 text-sm font-medium text-red-600">
+                                        {formatVND(Number(refund.amount))}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        <p>{refund.reason}</p>
+                                        {describeItems(refund) && (
+                                            <p className="text-xs text-slate-500">
+                                                {describeItems(refund)}
+                                            </p>
+                                        )}
+                                        {refund.note && (
+                                            <p className="text-xs text-red-500">
+                                                {refund.note}
+                                            </p>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-3 text-sm text-slate-600">
+                                        <p>{refund.requestedBy?.fullName}</p>
+                                        <p className="text-xs text-slate-500">
+                                            {new Date(
+                                                refund.createdAt
+                                            ).toLocaleString()}
+                                        </p>
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <span
+                                            className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[refund.status]}`}
+                                        >
+                                            {refund.status
+                                                .replace('_', ' ')
+                                                .toLowerCase()}
+                                        </span>
+                                        {refund.approvedBy && (
+                                            <p className="text-xs text-slate-500 mt-1">
+                                                by {refund.approvedBy.fullName}
+                                            </p>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        {refund.status ===
+                                            RefundStatus.PENDING_APPROVAL && (
+                                            <div className="flex justify-end gap-1">
+                                                <button
+                                                    onClick={() =>
+                                                        handleApprove(refund)
+                                                    }
+                                                    title="Approve"
+                                                    className="p-2 text-slate-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                                                >
+                                                    <Check size={16} />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        handleReject(refund)
+                                                    }
+                                                    title="Reject"
+                                                    className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                >
+                                                    <X size={16} />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {isCreating && (
+                <RefundRequestModal
+                    onClose={() => setIsCreating(false)}
+                    onCreated={() => {
+                        setIsCreating(false)
+                        fetchData()
+                    }}
+                />
+            )}
+        </div>
+    )
+}
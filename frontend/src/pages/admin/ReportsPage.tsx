@@ -14,6 +14,9 @@
  * - getTopModifiers (most used modifiers)
  * - getRatingVolume (rating vs volume)
  * - getPrepTimeTrends (prep time trends)
+ * - getKitchenTimings (queue / cook / pass time)
+ * - getReconciliationReport (payment discrepancies per day)
+ * - getZReport (end-of-day sales and cash drawer shifts)
  */
 
 import { useState, useEffect } from 'react'
@@ -38,9 +41,31 @@ import {
     Line,
     ComposedChart,
 } from 'recharts'
-import { Calendar, TrendingUp, DollarSign, ShoppingCart } from 'lucide-react'
-import { reportsApi } from '../../services/api'
+import {
+    Calendar,
+    TrendingUp,
+    DollarSign,
+    ShoppingCart,
+    Store,
+    Globe,
+    Download,
+    Percent,
+    AlertTriangle,
+    Printer,
+} from 'lucide-react'
+import { PaymentDiscrepancyType } from '@aerodine/shared-types'
+import {
+    reportsApi,
+    restaurantsApi,
+    type ExportableReport,
+    type ExportFormat,
+    type ReconciliationReport,
+    type ReportFilters,
+    type Restaurant,
+    type ZReport,
+} from '../../services/api'
 import { authService } from '../../services/auth.service'
+import { useUserStore } from '../../store/userStore'
 
 // Date Range Selector Component
 function DateRangeSelector({
@@ -51,6 +76,8 @@ function DateRangeSelector({
     onChange: (value: string) => void
 }) {
     const options = [
+        { label: 'Today', value: 'today' },
+        { label: 'Last 7 Days', value: 'week' },
         { label: 'Last 30 Days', value: '30' },
         { label: 'This Month', value: 'month' },
         { label: 'Last Month', value: 'lastMonth' },
@@ -70,11 +97,217 @@ function DateRangeSelector({
                         {option.label}
                     </option>
                 ))}
+                <option value="custom">Custom Range</option>
+            </select>
+        </div>
+    )
+}
+
+const TIMEZONE_OPTIONS = [
+    'Asia/Ho_Chi_Minh',
+    'Asia/Bangkok',
+    'Asia/Singapore',
+    'Asia/Tokyo',
+    'Europe/London',
+    'America/New_York',
+    'UTC',
+]
+
+// Restaurant, custom period and timezone filters
+function ReportFiltersBar({
+    restaurants,
+    restaurantId,
+    onRestaurantChange,
+    restaurantLocked,
+    from,
+    to,
+    onFromChange,
+    onToChange,
+    showCustomRange,
+    timezone,
+    onTimezoneChange,
+}: {
+    restaurants: Restaurant[]
+    restaurantId?: number
+    onRestaurantChange: (value?: number) => void
+    restaurantLocked: boolean
+    from: string
+    to: string
+    onFromChange: (value: string) => void
+    onToChange: (value: string) => void
+    showCustomRange: boolean
+    timezone: string
+    onTimezoneChange: (value: string) => void
+}) {
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border border-slate-100">
+                <Store size={18} className="text-slate-500" />
+                <select
+                    value={restaurantId ?? ''}
+                    onChange={(e) =>
+                        onRestaurantChange(
+                            e.target.value ? Number(e.target.value) : undefined
+                        )
+                    }
+                    disabled={restaurantLocked}
+                    className="text-sm font-medium text-slate-900 border-none outline-none bg-transparent cursor-pointer"
+                >
+                    {!restaurantLocked && (
+                        <option value="">All Restaurants</option>
+                    )}
+                    {restaurants.map((restaurant) => (
+                        <option key={restaurant.id} value={restaurant.id}>
+                            {restaurant.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            {showCustomRange && (
+                <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border border-slate-100">
+                    <input
+                        type="date"
+                        value={from}
+                        max={to || undefined}
+                        onChange={(e) => onFromChange(e.target.value)}
+                        className="text-sm text-slate-900 outline-none bg-transparent"
+                    />
+                    <span className="text-slate-400">-</span>
+                    <input
+                        type="date"
+                        value={to}
+                        min={from || undefined}
+                        onChange={(e) => onToChange(e.target.value)}
+                        className="text-sm text-slate-900 outline-none bg-transparent"
+                    />
+                </div>
+            )}
+            <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border border-slate-100">
+                <Globe size={18} className="text-slate-500" />
+                <select
+                    value={timezone}
+                    onChange={(e) => onTimezoneChange(e.target.value)}
+                    className="text-sm font-medium text-slate-900 border-none outline-none bg-transparent cursor-pointer"
+                >
+                    <option value="">Restaurant Timezone</option>
+                    {TIMEZONE_OPTIONS.map((zone) => (
+                        <option key={zone} value={zone}>
+                            {zone}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    )
+}
+
+// Report download buttons (CSV / XLSX / PDF)
+function ExportMenu({
+    filters,
+    onError,
+}: {
+    filters: ReportFilters
+    onError: (message: string) => void
+}) {
+    const [report, setReport] = useState<ExportableReport>('revenue')
+    const [exporting, setExporting] = useState<ExportFormat | null>(null)
+
+    const reports: Array<{ label: string; value: ExportableReport }> = [
+        { label: 'Revenue', value: 'revenue' },
+        { label: 'Category Sales', value: 'category-sales' },
+        { label: 'Discounts', value: 'discounts' },
+        { label: 'Voided Items', value: 'voided-items' },
+        { label: 'Menu Performance', value: 'menu-performance' },
+        { label: 'Modifiers', value: 'modifiers' },
+    ]
+
+    const handleExport = async (format: ExportFormat) => {
+        try {
+            setExporting(format)
+            const { blob, filename } = await reportsApi.exportReport(
+                report,
+                format,
+                filters
+            )
+
+            // Create a temporary anchor element to download
+            const link = document.createElement('a')
+            const url = window.URL.createObjectURL(blob)
+            link.href = url
+            link.download = filename
+            document.body.appendChild(link)
+            link.click()
+            document.body.removeChild(link)
+            window.URL.revokeObjectURL(url)
+        } catch (err: any) {
+            onError(
+                `Unable to export report: ${err.response?.data?.message || err.message || 'Unknown error'}`
+            )
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    return (
+        <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border border-slate-100">
+            <Download size={18} className="text-slate-500" />
+            <select
+                value={report}
+                onChange={(e) => setReport(e.target.value as ExportableReport)}
+                className="text-sm font-medium text-slate-900 border-none outline-none bg-transparent cursor-pointer"
+            >
+                {reports.map((option) => (
+                    <option key={option.value} value={option.value}>
+                        {option.label}
+                    </option>
+                ))}
             </select>
+            {(['csv', 'xlsx', 'pdf'] as ExportFormat[]).map((format) => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null}
+                    className="px-2 py-1 text-xs font-semibold uppercase rounded-md bg-slate-100 text-slate-700 hover:bg-amber-500 hover:text-white transition-colors disabled:opacity-50"
+                >
+                    {exporting === format ? '...' : format}
+                </button>
+            ))}
         </div>
     )
 }
 
+// Change vs previous period badge
+// invert: a decrease is good (e.g. prep times)
+function ChangeBadge({
+    change,
+    invert = false,
+}: {
+    change?: number | null
+    invert?: boolean
+}) {
+    if (change === undefined) {
+        return null
+    }
+    if (change === null) {
+        return (
+            <span className="text-xs font-medium text-slate-500">
+                New vs previous period
+            </span>
+        )
+    }
+
+    return (
+        <span
+            className={`text-xs font-medium ${
+                change >= 0 !== invert ? 'text-emerald-600' : 'text-red-600'
+            }`}
+        >
+            {change >= 0 ? '+' : ''}
+            {change}% vs previous period
+        </span>
+    )
+}
+
 // Tabs Component
 function Tabs({
     tabs,
@@ -113,18 +346,19 @@ function FinancialHealthTab({
     revenueChartData,
     paymentMethodsData,
     dayOfWeekRevenueData,
+    discountSummary,
     loading,
 }: {
     stats: any
     revenueChartData: any[]
     paymentMethodsData: any[]
     dayOfWeekRevenueData: any[]
+    discountSummary: any
     loading: boolean
 }) {
     // Transform backend data for revenue growth chart
-    const enhancedRevenueData = revenueChartData.map((item, index) => {
-        const prevRevenue =
-            index > 0 ? revenueChartData[index - 1].revenue : item.revenue
+    const enhancedRevenueData = revenueChartData.map((item) => {
+        const prevRevenue = item.previousRevenue ?? 0
         const change =
             prevRevenue > 0
                 ? ((item.revenue - prevRevenue) / prevRevenue) * 100
@@ -168,6 +402,9 @@ function FinancialHealthTab({
                     <p className="text-3xl font-semibold text-slate-900">
                         ${stats.totalRevenue.toLocaleString()}
                     </p>
+                    <ChangeBadge
+                        change={stats.comparison?.totalRevenue.changePercent}
+                    />
                 </div>
                 <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
                     <div className="flex items-center justify-between mb-2">
@@ -179,6 +416,9 @@ function FinancialHealthTab({
                     <p className="text-3xl font-semibold text-slate-900">
                         {stats.totalOrders.toLocaleString()}
                     </p>
+                    <ChangeBadge
+                        change={stats.comparison?.totalOrders.changePercent}
+                    />
                 </div>
                 <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
                     <div className="flex items-center justify-between mb-2">
@@ -449,6 +689,106 @@ function FinancialHealthTab({
                     )}
                 </div>
             </div>
+
+            {discountSummary && (
+                <DiscountsSection discountSummary={discountSummary} />
+            )}
+        </div>
+    )
+}
+
+// Discounts: revenue at list price vs what was charged, per pricing rule
+function DiscountsSection({ discountSummary }: { discountSummary: any }) {
+    return (
+        <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-xl font-semibold text-slate-900">
+                    Discounts
+                </h3>
+                <Percent size={20} className="text-amber-500" />
+            </div>
+            <p className="text-base text-slate-500 mb-6">
+                List price revenue vs. what was charged after pricing rules
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div>
+                    <p className="text-sm font-medium text-slate-500">
+                        List Revenue
+                    </p>
+                    <p className="text-2xl font-semibold text-slate-900">
+                        ${discountSummary.listRevenue.toLocaleString()}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-sm font-medium text-slate-500">
+                        Charged
+                    </p>
+                    <p className="text-2xl font-semibold text-slate-900">
+                        ${discountSummary.discountedRevenue.toLocaleString()}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-sm font-medium text-slate-500">
+                        Discounts Given ({discountSummary.discountPercent}%)
+                    </p>
+                    <p className="text-2xl font-semibold text-red-600">
+                        ${discountSummary.discountTotal.toLocaleString()}
+                    </p>
+                    <ChangeBadge
+                        change={
+                            discountSummary.comparison?.discountTotal
+                                .changePercent
+                        }
+                    />
+                </div>
+            </div>
+            {discountSummary.byRule.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                    No pricing rules were applied in this period.
+                </p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-slate-500 border-b border-slate-100">
+                            <th className="py-2 font-medium">Pricing Rule</th>
+                            <th className="py-2 font-medium text-right">
+                                Items
+                            </th>
+                            <th className="py-2 font-medium text-right">
+                                List
+                            </th>
+                            <th className="py-2 font-medium text-right">
+                                Charged
+                            </th>
+                            <th className="py-2 font-medium text-right">
+                                Discount
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {discountSummary.byRule.map((row: any) => (
+                            <tr
+                                key={row.ruleName}
+                                className="border-b border-slate-50 text-slate-700"
+                            >
+                                <td className="py-2">{row.ruleName}</td>
+                                <td className="py-2 text-right">
+                                    {row.quantity}
+                                </td>
+                                <td className="py-2 text-right">
+                                    ${row.listRevenue.toLocaleString()}
+                                </td>
+                                <td className="py-2 text-right">
+                                    ${row.discountedRevenue.toLocaleString()}
+                                </td>
+                                <td className="py-2 text-right text-red-600">
+                                    ${row.discount.toLocaleString()}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
         </div>
     )
 }
@@ -1064,13 +1404,150 @@ function MenuInsightsTab({
 }
 
 // Operational Efficiency Tab
+type KitchenTimingsGroup = 'byItem' | 'byCategory' | 'byStation'
+
+// Kitchen stage timings: overall averages and a per-group breakdown
+function KitchenTimingsSection({ kitchenTimings }: { kitchenTimings: any }) {
+    const [groupBy, setGroupBy] = useState<KitchenTimingsGroup>('byItem')
+
+    const formatMinutes = (value: number | null | undefined) =>
+        value === null || value === undefined ? '-' : `${value} mins`
+
+    const stages = [
+        {
+            label: 'Queue Time',
+            hint: 'Ordered to preparing',
+            value: kitchenTimings?.summary.avgQueueTime,
+            change: kitchenTimings?.summary.changePercent.queueTime,
+        },
+        {
+            label: 'Cook Time',
+            hint: 'Preparing to ready',
+            value: kitchenTimings?.summary.avgCookTime,
+            change: kitchenTimings?.summary.changePercent.cookTime,
+        },
+        {
+            label: 'Pass Time',
+            hint: 'Ready to served',
+            value: kitchenTimings?.summary.avgPassTime,
+            change: kitchenTimings?.summary.changePercent.passTime,
+        },
+    ]
+    const rows: any[] = kitchenTimings?.[groupBy] || []
+
+    return (
+        <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h3 className="text-xl font-semibold text-slate-900 mb-1">
+                        Kitchen Timings
+                    </h3>
+                    <p className="text-base text-slate-500">
+                        Where time is spent between order and table
+                    </p>
+                </div>
+                <select
+                    value={groupBy}
+                    onChange={(e) =>
+                        setGroupBy(e.target.value as KitchenTimingsGroup)
+                    }
+                    className="text-sm font-medium text-slate-900 px-3 py-2 rounded-lg border border-slate-200 bg-white cursor-pointer"
+                >
+                    <option value="byItem">By Item</option>
+                    <option value="byCategory">By Category</option>
+                    <option value="byStation">By Station</option>
+                </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                {stages.map((stage) => (
+                    <div
+                        key={stage.label}
+                        className="rounded-lg border border-slate-100 p-4"
+                    >
+                        <p className="text-sm font-medium text-slate-500">
+                            {stage.label}
+                        </p>
+                        <p className="text-2xl font-semibold text-slate-900">
+                            {formatMinutes(stage.value)}
+                        </p>
+                        <p className="text-xs text-slate-400 mb-1">
+                            {stage.hint}
+                        </p>
+                        <ChangeBadge change={stage.change} invert />
+                    </div>
+                ))}
+            </div>
+            <div className="max-h-[360px] overflow-auto">
+                <table className="w-full">
+                    <thead className="sticky top-0 bg-white">
+                        <tr className="border-b border-slate-200">
+                            <th className="text-left py-3 px-4 text-base font-semibold text-slate-700">
+                                Name
+                            </th>
+                            <th className="text-right py-3 px-4 text-base font-semibold text-slate-700">
+                                Items
+                            </th>
+                            <th className="text-right py-3 px-4 text-base font-semibold text-slate-700">
+                                Queue
+                            </th>
+                            <th className="text-right py-3 px-4 text-base font-semibold text-slate-700">
+                                Cook
+                            </th>
+                            <th className="text-right py-3 px-4 text-base font-semibold text-slate-700">
+                                Pass
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.length === 0 ? (
+                            <tr>
+                                <td
+                                    colSpan={5}
+                                    className="py-8 text-center text-slate-500"
+                                >
+                                    No kitchen timings recorded
+                                </td>
+                            </tr>
+                        ) : (
+                            rows.map((row) => (
+                                <tr
+                                    key={row.name}
+                                    className="border-b border-slate-100 hover:bg-slate-50 transition-colors"
+                                >
+                                    <td className="py-3 px-4 text-base font-medium text-slate-900">
+                                        {row.name}
+                                    </td>
+                                    <td className="py-3 px-4 text-base text-slate-600 text-right">
+                                        {row.itemCount}
+                                    </td>
+                                    <td className="py-3 px-4 text-base text-slate-600 text-right">
+                                        {formatMinutes(row.avgQueueTime)}
+                                    </td>
+                                    <td className="py-3 px-4 text-base font-semibold text-slate-900 text-right">
+                                        {formatMinutes(row.avgCookTime)}
+                                    </td>
+                                    <td className="py-3 px-4 text-base text-slate-600 text-right">
+                                        {formatMinutes(row.avgPassTime)}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
+
 function OperationalEfficiencyTab({
     peakHoursData,
     prepTimeData,
+    kitchenTimings,
     loading,
 }: {
     peakHoursData: any[]
     prepTimeData: any[]
+    kitchenTimings: any
     loading: boolean
 }) {
     if (loading) {
@@ -1217,6 +1694,598 @@ function OperationalEfficiencyTab({
                     </LineChart>
                 </ResponsiveContainer>
             </div>
+
+            {/* Kitchen Stage Timings */}
+            <KitchenTimingsSection kitchenTimings={kitchenTimings} />
+        </div>
+    )
+}
+
+const DISCREPANCY_LABELS: Record<PaymentDiscrepancyType, string> = {
+    [PaymentDiscrepancyType.GATEWAY_AMOUNT]: 'Gateway amount mismatch',
+    [PaymentDiscrepancyType.ORDER_TOTAL]: 'Order total mismatch',
+    [PaymentDiscrepancyType.MISSED_CALLBACK]: 'Missed gateway callback',
+}
+
+// Payment Reconciliation Tab
+function ReconciliationTab({ filters }: { filters: ReportFilters }) {
+    const [report, setReport] = useState<ReconciliationReport | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [resolvingId, setResolvingId] = useState<number | null>(null)
+    const filtersKey = JSON.stringify(filters)
+
+    const fetchReport = async () => {
+        try {
+            setReport(await reportsApi.getReconciliationReport(filters))
+            setError(null)
+        } catch (err: any) {
+            setError(
+                `Unable to load reconciliation: ${
+                    err.response?.data?.message || err.message || 'Unknown error'
+                }`
+            )
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        setLoading(true)
+        fetchReport()
+    }, [filtersKey])
+
+    const handleResolve = async (id: number) => {
+        setResolvingId(id)
+        try {
+            await reportsApi.resolveDiscrepancy(id)
+            await fetchReport()
+        } catch (err: any) {
+            setError(
+                `Unable to resolve: ${
+                    err.response?.data?.message || err.message || 'Unknown error'
+                }`
+            )
+        } finally {
+            setResolvingId(null)
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-500 mx-auto"></div>
+                    <p className="mt-4 text-slate-500">
+                        Loading reconciliation...
+                    </p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+
+            {report && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                        <p className="text-sm font-medium text-slate-500">
+                            Discrepancies
+                        </p>
+                        <p className="text-3xl font-semibold text-slate-900">
+                            {report.totals.discrepancies}
+                        </p>
+                    </div>
+                    <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                        <p className="text-sm font-medium text-slate-500">
+                            Unresolved
+                        </p>
+                        <p className="text-3xl font-semibold text-red-600">
+                            {report.totals.unresolved}
+                        </p>
+                    </div>
+                    <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                        <p className="text-sm font-medium text-slate-500">
+                            Expired Payments
+                        </p>
+                        <p className="text-3xl font-semibold text-slate-900">
+                            {report.totals.expiredPayments}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {report && report.days.length === 0 && (
+                <p className="text-sm text-slate-500">
+                    Nothing to reconcile in this period.
+                </p>
+            )}
+
+            {report?.days.map((day) => (
+                <div
+                    key={day.date}
+                    className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm"
+                >
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-semibold text-slate-900">
+                            {day.date}
+                        </h3>
+                        <div className="flex items-center gap-4 text-sm text-slate-500">
+                            {day.unresolvedCount > 0 && (
+                                <span className="flex items-center gap-1 text-red-600">
+                                    <AlertTriangle size={16} />
+                                    {day.unresolvedCount} unresolved
+                                </span>
+                            )}
+                            <span>
+                                {day.expiredPayments} expired payment
+                                {day.expiredPayments === 1 ? '' : 's'}
+                                {day.expiredPayments > 0 &&
+                                    ` ($${day.expiredAmount.toLocaleString()})`}
+                            </span>
+                        </div>
+                    </div>
+                    {day.discrepancies.length > 0 && (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-slate-500 border-b border-slate-100">
+                                    <th className="py-2 font-medium">Time</th>
+                                    <th className="py-2 font-medium">Order</th>
+                                    <th className="py-2 font-medium">Issue</th>
+                                    <th className="py-2 font-medium text-right">
+                                        Expected
+                                    </th>
+                                    <th className="py-2 font-medium text-right">
+                                        Actual
+                                    </th>
+                                    <th className="py-2 font-medium">Note</th>
+                                    <th className="py-2 font-medium text-right">
+                                        Status
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {day.discrepancies.map((discrepancy) => (
+                                    <tr
+                                        key={discrepancy.id}
+                                        className="border-b border-slate-50 text-slate-700"
+                                    >
+                                        <td className="py-2">
+                                            {new Date(
+                                                discrepancy.detectedAt
+                                            ).toLocaleTimeString()}
+                                        </td>
+                                        <td className="py-2">
+                                            #{discrepancy.orderId}
+                                            {discrepancy.order?.table &&
+                                                ` (${discrepancy.order.table.name})`}
+                                            {discrepancy.payment?.provider && (
+                                                <span className="ml-1 text-xs text-slate-400">
+                                                    {discrepancy.payment.provider}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="py-2">
+                                            {DISCREPANCY_LABELS[discrepancy.type]}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            $
+                                            {Number(
+                                                discrepancy.expectedAmount
+                                            ).toLocaleString()}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            $
+                                            {Number(
+                                                discrepancy.actualAmount
+                                            ).toLocaleString()}
+                                        </td>
+                                        <td className="py-2 text-slate-500">
+                                            {discrepancy.note}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            {discrepancy.resolvedAt ? (
+                                                <span className="text-green-600">
+                                                    Resolved
+                                                </span>
+                                            ) : (
+                                                <button
+                                                    onClick={() =>
+                                                        handleResolve(
+                                                            discrepancy.id
+                                                        )
+                                                    }
+                                                    disabled={
+                                                        resolvingId ===
+                                                        discrepancy.id
+                                                    }
+                                                    className="px-3 py-1 text-xs font-medium rounded-lg border border-slate-200 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                                                >
+                                                    Mark resolved
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(
+        /[&<>"']/g,
+        (char) =>
+            ({
+                '&': '&amp;',
+                '<': '&lt;',
+                '>': '&gt;',
+                '"': '&quot;',
+                "'": '&#39;',
+            })[char] as string
+    )
+
+const money = (value: number | string) => Number(value).toLocaleString()
+
+/**
+ * Printable Z-report page, laid out for a receipt-width printer
+ */
+function renderZReportHtml(report: ZReport, restaurantName: string) {
+    const row = (label: string, value: string) =>
+        `<tr><td>${escapeHtml(label)}</td><td class="amount">${value}</td></tr>`
+    const period =
+        report.from === report.to ? report.from : `${report.from} - ${report.to}`
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <title>Z-Report ${escapeHtml(period)}</title>
+    <style>
+        body { font-family: 'Courier New', monospace; font-size: 12px; max-width: 320px; margin: 0 auto; padding: 16px; }
+        h1, h2, p { text-align: center; margin: 4px 0; }
+        h1 { font-size: 16px; }
+        h2 { font-size: 13px; margin-top: 16px; border-top: 1px dashed #000; padding-top: 8px; }
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 2px 0; vertical-align: top; }
+        .amount { text-align: right; white-space: nowrap; }
+        .total td { font-weight: bold; border-top: 1px solid #000; }
+        @media print { body { margin: 0; } }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(restaurantName)}</h1>
+    <p>Z-REPORT</p>
+    <p>${escapeHtml(period)} (${escapeHtml(report.timezone)})</p>
+    <p>Printed ${new Date(report.generatedAt).toLocaleString()}</p>
+
+    <h2>SALES</h2>
+    <table>
+        ${row('Completed orders', String(report.sales.orders))}
+        ${row('Subtotal', money(report.sales.subtotal))}
+        ${row('Discounts', `-${money(report.sales.discounts)}`)}
+        ${row('Service charge', money(report.sales.serviceCharge))}
+        ${row('Tax', money(report.sales.tax))}
+        ${row('Tips', money(report.sales.tips))}
+        <tr class="total"><td>Total</td><td class="amount">${money(report.sales.total)}</td></tr>
+    </table>
+
+    <h2>PAYMENTS</h2>
+    <table>
+        ${report.payments
+            .map((payment) =>
+                row(
+                    `${payment.method} (${payment.count})`,
+                    money(payment.amount)
+                )
+            )
+            .join('')}
+        ${row('Refunds', `-${money(report.totals.refunds)}`)}
+        <tr class="total"><td>Net takings</td><td class="amount">${money(report.totals.net)}</td></tr>
+    </table>
+
+    <h2>CASH DRAWER</h2>
+    ${report.shifts
+        .map(
+            (shift) => `<table>
+        ${row(`#${shift.id} ${shift.cashier?.fullName ?? ''}`, shift.closedAt ? 'CLOSED' : 'OPEN')}
+        ${row('Opening float', money(shift.openingFloat))}
+        ${row('Cash taken', money(shift.summary.cashSales))}
+        ${row('Cash refunds', `-${money(shift.summary.cashRefunds)}`)}
+        ${row('Expected', money(shift.summary.expectedCash))}
+        ${shift.closedAt ? row('Counted', money(shift.countedCash ?? 0)) : ''}
+        ${shift.closedAt ? row('Over/short', money(shift.overShort ?? 0)) : ''}
+    </table><br />`
+        )
+        .join('')}
+    <table>
+        ${row('Expected (closed shifts)', money(report.drawer.expectedCash))}
+        ${row('Counted', money(report.drawer.countedCash))}
+        <tr class="total"><td>Over/short</td><td class="amount">${money(report.drawer.overShort)}</td></tr>
+        ${report.drawer.openShifts > 0 ? row('Shifts still open', String(report.drawer.openShifts)) : ''}
+        ${report.drawer.unassignedCashPayments > 0 ? row(`Cash outside shifts (${report.drawer.unassignedCashPayments})`, money(report.drawer.unassignedCash)) : ''}
+    </table>
+</body>
+</html>`
+}
+
+// Z-Report Tab
+function ZReportTab({
+    filters,
+    restaurantName,
+}: {
+    filters: ReportFilters
+    restaurantName: string
+}) {
+    const [report, setReport] = useState<ZReport | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const filtersKey = JSON.stringify(filters)
+
+    useEffect(() => {
+        setLoading(true)
+        reportsApi
+            .getZReport(filters)
+            .then((data) => {
+                setReport(data)
+                setError(null)
+            })
+            .catch((err: any) =>
+                setError(
+                    `Unable to load Z-report: ${
+                        err.response?.data?.message ||
+                        err.message ||
+                        'Unknown error'
+                    }`
+                )
+            )
+            .finally(() => setLoading(false))
+    }, [filtersKey])
+
+    const handlePrint = () => {
+        if (!report) return
+        const printWindow = window.open('', '_blank')
+        if (!printWindow) {
+            setError('Please allow popups to print the Z-report')
+            return
+        }
+        printWindow.document.write(renderZReportHtml(report, restaurantName))
+        printWindow.document.close()
+        printWindow.focus()
+        printWindow.print()
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-500 mx-auto"></div>
+                    <p className="mt-4 text-slate-500">Loading Z-report...</p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+
+            {report && (
+                <>
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-slate-500">
+                            {report.from === report.to
+                                ? report.from
+                                : `${report.from} - ${report.to}`}{' '}
+                            ({report.timezone})
+                        </p>
+                        <button
+                            onClick={handlePrint}
+                            className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors text-sm font-medium"
+                        >
+                            <Printer size={16} />
+                            Print Z-Report
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                            <p className="text-sm font-medium text-slate-500">
+                                Sales ({report.sales.orders} orders)
+                            </p>
+                            <p className="text-3xl font-semibold text-slate-900">
+                                ${report.sales.total.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                Tax ${report.sales.tax.toLocaleString()} ·
+                                Service ${report.sales.serviceCharge.toLocaleString()}{' '}
+                                · Tips ${report.sales.tips.toLocaleString()}
+                            </p>
+                        </div>
+                        <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                            <p className="text-sm font-medium text-slate-500">
+                                Net Takings
+                            </p>
+                            <p className="text-3xl font-semibold text-slate-900">
+                                ${report.totals.net.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                Refunds ${report.totals.refunds.toLocaleString()}
+                            </p>
+                        </div>
+                        <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                            <p className="text-sm font-medium text-slate-500">
+                                Cash Over/Short
+                            </p>
+                            <p
+                                className={`text-3xl font-semibold ${
+                                    report.drawer.overShort < 0
+                                        ? 'text-red-600'
+                                        : 'text-slate-900'
+                                }`}
+                            >
+                                ${report.drawer.overShort.toLocaleString()}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                Counted ${report.drawer.countedCash.toLocaleString()}{' '}
+                                of ${report.drawer.expectedCash.toLocaleString()}{' '}
+                                expected
+                            </p>
+                        </div>
+                    </div>
+
+                    {(report.drawer.openShifts > 0 ||
+                        report.drawer.unassignedCashPayments > 0) && (
+                        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+                            <AlertTriangle size={16} />
+                            {report.drawer.openShifts > 0 &&
+                                `${report.drawer.openShifts} shift(s) still open. `}
+                            {report.drawer.unassignedCashPayments > 0 &&
+                                `${report.drawer.unassignedCashPayments} cash payment(s) ($${report.drawer.unassignedCash.toLocaleString()}) taken outside any shift.`}
+                        </div>
+                    )}
+
+                    <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                        <h3 className="text-lg font-semibold text-slate-900 mb-4">
+                            Payments by Method
+                        </h3>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-slate-500 border-b border-slate-100">
+                                    <th className="py-2 font-medium">Method</th>
+                                    <th className="py-2 font-medium text-right">
+                                        Payments
+                                    </th>
+                                    <th className="py-2 font-medium text-right">
+                                        Taken
+                                    </th>
+                                    <th className="py-2 font-medium text-right">
+                                        Refunded
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.payments.map((payment) => (
+                                    <tr
+                                        key={payment.method}
+                                        className="border-b border-slate-50 text-slate-700"
+                                    >
+                                        <td className="py-2">{payment.method}</td>
+                                        <td className="py-2 text-right">
+                                            {payment.count}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            ${payment.amount.toLocaleString()}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            ${payment.refunded.toLocaleString()}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="bg-white rounded-xl p-6 border border-slate-100 shadow-sm">
+                        <h3 className="text-lg font-semibold text-slate-900 mb-4">
+                            Cashier Shifts
+                        </h3>
+                        {report.shifts.length === 0 ? (
+                            <p className="text-sm text-slate-500">
+                                No shifts in this period.
+                            </p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-500 border-b border-slate-100">
+                                        <th className="py-2 font-medium">
+                                            Cashier
+                                        </th>
+                                        <th className="py-2 font-medium">
+                                            Opened
+                                        </th>
+                                        <th className="py-2 font-medium">
+                                            Closed
+                                        </th>
+                                        <th className="py-2 font-medium text-right">
+                                            Float
+                                        </th>
+                                        <th className="py-2 font-medium text-right">
+                                            Expected
+                                        </th>
+                                        <th className="py-2 font-medium text-right">
+                                            Counted
+                                        </th>
+                                        <th className="py-2 font-medium text-right">
+                                            Over/Short
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.shifts.map((shift) => (
+                                        <tr
+                                            key={shift.id}
+                                            className="border-b border-slate-50 text-slate-700"
+                                        >
+                                            <td className="py-2">
+                                                {shift.cashier?.fullName}
+                                            </td>
+                                            <td className="py-2">
+                                                {new Date(
+                                                    shift.openedAt
+                                                ).toLocaleString()}
+                                            </td>
+                                            <td className="py-2">
+                                                {shift.closedAt
+                                                    ? new Date(
+                                                          shift.closedAt
+                                                      ).toLocaleString()
+                                                    : 'Open'}
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                ${money(shift.openingFloat)}
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                $
+                                                {shift.summary.expectedCash.toLocaleString()}
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                {shift.closedAt
+                                                    ? `$${money(shift.countedCash ?? 0)}`
+                                                    : '-'}
+                                            </td>
+                                            <td
+                                                className={`py-2 text-right ${
+                                                    Number(shift.overShort) < 0
+                                                        ? 'text-red-600'
+                                                        : ''
+                                                }`}
+                                            >
+                                                {shift.closedAt
+                                                    ? `$${money(shift.overShort ?? 0)}`
+                                                    : '-'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </>
+            )}
         </div>
     )
 }
@@ -1224,11 +2293,29 @@ function OperationalEfficiencyTab({
 export default function ReportsPage() {
     const [activeTab, setActiveTab] = useState('Financial')
     const [dateRange, setDateRange] = useState('30')
+    const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+    // Admins assigned to a restaurant only report on that restaurant
+    const assignedRestaurantId =
+        useUserStore((state) => state.user?.restaurantId) ?? undefined
+    const [restaurantId, setRestaurantId] = useState<number | undefined>(
+        assignedRestaurantId
+    )
+    const [fromDate, setFromDate] = useState('')
+    const [toDate, setToDate] = useState('')
+    const [timezone, setTimezone] = useState('')
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
 
     // State for real API data
-    const [stats, setStats] = useState({
+    const [stats, setStats] = useState<{
+        totalRevenue: number
+        totalOrders: number
+        activeTables: number
+        comparison?: {
+            totalRevenue: { previousValue: number; changePercent: number | null }
+            totalOrders: { previousValue: number; changePercent: number | null }
+        }
+    }>({
         totalRevenue: 0,
         totalOrders: 0,
         activeTables: 0,
@@ -1244,12 +2331,48 @@ export default function ReportsPage() {
     const [topModifiersData, setTopModifiersData] = useState<any[]>([])
     const [ratingVolumeData, setRatingVolumeData] = useState<any[]>([])
     const [prepTimeData, setPrepTimeData] = useState<any[]>([])
+    const [kitchenTimings, setKitchenTimings] = useState<any>(null)
+    const [discountSummary, setDiscountSummary] = useState<any>(null)
 
-    const tabs = ['Financial', 'Menu Insights', 'Operations']
+    const tabs = [
+        'Financial',
+        'Menu Insights',
+        'Operations',
+        'Reconciliation',
+        'Z-Report',
+    ]
+
+    useEffect(() => {
+        restaurantsApi
+            .getRestaurants()
+            .then(setRestaurants)
+            .catch(() => setRestaurants([]))
+    }, [])
 
     useEffect(() => {
+        // Wait for both ends of a custom range
+        if (dateRange === 'custom' && (!fromDate || !toDate)) {
+            return
+        }
         initializeAndFetchReportsData()
-    }, [dateRange])
+    }, [dateRange, restaurantId, fromDate, toDate, timezone])
+
+    const buildFilters = (): ReportFilters => {
+        const filters: ReportFilters = {}
+        if (restaurantId) {
+            filters.restaurantId = restaurantId
+        }
+        if (timezone) {
+            filters.timezone = timezone
+        }
+        if (dateRange === 'custom') {
+            filters.from = fromDate
+            filters.to = toDate
+        } else {
+            filters.range = dateRange as ReportFilters['range']
+        }
+        return filters
+    }
 
     const initializeAndFetchReportsData = async () => {
         try {
@@ -1303,6 +2426,7 @@ export default function ReportsPage() {
     }
 
     const fetchReportsData = async () => {
+        const filters = buildFilters()
         try {
             const [
                 statsData,
@@ -1317,19 +2441,23 @@ export default function ReportsPage() {
                 topModifiers,
                 ratingVolume,
                 prepTimeTrends,
+                kitchenTimingsData,
+                discounts,
             ] = await Promise.all([
-                reportsApi.getDashboardStats(),
-                reportsApi.getRevenueChart(dateRange),
-                reportsApi.getTopSellingItems(),
-                reportsApi.getPaymentMethodsBreakdown(),
-                reportsApi.getCategorySales(),
-                reportsApi.getVoidedItems(),
-                reportsApi.getPeakHours(),
-                reportsApi.getDayOfWeekRevenue(),
-                reportsApi.getMenuPerformance(),
-                reportsApi.getTopModifiers(),
-                reportsApi.getRatingVolume(),
-                reportsApi.getPrepTimeTrends(),
+                reportsApi.getDashboardStats(filters),
+                reportsApi.getRevenueChart(filters),
+                reportsApi.getTopSellingItems(filters),
+                reportsApi.getPaymentMethodsBreakdown(filters),
+                reportsApi.getCategorySales(filters),
+                reportsApi.getVoidedItems(filters),
+                reportsApi.getPeakHours(filters),
+                reportsApi.getDayOfWeekRevenue(filters),
+                reportsApi.getMenuPerformance(filters),
+                reportsApi.getTopModifiers(filters),
+                reportsApi.getRatingVolume(filters),
+                reportsApi.getPrepTimeTrends(filters),
+                reportsApi.getKitchenTimings(filters),
+                reportsApi.getDiscountSummary(filters),
             ])
 
             setStats(statsData)
@@ -1340,6 +2468,7 @@ export default function ReportsPage() {
                     date: label,
                     time: label,
                     revenue: revenueData.data[index],
+                    previousRevenue: revenueData.previousData?.[index] ?? 0,
                 })
             )
             setRevenueChartData(transformedData)
@@ -1370,6 +2499,8 @@ export default function ReportsPage() {
             setTopModifiersData(topModifiers || [])
             setRatingVolumeData(ratingVolume || [])
             setPrepTimeData(prepTimeTrends || [])
+            setKitchenTimings(kitchenTimingsData)
+            setDiscountSummary(discounts)
         } catch (err: any) {
             // Don't set error here if it's a 401 - let the interceptor handle it
             // The interceptor will try to refresh the token or redirect to login
@@ -1408,7 +2539,26 @@ export default function ReportsPage() {
                         Deep dive into your restaurant's performance
                     </p>
                 </div>
-                <DateRangeSelector value={dateRange} onChange={setDateRange} />
+                <div className="flex flex-wrap items-center gap-2">
+                    <ReportFiltersBar
+                        restaurants={restaurants}
+                        restaurantId={restaurantId}
+                        onRestaurantChange={setRestaurantId}
+                        restaurantLocked={!!assignedRestaurantId}
+                        from={fromDate}
+                        to={toDate}
+                        onFromChange={setFromDate}
+                        onToChange={setToDate}
+                        showCustomRange={dateRange === 'custom'}
+                        timezone={timezone}
+                        onTimezoneChange={setTimezone}
+                    />
+                    <DateRangeSelector
+                        value={dateRange}
+                        onChange={setDateRange}
+                    />
+                    <ExportMenu filters={buildFilters()} onError={setError} />
+                </div>
             </div>
 
             {/* Error Message */}
@@ -1432,6 +2582,7 @@ export default function ReportsPage() {
                             revenueChartData={revenueChartData}
                             paymentMethodsData={paymentMethodsData}
                             dayOfWeekRevenueData={dayOfWeekRevenueData}
+                            discountSummary={discountSummary}
                             loading={loading}
                         />
                     )}
@@ -1450,9 +2601,22 @@ export default function ReportsPage() {
                         <OperationalEfficiencyTab
                             peakHoursData={peakHoursData}
                             prepTimeData={prepTimeData}
+                            kitchenTimings={kitchenTimings}
                             loading={loading}
                         />
                     )}
+                    {activeTab === 'Reconciliation' && (
+                        <ReconciliationTab filters={buildFilters()} />
+                    )}
+                    {activeTab === 'Z-Report' && (
+                        <ZReportTab
+                            filters={buildFilters()}
+                            restaurantName={
+                                restaurants.find((r) => r.id === restaurantId)
+                                    ?.name || 'All restaurants'
+                            }
+                        />
+                    )}
                 </div>
             </div>
         </div>
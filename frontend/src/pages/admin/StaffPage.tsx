@@ -1,8 +1,17 @@
 import { useState, useEffect } from 'react'
-import { Plus, Mail, Phone, User as UserIcon, Edit, Trash2, X, Lock, Unlock } from 'lucide-react'
+import { Plus, Mail, Phone, Store, User as UserIcon, Edit, Trash2, X, Lock, Unlock, LogOut, Tablet, ShieldCheck } from 'lucide-react'
 import { motion } from 'framer-motion'
-import { apiClient, usersApi } from '../../services/api'
+import {
+    apiClient,
+    usersApi,
+    restaurantsApi,
+    staffRolesApi,
+    type Restaurant,
+    type StaffRoleWithCount,
+} from '../../services/api'
 import { useModal } from '../../contexts/ModalContext'
+import StaffDevicesModal from '../../components/admin/StaffDevicesModal'
+import StaffRolesModal from '../../components/admin/StaffRolesModal'
 
 // User role types
 type UserRoleType = 'ADMIN' | 'WAITER' | 'KITCHEN' | 'CUSTOMER'
@@ -12,12 +21,18 @@ interface StaffMember {
     email: string
     fullName: string
     role: UserRoleType | string
+    restaurantId?: number | null
+    staffRoleId?: number | null
+    staffRole?: { name: string } | null // Custom role replacing the role defaults
     isActive: boolean
     createdAt: string
     updatedAt: string
     phone?: string
 }
 
+// Base roles that can be given a custom role
+const CUSTOM_ROLE_BASES = ['WAITER', 'KITCHEN']
+
 // Map role types to Vietnamese role names
 const roleMap: Record<string, string> = {
     ADMIN: 'ADMIN',
@@ -36,14 +51,18 @@ function getInitials(name: string): string {
 
 function StaffCard({ 
     staff, 
+    restaurantName,
     onEdit, 
     onDelete,
-    onToggleActive
+    onToggleActive,
+    onSignOutEverywhere
 }: { 
     staff: StaffMember
+    restaurantName?: string
     onEdit: (staff: StaffMember) => void
     onDelete: (staff: StaffMember) => void
     onToggleActive: (staff: StaffMember) => void
+    onSignOutEverywhere: (staff: StaffMember) => void
 }) {
     const initials = getInitials(staff.fullName)
     const roleName = roleMap[staff.role] || staff.role
@@ -84,6 +103,7 @@ function StaffCard({
                     </div>
                     <p className="text-sm font-medium text-amber-600 mb-3">
                         {roleName}
+                        {staff.staffRole && ` · ${staff.staffRole.name}`}
                     </p>
 
                     {/* Contact Info */}
@@ -92,6 +112,12 @@ function StaffCard({
                             <Mail size={16} className="text-slate-400" />
                             <span className="truncate">{staff.email}</span>
                         </div>
+                        <div className="flex items-center gap-2 text-sm text-slate-600">
+                            <Store size={16} className="text-slate-400" />
+                            <span className="truncate">
+                                {restaurantName || 'No restaurant assigned'}
+                            </span>
+                        </div>
                         {staff.phone && (
                             <div className="flex items-center gap-2 text-sm text-slate-600">
                                 <Phone size={16} className="text-slate-400" />
@@ -131,6 +157,13 @@ function StaffCard({
                                 )}
                             </button>
                         </div>
+                        <button
+                            onClick={() => onSignOutEverywhere(staff)}
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 hover:bg-amber-100 text-slate-600 hover:text-amber-600 rounded-lg transition-colors text-sm font-medium"
+                        >
+                            <LogOut size={16} />
+                            Sign out everywhere
+                        </button>
                         <button
                             onClick={() => onDelete(staff)}
                             className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 hover:bg-red-100 text-slate-600 hover:text-red-600 rounded-lg transition-colors text-sm font-medium"
@@ -153,11 +186,27 @@ export default function StaffPage() {
     const [isAddModalOpen, setIsAddModalOpen] = useState(false)
     const [isEditModalOpen, setIsEditModalOpen] = useState(false)
     const [selectedStaff, setSelectedStaff] = useState<StaffMember | null>(null)
+    const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+    const [isDevicesModalOpen, setIsDevicesModalOpen] = useState(false)
+    const [isRolesModalOpen, setIsRolesModalOpen] = useState(false)
+    const [staffRoles, setStaffRoles] = useState<StaffRoleWithCount[]>([])
 
     useEffect(() => {
         fetchStaff()
+        fetchStaffRoles()
+        restaurantsApi
+            .getRestaurants()
+            .then(setRestaurants)
+            .catch(() => setRestaurants([]))
     }, [])
 
+    const fetchStaffRoles = () => {
+        staffRolesApi
+            .getRoles()
+            .then(setStaffRoles)
+            .catch(() => setStaffRoles([]))
+    }
+
     const fetchStaff = async () => {
         try {
             setLoading(true)
@@ -225,6 +274,34 @@ export default function StaffPage() {
         }
     }
 
+    const handleSignOutEverywhere = async (staffMember: StaffMember) => {
+        const confirmed = await confirm({
+            title: 'Sign Out Everywhere',
+            message: `Sign ${staffMember.fullName} out on every device? They will need to sign in again on each one.`,
+            type: 'warning',
+            confirmText: 'Sign out',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) {
+            return
+        }
+
+        try {
+            const { revoked } = await usersApi.signOutEverywhere(staffMember.id)
+            await alert({
+                title: 'Success',
+                message: `"${staffMember.fullName}" has been signed out of ${revoked} device(s).`,
+                type: 'success',
+            })
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to sign out staff: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
     const handleDelete = async (staffMember: StaffMember) => {
         const confirmed = await confirm({
             title: 'Delete Staff Member',
@@ -265,14 +342,19 @@ export default function StaffPage() {
         password?: string
         name: string
         role: string
+        restaurantId: number | null
+        pin?: string
+        staffRoleId: number | null
     }) => {
         try {
+            let staffId = selectedStaff?.id
             if (selectedStaff) {
                 // Update existing staff
                 await usersApi.updateUser(selectedStaff.id, {
                     email: formData.email,
                     fullName: formData.name,
                     role: formData.role,
+                    restaurantId: formData.restaurantId,
                 })
             } else {
                 // Create new staff
@@ -284,12 +366,25 @@ export default function StaffPage() {
                     })
                     return
                 }
-                await usersApi.createUser({
+                const created = await usersApi.createUser({
                     email: formData.email,
                     password: formData.password,
                     fullName: formData.name,
                     role: formData.role,
+                    restaurantId: formData.restaurantId ?? undefined,
                 })
+                staffId = created.id
+            }
+
+            if (formData.pin && staffId) {
+                await usersApi.setPin(staffId, formData.pin)
+            }
+
+            const staffRoleId = CUSTOM_ROLE_BASES.includes(formData.role)
+                ? formData.staffRoleId
+                : null
+            if (staffId && staffRoleId !== (selectedStaff?.staffRoleId ?? null)) {
+                await staffRolesApi.assignRole(staffId, staffRoleId)
             }
 
             // Refresh data
@@ -321,14 +416,30 @@ export default function StaffPage() {
                         Manage and assign roles to staff members
                     </p>
                 </div>
-                <button
-                    onClick={handleAddStaff}
-                    className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
-                >
-                    <UserIcon size={20} />
-                    <Plus size={20} />
-                    <span>Add Staff</span>
-                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setIsRolesModalOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+                    >
+                        <ShieldCheck size={20} />
+                        <span>Roles</span>
+                    </button>
+                    <button
+                        onClick={() => setIsDevicesModalOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+                    >
+                        <Tablet size={20} />
+                        <span>Shared Devices</span>
+                    </button>
+                    <button
+                        onClick={handleAddStaff}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
+                    >
+                        <UserIcon size={20} />
+                        <Plus size={20} />
+                        <span>Add Staff</span>
+                    </button>
+                </div>
             </div>
 
             {/* Error Message */}
@@ -372,9 +483,13 @@ export default function StaffPage() {
                         <StaffCard 
                             key={member.id} 
                             staff={member}
+                            restaurantName={
+                                restaurants.find((r) => r.id === member.restaurantId)?.name
+                            }
                             onEdit={handleEdit}
                             onDelete={handleDelete}
                             onToggleActive={handleToggleActive}
+                            onSignOutEverywhere={handleSignOutEverywhere}
                         />
                     ))}
                 </div>
@@ -387,6 +502,26 @@ export default function StaffPage() {
                     onClose={handleCloseModals}
                     onSave={handleSaveStaff}
                     staff={selectedStaff}
+                    restaurants={restaurants}
+                    staffRoles={staffRoles}
+                />
+            )}
+
+            {isRolesModalOpen && (
+                <StaffRolesModal
+                    restaurants={restaurants}
+                    onClose={() => {
+                        setIsRolesModalOpen(false)
+                        fetchStaffRoles()
+                        fetchStaff()
+                    }}
+                />
+            )}
+
+            {isDevicesModalOpen && (
+                <StaffDevicesModal
+                    restaurants={restaurants}
+                    onClose={() => setIsDevicesModalOpen(false)}
                 />
             )}
         </div>
@@ -399,6 +534,8 @@ function StaffModal({
     onClose,
     onSave,
     staff,
+    restaurants,
+    staffRoles,
 }: {
     isOpen: boolean
     onClose: () => void
@@ -407,28 +544,51 @@ function StaffModal({
         password?: string
         name: string
         role: string
+        restaurantId: number | null
+        pin?: string
+        staffRoleId: number | null
     }) => void
     staff: StaffMember | null
+    restaurants: Restaurant[]
+    staffRoles: StaffRoleWithCount[]
 }) {
     const { alert } = useModal()
     const [email, setEmail] = useState(staff?.email || '')
     const [password, setPassword] = useState('')
+    const [pin, setPin] = useState('')
     const [name, setName] = useState(staff?.fullName || '')
     const [role, setRole] = useState<string>(staff?.role || 'WAITER')
+    const [restaurantId, setRestaurantId] = useState<number | null>(
+        staff?.restaurantId ?? null
+    )
+    const [staffRoleId, setStaffRoleId] = useState<number | null>(
+        staff?.staffRoleId ?? null
+    )
+
+    // Roles offered at the chosen restaurant
+    const offeredRoles = staffRoles.filter(
+        (r) => r.restaurantId == null || r.restaurantId === restaurantId
+    )
 
     useEffect(() => {
         if (staff) {
             setEmail(staff.email)
             setPassword('') // Don't show password for existing users
+            setPin('')
             setName(staff.fullName)
             setRole(staff.role)
+            setRestaurantId(staff.restaurantId ?? null)
+            setStaffRoleId(staff.staffRoleId ?? null)
         } else {
             setEmail('')
             setPassword('')
+            setPin('')
             setName('')
             setRole('WAITER')
+            setRestaurantId(restaurants.length === 1 ? restaurants[0].id : null)
+            setStaffRoleId(null)
         }
-    }, [staff])
+    }, [staff, restaurants])
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
@@ -503,6 +663,16 @@ function StaffModal({
             return
         }
 
+        // Waiter and kitchen screens are scoped to the assigned restaurant
+        if (role !== 'ADMIN' && !restaurantId) {
+            await alert({
+                title: 'Validation Error',
+                message: 'Waiter and kitchen staff must be assigned to a restaurant',
+                type: 'warning',
+            })
+            return
+        }
+
         if (!staff && !password) {
             await alert({
                 title: 'Validation Error',
@@ -535,11 +705,25 @@ function StaffModal({
             }
         }
 
+        if (pin && !/^\d{4,6}$/.test(pin)) {
+            await alert({
+                title: 'Validation Error',
+                message: 'PIN must be 4 to 6 digits',
+                type: 'warning',
+            })
+            return
+        }
+
         onSave({
             email: trimmedEmail,
             password: password || undefined,
+            pin: pin || undefined,
+            staffRoleId: offeredRoles.some((r) => r.id === staffRoleId)
+                ? staffRoleId
+                : null,
             name: trimmedName,
             role,
+            restaurantId,
         })
     }
 
@@ -622,6 +806,69 @@ function StaffModal({
                         </select>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Restaurant{' '}
+                            {role !== 'ADMIN' && <span className="text-red-500">*</span>}
+                        </label>
+                        <select
+                            value={restaurantId ?? ''}
+                            onChange={(e) =>
+                                setRestaurantId(e.target.value ? Number(e.target.value) : null)
+                            }
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                            <option value="">
+                                {role === 'ADMIN' ? 'All restaurants' : 'Select a restaurant'}
+                            </option>
+                            {restaurants.map((restaurant) => (
+                                <option key={restaurant.id} value={restaurant.id}>
+                                    {restaurant.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {CUSTOM_ROLE_BASES.includes(role) && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Custom Role
+                            </label>
+                            <select
+                                value={staffRoleId ?? ''}
+                                onChange={(e) =>
+                                    setStaffRoleId(e.target.value ? Number(e.target.value) : null)
+                                }
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            >
+                                <option value="">None - role defaults</option>
+                                {offeredRoles.map((staffRole) => (
+                                    <option key={staffRole.id} value={staffRole.id}>
+                                        {staffRole.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            PIN
+                        </label>
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            maxLength={6}
+                            value={pin}
+                            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                            placeholder={staff ? 'Leave blank to keep the current PIN' : '4-6 digits'}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                        <p className="mt-1 text-xs text-slate-500">
+                            Used to switch users on shared devices
+                        </p>
+                    </div>
+
                     <div className="flex gap-3 pt-4">
                         <button
                             type="button"
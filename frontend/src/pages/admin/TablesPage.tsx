@@ -15,16 +15,33 @@ import {
     Printer,
     Eye,
     Copy,
+    CalendarClock,
+    Phone,
+    UserCheck,
+    Link2,
+    Unlink,
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import Fuse from 'fuse.js'
-import { tablesApi } from '../../services/api'
+import {
+    tablesApi,
+    reservationsApi,
+    type CreateReservationDto,
+} from '../../services/api'
 import { authService } from '../../services/auth.service'
-import { TableStatus } from '@aerodine/shared-types'
-import type { Table, TableStatusEvent } from '@aerodine/shared-types'
+import { TableStatus, ReservationStatus } from '@aerodine/shared-types'
+import type {
+    Table,
+    TableStatusEvent,
+    Reservation,
+} from '@aerodine/shared-types'
 import { useModal } from '../../contexts/ModalContext'
-import { useRestaurantRoom, useTableStatusChanged } from '../../hooks/useSocket'
-import { useUserStore } from '../../store/userStore'
+import {
+    useRestaurantRoom,
+    useTableStatusChanged,
+    useResyncRequired,
+} from '../../hooks/useSocket'
+import { useRestaurantContext } from '../../hooks/useRestaurantContext'
 import { getQRCodeImageUrl } from '../../utils/qrcode'
 
 // Table status types
@@ -82,8 +99,23 @@ const statusConfig: Record<
     },
 }
 
+// Bookings shown on the page: from the no-show grace period up to a day ahead
+const RESERVATION_LOOKBACK_MS = 20 * 60 * 1000
+const RESERVATION_LOOKAHEAD_MS = 24 * 60 * 60 * 1000
+
+const formatSlot = (value: Date | string) =>
+    new Date(value).toLocaleString([], {
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+
 function TableCard({
     table,
+    nextReservation,
+    joinedToName,
+    onJoin,
+    onSplit,
     onEdit,
     onDelete,
     onDownloadQR,
@@ -92,6 +124,10 @@ function TableCard({
     onViewQRUrl,
 }: {
     table: TableWithRestaurant
+    nextReservation?: Reservation
+    joinedToName?: string
+    onJoin: (table: TableWithRestaurant) => void
+    onSplit: (table: TableWithRestaurant) => void
     onEdit: (table: TableWithRestaurant) => void
     onDelete: (table: TableWithRestaurant) => void
     onDownloadQR: (table: TableWithRestaurant) => void
@@ -102,6 +138,7 @@ function TableCard({
     const statusKey = String(table.status)
     const config = statusConfig[statusKey] || statusConfig['AVAILABLE']
     const StatusIcon = config.icon
+    const joinedTables = table.joinedTables ?? []
 
     return (
         <motion.div
@@ -136,6 +173,35 @@ function TableCard({
                     <Users size={16} className="text-slate-400" />
                     <span>Capacity: {table.capacity} people</span>
                 </div>
+
+                {/* Joined tables */}
+                {joinedTables.length > 0 && (
+                    <div className="flex items-center gap-2 text-sm text-amber-700">
+                        <Link2 size={16} className="text-amber-500" />
+                        <span>
+                            Joined with{' '}
+                            {joinedTables.map((t) => t.name).join(', ')}
+                        </span>
+                    </div>
+                )}
+                {joinedToName && (
+                    <div className="flex items-center gap-2 text-sm text-amber-700">
+                        <Link2 size={16} className="text-amber-500" />
+                        <span>Joined to {joinedToName}</span>
+                    </div>
+                )}
+
+                {/* Next booking */}
+                {nextReservation && (
+                    <div className="flex items-center gap-2 text-sm text-blue-700">
+                        <CalendarClock size={16} className="text-blue-500" />
+                        <span>
+                            {formatSlot(nextReservation.reservedAt)} ·{' '}
+                            {nextReservation.contactName} (
+                            {nextReservation.partySize})
+                        </span>
+                    </div>
+                )}
             </div>
 
             {/* Actions */}
@@ -203,6 +269,33 @@ function TableCard({
                         <RefreshCw size={16} />
                         Regenerate
                     </button>
+                    {joinedTables.length > 0 ? (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onSplit(table)
+                            }}
+                            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 hover:bg-amber-100 text-slate-600 hover:text-amber-600 rounded-lg transition-colors text-sm font-medium"
+                            title="Split joined tables"
+                        >
+                            <Unlink size={16} />
+                            Split
+                        </button>
+                    ) : (
+                        !table.joinedToId && (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation()
+                                    onJoin(table)
+                                }}
+                                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 hover:bg-amber-100 text-slate-600 hover:text-amber-600 rounded-lg transition-colors text-sm font-medium"
+                                title="Join tables for a large party"
+                            >
+                                <Link2 size={16} />
+                                Join
+                            </button>
+                        )
+                    )}
                 </div>
             </div>
         </motion.div>
@@ -222,10 +315,14 @@ export default function TablesPage() {
     const [isAddModalOpen, setIsAddModalOpen] = useState(false)
     const [isEditModalOpen, setIsEditModalOpen] = useState(false)
     const [selectedTable, setSelectedTable] = useState<TableWithRestaurant | null>(null)
-    const [restaurantId, setRestaurantId] = useState<number | null>(null)
     const [qrUrlModal, setQrUrlModal] = useState<{ isOpen: boolean; qrUrl: string; tableName: string; qrImageUrl: string } | null>(null)
+    const [reservations, setReservations] = useState<Reservation[]>([])
+    const [isReservationModalOpen, setIsReservationModalOpen] = useState(false)
+    const [joinPrimary, setJoinPrimary] = useState<TableWithRestaurant | null>(
+        null
+    )
     const { confirm, alert } = useModal()
-    const { user } = useUserStore()
+    const { restaurantId, user } = useRestaurantContext()
 
     // Join restaurant room for real-time updates
     useRestaurantRoom(restaurantId || 0, user?.id)
@@ -234,6 +331,10 @@ export default function TablesPage() {
     const handleTableStatusChanged = useCallback(
         (event: TableStatusEvent) => {
             console.log('🔔 Table status changed via Socket:', event)
+            // Holds and no-show releases also change the booking list
+            if (event.reservationId) {
+                fetchReservations()
+            }
             setTables((prev) =>
                 prev.map((table) => {
                     if (table.id === event.tableId) {
@@ -246,14 +347,17 @@ export default function TablesPage() {
                 })
             )
         },
-        []
+        [restaurantId]
     )
 
     useTableStatusChanged(handleTableStatusChanged)
+    useResyncRequired(() => {
+        initializeAndFetchTables()
+    })
 
     useEffect(() => {
         initializeAndFetchTables()
-    }, [])
+    }, [restaurantId])
 
     const initializeAndFetchTables = async () => {
         try {
@@ -269,7 +373,7 @@ export default function TablesPage() {
                 }
             }
 
-            await fetchTables()
+            await Promise.all([fetchTables(), fetchReservations()])
         } catch {
             setError('Unable to load table list. Please check if backend is running.')
         } finally {
@@ -278,16 +382,11 @@ export default function TablesPage() {
     }
 
     const fetchTables = async () => {
+        // Wait until the logged-in admin's restaurant is known
+        if (!restaurantId) return
         try {
-            const tablesData = await tablesApi.getTables()
+            const tablesData = await tablesApi.getTables(restaurantId)
             setTables(Array.isArray(tablesData) ? tablesData : [])
-            // Get restaurantId from first table if available
-            if (tablesData && Array.isArray(tablesData) && tablesData.length > 0 && tablesData[0].restaurantId) {
-                setRestaurantId(tablesData[0].restaurantId)
-            } else {
-                // Fallback: use restaurantId = 2 (matches current database)
-                setRestaurantId(2)
-            }
         } catch (err: any) {
             if (err.response?.status === 401) {
                 setError('Authentication required. Please login.')
@@ -301,6 +400,34 @@ export default function TablesPage() {
         }
     }
 
+    const fetchReservations = async () => {
+        if (!restaurantId) return
+        try {
+            const now = Date.now()
+            const data = await reservationsApi.getReservations({
+                restaurantId,
+                status: ReservationStatus.BOOKED,
+                from: new Date(now - RESERVATION_LOOKBACK_MS).toISOString(),
+                to: new Date(now + RESERVATION_LOOKAHEAD_MS).toISOString(),
+            })
+            setReservations(Array.isArray(data) ? data : [])
+        } catch {
+            // Bookings are secondary to the table list; keep the page usable
+            setReservations([])
+        }
+    }
+
+    // Earliest upcoming booking per table
+    const nextReservationByTable = useMemo(() => {
+        const map = new Map<number, Reservation>()
+        for (const reservation of reservations) {
+            if (reservation.tableId && !map.has(reservation.tableId)) {
+                map.set(reservation.tableId, reservation)
+            }
+        }
+        return map
+    }, [reservations])
+
     const filteredTables = useMemo(() => {
         // First filter by status
         let result = tables.filter((table) => {
@@ -658,6 +785,109 @@ export default function TablesPage() {
         }
     }
 
+    const handleCreateReservation = async (
+        data: Omit<CreateReservationDto, 'restaurantId'>
+    ) => {
+        if (!restaurantId) return
+        try {
+            await reservationsApi.createReservation({ ...data, restaurantId })
+            setIsReservationModalOpen(false)
+            await fetchReservations()
+            await alert({
+                title: 'Success',
+                message: `Reservation for ${data.contactName} has been booked.`,
+                type: 'success',
+            })
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to book table: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleSeatReservation = async (reservation: Reservation) => {
+        try {
+            await reservationsApi.seatReservation(reservation.id)
+            setReservations((prev) =>
+                prev.filter((r) => r.id !== reservation.id)
+            )
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to seat reservation: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleCancelReservation = async (reservation: Reservation) => {
+        const confirmed = await confirm({
+            title: 'Cancel Reservation',
+            message: `Cancel the booking of ${reservation.contactName} at ${formatSlot(reservation.reservedAt)}?`,
+            type: 'warning',
+            confirmText: 'Cancel Booking',
+            cancelText: 'Keep',
+        })
+        if (!confirmed) {
+            return
+        }
+
+        try {
+            await reservationsApi.cancelReservation(reservation.id)
+            setReservations((prev) =>
+                prev.filter((r) => r.id !== reservation.id)
+            )
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to cancel reservation: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleJoinTables = async (tableIds: number[]) => {
+        if (!joinPrimary) return
+        try {
+            await tablesApi.joinTables(joinPrimary.id, tableIds)
+            setJoinPrimary(null)
+            // Joined tables and moved orders change several cards at once
+            await fetchTables()
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to join tables: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
+    const handleSplitTables = async (table: TableWithRestaurant) => {
+        const confirmed = await confirm({
+            title: 'Split Tables',
+            message: `Split the tables joined to ${table.name}? Orders stay on ${table.name}.`,
+            type: 'warning',
+            confirmText: 'Split',
+            cancelText: 'Cancel',
+        })
+        if (!confirmed) {
+            return
+        }
+
+        try {
+            await tablesApi.splitTables(table.id)
+            await fetchTables()
+        } catch (err: any) {
+            await alert({
+                title: 'Error',
+                message: `Unable to split tables: ${err.response?.data?.message || err.message || 'Unknown error'}`,
+                type: 'error',
+            })
+        }
+    }
+
     const stats = {
         total: tables.length,
         available: tables.filter((t) => String(t.status) === 'AVAILABLE')
@@ -680,13 +910,23 @@ export default function TablesPage() {
                         Manage and track table status
                     </p>
                 </div>
-                <button
-                    onClick={handleAddTable}
-                    className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
-                >
-                    <Plus size={20} />
-                    Add Table
-                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setIsReservationModalOpen(true)}
+                        disabled={!restaurantId}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg font-medium transition-colors shadow-sm disabled:opacity-50"
+                    >
+                        <CalendarClock size={20} />
+                        New Reservation
+                    </button>
+                    <button
+                        onClick={handleAddTable}
+                        className="flex items-center gap-2 px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
+                    >
+                        <Plus size={20} />
+                        Add Table
+                    </button>
+                </div>
             </div>
 
             {/* Stats */}
@@ -723,6 +963,70 @@ export default function TablesPage() {
                 </div>
             </div>
 
+            {/* Upcoming Reservations */}
+            {reservations.length > 0 && (
+                <div className="bg-white rounded-lg shadow-sm border border-slate-200">
+                    <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-2">
+                        <CalendarClock size={18} className="text-blue-500" />
+                        <h2 className="text-base font-semibold text-slate-900">
+                            Upcoming Reservations
+                        </h2>
+                    </div>
+                    <div className="divide-y divide-slate-100">
+                        {reservations.map((reservation) => (
+                            <div
+                                key={reservation.id}
+                                className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-slate-900">
+                                        {formatSlot(reservation.reservedAt)} ·{' '}
+                                        {reservation.contactName}
+                                    </p>
+                                    <p className="text-xs text-slate-500 flex items-center gap-3 mt-0.5">
+                                        <span className="flex items-center gap-1">
+                                            <Users size={12} />
+                                            {reservation.partySize} guests
+                                        </span>
+                                        <span className="flex items-center gap-1">
+                                            <Phone size={12} />
+                                            {reservation.contactPhone}
+                                        </span>
+                                        <span>
+                                            {reservation.table?.name ?? 'No table'}
+                                        </span>
+                                        {reservation.note && (
+                                            <span className="truncate">
+                                                {reservation.note}
+                                            </span>
+                                        )}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() =>
+                                            handleSeatReservation(reservation)
+                                        }
+                                        className="flex items-center gap-1 px-3 py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-sm font-medium transition-colors"
+                                    >
+                                        <UserCheck size={16} />
+                                        Seat
+                                    </button>
+                                    <button
+                                        onClick={() =>
+                                            handleCancelReservation(reservation)
+                                        }
+                                        className="px-3 py-1.5 bg-slate-100 hover:bg-red-100 text-slate-600 hover:text-red-600 rounded-lg text-sm font-medium transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Filters */}
             <div className="flex flex-col sm:flex-row gap-4">
                 {/* Search */}
@@ -810,6 +1114,15 @@ export default function TablesPage() {
                             <TableCard
                                 key={table.id}
                                 table={table}
+                                nextReservation={nextReservationByTable.get(
+                                    table.id
+                                )}
+                                joinedToName={
+                                    tables.find((t) => t.id === table.joinedToId)
+                                        ?.name
+                                }
+                                onJoin={setJoinPrimary}
+                                onSplit={handleSplitTables}
                                 onEdit={handleEdit}
                                 onDelete={handleDelete}
                                 onDownloadQR={handleDownloadQR}
@@ -900,6 +1213,25 @@ export default function TablesPage() {
                 />
             )}
 
+            {/* Reservation Modal */}
+            {isReservationModalOpen && (
+                <ReservationModal
+                    tables={tables}
+                    onClose={() => setIsReservationModalOpen(false)}
+                    onSave={handleCreateReservation}
+                />
+            )}
+
+            {/* Join Tables Modal */}
+            {joinPrimary && (
+                <JoinTablesModal
+                    primary={joinPrimary}
+                    tables={tables}
+                    onClose={() => setJoinPrimary(null)}
+                    onSave={handleJoinTables}
+                />
+            )}
+
             {/* QR URL Modal */}
             {qrUrlModal && qrUrlModal.isOpen && (
                 <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
@@ -1203,3 +1535,339 @@ function TableModal({
         </div>
     )
 }
+
+// Reservation Modal Component
+function ReservationModal({
+    tables,
+    onClose,
+    onSave,
+}: {
+    tables: TableWithRestaurant[]
+    onClose: () => void
+    onSave: (data: Omit<CreateReservationDto, 'restaurantId'>) => void
+}) {
+    const { alert } = useModal()
+    const [contactName, setContactName] = useState('')
+    const [contactPhone, setContactPhone] = useState('')
+    const [contactEmail, setContactEmail] = useState('')
+    const [partySize, setPartySize] = useState('2')
+    const [reservedAt, setReservedAt] = useState('')
+    const [durationMinutes, setDurationMinutes] = useState('90')
+    const [tableId, setTableId] = useState('')
+    const [note, setNote] = useState('')
+
+    const partySizeNum = parseInt(partySize) || 0
+    // Only tables that can seat the party are offered
+    const fittingTables = tables.filter(
+        (table) => table.isActive !== false && table.capacity >= partySizeNum
+    )
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        if (!contactName.trim() || !contactPhone.trim()) {
+            await alert({
+                title: 'Validation Error',
+                message: 'Contact name and phone are required',
+                type: 'warning',
+            })
+            return
+        }
+
+        if (partySizeNum < 1) {
+            await alert({
+                title: 'Validation Error',
+                message: 'Party size must be at least 1',
+                type: 'warning',
+            })
+            return
+        }
+
+        const slot = new Date(reservedAt)
+        if (!reservedAt || isNaN(slot.getTime()) || slot.getTime() < Date.now()) {
+            await alert({
+                title: 'Validation Error',
+                message: 'Please pick a time in the future',
+                type: 'warning',
+            })
+            return
+        }
+
+        onSave({
+            contactName: contactName.trim(),
+            contactPhone: contactPhone.trim(),
+            contactEmail: contactEmail.trim() || undefined,
+            partySize: partySizeNum,
+            reservedAt: slot.toISOString(),
+            durationMinutes: parseInt(durationMinutes) || 90,
+            tableId: tableId ? Number(tableId) : undefined,
+            note: note.trim() || undefined,
+        })
+    }
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        New Reservation
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Contact Name <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={contactName}
+                            onChange={(e) => setContactName(e.target.value)}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            required
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Phone <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="tel"
+                                value={contactPhone}
+                                onChange={(e) => setContactPhone(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Email
+                            </label>
+                            <input
+                                type="email"
+                                value={contactEmail}
+                                onChange={(e) => setContactEmail(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Party Size <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={partySize}
+                                onChange={(e) => setPartySize(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">
+                                Duration (min)
+                            </label>
+                            <input
+                                type="number"
+                                min="15"
+                                max="480"
+                                step="15"
+                                value={durationMinutes}
+                                onChange={(e) => setDurationMinutes(e.target.value)}
+                                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Time <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="datetime-local"
+                            value={reservedAt}
+                            onChange={(e) => setReservedAt(e.target.value)}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                            required
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Table
+                        </label>
+                        <select
+                            value={tableId}
+                            onChange={(e) => setTableId(e.target.value)}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        >
+                            <option value="">Auto-assign smallest free table</option>
+                            {fittingTables.map((table) => (
+                                <option key={table.id} value={table.id}>
+                                    {table.name} ({table.capacity} seats)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Note
+                        </label>
+                        <textarea
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            rows={2}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                        >
+                            Book
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    )
+}
+
+function JoinTablesModal({
+    primary,
+    tables,
+    onClose,
+    onSave,
+}: {
+    primary: TableWithRestaurant
+    tables: TableWithRestaurant[]
+    onClose: () => void
+    onSave: (tableIds: number[]) => void
+}) {
+    const [selectedIds, setSelectedIds] = useState<number[]>([])
+
+    // Tables already part of another join cannot be pushed together again
+    const candidates = tables.filter(
+        (table) =>
+            table.id !== primary.id &&
+            table.isActive !== false &&
+            !table.joinedToId &&
+            !table.joinedTables?.length
+    )
+    const seats =
+        primary.capacity +
+        candidates
+            .filter((table) => selectedIds.includes(table.id))
+            .reduce((sum, table) => sum + table.capacity, 0)
+
+    const toggle = (id: number) =>
+        setSelectedIds((prev) =>
+            prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+        )
+
+    return (
+        <div className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+            >
+                <div className="sticky top-0 bg-white border-b border-slate-200 p-6 flex items-center justify-between">
+                    <h2 className="text-2xl font-semibold text-slate-900">
+                        Join Tables to {primary.name}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                        <X size={24} className="text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {candidates.length === 0 ? (
+                        <p className="text-sm text-slate-500">
+                            No other tables can be joined right now.
+                        </p>
+                    ) : (
+                        <div className="space-y-2">
+                            {candidates.map((table) => (
+                                <label
+                                    key={table.id}
+                                    className="flex items-center justify-between gap-3 px-4 py-2 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50"
+                                >
+                                    <span className="flex items-center gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.includes(
+                                                table.id
+                                            )}
+                                            onChange={() => toggle(table.id)}
+                                            className="w-4 h-4 text-amber-600 border-slate-300 rounded focus:ring-amber-500"
+                                        />
+                                        <span className="text-sm font-medium text-slate-700">
+                                            {table.name}
+                                        </span>
+                                    </span>
+                                    <span className="text-xs text-slate-500">
+                                        {table.capacity} seats ·{' '}
+                                        {statusConfig[String(table.status)]
+                                            ?.label ?? table.status}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <p className="text-sm text-slate-600">
+                        Seats after joining: {seats}. Open orders of the
+                        selected tables move to {primary.name}.
+                    </p>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            disabled={selectedIds.length === 0}
+                            onClick={() => onSave(selectedIds)}
+                            className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50"
+                        >
+                            Join
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
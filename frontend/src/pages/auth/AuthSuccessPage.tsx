@@ -3,16 +3,18 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useUserStore } from '../../store/userStore';
 import { cartStore } from '../../store/cartStore';
 import { authService } from '../../services/auth.service';
+import { reconnectSocket } from '../../services/socket';
 
 /**
  * Handles successful Google OAuth authentication
- * Receives token from query parameter and stores it
+ * Receives tokens from query parameters and stores them
  */
 export const AuthSuccessPage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const setUser = useUserStore((state) => state.setUser);
   const token = searchParams.get('token');
+  const refreshToken = searchParams.get('refreshToken');
 
   useEffect(() => {
     if (!token) {
@@ -21,8 +23,11 @@ export const AuthSuccessPage: React.FC = () => {
       return;
     }
 
-    // Store token
+    // Store tokens
     localStorage.setItem('token', token);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
 
     // Fetch user profile to get full user data
     const initializeAuth = async () => {
@@ -36,6 +41,7 @@ export const AuthSuccessPage: React.FC = () => {
         }
 
         setUser(user);
+        reconnectSocket();
 
         // Clear cart when user logs in via Google OAuth
         // This ensures each user starts with a fresh cart
@@ -60,7 +66,7 @@ export const AuthSuccessPage: React.FC = () => {
     };
 
     initializeAuth();
-  }, [token, navigate, setUser]);
+  }, [token, refreshToken, navigate, setUser]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
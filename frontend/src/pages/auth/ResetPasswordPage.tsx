@@ -32,8 +32,14 @@ export const ResetPasswordPage: React.FC = () => {
       const response = await authService.verifyOtp({ email, otpCode });
       if (response.verified) {
         setStep('reset');
+      } else if (response.attemptsLeft > 0) {
+        setError(
+          `Mã xác nhận không đúng. Bạn còn ${response.attemptsLeft} lần thử`,
+        );
       } else {
-        setError('Mã xác nhận không đúng hoặc đã hết hạn');
+        setError(
+          'Mã xác nhận không đúng hoặc đã hết hạn. Vui lòng yêu cầu mã mới',
+        );
       }
     } catch (err: any) {
       setError(
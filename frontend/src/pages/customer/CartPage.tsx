@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCartStore } from '../../store/cartStore';
 import { BottomNavigation } from '../../components/customer';
-import { apiClient } from '../../services/api';
+import { apiClient, promoCodesApi } from '../../services/api';
+import type { PromoCodeRedemption } from '@aerodine/shared-types';
 import { formatVND } from '../../utils/currency';
 import { useModal } from '../../contexts/ModalContext';
 import { getOrCreateGuestSessionId, updateGuestSessionId } from '../../utils/guestSession';
@@ -28,6 +29,12 @@ export const CartPage: React.FC = () => {
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
   const [orderId, setOrderId] = useState<number | null>(null);
   const [orderTotal, setOrderTotal] = useState<number>(0);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCodeRedemption | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+
+  const subtotal = getTotal();
 
   // Sync tableInputValue with tableId from cart store (when set from QR code)
   useEffect(() => {
@@ -58,9 +65,45 @@ export const CartPage: React.FC = () => {
 
   // Calculate total before placing order
   const calculateOrderTotal = (): number => {
-    return getTotal();
+    return subtotal - (appliedPromo?.discountAmount ?? 0);
+  };
+
+  // Check a promo code against the cart; the server applies it again
+  // to its own prices when the order is placed
+  const applyPromoCode = async (code: string) => {
+    if (!code.trim()) return;
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      const redemption = await promoCodesApi.redeem({
+        restaurantId: restaurantId || 4,
+        code: code.trim(),
+        subtotal,
+      });
+      setAppliedPromo(redemption);
+      setPromoInput(redemption.code);
+    } catch (error: any) {
+      setAppliedPromo(null);
+      setPromoError(error.response?.data?.message || 'This promo code cannot be used');
+    } finally {
+      setIsApplyingPromo(false);
+    }
   };
 
+  const removePromoCode = () => {
+    setAppliedPromo(null);
+    setPromoError(null);
+    setPromoInput('');
+  };
+
+  // Re-check the code when the cart changes (minimum spend, percent off)
+  useEffect(() => {
+    if (appliedPromo && items.length > 0) {
+      applyPromoCode(appliedPromo.code);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subtotal]);
+
   const handlePlaceOrder = async () => {
     if (!tableId) {
       await alert({
@@ -102,6 +145,7 @@ export const CartPage: React.FC = () => {
         restaurantId: restaurantId || 4, // Default to 4 if not set
         guestCount,
         note: note || undefined,
+        promoCode: appliedPromo?.code,
         items: items.map((item) => ({
           menuItemId: item.menuItemId,
           quantity: item.quantity,
@@ -149,7 +193,7 @@ export const CartPage: React.FC = () => {
 
       // Store order info for success dialog BEFORE clearing cart
       setOrderId(createdOrderId);
-      setOrderTotal(total);
+      setOrderTotal(Number(response.data.totalAmount ?? total));
 
       // Show success dialog first
       setIsPlacingOrder(false);
@@ -407,12 +451,70 @@ export const CartPage: React.FC = () => {
           />
         </div>
 
+        {/* Promo Code */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-[#36454F] mb-2">
+            Promo Code:
+          </label>
+          {appliedPromo ? (
+            <div className="flex items-center justify-between p-3 bg-[#8A9A5B]/10 border border-[#8A9A5B]/30 rounded-xl">
+              <div>
+                <p className="text-sm font-bold text-[#36454F]">{appliedPromo.code}</p>
+                {appliedPromo.description && (
+                  <p className="text-xs text-[#36454F]/70">{appliedPromo.description}</p>
+                )}
+              </div>
+              <button
+                onClick={removePromoCode}
+                className="text-xs text-[#8A9A5B] hover:text-[#6B7A4A] font-medium transition-colors duration-200"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={promoInput}
+                onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    applyPromoCode(promoInput);
+                  }
+                }}
+                className="flex-1 px-4 py-3 bg-white text-[#36454F] border border-[#8A9A5B]/30 rounded-xl focus:ring-2 focus:ring-[#8A9A5B]/30 focus:border-[#8A9A5B] transition-all duration-200 placeholder:text-[#36454F]/50 shadow-sm"
+                placeholder="Enter promo code"
+              />
+              <button
+                onClick={() => applyPromoCode(promoInput)}
+                disabled={isApplyingPromo || !promoInput.trim()}
+                className="px-4 py-2 bg-[#8A9A5B] text-white rounded-xl hover:bg-[#6B7A4A] transition-all duration-200 text-sm font-medium disabled:opacity-50"
+              >
+                {isApplyingPromo ? 'Checking...' : 'Apply'}
+              </button>
+            </div>
+          )}
+          {promoError && <p className="mt-1 text-xs text-red-500">{promoError}</p>}
+        </div>
+
         {/* Subtotal */}
-        <div className="mb-6 border-t border-[#8A9A5B]/20 pt-4">
+        <div className="mb-6 border-t border-[#8A9A5B]/20 pt-4 space-y-2">
           <div className="flex justify-between items-center">
             <span className="text-lg font-semibold text-[#36454F]">Subtotal:</span>
-            <span className="text-lg font-bold text-[#8A9A5B]">{formatVND(getTotal())}</span>
+            <span className="text-lg font-bold text-[#8A9A5B]">{formatVND(subtotal)}</span>
           </div>
+          {appliedPromo && (
+            <>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-[#36454F]">Discount ({appliedPromo.code}):</span>
+                <span className="text-sm font-medium text-red-500">-{formatVND(appliedPromo.discountAmount)}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-lg font-semibold text-[#36454F]">Total:</span>
+                <span className="text-lg font-bold text-[#8A9A5B]">{formatVND(calculateOrderTotal())}</span>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Place Order Button */}
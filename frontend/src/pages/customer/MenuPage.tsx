@@ -116,6 +116,8 @@ export const MenuPage: React.FC = () => {
           console.log('MenuPage: Setting tableId to cart store:', result.tableId);
           setTableId(result.tableId);
           setRestaurantId(result.restaurantId);
+          // Kept so order tracking can prove table access when joining its socket room
+          localStorage.setItem(`table_token_${result.tableId}`, token);
           
           console.log('MenuPage: tableId set, restaurantId set:', result.restaurantId);
           
@@ -176,9 +176,10 @@ export const OrderTrackingPage: React.FC = () => {
     }
   }, [isAuthenticated, setUser]);
 
-  // Helper function to check if order is paid (payment status is SUCCESS)
+  // Helper function to check if order is paid in full
+  // Split bills can have several payments, the order completes once the balance is 0
   const isOrderPaid = (order: Order): boolean => {
-    return order.payment?.status === 'SUCCESS';
+    return order.status === 'COMPLETED' && !!order.payments?.some((p) => p.status === 'SUCCESS');
   };
 
 
@@ -492,10 +493,30 @@ export const OrderTrackingPage: React.FC = () => {
 
   const handleRequestBill = async (orderId: number) => {
     try {
-      await orderService.requestBill(orderId);
+      const bill = await orderService.requestBill(orderId);
+      // Breakdown lines, skipping charges the restaurant does not apply
+      const lines = [`Subtotal: ${formatVND(Number(bill.subtotal))}`];
+      if (Number(bill.discountAmount) > 0) {
+        lines.push(`Discount: -${formatVND(Number(bill.discountAmount))}`);
+      }
+      if (Number(bill.serviceCharge) > 0) {
+        lines.push(
+          `Service charge (${Number(bill.serviceChargeRate)}%): ${formatVND(Number(bill.serviceCharge))}`
+        );
+      }
+      if (Number(bill.taxAmount) > 0) {
+        lines.push(`VAT (${Number(bill.taxRate)}%): ${formatVND(Number(bill.taxAmount))}`);
+      }
+      if (Number(bill.tipAmount) > 0) {
+        lines.push(`Tip: ${formatVND(Number(bill.tipAmount))}`);
+      }
+      lines.push(`Total: ${formatVND(Number(bill.totalAmount))}`);
+      if (Number(bill.paidAmount) > 0) {
+        lines.push(`Balance due: ${formatVND(Number(bill.balanceDue))}`);
+      }
       await alert({
         title: 'Thành công',
-        message: 'Bill request has been sent to the waiter',
+        message: `Bill request has been sent to the waiter\n\n${lines.join('\n')}`,
         type: 'success',
       });
     } catch (error: any) {
@@ -1,6 +1,8 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useCartStore } from '../../store/cartStore';
+import { useUserStore } from '../../store/userStore';
+import { orderService } from '../../services/order.service';
 
 export const PaymentSuccessPage: React.FC = () => {
   const navigate = useNavigate();
@@ -8,6 +10,12 @@ export const PaymentSuccessPage: React.FC = () => {
   const { tableId } = useCartStore();
   const [isLoading, setIsLoading] = useState(true);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const { isAuthenticated, user } = useUserStore();
+  const [receiptEmail, setReceiptEmail] = useState('');
+  const [isSendingReceipt, setIsSendingReceipt] = useState(false);
+  const [receiptMessage, setReceiptMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const redirectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isRedirecting, setIsRedirecting] = useState(true);
 
   useEffect(() => {
     const sessionId = searchParams.get('session_id');
@@ -32,6 +40,7 @@ export const PaymentSuccessPage: React.FC = () => {
           }
         }
       }, 3000);
+      redirectTimer.current = timer;
 
       return () => clearTimeout(timer);
     } else {
@@ -40,6 +49,61 @@ export const PaymentSuccessPage: React.FC = () => {
     }
   }, [searchParams, navigate]);
 
+  useEffect(() => {
+    if (isAuthenticated && user?.email) {
+      setReceiptEmail(user.email);
+    }
+  }, [isAuthenticated, user]);
+
+  // Stay on the page while the customer deals with the receipt
+  const cancelRedirect = () => {
+    if (redirectTimer.current) {
+      clearTimeout(redirectTimer.current);
+      redirectTimer.current = null;
+    }
+    setIsRedirecting(false);
+  };
+
+  const handleEmailReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId) return;
+    cancelRedirect();
+    setIsSendingReceipt(true);
+    setReceiptMessage(null);
+    try {
+      const result = await orderService.emailReceipt(
+        Number(orderId),
+        receiptEmail.trim() || undefined
+      );
+      setReceiptMessage({ text: result.message, error: false });
+    } catch (error: any) {
+      setReceiptMessage({
+        text: error.response?.data?.message || 'Failed to send receipt. Please try again.',
+        error: true,
+      });
+    } finally {
+      setIsSendingReceipt(false);
+    }
+  };
+
+  const handleDownloadReceipt = async () => {
+    if (!orderId) return;
+    cancelRedirect();
+    try {
+      const blob = await orderService.getReceipt(Number(orderId), 'pdf');
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to download receipt:', error);
+      setReceiptMessage({
+        // Blob responses carry no parsed message
+        text: 'Receipt is not available yet. Please try again in a moment.',
+        error: true,
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-8 bg-[#F9F7F2] min-h-screen">
@@ -83,9 +147,49 @@ export const PaymentSuccessPage: React.FC = () => {
                 <p className="text-sm text-[#36454F]">Order ID: <span className="font-semibold">#{orderId}</span></p>
               </div>
             )}
-            <p className="text-sm text-[#36454F]/70">
-              Redirecting to your order tracking page...
-            </p>
+            {orderId && (
+              <form
+                onSubmit={handleEmailReceipt}
+                className="border border-[#8A9A5B]/20 rounded-lg p-4 text-left space-y-3"
+              >
+                <p className="text-sm font-medium text-[#36454F]">Get your receipt</p>
+                <input
+                  type="email"
+                  value={receiptEmail}
+                  onChange={(e) => setReceiptEmail(e.target.value)}
+                  onFocus={cancelRedirect}
+                  placeholder="Email address"
+                  required={!isAuthenticated}
+                  className="w-full px-3 py-2 border border-[#8A9A5B]/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#8A9A5B]"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={isSendingReceipt}
+                    className="flex-1 px-4 py-2 bg-[#8A9A5B] text-white rounded-lg hover:bg-[#6B7A4A] transition-colors duration-200 text-sm font-medium disabled:opacity-50"
+                  >
+                    {isSendingReceipt ? 'Sending...' : 'Email Receipt'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDownloadReceipt}
+                    className="px-4 py-2 border border-[#8A9A5B] text-[#8A9A5B] rounded-lg hover:bg-[#8A9A5B]/10 transition-colors duration-200 text-sm font-medium"
+                  >
+                    Download PDF
+                  </button>
+                </div>
+                {receiptMessage && (
+                  <p className={`text-sm ${receiptMessage.error ? 'text-red-600' : 'text-[#8A9A5B]'}`}>
+                    {receiptMessage.text}
+                  </p>
+                )}
+              </form>
+            )}
+            {isRedirecting && (
+              <p className="text-sm text-[#36454F]/70">
+                Redirecting to your order tracking page...
+              </p>
+            )}
             <button
               onClick={() => {
                 if (orderId) {
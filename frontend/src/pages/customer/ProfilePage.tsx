@@ -7,6 +7,7 @@ import { authService } from '../../services/auth.service'
 import { useUserStore } from '../../store/userStore'
 import { useModal } from '../../contexts/ModalContext'
 import { BottomNavigation } from '../../components/customer'
+import SessionsList from '../../components/common/SessionsList'
 
 interface UserProfile {
     id: number
@@ -536,6 +537,16 @@ export default function CustomerProfilePage() {
                     )}
                 </motion.div>
 
+                {/* Signed-in Devices */}
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-white rounded-xl p-6 border border-[#8A9A5B]/20 shadow-sm"
+                >
+                    <h2 className="text-lg font-semibold text-[#36454F] mb-4">Signed-in Devices</h2>
+                    <SessionsList />
+                </motion.div>
+
                 {/* Account Info */}
                 {user && (
                     <motion.div
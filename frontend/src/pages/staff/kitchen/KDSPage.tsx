@@ -1,10 +1,12 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Clock } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Clock, Send } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { orderService } from '../../../services/order.service'
 import { authService } from '../../../services/auth.service'
+import { menusApi, type KitchenStation } from '../../../services/api'
 import { OrderItemStatus } from '@aerodine/shared-types'
-import { useKitchenEvents } from '../../../hooks/useSocket'
+import { useKitchenEvents, useResyncRequired } from '../../../hooks/useSocket'
+import { useRestaurantContext } from '../../../hooks/useRestaurantContext'
 import { useModal } from '../../../contexts/ModalContext'
 import type { KitchenOrderEvent, OrderItemStatusChangedEvent } from '@aerodine/shared-types'
 
@@ -15,6 +17,7 @@ interface OrderItem {
     pricePerUnit: number
     status: OrderItemStatus
     name: string
+    stationId?: number | null
     menuItem?: {
         id: number
         name: string
@@ -41,6 +44,18 @@ interface Order {
     items: OrderItem[]
 }
 
+// 'all' shows every item, a number shows one station, 'expo' shows whole tickets for bumping
+type KdsView = 'all' | 'expo' | number
+
+const KDS_VIEW_STORAGE_KEY = 'kds_view'
+
+const loadKdsView = (): KdsView => {
+    const stored = localStorage.getItem(KDS_VIEW_STORAGE_KEY)
+    if (stored === 'expo') return 'expo'
+    const stationId = Number(stored)
+    return stored && Number.isInteger(stationId) && stationId > 0 ? stationId : 'all'
+}
+
 interface TicketCardProps {
     order: Order
     onStatusChange: (orderId: number, itemId: number, newStatus: OrderItemStatus) => void
@@ -161,18 +176,131 @@ function TicketCard({ order, onStatusChange }: TicketCardProps) {
     )
 }
 
+interface ExpoTicketCardProps {
+    order: Order
+    stations: KitchenStation[]
+    onBump: (orderId: number) => void
+}
+
+function ExpoTicketCard({ order, stations, onBump }: ExpoTicketCardProps) {
+    const [bumping, setBumping] = useState(false)
+    const elapsedMinutes = Math.floor((Date.now() - new Date(order.createdAt).getTime()) / 60000)
+
+    // Items still on the pass (served and cancelled items are done for expo)
+    const activeItems = order.items.filter(
+        item => item.status !== OrderItemStatus.SERVED && item.status !== OrderItemStatus.CANCELLED
+    )
+
+    // Progress per station, unassigned items grouped together
+    const progress = new Map<number | null, { name: string; total: number; ready: number }>()
+    activeItems.forEach(item => {
+        const key = item.stationId ?? null
+        const name = key === null
+            ? 'Unassigned'
+            : stations.find(station => station.id === key)?.name || `Station #${key}`
+        const entry = progress.get(key) || { name, total: 0, ready: 0 }
+        entry.total += 1
+        if (item.status === OrderItemStatus.READY) entry.ready += 1
+        progress.set(key, entry)
+    })
+    const stationProgress = Array.from(progress.values())
+
+    const allStationsDone = stationProgress.every(entry => entry.ready === entry.total)
+
+    const handleBump = async () => {
+        setBumping(true)
+        try {
+            await onBump(order.id)
+        } finally {
+            setBumping(false)
+        }
+    }
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`w-full bg-white rounded-lg shadow-sm p-4 border-2 ${
+                allStationsDone ? 'border-emerald-400' : 'border-transparent'
+            }`}
+        >
+            <div className="flex items-center justify-between mb-3 pb-3 border-b border-slate-100">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-900">
+                        {order.table.name}
+                    </h3>
+                    <p className="text-sm text-slate-500">
+                        Order #{order.id} • {elapsedMinutes} min
+                    </p>
+                </div>
+                <button
+                    onClick={handleBump}
+                    disabled={!allStationsDone || bumping}
+                    className="flex items-center gap-1 px-3 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium hover:bg-emerald-600 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    <Send size={14} />
+                    Bump
+                </button>
+            </div>
+
+            {/* Station progress */}
+            <div className="flex flex-wrap gap-2 mb-3">
+                {stationProgress.map(entry => (
+                    <span
+                        key={entry.name}
+                        className={`text-xs px-2 py-1 rounded-full font-medium ${
+                            entry.ready === entry.total
+                                ? 'bg-emerald-100 text-emerald-700'
+                                : 'bg-amber-100 text-amber-700'
+                        }`}
+                    >
+                        {entry.name} {entry.ready}/{entry.total}
+                    </span>
+                ))}
+            </div>
+
+            <div className="space-y-1">
+                {activeItems.map(item => (
+                    <div key={item.id} className="flex items-center justify-between text-sm">
+                        <span className="text-slate-700">
+                            {item.quantity}x {item.menuItem?.name || item.name}
+                        </span>
+                        <span
+                            className={
+                                item.status === OrderItemStatus.READY
+                                    ? 'text-emerald-600 font-medium'
+                                    : 'text-slate-400'
+                            }
+                        >
+                            {item.status === OrderItemStatus.READY ? 'Ready' : item.status === OrderItemStatus.PREPARING ? 'Preparing' : 'Queued'}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </motion.div>
+    )
+}
+
 export default function KDSPage() {
     const { alert } = useModal()
-    // TODO: Get from auth context
-    const restaurantId = 4 // AeroDine Signature restaurant
-    const userId = 13 // Kitchen Staff ID (kitchen@aerodine.com)
+    const { restaurantId, userId, user } = useRestaurantContext()
+    const isUnassigned = !!user && !restaurantId && user.role !== 'ADMIN'
 
     const [orders, setOrders] = useState<Order[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [stations, setStations] = useState<KitchenStation[]>([])
+    const [view, setView] = useState<KdsView>(loadKdsView)
+    const stationId = typeof view === 'number' ? view : undefined
+
+    const handleViewChange = (nextView: KdsView) => {
+        setView(nextView)
+        localStorage.setItem(KDS_VIEW_STORAGE_KEY, String(nextView))
+    }
 
     // Fetch orders function - KDS only shows orders that have been accepted (IN_PROGRESS)
     const fetchOrders = useCallback(async () => {
+        if (!restaurantId) return
         try {
             const ordersData = await orderService.getOrders({ restaurantId })
             const ordersArray = Array.isArray(ordersData) ? ordersData : (ordersData.orders || [])
@@ -214,6 +342,7 @@ export default function KDSPage() {
                     pricePerUnit: 0,
                     status: item.status as OrderItemStatus,
                     name: item.name,
+                    stationId: item.stationId,
                     modifiers: item.modifiers.map((m, idx) => ({
                         id: idx,
                         modifierName: m
@@ -245,11 +374,12 @@ export default function KDSPage() {
         }))
     }, [])
 
-    // Socket.IO: Handle order ready (remove from KDS)
+    // Socket.IO: Handle order ready (remove from KDS, expo keeps it until bumped)
     const handleOrderReady = useCallback((event: { orderId: number }) => {
+        if (view === 'expo') return
         console.log('🔔 Order ready, removing from KDS:', event)
         setOrders(prev => prev.filter(o => o.id !== event.orderId))
-    }, [])
+    }, [view])
 
     // Socket.IO: Handle order served (remove from KDS when all items served)
     const handleOrderServed = useCallback((event: { orderId: number }) => {
@@ -258,21 +388,43 @@ export default function KDSPage() {
     }, [])
 
     // Setup Socket.IO event listeners
-    useKitchenEvents(restaurantId, userId, {
+    const { isConnected } = useKitchenEvents(restaurantId ?? 0, userId ?? 0, {
         onOrderReceived: handleOrderReceived,
         onOrderAccepted: handleOrderAccepted,
         onItemStatusChanged: handleItemStatusChanged,
         onOrderReady: handleOrderReady,
         onOrderServed: handleOrderServed,
-    })
+    }, stationId)
+
+    // Missed events are replayed on reconnect; refetch only if the gap was too old
+    useResyncRequired(fetchOrders)
 
-    // Initial fetch + fallback polling every 30s (in case socket misses something)
     useEffect(() => {
         initializeAndFetchOrders()
-        const interval = setInterval(fetchOrders, 30000) // Fallback polling every 30s
-        return () => clearInterval(interval)
     }, [fetchOrders])
 
+    // Fallback polling every 30s only while the socket is down
+    useEffect(() => {
+        if (isConnected) return
+        const interval = setInterval(fetchOrders, 30000)
+        return () => clearInterval(interval)
+    }, [fetchOrders, isConnected])
+
+    const fetchStations = async () => {
+        if (!restaurantId) return
+        try {
+            const stationsData = await menusApi.getStations(restaurantId)
+            const activeStations = stationsData.filter(station => station.isActive)
+            setStations(activeStations)
+            // Fall back to all stations if the saved station was removed
+            if (typeof view === 'number' && !activeStations.some(station => station.id === view)) {
+                handleViewChange('all')
+            }
+        } catch (err) {
+            console.error('Error fetching kitchen stations:', err)
+        }
+    }
+
     const initializeAndFetchOrders = async () => {
         try {
             setLoading(true)
@@ -287,7 +439,7 @@ export default function KDSPage() {
                 }
             }
 
-            await fetchOrders()
+            await Promise.all([fetchOrders(), fetchStations()])
         } catch (err: any) {
             console.error('Error initializing KDS:', err)
             setError('Unable to load orders. Please check if backend is running.')
@@ -311,8 +463,39 @@ export default function KDSPage() {
         }
     }
 
+    const handleBump = async (orderId: number) => {
+        try {
+            await orderService.bumpOrder(orderId)
+            setOrders(prev => prev.filter(o => o.id !== orderId))
+        } catch (err: any) {
+            console.error('Error bumping order:', err)
+            await alert({
+                title: 'Lỗi',
+                message: err.response?.data?.message || 'Unable to bump ticket. Please try again.',
+                type: 'error',
+            })
+        }
+    }
+
+    // A station screen only sees the items routed to it
+    const visibleOrders = useMemo(() => {
+        if (stationId === undefined) return orders
+        return orders
+            .map(order => ({
+                ...order,
+                items: order.items.filter(item => item.stationId === stationId),
+            }))
+            .filter(order => order.items.length > 0)
+    }, [orders, stationId])
+
+    const expoOrders = orders.filter(order =>
+        order.items.some(
+            item => item.status !== OrderItemStatus.SERVED && item.status !== OrderItemStatus.CANCELLED
+        )
+    )
+
     const getOrdersByStatus = (status: 'pending' | 'preparing' | 'ready') => {
-        return orders.filter((order) => {
+        return visibleOrders.filter((order) => {
             // Filter out items that are already served
             const activeItems = order.items.filter(item => item.status !== OrderItemStatus.SERVED)
             
@@ -381,56 +564,102 @@ export default function KDSPage() {
                 </p>
             </div>
 
+            {/* Station selector */}
+            <div className="flex flex-wrap gap-2">
+                {[
+                    { value: 'all' as KdsView, label: 'All stations' },
+                    ...stations.map(station => ({ value: station.id as KdsView, label: station.name })),
+                    { value: 'expo' as KdsView, label: 'Expo' },
+                ].map(option => (
+                    <button
+                        key={String(option.value)}
+                        onClick={() => handleViewChange(option.value)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            view === option.value
+                                ? 'bg-amber-500 text-white shadow-sm'
+                                : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
             {/* Error Message */}
             {error && (
                 <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
                     {error}
                 </div>
             )}
+            {isUnassigned && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg">
+                    Your account is not assigned to a restaurant. Ask an admin to assign you on the Staff page.
+                </div>
+            )}
 
-            {/* Kanban Board */}
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                {columns.map((column) => (
-                    <div key={column.status} className="flex flex-col">
-                        {/* Column Header */}
-                        <div
-                            className={`${column.headerBgColor} rounded-t-lg border-t-4 ${column.borderColor} p-4 shadow-sm relative`}
-                        >
-                            <div className="flex items-center justify-center">
-                                <h2 className="text-xl font-semibold text-white">
-                                    {column.title}
-                                </h2>
-                                <span className="absolute right-4 px-2 py-1 bg-white/20 text-white rounded-full text-sm font-semibold">
-                                    {column.count}
-                                </span>
+            {/* Expo: whole tickets, bumped once every station is done */}
+            {view === 'expo' ? (
+                expoOrders.length === 0 ? (
+                    <div className="flex items-center justify-center h-32 text-slate-400 text-sm">
+                        No tickets on the pass
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                        {expoOrders.map(order => (
+                            <ExpoTicketCard
+                                key={order.id}
+                                order={order}
+                                stations={stations}
+                                onBump={handleBump}
+                            />
+                        ))}
+                    </div>
+                )
+            ) : (
+                /* Kanban Board */
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    {columns.map((column) => (
+                        <div key={column.status} className="flex flex-col">
+                            {/* Column Header */}
+                            <div
+                                className={`${column.headerBgColor} rounded-t-lg border-t-4 ${column.borderColor} p-4 shadow-sm relative`}
+                            >
+                                <div className="flex items-center justify-center">
+                                    <h2 className="text-xl font-semibold text-white">
+                                        {column.title}
+                                    </h2>
+                                    <span className="absolute right-4 px-2 py-1 bg-white/20 text-white rounded-full text-sm font-semibold">
+                                        {column.count}
+                                    </span>
+                                </div>
                             </div>
-                        </div>
 
-                        {/* Tickets */}
-                        <div className={`flex-1 ${column.bgColor} rounded-b-lg min-h-[600px] p-4`}>
-                            {getOrdersByStatus(column.status).length === 0 ? (
-                                <div className="flex items-center justify-center h-32 text-slate-400 text-sm">
-                                    No orders
-                                </div>
-                            ) : (
-                                <div className="space-y-4">
-                                    {getOrdersByStatus(column.status).map(
-                                        (order) => (
-                                            <TicketCard
-                                                key={order.id}
-                                                order={order}
-                                                onStatusChange={
-                                                    handleStatusChange
-                                                }
-                                            />
-                                        )
-                                    )}
-                                </div>
-                            )}
+                            {/* Tickets */}
+                            <div className={`flex-1 ${column.bgColor} rounded-b-lg min-h-[600px] p-4`}>
+                                {getOrdersByStatus(column.status).length === 0 ? (
+                                    <div className="flex items-center justify-center h-32 text-slate-400 text-sm">
+                                        No orders
+                                    </div>
+                                ) : (
+                                    <div className="space-y-4">
+                                        {getOrdersByStatus(column.status).map(
+                                            (order) => (
+                                                <TicketCard
+                                                    key={order.id}
+                                                    order={order}
+                                                    onStatusChange={
+                                                        handleStatusChange
+                                                    }
+                                                />
+                                            )
+                                        )}
+                                    </div>
+                                )}
+                            </div>
                         </div>
-                    </div>
-                ))}
-            </div>
+                    ))}
+                </div>
+            )}
         </div>
     )
 }
@@ -1,9 +1,15 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useWaiterEvents, useBillRequested, useOrderStatusChanged, useNotification } from '../../../hooks/useSocket'
+import { useWaiterEvents, useBillRequested, useOrderStatusChanged, useNotification, useResyncRequired } from '../../../hooks/useSocket'
 import { orderService } from '../../../services/order.service'
+import { tablesApi } from '../../../services/api'
 import OrderCard from '../../../components/staff/OrderCard'
+import RefundRequestModal from '../../../components/staff/RefundRequestModal'
+import CashShiftModal from '../../../components/staff/CashShiftModal'
+import { formatVND } from '../../../utils/currency'
 import { useModal } from '../../../contexts/ModalContext'
+import { useRestaurantContext } from '../../../hooks/useRestaurantContext'
+import { RefundStatus } from '@aerodine/shared-types'
 import type {
     OrderCreatedEvent,
     OrderItemStatusChangedEvent,
@@ -19,7 +25,7 @@ import type {
  * @author Dev 2 - Operations Team
  */
 
-interface Order {
+interface Order extends OrderCharges {
     id: number
     tableId: number
     tableName: string
@@ -29,8 +35,31 @@ interface Order {
     note?: string
     createdAt: string
     items: OrderItem[]
+    paidAmount?: number
 }
 
+// Breakdown of totalAmount shown on the bill
+interface OrderCharges {
+    subtotal: number
+    discountAmount: number
+    serviceChargeRate: number
+    serviceCharge: number
+    taxRate: number
+    taxAmount: number
+    tipAmount: number
+}
+
+// Works for API orders (Decimal strings) and socket summaries alike
+const toOrderCharges = (o: any): OrderCharges => ({
+    subtotal: Number(o.subtotal ?? o.totalAmount),
+    discountAmount: Number(o.discountAmount ?? 0),
+    serviceChargeRate: Number(o.serviceChargeRate ?? 0),
+    serviceCharge: Number(o.serviceCharge ?? 0),
+    taxRate: Number(o.taxRate ?? 0),
+    taxAmount: Number(o.taxAmount ?? 0),
+    tipAmount: Number(o.tipAmount ?? 0),
+})
+
 interface OrderItem {
     id: number
     name: string
@@ -44,9 +73,9 @@ interface OrderItem {
 export default function WaiterOrdersPage() {
     const navigate = useNavigate()
     const { alert, confirm } = useModal()
-    // TODO: Get from auth context
-    const restaurantId = 4 // AeroDine Signature restaurant
-    const userId = 12 // Waiter User ID (waiter@aerodine.com)
+    const { restaurantId, userId: currentUserId, user } = useRestaurantContext()
+    const userId = currentUserId ?? 0
+    const isUnassigned = !!user && !restaurantId && user.role !== 'ADMIN'
 
     const [pendingOrders, setPendingOrders] = useState<Order[]>([])
     const [activeOrders, setActiveOrders] = useState<Order[]>([])
@@ -58,11 +87,17 @@ export default function WaiterOrdersPage() {
             tableName: string
         }[]
     >([])
+    // Free tables an active order can be moved to
+    const [freeTables, setFreeTables] = useState<{ id: number; name: string }[]>(
+        []
+    )
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'ready'>(
         'pending'
     )
+    const [isRefundOpen, setIsRefundOpen] = useState(false)
+    const [isDrawerOpen, setIsDrawerOpen] = useState(false)
 
     // Sound notification
     const playNotificationSound = useCallback(() => {
@@ -74,6 +109,10 @@ export default function WaiterOrdersPage() {
 
     // Fetch initial data
     const fetchOrders = useCallback(async () => {
+        if (!restaurantId) {
+            setLoading(false)
+            return
+        }
         try {
             setLoading(true)
             // Use getPendingOrders() which includes both PENDING_REVIEW and PENDING orders
@@ -93,6 +132,7 @@ export default function WaiterOrdersPage() {
                     tableName: o.table?.name || `Table ${o.tableId}`,
                     status: o.status,
                     totalAmount: Number(o.totalAmount),
+                    ...toOrderCharges(o),
                     guestCount: o.guestCount,
                     note: o.note,
                     createdAt: o.createdAt,
@@ -115,6 +155,11 @@ export default function WaiterOrdersPage() {
                     tableName: o.table?.name || `Table ${o.tableId}`,
                     status: o.status,
                     totalAmount: Number(o.totalAmount),
+                    ...toOrderCharges(o),
+                    // Sum of split-bill payments already made
+                    paidAmount: (o.payments || [])
+                        .filter((p: any) => p.status === 'SUCCESS')
+                        .reduce((sum: number, p: any) => sum + Number(p.amount), 0),
                     guestCount: o.guestCount,
                     note: o.note,
                     createdAt: o.createdAt,
@@ -153,16 +198,40 @@ export default function WaiterOrdersPage() {
         }
     }, [restaurantId])
 
+    const fetchFreeTables = useCallback(async () => {
+        if (!restaurantId) return
+        try {
+            const tables = await tablesApi.getTables(restaurantId)
+            setFreeTables(
+                (Array.isArray(tables) ? tables : [])
+                    .filter(
+                        (t: any) =>
+                            t.status === 'AVAILABLE' &&
+                            t.isActive !== false &&
+                            !t.joinedToId
+                    )
+                    .map((t: any) => ({ id: t.id, name: t.name }))
+            )
+        } catch {
+            // Moving tables is optional; keep the dashboard usable
+            setFreeTables([])
+        }
+    }, [restaurantId])
+
     useEffect(() => {
         fetchOrders()
     }, [fetchOrders])
 
+    useEffect(() => {
+        fetchFreeTables()
+    }, [fetchFreeTables])
+
     // Polling fallback: Check for completed orders every 5 seconds
     // This ensures orders are removed even if socket events fail
     useEffect(() => {
         const interval = setInterval(() => {
             // Only poll if there are active orders
-            if (activeOrders.length > 0) {
+            if (restaurantId && activeOrders.length > 0) {
                 console.log('🔄 Polling: Checking for completed orders...')
                 orderService.getOrders({
                     restaurantId,
@@ -200,6 +269,7 @@ export default function WaiterOrdersPage() {
                     tableName: event.order.tableName,
                     status: event.order.status,
                     totalAmount: event.order.totalAmount,
+                    ...toOrderCharges(event.order),
                     guestCount: event.order.guestCount,
                     note: event.order.note,
                     createdAt: event.order.createdAt,
@@ -354,7 +424,7 @@ export default function WaiterOrdersPage() {
     }, [])
 
     // Setup socket event listeners
-    useWaiterEvents(restaurantId, userId, {
+    useWaiterEvents(restaurantId ?? 0, userId, {
         onOrderCreated: handleOrderCreated,
         onItemStatusChanged: handleItemStatusChanged,
         onOrderItemReady: handleItemReady,
@@ -364,6 +434,9 @@ export default function WaiterOrdersPage() {
     useOrderStatusChanged(handleOrderStatusChanged)
     useNotification(handleNotification)
 
+    // Refetch when missed events could not be replayed after a reconnect
+    useResyncRequired(fetchOrders)
+
     // Accept order
     const handleAcceptOrder = async (orderId: number) => {
         try {
@@ -407,6 +480,7 @@ export default function WaiterOrdersPage() {
                                     ? {
                                         ...o,
                                         totalAmount: Number(mergeResult.targetOrder.totalAmount),
+                                        ...toOrderCharges(mergeResult.targetOrder),
                                         items: mergeResult.targetOrder.items.map((item: any) => ({
                                             id: item.id,
                                             name: item.name,
@@ -501,10 +575,66 @@ export default function WaiterOrdersPage() {
         }
     }
 
+    // Move an active order to another table
+    const handleTransferOrder = async (orderId: number, tableId: number) => {
+        try {
+            const updated = await orderService.transferOrder(orderId, tableId)
+            const tableName = updated.table.name || `Table ${tableId}`
+            setActiveOrders((prev) =>
+                prev.map((o) =>
+                    o.id === orderId ? { ...o, tableId, tableName } : o
+                )
+            )
+            setReadyItems((prev) =>
+                prev.map((item) =>
+                    item.orderId === orderId ? { ...item, tableName } : item
+                )
+            )
+            await fetchFreeTables()
+        } catch (err: any) {
+            await alert({
+                title: 'Lỗi',
+                message:
+                    err.response?.data?.message || 'Failed to move order',
+                type: 'error',
+            })
+        }
+    }
+
     // Handle cash payment
-    const handleCashPayment = async (orderId: number) => {
+    const handleCashPayment = async (
+        orderId: number,
+        amount?: number,
+        tipAmount?: number
+    ) => {
         try {
-            await orderService.processCashPayment(orderId)
+            const order = await orderService.processCashPayment(
+                orderId,
+                amount,
+                tipAmount
+            )
+            if (order.status !== 'COMPLETED') {
+                // Partial payment (split bill) - keep the order with its new balance
+                // (and its new total when a tip was added)
+                setActiveOrders((prev) =>
+                    prev.map((o) =>
+                        o.id === orderId
+                            ? {
+                                  ...o,
+                                  totalAmount: Number(order.totalAmount),
+                                  ...toOrderCharges(order),
+                                  paidAmount: Number(order.paidAmount),
+                              }
+                            : o
+                    )
+                )
+                await alert({
+                    title: 'Thành công',
+                    message: `Partial payment recorded. Remaining: ${formatVND(Number(order.balanceDue))}`,
+                    type: 'success',
+                })
+                return
+            }
             // Remove order from active orders
             setActiveOrders((prev) => prev.filter((o) => o.id !== orderId))
             // Remove any ready items for this order
@@ -541,6 +671,16 @@ export default function WaiterOrdersPage() {
         )
     }
 
+    if (isUnassigned) {
+        return (
+            <div className="flex items-center justify-center min-h-screen">
+                <div className="text-amber-600">
+                    Your account is not assigned to a restaurant. Ask an admin to assign you on the Staff page.
+                </div>
+            </div>
+        )
+    }
+
     return (
         <div className="min-h-screen bg-gray-100">
             {/* Header */}
@@ -565,6 +705,18 @@ export default function WaiterOrdersPage() {
                             <span className="text-sm text-gray-500">
                                 {new Date().toLocaleDateString()}
                             </span>
+                            <button
+                                onClick={() => setIsDrawerOpen(true)}
+                                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                            >
+                                Cash drawer
+                            </button>
+                            <button
+                                onClick={() => setIsRefundOpen(true)}
+                                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                            >
+                                Refund
+                            </button>
                             <button
                                 onClick={fetchOrders}
                                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
@@ -666,7 +818,13 @@ export default function WaiterOrdersPage() {
                                     order={order}
                                     type="active"
                                     onServe={() => handleMarkServed(order.id)}
-                                    onCashPayment={() => handleCashPayment(order.id)}
+                                    transferTargets={freeTables}
+                                    onTransfer={(tableId) =>
+                                        handleTransferOrder(order.id, tableId)
+                                    }
+                                    onCashPayment={(amount, tipAmount) =>
+                                        handleCashPayment(order.id, amount, tipAmount)
+                                    }
                                     onCardPayment={handleCardPayment}
                                 />
                             ))
@@ -739,6 +897,30 @@ export default function WaiterOrdersPage() {
                     </div>
                 )}
             </main>
+
+            {isDrawerOpen && (
+                <CashShiftModal
+                    restaurantId={restaurantId}
+                    onClose={() => setIsDrawerOpen(false)}
+                />
+            )}
+
+            {isRefundOpen && (
+                <RefundRequestModal
+                    onClose={() => setIsRefundOpen(false)}
+                    onCreated={(refund) => {
+                        setIsRefundOpen(false)
+                        alert({
+                            title: 'Refund requested',
+                            message:
+                                refund.status === RefundStatus.COMPLETED
+                                    ? `${formatVND(Number(refund.amount))} refunded on order #${refund.orderId}.`
+                                    : `${formatVND(Number(refund.amount))} on order #${refund.orderId} is waiting for manager approval.`,
+                            type: 'success',
+                        })
+                    }}
+                />
+            )}
         </div>
     )
 }
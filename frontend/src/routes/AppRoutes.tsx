@@ -4,6 +4,10 @@ import StaffRoutes from './StaffRoutes';
 import DashboardPage from '../pages/admin/DashboardPage';
 import AdminMenuPage from '../pages/admin/MenuPage';
 import TablesPage from '../pages/admin/TablesPage';
+import InventoryPage from '../pages/admin/InventoryPage';
+import PricingPage from '../pages/admin/PricingPage';
+import PromoCodesPage from '../pages/admin/PromoCodesPage';
+import RefundsPage from '../pages/admin/RefundsPage';
 import StaffPage from '../pages/admin/StaffPage';
 import ReportsPage from '../pages/admin/ReportsPage';
 import KDSPage from '../pages/staff/kitchen/KDSPage';
@@ -57,6 +61,10 @@ export default function AppRoutes() {
           <Route path="dashboard" element={<DashboardPage />} />
           <Route path="menu" element={<AdminMenuPage />} />
           <Route path="tables" element={<TablesPage />} />
+          <Route path="inventory" element={<InventoryPage />} />
+          <Route path="pricing" element={<PricingPage />} />
+          <Route path="promo-codes" element={<PromoCodesPage />} />
+          <Route path="refunds" element={<RefundsPage />} />
           <Route path="staff" element={<StaffPage />} />
           <Route path="kds" element={<KDSPage />} />
           <Route path="reports" element={<ReportsPage />} />
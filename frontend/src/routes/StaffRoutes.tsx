@@ -1,14 +1,63 @@
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom'
 import WaiterOrdersPage from '../pages/staff/waiter/OrdersPage'
 import KDSPage from '../pages/staff/kitchen/KDSPage'
+import PinPadScreen from '../components/staff/PinPadScreen'
+import { authService } from '../services/auth.service'
+import type { User } from '../store/userStore'
+
+const IDLE_TIMEOUT_MS = 3 * 60 * 1000 // Shared devices lock after this long untouched
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll']
 
 /**
  * Staff Routes - Routes for Waiter and Kitchen staff
+ * On a registered shared device the screens lock to a PIN pad when idle
  *
  * @author Dev 2 - Operations Team
  */
 
 export default function StaffRoutes() {
+    const navigate = useNavigate()
+    const deviceToken = authService.getDeviceToken()
+    const [locked, setLocked] = useState(
+        () => !!deviceToken && !authService.getToken()
+    )
+
+    useEffect(() => {
+        if (!deviceToken || locked) return
+
+        let timer = window.setTimeout(() => setLocked(true), IDLE_TIMEOUT_MS)
+        const resetTimer = () => {
+            window.clearTimeout(timer)
+            timer = window.setTimeout(() => setLocked(true), IDLE_TIMEOUT_MS)
+        }
+        ACTIVITY_EVENTS.forEach((event) =>
+            window.addEventListener(event, resetTimer, { passive: true })
+        )
+        return () => {
+            window.clearTimeout(timer)
+            ACTIVITY_EVENTS.forEach((event) =>
+                window.removeEventListener(event, resetTimer)
+            )
+        }
+    }, [deviceToken, locked])
+
+    const handleUnlock = (user: User) => {
+        setLocked(false)
+        navigate(
+            user.role === 'KITCHEN'
+                ? '/staff/kitchen/kds'
+                : '/staff/waiter/orders',
+            { replace: true }
+        )
+    }
+
+    if (deviceToken && locked) {
+        return (
+            <PinPadScreen deviceToken={deviceToken} onUnlock={handleUnlock} />
+        )
+    }
+
     return (
         <Routes>
             {/* Waiter Routes */}
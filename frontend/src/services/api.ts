@@ -2,7 +2,28 @@ import axios, { AxiosError, type AxiosRequestConfig } from 'axios';
 import { apiConfig } from '../config/api.config';
 import { authService } from './auth.service';
 import { getGuestSessionId } from '../utils/guestSession';
-import type { TableStatus } from '@aerodine/shared-types';
+import type {
+  TableStatus,
+  Reservation,
+  ReservationStatus,
+  Ingredient,
+  StockMovement,
+  StockMovementType,
+  MenuItemCosting,
+  AvailabilityWindow,
+  PricingRule,
+  DiscountType,
+  PromoCode,
+  PromoCodeRedemption,
+  Refund,
+  RefundStatus,
+  PaymentDiscrepancy,
+  PaymentMethod,
+  CashShiftStatus,
+  CashShiftWithSummary,
+  Permission,
+  StaffRole,
+} from '@aerodine/shared-types';
 
 /**
  * Axios instance configured with base URL from environment
@@ -39,6 +60,16 @@ apiClient.interceptors.request.use(
   }
 );
 
+/**
+ * Shared staff devices go back to their PIN pad, everyone else to the login page
+ */
+const redirectToSignIn = () => {
+  const target = authService.getDeviceToken() ? '/staff' : '/auth/login';
+  if (window.location.pathname !== target) {
+    window.location.href = target;
+  }
+};
+
 // Response interceptor for error handling and token refresh
 let isRefreshing = false;
 let failedQueue: Array<{
@@ -66,6 +97,8 @@ apiClient.interceptors.response.use(
     const url = originalRequest?.url;
     if (
       url?.includes('/auth/login') ||
+      url?.includes('/auth/pin-login') || // Wrong PIN, not an expired token
+      url?.includes('/auth/devices/staff') ||
       url?.includes('/auth/refresh') || // Quan trọng: Tránh lặp khi refresh token hết hạn
       url?.includes('/auth/logout')     // Quan trọng: Tránh lặp khi logout token hết hạn
     ) {
@@ -112,10 +145,7 @@ apiClient.interceptors.response.use(
           processQueue(new Error('Token refresh failed'), null);
           authService.logoutLocally();
           
-          // Redirect to login page if not already there
-          if (window.location.pathname !== '/auth/login') {
-            window.location.href = '/auth/login';
-          }
+          redirectToSignIn();
           
           return Promise.reject(error);
         }
@@ -124,10 +154,7 @@ apiClient.interceptors.response.use(
         processQueue(refreshError, null);
         authService.logoutLocally();
         
-        // Redirect to login page if not already there
-        if (window.location.pathname !== '/auth/login') {
-          window.location.href = '/auth/login';
-        }
+        redirectToSignIn();
         
         return Promise.reject(refreshError);
       } finally {
@@ -149,22 +176,97 @@ apiClient.interceptors.response.use(
 // REPORTS API
 // ============================================
 
+/**
+ * Filters accepted by every /reports endpoint
+ * from/to (YYYY-MM-DD) take precedence over range
+ */
+export interface ReportFilters {
+  restaurantId?: number;
+  from?: string;
+  to?: string;
+  timezone?: string;
+  range?: 'today' | 'week' | '30' | 'month' | 'lastMonth' | '3months';
+}
+
+/**
+ * Discrepancies and expired payments of one local day
+ */
+export interface ReconciliationDay {
+  date: string;
+  discrepancies: PaymentDiscrepancy[];
+  unresolvedCount: number;
+  expiredPayments: number;
+  expiredAmount: number;
+}
+
+export interface ReconciliationReport {
+  days: ReconciliationDay[];
+  totals: { discrepancies: number; unresolved: number; expiredPayments: number };
+}
+
+/**
+ * End-of-day report: sales, takings per method and every drawer shift
+ */
+export interface ZReport {
+  from: string;
+  to: string;
+  timezone: string;
+  generatedAt: string;
+  sales: {
+    orders: number;
+    subtotal: number;
+    discounts: number;
+    serviceCharge: number;
+    tax: number;
+    tips: number;
+    total: number;
+  };
+  payments: {
+    method: PaymentMethod;
+    count: number;
+    amount: number;
+    refunded: number;
+  }[];
+  totals: { takings: number; refunds: number; net: number };
+  shifts: CashShiftWithSummary[];
+  drawer: {
+    openingFloat: number;
+    expectedCash: number;
+    countedCash: number;
+    overShort: number;
+    openShifts: number;
+    unassignedCashPayments: number;
+    unassignedCash: number;
+  };
+}
+
+export type ExportableReport =
+  | 'revenue'
+  | 'category-sales'
+  | 'discounts'
+  | 'voided-items'
+  | 'menu-performance'
+  | 'modifiers';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
 export const reportsApi = {
   /**
    * Get dashboard statistics (revenue, orders, active tables)
    */
-  getDashboardStats: async () => {
-    const response = await apiClient.get('/reports/stats');
+  getDashboardStats: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/stats', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
-   * Get revenue chart data
-   * @param range - 'week', '30', 'month', 'lastMonth', or '3months'
+   * Get revenue chart data (with previous-period data for comparison)
    */
-  getRevenueChart: async (range: string = 'week') => {
+  getRevenueChart: async (filters: ReportFilters = { range: 'week' }) => {
     const response = await apiClient.get('/reports/revenue', {
-      params: { range },
+      params: filters,
     });
     return response.data;
   },
@@ -172,82 +274,175 @@ export const reportsApi = {
   /**
    * Get top 5 selling items
    */
-  getTopSellingItems: async () => {
-    const response = await apiClient.get('/reports/top-items');
+  getTopSellingItems: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/top-items', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get payment methods breakdown
    */
-  getPaymentMethodsBreakdown: async () => {
-    const response = await apiClient.get('/reports/payment-methods');
+  getPaymentMethodsBreakdown: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/payment-methods', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get sales by category
    */
-  getCategorySales: async () => {
-    const response = await apiClient.get('/reports/category-sales');
+  getCategorySales: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/category-sales', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  /**
+   * Get list vs discounted revenue, per pricing rule
+   */
+  getDiscountSummary: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/discounts', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get voided items
    */
-  getVoidedItems: async () => {
-    const response = await apiClient.get('/reports/voided-items');
+  getVoidedItems: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/voided-items', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get peak hours analysis
    */
-  getPeakHours: async () => {
-    const response = await apiClient.get('/reports/peak-hours');
+  getPeakHours: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/peak-hours', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get revenue by day of week
    */
-  getDayOfWeekRevenue: async () => {
-    const response = await apiClient.get('/reports/day-of-week-revenue');
+  getDayOfWeekRevenue: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/day-of-week-revenue', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get menu performance matrix
    */
-  getMenuPerformance: async () => {
-    const response = await apiClient.get('/reports/menu-performance');
+  getMenuPerformance: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/menu-performance', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get top modifiers
    */
-  getTopModifiers: async () => {
-    const response = await apiClient.get('/reports/top-modifiers');
+  getTopModifiers: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/top-modifiers', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get rating vs volume data
    */
-  getRatingVolume: async () => {
-    const response = await apiClient.get('/reports/rating-volume');
+  getRatingVolume: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/rating-volume', {
+      params: filters,
+    });
     return response.data;
   },
 
   /**
    * Get prep time trends
    */
-  getPrepTimeTrends: async () => {
-    const response = await apiClient.get('/reports/prep-time-trends');
+  getPrepTimeTrends: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/prep-time-trends', {
+      params: filters,
+    });
     return response.data;
   },
+
+  /**
+   * Get kitchen queue / cook / pass times per item and category
+   */
+  getKitchenTimings: async (filters: ReportFilters = {}) => {
+    const response = await apiClient.get('/reports/kitchen-timings', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  /**
+   * Get payment reconciliation discrepancies and expired payments per day
+   */
+  getReconciliationReport: async (
+    filters: ReportFilters = {}
+  ): Promise<ReconciliationReport> => {
+    const response = await apiClient.get('/reports/reconciliation', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  /**
+   * Mark a payment discrepancy as resolved
+   */
+  resolveDiscrepancy: async (id: number): Promise<PaymentDiscrepancy> => {
+    const response = await apiClient.post(
+      `/reports/reconciliation/${id}/resolve`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get the end-of-day Z-report (today by default)
+   */
+  getZReport: async (filters: ReportFilters = {}): Promise<ZReport> => {
+    const response = await apiClient.get('/reports/z-report', {
+      params: filters,
+    });
+    return response.data;
+  },
+
+  /**
+   * Download a report as a CSV, XLSX or PDF file
+   * @returns file contents and the filename suggested by the server
+   */
+  exportReport: async (
+    report: ExportableReport,
+    format: ExportFormat,
+    filters: ReportFilters = {}
+  ): Promise<{ blob: Blob; filename: string }> => {
+    const response = await apiClient.get('/reports/export', {
+      params: { ...filters, report, format },
+      responseType: 'blob',
+    });
+    const disposition: string = response.headers['content-disposition'] || '';
+    const match = disposition.match(/filename="?([^"]+)"?/);
+    return {
+      blob: response.data,
+      filename: match ? match[1] : `${report}.${format}`,
+    };
+  },
 };
 
 
@@ -265,6 +460,8 @@ export interface CreateMenuItemDto {
   status?: 'AVAILABLE' | 'SOLD_OUT' | 'HIDDEN';
   isChefRecommendation?: boolean;
   modifierGroupIds?: number[];
+  stationId?: number | null;
+  availability?: AvailabilityWindow[]; // Replaces the day-part schedule
 }
 
 export interface UpdateMenuItemDto {
@@ -276,6 +473,16 @@ export interface UpdateMenuItemDto {
   status?: 'AVAILABLE' | 'SOLD_OUT' | 'HIDDEN';
   isChefRecommendation?: boolean;
   modifierGroupIds?: number[];
+  stationId?: number | null; // null falls back to the category station
+  availability?: AvailabilityWindow[]; // Replaces the day-part schedule
+}
+
+export interface KitchenStation {
+  id: number;
+  restaurantId: number;
+  name: string;
+  rank: number;
+  isActive: boolean;
 }
 
 export const menusApi = {
@@ -289,10 +496,67 @@ export const menusApi = {
     return response.data;
   },
 
+  /**
+   * Update a category (e.g. its default kitchen station or day-part schedule)
+   */
+  updateCategory: async (
+    id: number,
+    data: {
+      name?: string;
+      rank?: number;
+      stationId?: number | null;
+      availability?: AvailabilityWindow[];
+    }
+  ) => {
+    const response = await apiClient.patch(`/categories/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Get kitchen stations for a restaurant
+   */
+  getStations: async (restaurantId: number): Promise<KitchenStation[]> => {
+    const response = await apiClient.get('/kitchen-stations', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  /**
+   * Create a kitchen station
+   */
+  createStation: async (data: { restaurantId: number; name: string; rank?: number }): Promise<KitchenStation> => {
+    const response = await apiClient.post('/kitchen-stations', data);
+    return response.data;
+  },
+
+  /**
+   * Update a kitchen station
+   */
+  updateStation: async (id: number, data: { name?: string; rank?: number; isActive?: boolean }): Promise<KitchenStation> => {
+    const response = await apiClient.patch(`/kitchen-stations/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a kitchen station (its categories and items fall back to no station)
+   */
+  deleteStation: async (id: number) => {
+    const response = await apiClient.delete(`/kitchen-stations/${id}`);
+    return response.data;
+  },
+
   /**
    * Get all menu items with optional search and sort
+   * Only items on their day-part schedule are returned unless
+   * includeUnscheduled is set; `at` evaluates schedules at another time
    */
-  getMenuItems: async (restaurantId: number, searchQuery?: string, sortBy?: string) => {
+  getMenuItems: async (
+    restaurantId: number,
+    searchQuery?: string,
+    sortBy?: string,
+    schedule?: { at?: string; includeUnscheduled?: boolean }
+  ) => {
     const params: any = {
       restaurantId,
     };
@@ -302,6 +566,12 @@ export const menusApi = {
     if (sortBy) {
       params.sortBy = sortBy;
     }
+    if (schedule?.at) {
+      params.at = schedule.at;
+    }
+    if (schedule?.includeUnscheduled) {
+      params.includeUnscheduled = true;
+    }
     const response = await apiClient.get('/menu-items', { params });
     return response.data;
   },
@@ -445,6 +715,24 @@ export const tablesApi = {
     return response.data;
   },
 
+  /**
+   * Join tables onto a primary table for a large party
+   */
+  joinTables: async (primaryTableId: number, tableIds: number[]) => {
+    const response = await apiClient.post(`/tables/${primaryTableId}/join`, {
+      tableIds,
+    });
+    return response.data;
+  },
+
+  /**
+   * Split tables joined to a primary table
+   */
+  splitTables: async (primaryTableId: number) => {
+    const response = await apiClient.delete(`/tables/${primaryTableId}/join`);
+    return response.data;
+  },
+
   /**
    * Refresh tokens for all tables
    */
@@ -456,6 +744,426 @@ export const tablesApi = {
   },
 };
 
+// ============================================
+// RESERVATIONS API
+// ============================================
+
+export interface CreateReservationDto {
+  restaurantId: number;
+  tableId?: number;
+  partySize: number;
+  reservedAt: string;
+  durationMinutes?: number;
+  contactName: string;
+  contactPhone: string;
+  contactEmail?: string;
+  note?: string;
+}
+
+export interface ReservationFilters {
+  restaurantId: number;
+  from?: string;
+  to?: string;
+  status?: ReservationStatus;
+}
+
+export const reservationsApi = {
+  /**
+   * Get reservations of a restaurant, ordered by slot
+   */
+  getReservations: async (filters: ReservationFilters): Promise<Reservation[]> => {
+    const response = await apiClient.get('/reservations', { params: filters });
+    return response.data;
+  },
+
+  /**
+   * Book a table (auto-assigned when tableId is omitted)
+   */
+  createReservation: async (data: CreateReservationDto): Promise<Reservation> => {
+    const response = await apiClient.post('/reservations', data);
+    return response.data;
+  },
+
+  /**
+   * Seat the party, optionally at another table
+   */
+  seatReservation: async (id: number, tableId?: number): Promise<Reservation> => {
+    const response = await apiClient.patch(`/reservations/${id}/seat`, { tableId });
+    return response.data;
+  },
+
+  /**
+   * Cancel a booking and release its table
+   */
+  cancelReservation: async (id: number): Promise<Reservation> => {
+    const response = await apiClient.patch(`/reservations/${id}/cancel`);
+    return response.data;
+  },
+};
+
+// ============================================
+// INVENTORY API
+// ============================================
+
+export interface CreateIngredientDto {
+  restaurantId: number;
+  name: string;
+  unit: string;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  costPerUnit?: number;
+}
+
+export type UpdateIngredientDto = Partial<
+  Omit<CreateIngredientDto, 'restaurantId' | 'stockQuantity'>
+>;
+
+export interface CreateStockMovementDto {
+  type: Exclude<
+    StockMovementType,
+    StockMovementType.CONSUMPTION | StockMovementType.RELEASE
+  >;
+  quantity: number;
+  note?: string;
+}
+
+export interface RecipeLine {
+  ingredientId: number;
+  quantity: number;
+}
+
+export const inventoryApi = {
+  /**
+   * Get ingredients of a restaurant with stock levels
+   */
+  getIngredients: async (restaurantId: number): Promise<Ingredient[]> => {
+    const response = await apiClient.get('/inventory/ingredients', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  /**
+   * Create an ingredient (opening stock is recorded as a purchase)
+   */
+  createIngredient: async (data: CreateIngredientDto): Promise<Ingredient> => {
+    const response = await apiClient.post('/inventory/ingredients', data);
+    return response.data;
+  },
+
+  /**
+   * Update ingredient details (not stock)
+   */
+  updateIngredient: async (id: number, data: UpdateIngredientDto): Promise<Ingredient> => {
+    const response = await apiClient.patch(`/inventory/ingredients/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete an ingredient and remove it from recipes
+   */
+  deleteIngredient: async (id: number) => {
+    const response = await apiClient.delete(`/inventory/ingredients/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Record a purchase, waste or stock adjustment
+   */
+  recordMovement: async (id: number, data: CreateStockMovementDto) => {
+    const response = await apiClient.post(`/inventory/ingredients/${id}/movements`, data);
+    return response.data;
+  },
+
+  /**
+   * Latest stock movements of an ingredient
+   */
+  getMovements: async (id: number): Promise<StockMovement[]> => {
+    const response = await apiClient.get(`/inventory/ingredients/${id}/movements`);
+    return response.data;
+  },
+
+  /**
+   * Food cost and margin per menu item
+   */
+  getCosting: async (restaurantId: number): Promise<MenuItemCosting[]> => {
+    const response = await apiClient.get('/inventory/costing', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  /**
+   * Recipe of a menu item
+   */
+  getRecipe: async (menuItemId: number) => {
+    const response = await apiClient.get(`/inventory/recipes/${menuItemId}`);
+    return response.data;
+  },
+
+  /**
+   * Replace the recipe of a menu item
+   */
+  setRecipe: async (menuItemId: number, ingredients: RecipeLine[]) => {
+    const response = await apiClient.put(`/inventory/recipes/${menuItemId}`, {
+      ingredients,
+    });
+    return response.data;
+  },
+
+  /**
+   * Replace the ingredient adjustments of a modifier option
+   */
+  setModifierIngredients: async (optionId: number, ingredients: RecipeLine[]) => {
+    const response = await apiClient.put(
+      `/inventory/modifier-options/${optionId}/ingredients`,
+      { ingredients }
+    );
+    return response.data;
+  },
+};
+
+// ============================================
+// PRICING API
+// ============================================
+
+export interface CreatePricingRuleDto extends Omit<AvailabilityWindow, 'id'> {
+  restaurantId: number;
+  name: string;
+  discountType: DiscountType;
+  value: number; // Percent off, or amount off per unit for FIXED
+  menuItemId?: number | null;
+  categoryId?: number | null;
+  modifierOptionId?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdatePricingRuleDto = Partial<
+  Omit<CreatePricingRuleDto, 'restaurantId'>
+>;
+
+export const pricingApi = {
+  /**
+   * Get pricing rules of a restaurant
+   */
+  getRules: async (restaurantId: number): Promise<PricingRule[]> => {
+    const response = await apiClient.get('/pricing-rules', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  /**
+   * Create a pricing rule
+   */
+  createRule: async (data: CreatePricingRuleDto): Promise<PricingRule> => {
+    const response = await apiClient.post('/pricing-rules', data);
+    return response.data;
+  },
+
+  /**
+   * Update a pricing rule (applies to items ordered afterwards)
+   */
+  updateRule: async (id: number, data: UpdatePricingRuleDto): Promise<PricingRule> => {
+    const response = await apiClient.patch(`/pricing-rules/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a pricing rule
+   */
+  deleteRule: async (id: number) => {
+    const response = await apiClient.delete(`/pricing-rules/${id}`);
+    return response.data;
+  },
+};
+
+// ============================================
+// PROMO CODES API
+// ============================================
+
+export interface CreatePromoCodeDto {
+  restaurantId: number;
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  value: number; // Percent off, or amount off the order for FIXED
+  maxDiscount?: number | null;
+  minSpend?: number;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: string | null; // ISO timestamp
+  expiresAt?: string | null;
+  isActive?: boolean;
+}
+
+export type UpdatePromoCodeDto = Partial<
+  Omit<CreatePromoCodeDto, 'restaurantId'>
+>;
+
+export const promoCodesApi = {
+  /**
+   * Get promo codes of a restaurant
+   */
+  getCodes: async (restaurantId: number): Promise<PromoCode[]> => {
+    const response = await apiClient.get('/promo-codes', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  /**
+   * Create a promo code
+   */
+  createCode: async (data: CreatePromoCodeDto): Promise<PromoCode> => {
+    const response = await apiClient.post('/promo-codes', data);
+    return response.data;
+  },
+
+  /**
+   * Update a promo code (orders already placed keep their discount)
+   */
+  updateCode: async (id: number, data: UpdatePromoCodeDto): Promise<PromoCode> => {
+    const response = await apiClient.patch(`/promo-codes/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a promo code
+   */
+  deleteCode: async (id: number) => {
+    const response = await apiClient.delete(`/promo-codes/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Check a code against the cart; the order applies it when placed
+   */
+  redeem: async (data: {
+    restaurantId: number;
+    code: string;
+    subtotal: number;
+  }): Promise<PromoCodeRedemption> => {
+    const response = await apiClient.post('/promo-codes/redeem', data);
+    return response.data;
+  },
+};
+
+// ============================================
+// REFUNDS API
+// ============================================
+
+/**
+ * Leave out amount and items to refund the whole payment
+ */
+export interface CreateRefundDto {
+  orderId: number;
+  paymentId?: number;
+  amount?: number;
+  items?: { orderItemId: number; quantity: number }[];
+  reason: string;
+}
+
+export const refundsApi = {
+  /**
+   * Get refunds of a restaurant (admin)
+   */
+  getRefunds: async (params: {
+    restaurantId?: number;
+    status?: RefundStatus;
+  }): Promise<Refund[]> => {
+    const response = await apiClient.get('/refunds', { params });
+    return response.data;
+  },
+
+  /**
+   * Get refunds of an order
+   */
+  getOrderRefunds: async (orderId: number): Promise<Refund[]> => {
+    const response = await apiClient.get(`/refunds/order/${orderId}`);
+    return response.data;
+  },
+
+  /**
+   * Request a refund; waiter requests wait for manager approval
+   */
+  createRefund: async (data: CreateRefundDto): Promise<Refund> => {
+    const response = await apiClient.post('/refunds', data);
+    return response.data;
+  },
+
+  /**
+   * Approve a refund and give the money back
+   */
+  approveRefund: async (id: number): Promise<Refund> => {
+    const response = await apiClient.post(`/refunds/${id}/approve`);
+    return response.data;
+  },
+
+  /**
+   * Reject a refund request
+   */
+  rejectRefund: async (id: number, note?: string): Promise<Refund> => {
+    const response = await apiClient.post(`/refunds/${id}/reject`, { note });
+    return response.data;
+  },
+};
+
+// ============================================
+// CASH SHIFTS API
+// ============================================
+
+export const shiftsApi = {
+  /**
+   * Get own open shift with live drawer totals (null when closed)
+   */
+  getCurrentShift: async (): Promise<CashShiftWithSummary | null> => {
+    const response = await apiClient.get('/shifts/current');
+    return response.data || null;
+  },
+
+  /**
+   * Open a drawer shift with the starting float
+   */
+  openShift: async (
+    openingFloat: number,
+    restaurantId?: number
+  ): Promise<CashShiftWithSummary> => {
+    const response = await apiClient.post('/shifts/open', {
+      openingFloat,
+      restaurantId,
+    });
+    return response.data;
+  },
+
+  /**
+   * Close a shift with the counted cash; returns the over/short
+   */
+  closeShift: async (
+    id: number,
+    countedCash: number,
+    note?: string
+  ): Promise<CashShiftWithSummary> => {
+    const response = await apiClient.post(`/shifts/${id}/close`, {
+      countedCash,
+      note,
+    });
+    return response.data;
+  },
+
+  /**
+   * Get shifts of a restaurant (admin)
+   */
+  getShifts: async (params: {
+    restaurantId?: number;
+    status?: CashShiftStatus;
+    from?: string;
+  }): Promise<CashShiftWithSummary[]> => {
+    const response = await apiClient.get('/shifts', { params });
+    return response.data;
+  },
+};
+
 // ============================================
 // USERS API
 // ============================================
@@ -465,6 +1173,7 @@ export interface CreateUserDto {
   password: string;
   fullName: string;
   role?: string;
+  restaurantId?: number | null;
 }
 
 export interface UpdateUserDto {
@@ -472,6 +1181,7 @@ export interface UpdateUserDto {
   fullName?: string;
   avatar?: string;
   role?: string;
+  restaurantId?: number | null;
 }
 
 export const usersApi = {
@@ -523,6 +1233,22 @@ export const usersApi = {
     return response.data;
   },
 
+  /**
+   * End every session of a user so all their devices sign in again
+   */
+  signOutEverywhere: async (id: number): Promise<{ revoked: number }> => {
+    const response = await apiClient.delete(`/auth/users/${id}/sessions`);
+    return response.data;
+  },
+
+  /**
+   * Set the PIN a staff member uses on shared devices
+   */
+  setPin: async (id: number, pin: string) => {
+    const response = await apiClient.patch(`/auth/users/${id}/pin`, { pin });
+    return response.data;
+  },
+
   /**
    * Upload user avatar
    */
@@ -538,10 +1264,145 @@ export const usersApi = {
   },
 };
 
+export interface UserSession {
+  id: string;
+  deviceName?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The device making the request
+}
+
+export const sessionsApi = {
+  /**
+   * Devices signed in to the current account
+   */
+  getSessions: async (): Promise<UserSession[]> => {
+    const response = await apiClient.get('/auth/sessions');
+    return response.data;
+  },
+
+  /**
+   * Sign one of the current account's devices out
+   */
+  revokeSession: async (id: string) => {
+    const response = await apiClient.delete(`/auth/sessions/${id}`);
+    return response.data;
+  },
+};
+
+export interface StaffRoleWithCount extends StaffRole {
+  _count: { users: number };
+}
+
+export interface StaffRoleInput {
+  name: string;
+  permissions: Permission[];
+  restaurantId?: number; // Only when creating
+}
+
+export const staffRolesApi = {
+  /**
+   * Custom roles; with restaurantId, those offered at that restaurant
+   */
+  getRoles: async (restaurantId?: number): Promise<StaffRoleWithCount[]> => {
+    const response = await apiClient.get('/staff-roles', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  createRole: async (data: StaffRoleInput): Promise<StaffRoleWithCount> => {
+    const response = await apiClient.post('/staff-roles', data);
+    return response.data;
+  },
+
+  updateRole: async (
+    id: number,
+    data: Omit<StaffRoleInput, 'restaurantId'>
+  ): Promise<StaffRoleWithCount> => {
+    const response = await apiClient.patch(`/staff-roles/${id}`, data);
+    return response.data;
+  },
+
+  deleteRole: async (id: number) => {
+    const response = await apiClient.delete(`/staff-roles/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Give a staff member a custom role; null restores the role defaults
+   */
+  assignRole: async (userId: number, staffRoleId: number | null) => {
+    const response = await apiClient.patch(`/staff-roles/users/${userId}`, {
+      staffRoleId,
+    });
+    return response.data;
+  },
+};
+
+export interface StaffDevice {
+  id: number;
+  restaurantId: number;
+  name: string;
+  lastUsedAt?: string | null;
+  createdAt: string;
+  deviceToken?: string; // Only in the response that registers the device
+}
+
+export interface DeviceStaffMember {
+  id: number;
+  fullName: string;
+  avatar?: string | null;
+  role: string;
+}
+
+export const staffDevicesApi = {
+  /**
+   * Register a shared device; keep the returned deviceToken on it
+   */
+  registerDevice: async (
+    name: string,
+    restaurantId?: number
+  ): Promise<StaffDevice> => {
+    const response = await apiClient.post('/auth/devices', {
+      name,
+      restaurantId,
+    });
+    return response.data;
+  },
+
+  getDevices: async (restaurantId?: number): Promise<StaffDevice[]> => {
+    const response = await apiClient.get('/auth/devices', {
+      params: { restaurantId },
+    });
+    return response.data;
+  },
+
+  revokeDevice: async (id: number) => {
+    const response = await apiClient.delete(`/auth/devices/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Staff who can sign in with a PIN on this device
+   */
+  getDeviceStaff: async (deviceToken: string): Promise<DeviceStaffMember[]> => {
+    const response = await apiClient.get('/auth/devices/staff', {
+      headers: { 'x-device-token': deviceToken },
+    });
+    return response.data;
+  },
+};
+
 export interface Restaurant {
   id: number;
   name: string;
   address?: string | null;
+  timezone: string;
+  taxRate: number | string; // VAT percent
+  serviceChargeRate: number | string; // Service charge percent
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -550,6 +1411,9 @@ export interface Restaurant {
 export interface UpdateRestaurantDto {
   name?: string;
   address?: string;
+  timezone?: string;
+  taxRate?: number;
+  serviceChargeRate?: number;
   isActive?: boolean;
 }
 
@@ -1,4 +1,5 @@
 import { apiClient } from './api';
+import { reconnectSocket } from './socket';
 
 export interface LoginRequest {
   email: string;
@@ -24,6 +25,14 @@ export interface AuthResponse {
   refreshToken?: string;
 }
 
+export interface PinLoginRequest {
+  deviceToken: string;
+  userId: number;
+  pin: string;
+}
+
+const DEVICE_TOKEN_KEY = 'staffDeviceToken';
+
 export interface ChangePasswordRequest {
   oldPassword: string;
   newPassword: string;
@@ -44,6 +53,7 @@ export const authService = {
       if (refreshToken) {
         localStorage.setItem('refreshToken', refreshToken);
       }
+      reconnectSocket();
     }
     
     // Return normalized response
@@ -54,6 +64,35 @@ export const authService = {
     };
   },
 
+  /**
+   * Quick switch on a shared staff device; signs the previous user out
+   */
+  async pinLogin(data: PinLoginRequest): Promise<AuthResponse> {
+    if (this.getToken()) {
+      await this.logout();
+    }
+
+    const response = await apiClient.post<any>('/auth/pin-login', data);
+    const token = response.data.access_token;
+    const refreshToken = response.data.refresh_token;
+    const user = response.data.user;
+
+    if (token && user) {
+      localStorage.setItem('token', token);
+      localStorage.setItem('user', JSON.stringify(user));
+      if (refreshToken) {
+        localStorage.setItem('refreshToken', refreshToken);
+      }
+      reconnectSocket();
+    }
+
+    return {
+      accessToken: token,
+      refreshToken,
+      user,
+    };
+  },
+
   async register(userData: RegisterRequest): Promise<AuthResponse> {
     const response = await apiClient.post<any>('/auth/register', userData);
     // Backend returns access_token (snake_case)
@@ -68,6 +107,7 @@ export const authService = {
       if (refreshToken) {
         localStorage.setItem('refreshToken', refreshToken);
       }
+      reconnectSocket();
     }
     
     // Return normalized response
@@ -82,6 +122,7 @@ export const authService = {
     localStorage.removeItem('token');
     localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
+    reconnectSocket();
   },
 
   async logout(): Promise<void> {
@@ -117,6 +158,21 @@ export const authService = {
     return localStorage.getItem('refreshToken');
   },
 
+  /**
+   * Secret of the shared device this browser is registered as, if any
+   */
+  getDeviceToken(): string | null {
+    return localStorage.getItem(DEVICE_TOKEN_KEY);
+  },
+
+  setDeviceToken(token: string | null): void {
+    if (token) {
+      localStorage.setItem(DEVICE_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(DEVICE_TOKEN_KEY);
+    }
+  },
+
   /**
    * Refresh access token using refresh token
    */
@@ -134,14 +190,23 @@ export const authService = {
       
       if (newAccessToken) {
         localStorage.setItem('token', newAccessToken);
+        // The refresh token rotates; the one just sent is used up
+        if (response.data.refresh_token) {
+          localStorage.setItem('refreshToken', response.data.refresh_token);
+        }
         // Update user data if provided
         if (response.data.user) {
           localStorage.setItem('user', JSON.stringify(response.data.user));
         }
+        reconnectSocket();
         return newAccessToken;
       }
       return null;
     } catch (error) {
+      // Another tab rotated the token first - use the tokens it stored
+      if (this.getRefreshToken() !== refreshToken && this.getToken()) {
+        return this.getToken();
+      }
       // Refresh failed - clear tokens and user data
       this.logoutLocally();
       return null;
@@ -182,7 +247,7 @@ export const authService = {
   async verifyOtp(data: {
     email: string;
     otpCode: string;
-  }): Promise<{ message: string; verified: boolean }> {
+  }): Promise<{ message: string; verified: boolean; attemptsLeft: number }> {
     const response = await apiClient.post<any>('/auth/verify-otp', data);
     return response.data;
   },
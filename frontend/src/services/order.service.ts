@@ -13,6 +13,8 @@ import type {
     OrderWithDetails,
     OrderListResponse,
     KitchenOrderCard,
+    OrderBill,
+    TableInfo,
 } from '@aerodine/shared-types'
 
 // ============================================================================
@@ -143,6 +145,20 @@ export const orderService = {
         return response.data
     },
 
+    /**
+     * Move an order to another table
+     * Returns the order with its new table
+     */
+    async transferOrder(
+        orderId: number,
+        tableId: number
+    ): Promise<Order & { table: TableInfo }> {
+        const response = await apiClient.post(`/orders/${orderId}/transfer`, {
+            tableId,
+        })
+        return response.data
+    },
+
     /**
      * Accept order
      */
@@ -179,20 +195,37 @@ export const orderService = {
 
     /**
      * Process cash payment for order
+     * Omit amount to pay the outstanding balance, pass it to split the bill
+     * tipAmount replaces the order's tip before the payment is taken
      */
-    async processCashPayment(orderId: number): Promise<Order> {
-        const response = await apiClient.post(`/orders/${orderId}/pay-cash`)
+    async processCashPayment(
+        orderId: number,
+        amount?: number,
+        tipAmount?: number,
+    ): Promise<OrderWithDetails> {
+        const response = await apiClient.post(`/orders/${orderId}/pay-cash`, {
+            amount,
+            tipAmount,
+        })
         return response.data
     },
 
     /**
      * Create Stripe checkout session for card payment
+     * Omit amount to charge the outstanding balance, pass it to split the bill
+     * tipAmount replaces the order's tip before the session is created
      */
-    async createStripeCheckout(orderId: number): Promise<{ url: string; sessionId: string }> {
+    async createStripeCheckout(
+        orderId: number,
+        amount?: number,
+        tipAmount?: number,
+    ): Promise<{ url: string; sessionId: string }> {
         const baseUrl = window.location.origin
         const response = await apiClient.post(`/orders/${orderId}/checkout`, {
             successUrl: `${baseUrl}/waiter/payment/success?order_id=${orderId}`,
             cancelUrl: `${baseUrl}/waiter/payment/cancel?order_id=${orderId}`,
+            amount,
+            tipAmount,
         })
         return response.data
     },
@@ -203,14 +236,23 @@ export const orderService = {
 
     /**
      * Get orders for Kitchen Display System
+     * Pass stationId to only get the items routed to that station
      */
-    async getKitchenOrders(restaurantId: number): Promise<KitchenOrderCard[]> {
+    async getKitchenOrders(restaurantId: number, stationId?: number): Promise<KitchenOrderCard[]> {
         const response = await apiClient.get('/orders/kitchen/display', {
-            params: { restaurantId },
+            params: { restaurantId, stationId },
         })
         return response.data
     },
 
+    /**
+     * Bump a finished ticket from the expo view (marks it served)
+     */
+    async bumpOrder(orderId: number): Promise<OrderWithDetails> {
+        const response = await apiClient.post(`/orders/${orderId}/bump`)
+        return response.data
+    },
+
     /**
      * Update order item status
      */
@@ -245,12 +287,35 @@ export const orderService = {
     // ========================================================================
 
     /**
-     * Request bill
+     * Request bill with its subtotal, discount, service charge, VAT and tip
      */
-    async requestBill(orderId: number): Promise<any> {
+    async requestBill(orderId: number): Promise<OrderBill> {
         const response = await apiClient.post(`/orders/${orderId}/bill`)
         return response.data
     },
+
+    /**
+     * Download the receipt of a paid order
+     * html and pdf open in the browser, escpos is raw bytes for thermal printers
+     */
+    async getReceipt(
+        orderId: number,
+        format: 'html' | 'pdf' | 'escpos' = 'pdf',
+    ): Promise<Blob> {
+        const response = await apiClient.get(`/receipts/${orderId}`, {
+            params: { format },
+            responseType: 'blob',
+        })
+        return response.data
+    },
+
+    /**
+     * Email the receipt; logged-in customers may omit the address
+     */
+    async emailReceipt(orderId: number, email?: string): Promise<{ message: string }> {
+        const response = await apiClient.post(`/receipts/${orderId}/email`, { email })
+        return response.data
+    },
 }
 
 export default orderService
@@ -1,10 +1,11 @@
 /**
  * Payment Service - Customer payment operations
- * Handles Stripe checkout and payment status tracking
+ * Handles Stripe checkout, wallet gateways (MoMo, VNPay, ZaloPay)
+ * and payment status tracking
  */
 
 import { apiClient } from './api'
-import { PaymentMethod } from '@aerodine/shared-types'
+import { PaymentMethod, PaymentProvider } from '@aerodine/shared-types'
 
 export const paymentService = {
     /**
@@ -21,9 +22,18 @@ export const paymentService = {
 
     /**
      * Create payment using payments service
-     * (Alternative method using /payments/create endpoint)
+     * Used for wallet gateways; the provider defaults by method on the server.
+     * amount defaults to the outstanding balance (split bill)
      */
-    async createPayment(orderId: number, method: PaymentMethod): Promise<{
+    async createPayment(
+        orderId: number,
+        method: PaymentMethod,
+        options: {
+            provider?: PaymentProvider
+            amount?: number
+            tipAmount?: number
+        } = {}
+    ): Promise<{
         payUrl: string
         paymentId: number
         orderId: number
@@ -31,6 +41,7 @@ export const paymentService = {
         const response = await apiClient.post('/payments/create', {
             orderId,
             method,
+            ...options,
         })
         return response.data
     },
@@ -1,5 +1,7 @@
 import { io, Socket } from 'socket.io-client'
 import { apiConfig } from '../config/api.config'
+import { getGuestSessionId } from '../utils/guestSession'
+import type { SocketHandshakeAuth } from '@aerodine/shared-types'
 
 /**
  * Socket.io client instance
@@ -18,7 +20,16 @@ export const getSocket = (): Socket => {
             autoConnect: true,
             reconnection: true,
             reconnectionDelay: 1000,
-            reconnectionAttempts: 5,
+            // Keep retrying; missed events are replayed once back online
+            reconnectionAttempts: Infinity,
+            // Read on every (re)connect so rooms see the latest credentials
+            auth: (cb) => {
+                const auth: SocketHandshakeAuth = {
+                    token: localStorage.getItem('token'),
+                    guestSessionId: getGuestSessionId(),
+                }
+                cb(auth)
+            },
         })
 
         socket.on('connect', () => {
@@ -37,6 +48,17 @@ export const getSocket = (): Socket => {
     return socket
 }
 
+/**
+ * Re-run the handshake after login, logout or a token refresh.
+ * Keeps the same instance so mounted hooks re-join their rooms on connect.
+ */
+export const reconnectSocket = (): void => {
+    if (socket) {
+        socket.disconnect()
+        socket.connect()
+    }
+}
+
 export const disconnectSocket = (): void => {
     if (socket) {
         socket.disconnect()
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { reconnectSocket } from '../services/socket';
 
 export interface User {
   id: number;
@@ -6,6 +7,7 @@ export interface User {
   fullName: string;
   avatar?: string | null;
   role: string;
+  restaurantId?: number | null; // Staff restaurant assignment
   createdAt?: string;
 }
 
@@ -25,6 +27,8 @@ export const useUserStore = create<UserState>((set) => ({
     localStorage.removeItem('token');
     localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
+    // Socket room access is bound to the token it connected with
+    reconnectSocket();
     set({ user: null, isAuthenticated: false });
   },
   initializeAuth: () => {
@@ -0,0 +1,22 @@
+import axios from 'axios'
+
+/**
+ * Message to show for a failed request
+ * Prefers the API's own message (validation errors arrive as a list),
+ * then the error's, then a generic fallback
+ */
+export function errorMessage(err: unknown): string {
+    if (axios.isAxiosError<{ message?: string | string[] }>(err)) {
+        const message = err.response?.data?.message
+        if (Array.isArray(message) && message.length > 0) {
+            return message.join(', ')
+        }
+        if (typeof message === 'string' && message) {
+            return message
+        }
+    }
+    if (err instanceof Error && err.message) {
+        return err.message
+    }
+    return 'Unknown error'
+}
@@ -6,14 +6,46 @@ export enum UserRole {
     CUSTOMER = 'CUSTOMER',
 }
 
+// Actions a custom staff role can be granted
+export enum Permission {
+    ORDERS_VOID = 'orders.void',
+    PAYMENTS_REFUND = 'payments.refund',
+    MENU_EDIT = 'menu.edit',
+    REPORTS_VIEW = 'reports.view',
+    PAYMENTS_CASH = 'payments.cash',
+    SHIFTS_MANAGE = 'shifts.manage',
+    RESERVATIONS_MANAGE = 'reservations.manage',
+    TABLES_MANAGE = 'tables.manage',
+}
+
 export enum TableStatus {
     AVAILABLE = 'AVAILABLE',
     OCCUPIED = 'OCCUPIED',
     RESERVED = 'RESERVED',
 }
 
+export enum ReservationStatus {
+    BOOKED = 'BOOKED',
+    SEATED = 'SEATED',
+    CANCELLED = 'CANCELLED',
+    NO_SHOW = 'NO_SHOW',
+}
+
 export enum ItemStatus {
     AVAILABLE = 'AVAILABLE',
     SOLD_OUT = 'SOLD_OUT',
     HIDDEN = 'HIDDEN',
 }
+
+export enum StockMovementType {
+    PURCHASE = 'PURCHASE',
+    CONSUMPTION = 'CONSUMPTION',
+    RELEASE = 'RELEASE', // Stock given back by a cancelled item
+    WASTE = 'WASTE',
+    ADJUSTMENT = 'ADJUSTMENT',
+}
+
+export enum DiscountType {
+    PERCENTAGE = 'PERCENTAGE',
+    FIXED = 'FIXED', // Amount off per unit
+}
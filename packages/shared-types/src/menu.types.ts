@@ -1,4 +1,4 @@
-import { ItemStatus } from './common.types'
+import { DiscountType, ItemStatus, StockMovementType } from './common.types'
 
 export interface MenuItem {
     id: number
@@ -9,6 +9,7 @@ export interface MenuItem {
     basePrice: number | string // Decimal from Prisma
     status: ItemStatus
     stockQuantity?: number | null // null = unlimited stock
+    stationId?: number | null // Overrides the category station
     createdAt: Date
     updatedAt: Date
     restaurant?: {
@@ -21,6 +22,42 @@ export interface MenuItem {
     }
     images?: MenuItemImage[]
     modifierGroups?: ModifierGroup[]
+    availabilityWindows?: AvailabilityWindow[]
+    isOnSchedule?: boolean // Day-part schedule open at the requested time
+}
+
+// Day-part schedule of a menu item or category, in the restaurant timezone
+// No windows = always on the menu; several windows = any of them
+export interface AvailabilityWindow {
+    id?: number
+    daysOfWeek: number[] // 0 = Sunday; empty = every day
+    startTime?: string | null // HH:mm, inclusive
+    endTime?: string | null // HH:mm, exclusive; before startTime = overnight
+    startDate?: Date | string | null // First day, inclusive
+    endDate?: Date | string | null // Last day, inclusive
+}
+
+// Automatic discount while its schedule is open; no scope = whole menu
+export interface PricingRule {
+    id: number
+    restaurantId: number
+    name: string
+    discountType: DiscountType
+    value: number | string // Percent off, or amount off per unit
+    menuItemId?: number | null
+    categoryId?: number | null
+    modifierOptionId?: number | null // Discounts only that option's price
+    daysOfWeek: number[]
+    startTime?: string | null
+    endTime?: string | null
+    startDate?: Date | string | null
+    endDate?: Date | string | null
+    isActive: boolean
+    createdAt: Date | string
+    updatedAt: Date | string
+    menuItem?: { id: number; name: string } | null
+    category?: { id: number; name: string } | null
+    modifierOption?: { id: number; name: string } | null
 }
 
 export interface MenuItemImage {
@@ -60,6 +97,58 @@ export interface ItemModifierGroup {
     modifierGroup?: ModifierGroup
 }
 
+// Inventory: stock is counted per ingredient, recipes are per portion
+export interface Ingredient {
+    id: number
+    restaurantId: number
+    name: string
+    unit: string
+    stockQuantity: number | string // Decimal from Prisma
+    lowStockThreshold: number | string
+    costPerUnit: number | string
+    isLowStock?: boolean
+    createdAt: Date | string
+    updatedAt: Date | string
+    _count?: { recipes: number }
+}
+
+export interface RecipeIngredient {
+    menuItemId: number
+    ingredientId: number
+    quantity: number | string
+    ingredient?: Ingredient
+}
+
+export interface ModifierOptionIngredient {
+    modifierOptionId: number
+    ingredientId: number
+    quantity: number | string // Negative when the option removes an ingredient
+    ingredient?: Ingredient
+}
+
+export interface StockMovement {
+    id: number
+    ingredientId: number | null
+    menuItemId?: number | null // Portion count movements have no ingredient
+    type: StockMovementType
+    quantity: number | string // Signed change applied to stock
+    orderId?: number | null
+    orderItemId?: number | null
+    note?: string | null
+    createdAt: Date | string
+}
+
+export interface MenuItemCosting {
+    menuItemId: number
+    name: string
+    status: ItemStatus
+    basePrice: number | string
+    hasRecipe: boolean
+    foodCost: number | string
+    margin: number | string
+    foodCostPercent: number | string | null
+}
+
 // Legacy interface for backward compatibility
 export interface Menu {
     id?: string
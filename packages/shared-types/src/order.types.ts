@@ -5,6 +5,8 @@
  * @author Dev 2 - Operations Team
  */
 
+import { DiscountType } from './common.types'
+
 // ============================================================================
 // ENUMS (Matching Prisma)
 // ============================================================================
@@ -32,10 +34,40 @@ export enum PaymentMethod {
     CARD = 'CARD',
 }
 
+// Gateway that took a non-cash payment
+export enum PaymentProvider {
+    STRIPE = 'STRIPE',
+    MOMO = 'MOMO',
+    VNPAY = 'VNPAY',
+    ZALOPAY = 'ZALOPAY',
+}
+
 export enum PaymentStatus {
     PENDING = 'PENDING',
     SUCCESS = 'SUCCESS',
     FAILED = 'FAILED',
+    PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+    REFUNDED = 'REFUNDED',
+    EXPIRED = 'EXPIRED', // Abandoned at the gateway
+}
+
+export enum CashShiftStatus {
+    OPEN = 'OPEN',
+    CLOSED = 'CLOSED',
+}
+
+export enum PaymentDiscrepancyType {
+    GATEWAY_AMOUNT = 'GATEWAY_AMOUNT', // Gateway captured a different amount
+    ORDER_TOTAL = 'ORDER_TOTAL', // Captured payments do not add up to the order total
+    MISSED_CALLBACK = 'MISSED_CALLBACK', // Paid at the gateway, no IPN received
+}
+
+export enum RefundStatus {
+    PENDING_APPROVAL = 'PENDING_APPROVAL', // Waiting for a manager
+    PROCESSING = 'PROCESSING',
+    COMPLETED = 'COMPLETED',
+    REJECTED = 'REJECTED',
+    FAILED = 'FAILED', // Declined by the payment gateway
 }
 
 // ============================================================================
@@ -50,18 +82,33 @@ export interface Order {
     waiterId?: number | null
     guestSessionId?: string | null // For tracking guest orders across devices
     status: OrderStatus
+    // totalAmount = subtotal - discountAmount + serviceCharge + taxAmount + tipAmount
+    subtotal?: number | string // Items after pricing rules
+    discountAmount?: number | string // Promo code discount
+    serviceChargeRate?: number | string // Percent, fixed when the order was placed
+    serviceCharge?: number | string
+    taxRate?: number | string // VAT percent
+    taxAmount?: number | string
+    tipAmount?: number | string
     totalAmount: number
+    refundedAmount?: number | string // Completed refunds
+    promoCodeId?: number | null
     guestCount: number
     note?: string | null
     createdAt: Date | string
     updatedAt: Date | string
 
     // Relations (optional, populated when included)
+    promoCode?: { id: number; code: string } | null
     table?: TableInfo
     customer?: UserInfo
     waiter?: UserInfo
     items?: OrderItem[]
-    payment?: Payment
+    payments?: Payment[] // Several payments when the bill is split
+
+    // Split-bill progress (populated on single-order responses)
+    paidAmount?: number
+    balanceDue?: number
 }
 
 export interface OrderItem {
@@ -71,8 +118,16 @@ export interface OrderItem {
     name: string
     quantity: number
     pricePerUnit: number
+    listPrice?: number | string | null // Unit price before the pricing rule
+    pricingRuleId?: number | null
+    pricingRuleName?: string | null // Discount applied when ordered
     status: OrderItemStatus
     note?: string | null
+    startedAt?: Date | string | null // PREPARING
+    readyAt?: Date | string | null // READY
+    servedAt?: Date | string | null // SERVED
+    stationId?: number | null // KDS station the item was routed to
+    stockReserved?: boolean // Stock held since the order was accepted
     createdAt: Date | string
     updatedAt: Date | string
 
@@ -94,11 +149,90 @@ export interface Payment {
     orderId: number
     amount: number
     method: PaymentMethod
+    provider?: PaymentProvider | null
     status: PaymentStatus
+    refundedAmount?: number | string
     createdAt: Date | string
     updatedAt: Date | string
 }
 
+export interface RefundItem {
+    id: number
+    refundId: number
+    orderItemId: number
+    quantity: number
+    amount: number | string // Item's share of the order total
+    orderItem?: { id: number; name: string; quantity: number }
+}
+
+export interface Refund {
+    id: number
+    orderId: number
+    paymentId: number
+    amount: number | string
+    reason: string
+    status: RefundStatus
+    externalRefundId?: string | null // Gateway refund reference
+    note?: string | null // Gateway error or rejection reason
+    requestedById: number
+    approvedById?: number | null
+    processedAt?: Date | string | null
+    createdAt: Date | string
+    updatedAt: Date | string
+
+    // Relations
+    order?: { id: number; restaurantId: number; table?: TableInfo }
+    payment?: Pick<Payment, 'id' | 'method' | 'amount'>
+    requestedBy?: { id: number; fullName: string }
+    approvedBy?: { id: number; fullName: string } | null
+    items?: RefundItem[]
+}
+
+export interface PaymentDiscrepancy {
+    id: number
+    restaurantId: number
+    orderId: number
+    paymentId?: number | null
+    type: PaymentDiscrepancyType
+    expectedAmount: number | string
+    actualAmount: number | string
+    note?: string | null
+    detectedAt: Date | string
+    resolvedAt?: Date | string | null
+
+    // Relations
+    order?: { id: number; table?: TableInfo }
+    payment?: Pick<Payment, 'id' | 'method' | 'provider' | 'amount'> | null
+}
+
+// Cashier's drawer session, opened with a float and closed with a count
+export interface CashShift {
+    id: number
+    restaurantId: number
+    cashierId: number
+    status: CashShiftStatus
+    openingFloat: number | string
+    expectedCash?: number | string | null // Fixed when the shift closes
+    countedCash?: number | string | null
+    overShort?: number | string | null // Counted - expected; negative when short
+    note?: string | null
+    openedAt: Date | string
+    closedAt?: Date | string | null
+
+    // Relations
+    cashier?: { id: number; fullName: string }
+}
+
+// Drawer totals of a shift; live while it is open
+export interface CashShiftSummary {
+    cashPayments: number
+    cashSales: number
+    cashRefunds: number
+    expectedCash: number
+}
+
+export type CashShiftWithSummary = CashShift & { summary: CashShiftSummary }
+
 // ============================================================================
 // RELATED INFO TYPES (Minimal data for display)
 // ============================================================================
@@ -124,6 +258,59 @@ export interface MenuItemInfo {
     status: 'AVAILABLE' | 'SOLD_OUT' | 'HIDDEN'
 }
 
+// Bill returned by requestBill
+export interface OrderBill {
+    orderId: number
+    tableId: number
+    tableName: string
+    subtotal: number | string
+    discountAmount: number | string
+    serviceChargeRate: number | string
+    serviceCharge: number | string
+    taxRate: number | string
+    taxAmount: number | string
+    tipAmount: number | string
+    totalAmount: number | string
+    paidAmount: number | string
+    balanceDue: number | string
+    items: OrderItem[]
+}
+
+// ============================================================================
+// PROMO CODES
+// ============================================================================
+
+// Code entered at checkout; discounts the order subtotal once
+export interface PromoCode {
+    id: number
+    restaurantId: number
+    code: string
+    description?: string | null
+    discountType: DiscountType
+    value: number | string // Percent off, or amount off the order
+    maxDiscount?: number | string | null // Cap for percentage codes
+    minSpend: number | string
+    usageLimit?: number | null // null = unlimited
+    perUserLimit?: number | null // Per customer account or guest session
+    usedCount: number
+    startsAt?: Date | string | null
+    expiresAt?: Date | string | null
+    isActive: boolean
+    createdAt: Date | string
+    updatedAt: Date | string
+}
+
+// Result of checking a code against the cart
+export interface PromoCodeRedemption {
+    promoCodeId: number
+    code: string
+    description?: string | null
+    discountType: DiscountType
+    value: number
+    discountAmount: number
+    totalAfterDiscount: number
+}
+
 // ============================================================================
 // DTO TYPES (Data Transfer Objects)
 // ============================================================================
@@ -134,6 +321,7 @@ export interface CreateOrderDto {
     userId?: number
     guestCount?: number
     note?: string
+    promoCode?: string
     items: CreateOrderItemDto[]
 }
 
@@ -192,7 +380,7 @@ export interface OrderWithDetails extends Order {
     items: OrderItemWithModifiers[]
     waiter?: UserInfo
     customer?: UserInfo
-    payment?: Payment
+    payments?: Payment[]
 }
 
 export interface OrderItemWithModifiers extends OrderItem {
@@ -1,9 +1,13 @@
-import { UserRole } from './common.types'
+import { UserRole, ReservationStatus } from './common.types'
+import { AvailabilityWindow } from './menu.types'
 
 export interface Restaurant {
   id: number
   name: string
   address?: string | null
+  timezone: string
+  taxRate: number | string // VAT percent, added on top of menu prices
+  serviceChargeRate: number | string // Percent of the discounted subtotal
   isActive: boolean
   createdAt: Date
   updatedAt: Date
@@ -17,7 +21,9 @@ export interface Table {
   status: 'AVAILABLE' | 'OCCUPIED' | 'RESERVED'
   token: string
   isActive: boolean
+  joinedToId?: number | null // Primary table when joined for a large party
   restaurant?: Restaurant
+  joinedTables?: Pick<Table, 'id' | 'name' | 'capacity'>[]
 }
 
 export interface Category {
@@ -26,6 +32,34 @@ export interface Category {
   name: string
   image?: string | null
   rank: number
+  stationId?: number | null // Default KDS station for the category's items
   restaurant?: Restaurant
+  station?: KitchenStation | null
+  availabilityWindows?: AvailabilityWindow[]
 }
 
+export interface KitchenStation {
+  id: number
+  restaurantId: number
+  name: string
+  rank: number
+  isActive: boolean
+}
+
+export interface Reservation {
+  id: number
+  restaurantId: number
+  tableId?: number | null
+  partySize: number
+  reservedAt: Date | string // Start of the slot
+  durationMinutes: number
+  contactName: string
+  contactPhone: string
+  contactEmail?: string | null
+  note?: string | null
+  status: ReservationStatus
+  seatedAt?: Date | string | null
+  createdAt: Date | string
+  updatedAt: Date | string
+  table?: Pick<Table, 'id' | 'name' | 'capacity' | 'status'> | null
+}
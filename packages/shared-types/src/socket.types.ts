@@ -20,8 +20,13 @@ export const SocketEvents = {
     JOIN_TABLE: 'join_table',
     LEAVE_TABLE: 'leave_table',
     JOIN_KITCHEN: 'join_kitchen',
+    JOIN_STATION: 'join_station',
+    LEAVE_STATION: 'leave_station',
     JOIN_WAITER: 'join_waiter',
 
+    // Replay of missed events after a reconnect
+    REPLAY_EVENTS: 'replay_events',
+
     // Order events (from client)
     NEW_ORDER: 'new_order',
     ADD_ITEMS_TO_ORDER: 'add_items_to_order',
@@ -75,6 +80,15 @@ export type SocketEventName = (typeof SocketEvents)[keyof typeof SocketEvents]
 // PAYLOAD TYPES
 // ============================================================================
 
+/**
+ * Credentials sent in the Socket.IO handshake (`auth` option)
+ * Staff send their access token; guests send their guest session
+ */
+export interface SocketHandshakeAuth {
+    token?: string | null
+    guestSessionId?: string | null
+}
+
 // Room join payloads
 export interface JoinRestaurantPayload {
     restaurantId: number
@@ -93,11 +107,30 @@ export interface JoinKitchenPayload {
     userId: number
 }
 
+export interface JoinStationPayload {
+    restaurantId: number
+    stationId: number
+    userId: number
+}
+
 export interface JoinWaiterPayload {
     restaurantId: number
     userId: number
 }
 
+// Replay payloads
+export interface ReplayEventsPayload {
+    restaurantId: number
+    lastSeq?: number | null // Highest sequence seen before the disconnect
+}
+
+export interface ReplayEventsAck {
+    success: boolean
+    replayed: number
+    latestSeq: number
+    complete: boolean // false when lastSeq fell outside the retention window
+}
+
 // Order payloads
 export interface NewOrderPayload {
     restaurantId: number
@@ -159,6 +192,29 @@ export interface RequestBillPayload {
 // RESPONSE/BROADCAST TYPES
 // ============================================================================
 
+/**
+ * Fields the server stamps on replayable events (ORDER_* and
+ * TABLE_STATUS_CHANGED) - seq is monotonic per restaurant
+ */
+export interface SequencedEvent {
+    restaurantId: number
+    seq: number
+}
+
+export const ReplayableSocketEvents: string[] = [
+    SocketEvents.ORDER_CREATED,
+    SocketEvents.ORDER_UPDATED,
+    SocketEvents.ORDER_STATUS_CHANGED,
+    SocketEvents.ORDER_ITEMS_ADDED,
+    SocketEvents.ORDER_CANCELLED,
+    SocketEvents.ORDER_ITEM_STATUS_CHANGED,
+    SocketEvents.ORDER_ITEM_READY,
+    SocketEvents.ORDER_ACCEPTED,
+    SocketEvents.ORDER_REJECTED,
+    SocketEvents.ORDER_SERVED,
+    SocketEvents.TABLE_STATUS_CHANGED,
+]
+
 export interface OrderCreatedEvent {
     order: OrderSummary
     tableId: number
@@ -185,6 +241,7 @@ export interface OrderItemStatusChangedEvent {
     previousStatus: OrderItemStatusType
     newStatus: OrderItemStatusType
     updatedAt: string
+    stationId?: number | null
 }
 
 export interface KitchenOrderEvent {
@@ -208,6 +265,7 @@ export interface TableStatusEvent {
     previousStatus: TableStatusType
     newStatus: TableStatusType
     orderId?: number
+    reservationId?: number // Set when a reservation drove the change
 }
 
 export interface MenuItemStatusChangedEvent {
@@ -229,10 +287,19 @@ export interface OrderSummary {
     tableName: string
     status: OrderStatusType
     totalAmount: number
+    subtotal?: number // Breakdown of totalAmount
+    discountAmount?: number
+    serviceChargeRate?: number
+    serviceCharge?: number
+    taxRate?: number
+    taxAmount?: number
+    tipAmount?: number
     guestCount: number
     note?: string
     items: OrderItemSummary[]
     waiterName?: string
+    paidAmount?: number // Sum of successful payments (split bill)
+    balanceDue?: number // Outstanding amount before the order completes
     createdAt: string
     updatedAt: string
 }
@@ -275,6 +342,8 @@ export interface KitchenItemView {
     prepTimeMinutes?: number
     startedAt?: string
     isOverdue?: boolean
+    stationId?: number | null
+    stationName?: string
 }
 
 // ============================================================================
@@ -325,7 +394,13 @@ export interface ClientToServerEvents {
     [SocketEvents.JOIN_TABLE]: (payload: JoinTablePayload) => void
     [SocketEvents.LEAVE_TABLE]: (payload: { tableId: number }) => void
     [SocketEvents.JOIN_KITCHEN]: (payload: JoinKitchenPayload) => void
+    [SocketEvents.JOIN_STATION]: (payload: JoinStationPayload) => void
+    [SocketEvents.LEAVE_STATION]: (payload: { stationId: number }) => void
     [SocketEvents.JOIN_WAITER]: (payload: JoinWaiterPayload) => void
+    [SocketEvents.REPLAY_EVENTS]: (
+        payload: ReplayEventsPayload,
+        ack: (result: ReplayEventsAck) => void
+    ) => void
     [SocketEvents.NEW_ORDER]: (payload: NewOrderPayload) => void
     [SocketEvents.ADD_ITEMS_TO_ORDER]: (payload: AddItemsToOrderPayload) => void
     [SocketEvents.CANCEL_ORDER]: (payload: { orderId: number; reason?: string }) => void
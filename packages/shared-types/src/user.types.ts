@@ -1,4 +1,4 @@
-import { UserRole } from './common.types'
+import { Permission, UserRole } from './common.types'
 
 export interface User {
   id: number
@@ -6,7 +6,7 @@ export interface User {
   passwordHash: string
   fullName: string
   role: UserRole
-  refreshToken?: string | null
+  restaurantId?: number | null // Staff restaurant assignment
   createdAt: Date
   updatedAt: Date
 }
@@ -17,6 +17,31 @@ export interface UserPublic {
   fullName: string
   role: UserRole
   isActive: boolean
+  restaurantId?: number | null
+  staffRoleId?: number | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Permissions of staff without a custom role; admins always hold all of them
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.WAITER]: [
+    Permission.ORDERS_VOID,
+    Permission.PAYMENTS_CASH,
+    Permission.SHIFTS_MANAGE,
+    Permission.RESERVATIONS_MANAGE,
+    Permission.TABLES_MANAGE,
+  ],
+  [UserRole.KITCHEN]: [],
+  [UserRole.CUSTOMER]: [],
+}
+
+export interface StaffRole {
+  id: number
+  restaurantId?: number | null // null: offered at every restaurant
+  name: string
+  permissions: Permission[]
   createdAt: Date
   updatedAt: Date
 }